@@ -0,0 +1,101 @@
+export const LLM_PROVIDERS = ['gemini', 'groq', 'self-hosted', 'local'] as const;
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+export const LLM_FEATURES = [
+  'resume_parsing',
+  'candidate_evaluation',
+  'rejection_feedback',
+  'applicant_feedback',
+  'github_analysis',
+  'interview_questions',
+  'interview_answer_evaluation',
+  'interview_final_evaluation',
+  'interview_transcription',
+  'interview_speech'
+] as const;
+export type LlmFeature = typeof LLM_FEATURES[number];
+
+export type LlmCapability = 'chat' | 'transcription' | 'speech';
+
+interface FeatureConfig {
+  capability: LlmCapability;
+  providers: LlmProviderName[]; // Tried in order
+  models?: Partial<Record<LlmProviderName, string>>; // Overrides of the provider's default model
+}
+
+const FEATURE_DEFAULTS: Record<LlmFeature, FeatureConfig> = {
+  resume_parsing: { capability: 'chat', providers: ['gemini'] },
+  candidate_evaluation: { capability: 'chat', providers: ['gemini'] },
+  rejection_feedback: { capability: 'chat', providers: ['gemini'] },
+  applicant_feedback: { capability: 'chat', providers: ['gemini'], models: { gemini: 'gemini-2.0-flash' } },
+  github_analysis: { capability: 'chat', providers: ['gemini'] },
+  interview_questions: { capability: 'chat', providers: ['groq'] },
+  interview_answer_evaluation: { capability: 'chat', providers: ['groq'] },
+  interview_final_evaluation: { capability: 'chat', providers: ['groq'] },
+  // Groq when it has keys and is healthy, otherwise whisper.cpp/Piper on this machine
+  interview_transcription: { capability: 'transcription', providers: ['groq', 'self-hosted'] },
+  interview_speech: { capability: 'speech', providers: ['groq', 'self-hosted'] }
+};
+
+const parseProviders = (value: string | undefined): LlmProviderName[] =>
+  (value || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter((name): name is LlmProviderName => {
+      if (!name) return false;
+      if (!LLM_PROVIDERS.includes(name as LlmProviderName)) {
+        console.warn(`⚠️ Unknown LLM provider "${name}" ignored`);
+        return false;
+      }
+      return true;
+    });
+
+/**
+ * Providers to try for a feature, in order. LLM_PROVIDER_<FEATURE> (e.g.
+ * LLM_PROVIDER_RESUME_PARSING=groq,gemini) wins over LLM_PROVIDER, which wins over
+ * the defaults. Tests run on the offline local provider unless configured otherwise.
+ */
+export const getFeatureProviders = (feature: LlmFeature): LlmProviderName[] => {
+  const perFeature = parseProviders(process.env[`LLM_PROVIDER_${feature.toUpperCase()}`]);
+  if (perFeature.length) return perFeature;
+
+  const global = parseProviders(process.env.LLM_PROVIDER);
+  if (global.length) return global;
+
+  return process.env.NODE_ENV === 'test' ? ['local'] : FEATURE_DEFAULTS[feature].providers;
+};
+
+export const getFeatureCapability = (feature: LlmFeature): LlmCapability =>
+  FEATURE_DEFAULTS[feature].capability;
+
+export const getFeatureModel = (feature: LlmFeature, provider: LlmProviderName): string | undefined =>
+  FEATURE_DEFAULTS[feature].models?.[provider];
+
+const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+const parsePositive = (value: string | undefined): number | undefined => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Tokens a feature may use per UTC day (LLM_DAILY_TOKEN_BUDGET_<FEATURE>).
+ * Undefined means no limit.
+ */
+export const getFeatureDailyBudget = (feature: LlmFeature): number | undefined =>
+  parsePositive(process.env[`LLM_DAILY_TOKEN_BUDGET_${feature.toUpperCase()}`]);
+
+/**
+ * Tokens the AI calls made for one recruiter may use per UTC day, across features
+ */
+export const getRecruiterDailyBudget = (): number | undefined =>
+  parsePositive(process.env.LLM_DAILY_TOKEN_BUDGET_PER_RECRUITER);
+
+/**
+ * How long cached replies are reused. LLM_CACHE_TTL_HOURS=0 turns the cache off.
+ */
+export const getCacheTtlHours = (): number => {
+  const value = process.env.LLM_CACHE_TTL_HOURS;
+  if (value !== undefined && value.trim() === '0') return 0;
+  return parsePositive(value) ?? DEFAULT_CACHE_TTL_HOURS;
+};
@@ -0,0 +1,32 @@
+import jobScheduler from '../services/job-scheduler.service';
+import interviewReminderService from '../services/interview-reminder.service';
+import taskQueue from '../services/task-queue.service';
+import bulkEvaluationService from '../services/bulk-evaluation.service';
+import { scoringService } from '../services/scoring.service';
+
+/**
+ * Register the recurring background jobs. The long-running server polls for them
+ * in-process; serverless deployments hit /api/scheduler/run from a cron instead.
+ */
+export const initializeScheduler = () => {
+  // Re-score drop-off risk, send automatic reminders and escalate high-risk interviews
+  jobScheduler.register(
+    'interview-reminders',
+    Number(process.env.INTERVIEW_REMINDER_INTERVAL_MINUTES) || 15,
+    () => interviewReminderService.runScheduledTasks()
+  );
+
+  // Queued background tasks. The server runs them with in-process workers; without
+  // those (serverless) each scheduler run works through the queue for a while.
+  bulkEvaluationService.registerQueue();
+  scoringService.registerRerankQueue();
+  jobScheduler.register(
+    'task-queue',
+    1,
+    () => taskQueue.drain((Number(process.env.TASK_QUEUE_DRAIN_SECONDS) || 45) * 1000)
+  );
+};
+
+export const isSchedulerEnabled = () => process.env.SCHEDULER_ENABLED !== 'false';
+
+export { jobScheduler, taskQueue };
@@ -1,13 +1,21 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { ApplicantProfile, IApplicantProfile } from '../models/ApplicantProfile.model';
+import { ApplicantProfile } from '../models/ApplicantProfile.model';
 import { Application } from '../models/Application.model';
+import { EvaluationBatch } from '../models/EvaluationBatch.model';
 import { Job, IJob } from '../models/Job.model';
 import { User, IUser } from '../models/User.model';
 import { AppError } from '../middleware/errorHandler';
 import githubService from '../services/github.service';
-import { CandidateData, JobData, buildEvaluationFromScoring, evaluateCandidateWithGemini } from '../services/gemini.service';
-import { scoringService } from '../services/scoring.service';
+import {
+  buildCandidatePayload,
+  buildJobPayload,
+  evaluateCandidateWithGemini
+} from '../services/gemini.service';
+import organizationService from '../services/organization.service';
+import evaluationHistoryService from '../services/evaluation-history.service';
+import bulkEvaluationService from '../services/bulk-evaluation.service';
+import autoEvaluationService from '../services/auto-evaluation.service';
 
 // Analyze GitHub profile
 export const analyzeGitHub = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -37,11 +45,14 @@ export const analyzeGitHub = async (req: AuthRequest, res: Response, next: NextF
             insights: analysis.insights,
             lastAnalyzed: new Date(),
             repoCount: analysis.profileData.publicRepos,
+            promptVersion: analysis.promptVersion,
           },
         },
         { upsert: true }
       );
       console.log(`📝 Profile updated for user: ${req.user.id}`);
+      await autoEvaluationService.rescoreOpenApplications(req.user.id)
+        .catch(err => console.error('Re-scoring failed:', err));
     }
 
     res.status(200).json({
@@ -55,39 +66,6 @@ export const analyzeGitHub = async (req: AuthRequest, res: Response, next: NextF
   }
 };
 
-const buildCandidatePayload = (
-  user: IUser,
-  applicant?: IApplicantProfile | null,
-  coverLetter?: string
-): CandidateData => ({
-  applicantName: user?.fullName || 'Unknown',
-  applicantEmail: user?.email || '',
-  skills: applicant?.skills ?? [],
-  experience: applicant?.experience ?? [],
-  education: applicant?.education ?? [],
-  projects: applicant?.projects ?? [],
-  certifications: applicant?.certifications ?? [],
-  yearsOfExperience: applicant?.yearsOfExperience ?? 0,
-  githubUsername: applicant?.githubUsername,
-  githubScore: applicant?.githubAnalysis?.score,
-  githubTopLanguages: applicant?.githubAnalysis?.topLanguages,
-  leetcodeStats: applicant?.leetcodeStats,
-  leetcodeScore: applicant?.leetcodeStats?.score,
-  resumeText: applicant?.resumeText,
-  coverLetter,
-});
-
-const buildJobPayload = (job: IJob): JobData => ({
-  title: job.title,
-  description: job.description,
-  department: job.department || 'General',
-  requiredSkills: job.requiredSkills || [],
-  experienceLevel: job.experienceLevel || 'mid',
-  jobCategory: job.jobCategory || 'software',
-  location: job.location || 'Remote',
-  employmentType: job.employmentType || 'Full-time',
-});
-
 // Evaluate application with AI insights (using Gemini)
 export const evaluateApplication = async (
   req: AuthRequest,
@@ -124,7 +102,8 @@ export const evaluateApplication = async (
       candidateData, 
       jobData,
       applicant || undefined,  // Pass ApplicantProfile for fallback scoring
-      job                       // Pass Job model for fallback scoring
+      job,                      // Pass Job model for fallback scoring
+      application._id.toString()
     );
     console.log('✅ Gemini evaluation complete:', aiEvaluation.overallScore);
 
@@ -156,16 +135,30 @@ export const evaluateApplication = async (
       confidenceScore: aiEvaluation.confidenceScore,
       // Detailed Risk Factors
       riskFactors: aiEvaluation.riskFactors,
-      scoringBreakdown: aiEvaluation.scoringBreakdown
+      scoringBreakdown: aiEvaluation.scoringBreakdown,
+      // Score provenance
+      aiScore: aiEvaluation.aiScore,
+      weightProfile: aiEvaluation.weightProfile
+        ? { ...aiEvaluation.weightProfile, appliedAt: new Date() }
+        : undefined,
+      contributions: aiEvaluation.contributions,
+      promptVersion: aiEvaluation.promptVersion
     };
 
-    await application.save();
+    // Keep this evaluation as a new version instead of losing the previous score
+    await evaluationHistoryService.record(application, {
+      trigger: 'manual',
+      job,
+      profile: applicant,
+      evaluatedBy: req.user?.id
+    });
 
     res.status(200).json({
       status: 'success',
       message: 'Application evaluated successfully with GCC AI Assessment',
       data: {
         aiInsights: application.aiInsights,
+        evaluationVersion: application.evaluationVersion,
         aiSummary: aiEvaluation.aiSummary,
         projectAnalysis: aiEvaluation.projectAnalysis,
         interviewQuestions: aiEvaluation.interviewQuestions,
@@ -177,7 +170,7 @@ export const evaluateApplication = async (
   }
 };
 
-// Batch evaluate all applications for a job
+// Queue an evaluation of all applications for a job
 export const evaluateJobApplications = async (
   req: AuthRequest,
   res: Response,
@@ -186,61 +179,73 @@ export const evaluateJobApplications = async (
   try {
     const { jobId } = req.params;
 
-    // Verify job belongs to recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify job belongs to recruiter (or their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
 
-    // Get all applications for this job
-    const applications = await Application.find({ jobId }).populate('applicantId');
-    const jobData = buildJobPayload(job);
+    const batch = await bulkEvaluationService.startBatch(job, req.user!.id);
+    const progress = await bulkEvaluationService.getProgress(batch);
+
+    res.status(202).json({
+      status: 'success',
+      message: `Evaluating ${batch.total} applications in the background`,
+      data: progress,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Latest bulk evaluation of a job, so the page can resume showing its progress
+export const getLatestEvaluationBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { jobId } = req.params;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.exists({ _id: jobId, ...scope });
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    const batch = await EvaluationBatch.findOne({ jobId }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      data: batch ? await bulkEvaluationService.getProgress(batch) : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    let evaluated = 0;
-    let failed = 0;
-
-    // Evaluate each application
-    for (const application of applications) {
-      try {
-        const applicantUser = application.applicantId as unknown as IUser;
-        if (!applicantUser) {
-          failed++;
-          continue;
-        }
-
-        const applicantProfile = await ApplicantProfile.findOne({
-          userId: applicantUser._id,
-        });
-
-        if (!applicantProfile) {
-          failed++;
-          continue;
-        }
-
-        const candidatePayload = buildCandidatePayload(applicantUser, applicantProfile, application.coverLetter);
-        const scoringResult = await scoringService.evaluateCandidate(job, applicantProfile);
-        const evaluation = buildEvaluationFromScoring(scoringResult, candidatePayload, jobData);
-
-        application.aiInsights = {
-          ...evaluation,
-        } as any;
-
-        await application.save();
-        evaluated++;
-      } catch (error) {
-        failed++;
-        console.error(`Failed to evaluate application ${application._id}:`, error);
-      }
+// Progress of a bulk evaluation, with the reason each failed application failed
+export const getEvaluationBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await EvaluationBatch.findById(req.params.batchId);
+    if (!batch) {
+      throw new AppError('Evaluation batch not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.exists({ _id: batch.jobId, ...scope });
+    if (!job) {
+      throw new AppError('Evaluation batch not found', 404);
     }
 
     res.status(200).json({
       status: 'success',
-      message: `Evaluated ${evaluated} applications`,
-      data: {
-        total: applications.length,
-        evaluated,
-        failed,
-      },
+      data: await bulkEvaluationService.getProgress(batch),
     });
   } catch (error) {
     next(error);
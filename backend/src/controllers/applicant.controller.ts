@@ -4,6 +4,8 @@ import { User } from '../models/User.model';
 import { AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth.middleware';
 import resumeParserService from '../services/resume-parser.service';
+import skillProficiencyService from '../services/skill-proficiency.service';
+import autoEvaluationService from '../services/auto-evaluation.service';
 
 export const getProfile = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -44,13 +46,20 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
 
 export const updateProfile = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { skills, experience, education, githubUsername, leetcodeUsername, experienceText, educationText, preferredRoles, resumeUrl, resumeFileName, yearsOfExperience, bio, location, linkedinUrl, portfolioUrl, projects, certifications } = req.body;
+    const { skills, skillProficiencies, experience, education, githubUsername, leetcodeUsername, experienceText, educationText, preferredRoles, resumeUrl, resumeFileName, yearsOfExperience, bio, location, linkedinUrl, portfolioUrl, projects, certifications } = req.body;
 
     // Check if profile exists
     let profile = await ApplicantProfile.findOne({ userId: req.user?.id });
 
     const updateData: any = {};
     if (skills) updateData.skills = skills;
+    // Levels only apply to skills still on the profile
+    const profileSkills: string[] = skills || profile?.skills || [];
+    if (skillProficiencies !== undefined) {
+      updateData.skillProficiencies = skillProficiencyService.normalizeProficiencies(skillProficiencies, profileSkills);
+    } else if (skills && profile) {
+      updateData.skillProficiencies = skillProficiencyService.normalizeProficiencies(profile.skillProficiencies, profileSkills);
+    }
     if (preferredRoles) updateData.preferredRoles = preferredRoles;
     if (experience) updateData.experience = experience;
     if (education) updateData.education = education;
@@ -89,6 +98,12 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
       );
     }
 
+    // Keep the applicant's open applications scored against the updated profile
+    if (autoEvaluationService.affectsScore(Object.keys(updateData))) {
+      await autoEvaluationService.rescoreOpenApplications(req.user!.id)
+        .catch(err => console.error('Re-scoring failed:', err));
+    }
+
     res.status(200).json({
       status: 'success',
       message: 'Profile updated successfully',
@@ -146,6 +161,8 @@ export const analyzeLeetCode = async (req: AuthRequest, res: Response, next: Nex
       },
       { upsert: true }
     );
+    await autoEvaluationService.rescoreOpenApplications(req.user!.id)
+      .catch(err => console.error('Re-scoring failed:', err));
 
     const insights = leetCodeService.getLeetCodeInsights(result);
 
@@ -183,12 +200,26 @@ export const parseResume = async (req: AuthRequest, res: Response, next: NextFun
     }
 
     // Parse resume
-    const parsedData = await resumeParserService.parseResume(buffer, mimetype);
+    const { contentFlags, ...parsedData } = await resumeParserService.parseResume(buffer, mimetype, req.user!.id);
+
+    // Hidden text and injected instructions stay on record for recruiters, whatever the
+    // applicant then saves from the preview
+    await ApplicantProfile.findOneAndUpdate(
+      { userId: req.user?.id },
+      { resumeFlags: contentFlags },
+      { upsert: true }
+    );
+    await autoEvaluationService.rescoreOpenApplications(req.user!.id)
+      .catch(err => console.error('Re-scoring failed:', err));
 
     res.status(200).json({
       status: 'success',
       message: 'Resume parsed successfully',
-      data: parsedData
+      data: {
+        ...parsedData,
+        // Suggested levels from the experience dates, for the applicant to review
+        skillProficiencies: skillProficiencyService.estimateFromExperience(parsedData.skills, parsedData.experiences)
+      }
     });
   } catch (error) {
     next(error);
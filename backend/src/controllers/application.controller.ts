@@ -1,8 +1,9 @@
 import { Response, NextFunction } from 'express';
-import { Application } from '../models/Application.model';
-import { Job } from '../models/Job.model';
+import { Application, IApplication } from '../models/Application.model';
+import { Job, IPipelineStage } from '../models/Job.model';
 import { Interview } from '../models/Interview.model';
 import { ApplicantProfile } from '../models/ApplicantProfile.model';
+import { Offer, IOffer } from '../models/Offer.model';
 import { AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { emailService } from '../services/email.service';
@@ -13,10 +14,22 @@ import { User } from '../models/User.model';
 import talentPoolService from '../services/talent-pool.service';
 import rejectionFeedbackService from '../services/rejection-feedback.service';
 import applicantFeedbackService from '../services/applicant-feedback.service';
+import pipelineService from '../services/pipeline.service';
+import transitionGuardService from '../services/transition-guard.service';
+import offerService from '../services/offer.service';
+import organizationService from '../services/organization.service';
+import availabilityService from '../services/availability.service';
+import scorecardService from '../services/scorecard.service';
+import interviewLoopService from '../services/interview-loop.service';
+import { scoringService, AI_SCORE_BLEND } from '../services/scoring.service';
+import evaluationHistoryService from '../services/evaluation-history.service';
+import autoEvaluationService from '../services/auto-evaluation.service';
+import screeningService from '../services/screening.service';
+import schedulingLinkService from '../services/scheduling-link.service';
 
 export const applyForJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { jobId, coverLetter } = req.body;
+    const { jobId, coverLetter, screeningAnswers } = req.body;
 
     // Check if job exists
     const job = await Job.findById(jobId);
@@ -50,25 +63,61 @@ export const applyForJob = async (req: AuthRequest, res: Response, next: NextFun
       confidence: 0
     } : undefined;
 
+    // Check the answers to the job's screening questions (throws 400 on missing answers)
+    const screening = screeningService.evaluateAnswers(job, screeningAnswers);
+    const knockedOut = screening.failedQuestions.length > 0;
+    const autoReject = knockedOut && job.knockoutAction === 'reject';
+
+    // New applications land in the first stage of the job's pipeline
+    const pipeline = pipelineService.getPipeline(job);
+    const initialStage = pipelineService.getInitialStage(pipeline);
+    const statusHistory = [{
+      ...pipelineService.toHistoryFields(initialStage),
+      timestamp: new Date(),
+      note: 'Application submitted'
+    }];
+
+    // Knocked-out applications go straight to the rejected stage when the job asks for it
+    const rejectedStage = pipelineService.getStageForStatus(pipeline, 'rejected')!;
+    if (autoReject) {
+      statusHistory.push({
+        ...pipelineService.toHistoryFields(rejectedStage),
+        timestamp: new Date(),
+        note: 'Automatically rejected: did not pass the screening questions'
+      });
+    }
+    const currentStage = autoReject ? rejectedStage : initialStage;
+
     // Create application
     const application = await Application.create({
       applicantId: req.user?.id,
       jobId,
       coverLetter: coverLetter || '',
-      status: 'pending',
-      statusHistory: [{
-        status: 'pending',
-        timestamp: new Date(),
-        note: 'Application submitted'
-      }],
-      aiInsights: initialAiInsights
+      status: currentStage.status,
+      stage: currentStage.key,
+      statusHistory,
+      aiInsights: initialAiInsights,
+      screeningAnswers: screening.answers,
+      screeningResult: screening.answers.length > 0 ? {
+        passed: !knockedOut,
+        failedQuestions: screening.failedQuestions,
+        action: !knockedOut ? 'none' : autoReject ? 'rejected' : 'flagged',
+        evaluatedAt: new Date()
+      } : undefined,
+      rejectionFeedback: autoReject ? screeningService.buildRejectionFeedback(job) : undefined
     });
 
     // Increment applicant count
     await Job.findByIdAndUpdate(jobId, { $inc: { applicantCount: 1 } });
 
-    // Send application received email (non-blocking)
     const applicant = await User.findById(req.user?.id);
+
+    // Score the application straight away so recruiters never see it at 0
+    if (applicant) {
+      await autoEvaluationService.evaluateNewApplication(application, job, applicant);
+    }
+
+    // Send application received email (non-blocking)
     if (applicant) {
       emailService.sendApplicationReceived({
         applicantName: applicant.fullName,
@@ -76,11 +125,22 @@ export const applyForJob = async (req: AuthRequest, res: Response, next: NextFun
         jobTitle: job.title,
         companyName: 'HireSense',
       }).catch(err => console.error('Email failed:', err));
+
+      if (autoReject) {
+        emailService.sendRejectionEmail({
+          applicantName: applicant.fullName,
+          applicantEmail: applicant.email,
+          jobTitle: job.title,
+          companyName: 'HireSense',
+        }).catch(err => console.error('Email failed:', err));
+      }
     }
 
     res.status(201).json({
       status: 'success',
-      message: '📧 Application submitted successfully. Confirmation email sent.',
+      message: autoReject
+        ? 'Application submitted. Unfortunately it does not meet the basic requirements of this role.'
+        : '📧 Application submitted successfully. Confirmation email sent.',
       data: { application }
     });
   } catch (error) {
@@ -149,7 +209,9 @@ export const getRejectionFeedback = async (req: AuthRequest, res: Response, next
               recommendation: application.aiInsights.recommendation,
               skillMatch: application.aiInsights.skillMatch || 0,
               experienceScore: application.aiInsights.experienceScore || 0
-            } : undefined
+            } : undefined,
+            recruiterId: jobData.recruiterId?.toString(),
+            applicationId: id
           };
           
           const feedback = await applicantFeedbackService.generateApplicantFeedback(feedbackInput);
@@ -238,12 +300,180 @@ export const getApplicationById = async (req: AuthRequest, res: Response, next:
   }
 };
 
+// Interview scorecards for an application with the panel's aggregate (recruiter)
+export const getApplicationScorecards = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await scorecardService.getApplicationScorecards(req.params.id, req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Progress of an application through its job's interview loop (recruiter)
+export const getInterviewLoop = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await Application.findById(req.params.id).select('jobId');
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: application.jobId, ...scope }).select('interviewPlan');
+    if (!job) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const progress = await interviewLoopService.getProgress(application._id as any, job);
+
+    res.status(200).json({
+      status: 'success',
+      data: progress
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getScoreExplanation = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await Application.findById(req.params.id);
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: application.jobId, ...scope });
+    if (!job) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const insights = application.aiInsights;
+    if (!insights?.scoringBreakdown || !insights.aiSummary) {
+      throw new AppError('This application has not been evaluated yet', 404);
+    }
+
+    let contributions = insights.contributions || [];
+    let weightProfile = insights.weightProfile;
+    let fromCurrentProfile = false;
+
+    // Evaluations made before contributions were stored: rebuild them from the stored
+    // breakdown, with evidence from the candidate's current profile
+    if (!contributions.length) {
+      const profile = await ApplicantProfile.findOne({ userId: application.applicantId });
+      if (!profile) {
+        throw new AppError('Applicant profile not found', 404);
+      }
+
+      const weights = weightProfile?.weights || scoringService.getWeightProfile(job).weights;
+      const breakdown = { ...insights.scoringBreakdown, aiReadiness: insights.scoringBreakdown.aiReadiness || 0 };
+      const aiReadiness = await scoringService.getAiReadiness(profile.userId);
+      contributions = scoringService.explainScore(job, profile, breakdown, weights, aiReadiness);
+      weightProfile = weightProfile || { ...scoringService.getWeightProfile(job), appliedAt: application.updatedAt };
+      fromCurrentProfile = true;
+    }
+
+    const ruleBasedScore = Math.round(contributions.reduce((sum, item) => sum + item.contribution, 0));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        overallScore: insights.overallScore,
+        ruleBasedScore,
+        aiScore: insights.aiScore,
+        aiBlend: typeof insights.aiScore === 'number' ? AI_SCORE_BLEND : 0,
+        weightProfile,
+        evaluationVersion: application.evaluationVersion,
+        contributions: [...contributions].sort((a, b) => b.contribution - a.contribution),
+        fromCurrentProfile
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Load an application the recruiter's organization owns
+const findOwnedApplication = async (applicationId: string, userId?: string) => {
+  const application = await Application.findById(applicationId);
+  if (!application) {
+    throw new AppError('Application not found', 404);
+  }
+
+  const scope = await organizationService.getOwnerScope(userId);
+  const job = await Job.exists({ _id: application.jobId, ...scope });
+  if (!job) {
+    throw new AppError('Application not found', 404);
+  }
+
+  return application;
+};
+
+export const getEvaluationHistory = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await findOwnedApplication(req.params.id, req.user?.id);
+    const evaluations = await evaluationHistoryService.list(application._id as any);
+
+    // Recruiter decisions, grouped by the evaluation version they were based on
+    const decisions = application.statusHistory
+      .filter(entry => entry.evaluationVersion)
+      .map(entry => ({
+        evaluationVersion: entry.evaluationVersion,
+        status: entry.status,
+        stageName: entry.stageName,
+        note: entry.note,
+        timestamp: entry.timestamp
+      }));
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        currentVersion: application.evaluationVersion,
+        evaluations,
+        decisions
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getEvaluationDiff = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const application = await findOwnedApplication(req.params.id, req.user?.id);
+
+    // Defaults to the latest evaluation against the one before it
+    const to = Number(req.query.to) || application.evaluationVersion;
+    const from = Number(req.query.from) || to - 1;
+    if (from < 1 || to < 1 || from === to) {
+      throw new AppError('Two different evaluation versions are needed to compare', 400);
+    }
+
+    const [fromRecord, toRecord] = await Promise.all([
+      evaluationHistoryService.getVersion(application._id as any, from),
+      evaluationHistoryService.getVersion(application._id as any, to)
+    ]);
+
+    res.status(200).json({
+      status: 'success',
+      data: evaluationHistoryService.diff(fromRecord, toRecord)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getApplicationsByJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { jobId } = req.params;
 
-    // Verify the job belongs to this recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify the job belongs to this recruiter (or their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
@@ -287,7 +517,10 @@ export const getApplicationsByJob = async (req: AuthRequest, res: Response, next
     res.status(200).json({
       status: 'success',
       results: enhancedApplications.length,
-      data: { applications: enhancedApplications }
+      data: {
+        applications: enhancedApplications,
+        pipeline: pipelineService.getPipeline(job)
+      }
     });
   } catch (error) {
     next(error);
@@ -297,33 +530,57 @@ export const getApplicationsByJob = async (req: AuthRequest, res: Response, next
 export const updateApplicationStatus = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { status, note, rejectionReason, sendFeedback } = req.body;
+    const { stage: stageKey, note, rejectionReason, sendFeedback } = req.body;
 
     const application = await Application.findById(id);
     if (!application) {
       throw new AppError('Application not found', 404);
     }
 
+    // Resolve the target stage from the job's pipeline. Callers may pass a stage key
+    // or, for backward compatibility, a plain status which maps to its first stage.
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const pipelineJob = await Job.findOne({ _id: application.jobId, ...scope }).select('pipeline');
+    if (!pipelineJob) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+    const pipeline = pipelineService.getPipeline(pipelineJob);
+    const targetStage = stageKey
+      ? pipelineService.getStage(pipeline, stageKey)
+      : pipelineService.getStageForStatus(pipeline, req.body.status);
+
+    if (!targetStage) {
+      throw new AppError(`Unknown pipeline stage: ${stageKey || req.body.status}`, 400);
+    }
+
+    // Reject illegal transitions and unmet preconditions with a 409
+    await transitionGuardService.assertTransition(application, pipeline, targetStage, {
+      rejectionReason: rejectionReason || note
+    });
+
     const previousStatus = application.status;
+    const status = targetStage.status;
 
     // Update hiredCount on the job when status changes to/from 'hired'
     if (status === 'hired' && previousStatus !== 'hired') {
-      // Incrementing hiredCount when candidate is hired
-      await Job.findByIdAndUpdate(application.jobId, { $inc: { hiredCount: 1 } });
+      // Incrementing hiredCount when candidate is hired (closes the job once openings are filled)
+      await offerService.recordHire(application.jobId);
     } else if (previousStatus === 'hired' && status !== 'hired') {
       // Decrementing hiredCount if changing away from hired
-      await Job.findByIdAndUpdate(application.jobId, { $inc: { hiredCount: -1 } });
+      await offerService.revokeHire(application.jobId);
     }
 
     // Add to status history
     application.statusHistory.push({
-      status,
+      ...pipelineService.toHistoryFields(targetStage),
       timestamp: new Date(),
       note: note || rejectionReason || undefined,
-      changedBy: req.user?.id as any
+      changedBy: req.user?.id as any,
+      evaluationVersion: application.evaluationVersion || undefined
     });
 
     application.status = status;
+    application.stage = targetStage.key;
     application.reviewedAt = new Date();
 
     // Auto-generate applicant-facing rejection feedback
@@ -346,7 +603,9 @@ export const updateApplicationStatus = async (req: AuthRequest, res: Response, n
               recommendation: application.aiInsights.recommendation,
               skillMatch: application.aiInsights.skillMatch,
               experienceScore: application.aiInsights.experienceScore
-            } : undefined
+            } : undefined,
+            recruiterId: job.recruiterId.toString(),
+            applicationId: application._id.toString()
           };
           
           const feedback = await applicantFeedbackService.generateApplicantFeedback(feedbackInput);
@@ -361,6 +620,11 @@ export const updateApplicationStatus = async (req: AuthRequest, res: Response, n
 
     await application.save();
 
+    // Closed applications can't book interviews any more
+    if (pipelineService.isFinalStage(targetStage)) {
+      await schedulingLinkService.cancelPendingLinks([application._id]);
+    }
+
     // Auto Talent Pooling: If rejected, try to add to talent pool
     let talentPoolResult = null;
     if (status === 'rejected' && previousStatus !== 'rejected') {
@@ -417,7 +681,7 @@ export const updateApplicationStatus = async (req: AuthRequest, res: Response, n
 export const scheduleInterview = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { scheduledTime, duration, type, meetingLink } = req.body;
+    const { scheduledTime, duration, type, meetingLink, interviewerIds, roundKey } = req.body;
 
     // Verify application exists
     const application = await Application.findById(id);
@@ -425,17 +689,65 @@ export const scheduleInterview = async (req: AuthRequest, res: Response, next: N
       throw new AppError('Application not found', 404);
     }
 
+    if (!scheduledTime) {
+      throw new AppError('Scheduled time is required', 400);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: application.jobId, ...scope }).select('pipeline interviewPlan');
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    // Scheduling moves the candidate to "selected" - never out of a final stage (409)
+    const pipeline = pipelineService.getPipeline(job);
+    const selectedStage = pipelineService.getStageForStatus(pipeline, 'selected');
+    const moveStage = selectedStage
+      ? await transitionGuardService.assertAdvance(application, pipeline, selectedStage)
+      : false;
+
+    const round = await interviewLoopService.resolveRound(application._id as any, job, roundKey);
+
+    const interviewTime = new Date(scheduledTime);
+    const interviewDuration = duration || round?.duration || 60;
+    const requestedPanel = Array.isArray(interviewerIds) && interviewerIds.length > 0 ? interviewerIds : [req.user!.id];
+    const panel = await availabilityService.assertPanelists(
+      req.user!.id,
+      [...new Set<string>([...requestedPanel, ...(round?.interviewerIds || [])])]
+    );
+
+    await availabilityService.assertNoConflicts({
+      panelistIds: panel,
+      applicantId: application.applicantId.toString(),
+      start: interviewTime,
+      end: new Date(interviewTime.getTime() + interviewDuration * 60000)
+    });
+
     // Create interview
     const interview = await Interview.create({
       applicationId: id,
-      scheduledTime,
-      duration: duration || 60,
-      type: type || 'Technical',
-      meetingLink: meetingLink || 'To be shared'
+      interviewerIds: panel,
+      scheduledBy: req.user?.id,
+      scheduledTime: interviewTime,
+      duration: interviewDuration,
+      type: type || round?.type || 'Technical',
+      meetingLink: meetingLink || 'To be shared',
+      ...(round && { roundKey: round.key, roundName: round.name })
     });
 
     // Update application status
-    await Application.findByIdAndUpdate(id, { status: 'selected' });
+    if (moveStage && selectedStage) {
+      application.statusHistory.push({
+        ...pipelineService.toHistoryFields(selectedStage),
+        timestamp: new Date(),
+        note: 'Interview scheduled',
+        changedBy: req.user?.id as any,
+        evaluationVersion: application.evaluationVersion || undefined
+      });
+      application.status = selectedStage.status;
+      application.stage = selectedStage.key;
+      await application.save();
+    }
 
     res.status(201).json({
       status: 'success',
@@ -525,7 +837,12 @@ export const generateSkillGapAnalysis = async (req: AuthRequest, res: Response,
     const skillGapAnalysis = skillGapService.analyzeSkillGaps(
       job.requiredSkills || [],
       candidateSkills,
-      application.aiInsights
+      application.aiInsights,
+      {
+        niceToHaveSkills: job.niceToHaveSkills || [],
+        requirements: job.skillRequirements || [],
+        proficiencies: applicantProfile?.skillProficiencies || []
+      }
     );
 
     res.status(200).json({
@@ -537,6 +854,56 @@ export const generateSkillGapAnalysis = async (req: AuthRequest, res: Response,
   }
 };
 
+// Load the applications of a job targeted by a bulk action. IDs that do not belong
+// to the job are reported back as skipped instead of failing the whole request.
+const loadBulkApplications = async (jobId: string, applicationIds: string[]) => {
+  const applications = await Application.find({ _id: { $in: applicationIds }, jobId })
+    .populate('applicantId', 'fullName email');
+
+  const foundIds = new Set(applications.map(app => String(app._id)));
+  const missing = applicationIds
+    .filter(id => !foundIds.has(String(id)))
+    .map(id => ({ applicationId: String(id), reason: 'Application not found for this job' }));
+
+  return { applications, missing };
+};
+
+// Move applications to a stage, recording the evaluation each decision was based on
+const applyBulkTransition = async (
+  applications: IApplication[],
+  stage: IPipelineStage,
+  note: string,
+  changedBy?: string
+) => {
+  const result = await Application.bulkWrite(applications.map(app => ({
+    updateOne: {
+      filter: { _id: app._id },
+      update: {
+        $set: {
+          status: stage.status,
+          stage: stage.key,
+          reviewedAt: new Date()
+        },
+        $push: {
+          statusHistory: {
+            ...pipelineService.toHistoryFields(stage),
+            timestamp: new Date(),
+            note,
+            changedBy: changedBy as any,
+            evaluationVersion: app.evaluationVersion || undefined
+          }
+        }
+      }
+    }
+  })));
+
+  // Closed applications can't book interviews any more
+  if (pipelineService.isFinalStage(stage)) {
+    await schedulingLinkService.cancelPendingLinks(applications.map(app => app._id));
+  }
+  return result;
+};
+
 // Bulk reject remaining applicants for a job
 export const bulkRejectApplications = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -548,8 +915,9 @@ export const bulkRejectApplications = async (req: AuthRequest, res: Response, ne
       throw new AppError('Invalid confirmation. Please type "CONFIRM REJECTION" to proceed.', 400);
     }
 
-    // Verify job exists and belongs to recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify job exists and belongs to recruiter (or their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
@@ -564,33 +932,34 @@ export const bulkRejectApplications = async (req: AuthRequest, res: Response, ne
       return res.status(200).json({
         status: 'success',
         message: 'No applications to reject',
-        data: { rejectedCount: 0 }
+        data: { rejectedCount: 0, skipped: [] }
       });
     }
 
-    // Bulk update all applications to rejected
-    const applicationIds = applicationsToReject.map(app => app._id);
-    
-    await Application.updateMany(
-      { _id: { $in: applicationIds } },
-      {
-        $set: { 
-          status: 'rejected',
-          reviewedAt: new Date()
-        },
-        $push: {
-          statusHistory: {
-            status: 'rejected',
-            timestamp: new Date(),
-            note: 'Position has been filled. Thank you for your application.',
-            changedBy: req.user?.id
-          }
-        }
-      }
+    // Apply the same transition rules as single status updates, per application
+    const rejectionNote = 'Position has been filled. Thank you for your application.';
+    const pipeline = pipelineService.getPipeline(job);
+    const rejectedStage = pipelineService.getStageForStatus(pipeline, 'rejected')!;
+    const { eligible, skipped } = await transitionGuardService.partitionTransitions(
+      applicationsToReject,
+      pipeline,
+      rejectedStage,
+      { rejectionReason: rejectionNote }
     );
 
+    if (eligible.length === 0) {
+      return res.status(200).json({
+        status: 'success',
+        message: `No applications could be rejected. ${skipped.length} skipped.`,
+        data: { rejectedCount: 0, skipped, jobTitle: job.title }
+      });
+    }
+
+    // Bulk update eligible applications to the pipeline's rejected stage
+    await applyBulkTransition(eligible, rejectedStage, rejectionNote, req.user?.id);
+
     // Send rejection emails (non-blocking)
-    const emailPromises = applicationsToReject.map(async (application) => {
+    const emailPromises = eligible.map(async (application) => {
       const applicant = application.applicantId as any;
       if (applicant && applicant.email) {
         try {
@@ -610,7 +979,7 @@ export const bulkRejectApplications = async (req: AuthRequest, res: Response, ne
     Promise.all(emailPromises).catch(err => console.error('Bulk email error:', err));
 
     // Try to add candidates to talent pool (non-blocking)
-    applicationsToReject.forEach(async (app) => {
+    eligible.forEach(async (app) => {
       try {
         await talentPoolService.addToTalentPoolOnRejection(app._id as any, req.user?.id as any);
       } catch (err) {
@@ -620,9 +989,11 @@ export const bulkRejectApplications = async (req: AuthRequest, res: Response, ne
 
     res.status(200).json({
       status: 'success',
-      message: `Successfully rejected ${applicationsToReject.length} application(s). Rejection emails are being sent.`,
+      message: `Successfully rejected ${eligible.length} application(s). Rejection emails are being sent.` +
+        (skipped.length > 0 ? ` ${skipped.length} skipped.` : ''),
       data: { 
-        rejectedCount: applicationsToReject.length,
+        rejectedCount: eligible.length,
+        skipped,
         jobTitle: job.title
       }
     });
@@ -641,40 +1012,29 @@ export const bulkShortlistApplications = async (req: AuthRequest, res: Response,
       throw new AppError('Please provide application IDs to shortlist', 400);
     }
 
-    // Verify job exists and belongs to recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify job exists and belongs to recruiter (or their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
 
-    // Bulk update applications to shortlisted
-    const result = await Application.updateMany(
-      { 
-        _id: { $in: applicationIds },
-        jobId,
-        status: { $nin: ['hired', 'rejected', 'shortlisted'] }
-      },
-      {
-        $set: { 
-          status: 'shortlisted',
-          reviewedAt: new Date()
-        },
-        $push: {
-          statusHistory: {
-            status: 'shortlisted',
-            timestamp: new Date(),
-            note: 'Shortlisted for further consideration',
-            changedBy: req.user?.id
-          }
-        }
-      }
-    );
+    const pipeline = pipelineService.getPipeline(job);
+    const shortlistStage = pipelineService.getStageForStatus(pipeline, 'shortlisted');
+    if (!shortlistStage) {
+      throw new AppError('This job\'s pipeline has no stage mapped to "shortlisted"', 400);
+    }
 
-    // Send notification emails (non-blocking)
-    const applications = await Application.find({ _id: { $in: applicationIds } })
-      .populate('applicantId', 'fullName email');
+    // Apply the same transition rules as single status updates, per application
+    const { applications, missing } = await loadBulkApplications(jobId, applicationIds);
+    const { eligible, skipped } = await transitionGuardService.partitionTransitions(applications, pipeline, shortlistStage);
+    skipped.push(...missing);
 
-    applications.forEach(async (app) => {
+    // Bulk update eligible applications to shortlisted
+    const result = await applyBulkTransition(eligible, shortlistStage, 'Shortlisted for further consideration', req.user?.id);
+
+    // Send notification emails (non-blocking)
+    eligible.forEach(async (app) => {
       const applicant = app.applicantId as any;
       if (applicant?.email) {
         emailService.sendStatusUpdated({
@@ -690,9 +1050,11 @@ export const bulkShortlistApplications = async (req: AuthRequest, res: Response,
 
     res.status(200).json({
       status: 'success',
-      message: `Successfully shortlisted ${result.modifiedCount} application(s)`,
+      message: `Successfully shortlisted ${result.modifiedCount} application(s)` +
+        (skipped.length > 0 ? `. ${skipped.length} skipped.` : ''),
       data: { 
         shortlistedCount: result.modifiedCount,
+        skipped,
         jobTitle: job.title
       }
     });
@@ -711,41 +1073,30 @@ export const bulkRejectSpecificApplications = async (req: AuthRequest, res: Resp
       throw new AppError('Please provide application IDs to reject', 400);
     }
 
-    // Verify job exists and belongs to recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify job exists and belongs to recruiter (or their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
 
-    // Bulk update applications to rejected
-    const result = await Application.updateMany(
-      { 
-        _id: { $in: applicationIds },
-        jobId,
-        status: { $nin: ['hired', 'rejected'] }
-      },
-      {
-        $set: { 
-          status: 'rejected',
-          reviewedAt: new Date()
-        },
-        $push: {
-          statusHistory: {
-            status: 'rejected',
-            timestamp: new Date(),
-            note: rejectionReason || 'Application has been reviewed and not selected to proceed.',
-            changedBy: req.user?.id
-          }
-        }
-      }
+    // Apply the same transition rules as single status updates, per application
+    const pipeline = pipelineService.getPipeline(job);
+    const rejectedStage = pipelineService.getStageForStatus(pipeline, 'rejected')!;
+    const { applications, missing } = await loadBulkApplications(jobId, applicationIds);
+    const { eligible, skipped } = await transitionGuardService.partitionTransitions(
+      applications,
+      pipeline,
+      rejectedStage,
+      { rejectionReason }
     );
+    skipped.push(...missing);
 
-    // Get applications for emails and talent pool
-    const applications = await Application.find({ _id: { $in: applicationIds } })
-      .populate('applicantId', 'fullName email');
+    // Bulk update eligible applications to rejected
+    const result = await applyBulkTransition(eligible, rejectedStage, rejectionReason, req.user?.id);
 
     // Send notification emails and add to talent pool (non-blocking)
-    applications.forEach(async (app) => {
+    eligible.forEach(async (app) => {
       const applicant = app.applicantId as any;
       
       // Try to add to talent pool
@@ -770,9 +1121,11 @@ export const bulkRejectSpecificApplications = async (req: AuthRequest, res: Resp
 
     res.status(200).json({
       status: 'success',
-      message: `Successfully rejected ${result.modifiedCount} application(s)`,
+      message: `Successfully rejected ${result.modifiedCount} application(s)` +
+        (skipped.length > 0 ? `. ${skipped.length} skipped.` : ''),
       data: { 
         rejectedCount: result.modifiedCount,
+        skipped,
         jobTitle: job.title
       }
     });
@@ -784,8 +1137,9 @@ export const bulkRejectSpecificApplications = async (req: AuthRequest, res: Resp
 // Get all hired/selected candidates across all jobs
 export const getSelectedCandidates = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    // Get all jobs posted by this recruiter
-    const jobs = await Job.find({ recruiterId: req.user?.id });
+    // Get all jobs posted by this recruiter (or shared with their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const jobs = await Job.find(scope);
     const jobIds = jobs.map(job => job._id);
 
     if (jobIds.length === 0) {
@@ -804,7 +1158,7 @@ export const getSelectedCandidates = async (req: AuthRequest, res: Response, nex
       status: { $in: ['hired', 'interview', 'shortlisted', 'selected'] }
     })
       .populate('applicantId', 'fullName email')
-      .populate('jobId', 'title department')
+      .populate('jobId', 'title department salaryMin salaryMax')
       .sort({ reviewedAt: -1 });
 
     // Get applicant profiles for additional info
@@ -812,11 +1166,20 @@ export const getSelectedCandidates = async (req: AuthRequest, res: Response, nex
     const profiles = await ApplicantProfile.find({ userId: { $in: applicantIds } });
     const profileMap = new Map(profiles.map(p => [p.userId.toString(), p]));
 
+    // Latest offer per application (newest first, so the first one seen wins)
+    await offerService.expireStaleOffers(scope);
+    const offers = await Offer.find({ applicationId: { $in: applications.map(app => app._id) } }).sort({ createdAt: -1 });
+    const offerMap = new Map<string, IOffer>();
+    offers.forEach(offer => {
+      if (!offerMap.has(offer.applicationId.toString())) offerMap.set(offer.applicationId.toString(), offer);
+    });
+
     // Enhance applications with profile data
     const candidates = applications.map(app => {
       const applicant = app.applicantId as any;
       const job = app.jobId as any;
       const profile = profileMap.get(applicant?._id?.toString());
+      const offer = offerMap.get(String(app._id));
 
       return {
         id: app._id,
@@ -825,6 +1188,8 @@ export const getSelectedCandidates = async (req: AuthRequest, res: Response, nex
         email: applicant?.email || '',
         jobTitle: job?.title || 'Unknown Position',
         department: job?.department || 'General',
+        salaryMin: job?.salaryMin,
+        salaryMax: job?.salaryMax,
         status: app.status,
         score: app.aiInsights?.overallScore || 0,
         skills: profile?.skills?.slice(0, 5) || [],
@@ -832,6 +1197,16 @@ export const getSelectedCandidates = async (req: AuthRequest, res: Response, nex
         githubScore: profile?.githubAnalysis?.score || 0,
         hiredAt: app.status === 'hired' ? app.reviewedAt : null,
         shortlistedAt: app.reviewedAt,
+        offer: offer ? {
+          id: offer._id,
+          status: offer.status,
+          salary: offer.salary,
+          currency: offer.currency,
+          startDate: offer.startDate,
+          expiresAt: offer.expiresAt,
+          notes: offer.notes,
+          declineReason: offer.declineReason,
+        } : null,
       };
     });
 
@@ -859,7 +1234,7 @@ export const generateRejectionFeedback = async (req: AuthRequest, res: Response,
 
     const application = await Application.findById(id)
       .populate('applicantId', 'fullName email')
-      .populate('jobId', 'title requiredSkills');
+      .populate('jobId', 'title requiredSkills recruiterId');
 
     if (!application) {
       throw new AppError('Application not found', 404);
@@ -883,7 +1258,9 @@ export const generateRejectionFeedback = async (req: AuthRequest, res: Response,
         gaps: application.aiInsights.gaps
       } : undefined,
       rejectionReason: rejectionReason || 'custom',
-      customReason
+      customReason,
+      recruiterId: job.recruiterId?.toString(),
+      userId: req.user!.id
     });
 
     res.status(200).json({
@@ -914,8 +1291,9 @@ export const getRejectionReasons = async (req: AuthRequest, res: Response, next:
  */
 export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    // Get all jobs posted by this recruiter
-    const jobs = await Job.find({ recruiterId: req.user?.id });
+    // Get all jobs posted by this recruiter (or shared with their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const jobs = await Job.find(scope);
     const jobIds = jobs.map(job => job._id);
 
     if (jobIds.length === 0) {
@@ -931,6 +1309,7 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
           },
           filterOptions: {
             jobs: [],
+            stages: [],
             statuses: []
           }
         }
@@ -940,6 +1319,7 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
     // Parse query parameters
     const {
       status,           // Comma-separated: 'pending,reviewing'
+      stage,            // Comma-separated pipeline stage keys: 'phone_screen,onsite'
       jobId,            // Single job ID
       scoreMin,         // Min AI score (0-100)
       scoreMax,         // Max AI score (0-100)
@@ -972,6 +1352,21 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
       query.jobId = jobId;
     }
 
+    // Filter options and stage filter are driven by the pipelines of the jobs in scope
+    const scopedJobs = jobId ? jobs.filter(j => j._id.toString() === jobId) : jobs;
+    const stageOptions = pipelineService.mergePipelines(scopedJobs.map(j => pipelineService.getPipeline(j)));
+    const filterOptions = {
+      jobs: jobs.map(j => ({ _id: j._id, title: j.title })),
+      stages: stageOptions.map(s => ({ key: s.key, name: s.name, status: s.status })),
+      statuses: [...new Set(stageOptions.map(s => s.status))]
+    };
+
+    // Pipeline stage filter (supports multiple)
+    if (stage) {
+      const stageKeys = (stage as string).split(',');
+      Object.assign(query, pipelineService.buildStageQuery(stageOptions, stageKeys));
+    }
+
     // AI Score range filter
     if (scoreMin !== undefined || scoreMax !== undefined) {
       query['aiInsights.overallScore'] = {};
@@ -1082,10 +1477,7 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
             limit: limitNum,
             totalPages
           },
-          filterOptions: {
-            jobs: jobs.map(j => ({ _id: j._id, title: j.title })),
-            statuses: ['pending', 'under_review', 'reviewing', 'selected', 'shortlisted', 'interview', 'rejected', 'hired']
-          }
+          filterOptions
         }
       });
     }
@@ -1152,10 +1544,7 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
             limit: limitNum,
             totalPages
           },
-          filterOptions: {
-            jobs: jobs.map(j => ({ _id: j._id, title: j.title })),
-            statuses: ['pending', 'under_review', 'reviewing', 'selected', 'shortlisted', 'interview', 'rejected', 'hired']
-          }
+          filterOptions
         }
       });
     }
@@ -1195,10 +1584,7 @@ export const getAllApplicationsForRecruiter = async (req: AuthRequest, res: Resp
           limit: limitNum,
           totalPages
         },
-        filterOptions: {
-          jobs: jobs.map(j => ({ _id: j._id, title: j.title })),
-          statuses: ['pending', 'under_review', 'reviewing', 'selected', 'shortlisted', 'interview', 'rejected', 'hired']
-        }
+        filterOptions
       }
     });
   } catch (error) {
@@ -4,7 +4,7 @@ import { User } from '../models/User.model';
 import { RecruiterProfile } from '../models/RecruiterProfile.model';
 import { ApplicantProfile } from '../models/ApplicantProfile.model';
 import { AppError } from '../middleware/errorHandler';
-import { AuthRequest } from '../middleware/auth.middleware';
+import { AuthRequest, isPlatformAdmin } from '../middleware/auth.middleware';
 
 const generateToken = (userId: string, role: string): string => {
   const secret = process.env.JWT_SECRET || 'fallback_secret';
@@ -99,7 +99,8 @@ export const signin = async (req: Request, res: Response, next: NextFunction) =>
           id: user._id,
           email: user.email,
           fullName: user.fullName,
-          role: user.role
+          role: user.role,
+          isPlatformAdmin: isPlatformAdmin(user.email)
         },
         token
       }
@@ -125,7 +126,8 @@ export const getMe = async (req: AuthRequest, res: Response, next: NextFunction)
           email: user.email,
           fullName: user.fullName,
           role: user.role,
-          avatarUrl: user.avatarUrl
+          avatarUrl: user.avatarUrl,
+          isPlatformAdmin: isPlatformAdmin(user.email)
         }
       }
     });
@@ -1,105 +1,87 @@
 import { Response, NextFunction } from 'express';
 import { Interview } from '../models/Interview.model';
 import { Application } from '../models/Application.model';
+import { Job } from '../models/Job.model';
 import { AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { emailService } from '../services/email.service';
 import { DropOffDetectionService } from '../services/dropoff-detection.service';
+import pipelineService from '../services/pipeline.service';
+import transitionGuardService from '../services/transition-guard.service';
+import availabilityService from '../services/availability.service';
+import calendarService from '../services/calendar.service';
+import scorecardService from '../services/scorecard.service';
+import interviewLoopService from '../services/interview-loop.service';
+import organizationService from '../services/organization.service';
+import interviewReminderService from '../services/interview-reminder.service';
+
+// Panel for a request: explicit interviewer IDs (array or comma-separated), defaulting to the caller
+const parsePanelistIds = (value: unknown, fallback: string[]): string[] => {
+  const ids = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string' ? value.split(',') : [];
+  const cleaned = ids.map(id => id.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : fallback;
+};
 
 /**
- * Check if a time slot is available (no conflicts)
+ * Get the open slots on a date for the interview panel (defaults to the logged-in recruiter).
+ * Slots respect each panelist's working hours, breaks and blocked days, and skip times
+ * when a panelist or the candidate already has an interview. Pass interviewId when
+ * rescheduling so the interview being moved does not block its own slot.
  */
 export const checkAvailability = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { date, duration = 60 } = req.query;
+    const { date, duration = 60, panelistIds, applicationId, interviewId } = req.query;
 
     if (!date) {
       throw new AppError('Date is required', 400);
     }
 
-    const selectedDate = new Date(date as string);
     const durationMinutes = parseInt(duration as string);
+    if (!durationMinutes || durationMinutes <= 0) {
+      throw new AppError('Duration must be a positive number of minutes', 400);
+    }
 
-    // Get all interviews for the selected date
-    const startOfDay = new Date(selectedDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(selectedDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const existingInterviews = await Interview.find({
-      scheduledTime: {
-        $gte: startOfDay,
-        $lte: endOfDay
-      },
-      status: { $in: ['scheduled', 'rescheduled'] }
-    }).sort({ scheduledTime: 1 });
-
-    // Generate available time slots (9 AM to 6 PM, 30-minute intervals)
-    const availableSlots = [];
-    const workdayStart = 9; // 9 AM
-    const workdayEnd = 18; // 6 PM
-    
-    for (let hour = workdayStart; hour < workdayEnd; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const slotTime = new Date(selectedDate);
-        slotTime.setHours(hour, minute, 0, 0);
-        
-        const slotEndTime = new Date(slotTime);
-        slotEndTime.setMinutes(slotEndTime.getMinutes() + durationMinutes);
-
-        // Check if slot end time is within workday
-        if (slotEndTime.getHours() >= workdayEnd) {
-          continue;
-        }
+    let defaultPanel = [req.user!.id];
+    let targetApplicationId = applicationId;
+    if (interviewId) {
+      const interview = await Interview.findById(interviewId);
+      if (!interview) {
+        throw new AppError('Interview not found', 404);
+      }
+      if (interview.interviewerIds.length > 0) {
+        defaultPanel = interview.interviewerIds.map(interviewerId => interviewerId.toString());
+      }
+      targetApplicationId = targetApplicationId || interview.applicationId.toString();
+    }
 
-        // Check for conflicts with existing interviews
-        let hasConflict = false;
-        for (const interview of existingInterviews) {
-          const interviewStart = new Date(interview.scheduledTime);
-          const interviewEnd = new Date(interviewStart);
-          interviewEnd.setMinutes(interviewEnd.getMinutes() + interview.duration);
-
-          // Check if slot overlaps with existing interview
-          if (
-            (slotTime >= interviewStart && slotTime < interviewEnd) ||
-            (slotEndTime > interviewStart && slotEndTime <= interviewEnd) ||
-            (slotTime <= interviewStart && slotEndTime >= interviewEnd)
-          ) {
-            hasConflict = true;
-            break;
-          }
-        }
+    const panel = await availabilityService.assertPanelists(
+      req.user!.id,
+      parsePanelistIds(panelistIds, defaultPanel)
+    );
 
-        if (!hasConflict) {
-          availableSlots.push({
-            startTime: slotTime.toISOString(),
-            endTime: slotEndTime.toISOString(),
-            displayTime: `${slotTime.toLocaleTimeString('en-US', { 
-              hour: '2-digit', 
-              minute: '2-digit',
-              hour12: true 
-            })} - ${slotEndTime.toLocaleTimeString('en-US', { 
-              hour: '2-digit', 
-              minute: '2-digit',
-              hour12: true 
-            })}`,
-          });
-        }
+    let applicantId: string | undefined;
+    if (targetApplicationId) {
+      const application = await Application.findById(targetApplicationId).select('applicantId');
+      if (!application) {
+        throw new AppError('Application not found', 404);
       }
+      applicantId = application.applicantId.toString();
     }
 
+    const availability = await availabilityService.findAvailableSlots({
+      organizerId: req.user!.id,
+      date: availabilityService.parseDate(date),
+      duration: durationMinutes,
+      panelistIds: panel,
+      applicantId,
+      excludeInterviewId: interviewId as string | undefined
+    });
+
     res.status(200).json({
       status: 'success',
-      data: {
-        date: selectedDate.toISOString(),
-        availableSlots,
-        bookedSlots: existingInterviews.map(interview => ({
-          startTime: interview.scheduledTime,
-          duration: interview.duration,
-          endTime: new Date(new Date(interview.scheduledTime).getTime() + interview.duration * 60000)
-        }))
-      }
+      data: availability
     });
   } catch (error) {
     next(error);
@@ -111,7 +93,7 @@ export const checkAvailability = async (req: AuthRequest, res: Response, next: N
  */
 export const scheduleInterview = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { applicationId, scheduledTime, duration = 60, meetingLink, type, notes } = req.body;
+    const { applicationId, scheduledTime, duration, meetingLink, type, notes, interviewerIds, roundKey } = req.body;
 
     if (!applicationId || !scheduledTime) {
       throw new AppError('Application ID and scheduled time are required', 400);
@@ -120,75 +102,92 @@ export const scheduleInterview = async (req: AuthRequest, res: Response, next: N
     // Verify application exists
     const application = await Application.findById(applicationId)
       .populate('applicantId', 'fullName email')
-      .populate('jobId', 'title');
+      .populate('jobId', 'title pipeline interviewPlan');
 
     if (!application) {
       throw new AppError('Application not found', 404);
     }
 
-    const interviewTime = new Date(scheduledTime);
-    const interviewEndTime = new Date(interviewTime.getTime() + duration * 60000);
-
-    // Check for time conflicts
-    const conflicts = await Interview.find({
-      scheduledTime: {
-        $gte: new Date(interviewTime.getTime() - 24 * 60 * 60 * 1000), // Check same day
-        $lte: new Date(interviewTime.getTime() + 24 * 60 * 60 * 1000)
-      },
-      status: { $in: ['scheduled', 'rescheduled'] }
-    });
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    if (!application.jobId || !(await Job.exists({ _id: (application.jobId as any)._id, ...scope }))) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
 
-    for (const existingInterview of conflicts) {
-      const existingStart = new Date(existingInterview.scheduledTime);
-      const existingEnd = new Date(existingStart.getTime() + existingInterview.duration * 60000);
+    // Move to an interview stage of the job's pipeline (keeping the current one if it already is
+    // there or further along). Hired and rejected applications can't be reopened (409).
+    const pipeline = pipelineService.getPipeline(application.jobId as any);
+    const interviewStage = pipelineService.getStageForStatus(pipeline, 'interview');
+    const moveStage = interviewStage
+      ? await transitionGuardService.assertAdvance(application, pipeline, interviewStage)
+      : false;
 
-      if (
-        (interviewTime >= existingStart && interviewTime < existingEnd) ||
-        (interviewEndTime > existingStart && interviewEndTime <= existingEnd) ||
-        (interviewTime <= existingStart && interviewEndTime >= existingEnd)
-      ) {
-        throw new AppError('Time slot conflict detected. Please choose a different time.', 409);
-      }
-    }
+    // Interviews for a job with an interview plan cover its next round by default
+    const round = await interviewLoopService.resolveRound(application._id as any, application.jobId as any, roundKey);
+    const interviewDuration = Number(duration || round?.duration || 60);
+    const interviewType = type || round?.type || 'Technical';
+
+    const interviewTime = new Date(scheduledTime);
+    const interviewEndTime = new Date(interviewTime.getTime() + interviewDuration * 60000);
+    const panel = await availabilityService.assertPanelists(
+      req.user!.id,
+      [...new Set([...parsePanelistIds(interviewerIds, [req.user!.id]), ...(round?.interviewerIds || [])])]
+    );
+
+    // Check the panel's calendars and the candidate's other interviews
+    await availabilityService.assertNoConflicts({
+      panelistIds: panel,
+      applicantId: (application.applicantId as any)?._id?.toString(),
+      start: interviewTime,
+      end: interviewEndTime
+    });
 
     // Create interview
     const interview = await Interview.create({
       applicationId,
+      interviewerIds: panel,
+      scheduledBy: req.user?.id,
       scheduledTime: interviewTime,
-      duration,
+      duration: interviewDuration,
       meetingLink: meetingLink || '',
-      type: type || 'Technical',
-      notes: notes || ''
+      type: interviewType,
+      notes: notes || '',
+      ...(round && { roundKey: round.key, roundName: round.name })
     });
 
-    // Update application status to interview
-    application.status = 'interview';
-    application.statusHistory.push({
-      status: 'interview',
-      timestamp: new Date(),
-      note: `Interview scheduled for ${interviewTime.toLocaleString()}`,
-      changedBy: req.user?.id as any
-    });
-    await application.save();
+    if (moveStage && interviewStage) {
+      application.status = interviewStage.status;
+      application.stage = interviewStage.key;
+      application.statusHistory.push({
+        ...pipelineService.toHistoryFields(interviewStage),
+        timestamp: new Date(),
+        note: `${round ? `${round.name} interview` : 'Interview'} scheduled for ${interviewTime.toLocaleString()}`,
+        changedBy: req.user?.id as any,
+        evaluationVersion: application.evaluationVersion || undefined
+      });
+      await application.save();
+    }
 
-    // Send interview scheduled email (non-blocking)
+    // Send interview scheduled email with a calendar invite (non-blocking)
     const applicant = application.applicantId as any;
     const job = application.jobId as any;
     
     if (applicant && job) {
-      emailService.sendInterviewScheduled({
-        applicantName: applicant.fullName,
-        applicantEmail: applicant.email,
-        jobTitle: job.title,
-        companyName: 'HireSense',
-        interviewDate: emailService.formatDate(interviewTime),
-        interviewTime: emailService.formatTime(interviewTime),
-        duration,
-        type: type || 'Technical',
-        meetingLink: meetingLink || undefined,
-        notes: notes || undefined,
-        interviewId: interview._id.toString(),
-      }).catch(err => console.error('Email failed:', err));
+      calendarService.buildInterviewInvite(interview._id.toString(), 'REQUEST')
+        .then(calendarInvite => emailService.sendInterviewScheduled({
+          applicantName: applicant.fullName,
+          applicantEmail: applicant.email,
+          jobTitle: job.title,
+          companyName: 'HireSense',
+          interviewDate: emailService.formatDate(interviewTime),
+          interviewTime: emailService.formatTime(interviewTime),
+          duration: interviewDuration,
+          type: interviewType,
+          meetingLink: meetingLink || undefined,
+          notes: notes || undefined,
+          interviewId: interview._id.toString(),
+          calendarInvite,
+        }))
+        .catch(err => console.error('Email failed:', err));
     }
 
     res.status(201).json({
@@ -258,43 +257,43 @@ export const getInterviews = async (req: AuthRequest, res: Response, next: NextF
 export const updateInterview = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { scheduledTime, duration, meetingLink, type, status, notes } = req.body;
+    const { scheduledTime, duration, meetingLink, type, status, notes, interviewerIds } = req.body;
 
-    const interview = await Interview.findById(id);
+    const interview = await Interview.findById(id).populate('applicationId', 'applicantId');
     if (!interview) {
       throw new AppError('Interview not found', 404);
     }
 
-    // If rescheduling, check for conflicts
-    if (scheduledTime && scheduledTime !== interview.scheduledTime.toISOString()) {
-      const newTime = new Date(scheduledTime);
+    const isRescheduling = !!scheduledTime && scheduledTime !== interview.scheduledTime.toISOString();
+    const panelChanged = interviewerIds !== undefined;
+
+    // If rescheduling, changing the length or changing the panel, check for conflicts
+    if (isRescheduling || panelChanged || (duration && duration !== interview.duration)) {
+      const newTime = isRescheduling ? new Date(scheduledTime) : interview.scheduledTime;
       const newDuration = duration || interview.duration;
       const newEndTime = new Date(newTime.getTime() + newDuration * 60000);
-
-      const conflicts = await Interview.find({
-        _id: { $ne: id },
-        scheduledTime: {
-          $gte: new Date(newTime.getTime() - 24 * 60 * 60 * 1000),
-          $lte: new Date(newTime.getTime() + 24 * 60 * 60 * 1000)
-        },
-        status: { $in: ['scheduled', 'rescheduled'] }
+      const currentPanel = interview.interviewerIds.map(interviewerId => interviewerId.toString());
+      const panel = await availabilityService.assertPanelists(
+        req.user!.id,
+        parsePanelistIds(interviewerIds, currentPanel.length > 0 ? currentPanel : [req.user!.id])
+      );
+
+      await availabilityService.assertNoConflicts({
+        panelistIds: panel,
+        applicantId: (interview.applicationId as any)?.applicantId?.toString(),
+        start: newTime,
+        end: newEndTime,
+        excludeInterviewId: id
       });
 
-      for (const existingInterview of conflicts) {
-        const existingStart = new Date(existingInterview.scheduledTime);
-        const existingEnd = new Date(existingStart.getTime() + existingInterview.duration * 60000);
-
-        if (
-          (newTime >= existingStart && newTime < existingEnd) ||
-          (newEndTime > existingStart && newEndTime <= existingEnd) ||
-          (newTime <= existingStart && newEndTime >= existingEnd)
-        ) {
-          throw new AppError('Time slot conflict detected. Please choose a different time.', 409);
-        }
+      interview.interviewerIds = panel as any;
+      if (isRescheduling) {
+        interview.scheduledTime = newTime;
+        interview.status = 'rescheduled';
+        // The new slot gets its own round of automatic reminders
+        interview.remindersSent = [];
+        interview.riskEscalatedAt = undefined;
       }
-
-      interview.scheduledTime = newTime;
-      interview.status = 'rescheduled';
     }
 
     if (duration) interview.duration = duration;
@@ -303,10 +302,23 @@ export const updateInterview = async (req: AuthRequest, res: Response, next: Nex
     if (status) interview.status = status;
     if (notes) interview.notes = notes;
 
+    // Calendar clients only apply an update carrying a higher SEQUENCE
+    if (calendarService.isSequencedChange(interview)) {
+      interview.calendarSequence = (interview.calendarSequence || 0) + 1;
+    }
+    const isCancelling = interview.isModified('status') && interview.status === 'cancelled';
+    const statusChanged = interview.isModified('status');
+
     await interview.save();
 
-    // Send interview update email if rescheduled (non-blocking)
-    if (scheduledTime && scheduledTime !== interview.scheduledTime.toISOString()) {
+    // Completing or cancelling changes which panelists still owe a scorecard (non-blocking)
+    if (statusChanged) {
+      scorecardService.refreshSummary((interview.applicationId as any)._id.toString())
+        .catch(err => console.error('Scorecard summary refresh failed:', err));
+    }
+
+    // Send interview update email with the updated invite if rescheduled or cancelled (non-blocking)
+    if (isRescheduling || isCancelling) {
       const populatedInterview = await Interview.findById(id)
         .populate({
           path: 'applicationId',
@@ -322,19 +334,22 @@ export const updateInterview = async (req: AuthRequest, res: Response, next: Nex
         const job = app.jobId;
         
         if (applicant && job) {
-          const newTime = new Date(scheduledTime);
-          emailService.sendInterviewUpdated({
-            applicantName: applicant.fullName,
-            applicantEmail: applicant.email,
-            jobTitle: job.title,
-            companyName: 'HireSense',
-            interviewDate: emailService.formatDate(newTime),
-            interviewTime: emailService.formatTime(newTime),
-            duration: interview.duration,
-            type: interview.type,
-            meetingLink: interview.meetingLink || undefined,
-            action: 'rescheduled',
-          }).catch(err => console.error('Email failed:', err));
+          const newTime = new Date(interview.scheduledTime);
+          calendarService.buildInterviewInvite(id, isCancelling ? 'CANCEL' : 'REQUEST')
+            .then(calendarInvite => emailService.sendInterviewUpdated({
+              applicantName: applicant.fullName,
+              applicantEmail: applicant.email,
+              jobTitle: job.title,
+              companyName: 'HireSense',
+              interviewDate: emailService.formatDate(newTime),
+              interviewTime: emailService.formatTime(newTime),
+              duration: interview.duration,
+              type: interview.type,
+              meetingLink: interview.meetingLink || undefined,
+              action: isCancelling ? 'cancelled' : 'rescheduled',
+              calendarInvite,
+            }))
+            .catch(err => console.error('Email failed:', err));
         }
       }
     }
@@ -358,7 +373,7 @@ export const deleteInterview = async (req: AuthRequest, res: Response, next: Nex
 
     const interview = await Interview.findByIdAndUpdate(
       id,
-      { status: 'cancelled' },
+      { status: 'cancelled', $inc: { calendarSequence: 1 } },
       { new: true }
     ).populate({
       path: 'applicationId',
@@ -380,18 +395,21 @@ export const deleteInterview = async (req: AuthRequest, res: Response, next: Nex
       
       if (applicant && job) {
         const interviewTime = new Date(interview.scheduledTime);
-        emailService.sendInterviewUpdated({
-          applicantName: applicant.fullName,
-          applicantEmail: applicant.email,
-          jobTitle: job.title,
-          companyName: 'HireSense',
-          interviewDate: emailService.formatDate(interviewTime),
-          interviewTime: emailService.formatTime(interviewTime),
-          duration: interview.duration,
-          type: interview.type,
-          meetingLink: interview.meetingLink || undefined,
-          action: 'cancelled',
-        }).catch(err => console.error('Email failed:', err));
+        calendarService.buildInterviewInvite(id, 'CANCEL')
+          .then(calendarInvite => emailService.sendInterviewUpdated({
+            applicantName: applicant.fullName,
+            applicantEmail: applicant.email,
+            jobTitle: job.title,
+            companyName: 'HireSense',
+            interviewDate: emailService.formatDate(interviewTime),
+            interviewTime: emailService.formatTime(interviewTime),
+            duration: interview.duration,
+            type: interview.type,
+            meetingLink: interview.meetingLink || undefined,
+            action: 'cancelled',
+            calendarInvite,
+          }))
+          .catch(err => console.error('Email failed:', err));
       }
     }
 
@@ -486,30 +504,8 @@ export const sendInterviewReminder = async (req: AuthRequest, res: Response, nex
       throw new AppError('Interview not found', 404);
     }
 
-    const application = interview.applicationId as any;
-    const applicant = application?.applicantId;
-    const job = application?.jobId;
-
-    if (applicant && job) {
-      const interviewTime = new Date(interview.scheduledTime);
-      
-      // Send reminder email
-      await emailService.sendInterviewReminder({
-        applicantName: applicant.fullName,
-        applicantEmail: applicant.email,
-        jobTitle: job.title,
-        companyName: 'HireSense',
-        interviewDate: emailService.formatDate(interviewTime),
-        interviewTime: emailService.formatTime(interviewTime),
-        duration: interview.duration,
-        type: interview.type,
-        meetingLink: interview.meetingLink || undefined,
-        interviewId: interviewId,
-      });
-
-      // Record that reminder was sent
-      await DropOffDetectionService.recordReminderSent(interviewId);
-    }
+    // Send reminder email and record it for drop-off detection
+    await interviewReminderService.sendReminder(interview);
 
     res.status(200).json({
       status: 'success',
@@ -585,4 +581,149 @@ export const getInterviewWithRisk = async (req: AuthRequest, res: Response, next
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+// ============= INTERVIEW LOOP ENDPOINTS =============
+
+/**
+ * Record whether the candidate passed the round a completed interview covered
+ */
+export const recordRoundOutcome = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { outcome, note } = req.body;
+
+    const interview = await Interview.findById(req.params.id);
+    if (!interview) {
+      throw new AppError('Interview not found', 404);
+    }
+
+    const application = await Application.findById(interview.applicationId).select('jobId');
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = application
+      ? await Job.findOne({ _id: application.jobId, ...scope }).select('title interviewPlan')
+      : null;
+    if (!job) {
+      throw new AppError('Interview not found', 404);
+    }
+
+    const progress = await interviewLoopService.recordOutcome(interview, job, req.user!.id, outcome, note);
+
+    res.status(200).json({
+      status: 'success',
+      message: outcome === 'passed'
+        ? (progress.nextRound ? `✅ Round passed. Next up: ${progress.nextRound.name}` : '✅ Round passed. The interview loop is complete.')
+        : '⛔ Round failed. The interview loop has been stopped.',
+      data: { interview, progress }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// ============= SCORECARD ENDPOINTS =============
+
+/**
+ * Get the scorecard for an interview: the rubric, the current recruiter's own feedback,
+ * and the rest of the panel's once the recruiter has submitted theirs
+ */
+export const getInterviewFeedback = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await scorecardService.getInterviewFeedback(req.params.id, req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: result
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Save a draft of, or submit, the current recruiter's feedback for an interview
+ */
+export const saveInterviewFeedback = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { ratings, vote, comments, submit } = req.body;
+
+    const feedback = await scorecardService.saveFeedback(req.params.id, req.user!.id, {
+      ratings,
+      vote,
+      comments,
+      submit: submit === true
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: feedback.status === 'submitted' ? 'Feedback submitted' : 'Feedback draft saved',
+      data: { feedback }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// ============= CALENDAR FEED ENDPOINTS =============
+
+// Subscribable feed URL for the given token (API_URL overrides the host behind proxies)
+const toFeedUrls = (req: AuthRequest, token: string) => {
+  const baseUrl = process.env.API_URL || `${req.protocol}://${req.get('host')}`;
+  const feedUrl = `${baseUrl}/api/interviews/calendar/feed/${token}.ics`;
+
+  return {
+    feedUrl,
+    webcalUrl: feedUrl.replace(/^https?:\/\//, 'webcal://')
+  };
+};
+
+/**
+ * Get the logged-in user's personal .ics feed URL (recruiters and candidates)
+ */
+export const getCalendarFeedUrl = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const token = await calendarService.getFeedToken(req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: toFeedUrls(req, token)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issue a new feed URL, invalidating the old one (e.g. after it was shared by mistake)
+ */
+export const resetCalendarFeedUrl = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const token = await calendarService.getFeedToken(req.user!.id, true);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Calendar feed URL reset. Update your calendar subscription.',
+      data: toFeedUrls(req, token)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Serve the .ics feed. Public - calendar clients authenticate with the secret token in the URL.
+ */
+export const getCalendarFeed = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const calendar = await calendarService.buildFeed(req.params.token);
+
+    if (!calendar) {
+      throw new AppError('Calendar feed not found', 404);
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="interviews.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.status(200).send(calendar);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -6,22 +6,62 @@ import { ApplicantProfile } from '../models/ApplicantProfile.model';
 import { RecruiterProfile } from '../models/RecruiterProfile.model';
 import { User } from '../models/User.model';
 import { emailService } from '../services/email.service';
-import { skillNormalizerService } from '../services/skill-normalizer.service';
+import pipelineService from '../services/pipeline.service';
+import scorecardService from '../services/scorecard.service';
+import interviewLoopService from '../services/interview-loop.service';
+import { scoringService } from '../services/scoring.service';
+import organizationService from '../services/organization.service';
+import screeningService from '../services/screening.service';
+import skillProficiencyService from '../services/skill-proficiency.service';
 import { createJobMatchNotification } from './notification.controller';
 
 // Helper function to calculate skill match percentage using NLP-based normalizer
-// (e.g., "Node" matches "NodeJS", "node.js", "node js")
-const calculateSkillMatch = (jobSkills: string[], applicantSkills: string[]): { percentage: number; matchedSkills: string[] } => {
-  if (!jobSkills.length || !applicantSkills.length) return { percentage: 0, matchedSkills: [] };
+// (e.g., "Node" matches "NodeJS", "node.js", "node js"), weighting must-have skills
+// over nice-to-have ones
+const calculateSkillMatch = (job: any, profile: any): { percentage: number; matchedSkills: string[] } => {
+  if (!profile.skills?.length) return { percentage: 0, matchedSkills: [] };
 
-  const result = skillNormalizerService.calculateSkillMatch(jobSkills, applicantSkills);
-  return { percentage: result.score, matchedSkills: result.matchedSkills };
+  const result = skillProficiencyService.matchJobSkills(job, profile);
+  return {
+    percentage: result.score,
+    matchedSkills: result.details.filter(detail => detail.matched).map(detail => detail.jobSkill)
+  };
+};
+
+// Fields a recruiter may change through updateJob. Ownership, counters and the weights
+// version are kept by the server.
+const EDITABLE_JOB_FIELDS = [
+  'title', 'description', 'department', 'requiredSkills', 'niceToHaveSkills', 'skillRequirements',
+  'experienceLevel', 'jobCategory', 'location', 'employmentType', 'salaryMin', 'salaryMax', 'status',
+  'openings', 'applicationDeadline', 'matchThreshold', 'pipeline', 'scorecardTemplate', 'interviewPlan',
+  'scoringWeights', 'screeningQuestions', 'knockoutAction', 'knockoutRejectionTemplate',
+  'company', 'companyDescription', 'companyWebsite', 'companyLocation'
+] as const;
+
+// Fields of a job an applicant may see. Hiring setup (pipeline, scorecard, interview
+// loop, scoring weights, knockout rules) stays with the recruiters.
+const APPLICANT_JOB_FIELDS = [
+  '_id', 'recruiterId', 'title', 'description', 'department', 'requiredSkills', 'niceToHaveSkills',
+  'skillRequirements', 'experienceLevel', 'jobCategory', 'location', 'employmentType', 'salaryMin',
+  'salaryMax', 'status', 'applicantCount', 'openings', 'applicationDeadline',
+  'company', 'companyDescription', 'companyWebsite', 'companyLocation', 'createdAt', 'updatedAt'
+] as const;
+
+// A job as an applicant sees it - public fields and the questions without their knockout rules
+const toApplicantView = (job: any): Record<string, any> => {
+  const source = typeof job.toObject === 'function' ? job.toObject() : job;
+  const view: Record<string, any> = {};
+  for (const field of APPLICANT_JOB_FIELDS) {
+    if (source[field] !== undefined) view[field] = source[field];
+  }
+  view.screeningQuestions = screeningService.toPublicQuestions(job);
+  return view;
 };
 
 // Notify matching applicants about new job (non-blocking)
 const notifyMatchingApplicants = async (job: any): Promise<number> => {
   try {
-    if (!job.requiredSkills || job.requiredSkills.length === 0) return 0;
+    if (!job.requiredSkills?.length && !job.niceToHaveSkills?.length) return 0;
 
     // Find all applicant profiles with skills
     const profiles = await ApplicantProfile.find({
@@ -35,7 +75,7 @@ const notifyMatchingApplicants = async (job: any): Promise<number> => {
       const user = profile.userId as any;
       if (!user || !user.email) continue;
 
-      const { percentage, matchedSkills } = calculateSkillMatch(job.requiredSkills, profile.skills);
+      const { percentage, matchedSkills } = calculateSkillMatch(job, profile);
 
       // Notify if skill match meets or exceeds the job's threshold
       if (percentage >= matchThreshold) {
@@ -98,6 +138,8 @@ export const createJob = async (req: AuthRequest, res: Response, next: NextFunct
       description, 
       department,
       requiredSkills, 
+      niceToHaveSkills,
+      skillRequirements,
       experienceLevel, 
       location, 
       employmentType,
@@ -107,6 +149,9 @@ export const createJob = async (req: AuthRequest, res: Response, next: NextFunct
       status,
       matchThreshold, // NEW: Configurable match threshold
       applicationDeadline,
+      pipeline,
+      screeningQuestions,
+      knockoutAction,
       // Optional company overrides
       company,
       companyDescription,
@@ -120,21 +165,32 @@ export const createJob = async (req: AuthRequest, res: Response, next: NextFunct
       throw new AppError('Match threshold must be between 0 and 100', 400);
     }
 
-    // Fetch recruiter profile to auto-fill company details
+    const niceToHave = niceToHaveSkills
+      ? skillProficiencyService.normalizeNiceToHaveSkills(niceToHaveSkills, requiredSkills || [])
+      : [];
+
+    // Fetch recruiter profile and organization to auto-fill company details
     const recruiterProfile = await RecruiterProfile.findOne({ userId: req.user?.id });
+    const membership = await organizationService.getMembership(req.user?.id);
+    const organization = membership?.organization;
     
-    // Use provided values or auto-fill from recruiter profile
-    const companyName = company || recruiterProfile?.companyName || '';
-    const companyDesc = companyDescription || recruiterProfile?.companyDescription || '';
-    const companyWeb = companyWebsite || recruiterProfile?.companyWebsite || '';
-    const companyLoc = companyLocation || recruiterProfile?.companyLocation || location || '';
+    // Use provided values or auto-fill from the organization, then the recruiter profile
+    const companyName = company || organization?.name || recruiterProfile?.companyName || '';
+    const companyDesc = companyDescription || organization?.description || recruiterProfile?.companyDescription || '';
+    const companyWeb = companyWebsite || organization?.website || recruiterProfile?.companyWebsite || '';
+    const companyLoc = companyLocation || organization?.location || recruiterProfile?.companyLocation || location || '';
 
     const job = await Job.create({
       recruiterId: req.user?.id,
+      organizationId: organization?._id,
       title,
       description,
       department: department || recruiterProfile?.department || 'Engineering',
       requiredSkills,
+      niceToHaveSkills: niceToHave,
+      skillRequirements: skillRequirements
+        ? skillProficiencyService.normalizeRequirements(skillRequirements, [...(requiredSkills || []), ...niceToHave])
+        : [],
       experienceLevel,
       location,
       employmentType,
@@ -144,6 +200,9 @@ export const createJob = async (req: AuthRequest, res: Response, next: NextFunct
       status: status || 'active',
       matchThreshold: threshold, // NEW: Save the threshold
       applicationDeadline,
+      pipeline: pipeline ? pipelineService.normalizePipeline(pipeline) : [],
+      screeningQuestions: screeningQuestions ? screeningService.normalizeQuestions(screeningQuestions) : [],
+      knockoutAction: knockoutAction ? screeningService.normalizeAction(knockoutAction) : 'flag',
       // Company details
       company: companyName,
       companyDescription: companyDesc,
@@ -197,9 +256,12 @@ export const getJobs = async (req: AuthRequest, res: Response, next: NextFunctio
     if (status) filter.status = status;
     if (recruiterId) filter.recruiterId = recruiterId;
     
-    // If recruiter, show their jobs; if applicant, show only active jobs
+    // If recruiter, show their organization's jobs (or their own); if applicant, show only active jobs
     if (req.user?.role === 'recruiter') {
-      filter.recruiterId = req.user.id;
+      const scope = await organizationService.getOwnerScope(req.user.id);
+      Object.assign(filter, scope);
+      // Narrow to one teammate's jobs when requested
+      if (recruiterId && scope.organizationId) filter.recruiterId = recruiterId;
     } else {
       filter.status = 'active';
     }
@@ -211,7 +273,8 @@ export const getJobs = async (req: AuthRequest, res: Response, next: NextFunctio
     res.status(200).json({
       status: 'success',
       results: jobs.length,
-      data: { jobs }
+      // Applicants only see the public side of a job
+      data: { jobs: req.user?.role === 'recruiter' ? jobs : jobs.map(toApplicantView) }
     });
   } catch (error) {
     next(error);
@@ -229,7 +292,7 @@ export const getJobById = async (req: AuthRequest, res: Response, next: NextFunc
 
     res.status(200).json({
       status: 'success',
-      data: { job }
+      data: { job: req.user?.role === 'recruiter' ? job : toApplicantView(job) }
     });
   } catch (error) {
     next(error);
@@ -238,9 +301,73 @@ export const getJobById = async (req: AuthRequest, res: Response, next: NextFunc
 
 export const updateJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    // Only plain field updates - operators would get past the normalizers below
+    const operators = Object.keys(req.body || {}).filter(key => key.startsWith('$'));
+    if (operators.length > 0) {
+      throw new AppError(`Unsupported update operators: ${operators.join(', ')}`, 400);
+    }
+
+    const updates: Record<string, any> = {};
+    for (const field of EDITABLE_JOB_FIELDS) {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    }
+    const unset: Record<string, 1> = {};
+
+    if (updates.pipeline !== undefined) {
+      updates.pipeline = pipelineService.normalizePipeline(updates.pipeline);
+    }
+    if (updates.scorecardTemplate !== undefined) {
+      updates.scorecardTemplate = scorecardService.normalizeTemplate(updates.scorecardTemplate);
+    }
+    if (updates.interviewPlan !== undefined) {
+      updates.interviewPlan = interviewLoopService.normalizePlan(updates.interviewPlan);
+      await interviewLoopService.assertPlanInterviewers(req.user!.id, updates.interviewPlan);
+    }
+    if (updates.niceToHaveSkills !== undefined) {
+      updates.niceToHaveSkills = skillProficiencyService.normalizeNiceToHaveSkills(updates.niceToHaveSkills, updates.requiredSkills);
+    }
+    if (updates.skillRequirements !== undefined) {
+      // Only drop entries for removed skills when both skill lists come with the update
+      const jobSkills = updates.requiredSkills && updates.niceToHaveSkills
+        ? [...updates.requiredSkills, ...updates.niceToHaveSkills]
+        : undefined;
+      updates.skillRequirements = skillProficiencyService.normalizeRequirements(updates.skillRequirements, jobSkills);
+    }
+    if (updates.screeningQuestions !== undefined) {
+      updates.screeningQuestions = screeningService.normalizeQuestions(updates.screeningQuestions);
+    }
+    if (updates.knockoutAction !== undefined) {
+      updates.knockoutAction = screeningService.normalizeAction(updates.knockoutAction);
+    }
+    if (updates.knockoutRejectionTemplate !== undefined) {
+      const template = screeningService.normalizeTemplate(updates.knockoutRejectionTemplate);
+      if (template) {
+        updates.knockoutRejectionTemplate = template;
+      } else {
+        // Empty template goes back to the default wording
+        delete updates.knockoutRejectionTemplate;
+        unset.knockoutRejectionTemplate = 1;
+      }
+    }
+    const weightsChanged = updates.scoringWeights !== undefined;
+    if (weightsChanged) {
+      if (updates.scoringWeights === null) {
+        // null goes back to the job category defaults
+        delete updates.scoringWeights;
+        unset.scoringWeights = 1;
+      } else {
+        updates.scoringWeights = scoringService.normalizeWeights(updates.scoringWeights);
+      }
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
     const job = await Job.findOneAndUpdate(
-      { _id: req.params.id, recruiterId: req.user?.id },
-      req.body,
+      { _id: req.params.id, ...scope },
+      {
+        ...(Object.keys(updates).length > 0 ? { $set: updates } : {}),
+        ...(Object.keys(unset).length > 0 ? { $unset: unset } : {}),
+        ...(weightsChanged ? { $inc: { scoringWeightsVersion: 1 } } : {})
+      },
       { new: true, runValidators: true }
     );
 
@@ -248,6 +375,11 @@ export const updateJob = async (req: AuthRequest, res: Response, next: NextFunct
       throw new AppError('Job not found or unauthorized', 404);
     }
 
+    // Re-rank applicants with the new weights in the background
+    if (weightsChanged) {
+      await scoringService.queueJobRerank(job);
+    }
+
     res.status(200).json({
       status: 'success',
       message: 'Job updated successfully',
@@ -258,11 +390,310 @@ export const updateJob = async (req: AuthRequest, res: Response, next: NextFunct
   }
 };
 
+// Get the effective hiring pipeline for a job (the default one if none is defined)
+export const getJobPipeline = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: req.params.id, ...scope }).select('title pipeline');
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    const pipeline = pipelineService.getPipeline(job);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobId: job._id,
+        isDefault: job.pipeline.length === 0,
+        stages: pipeline.map(stage => ({
+          ...stage,
+          // Resolved transitions so the UI can show what each stage leads to
+          nextStages: pipelineService.getAllowedTransitions(pipeline, stage).map(next => next.key)
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the hiring pipeline of a job. Existing applications whose stage no longer
+// exists are resolved through their status category.
+export const updateJobPipeline = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { stages, useDefault } = req.body;
+    const pipeline = useDefault ? [] : pipelineService.normalizePipeline(stages);
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, ...scope },
+      { pipeline },
+      { new: true, runValidators: true }
+    );
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Hiring pipeline updated successfully',
+      data: {
+        jobId: job._id,
+        isDefault: job.pipeline.length === 0,
+        stages: pipelineService.getPipeline(job)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the interview scorecard rubric for a job (the default one if none is defined)
+export const getJobScorecard = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: req.params.id, ...scope }).select('title scorecardTemplate');
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobId: job._id,
+        isDefault: job.scorecardTemplate.length === 0,
+        competencies: scorecardService.getTemplate(job)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the scorecard rubric of a job. Feedback already submitted keeps the
+// competencies it was scored against.
+export const updateJobScorecard = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { competencies, useDefault } = req.body;
+    const scorecardTemplate = useDefault ? [] : scorecardService.normalizeTemplate(competencies);
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, ...scope },
+      { scorecardTemplate },
+      { new: true, runValidators: true }
+    );
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Interview scorecard updated successfully',
+      data: {
+        jobId: job._id,
+        isDefault: job.scorecardTemplate.length === 0,
+        competencies: scorecardService.getTemplate(job)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the signal weights candidates for a job are scored with, and the category defaults
+export const getJobScoringWeights = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: req.params.id, ...scope })
+      .select('title jobCategory scoringWeights scoringWeightsVersion');
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobId: job._id,
+        ...scoringService.getWeightProfile(job),
+        defaults: scoringService.getCategoryWeights(job.jobCategory)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the weight profile of a job (or go back to the category defaults) and
+// queue a re-rank of its evaluated applicants with it
+export const updateJobScoringWeights = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { weights, useDefault } = req.body;
+    const scoringWeights = useDefault ? undefined : scoringService.normalizeWeights(weights);
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, ...scope },
+      {
+        ...(scoringWeights ? { scoringWeights } : { $unset: { scoringWeights: 1 } }),
+        $inc: { scoringWeightsVersion: 1 }
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    const queued = await scoringService.queueJobRerank(job);
+
+    res.status(202).json({
+      status: 'success',
+      message: `Scoring weights updated - re-ranking ${queued} applicant${queued === 1 ? '' : 's'} in the background`,
+      data: {
+        jobId: job._id,
+        ...scoringService.getWeightProfile(job),
+        defaults: scoringService.getCategoryWeights(job.jobCategory),
+        queued
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the interview loop (ordered rounds) candidates for a job go through
+export const getJobInterviewPlan = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: req.params.id, ...scope })
+      .select('title interviewPlan')
+      .populate('interviewPlan.interviewerIds', 'fullName email');
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobId: job._id,
+        rounds: job.interviewPlan
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the interview plan of a job. Interviews already scheduled keep their round;
+// rounds that no longer exist simply stop counting towards the loop.
+export const updateJobInterviewPlan = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const rounds = interviewLoopService.normalizePlan(req.body.rounds);
+    await interviewLoopService.assertPlanInterviewers(req.user!.id, rounds);
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, ...scope },
+      { interviewPlan: rounds },
+      { new: true, runValidators: true }
+    );
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: rounds.length > 0 ? 'Interview plan updated successfully' : 'Interview plan removed',
+      data: {
+        jobId: job._id,
+        rounds: interviewLoopService.getPlan(job)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the screening questions applicants answer when applying, with their knockout rules
+export const getJobScreeningQuestions = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: req.params.id, ...scope })
+      .select('title screeningQuestions knockoutAction knockoutRejectionTemplate');
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        jobId: job._id,
+        questions: screeningService.getQuestions(job),
+        knockoutAction: job.knockoutAction,
+        rejectionTemplate: job.knockoutRejectionTemplate || null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the screening questions of a job. Applications already submitted keep the
+// answers (and screening result) they were submitted with.
+export const updateJobScreeningQuestions = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const questions = screeningService.normalizeQuestions(req.body.questions);
+    const knockoutAction = screeningService.normalizeAction(req.body.knockoutAction || 'flag');
+    const rejectionTemplate = screeningService.normalizeTemplate(req.body.rejectionTemplate);
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOneAndUpdate(
+      { _id: req.params.id, ...scope },
+      {
+        screeningQuestions: questions,
+        knockoutAction,
+        ...(rejectionTemplate
+          ? { knockoutRejectionTemplate: rejectionTemplate }
+          : { $unset: { knockoutRejectionTemplate: 1 } })
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: questions.length > 0 ? 'Screening questions updated successfully' : 'Screening questions removed',
+      data: {
+        jobId: job._id,
+        questions: screeningService.getQuestions(job),
+        knockoutAction: job.knockoutAction,
+        rejectionTemplate: job.knockoutRejectionTemplate || null
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const deleteJob = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
     const job = await Job.findOneAndDelete({
       _id: req.params.id,
-      recruiterId: req.user?.id
+      ...scope
     });
 
     if (!job) {
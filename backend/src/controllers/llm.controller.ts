@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { LLM_FEATURES, LlmFeature } from '../config/llm';
+import llmUsageService from '../services/llm/llm-usage.service';
+import llmCacheService from '../services/llm/llm-cache.service';
+import llmService from '../services/llm.service';
+import { circuitBreakers } from '../utils/circuit-breaker';
+
+// Token usage, latency and budgets of the AI features
+export const getLlmUsage = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const days = typeof req.query.days === 'string' ? parseInt(req.query.days, 10) : 7;
+    const usage = await llmUsageService.getSummary(days);
+
+    res.json({
+      status: 'success',
+      data: { usage }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Drop cached AI replies, e.g. after a provider returned bad answers
+export const clearLlmCache = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { feature } = req.query;
+    if (feature !== undefined && !LLM_FEATURES.includes(feature as LlmFeature)) {
+      return next(new AppError('Unknown AI feature', 400));
+    }
+
+    const deleted = await llmCacheService.clear(feature as LlmFeature | undefined);
+
+    res.json({
+      status: 'success',
+      message: `Cleared ${deleted} cached AI replies`,
+      data: { deleted }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Circuit breaker state of the AI providers and keys, and the providers each feature uses now
+export const getLlmHealth = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const features = llmService.getHealth();
+    const circuits = circuitBreakers.list();
+    const degraded = circuits.some(circuit => circuit.state !== 'closed') || features.some(feature => !feature.available);
+
+    res.json({
+      status: 'success',
+      data: {
+        health: degraded ? 'degraded' : 'ok',
+        features,
+        circuits,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
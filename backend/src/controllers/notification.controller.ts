@@ -5,6 +5,7 @@ import { Application } from '../models/Application.model';
 import { Job } from '../models/Job.model';
 import { ApplicantProfile } from '../models/ApplicantProfile.model';
 import { AppError } from '../middleware/errorHandler';
+import pipelineService from '../services/pipeline.service';
 
 // Get all notifications for the current user
 export const getNotifications = async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -180,14 +181,17 @@ export const autoApplyFromNotification = async (req: AuthRequest, res: Response,
       confidence: 0
     } : undefined;
 
+    const initialStage = pipelineService.getInitialStage(pipelineService.getPipeline(job));
+
     // Create the application
     const application = await Application.create({
       applicantId: req.user?.id,
       jobId,
       coverLetter: `Auto-applied based on ${notification.data.matchPercentage}% skill match.`,
-      status: 'pending',
+      status: initialStage.status,
+      stage: initialStage.key,
       statusHistory: [{
-        status: 'pending',
+        ...pipelineService.toHistoryFields(initialStage),
         timestamp: new Date(),
         note: 'Auto-applied from job match notification'
       }],
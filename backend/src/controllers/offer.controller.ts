@@ -0,0 +1,422 @@
+import { Response, NextFunction } from 'express';
+import { Offer } from '../models/Offer.model';
+import { Application } from '../models/Application.model';
+import { Job } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { emailService } from '../services/email.service';
+import pipelineService from '../services/pipeline.service';
+import transitionGuardService from '../services/transition-guard.service';
+import offerService, { OPEN_OFFER_STATUSES } from '../services/offer.service';
+import organizationService from '../services/organization.service';
+import schedulingLinkService from '../services/scheduling-link.service';
+
+// Email the candidate about a newly sent offer (non-blocking)
+const notifyOfferSent = async (offerId: unknown) => {
+  const offer = await Offer.findById(offerId)
+    .populate('applicantId', 'fullName email')
+    .populate('jobId', 'title company');
+
+  if (!offer || !offer.applicantId || !offer.jobId) return;
+
+  const applicant = offer.applicantId as any;
+  const job = offer.jobId as any;
+
+  emailService.sendOfferSent({
+    applicantName: applicant.fullName,
+    applicantEmail: applicant.email,
+    jobTitle: job.title,
+    companyName: job.company || 'HireSense',
+    salary: offer.salary,
+    currency: offer.currency,
+    startDate: emailService.formatDate(offer.startDate),
+    expiresAt: emailService.formatDate(offer.expiresAt),
+    notes: offer.notes || undefined,
+  }).catch(err => console.error('Email failed:', err));
+};
+
+// Email the recruiter when the candidate accepts or declines (non-blocking)
+const notifyOfferResponse = async (offerId: unknown, jobClosed: boolean) => {
+  const offer = await Offer.findById(offerId)
+    .populate('applicantId', 'fullName')
+    .populate('recruiterId', 'fullName email')
+    .populate('jobId', 'title');
+
+  if (!offer || !offer.recruiterId || !offer.jobId) return;
+
+  const applicant = offer.applicantId as any;
+  const recruiter = offer.recruiterId as any;
+  const job = offer.jobId as any;
+
+  emailService.sendOfferResponse({
+    recruiterName: recruiter.fullName,
+    recruiterEmail: recruiter.email,
+    applicantName: applicant?.fullName || 'The candidate',
+    jobTitle: job.title,
+    response: offer.status as 'accepted' | 'declined',
+    declineReason: offer.declineReason,
+    jobClosed,
+  }).catch(err => console.error('Email failed:', err));
+};
+
+/**
+ * Create an offer for a selected candidate (recruiter)
+ * Pass send: true to send it to the candidate straight away
+ */
+export const createOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { applicationId, send, ...terms } = req.body;
+
+    if (!applicationId) {
+      throw new AppError('Application ID is required', 400);
+    }
+
+    const application = await Application.findById(applicationId);
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const job = await Job.findOne({ _id: application.jobId, ...scope });
+    if (!job) {
+      throw new AppError('Job not found or unauthorized', 404);
+    }
+
+    if (application.status !== 'selected') {
+      throw new AppError('Offers can only be made to selected candidates', 409);
+    }
+
+    // Accepting the offer moves the application to the hired stage, so make sure
+    // that move is possible before the candidate ever sees the offer
+    const pipeline = pipelineService.getPipeline(job);
+    const hiredStage = pipelineService.getStageForStatus(pipeline, 'hired');
+    if (!hiredStage) {
+      throw new AppError('This job\'s pipeline has no hired stage', 409);
+    }
+    const check = await transitionGuardService.checkTransition(application, pipeline, hiredStage);
+    if (!check.allowed) {
+      throw new AppError(check.reason || 'Candidate cannot be hired yet', 409);
+    }
+
+    await offerService.expireStaleOffers({ applicationId: application._id });
+    const openOffer = await Offer.exists({ applicationId: application._id, status: { $in: OPEN_OFFER_STATUSES } });
+    if (openOffer) {
+      throw new AppError('This application already has an open offer', 409);
+    }
+
+    const validated = offerService.validateTerms(job, terms);
+    if (send && validated.expiresAt! <= new Date()) {
+      throw new AppError('Offer expiry date must be in the future', 400);
+    }
+
+    const offer = await Offer.create({
+      ...validated,
+      applicationId: application._id,
+      jobId: job._id,
+      applicantId: application.applicantId,
+      recruiterId: req.user?.id,
+      organizationId: job.organizationId,
+      status: send ? 'sent' : 'draft',
+      sentAt: send ? new Date() : undefined
+    });
+
+    if (send) {
+      await notifyOfferSent(offer._id);
+    }
+
+    res.status(201).json({
+      status: 'success',
+      message: send ? '📨 Offer sent to candidate.' : 'Offer saved as draft.',
+      data: { offer }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update the terms of a draft offer (recruiter)
+ */
+export const updateOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const offer = await Offer.findOne({ _id: id, ...scope });
+    if (!offer) {
+      throw new AppError('Offer not found', 404);
+    }
+
+    if (offer.status !== 'draft') {
+      throw new AppError('Only draft offers can be edited', 409);
+    }
+
+    const job = await Job.findById(offer.jobId);
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+
+    const { salary, currency, startDate, expiresAt, notes } = req.body;
+    const validated = offerService.validateTerms(job, { salary, currency, startDate, expiresAt, notes }, { partial: true });
+    Object.assign(offer, validated);
+
+    if (offer.expiresAt > offer.startDate) {
+      throw new AppError('Offer must expire before the start date', 400);
+    }
+
+    await offer.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Offer updated',
+      data: { offer }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Send a draft offer to the candidate (recruiter)
+ */
+export const sendOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const offer = await Offer.findOne({ _id: id, ...scope });
+    if (!offer) {
+      throw new AppError('Offer not found', 404);
+    }
+
+    if (offer.status !== 'draft') {
+      throw new AppError(`Offer has already been ${offer.status}`, 409);
+    }
+
+    if (offer.expiresAt <= new Date()) {
+      throw new AppError('Offer expiry date must be in the future', 400);
+    }
+
+    offer.status = 'sent';
+    offer.sentAt = new Date();
+    await offer.save();
+
+    await notifyOfferSent(offer._id);
+
+    res.status(200).json({
+      status: 'success',
+      message: '📨 Offer sent to candidate.',
+      data: { offer }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a draft offer (recruiter)
+ */
+export const deleteOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const offer = await Offer.findOne({ _id: id, ...scope });
+    if (!offer) {
+      throw new AppError('Offer not found', 404);
+    }
+
+    if (offer.status !== 'draft') {
+      throw new AppError('Only draft offers can be deleted', 409);
+    }
+
+    await offer.deleteOne();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Draft offer deleted'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all offers made by the recruiter, optionally filtered by job or status
+ */
+export const getRecruiterOffers = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { jobId, status } = req.query;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    await offerService.expireStaleOffers(scope);
+
+    const query: any = { ...scope };
+    if (jobId) query.jobId = jobId;
+    if (status) query.status = status;
+
+    const offers = await Offer.find(query)
+      .populate('applicantId', 'fullName email')
+      .populate('jobId', 'title salaryMin salaryMax openings hiredCount status')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      results: offers.length,
+      data: { offers }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the offer history of a single application (recruiter)
+ */
+export const getOffersByApplication = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { applicationId } = req.params;
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    await offerService.expireStaleOffers({ applicationId, ...scope });
+
+    const offers = await Offer.find({ applicationId, ...scope }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      results: offers.length,
+      data: { offers }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get offers sent to the logged-in applicant
+ */
+export const getMyOffers = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await offerService.expireStaleOffers({ applicantId: req.user?.id });
+
+    // Drafts are internal to the recruiter
+    const offers = await Offer.find({ applicantId: req.user?.id, status: { $ne: 'draft' } })
+      .populate('jobId', 'title company location employmentType')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      results: offers.length,
+      data: { offers }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept an offer (applicant)
+ * Moves the application to the hired stage, increments the job's hiredCount and
+ * closes the job once all openings are filled
+ */
+export const acceptOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const offer = await Offer.findOne({ _id: id, applicantId: req.user?.id, status: { $ne: 'draft' } });
+    if (!offer) {
+      throw new AppError('Offer not found', 404);
+    }
+
+    await offerService.expireIfStale(offer);
+    if (offer.status !== 'sent') {
+      throw new AppError(`This offer has been ${offer.status} and can no longer be accepted`, 409);
+    }
+
+    const application = await Application.findById(offer.applicationId);
+    const job = await Job.findById(offer.jobId);
+    if (!application || !job) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const pipeline = pipelineService.getPipeline(job);
+    const hiredStage = pipelineService.getStageForStatus(pipeline, 'hired');
+    if (!hiredStage) {
+      throw new AppError('This job\'s pipeline has no hired stage', 409);
+    }
+    await transitionGuardService.assertTransition(application, pipeline, hiredStage);
+
+    // Take the opening first - a 409 here leaves the offer and application untouched
+    const updatedJob = await offerService.recordHire(job._id);
+
+    try {
+      offer.status = 'accepted';
+      offer.respondedAt = new Date();
+      await offer.save();
+
+      application.statusHistory.push({
+        ...pipelineService.toHistoryFields(hiredStage),
+        timestamp: new Date(),
+        note: 'Offer accepted',
+        changedBy: req.user?.id as any
+      });
+      application.status = hiredStage.status;
+      application.stage = hiredStage.key;
+      await application.save();
+    } catch (error) {
+      await offerService.revokeHire(job._id);
+      throw error;
+    }
+    await schedulingLinkService.cancelPendingLinks([application._id]);
+
+    const jobClosed = job.status !== 'closed' && updatedJob.status === 'closed';
+
+    await notifyOfferResponse(offer._id, jobClosed);
+
+    res.status(200).json({
+      status: 'success',
+      message: jobClosed
+        ? '🎉 Offer accepted. All openings are now filled and the job has been closed.'
+        : '🎉 Offer accepted. Welcome aboard!',
+      data: { offer, application, job: updatedJob }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Decline an offer (applicant)
+ * The application stays in its current stage so the recruiter can revise the offer or move on
+ */
+export const declineOffer = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const offer = await Offer.findOne({ _id: id, applicantId: req.user?.id, status: { $ne: 'draft' } });
+    if (!offer) {
+      throw new AppError('Offer not found', 404);
+    }
+
+    await offerService.expireIfStale(offer);
+    if (offer.status !== 'sent') {
+      throw new AppError(`This offer has been ${offer.status} and can no longer be declined`, 409);
+    }
+
+    offer.status = 'declined';
+    offer.respondedAt = new Date();
+    offer.declineReason = typeof reason === 'string' && reason.trim() ? reason.trim() : undefined;
+    await offer.save();
+
+    await notifyOfferResponse(offer._id, false);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Offer declined. The hiring team has been notified.',
+      data: { offer }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
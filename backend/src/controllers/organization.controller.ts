@@ -0,0 +1,282 @@
+import { Response, NextFunction } from 'express';
+import { Organization, IOrganization, OrganizationRole } from '../models/Organization.model';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import organizationService from '../services/organization.service';
+
+// Shape returned to the client: members with their user details and the caller's own role
+const toOrganizationResponse = async (organization: IOrganization, role: OrganizationRole) => {
+  const populated = await Organization.findById(organization._id)
+    .populate('members.userId', 'fullName email avatarUrl')
+    .populate('invitations.userId', 'fullName email');
+
+  return {
+    organization: {
+      id: organization._id,
+      name: organization.name,
+      description: organization.description,
+      website: organization.website,
+      location: organization.location,
+      createdAt: organization.createdAt,
+      members: (populated?.members || []).map(member => {
+        const user = member.userId as any;
+        return {
+          userId: user?._id || member.userId,
+          fullName: user?.fullName || 'Unknown',
+          email: user?.email || '',
+          avatarUrl: user?.avatarUrl || '',
+          role: member.role,
+          joinedAt: member.joinedAt
+        };
+      }),
+      invitations: (populated?.invitations || []).map(invitation => {
+        const user = invitation.userId as any;
+        return {
+          userId: user?._id || invitation.userId,
+          fullName: user?.fullName || 'Unknown',
+          email: user?.email || '',
+          role: invitation.role,
+          invitedAt: invitation.invitedAt
+        };
+      })
+    },
+    role,
+    permissions: organizationService.getPermissions(role)
+  };
+};
+
+// Load the caller's organization, or fail when they are not in one
+const requireMembership = async (req: AuthRequest) => {
+  const membership = await organizationService.getMembership(req.user?.id);
+  if (!membership) {
+    throw new AppError('You are not part of an organization', 404);
+  }
+  return membership;
+};
+
+/**
+ * Get the organization the logged-in recruiter belongs to
+ */
+export const getMyOrganization = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const membership = await organizationService.getMembership(req.user?.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: membership
+        ? await toOrganizationResponse(membership.organization, membership.role)
+        : { organization: null, role: null, permissions: organizationService.getPermissions(undefined) }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create an organization. The creator becomes its admin and their existing
+ * jobs, talent pool and offers are shared with the organization.
+ */
+export const createOrganization = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, description, website, location } = req.body;
+
+    const organization = await organizationService.createOrganization(req.user!.id, {
+      name,
+      description,
+      website,
+      location
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Organization created successfully',
+      data: await toOrganizationResponse(organization, 'admin')
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update organization details (admin)
+ */
+export const updateOrganization = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization, role } = await requireMembership(req);
+    const { name, description, website, location } = req.body;
+
+    if (name !== undefined) {
+      if (!String(name).trim()) {
+        throw new AppError('Organization name is required', 400);
+      }
+      organization.name = String(name).trim();
+    }
+    if (description !== undefined) organization.description = description;
+    if (website !== undefined) organization.website = website;
+    if (location !== undefined) organization.location = location;
+    await organization.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Organization updated successfully',
+      data: await toOrganizationResponse(organization, role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Invite a recruiter to the organization by email (admin). They join once they accept.
+ */
+export const inviteMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization, role } = await requireMembership(req);
+    const { email, role: memberRole } = req.body;
+
+    if (!email) {
+      throw new AppError('Email is required', 400);
+    }
+
+    await organizationService.inviteMember(organization, email, memberRole || 'recruiter', req.user!.id);
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Invitation sent',
+      data: await toOrganizationResponse(organization, role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Withdraw a pending invitation (admin)
+ */
+export const cancelInvitation = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization, role } = await requireMembership(req);
+
+    await organizationService.cancelInvitation(organization, req.params.userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Invitation withdrawn',
+      data: await toOrganizationResponse(organization, role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Invitations waiting for the logged-in recruiter
+ */
+export const getMyInvitations = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const invitations = await organizationService.getInvitations(req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: { invitations }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept an invitation. The recruiter's jobs, talent pool and offers move into the organization.
+ */
+export const acceptInvitation = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization, role } = await organizationService.acceptInvitation(req.user!.id, req.params.organizationId);
+
+    res.status(200).json({
+      status: 'success',
+      message: `You joined ${organization.name}`,
+      data: await toOrganizationResponse(organization, role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Decline an invitation
+ */
+export const declineInvitation = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    await organizationService.declineInvitation(req.user!.id, req.params.organizationId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Invitation declined'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change a member's role (admin)
+ */
+export const updateMemberRole = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization } = await requireMembership(req);
+
+    await organizationService.updateMemberRole(organization, req.params.userId, req.body.role);
+
+    // The caller may have changed their own role
+    const membership = await requireMembership(req);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Member role updated',
+      data: await toOrganizationResponse(membership.organization, membership.role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a member from the organization (admin)
+ */
+export const removeMember = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization, role } = await requireMembership(req);
+
+    if (req.params.userId === req.user?.id) {
+      throw new AppError('Use "leave organization" to remove yourself', 400);
+    }
+
+    await organizationService.removeMember(organization, req.params.userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Member removed from organization',
+      data: await toOrganizationResponse(organization, role)
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Leave the organization. Jobs, talent pool entries and offers the member created go with them.
+ */
+export const leaveOrganization = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { organization } = await requireMembership(req);
+
+    await organizationService.removeMember(organization, req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'You have left the organization'
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,78 @@
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import promptRegistryService from '../services/prompt-registry.service';
+
+const parseVersion = (value: string): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// List the AI prompts with their versions and traffic shares
+export const listPrompts = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const prompts = await promptRegistryService.list();
+
+    res.json({
+      status: 'success',
+      data: { prompts }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a draft version of a prompt
+export const createPromptVersion = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const prompt = await promptRegistryService.createVersion(req.params.name, req.body, req.user!.id);
+
+    res.status(201).json({
+      status: 'success',
+      message: `Draft version ${prompt.version} added`,
+      data: { prompt }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change the status or traffic share of a version
+export const updatePromptRollout = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return next(new AppError('Invalid version', 400));
+    }
+
+    const prompt = await promptRegistryService.updateRollout(req.params.name, version, req.body, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: 'Rollout updated',
+      data: { prompt }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Send all traffic to one version, retiring the others
+export const promotePromptVersion = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return next(new AppError('Invalid version', 400));
+    }
+
+    const prompt = await promptRegistryService.promote(req.params.name, version, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: `${prompt.name} version ${prompt.version} now receives all traffic`,
+      data: { prompt }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
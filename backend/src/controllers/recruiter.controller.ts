@@ -7,6 +7,9 @@ import { AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth.middleware';
 import crypto from 'crypto';
 import { emailService } from '../services/email.service';
+import pipelineService from '../services/pipeline.service';
+import organizationService from '../services/organization.service';
+import availabilityService from '../services/availability.service';
 
 export const getProfile = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -91,6 +94,43 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
   }
 };
 
+// Interview availability calendar (working hours, timezone, breaks, blocked days)
+export const getAvailability = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const availability = await availabilityService.getAvailability(req.user!.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: { availability }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateAvailability = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { timezone, slotInterval, workingHours, breaks, blockedDates } = req.body;
+
+    const updateData: any = {};
+    if (timezone !== undefined) updateData.timezone = timezone;
+    if (slotInterval !== undefined) updateData.slotInterval = slotInterval;
+    if (workingHours !== undefined) updateData.workingHours = workingHours;
+    if (breaks !== undefined) updateData.breaks = breaks;
+    if (blockedDates !== undefined) updateData.blockedDates = blockedDates;
+
+    const availability = await availabilityService.updateAvailability(req.user!.id, updateData);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Availability updated successfully',
+      data: { availability }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // 🔐 SEND VERIFICATION EMAIL
 export const sendVerificationEmail = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -176,8 +216,9 @@ export const verifyEmail = async (req: Request, res: Response, next: NextFunctio
 
 export const getDashboard = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    // Get all jobs posted by this recruiter
-    const jobs = await Job.find({ recruiterId: req.user?.id });
+    // Get all jobs posted by this recruiter (or shared with their organization)
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const jobs = await Job.find(scope);
     const jobIds = jobs.map(job => job._id);
 
     // Get all applications for these jobs (handle empty jobIds array)
@@ -185,13 +226,29 @@ export const getDashboard = async (req: AuthRequest, res: Response, next: NextFu
       ? await Application.find({ jobId: { $in: jobIds } })
       : [];
 
+    // Per-stage counts, each job's applications counted against its own pipeline
+    const stageCounts = pipelineService.countByStageAcrossJobs(jobs, applications);
+    const jobPipelines = jobs.map(job => ({
+      jobId: job._id,
+      title: job.title,
+      stages: pipelineService.countByStage(
+        pipelineService.getPipeline(job),
+        applications.filter(app => app.jobId.toString() === job._id.toString())
+      )
+    }));
+
+    // Summary counters roll stages up by the status category they map to
+    const countForStatuses = (...statuses: string[]) => stageCounts
+      .filter(stage => statuses.includes(stage.status))
+      .reduce((sum, stage) => sum + stage.count, 0);
+
     // Calculate stats
     const totalJobs = jobs.length;
     const totalApplicants = applications.length;
-    const selectedCount = applications.filter(app => app.status === 'selected' || app.status === 'shortlisted').length;
-    const rejectedCount = applications.filter(app => app.status === 'rejected').length;
-    const reviewingCount = applications.filter(app => app.status === 'reviewing' || app.status === 'under_review').length;
-    const pendingCount = applications.filter(app => app.status === 'pending').length;
+    const selectedCount = countForStatuses('selected', 'shortlisted');
+    const rejectedCount = countForStatuses('rejected');
+    const reviewingCount = countForStatuses('reviewing', 'under_review');
+    const pendingCount = countForStatuses('pending');
 
     // Get recent applications with AI insights (handle empty jobIds)
     const recentApplications = jobIds.length > 0
@@ -220,6 +277,8 @@ export const getDashboard = async (req: AuthRequest, res: Response, next: NextFu
           pendingCount,
           avgScore: Math.round(avgScore)
         },
+        stageCounts,
+        jobPipelines,
         recentApplications: recentApplications.map(app => ({
           id: app._id,
           applicantName: (app.applicantId as any)?.fullName || 'Unknown',
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/errorHandler';
+import jobScheduler from '../services/job-scheduler.service';
+
+/**
+ * Run every due background job (cron trigger for serverless deployments).
+ * Authorized with the CRON_SECRET bearer token.
+ */
+export const runScheduledJobs = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+      throw new AppError('Scheduler endpoint is not configured', 503);
+    }
+    if (req.headers.authorization !== `Bearer ${secret}`) {
+      throw new AppError('Invalid scheduler token', 401);
+    }
+
+    const results = await jobScheduler.runDueJobs();
+
+    res.status(200).json({
+      status: 'success',
+      data: { results }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Persisted state of the background jobs
+ */
+export const getSchedulerStatus = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const jobs = await jobScheduler.getStatus();
+
+    res.status(200).json({
+      status: 'success',
+      data: { jobs }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
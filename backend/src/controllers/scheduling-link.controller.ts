@@ -0,0 +1,177 @@
+import { Request, Response, NextFunction } from 'express';
+import { SchedulingLink, ISchedulingLink } from '../models/SchedulingLink.model';
+import { User } from '../models/User.model';
+import { Job } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { emailService } from '../services/email.service';
+import organizationService from '../services/organization.service';
+import schedulingLinkService from '../services/scheduling-link.service';
+
+// Link details safe to show the candidate (no internal IDs beyond the token)
+const toPublicLink = (link: ISchedulingLink, job: any) => ({
+  jobTitle: job?.title || '',
+  companyName: job?.company || '',
+  duration: link.duration,
+  type: link.type,
+  status: link.status,
+  expiresAt: link.expiresAt
+});
+
+/**
+ * Create a self-scheduling link for an application and email it to the candidate
+ */
+export const createSchedulingLink = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { applicationId, interviewerIds, duration, type, meetingLink, notes, windowStart, windowEnd } = req.body;
+
+    if (!applicationId) {
+      throw new AppError('Application ID is required', 400);
+    }
+
+    const link = await schedulingLinkService.createLink(req.user!.id, {
+      applicationId,
+      interviewerIds,
+      duration,
+      type,
+      meetingLink,
+      notes,
+      windowStart,
+      windowEnd
+    });
+
+    // Send scheduling link email (non-blocking)
+    const [applicant, job] = await Promise.all([
+      User.findById(link.applicantId).select('fullName email'),
+      Job.findById(link.jobId).select('title company')
+    ]);
+
+    if (applicant && job) {
+      emailService.sendSchedulingLink({
+        applicantName: applicant.fullName,
+        applicantEmail: applicant.email,
+        jobTitle: job.title,
+        companyName: job.company || 'HireSense',
+        duration: link.duration,
+        type: link.type,
+        token: link.token,
+        expiresAt: emailService.formatDate(link.expiresAt)
+      }).catch(err => console.error('Email failed:', err));
+    }
+
+    res.status(201).json({
+      status: 'success',
+      message: '📨 Scheduling link sent to the candidate',
+      data: { link }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List scheduling links for an application (recruiter)
+ */
+export const getSchedulingLinks = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { applicationId } = req.query;
+
+    if (!applicationId) {
+      throw new AppError('Application ID is required', 400);
+    }
+
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const jobIds = await Job.find(scope).distinct('_id');
+
+    const links = await SchedulingLink.find({ applicationId, jobId: { $in: jobIds } })
+      .populate('interviewId', 'scheduledTime duration status')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      status: 'success',
+      results: links.length,
+      data: { links }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a pending scheduling link (recruiter)
+ */
+export const cancelSchedulingLink = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const jobIds = await Job.find(scope).distinct('_id');
+
+    const link = await SchedulingLink.findOne({ _id: req.params.id, jobId: { $in: jobIds } });
+    if (!link) {
+      throw new AppError('Scheduling link not found', 404);
+    }
+    if (link.status !== 'pending') {
+      throw new AppError(`Only pending links can be cancelled (this one is ${link.status})`, 400);
+    }
+
+    link.status = 'cancelled';
+    await link.save();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Scheduling link cancelled',
+      data: { link }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// ============= CANDIDATE ROUTES (Public - the token is the credential) =============
+
+/**
+ * Get the slots a candidate can pick from
+ */
+export const getPublicSchedulingLink = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await schedulingLinkService.getByToken(req.params.token);
+    const job = await Job.findById(link.jobId).select('title company');
+
+    const availability = link.status === 'pending'
+      ? await schedulingLinkService.getOfferedSlots(link)
+      : { timezone: null, days: [] };
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        link: toPublicLink(link, job),
+        ...availability
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Book a slot. The interview is created already confirmed by the candidate.
+ */
+export const bookSchedulingLink = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const interview = await schedulingLinkService.bookSlot(req.params.token, req.body.startTime);
+
+    res.status(201).json({
+      status: 'success',
+      message: '📅 Your interview is booked. A calendar invite is on its way.',
+      data: {
+        interview: {
+          scheduledTime: interview.scheduledTime,
+          duration: interview.duration,
+          type: interview.type,
+          meetingLink: interview.meetingLink
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
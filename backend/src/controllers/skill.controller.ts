@@ -0,0 +1,118 @@
+import { Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth.middleware';
+import skillDictionaryService from '../services/skill-dictionary.service';
+
+// List the skills of the dictionary
+export const listSkills = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, search } = req.query;
+
+    const skills = await skillDictionaryService.list({
+      status: typeof status === 'string' && status !== 'all' ? status : undefined,
+      search: typeof search === 'string' ? search : undefined
+    });
+
+    res.json({
+      status: 'success',
+      data: { skills }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a skill with its aliases
+export const createSkill = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const skill = await skillDictionaryService.create(req.body, req.user!.id);
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Skill added',
+      data: { skill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the aliases of a skill
+export const updateSkillAliases = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const skill = await skillDictionaryService.updateAliases(req.params.name, req.body.aliases, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: 'Aliases updated',
+      data: { skill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Merge a duplicate skill into another one
+export const mergeSkill = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { into } = req.body;
+    if (typeof into !== 'string' || !into.trim()) {
+      return next(new AppError('Target skill is required', 400));
+    }
+
+    const skill = await skillDictionaryService.merge(req.params.name, into, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: `Merged "${req.params.name}" into "${skill.name}"`,
+      data: { skill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Retire a skill
+export const retireSkill = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const skill = await skillDictionaryService.retire(req.params.name, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: 'Skill retired',
+      data: { skill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Bring a retired skill back
+export const restoreSkill = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const skill = await skillDictionaryService.restore(req.params.name, req.user!.id);
+
+    res.json({
+      status: 'success',
+      message: 'Skill restored',
+      data: { skill }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Raw skill strings on profiles and jobs that match no skill
+export const getUnmatchedSkills = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || undefined;
+    const skills = await skillDictionaryService.getUnmatchedReport(limit);
+
+    res.json({
+      status: 'success',
+      data: { skills }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
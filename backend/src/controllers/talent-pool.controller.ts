@@ -5,13 +5,16 @@ import { Job } from '../models/Job.model';
 import { AppError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth.middleware';
 import talentPoolService from '../services/talent-pool.service';
+import pipelineService from '../services/pipeline.service';
+import organizationService from '../services/organization.service';
 
 // Get all talent pool entries for recruiter
 export const getTalentPool = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { status, tag } = req.query;
 
-    let query: any = { recruiterId: req.user?.id };
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    let query: any = { ...scope };
     
     if (status && status !== 'all') {
       query.status = status;
@@ -53,6 +56,7 @@ export const getTalentPool = async (req: AuthRequest, res: Response, next: NextF
             status: sjJob?.status || 'unknown',
             matchScore: sj.matchScore,
             matchedSkills: sj.matchedSkills,
+            relatedMatches: sj.relatedMatches || [],
           };
         }),
         status: entry.status,
@@ -96,7 +100,8 @@ export const updateTalentPoolStatus = async (req: AuthRequest, res: Response, ne
     const { id } = req.params;
     const { status, notes } = req.body;
 
-    const entry = await TalentPool.findOne({ _id: id, recruiterId: req.user?.id });
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const entry = await TalentPool.findOne({ _id: id, ...scope });
     if (!entry) {
       throw new AppError('Talent pool entry not found', 404);
     }
@@ -127,7 +132,8 @@ export const removeFromTalentPool = async (req: AuthRequest, res: Response, next
   try {
     const { id } = req.params;
 
-    const entry = await TalentPool.findOneAndDelete({ _id: id, recruiterId: req.user?.id });
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const entry = await TalentPool.findOneAndDelete({ _id: id, ...scope });
     if (!entry) {
       throw new AppError('Talent pool entry not found', 404);
     }
@@ -147,13 +153,14 @@ export const applyFromTalentPool = async (req: AuthRequest, res: Response, next:
     const { id } = req.params;
     const { jobId } = req.body;
 
-    const entry = await TalentPool.findOne({ _id: id, recruiterId: req.user?.id });
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const entry = await TalentPool.findOne({ _id: id, ...scope });
     if (!entry) {
       throw new AppError('Talent pool entry not found', 404);
     }
 
-    // Verify job exists and belongs to recruiter
-    const job = await Job.findOne({ _id: jobId, recruiterId: req.user?.id });
+    // Verify job exists and belongs to recruiter (or their organization)
+    const job = await Job.findOne({ _id: jobId, ...scope });
     if (!job) {
       throw new AppError('Job not found or unauthorized', 404);
     }
@@ -169,13 +176,18 @@ export const applyFromTalentPool = async (req: AuthRequest, res: Response, next:
       throw new AppError('Candidate has already applied to this job', 409);
     }
 
+    // Auto-shortlist from talent pool, falling back to the first stage if the pipeline has no shortlist stage
+    const pipeline = pipelineService.getPipeline(job);
+    const entryStage = pipelineService.getStageForStatus(pipeline, 'shortlisted') || pipelineService.getInitialStage(pipeline);
+
     // Create new application
     const application = await Application.create({
       applicantId: entry.applicantId,
       jobId,
-      status: 'shortlisted', // Auto-shortlist from talent pool
+      status: entryStage.status,
+      stage: entryStage.key,
       statusHistory: [{
-        status: 'shortlisted',
+        ...pipelineService.toHistoryFields(entryStage),
         timestamp: new Date(),
         note: 'Added from talent pool',
         changedBy: req.user?.id
@@ -204,7 +216,8 @@ export const refreshSuggestedJobs = async (req: AuthRequest, res: Response, next
   try {
     const { id } = req.params;
 
-    const entry = await TalentPool.findOne({ _id: id, recruiterId: req.user?.id });
+    const scope = await organizationService.getOwnerScope(req.user?.id);
+    const entry = await TalentPool.findOne({ _id: id, ...scope });
     if (!entry) {
       throw new AppError('Talent pool entry not found', 404);
     }
@@ -218,7 +231,7 @@ export const refreshSuggestedJobs = async (req: AuthRequest, res: Response, next
     // Find new matching jobs
     const suggestedJobs = await talentPoolService.findMatchingJobs(
       profile,
-      req.user?.id as any,
+      scope,
       entry.originalJobId as any
     );
 
@@ -227,6 +240,7 @@ export const refreshSuggestedJobs = async (req: AuthRequest, res: Response, next
       jobId: sj.jobId,
       matchScore: sj.matchScore,
       matchedSkills: sj.matchedSkills,
+      relatedMatches: sj.relatedMatches,
       suggestedAt: new Date()
     }));
     await entry.save();
@@ -7,8 +7,7 @@
 import { Request, Response } from 'express';
 import { virtualInterviewService } from '../services/virtual-interview.service';
 import mongoose from 'mongoose';
-import { localSttService } from '../services/local-stt.service';
-import { localTtsService } from '../services/local-tts.service';
+import { llmService } from '../services/llm.service';
 
 /**
  * Start a new interview session
@@ -36,7 +35,7 @@ export const startInterview = async (req: Request, res: Response) => {
     // Generate TTS for greeting
     let greetingAudio = null;
     try {
-      const ttsResult = await localTtsService.textToSpeech(greeting);
+      const ttsResult = await llmService.textToSpeech('interview_speech', greeting);
       greetingAudio = {
         audio: ttsResult.audioBuffer.toString('base64'),
         contentType: ttsResult.contentType,
@@ -86,7 +85,7 @@ export const transcribeAudio = async (req: Request, res: Response) => {
     const filename = req.file.originalname || 'audio.webm';
     const mimeType = req.file.mimetype;
 
-    const result = await localSttService.transcribe(audioBuffer, {
+    const result = await llmService.transcribe('interview_transcription', audioBuffer, {
       filename,
       mimeType,
     });
@@ -171,7 +170,8 @@ export const submitAnswer = async (req: Request, res: Response) => {
       questionNumber,
       answer,
       question.questionText,
-      session.resumeSnapshot
+      session.resumeSnapshot,
+      userId
     );
 
     // Save the evaluation
@@ -209,7 +209,7 @@ export const submitAnswer = async (req: Request, res: Response) => {
     // Generate TTS for feedback
     let feedbackAudio = null;
     try {
-      const ttsResult = await localTtsService.textToSpeech(feedbackText);
+      const ttsResult = await llmService.textToSpeech('interview_speech', feedbackText);
       feedbackAudio = {
         audio: ttsResult.audioBuffer.toString('base64'),
         contentType: ttsResult.contentType,
@@ -274,7 +274,7 @@ export const generateSpeech = async (req: Request, res: Response) => {
 
     console.log('TTS Request - Text length:', text.length, 'Voice:', voice || 'default', 'Format: wav');
 
-    const result = await localTtsService.textToSpeech(text);
+    const result = await llmService.textToSpeech('interview_speech', text, { voice });
 
     console.log('TTS Success - Audio buffer size:', result.audioBuffer.length, 'Content-Type:', result.contentType);
 
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from './errorHandler';
+import type { OrganizationRole } from '../models/Organization.model';
+import organizationService, { OrgPermission } from '../services/organization.service';
+import { User } from '../models/User.model';
 
 // Extend Express User to include JWT payload properties
 declare global {
@@ -11,6 +14,9 @@ declare global {
       role: 'recruiter' | 'applicant';
       email?: string;
       fullName?: string;
+      // Set by authorizePermission for recruiters that belong to an organization
+      organizationId?: string;
+      orgRole?: OrganizationRole;
     }
   }
 }
@@ -51,3 +57,51 @@ export const authorizeRole = (...roles: string[]): RequestHandler => {
     next();
   };
 };
+
+// Org-level permission check for recruiters. Members are limited by their organization
+// role; recruiters outside an organization may do anything with their own records.
+export const authorizePermission = (...permissions: OrgPermission[]): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user || req.user.role !== 'recruiter') {
+        return next(new AppError('Access denied', 403));
+      }
+
+      const membership = await organizationService.getMembership(req.user.id);
+      const denied = permissions.find(permission => !organizationService.hasPermission(membership?.role, permission));
+      if (denied) {
+        return next(new AppError(`Your organization role does not allow this action (${denied})`, 403));
+      }
+
+      if (membership) {
+        req.user.organizationId = String(membership.organization._id);
+        req.user.orgRole = membership.role;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Platform-wide settings (such as the skill dictionary) belong to the accounts listed
+// in PLATFORM_ADMIN_EMAILS, whichever organization they are in
+export const isPlatformAdmin = (email: string | undefined): boolean => {
+  const admins = (process.env.PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return !!email && admins.includes(email.toLowerCase());
+};
+
+export const authorizePlatformAdmin: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user ? await User.findById(req.user.id).select('email') : null;
+    if (!user || !isPlatformAdmin(user.email)) {
+      return next(new AppError('Access denied', 403));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
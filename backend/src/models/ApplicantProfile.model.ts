@@ -28,6 +28,7 @@ interface IGitHubAnalysis {
   topLanguages: string[];
   insights: string[];
   lastAnalyzed: Date;
+  promptVersion?: string; // AI prompt behind the insights
 }
 
 interface ILeetCodeStats {
@@ -40,6 +41,33 @@ interface ILeetCodeStats {
   lastAnalyzed: Date;
 }
 
+export const SKILL_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert'] as const;
+export type SkillLevel = typeof SKILL_LEVELS[number];
+
+export const SKILL_PROFICIENCY_SOURCES = ['self', 'resume'] as const;
+export type SkillProficiencySource = typeof SKILL_PROFICIENCY_SOURCES[number];
+
+export interface ISkillProficiency {
+  skill: string; // One of the profile's skills, spelled as listed
+  level: SkillLevel;
+  yearsUsed?: number;
+  source: SkillProficiencySource; // 'resume' until the applicant confirms or edits the estimate
+}
+
+// Manipulation found in text the candidate supplied (see content-guard.service)
+export const CONTENT_FLAG_KINDS = ['injection', 'hidden_text'] as const;
+export type ContentFlagKind = typeof CONTENT_FLAG_KINDS[number];
+
+export const CONTENT_SOURCES = ['resume', 'cover_letter', 'profile', 'interview_answer'] as const;
+export type ContentSource = typeof CONTENT_SOURCES[number];
+
+export interface IContentFlag {
+  kind: ContentFlagKind;
+  source: ContentSource;
+  detail: string; // What was found, for the recruiter
+  excerpt?: string; // The offending text, shortened
+}
+
 interface ICertification {
   name: string;
   issuer: string;
@@ -54,7 +82,9 @@ export interface IApplicantProfile extends Document {
   resumeUrl: string;
   resumeFileName?: string;
   resumeText?: string; // Extracted text from resume
+  resumeFlags: IContentFlag[]; // Manipulation found in the last parsed resume file
   skills: string[];
+  skillProficiencies: ISkillProficiency[]; // Level and years per skill (skills without one are unrated)
   preferredRoles: string[];
   experience: IExperience[];
   experienceText?: string; // Simple text version for display
@@ -76,6 +106,14 @@ export interface IApplicantProfile extends Document {
   updatedAt: Date;
 }
 
+// Shared with the interview answers, which are guarded the same way
+export const ContentFlagSchema = new Schema({
+  kind: { type: String, enum: CONTENT_FLAG_KINDS, required: true },
+  source: { type: String, enum: CONTENT_SOURCES, required: true },
+  detail: { type: String, required: true },
+  excerpt: { type: String }
+}, { _id: false });
+
 const ApplicantProfileSchema = new Schema<IApplicantProfile>({
   userId: {
     type: Schema.Types.ObjectId,
@@ -95,10 +133,18 @@ const ApplicantProfileSchema = new Schema<IApplicantProfile>({
     type: String,
     default: ''
   },
+  resumeFlags: [ContentFlagSchema],
   skills: {
     type: [String],
     default: []
   },
+  skillProficiencies: [{
+    _id: false,
+    skill: { type: String, required: true, trim: true },
+    level: { type: String, enum: SKILL_LEVELS, required: true },
+    yearsUsed: { type: Number, min: 0 },
+    source: { type: String, enum: SKILL_PROFICIENCY_SOURCES, default: 'self' }
+  }],
   preferredRoles: {
     type: [String],
     default: []
@@ -158,7 +204,8 @@ const ApplicantProfileSchema = new Schema<IApplicantProfile>({
     topLanguages: { type: [String] },
     insights: { type: [String] },
     lastAnalyzed: { type: Date },
-    repoCount: { type: Number }
+    repoCount: { type: Number },
+    promptVersion: { type: String }
   },
   leetcodeUsername: {
     type: String,
@@ -1,9 +1,16 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { FEEDBACK_VOTES, FeedbackVote } from './InterviewFeedback.model';
+import type { IScoringWeights } from './Job.model';
+
+// Underlying status categories. Job pipelines map each of their stages onto one of these,
+// so emails, talent pooling and hire counts keep working whatever stages a recruiter defines.
+export const APPLICATION_STATUSES = ['pending', 'under_review', 'selected', 'rejected', 'reviewing', 'shortlisted', 'interview', 'hired'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
 
 interface IRiskFactor {
   type: 'warning' | 'concern' | 'blocker';
   message: string;
-  category: 'skills' | 'experience' | 'activity' | 'profile';
+  category: 'skills' | 'experience' | 'activity' | 'profile' | 'integrity';
 }
 
 interface IScoringBreakdown {
@@ -14,6 +21,36 @@ interface IScoringBreakdown {
   educationStrength: number;
   profileCompleteness: number;
   projectRelevance: number;
+  aiReadiness?: number;
+}
+
+// Weights that produced a score - the job's custom profile or its category defaults
+export interface IWeightProfile {
+  source: 'job' | 'category';
+  category: string;
+  version: number; // Job scoringWeightsVersion at scoring time (0 for category defaults)
+  weights: IScoringWeights;
+  appliedAt: Date;
+}
+
+// Profile data behind a signal score, pointing back at the profile entry it came from
+export interface ISignalEvidence {
+  source: string;
+  label: string;
+  ref?: string;
+  detail?: string;
+  counted: boolean;
+}
+
+// What one weighted signal added to the rule-based score
+export interface ISignalContribution {
+  signal: string;
+  label: string;
+  score: number;
+  weight: number;
+  contribution: number;
+  summary: string;
+  evidence: ISignalEvidence[];
 }
 
 export interface IAIInsights {
@@ -41,13 +78,21 @@ export interface IAIInsights {
   improvementSuggestions?: string[];
   aiSummary?: string;
   interviewQuestions?: string[];
+  // Score provenance
+  aiScore?: number; // Raw AI score blended into overallScore (unset for rule-based evaluations)
+  weightProfile?: IWeightProfile;
+  contributions?: ISignalContribution[];
+  promptVersion?: string; // AI prompt version behind aiScore, e.g. 'candidate_evaluation@2'
 }
 
 interface IStatusHistory {
-  status: 'pending' | 'under_review' | 'selected' | 'rejected' | 'reviewing' | 'shortlisted' | 'interview' | 'hired';
+  status: ApplicationStatus;
+  stage?: string;
+  stageName?: string;
   timestamp: Date;
   note?: string;
   changedBy?: mongoose.Types.ObjectId;
+  evaluationVersion?: number; // Evaluation the recruiter was looking at when deciding
 }
 
 export interface IRejectionFeedback {
@@ -58,16 +103,49 @@ export interface IRejectionFeedback {
   learningFocus: string[];
   encouragement: string;
   generatedAt?: Date;
+  promptVersion?: string; // Unset when the default feedback was used
+}
+
+// Applicant's answer to one of the job's screening questions
+export interface IScreeningAnswer {
+  questionKey: string;
+  question: string; // Wording at the time of applying
+  answer: string | number;
+  knockedOut: boolean;
+}
+
+// Outcome of the job's knockout questions for this application
+export interface IScreeningResult {
+  passed: boolean;
+  failedQuestions: string[]; // Question keys that knocked the application out
+  action: 'none' | 'flagged' | 'rejected';
+  evaluatedAt: Date;
+}
+
+// Aggregate of the submitted interview scorecards, refreshed whenever one is submitted
+export interface IScorecardSummary {
+  submittedCount: number;
+  pendingCount: number; // Panelists of completed interviews who have not submitted yet
+  averageRating: number; // 1-5 across every rated competency, 0 when nothing is rated
+  votes: Record<FeedbackVote, number>;
+  recommendation: FeedbackVote | 'mixed' | 'none';
+  competencies: { key: string; name: string; averageRating: number; ratingCount: number }[];
+  updatedAt: Date;
 }
 
 export interface IApplication extends Document {
   applicantId: mongoose.Types.ObjectId;
   jobId: mongoose.Types.ObjectId;
   coverLetter?: string;
-  status: 'pending' | 'under_review' | 'selected' | 'rejected' | 'reviewing' | 'shortlisted' | 'interview' | 'hired';
+  status: ApplicationStatus;
+  stage?: string; // Key of the current stage in the job's pipeline
   statusHistory: IStatusHistory[];
   aiInsights?: IAIInsights;
+  evaluationVersion: number; // Version of the ApplicationEvaluation held in aiInsights (0 = never evaluated)
   rejectionFeedback?: IRejectionFeedback;
+  screeningAnswers: IScreeningAnswer[];
+  screeningResult?: IScreeningResult;
+  scorecardSummary?: IScorecardSummary;
   appliedAt: Date;
   reviewedAt?: Date;
   createdAt: Date;
@@ -91,15 +169,21 @@ const ApplicationSchema = new Schema<IApplication>({
   },
   status: {
     type: String,
-    enum: ['pending', 'under_review', 'selected', 'rejected', 'reviewing', 'shortlisted', 'interview', 'hired'],
+    enum: APPLICATION_STATUSES,
     default: 'pending'
   },
+  stage: {
+    type: String,
+    trim: true
+  },
   statusHistory: [{
     status: {
       type: String,
-      enum: ['pending', 'under_review', 'selected', 'rejected', 'reviewing', 'shortlisted', 'interview', 'hired'],
+      enum: APPLICATION_STATUSES,
       required: true
     },
+    stage: String,
+    stageName: String,
     timestamp: {
       type: Date,
       default: Date.now
@@ -108,7 +192,8 @@ const ApplicationSchema = new Schema<IApplication>({
     changedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User'
-    }
+    },
+    evaluationVersion: Number
   }],
   aiInsights: {
     // Core Scores
@@ -153,7 +238,7 @@ const ApplicationSchema = new Schema<IApplication>({
       message: String,
       category: {
         type: String,
-        enum: ['skills', 'experience', 'activity', 'profile']
+        enum: ['skills', 'experience', 'activity', 'profile', 'integrity']
       }
     }],
     // Scoring Breakdown
@@ -164,8 +249,44 @@ const ApplicationSchema = new Schema<IApplication>({
       experience: { type: Number, default: 0 },
       educationStrength: { type: Number, default: 0 },
       profileCompleteness: { type: Number, default: 0 },
-      projectRelevance: { type: Number, default: 0 }
-    }
+      projectRelevance: { type: Number, default: 0 },
+      aiReadiness: { type: Number, default: 0 }
+    },
+    // Score provenance
+    aiScore: { type: Number },
+    weightProfile: {
+      type: new Schema({
+        source: { type: String, enum: ['job', 'category'], required: true },
+        category: { type: String, default: 'software' },
+        version: { type: Number, default: 0 },
+        weights: { type: Schema.Types.Mixed, required: true }, // Snapshot of the weights used
+        appliedAt: { type: Date, default: Date.now }
+      }, { _id: false }),
+      default: undefined
+    },
+    contributions: {
+      type: [new Schema({
+        signal: { type: String, required: true },
+        label: { type: String, default: '' },
+        score: { type: Number, default: 0 },
+        weight: { type: Number, default: 0 },
+        contribution: { type: Number, default: 0 },
+        summary: { type: String, default: '' },
+        evidence: [new Schema({
+          source: { type: String, required: true },
+          label: { type: String, default: '' },
+          ref: { type: String },
+          detail: { type: String },
+          counted: { type: Boolean, default: false }
+        }, { _id: false })]
+      }, { _id: false })],
+      default: undefined
+    },
+    promptVersion: { type: String }
+  },
+  evaluationVersion: {
+    type: Number,
+    default: 0
   },
   // Applicant-facing rejection feedback (auto-generated)
   rejectionFeedback: {
@@ -175,7 +296,53 @@ const ApplicationSchema = new Schema<IApplication>({
     improvementAreas: [{ type: String }], // Personalized improvement suggestions
     learningFocus: [{ type: String }], // Learning path topics
     encouragement: { type: String, default: '' },
-    generatedAt: { type: Date }
+    generatedAt: { type: Date },
+    promptVersion: { type: String }
+  },
+  screeningAnswers: [{
+    _id: false,
+    questionKey: { type: String, required: true },
+    question: { type: String, default: '' },
+    answer: { type: Schema.Types.Mixed },
+    knockedOut: { type: Boolean, default: false }
+  }],
+  screeningResult: {
+    type: new Schema({
+      passed: { type: Boolean, default: true },
+      failedQuestions: [{ type: String }],
+      action: { type: String, enum: ['none', 'flagged', 'rejected'], default: 'none' },
+      evaluatedAt: { type: Date, default: Date.now }
+    }, { _id: false }),
+    default: undefined
+  },
+  // Interview scorecard aggregate (see scorecard.service). Not selected by default - candidates
+  // must never see it and panelists only get it once they have submitted their own feedback.
+  scorecardSummary: {
+    type: new Schema({
+      submittedCount: { type: Number, default: 0 },
+      pendingCount: { type: Number, default: 0 },
+      averageRating: { type: Number, default: 0 },
+      votes: {
+        strong_no_hire: { type: Number, default: 0 },
+        no_hire: { type: Number, default: 0 },
+        hire: { type: Number, default: 0 },
+        strong_hire: { type: Number, default: 0 }
+      },
+      recommendation: {
+        type: String,
+        enum: [...FEEDBACK_VOTES, 'mixed', 'none'],
+        default: 'none'
+      },
+      competencies: [{
+        _id: false,
+        key: String,
+        name: String,
+        averageRating: Number,
+        ratingCount: Number
+      }],
+      updatedAt: Date
+    }, { _id: false }),
+    select: false
   },
   appliedAt: {
     type: Date,
@@ -192,5 +359,6 @@ ApplicationSchema.index({ applicantId: 1, jobId: 1 }, { unique: true });
 // Index for efficient queries
 ApplicationSchema.index({ jobId: 1, status: 1 });
 ApplicationSchema.index({ applicantId: 1, status: 1 });
+ApplicationSchema.index({ jobId: 1, stage: 1 });
 
 export const Application = mongoose.model<IApplication>('Application', ApplicationSchema);
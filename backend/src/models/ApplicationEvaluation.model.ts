@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Bump when the scoring rules or the AI blend change, so each record shows which engine produced it
+export const SCORING_ENGINE_VERSION = '2.4.0';
+
+export const EVALUATION_TRIGGERS = ['manual', 'bulk', 'weights_change', 'application_submitted', 'profile_updated'] as const;
+export type EvaluationTrigger = typeof EVALUATION_TRIGGERS[number];
+
+export const EVALUATION_MODES = ['ai_blended', 'rule_based'] as const;
+export type EvaluationMode = typeof EVALUATION_MODES[number];
+
+/**
+ * One evaluation of an application, kept forever. application.aiInsights always holds
+ * the latest one; these records keep the history so scores can be compared over time.
+ */
+export interface IApplicationEvaluation extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  applicantId: mongoose.Types.ObjectId;
+  version: number; // 1, 2, 3... per application
+  trigger: EvaluationTrigger;
+  engineVersion: string;
+  mode: EvaluationMode;
+  inputsHash: string; // Hash of the profile, job and weights that were scored
+  promptVersion?: string; // AI prompt version of ai_blended evaluations
+  insights: Record<string, any>; // Snapshot of application.aiInsights
+  evaluatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const ApplicationEvaluationSchema = new Schema<IApplicationEvaluation>({
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: true,
+    immutable: true
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: true,
+    immutable: true
+  },
+  applicantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    immutable: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+    immutable: true
+  },
+  trigger: {
+    type: String,
+    enum: EVALUATION_TRIGGERS,
+    required: true,
+    immutable: true
+  },
+  engineVersion: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  mode: {
+    type: String,
+    enum: EVALUATION_MODES,
+    required: true,
+    immutable: true
+  },
+  inputsHash: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  promptVersion: {
+    type: String,
+    immutable: true
+  },
+  insights: {
+    type: Schema.Types.Mixed,
+    required: true,
+    immutable: true
+  },
+  evaluatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Records are append-only
+ApplicationEvaluationSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Application evaluations are immutable');
+});
+
+// Index for efficient queries
+ApplicationEvaluationSchema.index({ applicationId: 1, version: -1 }, { unique: true });
+ApplicationEvaluationSchema.index({ promptVersion: 1, createdAt: -1 });
+
+export const ApplicationEvaluation = mongoose.model<IApplicationEvaluation>('ApplicationEvaluation', ApplicationEvaluationSchema);
+export default ApplicationEvaluation;
@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const EVALUATION_BATCH_STATUSES = ['running', 'completed', 'completed_with_errors'] as const;
+export type EvaluationBatchStatus = typeof EVALUATION_BATCH_STATUSES[number];
+
+/**
+ * A recruiter's "evaluate all applicants" request. Each application is evaluated by its
+ * own queue task (groupId = batch id); progress is counted from those tasks.
+ */
+export interface IEvaluationBatch extends Document {
+  jobId: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId;
+  total: number;
+  status: EvaluationBatchStatus;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EvaluationBatchSchema = new Schema<IEvaluationBatch>({
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: true
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  total: {
+    type: Number,
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: EVALUATION_BATCH_STATUSES,
+    default: 'running'
+  },
+  completedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+EvaluationBatchSchema.index({ jobId: 1, createdAt: -1 });
+
+export const EvaluationBatch = mongoose.model<IEvaluationBatch>('EvaluationBatch', EvaluationBatchSchema);
+export default EvaluationBatch;
@@ -2,12 +2,22 @@ import mongoose, { Document, Schema } from 'mongoose';
 
 export interface IInterview extends Document {
   applicationId: mongoose.Types.ObjectId;
+  interviewerIds: mongoose.Types.ObjectId[]; // Panel - every interviewer's calendar is blocked for this slot
+  scheduledBy?: mongoose.Types.ObjectId;
+  calendarSequence: number; // iCalendar SEQUENCE - bumped whenever the invite changes
   scheduledTime: Date;
   duration: number; // in minutes
   meetingLink: string;
   type: 'Technical' | 'Behavioral' | 'HR' | 'Final';
   status: 'scheduled' | 'completed' | 'cancelled' | 'rescheduled';
   notes?: string;
+  // Interview loop - the round of the job's interview plan this interview covers
+  roundKey?: string;
+  roundName?: string;
+  roundOutcome?: 'passed' | 'failed';
+  roundOutcomeNote?: string;
+  roundOutcomeAt?: Date;
+  roundOutcomeBy?: mongoose.Types.ObjectId;
   // Drop-off detection fields
   candidateConfirmed: boolean;
   candidateConfirmedAt?: Date;
@@ -16,6 +26,9 @@ export interface IInterview extends Document {
   reminderCount: number;
   dropOffRisk: 'low' | 'medium' | 'high';
   dropOffReasons: string[];
+  // Automatic reminders - offsets (hours before the interview) already handled
+  remindersSent: number[];
+  riskEscalatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,6 +39,18 @@ const InterviewSchema = new Schema<IInterview>({
     ref: 'Application',
     required: true
   },
+  interviewerIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  scheduledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  calendarSequence: {
+    type: Number,
+    default: 0
+  },
   scheduledTime: {
     type: Date,
     required: true
@@ -53,6 +78,30 @@ const InterviewSchema = new Schema<IInterview>({
     type: String,
     default: ''
   },
+  // Interview loop
+  roundKey: {
+    type: String,
+    trim: true
+  },
+  roundName: {
+    type: String,
+    trim: true
+  },
+  roundOutcome: {
+    type: String,
+    enum: ['passed', 'failed']
+  },
+  roundOutcomeNote: {
+    type: String,
+    default: ''
+  },
+  roundOutcomeAt: {
+    type: Date
+  },
+  roundOutcomeBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
   // Drop-off detection fields
   candidateConfirmed: {
     type: Boolean,
@@ -80,6 +129,13 @@ const InterviewSchema = new Schema<IInterview>({
   dropOffReasons: {
     type: [String],
     default: []
+  },
+  remindersSent: {
+    type: [Number],
+    default: []
+  },
+  riskEscalatedAt: {
+    type: Date
   }
 }, {
   timestamps: true
@@ -88,5 +144,7 @@ const InterviewSchema = new Schema<IInterview>({
 // Index for efficient queries
 InterviewSchema.index({ applicationId: 1 });
 InterviewSchema.index({ scheduledTime: 1 });
+InterviewSchema.index({ interviewerIds: 1, scheduledTime: 1 });
+InterviewSchema.index({ status: 1, scheduledTime: 1 });
 
 export const Interview = mongoose.model<IInterview>('Interview', InterviewSchema);export default Interview;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Ordered from most negative to most positive
+export const FEEDBACK_VOTES = ['strong_no_hire', 'no_hire', 'hire', 'strong_hire'] as const;
+export type FeedbackVote = typeof FEEDBACK_VOTES[number];
+
+export interface ICompetencyRating {
+  competency: string; // Key of the competency in the job's scorecard template
+  name: string;
+  rating: number; // 1-5
+  comment?: string;
+}
+
+export interface IInterviewFeedback extends Document {
+  interviewId: mongoose.Types.ObjectId;
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  interviewerId: mongoose.Types.ObjectId;
+  ratings: ICompetencyRating[];
+  vote?: FeedbackVote;
+  comments: string;
+  status: 'draft' | 'submitted'; // Submitted feedback is final and becomes visible to the rest of the panel
+  submittedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InterviewFeedbackSchema = new Schema<IInterviewFeedback>({
+  interviewId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Interview',
+    required: true
+  },
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: true
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: true
+  },
+  interviewerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  ratings: [{
+    _id: false,
+    competency: { type: String, required: true },
+    name: { type: String, required: true },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    comment: { type: String, default: '' }
+  }],
+  vote: {
+    type: String,
+    enum: FEEDBACK_VOTES
+  },
+  comments: {
+    type: String,
+    default: ''
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'submitted'],
+    default: 'draft'
+  },
+  submittedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+InterviewFeedbackSchema.index({ interviewId: 1, interviewerId: 1 }, { unique: true });
+InterviewFeedbackSchema.index({ applicationId: 1, status: 1 });
+
+export const InterviewFeedback = mongoose.model<IInterviewFeedback>('InterviewFeedback', InterviewFeedbackSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { ContentFlagSchema, IContentFlag } from './ApplicantProfile.model';
 
 // Question category types
 export type QuestionCategory = 'technical' | 'behavioral' | 'experience' | 'skills' | 'career' | 'problem_solving';
@@ -18,6 +19,8 @@ interface IQuestionEvaluation {
   communicationScore: number;
   confidenceScore: number;
   feedback: string;
+  promptVersion?: string; // Unset for the neutral fallback evaluation
+  contentFlags?: IContentFlag[]; // Instructions aimed at the AI or hidden characters in the answer
 }
 
 // Interface for individual interview question
@@ -52,6 +55,7 @@ interface IFinalScore {
   strengths: string[];
   areasForImprovement: string[];
   recommendedResources?: string[];
+  promptVersion?: string; // Unset when the score was calculated without AI
 }
 
 // Main Interview Session interface
@@ -70,6 +74,7 @@ export interface IInterviewSession extends Document {
   
   // Questions and answers
   questions: IInterviewQuestion[];
+  questionsPromptVersion?: string; // Prompt that generated the questions (unset for fallback questions)
   totalQuestions: number;
   questionsAnswered: number;
   
@@ -119,6 +124,8 @@ const QuestionEvaluationSchema = new Schema({
   communicationScore: { type: Number, min: 0, max: 10, required: true },
   confidenceScore: { type: Number, min: 0, max: 10, required: true },
   feedback: { type: String, required: true },
+  promptVersion: { type: String },
+  contentFlags: { type: [ContentFlagSchema], default: undefined },
 }, { _id: false });
 
 const InterviewQuestionSchema = new Schema({
@@ -164,6 +171,7 @@ const FinalScoreSchema = new Schema({
   strengths: [{ type: String }],
   areasForImprovement: [{ type: String }],
   recommendedResources: [{ type: String }],
+  promptVersion: { type: String },
 }, { _id: false });
 
 // Main schema
@@ -200,6 +208,9 @@ const InterviewSessionSchema = new Schema<IInterviewSession>({
     type: String,
   },
   questions: [InterviewQuestionSchema],
+  questionsPromptVersion: {
+    type: String,
+  },
   totalQuestions: {
     type: Number,
     default: 10,
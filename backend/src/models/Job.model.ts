@@ -1,11 +1,86 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { APPLICATION_STATUSES, ApplicationStatus } from './Application.model';
+import { SKILL_LEVELS, SkillLevel } from './ApplicantProfile.model';
+
+export interface IPipelineStage {
+  key: string; // Stable identifier stored on applications (e.g. 'phone_screen')
+  name: string; // Display name (e.g. 'Phone screen')
+  status: ApplicationStatus; // Underlying status category this stage maps to
+  order: number;
+  allowedTransitions: string[]; // Stage keys reachable from this stage (empty = default forward rules)
+}
+
+export interface IScorecardCompetency {
+  key: string; // Stable identifier stored on interview feedback (e.g. 'system_design')
+  name: string;
+  description?: string; // What interviewers should look for
+}
+
+export const INTERVIEW_TYPES = ['Technical', 'Behavioral', 'HR', 'Final'] as const;
+export type InterviewType = typeof INTERVIEW_TYPES[number];
+
+export interface IInterviewRound {
+  key: string; // Stable identifier stored on interviews (e.g. 'system_design')
+  name: string;
+  type: InterviewType;
+  duration: number; // in minutes
+  interviewerIds: mongoose.Types.ObjectId[]; // Required on the panel of this round
+  order: number;
+}
+
+export const SCREENING_QUESTION_TYPES = ['yes_no', 'numeric', 'single_choice', 'text'] as const;
+export type ScreeningQuestionType = typeof SCREENING_QUESTION_TYPES[number];
+
+export const KNOCKOUT_ACTIONS = ['flag', 'reject'] as const;
+export type KnockoutAction = typeof KNOCKOUT_ACTIONS[number];
+
+export interface IScreeningQuestion {
+  key: string; // Stable identifier stored on application answers (e.g. 'uae_work_permit')
+  question: string;
+  type: ScreeningQuestionType;
+  required: boolean;
+  options: string[]; // Choices of a single_choice question
+  // Knockout rule - an answer outside it fails the application (text questions have none)
+  knockout: boolean;
+  expectedAnswer?: 'yes' | 'no'; // yes_no
+  min?: number; // numeric
+  max?: number; // numeric
+  acceptedOptions: string[]; // single_choice
+  order: number;
+}
+
+// Applicant-facing feedback for applications auto-rejected by a knockout question
+export interface IKnockoutRejectionTemplate {
+  statusMessage: string; // {jobTitle} is replaced with the job title
+  reasons: string[];
+  improvementAreas: string[];
+  encouragement: string;
+}
+
+export const MIN_SKILL_IMPORTANCE = 1;
+export const MAX_SKILL_IMPORTANCE = 5;
+
+export interface ISkillRequirement {
+  skill: string; // One of requiredSkills or niceToHaveSkills
+  minLevel?: SkillLevel;
+  importance: number; // 1-5 - how much the skill counts within its group
+}
+
+// Signals the candidate score is built from - weights are percentages summing to 100
+export const SCORING_SIGNALS = ['skills', 'github', 'leetcode', 'experience', 'projects', 'education', 'profile', 'aiReadiness'] as const;
+export type ScoringSignal = typeof SCORING_SIGNALS[number];
+export type IScoringWeights = Record<ScoringSignal, number>;
 
 export interface IJob extends Document {
   recruiterId: mongoose.Types.ObjectId;
+  organizationId?: mongoose.Types.ObjectId; // Shared with every member of the organization
   title: string;
   description: string;
   department: string;
-  requiredSkills: string[];
+  requiredSkills: string[]; // Must-have skills
+  niceToHaveSkills: string[]; // Add to the match, but missing them costs little
+  // Per-skill minimum level and importance (skills without an entry accept any level at the default importance)
+  skillRequirements: ISkillRequirement[];
   experienceLevel: 'fresher' | 'junior' | 'mid' | 'senior';
   jobCategory: 'software' | 'data-science' | 'qa-automation' | 'non-technical' | 'business';
   location: string;
@@ -18,6 +93,14 @@ export interface IJob extends Document {
   hiredCount: number;
   applicationDeadline?: Date;
   matchThreshold: number; // Minimum skill match percentage for candidate notifications (default: 50)
+  pipeline: IPipelineStage[]; // Ordered hiring stages (empty = default pipeline)
+  scorecardTemplate: IScorecardCompetency[]; // Competencies interviewers rate 1-5 (empty = default rubric)
+  interviewPlan: IInterviewRound[]; // Ordered interview loop candidates must pass (empty = no loop)
+  scoringWeights?: IScoringWeights; // Recruiter-tuned signal weights (unset = job category defaults)
+  scoringWeightsVersion: number; // Bumped on every weight change so scores record the profile they used
+  screeningQuestions: IScreeningQuestion[]; // Asked when applying (empty = none)
+  knockoutAction: KnockoutAction; // What happens to applications failing a knockout question
+  knockoutRejectionTemplate?: IKnockoutRejectionTemplate; // Unset = default wording
   // Company details (auto-filled from recruiter profile)
   company: string;
   companyDescription?: string;
@@ -33,6 +116,10 @@ const JobSchema = new Schema<IJob>({
     ref: 'User',
     required: true
   },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   title: {
     type: String,
     required: [true, 'Job title is required'],
@@ -51,6 +138,16 @@ const JobSchema = new Schema<IJob>({
     type: [String],
     default: []
   },
+  niceToHaveSkills: {
+    type: [String],
+    default: []
+  },
+  skillRequirements: [{
+    _id: false,
+    skill: { type: String, required: true, trim: true },
+    minLevel: { type: String, enum: SKILL_LEVELS },
+    importance: { type: Number, min: MIN_SKILL_IMPORTANCE, max: MAX_SKILL_IMPORTANCE, default: 3 }
+  }],
   experienceLevel: {
     type: String,
     enum: ['fresher', 'junior', 'mid', 'senior'],
@@ -107,6 +204,68 @@ const JobSchema = new Schema<IJob>({
     min: 0,
     max: 100
   },
+  pipeline: [{
+    _id: false,
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    status: { type: String, enum: APPLICATION_STATUSES, required: true },
+    order: { type: Number, default: 0 },
+    allowedTransitions: { type: [String], default: [] }
+  }],
+  scorecardTemplate: [{
+    _id: false,
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    description: { type: String, trim: true, default: '' }
+  }],
+  interviewPlan: [{
+    _id: false,
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    type: { type: String, enum: INTERVIEW_TYPES, default: 'Technical' },
+    duration: { type: Number, default: 60, min: 15, max: 480 },
+    interviewerIds: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+    order: { type: Number, default: 0 }
+  }],
+  scoringWeights: {
+    type: new Schema(
+      Object.fromEntries(SCORING_SIGNALS.map(signal => [signal, { type: Number, required: true, min: 0, max: 100 }])),
+      { _id: false }
+    ),
+    default: undefined
+  },
+  scoringWeightsVersion: {
+    type: Number,
+    default: 0
+  },
+  screeningQuestions: [{
+    _id: false,
+    key: { type: String, required: true, trim: true },
+    question: { type: String, required: true, trim: true },
+    type: { type: String, enum: SCREENING_QUESTION_TYPES, default: 'yes_no' },
+    required: { type: Boolean, default: true },
+    options: [{ type: String, trim: true }],
+    knockout: { type: Boolean, default: false },
+    expectedAnswer: { type: String, enum: ['yes', 'no'] },
+    min: { type: Number },
+    max: { type: Number },
+    acceptedOptions: [{ type: String, trim: true }],
+    order: { type: Number, default: 0 }
+  }],
+  knockoutAction: {
+    type: String,
+    enum: KNOCKOUT_ACTIONS,
+    default: 'flag'
+  },
+  knockoutRejectionTemplate: {
+    type: new Schema({
+      statusMessage: { type: String, trim: true, default: '' },
+      reasons: [{ type: String, trim: true }],
+      improvementAreas: [{ type: String, trim: true }],
+      encouragement: { type: String, trim: true, default: '' }
+    }, { _id: false }),
+    default: undefined
+  },
   // Company details (auto-filled from recruiter profile)
   company: {
     type: String,
@@ -134,6 +293,7 @@ const JobSchema = new Schema<IJob>({
 
 // Index for efficient queries
 JobSchema.index({ recruiterId: 1, status: 1 });
+JobSchema.index({ organizationId: 1, status: 1 });
 JobSchema.index({ status: 1, createdAt: -1 });
 
 export const Job = mongoose.model<IJob>('Job', JobSchema);
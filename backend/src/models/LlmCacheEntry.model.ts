@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LLM_FEATURES, LLM_PROVIDERS, LlmFeature, LlmProviderName } from '../config/llm';
+
+/**
+ * A stored LLM reply, addressed by a hash of the prompt, model and prompt version.
+ * The same request is answered from here instead of calling the provider again.
+ */
+export interface ILlmCacheEntry extends Document {
+  key: string; // sha256 of the prompt, model and version
+  feature: LlmFeature;
+  provider: LlmProviderName;
+  modelName: string;
+  content: string;
+  totalTokens: number; // Tokens the original call used, saved on every hit
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LlmCacheEntrySchema = new Schema<ILlmCacheEntry>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  feature: {
+    type: String,
+    enum: LLM_FEATURES,
+    required: true
+  },
+  provider: {
+    type: String,
+    enum: LLM_PROVIDERS,
+    required: true
+  },
+  modelName: {
+    type: String,
+    required: true
+  },
+  content: {
+    type: String,
+    required: true
+  },
+  totalTokens: {
+    type: Number,
+    default: 0
+  },
+  hits: {
+    type: Number,
+    default: 0
+  },
+  lastHitAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Mongo drops entries once they expire
+LlmCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+LlmCacheEntrySchema.index({ feature: 1 });
+
+export const LlmCacheEntry = mongoose.model<ILlmCacheEntry>('LlmCacheEntry', LlmCacheEntrySchema);
+export default LlmCacheEntry;
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { LLM_FEATURES, LLM_PROVIDERS, LlmFeature, LlmProviderName } from '../config/llm';
+
+export const LLM_CALL_STATUSES = ['success', 'cached', 'failed', 'budget_exceeded'] as const;
+export type LlmCallStatus = typeof LLM_CALL_STATUSES[number];
+
+// Call records are only kept for reporting, not forever
+const RETENTION_DAYS = 90;
+
+/**
+ * One metered AI call: who it was for, what it cost in tokens and how long it took.
+ * Daily budgets are checked against the totals of these records.
+ */
+export interface ILlmUsage extends Document {
+  feature: LlmFeature;
+  provider?: LlmProviderName; // Not set when no provider was called (budget exceeded)
+  modelName?: string;
+  promptVersion?: string; // Registry prompt version, e.g. 'resume_parsing@2'
+  recruiterId?: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  status: LlmCallStatus;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Token counts estimated from text length (provider reported none)
+  latencyMs: number;
+  error?: string;
+  day: string; // UTC day (YYYY-MM-DD) the budgets are counted on
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LlmUsageSchema = new Schema<ILlmUsage>({
+  feature: {
+    type: String,
+    enum: LLM_FEATURES,
+    required: true
+  },
+  provider: {
+    type: String,
+    enum: LLM_PROVIDERS
+  },
+  modelName: {
+    type: String
+  },
+  promptVersion: {
+    type: String
+  },
+  recruiterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  status: {
+    type: String,
+    enum: LLM_CALL_STATUSES,
+    required: true
+  },
+  promptTokens: {
+    type: Number,
+    default: 0
+  },
+  completionTokens: {
+    type: Number,
+    default: 0
+  },
+  totalTokens: {
+    type: Number,
+    default: 0
+  },
+  estimated: {
+    type: Boolean,
+    default: false
+  },
+  latencyMs: {
+    type: Number,
+    default: 0
+  },
+  error: {
+    type: String
+  },
+  day: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient budget and report queries
+LlmUsageSchema.index({ day: 1, feature: 1 });
+LlmUsageSchema.index({ day: 1, recruiterId: 1 });
+LlmUsageSchema.index({ promptVersion: 1, day: 1 });
+LlmUsageSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+export const LlmUsage = mongoose.model<ILlmUsage>('LlmUsage', LlmUsageSchema);
+export default LlmUsage;
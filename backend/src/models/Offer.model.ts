@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const OFFER_STATUSES = ['draft', 'sent', 'accepted', 'declined', 'expired'] as const;
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+export interface IOffer extends Document {
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  applicantId: mongoose.Types.ObjectId;
+  recruiterId: mongoose.Types.ObjectId;
+  organizationId?: mongoose.Types.ObjectId;
+  salary: number; // Must fall within the job's salaryMin/salaryMax band
+  currency: string;
+  startDate: Date;
+  expiresAt: Date; // Sent offers past this date are treated as expired
+  status: OfferStatus;
+  notes?: string; // Message to the candidate shown with the offer
+  sentAt?: Date;
+  respondedAt?: Date;
+  declineReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OfferSchema = new Schema<IOffer>({
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: true
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: true
+  },
+  applicantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recruiterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+  salary: {
+    type: Number,
+    required: [true, 'Salary is required'],
+    min: 0
+  },
+  currency: {
+    type: String,
+    trim: true,
+    default: 'USD'
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Offer expiry date is required']
+  },
+  status: {
+    type: String,
+    enum: OFFER_STATUSES,
+    default: 'draft'
+  },
+  notes: {
+    type: String,
+    default: ''
+  },
+  sentAt: {
+    type: Date
+  },
+  respondedAt: {
+    type: Date
+  },
+  declineReason: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+OfferSchema.index({ applicationId: 1, status: 1 });
+OfferSchema.index({ applicantId: 1, status: 1 });
+OfferSchema.index({ recruiterId: 1, status: 1 });
+OfferSchema.index({ organizationId: 1, status: 1 });
+OfferSchema.index({ status: 1, expiresAt: 1 });
+
+export const Offer = mongoose.model<IOffer>('Offer', OfferSchema);
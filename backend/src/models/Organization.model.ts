@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const ORGANIZATION_ROLES = ['admin', 'recruiter', 'hiring_manager'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export interface IOrganizationMember {
+  userId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  addedBy?: mongoose.Types.ObjectId;
+  joinedAt: Date;
+}
+
+// A recruiter asked to join; they become a member only once they accept
+export interface IOrganizationInvitation {
+  userId: mongoose.Types.ObjectId;
+  role: OrganizationRole;
+  invitedBy: mongoose.Types.ObjectId;
+  invitedAt: Date;
+}
+
+export interface IOrganization extends Document {
+  name: string;
+  description?: string;
+  website?: string;
+  location?: string;
+  createdBy: mongoose.Types.ObjectId;
+  members: IOrganizationMember[];
+  invitations: IOrganizationInvitation[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationSchema = new Schema<IOrganization>({
+  name: {
+    type: String,
+    required: [true, 'Organization name is required'],
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  website: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  location: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  members: [{
+    _id: false,
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: ORGANIZATION_ROLES, required: true },
+    addedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    joinedAt: { type: Date, default: Date.now }
+  }],
+  invitations: [{
+    _id: false,
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    role: { type: String, enum: ORGANIZATION_ROLES, required: true },
+    invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    invitedAt: { type: Date, default: Date.now }
+  }]
+}, {
+  timestamps: true
+});
+
+// A recruiter belongs to at most one organization
+OrganizationSchema.index({ 'members.userId': 1 }, { unique: true });
+OrganizationSchema.index({ 'invitations.userId': 1 });
+
+export const Organization = mongoose.model<IOrganization>('Organization', OrganizationSchema);
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PROMPT_NAMES, PromptName } from '../services/llm/prompt-templates';
+import type { OutputSchema } from '../services/llm/output-schema';
+
+export const PROMPT_STATUSES = ['draft', 'active', 'retired'] as const;
+export type PromptStatus = typeof PROMPT_STATUSES[number];
+
+/**
+ * One version of an AI prompt. The text of a version never changes; a new wording is a
+ * new version. Active versions share the traffic of their prompt by trafficShare, so
+ * a new version can be tried on part of the calls and rolled back without a deploy.
+ */
+export interface IPromptTemplate extends Document {
+  name: PromptName;
+  version: number; // 1, 2, 3... per prompt
+  system?: string;
+  template: string; // Text with {{variable}} placeholders
+  outputSchema: OutputSchema; // Shape the reply must have to be accepted
+  status: PromptStatus;
+  trafficShare: number; // Relative share of the prompt's calls (0-100) while active
+  builtIn: boolean; // Shipped with the code rather than written by an admin
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptTemplateSchema = new Schema<IPromptTemplate>({
+  name: {
+    type: String,
+    enum: PROMPT_NAMES,
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+    immutable: true
+  },
+  system: {
+    type: String,
+    immutable: true
+  },
+  template: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  outputSchema: {
+    type: Schema.Types.Mixed,
+    required: true,
+    immutable: true
+  },
+  status: {
+    type: String,
+    enum: PROMPT_STATUSES,
+    default: 'draft'
+  },
+  trafficShare: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  builtIn: {
+    type: Boolean,
+    default: false
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+PromptTemplateSchema.index({ name: 1, version: 1 }, { unique: true });
+PromptTemplateSchema.index({ status: 1 });
+
+export const PromptTemplate = mongoose.model<IPromptTemplate>('PromptTemplate', PromptTemplateSchema);
+export default PromptTemplate;
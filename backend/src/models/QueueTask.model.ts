@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const QUEUE_TASK_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+export type QueueTaskStatus = typeof QUEUE_TASK_STATUSES[number];
+
+/**
+ * One unit of background work. Tasks live in Mongo so they survive restarts and any
+ * server instance can pick them up; the lock makes sure only one of them does.
+ */
+export interface IQueueTask extends Document {
+  queue: string;
+  payload: Record<string, any>;
+  groupId?: mongoose.Types.ObjectId; // Batch the task belongs to, for progress reporting
+  status: QueueTaskStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this (used for retry backoff)
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  result?: Record<string, unknown>;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QueueTaskSchema = new Schema<IQueueTask>({
+  queue: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  groupId: {
+    type: Schema.Types.ObjectId
+  },
+  status: {
+    type: String,
+    enum: QUEUE_TASK_STATUSES,
+    default: 'queued'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3,
+    min: 1
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  result: {
+    type: Schema.Types.Mixed
+  },
+  startedAt: {
+    type: Date
+  },
+  finishedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+QueueTaskSchema.index({ queue: 1, status: 1, runAt: 1 });
+QueueTaskSchema.index({ groupId: 1, status: 1 });
+
+export const QueueTask = mongoose.model<IQueueTask>('QueueTask', QueueTaskSchema);
+export default QueueTask;
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWorkingHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // 'HH:mm' in the recruiter's timezone
+  end: string;
+}
+
+export interface IAvailabilityBreak {
+  day?: number; // Omitted = applies to every working day
+  start: string;
+  end: string;
+  label?: string;
+}
+
+export interface IBlockedDate {
+  date: string; // 'YYYY-MM-DD' in the recruiter's timezone
+  reason?: string;
+}
+
+export interface IRecruiterAvailability extends Document {
+  userId: mongoose.Types.ObjectId;
+  timezone: string; // IANA timezone, e.g. 'Asia/Kolkata'
+  slotInterval: number; // Minutes between suggested slot start times
+  workingHours: IWorkingHours[];
+  breaks: IAvailabilityBreak[];
+  blockedDates: IBlockedDate[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const RecruiterAvailabilitySchema = new Schema<IRecruiterAvailability>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  timezone: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  slotInterval: {
+    type: Number,
+    default: 30,
+    min: 5,
+    max: 240
+  },
+  workingHours: [{
+    _id: false,
+    day: { type: Number, min: 0, max: 6, required: true },
+    start: { type: String, match: TIME_PATTERN, required: true },
+    end: { type: String, match: TIME_PATTERN, required: true }
+  }],
+  breaks: [{
+    _id: false,
+    day: { type: Number, min: 0, max: 6 },
+    start: { type: String, match: TIME_PATTERN, required: true },
+    end: { type: String, match: TIME_PATTERN, required: true },
+    label: { type: String, trim: true, default: '' }
+  }],
+  blockedDates: [{
+    _id: false,
+    date: { type: String, match: /^\d{4}-\d{2}-\d{2}$/, required: true },
+    reason: { type: String, trim: true, default: '' }
+  }]
+}, {
+  timestamps: true
+});
+
+export const RecruiterAvailability = mongoose.model<IRecruiterAvailability>('RecruiterAvailability', RecruiterAvailabilitySchema);
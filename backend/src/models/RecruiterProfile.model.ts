@@ -4,6 +4,7 @@ export type TrustLevel = 'low' | 'medium' | 'verified';
 
 export interface IRecruiterProfile extends Document {
   userId: mongoose.Types.ObjectId;
+  organizationId?: mongoose.Types.ObjectId; // Set while the recruiter is a member of an organization
   companyName: string;
   department: string;
   jobTitle: string;
@@ -31,6 +32,10 @@ const RecruiterProfileSchema = new Schema<IRecruiterProfile>({
     required: true,
     unique: true
   },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   companyName: {
     type: String,
     trim: true,
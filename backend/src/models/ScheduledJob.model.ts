@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const JOB_RUN_STATUSES = ['success', 'failed'] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+/**
+ * Persisted state of a recurring background job. Keeping it in Mongo means a restart
+ * picks up where the last run left off, and the lock stops two server instances from
+ * running the same job at once.
+ */
+export interface IScheduledJob extends Document {
+  name: string;
+  intervalMinutes: number;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastFinishedAt?: Date;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  lastResult?: Record<string, unknown>;
+  runCount: number;
+  failureCount: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ScheduledJobSchema = new Schema<IScheduledJob>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  intervalMinutes: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  nextRunAt: {
+    type: Date,
+    required: true
+  },
+  lastRunAt: {
+    type: Date
+  },
+  lastFinishedAt: {
+    type: Date
+  },
+  lastStatus: {
+    type: String,
+    enum: JOB_RUN_STATUSES
+  },
+  lastError: {
+    type: String
+  },
+  lastResult: {
+    type: Schema.Types.Mixed
+  },
+  runCount: {
+    type: Number,
+    default: 0
+  },
+  failureCount: {
+    type: Number,
+    default: 0
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+ScheduledJobSchema.index({ nextRunAt: 1 });
+
+export const ScheduledJob = mongoose.model<IScheduledJob>('ScheduledJob', ScheduledJobSchema);
+export default ScheduledJob;
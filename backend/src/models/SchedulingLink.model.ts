@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SCHEDULING_LINK_STATUSES = ['pending', 'booked', 'cancelled', 'expired'] as const;
+export type SchedulingLinkStatus = typeof SCHEDULING_LINK_STATUSES[number];
+
+export interface ISchedulingLink extends Document {
+  token: string; // Secret in the link sent to the candidate
+  applicationId: mongoose.Types.ObjectId;
+  jobId: mongoose.Types.ObjectId;
+  applicantId: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId; // Recruiter whose timezone and slot grid are offered
+  organizationId?: mongoose.Types.ObjectId;
+  interviewerIds: mongoose.Types.ObjectId[];
+  duration: number; // in minutes
+  type: 'Technical' | 'Behavioral' | 'HR' | 'Final';
+  meetingLink: string;
+  notes?: string;
+  windowStart: string; // 'YYYY-MM-DD' in the recruiter's timezone
+  windowEnd: string;
+  expiresAt: Date;
+  status: SchedulingLinkStatus;
+  interviewId?: mongoose.Types.ObjectId; // Set once the candidate books a slot
+  bookedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SchedulingLinkSchema = new Schema<ISchedulingLink>({
+  token: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  applicationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Application',
+    required: true
+  },
+  jobId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+    required: true
+  },
+  applicantId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+  interviewerIds: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
+  duration: {
+    type: Number,
+    default: 60,
+    min: 15,
+    max: 480
+  },
+  type: {
+    type: String,
+    enum: ['Technical', 'Behavioral', 'HR', 'Final'],
+    default: 'Technical'
+  },
+  meetingLink: {
+    type: String,
+    default: ''
+  },
+  notes: {
+    type: String,
+    default: ''
+  },
+  windowStart: {
+    type: String,
+    required: true
+  },
+  windowEnd: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: SCHEDULING_LINK_STATUSES,
+    default: 'pending'
+  },
+  interviewId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Interview'
+  },
+  bookedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+SchedulingLinkSchema.index({ applicationId: 1, status: 1 });
+SchedulingLinkSchema.index({ status: 1, expiresAt: 1 });
+
+export const SchedulingLink = mongoose.model<ISchedulingLink>('SchedulingLink', SchedulingLinkSchema);
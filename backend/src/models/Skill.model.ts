@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SKILL_STATUSES = ['active', 'retired'] as const;
+export type SkillStatus = typeof SKILL_STATUSES[number];
+
+/**
+ * One entry of the skill dictionary the skill normalizer matches against. Active
+ * entries are loaded into memory; retired ones are kept so merges stay traceable.
+ */
+export interface ISkill extends Document {
+  name: string; // Canonical name, e.g. 'nodejs'
+  aliases: string[]; // Lowercase spellings that normalize to this skill (includes the name)
+  status: SkillStatus;
+  mergedInto?: string; // Canonical name of the skill a retired entry was merged into
+  createdBy?: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SkillSchema = new Schema<ISkill>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true,
+    lowercase: true
+  },
+  aliases: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  status: {
+    type: String,
+    enum: SKILL_STATUSES,
+    default: 'active'
+  },
+  mergedInto: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Index for efficient queries
+SkillSchema.index({ status: 1, name: 1 });
+SkillSchema.index({ aliases: 1 });
+
+export const Skill = mongoose.model<ISkill>('Skill', SkillSchema);
+export default Skill;
@@ -10,11 +10,13 @@ interface ISuggestedJob {
   jobId: mongoose.Types.ObjectId;
   matchScore: number;
   matchedSkills: string[];
+  relatedMatches: string[]; // Related skills that earned partial credit, explained
   suggestedAt: Date;
 }
 
 export interface ITalentPool extends Document {
   recruiterId: mongoose.Types.ObjectId;
+  organizationId?: mongoose.Types.ObjectId;
   applicantId: mongoose.Types.ObjectId;
   originalJobId: mongoose.Types.ObjectId;
   originalApplicationId: mongoose.Types.ObjectId;
@@ -33,6 +35,10 @@ const TalentPoolSchema = new Schema<ITalentPool>({
     ref: 'User',
     required: true
   },
+  organizationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
   applicantId: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -61,6 +67,7 @@ const TalentPoolSchema = new Schema<ITalentPool>({
     jobId: { type: Schema.Types.ObjectId, ref: 'Job', required: true },
     matchScore: { type: Number, required: true, min: 0, max: 100 },
     matchedSkills: [{ type: String }],
+    relatedMatches: [{ type: String }],
     suggestedAt: { type: Date, default: Date.now }
   }],
   status: {
@@ -82,6 +89,7 @@ const TalentPoolSchema = new Schema<ITalentPool>({
 
 // Indexes for efficient queries
 TalentPoolSchema.index({ recruiterId: 1, status: 1 });
+TalentPoolSchema.index({ organizationId: 1, status: 1 });
 TalentPoolSchema.index({ applicantId: 1 });
 TalentPoolSchema.index({ 'smartTags.tag': 1 });
 TalentPoolSchema.index({ 'suggestedJobs.matchScore': -1 });
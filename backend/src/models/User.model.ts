@@ -9,6 +9,7 @@ export interface IUser extends Document {
   googleId?: string;
   githubId?: string;
   avatarUrl?: string;
+  calendarFeedToken?: string; // Secret in the subscribable .ics feed URL
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -52,6 +53,12 @@ const UserSchema = new Schema<IUser>({
   avatarUrl: {
     type: String,
     default: ''
+  },
+  calendarFeedToken: {
+    type: String,
+    sparse: true,
+    index: true,
+    select: false
   }
 }, {
   timestamps: true
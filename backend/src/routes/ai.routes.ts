@@ -4,6 +4,8 @@ import {
   analyzeGitHub,
   evaluateApplication,
   evaluateJobApplications,
+  getLatestEvaluationBatch,
+  getEvaluationBatch,
 } from '../controllers/ai.controller';
 
 const router = Router();
@@ -19,5 +21,9 @@ router.post('/evaluate/:applicationId', evaluateApplication);
 
 // Batch evaluate all applications for a job
 router.post('/evaluate-job/:jobId', evaluateJobApplications);
+router.get('/evaluate-job/:jobId', getLatestEvaluationBatch);
+
+// Progress of a batch evaluation
+router.get('/evaluation-batches/:batchId', getEvaluationBatch);
 
 export default router;
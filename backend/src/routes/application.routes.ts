@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, authorizeRole } from '../middleware/auth.middleware';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
 import { 
   applyForJob,
   getMyApplications,
@@ -17,7 +17,12 @@ import {
   getSelectedCandidates,
   generateRejectionFeedback,
   getRejectionReasons,
-  getRejectionFeedback
+  getRejectionFeedback,
+  getApplicationScorecards,
+  getInterviewLoop,
+  getScoreExplanation,
+  getEvaluationHistory,
+  getEvaluationDiff
 } from '../controllers/application.controller';
 
 const router = Router();
@@ -38,16 +43,21 @@ router.get('/recruiter/all', authorizeRole('recruiter'), getAllApplicationsForRe
 router.get('/recruiter/selected-candidates', authorizeRole('recruiter'), getSelectedCandidates);
 router.get('/recruiter/rejection-reasons', authorizeRole('recruiter'), getRejectionReasons);
 router.get('/job/:jobId', authorizeRole('recruiter'), getApplicationsByJob);
-router.put('/:id/status', authorizeRole('recruiter'), updateApplicationStatus);
-router.post('/:id/schedule-interview', authorizeRole('recruiter'), scheduleInterview);
+router.get('/:id/scorecards', authorizeRole('recruiter'), getApplicationScorecards);
+router.get('/:id/interview-loop', authorizeRole('recruiter'), getInterviewLoop);
+router.get('/:id/score-explanation', authorizeRole('recruiter'), getScoreExplanation);
+router.get('/:id/evaluations', authorizeRole('recruiter'), getEvaluationHistory);
+router.get('/:id/evaluations/diff', authorizeRole('recruiter'), getEvaluationDiff);
+router.put('/:id/status', authorizeRole('recruiter'), authorizePermission('applications:manage'), updateApplicationStatus);
+router.post('/:id/schedule-interview', authorizeRole('recruiter'), authorizePermission('interviews:manage'), scheduleInterview);
 router.post('/:id/generate-justification', authorizeRole('recruiter'), generateJustification);
 router.post('/:id/generate-interview-focus', authorizeRole('recruiter'), generateInterviewFocus);
 router.post('/:id/generate-skill-gap-analysis', authorizeRole('recruiter'), generateSkillGapAnalysis);
 router.post('/:id/generate-rejection-feedback', authorizeRole('recruiter'), generateRejectionFeedback);
 
 // Bulk actions
-router.post('/job/:jobId/bulk-reject', authorizeRole('recruiter'), bulkRejectApplications);
-router.post('/job/:jobId/bulk-shortlist', authorizeRole('recruiter'), bulkShortlistApplications);
-router.post('/job/:jobId/bulk-reject-specific', authorizeRole('recruiter'), bulkRejectSpecificApplications);
+router.post('/job/:jobId/bulk-reject', authorizeRole('recruiter'), authorizePermission('applications:manage'), bulkRejectApplications);
+router.post('/job/:jobId/bulk-shortlist', authorizeRole('recruiter'), authorizePermission('applications:manage'), bulkShortlistApplications);
+router.post('/job/:jobId/bulk-reject-specific', authorizeRole('recruiter'), authorizePermission('applications:manage'), bulkRejectSpecificApplications);
 
 export default router;
@@ -11,12 +11,29 @@ import {
   confirmInterviewAttendance,
   sendInterviewReminder,
   recordCandidateAction,
-  getInterviewWithRisk
+  getInterviewWithRisk,
+  // Interview loop endpoints
+  recordRoundOutcome,
+  // Scorecard endpoints
+  getInterviewFeedback,
+  saveInterviewFeedback,
+  // Calendar feed endpoints
+  getCalendarFeedUrl,
+  resetCalendarFeedUrl,
+  getCalendarFeed
 } from '../controllers/interview.controller';
-import { authenticate, authorizeRole } from '../middleware/auth.middleware';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
 
 const router = Router();
 
+// ============= CALENDAR FEED =============
+// Subscribable .ics feed (public - the secret token identifies the user)
+router.get('/calendar/feed/:token.ics', getCalendarFeed);
+
+// Get or reset the logged-in user's feed URL (recruiters and candidates)
+router.get('/calendar/feed-url', authenticate, getCalendarFeedUrl);
+router.post('/calendar/feed-url/reset', authenticate, resetCalendarFeedUrl);
+
 // ============= RECRUITER ROUTES (Protected) =============
 // Check available time slots
 router.get('/availability', authenticate, authorizeRole('recruiter'), checkAvailability);
@@ -34,16 +51,23 @@ router.get('/analytics/dropoff', authenticate, authorizeRole('recruiter'), getDr
 router.get('/:interviewId/risk', authenticate, authorizeRole('recruiter'), getInterviewWithRisk);
 
 // Schedule new interview
-router.post('/', authenticate, authorizeRole('recruiter'), scheduleInterview);
+router.post('/', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), scheduleInterview);
 
 // Send reminder to candidate
-router.post('/:interviewId/reminder', authenticate, authorizeRole('recruiter'), sendInterviewReminder);
+router.post('/:interviewId/reminder', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), sendInterviewReminder);
 
 // Update interview (reschedule)
-router.put('/:id', authenticate, authorizeRole('recruiter'), updateInterview);
+router.put('/:id', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), updateInterview);
+
+// Record whether the candidate passed the interview's round of the loop
+router.post('/:id/outcome', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), recordRoundOutcome);
+
+// Interview scorecard - each panelist's own feedback, hidden from the others until they submit
+router.get('/:id/feedback', authenticate, authorizeRole('recruiter'), getInterviewFeedback);
+router.put('/:id/feedback', authenticate, authorizeRole('recruiter'), saveInterviewFeedback);
 
 // Cancel interview
-router.delete('/:id', authenticate, authorizeRole('recruiter'), deleteInterview);
+router.delete('/:id', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), deleteInterview);
 
 // ============= CANDIDATE ROUTES (Public with token or authenticated) =============
 // Confirm interview attendance (candidate can access)
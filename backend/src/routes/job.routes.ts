@@ -1,11 +1,21 @@
 import { Router } from 'express';
-import { authenticate, authorizeRole } from '../middleware/auth.middleware';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
 import { 
   createJob,
   getJobs,
   getJobById,
   updateJob,
-  deleteJob
+  deleteJob,
+  getJobPipeline,
+  updateJobPipeline,
+  getJobScorecard,
+  updateJobScorecard,
+  getJobInterviewPlan,
+  updateJobInterviewPlan,
+  getJobScoringWeights,
+  updateJobScoringWeights,
+  getJobScreeningQuestions,
+  updateJobScreeningQuestions
 } from '../controllers/job.controller';
 
 const router = Router();
@@ -15,8 +25,18 @@ router.get('/', authenticate, getJobs);
 router.get('/:id', authenticate, getJobById);
 
 // Recruiter-only routes
-router.post('/', authenticate, authorizeRole('recruiter'), createJob);
-router.put('/:id', authenticate, authorizeRole('recruiter'), updateJob);
-router.delete('/:id', authenticate, authorizeRole('recruiter'), deleteJob);
+router.post('/', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:create'), createJob);
+router.put('/:id', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJob);
+router.get('/:id/pipeline', authenticate, authorizeRole('recruiter'), getJobPipeline);
+router.put('/:id/pipeline', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJobPipeline);
+router.get('/:id/scorecard', authenticate, authorizeRole('recruiter'), getJobScorecard);
+router.put('/:id/scorecard', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJobScorecard);
+router.get('/:id/interview-plan', authenticate, authorizeRole('recruiter'), getJobInterviewPlan);
+router.put('/:id/interview-plan', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJobInterviewPlan);
+router.get('/:id/scoring-weights', authenticate, authorizeRole('recruiter'), getJobScoringWeights);
+router.put('/:id/scoring-weights', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJobScoringWeights);
+router.get('/:id/screening-questions', authenticate, authorizeRole('recruiter'), getJobScreeningQuestions);
+router.put('/:id/screening-questions', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:edit'), updateJobScreeningQuestions);
+router.delete('/:id', authenticate, authorizeRole('recruiter'), authorizePermission('jobs:delete'), deleteJob);
 
 export default router;
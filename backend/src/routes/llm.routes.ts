@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { authenticate, authorizePlatformAdmin } from '../middleware/auth.middleware';
+import { getLlmUsage, clearLlmCache, getLlmHealth } from '../controllers/llm.controller';
+
+const router = Router();
+
+// AI spend is platform-wide - platform admins only
+router.use(authenticate);
+router.use(authorizePlatformAdmin);
+
+// Usage per feature and budgets (?days=)
+router.get('/usage', getLlmUsage);
+
+// Circuit breakers of providers and API keys, and where each feature is routed now
+router.get('/health', getLlmHealth);
+
+// Drop cached replies (?feature=)
+router.delete('/cache', clearLlmCache);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
+import {
+  createOffer,
+  updateOffer,
+  sendOffer,
+  deleteOffer,
+  getRecruiterOffers,
+  getOffersByApplication,
+  getMyOffers,
+  acceptOffer,
+  declineOffer
+} from '../controllers/offer.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Applicant routes
+router.get('/my-offers', authorizeRole('applicant'), getMyOffers);
+router.post('/:id/accept', authorizeRole('applicant'), acceptOffer);
+router.post('/:id/decline', authorizeRole('applicant'), declineOffer);
+
+// Recruiter routes
+router.get('/', authorizeRole('recruiter'), getRecruiterOffers);
+router.get('/application/:applicationId', authorizeRole('recruiter'), getOffersByApplication);
+router.post('/', authorizeRole('recruiter'), authorizePermission('offers:manage'), createOffer);
+router.put('/:id', authorizeRole('recruiter'), authorizePermission('offers:manage'), updateOffer);
+router.post('/:id/send', authorizeRole('recruiter'), authorizePermission('offers:manage'), sendOffer);
+router.delete('/:id', authorizeRole('recruiter'), authorizePermission('offers:manage'), deleteOffer);
+
+export default router;
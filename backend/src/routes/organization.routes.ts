@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
+import {
+  getMyOrganization,
+  createOrganization,
+  updateOrganization,
+  inviteMember,
+  cancelInvitation,
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+  updateMemberRole,
+  removeMember,
+  leaveOrganization
+} from '../controllers/organization.controller';
+
+const router = Router();
+
+// All routes require authentication and recruiter role
+router.use(authenticate);
+router.use(authorizeRole('recruiter'));
+
+// Any recruiter
+router.get('/me', getMyOrganization);
+router.post('/', createOrganization);
+router.post('/me/leave', leaveOrganization);
+router.get('/invitations', getMyInvitations);
+router.post('/invitations/:organizationId/accept', acceptInvitation);
+router.post('/invitations/:organizationId/decline', declineInvitation);
+
+// Organization admins
+router.put('/me', authorizePermission('org:manage'), updateOrganization);
+router.post('/me/invitations', authorizePermission('org:manage'), inviteMember);
+router.delete('/me/invitations/:userId', authorizePermission('org:manage'), cancelInvitation);
+router.put('/me/members/:userId', authorizePermission('org:manage'), updateMemberRole);
+router.delete('/me/members/:userId', authorizePermission('org:manage'), removeMember);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { authenticate, authorizePlatformAdmin } from '../middleware/auth.middleware';
+import {
+  listPrompts,
+  createPromptVersion,
+  updatePromptRollout,
+  promotePromptVersion
+} from '../controllers/prompt.controller';
+
+const router = Router();
+
+// Prompts are shared by every organization - platform admins only
+router.use(authenticate);
+router.use(authorizePlatformAdmin);
+
+router.get('/', listPrompts);
+router.post('/:name/versions', createPromptVersion);
+
+// Status and traffic share of a version ({ status, trafficShare })
+router.patch('/:name/versions/:version', updatePromptRollout);
+
+// All traffic to this version - also the rollback path
+router.post('/:name/versions/:version/promote', promotePromptVersion);
+
+export default router;
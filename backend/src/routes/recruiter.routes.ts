@@ -4,6 +4,8 @@ import {
   getProfile, 
   updateProfile,
   getDashboard,
+  getAvailability,
+  updateAvailability,
   sendVerificationEmail,
   verifyEmail
 } from '../controllers/recruiter.controller';
@@ -21,6 +23,8 @@ router.use(authorizeRole('recruiter'));
 router.get('/profile', getProfile);
 router.put('/profile', updateProfile);
 router.get('/dashboard', getDashboard);
+router.get('/availability', getAvailability);
+router.put('/availability', updateAvailability);
 
 // 🔐 Send verification (requires auth - user must be logged in)
 router.post('/send-verification', sendVerificationEmail);
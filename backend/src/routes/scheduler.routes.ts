@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authenticate, authorizeRole } from '../middleware/auth.middleware';
+import { runScheduledJobs, getSchedulerStatus } from '../controllers/scheduler.controller';
+
+const router = Router();
+
+// Cron trigger (CRON_SECRET bearer token) - Vercel Cron sends GET requests
+router.get('/run', runScheduledJobs);
+router.post('/run', runScheduledJobs);
+
+// Background job status
+router.get('/status', authenticate, authorizeRole('recruiter'), getSchedulerStatus);
+
+export default router;
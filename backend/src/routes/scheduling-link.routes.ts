@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
+import {
+  createSchedulingLink,
+  getSchedulingLinks,
+  cancelSchedulingLink,
+  getPublicSchedulingLink,
+  bookSchedulingLink
+} from '../controllers/scheduling-link.controller';
+
+const router = Router();
+
+// Candidate routes (public - the token in the emailed link identifies the application)
+router.get('/public/:token', getPublicSchedulingLink);
+router.post('/public/:token/book', bookSchedulingLink);
+
+// Recruiter routes
+router.get('/', authenticate, authorizeRole('recruiter'), getSchedulingLinks);
+router.post('/', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), createSchedulingLink);
+router.delete('/:id', authenticate, authorizeRole('recruiter'), authorizePermission('interviews:manage'), cancelSchedulingLink);
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { authenticate, authorizePlatformAdmin } from '../middleware/auth.middleware';
+import {
+  listSkills,
+  createSkill,
+  updateSkillAliases,
+  mergeSkill,
+  retireSkill,
+  restoreSkill,
+  getUnmatchedSkills
+} from '../controllers/skill.controller';
+
+const router = Router();
+
+// The skill dictionary is shared by every organization - platform admins only
+router.use(authenticate);
+router.use(authorizePlatformAdmin);
+
+// List skills (?status=active|retired&search=)
+router.get('/', listSkills);
+
+// Add a skill
+router.post('/', createSkill);
+
+// Raw skill strings no skill matches (?limit=)
+router.get('/unmatched', getUnmatchedSkills);
+
+// Replace the aliases of a skill
+router.put('/:name', updateSkillAliases);
+
+// Merge a skill into another one
+router.post('/:name/merge', mergeSkill);
+
+// Retire / restore a skill
+router.post('/:name/retire', retireSkill);
+router.post('/:name/restore', restoreSkill);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, authorizeRole } from '../middleware/auth.middleware';
+import { authenticate, authorizeRole, authorizePermission } from '../middleware/auth.middleware';
 import {
   getTalentPool,
   updateTalentPoolStatus,
@@ -18,15 +18,15 @@ router.use(authorizeRole('recruiter'));
 router.get('/', getTalentPool);
 
 // Update talent pool entry status
-router.put('/:id/status', updateTalentPoolStatus);
+router.put('/:id/status', authorizePermission('talent_pool:manage'), updateTalentPoolStatus);
 
 // Remove from talent pool
-router.delete('/:id', removeFromTalentPool);
+router.delete('/:id', authorizePermission('talent_pool:manage'), removeFromTalentPool);
 
 // Apply candidate from talent pool to a new job
-router.post('/:id/apply', applyFromTalentPool);
+router.post('/:id/apply', authorizePermission('talent_pool:manage'), applyFromTalentPool);
 
 // Refresh suggested jobs for a talent pool entry
-router.post('/:id/refresh-suggestions', refreshSuggestedJobs);
+router.post('/:id/refresh-suggestions', authorizePermission('talent_pool:manage'), refreshSuggestedJobs);
 
 export default router;
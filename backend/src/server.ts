@@ -6,6 +6,8 @@ import dotenv from 'dotenv';
 import { connectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
 import passport, { initializePassport } from './config/passport';
+import { initializeScheduler, isSchedulerEnabled, jobScheduler, taskQueue } from './config/scheduler';
+import skillDictionaryService from './services/skill-dictionary.service';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -18,6 +20,13 @@ import interviewRoutes from './routes/interview.routes';
 import talentPoolRoutes from './routes/talent-pool.routes';
 import virtualInterviewRoutes from './routes/virtual-interview.routes';
 import notificationRoutes from './routes/notification.routes';
+import offerRoutes from './routes/offer.routes';
+import organizationRoutes from './routes/organization.routes';
+import schedulingLinkRoutes from './routes/scheduling-link.routes';
+import schedulerRoutes from './routes/scheduler.routes';
+import skillRoutes from './routes/skill.routes';
+import llmRoutes from './routes/llm.routes';
+import promptRoutes from './routes/prompt.routes';
 
 // Load environment variables
 dotenv.config();
@@ -25,6 +34,9 @@ dotenv.config();
 // Initialize Passport OAuth strategies
 initializePassport();
 
+// Register background jobs (drop-off risk, automatic reminders)
+initializeScheduler();
+
 const app: Application = express();
 const PORT = process.env.PORT || 5000;
 
@@ -69,6 +81,7 @@ if (process.env.VERCEL === '1') {
   app.use(async (req: Request, res: Response, next) => {
     try {
       await connectDB();
+      await skillDictionaryService.ensureLoaded();
       next();
     } catch (error) {
       console.error('DB connection error in middleware:', error);
@@ -112,6 +125,13 @@ app.use('/api/interviews', interviewRoutes);
 app.use('/api/talent-pool', talentPoolRoutes);
 app.use('/api/virtual-interview', virtualInterviewRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/offers', offerRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/scheduling-links', schedulingLinkRoutes);
+app.use('/api/scheduler', schedulerRoutes);
+app.use('/api/skills', skillRoutes);
+app.use('/api/llm', llmRoutes);
+app.use('/api/prompts', promptRoutes);
 
 // 404 Handler
 app.use((req: Request, res: Response) => {
@@ -130,6 +150,7 @@ let server: any;
 const startServer = async () => {
   try {
     await connectDB();
+    skillDictionaryService.start();
     
     server = app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -137,6 +158,12 @@ const startServer = async () => {
       console.log(`🌐 API URL: http://localhost:${PORT}`);
     });
 
+    // Background jobs - state lives in Mongo, so a restart resumes the schedule
+    if (isSchedulerEnabled()) {
+      jobScheduler.start();
+      taskQueue.start();
+    }
+
     // Handle unhandled errors
     process.on('unhandledRejection', (reason, promise) => {
       console.error('Unhandled Rejection at:', promise, 'reason:', reason);
@@ -149,6 +176,9 @@ const startServer = async () => {
     // Graceful shutdown - CRITICAL for Windows/nodemon
     process.on('SIGINT', () => {
       console.log('\n🛑 SIGINT received: Graceful shutdown...');
+      jobScheduler.stop();
+      taskQueue.stop();
+      skillDictionaryService.stop();
       server?.close(() => {
         console.log('✅ Server closed successfully');
         process.exit(0);
@@ -157,6 +187,9 @@ const startServer = async () => {
 
     process.on('SIGTERM', () => {
       console.log('\n🛑 SIGTERM received: Graceful shutdown...');
+      jobScheduler.stop();
+      taskQueue.stop();
+      skillDictionaryService.stop();
       server?.close(() => {
         console.log('✅ Server closed successfully');
         process.exit(0);
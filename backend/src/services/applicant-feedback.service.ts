@@ -1,5 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { geminiClient } from '../utils/gemini-client';
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
 
 export interface ApplicantFeedbackInput {
   jobTitle: string;
@@ -14,6 +14,8 @@ export interface ApplicantFeedbackInput {
     skillMatch?: number;
     experienceScore?: number;
   };
+  recruiterId?: string; // Owner of the job, for AI usage budgets
+  applicationId?: string;
 }
 
 export interface ApplicantFeedback {
@@ -24,6 +26,7 @@ export interface ApplicantFeedback {
   learningFocus: string[];
   encouragement: string;
   generatedAt: Date;
+  promptVersion?: string; // Unset when the default feedback was used
 }
 
 /**
@@ -34,50 +37,23 @@ export const generateApplicantFeedback = async (
   input: ApplicantFeedbackInput
 ): Promise<ApplicantFeedback> => {
   try {
-    return await geminiClient.executeWithFallback(async (client) => {
-      const model = client.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-    const prompt = `Generate rejection feedback for a job applicant.
-
-CONTEXT:
-- Job Title: ${input.jobTitle}
-- Required Skills: ${input.requiredSkills.join(', ') || 'Not specified'}
-- Candidate Skills: ${input.candidateSkills.join(', ') || 'Not provided'}
-${input.experienceRequired ? `- Experience Required: ${input.experienceRequired}` : ''}
-${input.candidateExperience ? `- Candidate Experience: ${input.candidateExperience}` : ''}
-${input.aiInsights?.gaps ? `- Skill Gaps Identified: ${input.aiInsights.gaps.join(', ')}` : ''}
-${input.aiInsights?.strengths ? `- Strengths: ${input.aiInsights.strengths.join(', ')}` : ''}
-
-RULES:
-- Be respectful and supportive
-- Do NOT mention scores, rankings, or percentages
-- Do NOT use negative or judgmental language like "failed", "not good enough", "weak"
-- Focus on role-specific gaps and improvement areas
-- Use neutral, encouraging phrases
-- Limit to 2-3 reasons and 3 learning suggestions
-- Frame everything as opportunities for growth
-
-OUTPUT FORMAT (respond with ONLY valid JSON, no markdown):
-{
-  "statusMessage": "A brief, neutral explanation of the decision (1-2 sentences)",
-  "reasons": ["Reason 1 - neutral, role-focused", "Reason 2 - neutral, role-focused"],
-  "improvementAreas": ["Specific actionable suggestion 1", "Specific actionable suggestion 2", "Specific actionable suggestion 3"],
-  "learningFocus": ["Learning topic 1", "Learning topic 2", "Learning topic 3"],
-  "encouragement": "A brief, genuine encouraging message"
-}`;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text().trim();
-
-    // Parse JSON - remove markdown if present
-    if (text.startsWith('```json')) {
-      text = text.replace(/```json\n?/, '').replace(/```$/, '');
-    } else if (text.startsWith('```')) {
-      text = text.replace(/```\n?/, '').replace(/```$/, '');
-    }
-
-    const parsed = JSON.parse(text.trim());
+    const additionalContext = [
+      input.experienceRequired ? `- Experience Required: ${input.experienceRequired}` : '',
+      input.candidateExperience ? `- Candidate Experience: ${input.candidateExperience}` : '',
+      input.aiInsights?.gaps ? `- Skill Gaps Identified: ${input.aiInsights.gaps.join(', ')}` : '',
+      input.aiInsights?.strengths ? `- Strengths: ${input.aiInsights.strengths.join(', ')}` : ''
+    ].filter(Boolean).join('\n');
+
+    const prompt = await promptRegistryService.render('applicant_feedback', {
+      jobTitle: input.jobTitle,
+      requiredSkills: input.requiredSkills.join(', ') || 'Not specified',
+      candidateSkills: input.candidateSkills.join(', ') || 'Not provided',
+      additionalContext
+    }, input.applicationId);
+
+    const parsed = await llmService.generateFromPrompt<Partial<ApplicantFeedback>>(prompt, {
+      recruiterId: input.recruiterId
+    });
 
     return {
       status: 'Not Selected',
@@ -86,9 +62,9 @@ OUTPUT FORMAT (respond with ONLY valid JSON, no markdown):
       improvementAreas: parsed.improvementAreas?.slice(0, 3) || getDefaultImprovements(input),
       learningFocus: parsed.learningFocus?.slice(0, 3) || getDefaultLearningFocus(input),
       encouragement: parsed.encouragement || 'This feedback is provided to help you prepare for future opportunities. Keep learning and growing!',
-      generatedAt: new Date()
+      generatedAt: new Date(),
+      promptVersion: prompt.promptVersion
     };
-    }); // End executeWithFallback
   } catch (error) {
     console.error('Error generating applicant feedback:', error);
     // Return fallback feedback
@@ -0,0 +1,108 @@
+import { Application, IApplication } from '../models/Application.model';
+import { ApplicantProfile, IApplicantProfile } from '../models/ApplicantProfile.model';
+import { EvaluationTrigger } from '../models/ApplicationEvaluation.model';
+import { IJob } from '../models/Job.model';
+import { QueueTask } from '../models/QueueTask.model';
+import { IUser } from '../models/User.model';
+import { buildCandidatePayload, buildEvaluationFromScoring, buildJobPayload } from './gemini.service';
+import { scoringService } from './scoring.service';
+import { evaluationHistoryService } from './evaluation-history.service';
+import { taskQueue } from './task-queue.service';
+
+export const EVALUATION_QUEUE = 'evaluate-application';
+
+// Applications that can still move - closed ones keep the score they were decided on
+const OPEN_STATUSES = ['pending', 'under_review', 'reviewing', 'shortlisted', 'interview', 'selected'];
+
+// Profile fields the rule-based score depends on
+const SCORED_PROFILE_FIELDS = [
+  'skills', 'skillProficiencies', 'experience', 'education', 'projects', 'certifications', 'yearsOfExperience',
+  'githubUsername', 'leetcodeUsername', 'linkedinUrl', 'portfolioUrl', 'resumeUrl'
+];
+
+class AutoEvaluationService {
+  /**
+   * Score an application with the rule-based engine and store it as a new evaluation version
+   */
+  async scoreApplication(
+    application: IApplication,
+    job: IJob,
+    applicant: IUser,
+    profile: IApplicantProfile,
+    trigger: EvaluationTrigger,
+    evaluatedBy?: string
+  ): Promise<IApplication> {
+    const candidatePayload = buildCandidatePayload(applicant, profile, application.coverLetter);
+    const scoringResult = await scoringService.evaluateCandidate(job, profile);
+    const evaluation = buildEvaluationFromScoring(scoringResult, candidatePayload, buildJobPayload(job));
+
+    application.aiInsights = {
+      ...evaluation,
+      weightProfile: { ...scoringResult.weightProfile, appliedAt: new Date() },
+    } as any;
+
+    await evaluationHistoryService.record(application, { trigger, job, profile, evaluatedBy });
+    return application;
+  }
+
+  /**
+   * Score a freshly submitted application right away. A failure never blocks the
+   * application - it is queued and retried instead.
+   */
+  async evaluateNewApplication(application: IApplication, job: IJob, applicant: IUser): Promise<void> {
+    try {
+      // Applicants without a profile get scored as an empty profile
+      const profile = await ApplicantProfile.findOne({ userId: applicant._id })
+        || new ApplicantProfile({ userId: applicant._id });
+
+      await this.scoreApplication(application, job, applicant, profile, 'application_submitted');
+    } catch (error) {
+      console.error(`Automatic evaluation of application ${application._id} failed, queueing a retry:`, error);
+      // The application is already saved - a failed retry must not fail the submission
+      await taskQueue.enqueue(EVALUATION_QUEUE, [{
+        applicationId: application._id.toString(),
+        applicantName: applicant.fullName,
+        trigger: 'application_submitted'
+      }]).catch(queueError =>
+        console.error(`Failed to queue a retry evaluation of application ${application._id}:`, queueError)
+      );
+    }
+  }
+
+  /**
+   * Whether a profile update touched anything the score depends on
+   */
+  affectsScore(updatedFields: string[]): boolean {
+    return updatedFields.some(field => SCORED_PROFILE_FIELDS.includes(field));
+  }
+
+  /**
+   * Queue a re-score of the applicant's open applications after their profile changed
+   */
+  async rescoreOpenApplications(userId: string): Promise<number> {
+    const applications = await Application.find({
+      applicantId: userId,
+      status: { $in: OPEN_STATUSES }
+    }).select('_id applicantId').populate('applicantId', 'fullName');
+
+    // Several quick profile edits need only one re-score per application
+    const alreadyQueued = await QueueTask.find({
+      queue: EVALUATION_QUEUE,
+      status: 'queued',
+      'payload.applicationId': { $in: applications.map(app => app._id.toString()) }
+    }).select('payload.applicationId');
+    const queuedIds = new Set(alreadyQueued.map(task => task.payload.applicationId));
+
+    const toQueue = applications.filter(app => !queuedIds.has(app._id.toString()));
+    await taskQueue.enqueue(EVALUATION_QUEUE, toQueue.map(app => ({
+      applicationId: app._id.toString(),
+      applicantName: (app.applicantId as any)?.fullName || 'Unknown',
+      trigger: 'profile_updated'
+    })));
+
+    return toQueue.length;
+  }
+}
+
+export const autoEvaluationService = new AutoEvaluationService();
+export default autoEvaluationService;
@@ -0,0 +1,527 @@
+import mongoose from 'mongoose';
+import {
+  RecruiterAvailability,
+  IWorkingHours,
+  IAvailabilityBreak,
+  IBlockedDate
+} from '../models/RecruiterAvailability.model';
+import { Interview } from '../models/Interview.model';
+import { User } from '../models/User.model';
+import { AppError } from '../middleware/errorHandler';
+import organizationService from './organization.service';
+
+export interface AvailabilitySettings {
+  timezone: string;
+  slotInterval: number;
+  workingHours: IWorkingHours[];
+  breaks: IAvailabilityBreak[];
+  blockedDates: IBlockedDate[];
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export type ConflictType = 'interviewer' | 'candidate' | 'outside_hours';
+
+export interface SchedulingConflict {
+  type: ConflictType;
+  userId?: string;
+  interviewId?: string;
+  start?: Date;
+  end?: Date;
+  message: string;
+}
+
+interface BusyInterval extends TimeInterval {
+  interviewId: string;
+  interviewerIds: string[];
+  applicantId?: string;
+}
+
+interface ConflictQuery {
+  panelistIds: string[];
+  applicantId?: string;
+  start: Date;
+  end: Date;
+  excludeInterviewId?: string;
+}
+
+interface SlotQuery {
+  organizerId: string;
+  date: string;
+  duration: number;
+  panelistIds: string[];
+  applicantId?: string;
+  excludeInterviewId?: string;
+}
+
+const ACTIVE_INTERVIEW_STATUSES = ['scheduled', 'rescheduled'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest interview we look back for when checking overlaps
+const MAX_INTERVIEW_MS = DAY_MS;
+
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE
+  || Intl.DateTimeFormat().resolvedOptions().timeZone
+  || 'UTC';
+
+// Monday to Friday, 9 AM to 6 PM
+const DEFAULT_WORKING_HOURS: IWorkingHours[] = [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '18:00' }));
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const overlaps = (a: TimeInterval, b: TimeInterval): boolean => a.start < b.end && b.start < a.end;
+
+// Shift a 'YYYY-MM-DD' calendar date by whole days
+export const addDays = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+};
+
+class AvailabilityService {
+  /**
+   * Whether the runtime knows the given IANA timezone
+   */
+  isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Offset of a timezone from UTC at the given instant, in minutes
+   */
+  getTimeZoneOffset(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return Math.round((asUtc - (date.getTime() - date.getMilliseconds())) / 60000);
+  }
+
+  /**
+   * Convert a wall-clock time ('YYYY-MM-DD' + minutes since midnight) in a timezone to a UTC instant
+   */
+  zonedTimeToUtc(date: string, minutes: number, timezone: string): Date {
+    const [y, m, d] = date.split('-').map(Number);
+    const wallClock = Date.UTC(y, m - 1, d, 0, minutes);
+
+    // Re-check the offset at the candidate instant to handle DST changes
+    let offset = this.getTimeZoneOffset(new Date(wallClock), timezone);
+    const corrected = this.getTimeZoneOffset(new Date(wallClock - offset * 60000), timezone);
+    if (corrected !== offset) offset = corrected;
+
+    return new Date(wallClock - offset * 60000);
+  }
+
+  /**
+   * Calendar date ('YYYY-MM-DD') of an instant in a timezone
+   */
+  toZonedDate(date: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  }
+
+  /**
+   * Normalize a ?date= query value to 'YYYY-MM-DD'
+   */
+  parseDate(value: unknown): string {
+    const raw = String(value || '');
+    if (DATE_PATTERN.test(raw)) return raw;
+
+    const parsed = new Date(raw);
+    if (!raw || isNaN(parsed.getTime())) {
+      throw new AppError('Invalid date', 400);
+    }
+    return parsed.toISOString().split('T')[0];
+  }
+
+  getDefaults(): AvailabilitySettings {
+    return {
+      timezone: DEFAULT_TIMEZONE,
+      slotInterval: 30,
+      workingHours: DEFAULT_WORKING_HOURS.map(hours => ({ ...hours })),
+      breaks: [],
+      blockedDates: []
+    };
+  }
+
+  /**
+   * Availability calendar of a recruiter, falling back to the default working week
+   */
+  async getAvailability(userId: string): Promise<AvailabilitySettings> {
+    const saved = await RecruiterAvailability.findOne({ userId }).lean();
+    if (!saved) return this.getDefaults();
+
+    return {
+      timezone: saved.timezone,
+      slotInterval: saved.slotInterval,
+      workingHours: saved.workingHours,
+      breaks: saved.breaks,
+      blockedDates: saved.blockedDates
+    };
+  }
+
+  /**
+   * Validate and save a recruiter's availability calendar. Omitted fields keep their current value.
+   */
+  async updateAvailability(userId: string, input: Partial<AvailabilitySettings>): Promise<AvailabilitySettings> {
+    const settings = this.normalizeAvailability({ ...(await this.getAvailability(userId)), ...input });
+
+    await RecruiterAvailability.findOneAndUpdate(
+      { userId },
+      { userId, ...settings },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    return settings;
+  }
+
+  normalizeAvailability(input: AvailabilitySettings): AvailabilitySettings {
+    const timezone = String(input.timezone || '').trim();
+    if (!this.isValidTimezone(timezone)) {
+      throw new AppError(`Unknown timezone "${timezone}"`, 400);
+    }
+
+    const slotInterval = Number(input.slotInterval);
+    if (!Number.isInteger(slotInterval) || slotInterval < 5 || slotInterval > 240) {
+      throw new AppError('Slot interval must be a whole number of minutes between 5 and 240', 400);
+    }
+
+    const checkDay = (day: unknown) => {
+      if (!Number.isInteger(day) || (day as number) < 0 || (day as number) > 6) {
+        throw new AppError('Day must be a number from 0 (Sunday) to 6 (Saturday)', 400);
+      }
+    };
+    const checkRange = (start: string, end: string, what: string) => {
+      if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+        throw new AppError(`${what} times must be in HH:mm format`, 400);
+      }
+      if (toMinutes(start) >= toMinutes(end)) {
+        throw new AppError(`${what} must end after it starts (${start} - ${end})`, 400);
+      }
+    };
+
+    const workingHours = (input.workingHours || []).map(hours => {
+      checkDay(hours.day);
+      checkRange(hours.start, hours.end, 'Working hours');
+      return { day: hours.day, start: hours.start, end: hours.end };
+    });
+
+    const breaks = (input.breaks || []).map(b => {
+      if (b.day !== undefined && b.day !== null) checkDay(b.day);
+      checkRange(b.start, b.end, 'Break');
+      return {
+        ...(b.day !== undefined && b.day !== null && { day: b.day }),
+        start: b.start,
+        end: b.end,
+        label: b.label || ''
+      };
+    });
+
+    const blockedDates = (input.blockedDates || []).map(blocked => {
+      if (!DATE_PATTERN.test(blocked.date)) {
+        throw new AppError('Blocked dates must be in YYYY-MM-DD format', 400);
+      }
+      return { date: blocked.date, reason: blocked.reason || '' };
+    });
+
+    return { timezone, slotInterval, workingHours, breaks, blockedDates };
+  }
+
+  /**
+   * Working intervals (breaks removed) of a calendar date in the recruiter's own timezone.
+   * Blocked dates have none.
+   */
+  getWorkingIntervals(settings: AvailabilitySettings, date: string): TimeInterval[] {
+    if (settings.blockedDates.some(blocked => blocked.date === date)) return [];
+
+    const [y, m, d] = date.split('-').map(Number);
+    const day = new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+
+    let ranges = settings.workingHours
+      .filter(hours => hours.day === day)
+      .map(hours => [toMinutes(hours.start), toMinutes(hours.end)]);
+
+    for (const b of settings.breaks) {
+      if (b.day !== undefined && b.day !== null && b.day !== day) continue;
+      const [breakStart, breakEnd] = [toMinutes(b.start), toMinutes(b.end)];
+
+      ranges = ranges.flatMap(([start, end]) => {
+        if (breakEnd <= start || breakStart >= end) return [[start, end]];
+        return [[start, breakStart], [breakEnd, end]].filter(([s, e]) => e > s);
+      });
+    }
+
+    return ranges
+      .sort((a, b) => a[0] - b[0])
+      .map(([start, end]) => ({
+        start: this.zonedTimeToUtc(date, start, settings.timezone),
+        end: this.zonedTimeToUtc(date, end, settings.timezone)
+      }));
+  }
+
+  /**
+   * Working intervals of a recruiter that fall within a window, whatever their timezone
+   */
+  getWorkingIntervalsBetween(settings: AvailabilitySettings, window: TimeInterval): TimeInterval[] {
+    const firstDate = addDays(this.toZonedDate(window.start, settings.timezone), -1);
+    const lastDate = addDays(this.toZonedDate(window.end, settings.timezone), 1);
+
+    const intervals: TimeInterval[] = [];
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      for (const interval of this.getWorkingIntervals(settings, date)) {
+        if (!overlaps(interval, window)) continue;
+        intervals.push({
+          start: new Date(Math.max(interval.start.getTime(), window.start.getTime())),
+          end: new Date(Math.min(interval.end.getTime(), window.end.getTime()))
+        });
+      }
+    }
+    return intervals;
+  }
+
+  /**
+   * Times covered by both interval lists
+   */
+  intersect(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+    const result: TimeInterval[] = [];
+    for (const x of a) {
+      for (const y of b) {
+        const start = Math.max(x.start.getTime(), y.start.getTime());
+        const end = Math.min(x.end.getTime(), y.end.getTime());
+        if (end > start) result.push({ start: new Date(start), end: new Date(end) });
+      }
+    }
+    return result.sort((p, q) => p.start.getTime() - q.start.getTime());
+  }
+
+  /**
+   * Active interviews overlapping a window that involve any of the panelists or the candidate.
+   * Interviews booked before panels existed belong to the job's recruiter.
+   */
+  async getBusyIntervals(
+    window: TimeInterval,
+    panelistIds: string[],
+    applicantId?: string,
+    excludeInterviewId?: string
+  ): Promise<BusyInterval[]> {
+    const interviews = await Interview.find({
+      ...(excludeInterviewId && { _id: { $ne: excludeInterviewId } }),
+      scheduledTime: {
+        $gte: new Date(window.start.getTime() - MAX_INTERVIEW_MS),
+        $lt: window.end
+      },
+      status: { $in: ACTIVE_INTERVIEW_STATUSES }
+    })
+      .populate({
+        path: 'applicationId',
+        select: 'applicantId jobId',
+        populate: { path: 'jobId', select: 'recruiterId' }
+      })
+      .sort({ scheduledTime: 1 });
+
+    const busy: BusyInterval[] = [];
+    for (const interview of interviews) {
+      const start = new Date(interview.scheduledTime);
+      const interval = { start, end: new Date(start.getTime() + interview.duration * 60000) };
+      if (!overlaps(interval, window)) continue;
+
+      const application = interview.applicationId as any;
+      const interviewerIds = interview.interviewerIds?.length
+        ? interview.interviewerIds.map(id => id.toString())
+        : [application?.jobId?.recruiterId?.toString()].filter(Boolean) as string[];
+      const bookedApplicantId = application?.applicantId?.toString();
+
+      const involvesPanel = interviewerIds.some(id => panelistIds.includes(id));
+      const involvesCandidate = !!applicantId && bookedApplicantId === applicantId.toString();
+      if (!involvesPanel && !involvesCandidate) continue;
+
+      busy.push({
+        ...interval,
+        interviewId: interview._id.toString(),
+        interviewerIds,
+        applicantId: bookedApplicantId
+      });
+    }
+    return busy;
+  }
+
+  /**
+   * Make sure every panelist is the organizer or a member of the organizer's organization
+   */
+  async assertPanelists(organizerId: string, panelistIds: string[]): Promise<string[]> {
+    const unique = [...new Set(panelistIds.map(id => id.toString()))];
+    if (unique.length === 0) {
+      throw new AppError('At least one interviewer is required', 400);
+    }
+    if (unique.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      throw new AppError('Invalid interviewer ID', 400);
+    }
+
+    const others = unique.filter(id => id !== organizerId.toString());
+    if (others.length > 0) {
+      const membership = await organizationService.getMembership(organizerId);
+      const memberIds = membership?.organization.members.map(m => m.userId.toString()) || [];
+      if (others.some(id => !memberIds.includes(id))) {
+        throw new AppError('Interviewers must be members of your organization', 403);
+      }
+    }
+
+    return unique;
+  }
+
+  /**
+   * Everything that prevents booking [start, end): panelists or the candidate already
+   * booked, or the slot falling outside a panelist's working hours
+   */
+  async findConflicts(query: ConflictQuery): Promise<SchedulingConflict[]> {
+    const { panelistIds, applicantId, start, end, excludeInterviewId } = query;
+    const window = { start, end };
+    const conflicts: SchedulingConflict[] = [];
+
+    const users = await User.find({ _id: { $in: panelistIds } }).select('fullName');
+    const nameOf = (id: string) => users.find(u => u._id.toString() === id)?.fullName || 'An interviewer';
+
+    for (const panelistId of panelistIds) {
+      const settings = await this.getAvailability(panelistId);
+      const working = this.getWorkingIntervalsBetween(settings, window);
+      const covered = working.some(interval => interval.start <= start && interval.end >= end);
+      if (!covered) {
+        conflicts.push({
+          type: 'outside_hours',
+          userId: panelistId,
+          message: `${nameOf(panelistId)} is not available at this time`
+        });
+      }
+    }
+
+    const busy = await this.getBusyIntervals(window, panelistIds, applicantId, excludeInterviewId);
+    for (const booking of busy) {
+      for (const panelistId of booking.interviewerIds.filter(id => panelistIds.includes(id))) {
+        conflicts.push({
+          type: 'interviewer',
+          userId: panelistId,
+          interviewId: booking.interviewId,
+          start: booking.start,
+          end: booking.end,
+          message: `${nameOf(panelistId)} already has an interview at this time`
+        });
+      }
+      if (applicantId && booking.applicantId === applicantId.toString()) {
+        conflicts.push({
+          type: 'candidate',
+          interviewId: booking.interviewId,
+          start: booking.start,
+          end: booking.end,
+          message: 'The candidate already has an interview at this time'
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Throw a 409 describing every conflict for the requested slot
+   */
+  async assertNoConflicts(query: ConflictQuery): Promise<void> {
+    const conflicts = await this.findConflicts(query);
+    if (conflicts.length > 0) {
+      const messages = [...new Set(conflicts.map(c => c.message))];
+      throw new AppError(`Time slot conflict detected: ${messages.join('; ')}. Please choose a different time.`, 409);
+    }
+  }
+
+  /**
+   * Slots on a date (in the organizer's timezone) when every panelist is working and free,
+   * and the candidate has no other interview
+   */
+  async findAvailableSlots(query: SlotQuery) {
+    const { organizerId, date, duration, panelistIds, applicantId, excludeInterviewId } = query;
+    const organizer = await this.getAvailability(organizerId);
+    const { timezone, slotInterval } = organizer;
+
+    const day = {
+      start: this.zonedTimeToUtc(date, 0, timezone),
+      end: this.zonedTimeToUtc(addDays(date, 1), 0, timezone)
+    };
+
+    // Times when the whole panel is working
+    let free: TimeInterval[] = [day];
+    for (const panelistId of panelistIds) {
+      const settings = panelistId === organizerId.toString() ? organizer : await this.getAvailability(panelistId);
+      free = this.intersect(free, this.getWorkingIntervalsBetween(settings, day));
+    }
+
+    const busy = await this.getBusyIntervals(day, panelistIds, applicantId, excludeInterviewId);
+    const durationMs = duration * 60000;
+    const formatTime = (date: Date) => date.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true,
+      timeZone: timezone
+    });
+
+    const availableSlots = [];
+    for (let offset = 0; offset < DAY_MS; offset += slotInterval * 60000) {
+      const slotStart = new Date(day.start.getTime() + offset);
+      const slot = { start: slotStart, end: new Date(slotStart.getTime() + durationMs) };
+      if (slot.start >= day.end) break;
+
+      const fits = free.some(interval => interval.start <= slot.start && interval.end >= slot.end);
+      if (!fits || busy.some(booking => overlaps(booking, slot))) continue;
+
+      availableSlots.push({
+        startTime: slot.start.toISOString(),
+        endTime: slot.end.toISOString(),
+        displayTime: `${formatTime(slot.start)} - ${formatTime(slot.end)}`
+      });
+    }
+
+    return {
+      date,
+      timezone,
+      slotInterval,
+      panelistIds,
+      blocked: organizer.blockedDates.some(blocked => blocked.date === date),
+      availableSlots,
+      bookedSlots: busy.map(booking => ({
+        startTime: booking.start,
+        duration: Math.round((booking.end.getTime() - booking.start.getTime()) / 60000),
+        endTime: booking.end,
+        type: applicantId && booking.applicantId === applicantId.toString()
+          && !booking.interviewerIds.some(id => panelistIds.includes(id))
+          ? 'candidate'
+          : 'interviewer'
+      }))
+    };
+  }
+}
+
+export const availabilityService = new AvailabilityService();
+export default availabilityService;
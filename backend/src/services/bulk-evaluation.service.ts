@@ -0,0 +1,170 @@
+import mongoose from 'mongoose';
+import { Application } from '../models/Application.model';
+import { ApplicantProfile } from '../models/ApplicantProfile.model';
+import { EvaluationBatch, IEvaluationBatch } from '../models/EvaluationBatch.model';
+import { Job, IJob } from '../models/Job.model';
+import { QueueTask, IQueueTask } from '../models/QueueTask.model';
+import Notification from '../models/Notification.model';
+import { IUser } from '../models/User.model';
+import { AppError } from '../middleware/errorHandler';
+import { autoEvaluationService, EVALUATION_QUEUE } from './auto-evaluation.service';
+import { taskQueue } from './task-queue.service';
+
+export interface EvaluationBatchProgress {
+  batchId: string;
+  jobId: string;
+  status: IEvaluationBatch['status'];
+  total: number;
+  queued: number;
+  running: number;
+  evaluated: number;
+  failed: number;
+  failures: { applicationId: string; applicantName: string; error: string; attempts: number }[];
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+class BulkEvaluationService {
+  /**
+   * Register the evaluation worker with the task queue
+   */
+  registerQueue(): void {
+    taskQueue.register(EVALUATION_QUEUE, payload => this.evaluateApplication(payload), {
+      concurrency: Number(process.env.EVALUATION_CONCURRENCY) || undefined,
+      onSettled: task => this.completeBatchIfDone(task)
+    });
+  }
+
+  /**
+   * Queue an evaluation of every application for the job. A batch still running for
+   * the job is returned instead of starting a second one.
+   */
+  async startBatch(job: IJob, requestedBy: string): Promise<IEvaluationBatch> {
+    const running = await EvaluationBatch.findOne({ jobId: job._id, status: 'running' });
+    if (running) return running;
+
+    const applications = await Application.find({ jobId: job._id })
+      .select('_id applicantId')
+      .populate('applicantId', 'fullName');
+    if (applications.length === 0) {
+      throw new AppError('This job has no applications to evaluate', 400);
+    }
+
+    const batch = await EvaluationBatch.create({
+      jobId: job._id,
+      requestedBy,
+      total: applications.length
+    });
+
+    await taskQueue.enqueue(
+      EVALUATION_QUEUE,
+      applications.map(application => ({
+        applicationId: application._id.toString(),
+        applicantName: (application.applicantId as any)?.fullName || 'Unknown',
+        requestedBy
+      })),
+      { groupId: batch._id as mongoose.Types.ObjectId }
+    );
+
+    return batch;
+  }
+
+  /**
+   * Evaluate one application with rule-based scoring (queue task handler). Also runs
+   * the automatic re-scores, which pass their own trigger.
+   */
+  async evaluateApplication(payload: Record<string, any>): Promise<Record<string, unknown>> {
+    const application = await Application.findById(payload.applicationId).populate('applicantId');
+    if (!application) {
+      throw new Error('Application no longer exists');
+    }
+
+    const job = await Job.findById(application.jobId);
+    if (!job) {
+      throw new Error('Job no longer exists');
+    }
+
+    const applicantUser = application.applicantId as unknown as IUser;
+    const applicantProfile = applicantUser
+      ? await ApplicantProfile.findOne({ userId: applicantUser._id })
+      : null;
+    // New applications are scored even without a profile, like the inline evaluation does
+    if (!applicantProfile && payload.trigger !== 'application_submitted') {
+      throw new Error('Applicant has no profile to evaluate');
+    }
+
+    await autoEvaluationService.scoreApplication(
+      application,
+      job,
+      applicantUser,
+      applicantProfile || new ApplicantProfile({ userId: applicantUser?._id }),
+      payload.trigger || 'bulk',
+      payload.requestedBy
+    );
+
+    return { overallScore: application.aiInsights?.overallScore, evaluationVersion: application.evaluationVersion };
+  }
+
+  async getProgress(batch: IEvaluationBatch): Promise<EvaluationBatchProgress> {
+    const tasks = await QueueTask.find({ groupId: batch._id })
+      .select('status payload lastError attempts');
+
+    const count = (status: IQueueTask['status']) => tasks.filter(task => task.status === status).length;
+
+    return {
+      batchId: batch._id.toString(),
+      jobId: batch.jobId.toString(),
+      status: batch.status,
+      total: batch.total,
+      queued: count('queued'),
+      running: count('running'),
+      evaluated: count('completed'),
+      failed: count('failed'),
+      failures: tasks
+        .filter(task => task.status === 'failed')
+        .map(task => ({
+          applicationId: task.payload.applicationId,
+          applicantName: task.payload.applicantName,
+          error: task.lastError || 'Unknown error',
+          attempts: task.attempts
+        })),
+      createdAt: batch.createdAt,
+      completedAt: batch.completedAt
+    };
+  }
+
+  /**
+   * Close the batch once its last task has settled and tell the recruiter
+   */
+  private async completeBatchIfDone(task: IQueueTask): Promise<void> {
+    if (!task.groupId) return;
+
+    const pending = await QueueTask.countDocuments({
+      groupId: task.groupId,
+      status: { $in: ['queued', 'running'] }
+    });
+    if (pending > 0) return;
+
+    const failed = await QueueTask.countDocuments({ groupId: task.groupId, status: 'failed' });
+
+    // Only one worker gets to close the batch
+    const batch = await EvaluationBatch.findOneAndUpdate(
+      { _id: task.groupId, status: 'running' },
+      { $set: { status: failed > 0 ? 'completed_with_errors' : 'completed', completedAt: new Date() } },
+      { new: true }
+    );
+    if (!batch) return;
+
+    const job = await Job.findById(batch.jobId).select('title');
+    await Notification.create({
+      userId: batch.requestedBy,
+      type: 'system',
+      title: failed > 0 ? '⚠️ Bulk evaluation finished with errors' : '✅ Bulk evaluation finished',
+      message: `${batch.total - failed} of ${batch.total} applications for ${job?.title || 'your job'} were evaluated${failed > 0 ? `, ${failed} failed` : ''}.`,
+      data: { jobId: batch.jobId }
+    });
+  }
+}
+
+export const bulkEvaluationService = new BulkEvaluationService();
+export default bulkEvaluationService;
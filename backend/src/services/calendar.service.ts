@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { Interview, IInterview } from '../models/Interview.model';
+import { Application } from '../models/Application.model';
+import { Job } from '../models/Job.model';
+import { User } from '../models/User.model';
+import { AppError } from '../middleware/errorHandler';
+
+export type CalendarMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export interface CalendarInvite {
+  method: CalendarMethod;
+  content: string;
+}
+
+interface CalendarAttendee {
+  name: string;
+  email: string;
+  role: 'REQ-PARTICIPANT' | 'CHAIR';
+}
+
+interface InterviewEvent {
+  interview: IInterview;
+  jobTitle: string;
+  companyName: string;
+  attendees: CalendarAttendee[];
+}
+
+const PRODUCT_ID = '-//HireSense//Interview Scheduling//EN';
+const UID_DOMAIN = 'hiresense';
+
+// How far back the subscription feed goes, so recently finished interviews stay visible
+const FEED_HISTORY_DAYS = 30;
+
+// Interview fields with calendar-visible changes bump the event SEQUENCE (RFC 5545 3.8.7.4)
+const SEQUENCED_FIELDS = ['scheduledTime', 'duration', 'meetingLink', 'type', 'status', 'interviewerIds'];
+
+class CalendarService {
+  /**
+   * Escape a TEXT property value (RFC 5545 3.3.11)
+   */
+  private escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold content lines longer than 75 octets (RFC 5545 3.1)
+   */
+  private foldLine(line: string): string {
+    const chunks: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const bytes = Buffer.byteLength(char);
+      const limit = chunks.length === 0 ? 75 : 74; // Continuation lines start with a space
+      if (currentBytes + bytes > limit) {
+        chunks.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    chunks.push(current);
+
+    return chunks.join('\r\n ');
+  }
+
+  private formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private quoteParam(value: string): string {
+    return `"${value.replace(/"/g, "'")}"`;
+  }
+
+  getEventUid(interviewId: string): string {
+    return `interview-${interviewId}@${UID_DOMAIN}`;
+  }
+
+  /**
+   * Whether an interview update changes what calendar clients show
+   */
+  isSequencedChange(interview: IInterview): boolean {
+    return SEQUENCED_FIELDS.some(field => interview.isModified(field));
+  }
+
+  private buildEvent(event: InterviewEvent, method: CalendarMethod): string[] {
+    const { interview, jobTitle, companyName, attendees } = event;
+    const start = new Date(interview.scheduledTime);
+    const end = new Date(start.getTime() + interview.duration * 60000);
+    const cancelled = method === 'CANCEL' || interview.status === 'cancelled';
+    const organizer = process.env.EMAIL_USER;
+
+    const description = [
+      `${interview.type} interview for ${jobTitle} at ${companyName}.`,
+      interview.meetingLink ? `Join: ${interview.meetingLink}` : '',
+      interview.notes ? `Notes: ${interview.notes}` : ''
+    ].filter(Boolean).join('\n');
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${this.getEventUid(interview._id.toString())}`,
+      `SEQUENCE:${interview.calendarSequence || 0}`,
+      `DTSTAMP:${this.formatDateTime(new Date())}`,
+      `DTSTART:${this.formatDateTime(start)}`,
+      `DTEND:${this.formatDateTime(end)}`,
+      `SUMMARY:${this.escapeText(`${interview.type} Interview - ${jobTitle} (${companyName})`)}`,
+      `DESCRIPTION:${this.escapeText(description)}`,
+      `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'TRANSP:OPAQUE'
+    ];
+
+    if (interview.meetingLink && /^https?:\/\//i.test(interview.meetingLink)) {
+      lines.push(`LOCATION:${this.escapeText(interview.meetingLink)}`);
+      lines.push(`URL:${interview.meetingLink}`);
+    }
+    if (organizer) {
+      lines.push(`ORGANIZER;CN=${this.quoteParam(companyName)}:mailto:${organizer}`);
+    }
+    for (const attendee of attendees) {
+      lines.push(
+        `ATTENDEE;CN=${this.quoteParam(attendee.name)};ROLE=${attendee.role};PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:${attendee.email}`
+      );
+    }
+    lines.push('END:VEVENT');
+
+    return lines;
+  }
+
+  private buildCalendar(events: InterviewEvent[], method: CalendarMethod, name?: string): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      `METHOD:${method}`,
+      ...(name ? [`X-WR-CALNAME:${this.escapeText(name)}`] : []),
+      ...events.flatMap(event => this.buildEvent(event, method)),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Load the job, candidate and panel details an interview's VEVENT needs
+   */
+  private async loadEvent(interview: IInterview): Promise<InterviewEvent | null> {
+    const application = await Application.findById(interview.applicationId)
+      .populate('applicantId', 'fullName email')
+      .populate('jobId', 'title company recruiterId');
+    if (!application) return null;
+
+    const applicant = application.applicantId as any;
+    const job = application.jobId as any;
+    const interviewerIds = interview.interviewerIds?.length ? interview.interviewerIds : [job?.recruiterId].filter(Boolean);
+    const interviewers = await User.find({ _id: { $in: interviewerIds } }).select('fullName email');
+
+    return {
+      interview,
+      jobTitle: job?.title || 'Interview',
+      companyName: job?.company || 'HireSense',
+      attendees: [
+        ...(applicant?.email ? [{ name: applicant.fullName, email: applicant.email, role: 'REQ-PARTICIPANT' as const }] : []),
+        ...interviewers.map(user => ({ name: user.fullName, email: user.email, role: 'CHAIR' as const }))
+      ]
+    };
+  }
+
+  /**
+   * iTIP invite for a single interview: REQUEST for new or rescheduled interviews,
+   * CANCEL when it has been called off
+   */
+  async buildInterviewInvite(interviewId: string, method: 'REQUEST' | 'CANCEL'): Promise<CalendarInvite | undefined> {
+    try {
+      const interview = await Interview.findById(interviewId);
+      if (!interview) return undefined;
+
+      const event = await this.loadEvent(interview);
+      if (!event) return undefined;
+
+      return { method, content: this.buildCalendar([event], method) };
+    } catch (error) {
+      console.error('Failed to build calendar invite:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get (or create) the secret token that identifies a user's calendar feed
+   */
+  async getFeedToken(userId: string, rotate: boolean = false): Promise<string> {
+    const user = await User.findById(userId).select('+calendarFeedToken');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.calendarFeedToken && !rotate) {
+      return user.calendarFeedToken;
+    }
+
+    const token = crypto.randomBytes(24).toString('hex');
+    await User.updateOne({ _id: user._id }, { calendarFeedToken: token });
+    return token;
+  }
+
+  /**
+   * Subscribable calendar of a user's interviews: the interviews they sit on as a
+   * recruiter, or their own interviews as a candidate. Cancelled interviews stay in
+   * the feed as CANCELLED so subscribed clients remove them.
+   */
+  async buildFeed(token: string): Promise<string | null> {
+    if (!token) return null;
+
+    const user = await User.findOne({ calendarFeedToken: token });
+    if (!user) return null;
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const filter: any = { scheduledTime: { $gte: since } };
+
+    if (user.role === 'applicant') {
+      const applications = await Application.find({ applicantId: user._id }).select('_id');
+      filter.applicationId = { $in: applications.map(app => app._id) };
+    } else {
+      // Interviews booked before panels existed belong to the job's recruiter
+      const jobs = await Job.find({ recruiterId: user._id }).select('_id');
+      const applications = await Application.find({ jobId: { $in: jobs.map(job => job._id) } }).select('_id');
+      filter.$or = [
+        { interviewerIds: user._id },
+        { 'interviewerIds.0': { $exists: false }, applicationId: { $in: applications.map(app => app._id) } }
+      ];
+    }
+
+    const interviews = await Interview.find(filter).sort({ scheduledTime: 1 });
+    const events: InterviewEvent[] = [];
+    for (const interview of interviews) {
+      const event = await this.loadEvent(interview);
+      if (event) events.push(event);
+    }
+
+    return this.buildCalendar(events, 'PUBLISH', `HireSense Interviews - ${user.fullName}`);
+  }
+}
+
+export const calendarService = new CalendarService();
+export default calendarService;
@@ -242,6 +242,26 @@ export class DropOffDetectionService {
     return interview;
   }
   
+  /**
+   * Mark a self-scheduled interview as confirmed - the candidate picked the slot themselves
+   */
+  static async recordSelfScheduled(interviewId: string): Promise<IInterview | null> {
+    const now = new Date();
+    const interview = await Interview.findByIdAndUpdate(
+      interviewId,
+      {
+        candidateConfirmed: true,
+        candidateConfirmedAt: now,
+        candidateLastActionAt: now,
+        dropOffRisk: 'low',
+        dropOffReasons: ['✅ Candidate picked this time slot themselves']
+      },
+      { new: true }
+    );
+
+    return interview;
+  }
+  
   /**
    * Record that a reminder was sent
    */
@@ -1,6 +1,7 @@
 import dotenv from 'dotenv';
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
+import type { CalendarInvite } from './calendar.service';
 
 // Ensure environment variables are loaded before reading EMAIL_* values
 dotenv.config();
@@ -45,6 +46,7 @@ interface InterviewScheduledData {
   meetingLink?: string;
   notes?: string;
   interviewId?: string;
+  calendarInvite?: CalendarInvite; // .ics event attached for calendar clients
 }
 
 interface InterviewUpdatedData {
@@ -58,6 +60,40 @@ interface InterviewUpdatedData {
   type: string;
   meetingLink?: string;
   action: 'rescheduled' | 'cancelled';
+  calendarInvite?: CalendarInvite; // REQUEST with the new time, or CANCEL
+}
+
+interface OfferSentData {
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  companyName: string;
+  salary: number;
+  currency: string;
+  startDate: string;
+  expiresAt: string;
+  notes?: string;
+}
+
+interface OfferResponseData {
+  recruiterName: string;
+  recruiterEmail: string;
+  applicantName: string;
+  jobTitle: string;
+  response: 'accepted' | 'declined';
+  declineReason?: string;
+  jobClosed?: boolean;
+}
+
+interface SchedulingLinkData {
+  applicantName: string;
+  applicantEmail: string;
+  jobTitle: string;
+  companyName: string;
+  duration: number;
+  type: string;
+  token: string;
+  expiresAt: string;
 }
 
 // 🔐 RECRUITER VERIFICATION DATA
@@ -110,7 +146,7 @@ class EmailService {
     }
   }
 
-  private async sendEmail(to: string, subject: string, html: string): Promise<boolean> {
+  private async sendEmail(to: string, subject: string, html: string, calendarInvite?: CalendarInvite): Promise<boolean> {
     if (!this.isEnabled || !this.transporter) {
       console.warn('Email not sent - service disabled');
       return false;
@@ -122,6 +158,13 @@ class EmailService {
         to,
         subject,
         html,
+        ...(calendarInvite && {
+          icalEvent: {
+            method: calendarInvite.method,
+            filename: calendarInvite.method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+            content: calendarInvite.content,
+          },
+        }),
       });
 
       console.log(`📧 Email sent to ${to}: ${subject}`);
@@ -269,7 +312,7 @@ class EmailService {
 
   // Template: Interview Scheduled
   async sendInterviewScheduled(data: InterviewScheduledData): Promise<boolean> {
-    const { applicantName, applicantEmail, jobTitle, companyName, interviewDate, interviewTime, duration, type, meetingLink, notes, interviewId } = data;
+    const { applicantName, applicantEmail, jobTitle, companyName, interviewDate, interviewTime, duration, type, meetingLink, notes, interviewId, calendarInvite } = data;
 
     const subject = `Interview Scheduled - ${jobTitle} at ${companyName}`;
     const html = `
@@ -371,12 +414,12 @@ class EmailService {
       </html>
     `;
 
-    return this.sendEmail(applicantEmail, subject, html);
+    return this.sendEmail(applicantEmail, subject, html, calendarInvite);
   }
 
   // Template: Interview Updated (Rescheduled/Cancelled)
   async sendInterviewUpdated(data: InterviewUpdatedData): Promise<boolean> {
-    const { applicantName, applicantEmail, jobTitle, companyName, interviewDate, interviewTime, duration, type, meetingLink, action } = data;
+    const { applicantName, applicantEmail, jobTitle, companyName, interviewDate, interviewTime, duration, type, meetingLink, action, calendarInvite } = data;
 
     const subject = action === 'cancelled' 
       ? `Interview Cancelled - ${jobTitle}` 
@@ -461,7 +504,7 @@ class EmailService {
       </html>
     `;
 
-    return this.sendEmail(applicantEmail, subject, html);
+    return this.sendEmail(applicantEmail, subject, html, calendarInvite);
   }
 
   // Template: Polite Rejection Email (for bulk rejection)
@@ -638,7 +681,7 @@ class EmailService {
   async sendInterviewReminder(data: InterviewScheduledData): Promise<boolean> {
     const { applicantName, applicantEmail, jobTitle, companyName, interviewDate, interviewTime, duration, type, meetingLink, interviewId } = data;
 
-    const subject = `⏰ Reminder: Your Interview Tomorrow - ${jobTitle}`;
+    const subject = `⏰ Reminder: Your Upcoming Interview - ${jobTitle}`;
     const html = `
       <!DOCTYPE html>
       <html>
@@ -901,6 +944,207 @@ class EmailService {
     return this.sendEmail(recruiterEmail, subject, html);
   }
 
+  // Template: Offer Sent (to applicant)
+  async sendOfferSent(data: OfferSentData): Promise<boolean> {
+    const { applicantName, applicantEmail, jobTitle, companyName, salary, currency, startDate, expiresAt, notes } = data;
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+
+    const subject = `Job Offer - ${jobTitle} at ${companyName}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #22c55e 0%, #16a34a 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .offer-details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .detail-row { display: flex; padding: 10px 0; border-bottom: 1px solid #eee; }
+          .detail-label { font-weight: bold; width: 140px; color: #666; }
+          .note-box { background: white; border-left: 4px solid #22c55e; padding: 15px; margin: 20px 0; border-radius: 5px; }
+          .button { display: inline-block; background: #22c55e; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🎉 You've Received an Offer!</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${applicantName},</p>
+
+            <p>We're delighted to offer you the <strong>${jobTitle}</strong> position at <strong>${companyName}</strong>.</p>
+
+            <div class="offer-details">
+              <div class="detail-row">
+                <span class="detail-label">💰 Salary:</span>
+                <span>${salary.toLocaleString('en-US')} ${currency}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">📅 Start Date:</span>
+                <span>${startDate}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">⏳ Respond By:</span>
+                <span>${expiresAt}</span>
+              </div>
+            </div>
+
+            ${notes ? `
+              <div class="note-box">
+                <strong>Message from the hiring team:</strong>
+                <p>${notes}</p>
+              </div>
+            ` : ''}
+
+            <p>Please accept or decline the offer from your HireSense dashboard before it expires.</p>
+
+            <center>
+              <a href="${frontendUrl}/applicant/my-applications" class="button">View Offer</a>
+            </center>
+
+            <p>Best regards,<br>The ${companyName} Hiring Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from HireSense AI.</p>
+            <p>Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail(applicantEmail, subject, html);
+  }
+
+  // Template: Offer Accepted / Declined (to recruiter)
+  async sendOfferResponse(data: OfferResponseData): Promise<boolean> {
+    const { recruiterName, recruiterEmail, applicantName, jobTitle, response, declineReason, jobClosed } = data;
+    const accepted = response === 'accepted';
+    const color = accepted ? '#22c55e' : '#ef4444';
+
+    const subject = `Offer ${accepted ? 'Accepted' : 'Declined'} - ${applicantName} (${jobTitle})`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${color}; color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .note-box { background: white; border-left: 4px solid ${color}; padding: 15px; margin: 20px 0; border-radius: 5px; }
+          .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${accepted ? '✅ Offer Accepted' : '📝 Offer Declined'}</h1>
+          </div>
+          <div class="content">
+            <p>Hi ${recruiterName},</p>
+
+            <p><strong>${applicantName}</strong> has ${response} your offer for the <strong>${jobTitle}</strong> position.</p>
+
+            ${accepted ? `
+              <p>The application has been moved to <strong>Hired</strong>.</p>
+            ` : ''}
+
+            ${jobClosed ? `
+              <p>All openings for this job are now filled, so the job posting has been closed.</p>
+            ` : ''}
+
+            ${declineReason ? `
+              <div class="note-box">
+                <strong>Reason given by the candidate:</strong>
+                <p>${declineReason}</p>
+              </div>
+            ` : ''}
+
+            <p>Best regards,<br>The HireSense AI Team</p>
+          </div>
+          <div class="footer">
+            <p>HireSense AI - Intelligent Hiring Platform</p>
+            <p>This email was sent to ${recruiterEmail}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail(recruiterEmail, subject, html);
+  }
+
+  // Template: Self-scheduling link (candidate picks their own interview slot)
+  async sendSchedulingLink(data: SchedulingLinkData): Promise<boolean> {
+    const { applicantName, applicantEmail, jobTitle, companyName, duration, type, token, expiresAt } = data;
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
+
+    const subject = `Pick Your Interview Time - ${jobTitle} at ${companyName}`;
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+          .details { background: white; padding: 20px; border-radius: 8px; margin: 20px 0; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
+          .detail-row { display: flex; padding: 10px 0; border-bottom: 1px solid #eee; }
+          .detail-label { font-weight: bold; width: 140px; color: #666; }
+          .button { display: inline-block; background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📅 Choose Your Interview Time</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${applicantName},</p>
+
+            <p>The hiring team for <strong>${jobTitle}</strong> at <strong>${companyName}</strong> would like to interview you. Pick the time that suits you best from the available slots.</p>
+
+            <div class="details">
+              <div class="detail-row">
+                <span class="detail-label">🎯 Type:</span>
+                <span>${type} Interview</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">⏱️ Duration:</span>
+                <span>${duration} minutes</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">⏳ Book By:</span>
+                <span>${expiresAt}</span>
+              </div>
+            </div>
+
+            <center>
+              <a href="${frontendUrl}/schedule/${token}" class="button">Pick a Time</a>
+            </center>
+
+            <p>Your interview is confirmed as soon as you pick a slot, and you'll receive a calendar invite.</p>
+
+            <p>Best regards,<br>The ${companyName} Hiring Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message from HireSense AI.</p>
+            <p>Please do not reply to this email.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    return this.sendEmail(applicantEmail, subject, html);
+  }
+
   // Helper: Format date for emails
   formatDate(date: Date): string {
     return date.toLocaleDateString('en-US', {
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Application, IApplication } from '../models/Application.model';
+import {
+  ApplicationEvaluation,
+  IApplicationEvaluation,
+  EvaluationTrigger,
+  SCORING_ENGINE_VERSION
+} from '../models/ApplicationEvaluation.model';
+import { IApplicantProfile } from '../models/ApplicantProfile.model';
+import type { IJob } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+
+const BREAKDOWN_LABELS: Record<string, string> = {
+  skillMatch: 'Skill Match',
+  githubActivity: 'GitHub Activity',
+  leetcodePerformance: 'LeetCode',
+  experience: 'Experience',
+  projectRelevance: 'Projects',
+  educationStrength: 'Education',
+  profileCompleteness: 'Profile Completeness',
+  aiReadiness: 'AI Interview Readiness'
+};
+
+export interface RecordEvaluationOptions {
+  trigger: EvaluationTrigger;
+  job: Pick<IJob, 'title' | 'description' | 'requiredSkills' | 'niceToHaveSkills' | 'skillRequirements' | 'experienceLevel' | 'jobCategory'>;
+  profile?: IApplicantProfile | null;
+  evaluatedBy?: string;
+}
+
+export interface EvaluationDiff {
+  from: { version: number; trigger: EvaluationTrigger; engineVersion: string; promptVersion?: string; createdAt: Date };
+  to: { version: number; trigger: EvaluationTrigger; engineVersion: string; promptVersion?: string; createdAt: Date };
+  overallScore: { from: number; to: number; delta: number };
+  recommendation: { from: string; to: string; changed: boolean };
+  signals: { key: string; label: string; from: number; to: number; delta: number }[];
+  weights: { key: string; from: number; to: number }[];
+  strengths: { added: string[]; removed: string[] };
+  gaps: { added: string[]; removed: string[] };
+  inputsChanged: boolean;
+  engineChanged: boolean;
+  promptChanged: boolean;
+}
+
+class EvaluationHistoryService {
+  /**
+   * Store the evaluation now held in application.aiInsights as the application's next
+   * version and write it onto the application. Call after setting aiInsights; the
+   * application does not need saving for it afterwards.
+   */
+  async record(application: IApplication, options: RecordEvaluationOptions): Promise<IApplicationEvaluation> {
+    if (!application.aiInsights) {
+      throw new AppError('Application has no evaluation to record', 400);
+    }
+
+    // Take the next version and store the insights in one update, so with concurrent
+    // evaluations the highest version is always the one the application holds
+    const counter = await Application.findByIdAndUpdate(
+      application._id,
+      {
+        $inc: { evaluationVersion: 1 },
+        $set: { aiInsights: application.toObject().aiInsights }
+      },
+      { new: true, runValidators: true, select: 'evaluationVersion' }
+    );
+    if (!counter) {
+      throw new AppError('Application not found', 404);
+    }
+
+    // Already written - a later save() of this document must not write them again
+    application.evaluationVersion = counter.evaluationVersion;
+    for (const path of application.modifiedPaths()) {
+      if (path === 'evaluationVersion' || path === 'aiInsights' || path.startsWith('aiInsights.')) {
+        application.unmarkModified(path);
+      }
+    }
+
+    const insights = JSON.parse(JSON.stringify(application.aiInsights));
+    return ApplicationEvaluation.create({
+      applicationId: application._id,
+      jobId: (application.jobId as any)?._id || application.jobId,
+      applicantId: (application.applicantId as any)?._id || application.applicantId,
+      version: counter.evaluationVersion,
+      trigger: options.trigger,
+      engineVersion: SCORING_ENGINE_VERSION,
+      mode: typeof application.aiInsights.aiScore === 'number' ? 'ai_blended' : 'rule_based',
+      inputsHash: this.hashInputs(options.job, options.profile, insights.weightProfile?.weights, application.coverLetter),
+      promptVersion: application.aiInsights.promptVersion,
+      insights,
+      evaluatedBy: options.evaluatedBy
+    });
+  }
+
+  /**
+   * Fingerprint of everything an evaluation was computed from. Two versions with the
+   * same hash differ only because of the engine or the AI model.
+   */
+  hashInputs(
+    job: RecordEvaluationOptions['job'],
+    profile?: IApplicantProfile | null,
+    weights?: Record<string, number>,
+    coverLetter?: string
+  ): string {
+    const inputs = {
+      job: {
+        title: job.title,
+        description: job.description,
+        requiredSkills: job.requiredSkills || [],
+        niceToHaveSkills: job.niceToHaveSkills || [],
+        skillRequirements: job.skillRequirements || [],
+        experienceLevel: job.experienceLevel,
+        jobCategory: job.jobCategory
+      },
+      weights: weights || null,
+      profile: profile ? {
+        skills: profile.skills,
+        skillProficiencies: profile.skillProficiencies || [],
+        experience: profile.experience,
+        education: profile.education,
+        projects: profile.projects,
+        certifications: profile.certifications,
+        yearsOfExperience: profile.yearsOfExperience,
+        resumeText: profile.resumeText,
+        githubScore: profile.githubAnalysis?.score,
+        leetcodeScore: profile.leetcodeStats?.score
+      } : null,
+      coverLetter: coverLetter || ''
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+  }
+
+  /**
+   * All versions of an application's evaluation, newest first (without the snapshots)
+   */
+  async list(applicationId: string | mongoose.Types.ObjectId) {
+    return ApplicationEvaluation.find({ applicationId })
+      .select('-insights')
+      .populate('evaluatedBy', 'fullName')
+      .sort({ version: -1 });
+  }
+
+  async getVersion(applicationId: string | mongoose.Types.ObjectId, version: number): Promise<IApplicationEvaluation> {
+    const record = await ApplicationEvaluation.findOne({ applicationId, version });
+    if (!record) {
+      throw new AppError(`Evaluation version ${version} not found`, 404);
+    }
+    return record;
+  }
+
+  /**
+   * What changed between two evaluations of the same application
+   */
+  diff(from: IApplicationEvaluation, to: IApplicationEvaluation): EvaluationDiff {
+    const before = from.insights || {};
+    const after = to.insights || {};
+    const beforeBreakdown = before.scoringBreakdown || {};
+    const afterBreakdown = after.scoringBreakdown || {};
+    const beforeWeights: Record<string, number> = before.weightProfile?.weights || {};
+    const afterWeights: Record<string, number> = after.weightProfile?.weights || {};
+
+    const listChanges = (previous: string[] = [], next: string[] = []) => ({
+      added: next.filter(item => !previous.includes(item)),
+      removed: previous.filter(item => !next.includes(item))
+    });
+
+    return {
+      from: this.describe(from),
+      to: this.describe(to),
+      overallScore: {
+        from: before.overallScore || 0,
+        to: after.overallScore || 0,
+        delta: (after.overallScore || 0) - (before.overallScore || 0)
+      },
+      recommendation: {
+        from: before.recommendation,
+        to: after.recommendation,
+        changed: before.recommendation !== after.recommendation
+      },
+      signals: Object.entries(BREAKDOWN_LABELS).map(([key, label]) => ({
+        key,
+        label,
+        from: beforeBreakdown[key] || 0,
+        to: afterBreakdown[key] || 0,
+        delta: (afterBreakdown[key] || 0) - (beforeBreakdown[key] || 0)
+      })),
+      weights: [...new Set([...Object.keys(beforeWeights), ...Object.keys(afterWeights)])]
+        .filter(key => beforeWeights[key] !== afterWeights[key])
+        .map(key => ({ key, from: beforeWeights[key] || 0, to: afterWeights[key] || 0 })),
+      strengths: listChanges(before.strengths, after.strengths),
+      gaps: listChanges(before.gaps, after.gaps),
+      inputsChanged: from.inputsHash !== to.inputsHash,
+      engineChanged: from.engineVersion !== to.engineVersion,
+      promptChanged: from.promptVersion !== to.promptVersion
+    };
+  }
+
+  private describe(record: IApplicationEvaluation) {
+    return {
+      version: record.version,
+      trigger: record.trigger,
+      engineVersion: record.engineVersion,
+      promptVersion: record.promptVersion,
+      createdAt: record.createdAt
+    };
+  }
+}
+
+export const evaluationHistoryService = new EvaluationHistoryService();
+export default evaluationHistoryService;
@@ -1,10 +1,13 @@
 import { Types } from 'mongoose';
-import { scoringService, ScoringResult } from './scoring.service';
-import { IApplicantProfile } from '../models/ApplicantProfile.model';
+import { scoringService, ScoringResult, WeightProfile, SignalContribution, AI_SCORE_BLEND, RiskFactor } from './scoring.service';
+import { IApplicantProfile, IContentFlag } from '../models/ApplicantProfile.model';
 import { IJob } from '../models/Job.model';
-import { geminiClient } from '../utils/gemini-client';
+import { IUser } from '../models/User.model';
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
+import { contentGuardService } from './content-guard.service';
 
-// Note: genAI instance is now created dynamically via geminiClient
+// Note: AI calls go through llmService, which picks the provider for candidate evaluation
 
 export interface CandidateData {
   applicantName: string;
@@ -42,6 +45,7 @@ export interface CandidateData {
   leetcodeScore?: number;
   resumeText?: string;
   coverLetter?: string;
+  contentFlags?: IContentFlag[]; // Manipulation found in the parsed resume
 }
 const buildSyntheticProfile = (candidate: CandidateData): IApplicantProfile => {
   const now = new Date();
@@ -50,6 +54,7 @@ const buildSyntheticProfile = (candidate: CandidateData): IApplicantProfile => {
     resumeUrl: '',
     resumeFileName: '',
     resumeText: candidate.resumeText || candidate.coverLetter || '',
+    resumeFlags: candidate.contentFlags || [],
     skills: candidate.skills || [],
     preferredRoles: [],
     experience: candidate.experience || [],
@@ -89,6 +94,7 @@ const buildSyntheticJob = (job: JobData): IJob => {
     description: job.description,
     department: job.department || 'General',
     requiredSkills: job.requiredSkills || [],
+    niceToHaveSkills: job.niceToHaveSkills || [],
     experienceLevel: (job.experienceLevel as IJob['experienceLevel']) || 'mid',
     jobCategory: (job.jobCategory as IJob['jobCategory']) || 'software',
     location: job.location || 'Remote',
@@ -149,6 +155,8 @@ export function buildEvaluationFromScoring(
       ...scoring.scoringBreakdown,
       aiReadiness: scoring.scoringBreakdown.aiReadiness,
     },
+    weightProfile: scoring.weightProfile,
+    contributions: scoring.contributions,
   };
 }
 
@@ -156,7 +164,8 @@ export interface JobData {
   title: string;
   description: string;
   department: string;
-  requiredSkills: string[];
+  requiredSkills: string[]; // Must-have skills
+  niceToHaveSkills?: string[];
   experienceLevel: string;
   jobCategory?: string; // software, data-science, qa-automation, non-technical, business
   location: string;
@@ -188,7 +197,7 @@ export interface AIEvaluationResult {
   riskFactors: Array<{
     type: 'warning' | 'concern' | 'blocker';
     message: string;
-    category: 'skills' | 'experience' | 'activity' | 'profile';
+    category: 'skills' | 'experience' | 'activity' | 'profile' | 'integrity';
   }>;
   scoringBreakdown: {
     skillMatch: number;
@@ -200,13 +209,75 @@ export interface AIEvaluationResult {
     projectRelevance: number;
     aiReadiness: number;
   };
+  // Score provenance
+  aiScore?: number; // The AI provider's own score, when it was blended into overallScore
+  weightProfile?: WeightProfile; // Weights behind the rule-based part of the score
+  contributions?: SignalContribution[]; // Per-signal explanation of the rule-based part
+  promptVersion?: string; // Prompt the AI part came from (unset for rule-based evaluations)
 }
 
+// Candidate data as the evaluators expect it
+export const buildCandidatePayload = (
+  user: IUser,
+  applicant?: IApplicantProfile | null,
+  coverLetter?: string
+): CandidateData => ({
+  applicantName: user?.fullName || 'Unknown',
+  applicantEmail: user?.email || '',
+  skills: applicant?.skills ?? [],
+  experience: applicant?.experience ?? [],
+  education: applicant?.education ?? [],
+  projects: applicant?.projects ?? [],
+  certifications: applicant?.certifications ?? [],
+  yearsOfExperience: applicant?.yearsOfExperience ?? 0,
+  githubUsername: applicant?.githubUsername,
+  githubScore: applicant?.githubAnalysis?.score,
+  githubTopLanguages: applicant?.githubAnalysis?.topLanguages,
+  leetcodeStats: applicant?.leetcodeStats,
+  leetcodeScore: applicant?.leetcodeStats?.score,
+  resumeText: applicant?.resumeText,
+  coverLetter,
+  contentFlags: applicant?.resumeFlags,
+});
+
+export const buildJobPayload = (job: IJob): JobData => ({
+  title: job.title,
+  description: job.description,
+  department: job.department || 'General',
+  requiredSkills: job.requiredSkills || [],
+  niceToHaveSkills: job.niceToHaveSkills || [],
+  experienceLevel: job.experienceLevel || 'mid',
+  jobCategory: job.jobCategory || 'software',
+  location: job.location || 'Remote',
+  employmentType: job.employmentType || 'Full-time',
+});
+
+// An AI sub-score kept near the rule-based score (undefined when the AI gave none)
+const limitAiSubScore = (value: unknown, referenceScore: number, flagged: boolean): number | undefined => {
+  const score = Number(value);
+  if (!score) return undefined;
+  return contentGuardService.limitScore(Math.min(100, Math.max(0, score)), referenceScore, flagged).score;
+};
+
+// Risk noting that the AI's score was pulled back towards the rule-based one
+const buildLimitedScoreRisk = (aiScore: number, limitedScore: number, referenceScore: number): RiskFactor => ({
+  type: 'concern',
+  message: `AI score of ${aiScore} was limited to ${limitedScore} - too far from the rule-based score of ${referenceScore}`,
+  category: 'integrity'
+});
+
+// Integrity risks go first, so they survive the cut to the top risks
+const sortRisks = (risks: RiskFactor[]): RiskFactor[] => [
+  ...risks.filter(risk => risk.category === 'integrity'),
+  ...risks.filter(risk => risk.category !== 'integrity')
+];
+
 export const evaluateCandidateWithGemini = async (
   candidate: CandidateData,
   job: JobData,
   profile?: IApplicantProfile,
-  jobModel?: IJob
+  jobModel?: IJob,
+  applicationId?: string // Keeps re-evaluations of an application on the same prompt version
 ): Promise<AIEvaluationResult> => {
   // STEP 1: Always run fallback scoring first (resilience layer)
   const scoringProfile = profile || buildSyntheticProfile(candidate);
@@ -220,9 +291,8 @@ export const evaluateCandidateWithGemini = async (
     });
   }
 
-  const geminiEnabled = geminiClient.isEnabled();
-  if (!geminiEnabled) {
-    console.warn('⚠️ Gemini disabled. Using deterministic AI score.');
+  if (!llmService.isAvailable('candidate_evaluation')) {
+    console.warn('⚠️ No AI provider for candidate evaluation. Using deterministic AI score.');
     if (fallbackResult) {
       return buildEvaluationFromScoring(fallbackResult, candidate, job);
     }
@@ -230,10 +300,7 @@ export const evaluateCandidateWithGemini = async (
   }
 
   try {
-    // STEP 2: Try Gemini AI for enhanced insights with automatic key rotation/fallback
-    return await geminiClient.executeWithFallback(async (client) => {
-      const model = client.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
+    // STEP 2: Try the AI provider for enhanced insights (providers handle retries and fallback)
     // Calculate profile completeness for confidence assessment
     const hasResume = candidate.skills.length > 0 || candidate.experience.length > 0;
     const hasCompleteProfile = candidate.experience.length > 0 && candidate.education.length > 0;
@@ -278,162 +345,93 @@ export const evaluateCandidateWithGemini = async (
     };
     const expectationNote = levelExpectations[job.experienceLevel] || levelExpectations['mid'];
 
-    const prompt = `You are an AI hiring evaluation assistant for a Global Capability Center (GCC) using HireSense platform.
-
-Your task is to evaluate a candidate for a SPECIFIC JOB ROLE and return a structured assessment.
-
-## CONTEXT-AWARE EVALUATION (IMPORTANT!)
-- **Job Category**: ${jobCategory} (${isTechnicalRole ? 'Technical' : 'Non-Technical'})
-- **${githubRelevanceNote}**
-- **Experience Level Expectations**: ${expectationNote}
-
-Adjust your scoring expectations based on the experience level:
-- Fresher: Basic projects OK, focus on potential
-- Junior: Personal projects expected, some depth
-- Mid: Production experience required
-- Senior: Architecture/leadership expected
-
-## IMPORTANT DEFINITIONS
-- **AI Match Score** = How well the candidate matches the job requirements based on skills, experience, projects, and signals.
-- **Hiring Readiness Score** = Overall hiring suitability combining AI Match Score, confidence, and risk factors.
-- **Confidence Level** = How reliable the evaluation is for THIS job role (NOT personality confidence).
-
-## CONFIDENCE CALCULATION RULES (MANDATORY)
-Calculate confidence using ONLY these job-relative factors:
-
-1. **Skill Coverage** (based on required job skills):
-   - ≥ 80% required skills matched → +20 points
-   - 60–79% matched → +10 points
-   - < 60% matched → +0 points
-   - Current skill coverage: ${skillCoveragePercent}% (${matchedSkills.length}/${requiredSkillsLower.length} skills)
-
-2. **Experience Alignment** (job requires ${job.experienceLevel} level, ~${requiredYears}+ years):
-   - Meets or exceeds requirement → +20 points
-   - Slightly below requirement → +10 points
-   - Far below requirement → +0 points
-
-3. **Signal Reliability**:
-   - Resume + complete profile + relevant external signals → +20 points
-   - Resume + partial data → +10 points
-   - Resume only → +0 points
-   - Current signals: Resume=${hasResume}, CompleteProfile=${hasCompleteProfile}, GitHub=${hasExternalSignals}, Projects=${hasProjects}
-
-4. **Risk Penalty**:
-   - Deduct 10 points for EACH major risk factor identified
-
-Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low"
-
-## JOB CONTEXT
-- **Title**: ${job.title}
-- **Department**: ${job.department}
-- **Required Skills**: ${job.requiredSkills.join(', ') || 'Not specified'}
-- **Experience Level**: ${job.experienceLevel} (~${requiredYears}+ years)
-- **Location**: ${job.location}
-- **Employment Type**: ${job.employmentType}
-- **Job Description**: ${job.description.substring(0, 500)}
-
-## CANDIDATE DATA
-- **Name**: ${candidate.applicantName}
-- **Declared Years of Experience**: ${candidate.yearsOfExperience || 'Not specified'}
-- **Skills**: ${candidate.skills.join(', ') || 'Not specified'}
-- **Work Experience**: ${candidate.experience.length > 0 
-    ? candidate.experience.map(exp => 
-        `${exp.role} at ${exp.company} (${new Date(exp.startDate).getFullYear()} - ${exp.current ? 'Present' : exp.endDate ? new Date(exp.endDate).getFullYear() : 'N/A'})${exp.description ? ': ' + exp.description.substring(0, 150) : ''}`
-      ).join(' | ')
-    : 'No experience listed'}
-- **Education**: ${candidate.education.length > 0
-    ? candidate.education.map(edu => 
-        `${edu.degree} from ${edu.institution} (${edu.year})`
-      ).join(' | ')
-    : 'No education listed'}
-- **Projects**: ${candidate.projects && candidate.projects.length > 0
-    ? candidate.projects.map(proj => 
-        `${proj.name}${proj.techStack?.length ? ' [Tech: ' + proj.techStack.join(', ') + ']' : ''}${proj.description ? ' - ' + proj.description.substring(0, 100) : ''}`
-      ).join(' | ')
-    : 'No projects listed'}
-- **Certifications**: ${candidate.certifications && candidate.certifications.length > 0
-    ? candidate.certifications.map(cert => cert.name).join(', ')
-    : 'None'}
-- **GitHub Profile**: ${candidate.githubUsername || 'Not provided'}${candidate.githubScore ? ` (Activity Score: ${candidate.githubScore}/100)` : ''}
-- **GitHub Top Languages**: ${candidate.githubTopLanguages?.join(', ') || 'N/A'}
-- **LeetCode Stats**: ${leetcodeSummary}
-- **Cover Letter Summary**: ${candidate.coverLetter ? candidate.coverLetter.substring(0, 200) : 'Not provided'}
-
-## EVALUATION INSTRUCTIONS
-
-1. **Skill Analysis**: 
-   - Compare candidate skills against required skills using semantic matching (e.g., "Node" = "NodeJS" = "node.js")
-   - Check if projects demonstrate practical application of required skills
-   - Identify any critical missing skills
-
-2. **Experience Analysis**:
-   - Verify experience years align with job requirements
-   - Check if work history is relevant to the role
-   - Look for career progression and consistency
-
-3. **Project Alignment**:
-   - Evaluate if projects use similar tech stack as job requirements
-   - Assess project complexity and relevance
-   - Check for full-stack/end-to-end project experience if applicable
-
-4. **Risk Assessment**:
-   - Identify gaps between requirements and qualifications
-   - Flag any inconsistencies in profile
-   - Note missing critical skills or experience
-
-5. **Recommendation Logic**:
-   - aiMatchScore ≥ 75: recommend "select" (Strong Fit)
-   - aiMatchScore 55-74: recommend "review" (Potential Fit - needs interview)
-   - aiMatchScore < 55: recommend "reject" (Not a fit currently)
-
-## OUTPUT FORMAT (STRICT JSON ONLY - NO MARKDOWN, NO CODE BLOCKS)
-
-{
-  "aiMatchScore": <number 0-100>,
-  "hiringReadinessScore": <number 0-100>,
-  "overallScore": <number 0-100 same as hiringReadinessScore>,
-  "skillMatch": <number 0-100>,
-  "experienceScore": <number 0-100>,
-  "educationScore": <number 0-100>,
-  "projectAlignmentScore": <number 0-100>,
-  "confidenceLevel": "High" | "Medium" | "Low",
-  "confidence": <number 0-100 internal calculation>,
-  "riskFactors": ["risk 1", "risk 2"],
-  "strengths": ["strength 1", "strength 2", "strength 3"],
-  "gaps": ["gap 1", "gap 2"],
-  "recommendation": "select" | "review" | "reject",
-  "aiSummary": "2-3 sentence professional assessment",
-  "projectAnalysis": "Brief analysis of how candidate's projects align with job requirements",
-  "interviewQuestions": ["targeted question 1", "targeted question 2", "targeted question 3"],
-  "improvementSuggestions": ["suggestion for candidate 1", "suggestion 2"]
-}
-
-## RULES
-- Confidence MUST be job-specific and calculated per the rules above
-- Do NOT use subjective or biased language
-- Be explainable and ethical in scoring
-- Consider both demonstrated skills and growth potential
-- Projects with relevant tech stack should boost skill confidence`;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-
-    // Parse JSON from response (handle potential markdown code blocks)
-    let jsonText = text.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/```json\n?/, '').replace(/```$/, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/```\n?/, '').replace(/```$/, '');
-    }
-
-    const evaluation = JSON.parse(jsonText.trim());
+    // Free text from the candidate is cleaned and fenced; what was found in it is reported
+    const workExperience = candidate.experience.length > 0
+      ? candidate.experience.map(exp =>
+          `${exp.role} at ${exp.company} (${new Date(exp.startDate).getFullYear()} - ${exp.current ? 'Present' : exp.endDate ? new Date(exp.endDate).getFullYear() : 'N/A'})${exp.description ? ': ' + exp.description.substring(0, 150) : ''}`
+        ).join(' | ')
+      : 'No experience listed';
+    const projects = candidate.projects && candidate.projects.length > 0
+      ? candidate.projects.map(proj =>
+          `${proj.name}${proj.techStack?.length ? ' [Tech: ' + proj.techStack.join(', ') + ']' : ''}${proj.description ? ' - ' + proj.description.substring(0, 100) : ''}`
+        ).join(' | ')
+      : 'No projects listed';
+    const certifications = candidate.certifications && candidate.certifications.length > 0
+      ? candidate.certifications.map(cert => cert.name).join(', ')
+      : 'None';
+    const candidateSkills = candidate.skills.join(', ') || 'Not specified';
+    const coverLetter = candidate.coverLetter ? candidate.coverLetter.substring(0, 200) : 'Not provided';
+
+    const textFlags = [
+      ...contentGuardService.scan([candidateSkills, workExperience, projects, certifications].join('\n'), 'profile'),
+      ...contentGuardService.scan(candidate.coverLetter, 'cover_letter')
+    ];
+    const flagged = textFlags.length > 0 || (scoringProfile.resumeFlags?.length || 0) > 0;
+
+    const prompt = await promptRegistryService.render('candidate_evaluation', {
+      jobCategory,
+      roleType: isTechnicalRole ? 'Technical' : 'Non-Technical',
+      githubRelevanceNote,
+      expectationNote,
+      skillCoveragePercent,
+      matchedSkillCount: matchedSkills.length,
+      requiredSkillCount: requiredSkillsLower.length,
+      experienceLevel: job.experienceLevel,
+      requiredYears,
+      hasResume,
+      hasCompleteProfile,
+      hasExternalSignals,
+      hasProjects: !!hasProjects,
+      jobTitle: job.title,
+      department: job.department,
+      requiredSkills: job.requiredSkills.join(', ') || 'Not specified',
+      niceToHaveSkills: job.niceToHaveSkills?.join(', ') || 'None',
+      location: job.location,
+      employmentType: job.employmentType,
+      jobDescription: job.description.substring(0, 500),
+      candidateName: candidate.applicantName,
+      yearsOfExperience: candidate.yearsOfExperience || 'Not specified',
+      candidateSkills: contentGuardService.fence(candidateSkills),
+      workExperience: contentGuardService.fence(workExperience),
+      education: candidate.education.length > 0
+        ? candidate.education.map(edu => `${edu.degree} from ${edu.institution} (${edu.year})`).join(' | ')
+        : 'No education listed',
+      projects: contentGuardService.fence(projects),
+      certifications: contentGuardService.fence(certifications),
+      githubProfile: `${candidate.githubUsername || 'Not provided'}${candidate.githubScore ? ` (Activity Score: ${candidate.githubScore}/100)` : ''}`,
+      githubTopLanguages: candidate.githubTopLanguages?.join(', ') || 'N/A',
+      leetcodeSummary,
+      coverLetter: contentGuardService.fence(coverLetter)
+    }, applicationId);
+
+    const evaluation = await llmService.generateFromPrompt<any>(prompt, {
+      recruiterId: jobModel?.recruiterId?.toString(),
+      untrustedContent: true
+    });
 
-    // STEP 3: Blend AI insights with fallback scoring
+    // STEP 3: Keep the AI scores near the rule-based score - far off is more likely manipulation than insight
+    const reference = fallbackResult || await scoringService.evaluateCandidate(buildSyntheticJob(job), scoringProfile);
+    const rawAiScore = Math.min(100, Math.max(0, Number(evaluation.overallScore) || 0));
+    const { score: aiScore, limited } = contentGuardService.limitScore(rawAiScore, reference.overallScore, flagged);
+    const aiMatchScore = limitAiSubScore(evaluation.aiMatchScore, reference.overallScore, flagged);
+    const hiringReadinessScore = limitAiSubScore(evaluation.hiringReadinessScore, reference.overallScore, flagged);
+    // Each per-signal AI score is held near its own rule-based signal
+    const breakdown = reference.scoringBreakdown;
+    const skillMatch = limitAiSubScore(evaluation.skillMatch, breakdown.skillMatch, flagged) ?? breakdown.skillMatch;
+    const experienceScore = limitAiSubScore(evaluation.experienceScore, breakdown.experience, flagged) ?? breakdown.experience;
+    const educationScore = limitAiSubScore(evaluation.educationScore, breakdown.educationStrength, flagged) ?? breakdown.educationStrength;
+    const projectAlignmentScore = limitAiSubScore(evaluation.projectAlignmentScore, breakdown.projectRelevance, flagged)
+      ?? breakdown.projectRelevance;
+    const integrityRisks: RiskFactor[] = [
+      ...contentGuardService.toRiskFactors(textFlags),
+      ...(limited ? [buildLimitedScoreRisk(rawAiScore, aiScore, reference.overallScore)] : [])
+    ];
+
+    // STEP 4: Blend AI insights with fallback scoring
     if (fallbackResult) {
       // Use weighted blend: 60% Gemini AI + 40% Fallback
       const blendedScore = Math.round(
-        evaluation.overallScore * 0.6 + fallbackResult.overallScore * 0.4
+        aiScore * AI_SCORE_BLEND + fallbackResult.overallScore * (1 - AI_SCORE_BLEND)
       );
 
       // Map AI confidence level
@@ -441,8 +439,8 @@ Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low
         (evaluation.confidence >= 70 ? 'high' : evaluation.confidence >= 50 ? 'medium' : 'low');
 
       console.log('🤖 AI + Fallback blend:', {
-        aiMatchScore: evaluation.aiMatchScore,
-        hiringReadiness: evaluation.hiringReadinessScore,
+        aiMatchScore,
+        hiringReadiness: hiringReadinessScore,
         fallbackScore: fallbackResult.overallScore,
         finalScore: blendedScore,
         confidenceLevel: aiConfidenceLevel
@@ -457,17 +455,17 @@ Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low
 
       return {
         overallScore: Math.min(100, Math.max(0, blendedScore)),
-        aiMatchScore: Math.min(100, Math.max(0, evaluation.aiMatchScore || blendedScore)),
-        hiringReadinessScore: Math.min(100, Math.max(0, evaluation.hiringReadinessScore || blendedScore)),
-        skillMatch: Math.min(100, Math.max(0, evaluation.skillMatch || 50)),
-        experienceScore: Math.min(100, Math.max(0, evaluation.experienceScore || 50)),
+        aiMatchScore: aiMatchScore ?? blendedScore,
+        hiringReadinessScore: hiringReadinessScore ?? blendedScore,
+        skillMatch,
+        experienceScore,
         githubScore: fallbackResult.scoringBreakdown.githubActivity,
         leetcodeScore: fallbackResult.scoringBreakdown.leetcodePerformance,
-        educationScore: Math.min(100, Math.max(0, evaluation.educationScore || fallbackResult.scoringBreakdown.educationStrength || 50)),
-        projectAlignmentScore: Math.min(100, Math.max(0, evaluation.projectAlignmentScore || 50)),
+        educationScore,
+        projectAlignmentScore,
         strengths: [...new Set([...evaluation.strengths, ...fallbackResult.strengths])].slice(0, 5),
         gaps: [...new Set([...evaluation.gaps, ...fallbackResult.gaps])].slice(0, 5),
-        riskFactorsList: evaluation.riskFactors || [],
+        riskFactorsList: [...integrityRisks.map(risk => risk.message), ...(evaluation.riskFactors || [])],
         recommendation: blendedScore >= 75 ? 'select' : blendedScore >= 55 ? 'review' : 'reject',
         confidence: Math.min(100, Math.max(0, evaluation.confidence || 70)),
         aiSummary: evaluation.aiSummary || 'AI analysis completed.',
@@ -477,11 +475,12 @@ Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low
         // Enhanced fields - prefer AI confidence level when available
         confidenceLevel: aiConfidenceLevel as 'low' | 'medium' | 'high',
         confidenceScore: evaluation.confidence || fallbackResult.confidenceScore,
-        riskFactors: [...aiRiskFactors, ...fallbackResult.riskFactors].slice(0, 5),
-        scoringBreakdown: {
-          ...fallbackResult.scoringBreakdown,
-          projectRelevance: evaluation.projectAlignmentScore || fallbackResult.scoringBreakdown.projectRelevance || 0
-        }
+        riskFactors: sortRisks([...integrityRisks, ...aiRiskFactors, ...fallbackResult.riskFactors]).slice(0, 5),
+        scoringBreakdown: fallbackResult.scoringBreakdown,
+        aiScore,
+        weightProfile: fallbackResult.weightProfile,
+        contributions: fallbackResult.contributions,
+        promptVersion: prompt.promptVersion
       };
     }
 
@@ -489,27 +488,21 @@ Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low
     const aiOnlyConfidenceLevel = evaluation.confidenceLevel?.toLowerCase() || 
       (evaluation.confidence >= 70 ? 'high' : evaluation.confidence >= 50 ? 'medium' : 'low');
     
-    const aiOnlyScore = evaluation.hiringReadinessScore || evaluation.overallScore || 50;
-    const inferredProfileCompleteness = Math.min(100,
-      (candidate.resumeText ? 25 : 0) +
-      (candidate.skills.length ? 25 : 0) +
-      (candidate.experience.length ? 25 : 0) +
-      (candidate.education.length ? 25 : 0)
-    );
+    const aiOnlyScore = hiringReadinessScore || aiScore || 50;
     
     return {
       overallScore: Math.min(100, Math.max(0, aiOnlyScore)),
-      aiMatchScore: Math.min(100, Math.max(0, evaluation.aiMatchScore || aiOnlyScore)),
-      hiringReadinessScore: Math.min(100, Math.max(0, evaluation.hiringReadinessScore || aiOnlyScore)),
-      skillMatch: Math.min(100, Math.max(0, evaluation.skillMatch || 50)),
-      experienceScore: Math.min(100, Math.max(0, evaluation.experienceScore || 50)),
+      aiMatchScore: aiMatchScore ?? aiOnlyScore,
+      hiringReadinessScore: hiringReadinessScore ?? aiOnlyScore,
+      skillMatch,
+      experienceScore,
       githubScore: candidate.githubScore || 0,
       leetcodeScore: candidate.leetcodeScore || 0,
-      educationScore: Math.min(100, Math.max(0, evaluation.educationScore || 50)),
-      projectAlignmentScore: Math.min(100, Math.max(0, evaluation.projectAlignmentScore || 50)),
+      educationScore,
+      projectAlignmentScore,
       strengths: evaluation.strengths || [],
       gaps: evaluation.gaps || [],
-      riskFactorsList: evaluation.riskFactors || [],
+      riskFactorsList: [...integrityRisks.map(risk => risk.message), ...(evaluation.riskFactors || [])],
       recommendation: ['select', 'review', 'reject'].includes(evaluation.recommendation) 
         ? evaluation.recommendation 
         : 'review',
@@ -520,27 +513,22 @@ Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low
       improvementSuggestions: evaluation.improvementSuggestions || [],
       confidenceLevel: aiOnlyConfidenceLevel as 'low' | 'medium' | 'high',
       confidenceScore: evaluation.confidence || 50,
-      riskFactors: (evaluation.riskFactors || []).map((risk: string) => ({
-        type: 'concern' as const,
-        message: risk,
-        category: 'skills' as const
-      })),
-      scoringBreakdown: {
-        skillMatch: evaluation.skillMatch || 0,
-        githubActivity: candidate.githubScore || 0,
-        leetcodePerformance: candidate.leetcodeScore || 0,
-        experience: evaluation.experienceScore || 0,
-        educationStrength: evaluation.educationScore || 0,
-        profileCompleteness: inferredProfileCompleteness,
-        projectRelevance: evaluation.projectAlignmentScore || 0,
-        aiReadiness: aiOnlyScore
-      }
+      riskFactors: sortRisks([
+        ...integrityRisks,
+        ...reference.riskFactors.filter(risk => risk.category === 'integrity'),
+        ...(evaluation.riskFactors || []).map((risk: string) => ({
+          type: 'concern' as const,
+          message: risk,
+          category: 'skills' as const
+        }))
+      ]),
+      scoringBreakdown: reference.scoringBreakdown,
+      promptVersion: prompt.promptVersion
     };
-    }); // End executeWithFallback
   } catch (error: any) {
-    console.error('❌ Gemini API Error:', error.message);
+    console.error('❌ AI evaluation error:', error.message);
     
-    // STEP 4: If Gemini fails, use fallback exclusively
+    // STEP 5: If the AI call fails (or the AI budget is used up), use fallback exclusively
     if (fallbackResult) {
       console.log('✅ Using fallback scoring exclusively (API failed)');
       return buildEvaluationFromScoring(fallbackResult, candidate, job);
@@ -573,7 +561,7 @@ const generateFallbackQuestions = (
   return questions;
 };
 
-// Fallback evaluation when Gemini API fails
+// Fallback evaluation when the AI provider fails
 const getFallbackEvaluation = async (
   candidate: CandidateData,
   job: JobData,
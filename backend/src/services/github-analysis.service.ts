@@ -1,22 +1,15 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-class GeminiGitHubService {
-  private genAI: GoogleGenerativeAI | null;
-  private isEnabled: boolean;
-
-  constructor() {
-    const apiKey = process.env.GEMINI_API_KEY || '';
-    this.isEnabled = apiKey.length > 0;
-    
-    if (!this.isEnabled) {
-      console.warn('⚠️  Gemini API not configured. Using basic GitHub analysis.');
-      this.genAI = null;
-    } else {
-      this.genAI = new GoogleGenerativeAI(apiKey);
-      console.log('✅ Gemini AI service initialized for GitHub analysis');
-    }
-  }
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
+
+interface GitHubAnalysis {
+  insights: string[];
+  overallScore: number;
+  strengths: string[];
+  recommendations: string[];
+  promptVersion?: string; // Unset for the basic (rule-based) analysis
+}
 
+class GitHubAnalysisService {
   async analyzeGitHubProfile(githubData: {
     username: string;
     name: string;
@@ -28,81 +21,43 @@ class GeminiGitHubService {
     topRepositories: Array<{ name: string; language: string; stars: number; description: string }>;
     recentCommits: number;
     totalStars: number;
-  }): Promise<{
-    insights: string[];
-    overallScore: number;
-    strengths: string[];
-    recommendations: string[];
-  }> {
-    if (!this.isEnabled) {
-      // Return basic analysis if Perplexity is not configured
+  }): Promise<GitHubAnalysis> {
+    if (!llmService.isAvailable('github_analysis')) {
+      // Return basic analysis if no AI provider is configured
       return this.basicAnalysis(githubData);
     }
 
     try {
-      console.log(`🤖 Requesting Gemini AI analysis for: ${githubData.username}`);
-
-      const model = this.genAI!.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-      const prompt = `Analyze this GitHub developer profile and provide insights:
-
-Username: ${githubData.username}
-Name: ${githubData.name || 'Not provided'}
-Bio: ${githubData.bio || 'Not provided'}
-Account Age: ${Math.floor(githubData.accountAge / 365)} years
-Public Repositories: ${githubData.publicRepos}
-Followers: ${githubData.followers}
-Total Stars: ${githubData.totalStars}
-Recent Commits (10 days): ${githubData.recentCommits}
-
-Top Programming Languages:
-${githubData.topLanguages.map(l => `- ${l.language} (${l.count} repos)`).join('\n')}
-
-Top Repositories:
-${githubData.topRepositories.slice(0, 5).map(r => `- ${r.name} (${r.language}) - ${r.stars} stars${r.description ? `: ${r.description}` : ''}`).join('\n')}
-
-Based on this profile, provide:
-1. Overall Score (0-100): Rate this developer's profile quality and activity
-2. Key Strengths (3-5 points): What stands out positively?
-3. Key Insights (3-5 points): Notable observations about their coding style, expertise, or contributions
-4. Recommendations (2-3 points): How can they improve their profile?
-
-Format your response as JSON ONLY (no markdown, no code blocks):
-{
-  "overallScore": number,
-  "strengths": ["strength1", "strength2", ...],
-  "insights": ["insight1", "insight2", ...],
-  "recommendations": ["rec1", "rec2", ...]
-}`;
-
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const content = response.text();
-
-      if (!content) {
-        throw new Error('Empty response from Gemini API');
-      }
-
-      // Parse JSON from response (handle markdown code blocks)
-      let jsonContent = content.trim();
-      if (jsonContent.startsWith('```json')) {
-        jsonContent = jsonContent.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-      } else if (jsonContent.startsWith('```')) {
-        jsonContent = jsonContent.replace(/```\n?/g, '').trim();
-      }
-
-      const analysis = JSON.parse(jsonContent);
-
-      console.log(`✅ Gemini analysis complete. Score: ${analysis.overallScore}/100`);
+      console.log(`🤖 Requesting AI analysis for: ${githubData.username}`);
+
+      const prompt = await promptRegistryService.render('github_analysis', {
+        username: githubData.username,
+        name: githubData.name || 'Not provided',
+        bio: githubData.bio || 'Not provided',
+        accountAgeYears: Math.floor(githubData.accountAge / 365),
+        publicRepos: githubData.publicRepos,
+        followers: githubData.followers,
+        totalStars: githubData.totalStars,
+        recentCommits: githubData.recentCommits,
+        topLanguages: githubData.topLanguages.map(l => `- ${l.language} (${l.count} repos)`).join('\n'),
+        topRepositories: githubData.topRepositories.slice(0, 5)
+          .map(r => `- ${r.name} (${r.language}) - ${r.stars} stars${r.description ? `: ${r.description}` : ''}`)
+          .join('\n')
+      }, githubData.username);
+
+      const analysis = await llmService.generateFromPrompt<Partial<GitHubAnalysis>>(prompt);
+
+      console.log(`✅ AI analysis complete. Score: ${analysis.overallScore}/100`);
 
       return {
         insights: analysis.insights || [],
         overallScore: Math.min(Math.max(analysis.overallScore || 50, 0), 100),
         strengths: analysis.strengths || [],
         recommendations: analysis.recommendations || [],
+        promptVersion: prompt.promptVersion,
       };
     } catch (error: any) {
-      console.error('❌ Gemini API error:', error.message);
+      console.error('❌ GitHub AI analysis error:', error.message);
       
       // Fallback to basic analysis
       console.log('⚠️  Falling back to basic analysis');
@@ -118,12 +73,7 @@ Format your response as JSON ONLY (no markdown, no code blocks):
     topLanguages: Array<{ language: string; count: number }>;
     recentCommits: number;
     totalStars: number;
-  }): {
-    insights: string[];
-    overallScore: number;
-    strengths: string[];
-    recommendations: string[];
-  } {
+  }): GitHubAnalysis {
     const insights: string[] = [];
     const strengths: string[] = [];
     const recommendations: string[] = [];
@@ -194,4 +144,5 @@ Format your response as JSON ONLY (no markdown, no code blocks):
   }
 }
 
-export default new GeminiGitHubService();
+export const githubAnalysisService = new GitHubAnalysisService();
+export default githubAnalysisService;
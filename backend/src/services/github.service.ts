@@ -1,5 +1,5 @@
 import axios from 'axios';
-import perplexityService from './perplexity.service';
+import githubAnalysisService from './github-analysis.service';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 
@@ -62,6 +62,7 @@ export interface GitHubAnalysis {
   strengths?: string[]; // AI-generated strengths
   recommendations?: string[]; // AI-generated recommendations
   overallScore: number; // 0-100
+  promptVersion?: string; // Prompt behind the AI insights (unset for the basic analysis)
 }
 
 class GitHubService {
@@ -223,9 +224,9 @@ class GitHubService {
 
       activityScore = Math.round(activityScore);
 
-      // Use Gemini AI for intelligent analysis
-      console.log('🤖 Generating AI-powered insights with Gemini...');
-      const aiAnalysis = await perplexityService.analyzeGitHubProfile({
+      // Use the AI provider for intelligent analysis
+      console.log('🤖 Generating AI-powered insights...');
+      const aiAnalysis = await githubAnalysisService.analyzeGitHubProfile({
         username,
         name: profile.name || username,
         bio: profile.bio || '',
@@ -264,6 +265,7 @@ class GitHubService {
         strengths: aiAnalysis.strengths,
         recommendations: aiAnalysis.recommendations,
         overallScore: Math.min(overallScore, 100),
+        promptVersion: aiAnalysis.promptVersion,
       };
     } catch (error: any) {
       throw new Error(error.message || 'Failed to analyze GitHub profile');
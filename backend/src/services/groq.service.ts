@@ -7,6 +7,7 @@
 
 import dotenv from 'dotenv';
 import Groq from 'groq-sdk';
+import { CircuitBreaker, CircuitOpenError, circuitBreakers } from '../utils/circuit-breaker';
 
 // Ensure environment variables are loaded before accessing Groq keys
 dotenv.config();
@@ -61,20 +62,15 @@ export interface ChatCompletionResult {
   };
 }
 
-// API key status tracking
+// API key with the circuit breaker tracking its health
 interface KeyStatus {
   key: string;
-  errorCount: number;
-  lastError?: Date;
-  lastSuccess?: Date;
-  isRateLimited: boolean;
-  rateLimitResetAt?: Date;
+  breaker: CircuitBreaker;
 }
 
 class GroqService {
   private keyStatuses: KeyStatus[] = [];
   private currentKeyIndex: number = 0;
-  private readonly maxErrorsBeforeSkip = 3;
   private readonly rateLimitCooldownMs = 60000; // 1 minute cooldown for rate limited keys
 
   constructor() {
@@ -95,11 +91,7 @@ class GroqService {
     for (const envName of keyEnvNames) {
       const key = process.env[envName];
       if (key && key.startsWith('gsk_')) {
-        this.keyStatuses.push({
-          key,
-          errorCount: 0,
-          isRateLimited: false,
-        });
+        this.addKey(key);
       }
     }
 
@@ -107,11 +99,7 @@ class GroqService {
     if (this.keyStatuses.length === 0) {
       const singleKey = process.env.GROQ_API_KEY;
       if (singleKey && singleKey.startsWith('gsk_')) {
-        this.keyStatuses.push({
-          key: singleKey,
-          errorCount: 0,
-          isRateLimited: false,
-        });
+        this.addKey(singleKey);
       }
     }
 
@@ -122,51 +110,31 @@ class GroqService {
     }
   }
 
+  private addKey(key: string): void {
+    this.keyStatuses.push({
+      key,
+      breaker: circuitBreakers.get(`groq:key-${this.keyStatuses.length + 1}`),
+    });
+  }
+
   /**
-   * Get the next available API key, skipping rate-limited or error-prone keys
+   * Claim the next key whose circuit lets calls through (rate-limited and failing keys
+   * sit out their cool-down). Null when every key is out.
    */
   private getNextAvailableKey(): KeyStatus | null {
-    const now = new Date();
     const totalKeys = this.keyStatuses.length;
-    
-    if (totalKeys === 0) return null;
 
-    // Try each key starting from current index
     for (let i = 0; i < totalKeys; i++) {
       const index = (this.currentKeyIndex + i) % totalKeys;
       const keyStatus = this.keyStatuses[index];
 
-      // Check if rate limit has expired
-      if (keyStatus.isRateLimited && keyStatus.rateLimitResetAt) {
-        if (now >= keyStatus.rateLimitResetAt) {
-          keyStatus.isRateLimited = false;
-          keyStatus.rateLimitResetAt = undefined;
-          keyStatus.errorCount = 0;
-        }
-      }
-
-      // Skip if still rate limited
-      if (keyStatus.isRateLimited) continue;
-
-      // Skip if too many errors (but allow retry after cooldown)
-      if (keyStatus.errorCount >= this.maxErrorsBeforeSkip) {
-        if (keyStatus.lastError && (now.getTime() - keyStatus.lastError.getTime()) < this.rateLimitCooldownMs) {
-          continue;
-        }
-        // Reset error count after cooldown
-        keyStatus.errorCount = 0;
+      if (keyStatus.breaker.acquire()) {
+        this.currentKeyIndex = index;
+        return keyStatus;
       }
-
-      this.currentKeyIndex = index;
-      return keyStatus;
     }
 
-    // If all keys are problematic, reset the first one and use it
-    console.warn('⚠️ All Groq API keys have issues. Resetting first key.');
-    this.keyStatuses[0].errorCount = 0;
-    this.keyStatuses[0].isRateLimited = false;
-    this.currentKeyIndex = 0;
-    return this.keyStatuses[0];
+    return null;
   }
 
   /**
@@ -180,17 +148,15 @@ class GroqService {
    * Handle API errors and update key status
    */
   private handleError(keyStatus: KeyStatus, error: any): void {
-    keyStatus.errorCount++;
-    keyStatus.lastError = new Date();
-
     // Check for rate limit error
     if (error?.status === 429 || error?.message?.includes('rate_limit') || error?.message?.includes('quota')) {
-      keyStatus.isRateLimited = true;
       // Try to parse retry-after header or use default cooldown
       const retryAfter = error?.headers?.['retry-after'];
       const cooldownMs = retryAfter ? parseInt(retryAfter) * 1000 : this.rateLimitCooldownMs;
-      keyStatus.rateLimitResetAt = new Date(Date.now() + cooldownMs);
+      keyStatus.breaker.trip(cooldownMs, error);
       console.warn(`⚠️ Groq API key rate limited. Will retry after ${cooldownMs}ms`);
+    } else {
+      keyStatus.breaker.recordFailure(error);
     }
 
     // Move to next key
@@ -201,13 +167,12 @@ class GroqService {
    * Handle successful API call
    */
   private handleSuccess(keyStatus: KeyStatus): void {
-    keyStatus.lastSuccess = new Date();
-    keyStatus.errorCount = 0;
-    keyStatus.isRateLimited = false;
+    keyStatus.breaker.recordSuccess();
   }
 
   /**
-   * Execute an operation with automatic key rotation and fallback
+   * Execute an operation with automatic key rotation and fallback. Fails at once with
+   * CircuitOpenError when every key's circuit is open.
    */
   private async executeWithFallback<T>(
     operation: (client: Groq) => Promise<T>,
@@ -220,7 +185,8 @@ class GroqService {
       const keyStatus = this.getNextAvailableKey();
       
       if (!keyStatus) {
-        throw new Error('No Groq API keys available');
+        if (!lastError) throw new CircuitOpenError('Groq');
+        break;
       }
 
       try {
@@ -256,9 +222,7 @@ class GroqService {
    * Get service status
    */
   getStatus(): { totalKeys: number; availableKeys: number; currentKeyIndex: number } {
-    const availableKeys = this.keyStatuses.filter(ks => 
-      !ks.isRateLimited && ks.errorCount < this.maxErrorsBeforeSkip
-    ).length;
+    const availableKeys = this.keyStatuses.filter(ks => ks.breaker.isCallPermitted()).length;
     
     return {
       totalKeys: this.keyStatuses.length,
@@ -332,9 +296,12 @@ class GroqService {
       maxTokens = 2048,
     } = options;
 
+    if (this.keyStatuses.length === 0) {
+      throw new Error('No Groq API keys available');
+    }
     const keyStatus = this.getNextAvailableKey();
     if (!keyStatus) {
-      throw new Error('No Groq API keys available');
+      throw new CircuitOpenError('Groq');
     }
 
     const client = this.createClient(keyStatus);
@@ -493,44 +460,6 @@ class GroqService {
       };
     }, 'textToSpeech');
   }
-
-  // ==================== Convenience Methods ====================
-
-  /**
-   * Simple text generation helper
-   */
-  async generateText(prompt: string, systemPrompt?: string): Promise<string> {
-    const messages: ChatMessage[] = [];
-    
-    if (systemPrompt) {
-      messages.push({ role: 'system', content: systemPrompt });
-    }
-    
-    messages.push({ role: 'user', content: prompt });
-    
-    const result = await this.chatCompletion(messages);
-    return result.content;
-  }
-
-  /**
-   * JSON generation helper with parsing
-   */
-  async generateJSON<T>(prompt: string, systemPrompt?: string): Promise<T> {
-    const fullSystemPrompt = (systemPrompt || '') + 
-      '\n\nIMPORTANT: Respond ONLY with valid JSON. No markdown code blocks, no explanations.';
-    
-    const result = await this.generateText(prompt, fullSystemPrompt);
-    
-    // Clean up potential markdown code blocks
-    let jsonText = result.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/```json\n?/, '').replace(/```$/, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/```\n?/, '').replace(/```$/, '');
-    }
-    
-    return JSON.parse(jsonText.trim());
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,255 @@
+import mongoose from 'mongoose';
+import { Interview, IInterview } from '../models/Interview.model';
+import { IInterviewRound, INTERVIEW_TYPES, InterviewType } from '../models/Job.model';
+import Notification from '../models/Notification.model';
+import { AppError } from '../middleware/errorHandler';
+import availabilityService from './availability.service';
+import { toKey } from '../utils/slug';
+
+export type RoundStatus = 'pending' | 'scheduled' | 'awaiting_outcome' | 'passed' | 'failed' | 'stopped';
+
+export interface RoundProgress {
+  key: string;
+  name: string;
+  type: InterviewType;
+  duration: number;
+  interviewerIds: string[];
+  order: number;
+  status: RoundStatus;
+  interviewId?: mongoose.Types.ObjectId;
+  scheduledTime?: Date;
+  outcomeNote?: string;
+}
+
+export interface LoopProgress {
+  hasPlan: boolean;
+  status: 'not_started' | 'in_progress' | 'passed' | 'failed';
+  rounds: RoundProgress[];
+  nextRound: RoundProgress | null; // Round to schedule next, if the loop is waiting on one
+}
+
+// Plain copy of a round, whatever its source (subdocument or lean object)
+type PlanRound = Omit<IInterviewRound, 'interviewerIds'> & { interviewerIds: string[] };
+
+const MAX_ROUNDS = 10;
+
+class InterviewLoopService {
+  /**
+   * Get the interview plan of a job, ordered by round order
+   */
+  getPlan(job: { interviewPlan?: IInterviewRound[] } | null | undefined): PlanRound[] {
+    return (job?.interviewPlan || [])
+      .map(round => ({
+        key: round.key,
+        name: round.name,
+        type: round.type,
+        duration: round.duration,
+        interviewerIds: (round.interviewerIds || []).map(id => id.toString()),
+        order: round.order
+      }))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Validate and normalize a recruiter-supplied interview plan.
+   * Interviewers are checked separately (see assertPlanInterviewers).
+   * Throws AppError(400) on invalid input.
+   */
+  normalizePlan(input: unknown): PlanRound[] {
+    if (!Array.isArray(input)) {
+      throw new AppError('Interview plan must be a list of rounds', 400);
+    }
+    if (input.length > MAX_ROUNDS) {
+      throw new AppError(`Interview plan can contain at most ${MAX_ROUNDS} rounds`, 400);
+    }
+
+    const keys = new Set<string>();
+    return input.map((raw: any, index: number) => {
+      const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+      if (!name) {
+        throw new AppError(`Round ${index + 1} is missing a name`, 400);
+      }
+
+      const key = toKey(typeof raw.key === 'string' && raw.key.trim() ? raw.key : name);
+      if (!key || keys.has(key)) {
+        throw new AppError(`Duplicate interview round: ${name}`, 400);
+      }
+      keys.add(key);
+
+      const type = raw.type || 'Technical';
+      if (!INTERVIEW_TYPES.includes(type)) {
+        throw new AppError(`Round "${name}" has an invalid type: ${raw.type}`, 400);
+      }
+
+      const duration = Number(raw.duration || 60);
+      if (!Number.isInteger(duration) || duration < 15 || duration > 480) {
+        throw new AppError(`Round "${name}" must last between 15 and 480 minutes`, 400);
+      }
+
+      const interviewerIds = Array.isArray(raw.interviewerIds) ? raw.interviewerIds.map(String) : [];
+      if (interviewerIds.some((id: string) => !mongoose.Types.ObjectId.isValid(id))) {
+        throw new AppError(`Round "${name}" has an invalid interviewer`, 400);
+      }
+
+      return { key, name, type, duration, interviewerIds: [...new Set<string>(interviewerIds)], order: index };
+    });
+  }
+
+  /**
+   * Required interviewers must be able to sit on the recruiter's panels.
+   * Throws AppError(403) otherwise.
+   */
+  async assertPlanInterviewers(organizerId: string, rounds: PlanRound[]): Promise<void> {
+    for (const round of rounds) {
+      if (round.interviewerIds.length > 0) {
+        await availabilityService.assertPanelists(organizerId, round.interviewerIds);
+      }
+    }
+  }
+
+  /**
+   * Track an application through its job's interview plan. Each round is judged by its
+   * latest non-cancelled interview; a failed round stops the loop.
+   */
+  async getProgress(
+    applicationId: mongoose.Types.ObjectId | string,
+    job: { interviewPlan?: IInterviewRound[] } | null
+  ): Promise<LoopProgress> {
+    const plan = this.getPlan(job);
+    if (plan.length === 0) {
+      return { hasPlan: false, status: 'not_started', rounds: [], nextRound: null };
+    }
+
+    const interviews = await Interview.find({
+      applicationId,
+      roundKey: { $in: plan.map(round => round.key) },
+      status: { $ne: 'cancelled' }
+    }).sort({ scheduledTime: 1 });
+
+    let stopped = false;
+    const rounds: RoundProgress[] = plan.map(round => {
+      const interview = interviews.filter(item => item.roundKey === round.key).pop();
+      const status: RoundStatus = stopped ? 'stopped' : this.getRoundStatus(interview);
+      if (status === 'failed') stopped = true;
+
+      return {
+        ...round,
+        status,
+        interviewId: interview?._id as mongoose.Types.ObjectId | undefined,
+        scheduledTime: interview?.scheduledTime,
+        outcomeNote: interview?.roundOutcomeNote || undefined
+      };
+    });
+
+    const failed = rounds.some(round => round.status === 'failed');
+    const inFlight = rounds.some(round => round.status === 'scheduled' || round.status === 'awaiting_outcome');
+    const nextRound = failed || inFlight ? null : rounds.find(round => round.status === 'pending') || null;
+
+    let status: LoopProgress['status'] = 'in_progress';
+    if (failed) status = 'failed';
+    else if (rounds.every(round => round.status === 'passed')) status = 'passed';
+    else if (rounds.every(round => round.status === 'pending')) status = 'not_started';
+
+    return { hasPlan: true, status, rounds, nextRound };
+  }
+
+  /**
+   * Pick the round a new interview belongs to. Without an explicit round the next one
+   * of the loop is used, and the interview is ad-hoc once the loop no longer waits on one.
+   * Throws AppError(409) when the loop was stopped or the round is not the next one.
+   */
+  async resolveRound(
+    applicationId: mongoose.Types.ObjectId | string,
+    job: { interviewPlan?: IInterviewRound[] } | null,
+    roundKey?: string
+  ): Promise<RoundProgress | null> {
+    const progress = await this.getProgress(applicationId, job);
+    if (!progress.hasPlan) {
+      if (roundKey) {
+        throw new AppError('This job has no interview plan', 400);
+      }
+      return null;
+    }
+
+    const failedRound = progress.rounds.find(round => round.status === 'failed');
+    if (failedRound) {
+      throw new AppError(`The interview loop was stopped after the candidate failed "${failedRound.name}"`, 409);
+    }
+
+    if (!roundKey) {
+      return progress.nextRound;
+    }
+
+    const round = progress.rounds.find(item => item.key === roundKey);
+    if (!round) {
+      throw new AppError(`Unknown interview round: ${roundKey}`, 400);
+    }
+    if (round.status === 'passed') {
+      throw new AppError(`The candidate has already passed "${round.name}"`, 409);
+    }
+    if (round.status === 'scheduled' || round.status === 'awaiting_outcome') {
+      throw new AppError(`"${round.name}" already has an interview - reschedule it instead`, 409);
+    }
+    if (progress.nextRound?.key !== round.key) {
+      const current = progress.rounds.find(item => item.status !== 'passed');
+      throw new AppError(`Rounds must be taken in order - "${current?.name}" comes first`, 409);
+    }
+
+    return round;
+  }
+
+  /**
+   * Record whether the candidate passed the round an interview covered. A pass prompts
+   * the recruiter to schedule the next round; a fail stops the loop.
+   */
+  async recordOutcome(
+    interview: IInterview,
+    job: { _id: unknown; title: string; interviewPlan?: IInterviewRound[] },
+    userId: string,
+    outcome: unknown,
+    note?: string
+  ): Promise<LoopProgress> {
+    if (outcome !== 'passed' && outcome !== 'failed') {
+      throw new AppError('Outcome must be "passed" or "failed"', 400);
+    }
+    if (!interview.roundKey) {
+      throw new AppError('This interview is not part of an interview loop', 400);
+    }
+    if (interview.status !== 'completed') {
+      throw new AppError('Mark the interview as completed before recording the round outcome', 409);
+    }
+    if (interview.roundOutcome) {
+      throw new AppError(`The outcome of "${interview.roundName}" has already been recorded`, 409);
+    }
+
+    interview.roundOutcome = outcome;
+    interview.roundOutcomeNote = note?.trim() || '';
+    interview.roundOutcomeAt = new Date();
+    interview.roundOutcomeBy = userId as any;
+    await interview.save();
+
+    const progress = await this.getProgress(interview.applicationId, job);
+
+    // Prompt whoever runs the loop to book the next round (non-blocking)
+    if (outcome === 'passed' && progress.nextRound) {
+      Notification.create({
+        userId: interview.scheduledBy || userId,
+        type: 'interview_scheduled',
+        title: `Ready for ${progress.nextRound.name}`,
+        message: `A candidate for ${job.title} passed "${interview.roundName}". Schedule the next round: ${progress.nextRound.name}.`,
+        data: { jobId: job._id, applicationId: interview.applicationId }
+      }).catch(err => console.error('Loop notification failed:', err));
+    }
+
+    return progress;
+  }
+
+  private getRoundStatus(interview: IInterview | undefined): RoundStatus {
+    if (!interview) return 'pending';
+    if (interview.roundOutcome) return interview.roundOutcome;
+    return interview.status === 'completed' ? 'awaiting_outcome' : 'scheduled';
+  }
+}
+
+export const interviewLoopService = new InterviewLoopService();
+export default interviewLoopService;
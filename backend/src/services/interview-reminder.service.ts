@@ -0,0 +1,169 @@
+import { Interview, IInterview } from '../models/Interview.model';
+import Notification from '../models/Notification.model';
+import { emailService } from './email.service';
+import { DropOffDetectionService } from './dropoff-detection.service';
+
+// Hours before the interview at which the candidate is reminded automatically
+const DEFAULT_REMINDER_OFFSETS = [48, 2];
+
+const UPCOMING_STATUSES = ['scheduled', 'rescheduled'];
+const HOUR_MS = 60 * 60 * 1000;
+
+class InterviewReminderService {
+  /**
+   * Reminder offsets in hours, largest first. Configured with
+   * INTERVIEW_REMINDER_OFFSETS_HOURS (comma separated, e.g. "48,2").
+   */
+  getReminderOffsets(): number[] {
+    const configured = process.env.INTERVIEW_REMINDER_OFFSETS_HOURS;
+    const offsets = configured
+      ? configured.split(',').map(value => Number(value.trim())).filter(value => Number.isFinite(value) && value > 0)
+      : DEFAULT_REMINDER_OFFSETS;
+
+    return [...new Set(offsets)].sort((a, b) => b - a);
+  }
+
+  /**
+   * Email the candidate a reminder and record it for drop-off detection.
+   * Expects applicationId populated with applicantId and jobId.
+   */
+  async sendReminder(interview: IInterview): Promise<boolean> {
+    const application = interview.applicationId as any;
+    const applicant = application?.applicantId;
+    const job = application?.jobId;
+    if (!applicant?.email || !job) return false;
+
+    const interviewTime = new Date(interview.scheduledTime);
+    await emailService.sendInterviewReminder({
+      applicantName: applicant.fullName,
+      applicantEmail: applicant.email,
+      jobTitle: job.title,
+      companyName: 'HireSense',
+      interviewDate: emailService.formatDate(interviewTime),
+      interviewTime: emailService.formatTime(interviewTime),
+      duration: interview.duration,
+      type: interview.type,
+      meetingLink: interview.meetingLink || undefined,
+      interviewId: interview._id.toString(),
+    });
+
+    await DropOffDetectionService.recordReminderSent(interview._id.toString());
+    return true;
+  }
+
+  /**
+   * Send the reminders whose offset has been reached. Several offsets passing at once
+   * (e.g. after downtime) produce a single email.
+   */
+  async sendDueReminders(): Promise<{ sent: number; skipped: number }> {
+    const offsets = this.getReminderOffsets();
+    if (offsets.length === 0) return { sent: 0, skipped: 0 };
+
+    const now = new Date();
+    const interviews = await Interview.find({
+      status: { $in: UPCOMING_STATUSES },
+      scheduledTime: { $gt: now, $lte: new Date(now.getTime() + offsets[0] * HOUR_MS) }
+    }).populate({
+      path: 'applicationId',
+      populate: { path: 'applicantId jobId' }
+    });
+
+    let sent = 0;
+    let skipped = 0;
+    for (const interview of interviews) {
+      const hoursUntil = (interview.scheduledTime.getTime() - now.getTime()) / HOUR_MS;
+      const due = offsets.filter(offset => offset >= hoursUntil && !(interview.remindersSent || []).includes(offset));
+      if (due.length === 0) continue;
+
+      // Mark the offsets first so a crash mid-send never emails the candidate twice
+      const claimed = await Interview.updateOne(
+        { _id: interview._id, remindersSent: { $nin: due } },
+        { $addToSet: { remindersSent: { $each: due } } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      // Booked inside the reminder window - the invite itself is recent enough
+      const windowOpenedAt = interview.scheduledTime.getTime() - Math.min(...due) * HOUR_MS;
+      if (interview.createdAt.getTime() > windowOpenedAt) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        if (await this.sendReminder(interview)) sent++;
+      } catch (error) {
+        console.error(`Automatic reminder failed for interview ${interview._id}:`, error);
+      }
+    }
+
+    return { sent, skipped };
+  }
+
+  /**
+   * Notify the recruiter once about every upcoming high-risk interview
+   */
+  async escalateHighRiskInterviews(): Promise<number> {
+    const now = new Date();
+    const interviews = await Interview.find({
+      status: { $in: UPCOMING_STATUSES },
+      dropOffRisk: 'high',
+      scheduledTime: { $gt: now },
+      riskEscalatedAt: { $exists: false }
+    }).populate({
+      path: 'applicationId',
+      select: 'applicantId jobId',
+      populate: [
+        { path: 'applicantId', select: 'fullName' },
+        { path: 'jobId', select: 'title recruiterId' }
+      ]
+    });
+
+    let escalated = 0;
+    for (const interview of interviews) {
+      const application = interview.applicationId as any;
+      const job = application?.jobId;
+      const recruiterId = interview.scheduledBy || job?.recruiterId;
+      if (!recruiterId) continue;
+
+      const claimed = await Interview.updateOne(
+        { _id: interview._id, riskEscalatedAt: { $exists: false } },
+        { $set: { riskEscalatedAt: now } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      const assessment = DropOffDetectionService.calculateRisk(interview);
+      const interviewTime = new Date(interview.scheduledTime);
+      await Notification.create({
+        userId: recruiterId,
+        type: 'interview_scheduled',
+        title: '🚨 Interview at risk of a no-show',
+        message: `${application?.applicantId?.fullName || 'A candidate'} has not confirmed the ${job?.title || 'upcoming'} interview on ${emailService.formatDate(interviewTime)} at ${emailService.formatTime(interviewTime)}. ${assessment.suggestedAction}.`,
+        data: { jobId: job?._id, applicationId: application?._id }
+      });
+      escalated++;
+    }
+
+    return escalated;
+  }
+
+  /**
+   * One scheduler pass: re-score drop-off risk, send due reminders, escalate high risk
+   */
+  async runScheduledTasks(): Promise<Record<string, unknown>> {
+    const risks = await DropOffDetectionService.updateAllInterviewRisks();
+    const reminders = await this.sendDueReminders();
+    const escalated = await this.escalateHighRiskInterviews();
+
+    return {
+      riskUpdated: risks.updated,
+      highRisk: risks.highRisk,
+      mediumRisk: risks.mediumRisk,
+      remindersSent: reminders.sent,
+      remindersSkipped: reminders.skipped,
+      escalated
+    };
+  }
+}
+
+export const interviewReminderService = new InterviewReminderService();
+export default interviewReminderService;
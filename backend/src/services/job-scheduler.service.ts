@@ -0,0 +1,175 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { ScheduledJob, IScheduledJob } from '../models/ScheduledJob.model';
+
+export type JobHandler = () => Promise<Record<string, unknown> | void>;
+
+interface RegisteredJob {
+  name: string;
+  intervalMinutes: number;
+  handler: JobHandler;
+}
+
+export interface JobRunResult {
+  name: string;
+  status: 'success' | 'failed' | 'skipped';
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+const DEFAULT_POLL_SECONDS = 60;
+
+// A run holding the lock longer than this is assumed to have died with its process
+const LOCK_TTL_MS = 10 * 60 * 1000;
+
+class JobSchedulerService {
+  private jobs = new Map<string, RegisteredJob>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  /**
+   * Register a recurring job. Registering the same name again replaces the handler.
+   */
+  register(name: string, intervalMinutes: number, handler: JobHandler): void {
+    this.jobs.set(name, { name, intervalMinutes: Math.max(1, Math.round(intervalMinutes)), handler });
+  }
+
+  /**
+   * Poll for due jobs in-process. Used by the long-running server; serverless
+   * deployments trigger runDueJobs() through the scheduler endpoint instead.
+   */
+  start(pollSeconds: number = DEFAULT_POLL_SECONDS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), pollSeconds * 1000);
+    this.timer.unref(); // Never keep the process alive just for the scheduler
+    this.tick();
+    console.log(`⏱️  Job scheduler started (${this.jobs.size} job${this.jobs.size === 1 ? '' : 's'})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every registered job whose persisted nextRunAt has passed. A job another
+   * instance is currently running is skipped.
+   */
+  async runDueJobs(): Promise<JobRunResult[]> {
+    const results: JobRunResult[] = [];
+    for (const job of this.jobs.values()) {
+      results.push(await this.runIfDue(job));
+    }
+    return results;
+  }
+
+  /**
+   * Persisted state of every registered job
+   */
+  async getStatus(): Promise<IScheduledJob[]> {
+    return ScheduledJob.find({ name: { $in: [...this.jobs.keys()] } }).sort({ name: 1 });
+  }
+
+  private async tick(): Promise<void> {
+    // Skip the tick while the previous one is still running or the database is down
+    if (this.ticking || mongoose.connection.readyState !== 1) return;
+
+    this.ticking = true;
+    try {
+      const results = await this.runDueJobs();
+      for (const result of results) {
+        if (result.status === 'failed') {
+          console.error(`❌ Scheduled job "${result.name}" failed:`, result.error);
+        }
+      }
+    } catch (error) {
+      console.error('Job scheduler tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runIfDue(job: RegisteredJob): Promise<JobRunResult> {
+    const claimed = await this.claim(job);
+    if (!claimed) {
+      return { name: job.name, status: 'skipped' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = (await job.handler()) || {};
+      await ScheduledJob.updateOne(
+        { name: job.name, lockedBy: this.workerId },
+        {
+          $set: {
+            lastStatus: 'success',
+            lastResult: result,
+            lastFinishedAt: new Date(),
+            nextRunAt: new Date(startedAt + job.intervalMinutes * 60000)
+          },
+          $unset: { lastError: 1, lockedBy: 1, lockedUntil: 1 },
+          $inc: { runCount: 1 }
+        }
+      );
+      return { name: job.name, status: 'success', result };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      await ScheduledJob.updateOne(
+        { name: job.name, lockedBy: this.workerId },
+        {
+          $set: {
+            lastStatus: 'failed',
+            lastError: message,
+            lastFinishedAt: new Date(),
+            nextRunAt: new Date(startedAt + job.intervalMinutes * 60000)
+          },
+          $unset: { lockedBy: 1, lockedUntil: 1 },
+          $inc: { runCount: 1, failureCount: 1 }
+        }
+      );
+      return { name: job.name, status: 'failed', error: message };
+    }
+  }
+
+  /**
+   * Atomically take the lock on a due job. The state document is created on first
+   * sight, so a brand new job runs immediately.
+   */
+  private async claim(job: RegisteredJob): Promise<boolean> {
+    const now = new Date();
+
+    await ScheduledJob.updateOne(
+      { name: job.name },
+      {
+        $set: { intervalMinutes: job.intervalMinutes },
+        $setOnInsert: { nextRunAt: now }
+      },
+      { upsert: true }
+    );
+
+    const claimed = await ScheduledJob.findOneAndUpdate(
+      {
+        name: job.name,
+        nextRunAt: { $lte: now },
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: null }, { lockedUntil: { $lte: now } }]
+      },
+      {
+        $set: {
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+          lastRunAt: now
+        }
+      },
+      { new: true }
+    );
+
+    return !!claimed;
+  }
+}
+
+export const jobScheduler = new JobSchedulerService();
+export default jobScheduler;
@@ -0,0 +1,424 @@
+import {
+  LLM_FEATURES,
+  LlmCapability,
+  LlmFeature,
+  LlmProviderName,
+  getFeatureCapability,
+  getFeatureModel,
+  getFeatureProviders,
+} from '../config/llm';
+import {
+  LlmChatRequest,
+  LlmChatResult,
+  LlmMessage,
+  LlmProvider,
+  LlmSpeechOptions,
+  LlmSpeechResult,
+  LlmTranscriptionOptions,
+  LlmTranscriptionResult,
+  LlmUsage,
+} from './llm/llm.types';
+import geminiProvider from './llm/gemini.provider';
+import groqProvider from './llm/groq.provider';
+import selfHostedProvider from './llm/self-hosted.provider';
+import localProvider from './llm/local.provider';
+import llmCacheService from './llm/llm-cache.service';
+import llmUsageService, { LlmBudgetExceededError, LlmCallContext } from './llm/llm-usage.service';
+import { OutputSchema, validateOutput } from './llm/output-schema';
+import type { RenderedPrompt } from './llm/prompt-templates';
+import { LlmCallStatus } from '../models/LlmUsage.model';
+import { CircuitBreaker, CircuitState, circuitBreakers } from '../utils/circuit-breaker';
+import { UNTRUSTED_CONTENT_INSTRUCTION } from './content-guard.service';
+
+export interface LlmGenerateOptions extends LlmCallContext {
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  cache?: boolean; // Reuse the reply of an identical earlier request (default true)
+  promptVersion?: string; // Part of the cache key, so a new prompt never gets old replies
+  schema?: OutputSchema; // JSON replies that don't match count as a provider failure
+  untrustedContent?: boolean; // The prompt carries fenced candidate text (see content-guard.service)
+}
+
+export interface LlmFeatureHealth {
+  feature: LlmFeature;
+  capability: LlmCapability;
+  available: boolean; // At least one provider would be tried right now
+  providers: Array<{ name: LlmProviderName; configured: boolean; circuit: CircuitState }>;
+}
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  gemini: geminiProvider,
+  groq: groqProvider,
+  'self-hosted': selfHostedProvider,
+  local: localProvider,
+};
+
+// Provider method each capability needs
+const CAPABILITY_METHODS: Record<LlmCapability, keyof LlmProvider> = {
+  chat: 'chat',
+  transcription: 'transcribe',
+  speech: 'textToSpeech',
+};
+
+/**
+ * Single entry point for AI calls. Each feature goes to the providers configured for
+ * it (see config/llm.ts), falling back to the next one when a provider fails.
+ * A provider whose circuit is open for a capability is skipped without a call.
+ * Chat replies are cached, every call is metered, and a feature or recruiter out of
+ * daily budget gets LlmBudgetExceededError instead of a provider call.
+ */
+class LlmService {
+  /**
+   * Whether any configured provider can serve the feature right now
+   */
+  isAvailable(feature: LlmFeature): boolean {
+    return this.getProviders(feature).length > 0;
+  }
+
+  /**
+   * Which providers each feature would use right now, in fallback order
+   */
+  getHealth(): LlmFeatureHealth[] {
+    return LLM_FEATURES.map(feature => {
+      const capability = getFeatureCapability(feature);
+      const providers = getFeatureProviders(feature).map(name => {
+        const provider = PROVIDERS[name];
+        return {
+          name,
+          configured: typeof provider[CAPABILITY_METHODS[capability]] === 'function' && provider.isAvailable(capability),
+          circuit: this.getBreaker(provider, capability).getState(),
+        };
+      });
+
+      return {
+        feature,
+        capability,
+        available: providers.some(provider => provider.configured && provider.circuit !== 'open'),
+        providers,
+      };
+    });
+  }
+
+  async chat(feature: LlmFeature, messages: LlmMessage[], options: LlmGenerateOptions = {}): Promise<LlmChatResult> {
+    return this.withFallback(feature, provider =>
+      this.complete(feature, provider, messages, options, false, result => result)
+    );
+  }
+
+  async generateText(feature: LlmFeature, prompt: string, options: LlmGenerateOptions = {}): Promise<string> {
+    const result = await this.chat(feature, this.toMessages(prompt, options), options);
+    return result.content;
+  }
+
+  /**
+   * Ask for a JSON reply and parse it. A reply that isn't valid JSON counts as a
+   * failure of that provider, so the next one gets a try, and is never cached.
+   */
+  async generateJSON<T>(feature: LlmFeature, prompt: string, options: LlmGenerateOptions = {}): Promise<T> {
+    const messages = this.toMessages(prompt, options);
+    return this.withFallback(feature, provider =>
+      this.complete(feature, provider, messages, options, true, result => {
+        const parsed = this.parseJSON<T>(result.content);
+        if (options.schema) {
+          const problems = validateOutput(parsed, options.schema);
+          if (problems.length) {
+            throw new Error(`Reply does not match the expected output: ${problems.slice(0, 3).join('; ')}`);
+          }
+        }
+        return parsed;
+      })
+    );
+  }
+
+  /**
+   * Run a prompt from the prompt registry: its system text and output schema apply, and
+   * its version is part of the cache key and the usage records
+   */
+  async generateFromPrompt<T>(prompt: RenderedPrompt, options: LlmGenerateOptions = {}): Promise<T> {
+    return this.generateJSON<T>(prompt.name, prompt.prompt, {
+      ...options,
+      system: prompt.system,
+      promptVersion: prompt.promptVersion,
+      schema: prompt.outputSchema,
+    });
+  }
+
+  /**
+   * Stream a chat reply. Providers without streaming send the whole reply as one chunk.
+   * Once a chunk went out, a failure is not retried on another provider. Streams are
+   * not cached, and their tokens are estimated from the text.
+   */
+  async *chatStream(
+    feature: LlmFeature,
+    messages: LlmMessage[],
+    options: LlmGenerateOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    await llmUsageService.assertWithinBudget(feature, options);
+    let lastError: unknown;
+
+    for (const provider of this.getProviders(feature)) {
+      const breaker = this.getBreaker(provider, 'chat');
+      if (!breaker.acquire()) continue;
+
+      const request = this.buildRequest(feature, provider, messages, options, false);
+      const startedAt = Date.now();
+      let content = '';
+      let started = false;
+      let settled = false;
+      try {
+        if (provider.chatStream) {
+          for await (const chunk of provider.chatStream(request)) {
+            started = true;
+            content += chunk;
+            yield chunk;
+          }
+        } else {
+          const result = await provider.chat!(request);
+          started = true;
+          content = result.content;
+          yield result.content;
+        }
+        settled = true;
+        breaker.recordSuccess();
+        this.meterChat(feature, provider, request, options, startedAt, 'success', { content });
+        return;
+      } catch (error) {
+        settled = true;
+        breaker.recordFailure(error);
+        this.meterChat(feature, provider, request, options, startedAt, 'failed', { content, error });
+        if (started) throw error;
+        this.logFailure(feature, provider, error);
+        lastError = error;
+      } finally {
+        // The reader stopped early - the provider was answering fine
+        if (!settled) breaker.recordSuccess();
+      }
+    }
+
+    throw this.unavailableError(feature, lastError);
+  }
+
+  async transcribe(
+    feature: LlmFeature,
+    audio: Buffer,
+    options: LlmTranscriptionOptions = {}
+  ): Promise<LlmTranscriptionResult> {
+    return this.withFallback(feature, provider =>
+      this.metered(feature, provider, () => provider.transcribe!(audio, options))
+    );
+  }
+
+  async textToSpeech(feature: LlmFeature, text: string, options: LlmSpeechOptions = {}): Promise<LlmSpeechResult> {
+    return this.withFallback(feature, provider =>
+      this.metered(feature, provider, () => provider.textToSpeech!(text, options))
+    );
+  }
+
+  /**
+   * Configured providers of a feature that are set up for its capability and whose
+   * circuit currently lets calls through
+   */
+  private getProviders(feature: LlmFeature): LlmProvider[] {
+    const capability = getFeatureCapability(feature);
+    return getFeatureProviders(feature)
+      .map(name => PROVIDERS[name])
+      .filter(provider =>
+        typeof provider[CAPABILITY_METHODS[capability]] === 'function' &&
+        provider.isAvailable(capability) &&
+        this.getBreaker(provider, capability).isCallPermitted()
+      );
+  }
+
+  /**
+   * Health of one provider for one capability - Groq transcription can be down while its
+   * chat works. Key-level breakers live in the provider clients.
+   */
+  private getBreaker(provider: LlmProvider, capability: LlmCapability): CircuitBreaker {
+    return circuitBreakers.get(`${provider.name}:${capability}`);
+  }
+
+  private async withFallback<T>(feature: LlmFeature, run: (provider: LlmProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const provider of this.getProviders(feature)) {
+      try {
+        return await run(provider);
+      } catch (error) {
+        // Budgets are per feature and recruiter, so another provider wouldn't help
+        if (error instanceof LlmBudgetExceededError) throw error;
+        this.logFailure(feature, provider, error);
+        lastError = error;
+      }
+    }
+
+    throw this.unavailableError(feature, lastError);
+  }
+
+  /**
+   * One chat call on one provider: answered from the cache when an identical request
+   * was made before, otherwise checked against the budgets, sent and metered. `read`
+   * turns the reply into the caller's value; a reply it rejects is not cached.
+   */
+  private async complete<T>(
+    feature: LlmFeature,
+    provider: LlmProvider,
+    messages: LlmMessage[],
+    options: LlmGenerateOptions,
+    json: boolean,
+    read: (result: LlmChatResult) => T
+  ): Promise<T> {
+    const request = this.buildRequest(feature, provider, messages, options, json);
+    const cacheKey = options.cache !== false && llmCacheService.isEnabled()
+      ? llmCacheService.buildKey(request, request.model!, options.promptVersion)
+      : null;
+
+    if (cacheKey) {
+      const hit = await llmCacheService.get(cacheKey);
+      if (hit) {
+        try {
+          const value = read({ content: hit.content, provider: provider.name, model: request.model! });
+          this.meterChat(feature, provider, request, options, Date.now(), 'cached', {});
+          return value;
+        } catch {
+          // Not readable any more (e.g. stricter parsing) - ask again and overwrite it
+        }
+      }
+    }
+
+    await llmUsageService.assertWithinBudget(feature, options);
+
+    const startedAt = Date.now();
+    let result: LlmChatResult | undefined;
+    try {
+      result = await this.getBreaker(provider, 'chat').execute(() => provider.chat!(request));
+      const value = read(result);
+      const usage = this.meterChat(feature, provider, request, options, startedAt, 'success', { result });
+      if (cacheKey) {
+        await llmCacheService.set(cacheKey, feature, result, usage.totalTokens);
+      }
+      return value;
+    } catch (error) {
+      this.meterChat(feature, provider, request, options, startedAt, 'failed', { result, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a chat call. Tokens come from the provider when it reports them and are
+   * estimated from the text otherwise; cached replies cost nothing.
+   */
+  private meterChat(
+    feature: LlmFeature,
+    provider: LlmProvider,
+    request: LlmChatRequest,
+    options: LlmGenerateOptions,
+    startedAt: number,
+    status: LlmCallStatus,
+    outcome: { result?: LlmChatResult; content?: string; error?: unknown }
+  ): LlmUsage {
+    let usage: LlmUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let estimated = false;
+
+    if (status !== 'cached') {
+      if (outcome.result?.usage) {
+        usage = outcome.result.usage;
+      } else if (outcome.result || outcome.content) {
+        const promptTokens = llmUsageService.estimateTokens(request.messages.map(message => message.content).join('\n'));
+        const completionTokens = llmUsageService.estimateTokens(outcome.result?.content ?? outcome.content ?? '');
+        usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        estimated = true;
+      }
+    }
+
+    llmUsageService.record({
+      feature,
+      provider: provider.name,
+      model: outcome.result?.model || request.model,
+      promptVersion: options.promptVersion,
+      recruiterId: options.recruiterId,
+      userId: options.userId,
+      status,
+      usage,
+      estimated,
+      latencyMs: Date.now() - startedAt,
+      error: outcome.error ? (outcome.error as Error)?.message || String(outcome.error) : undefined,
+    });
+    return usage;
+  }
+
+  /**
+   * Run a speech call and record its latency. Speech has no tokens, so no budget applies.
+   */
+  private async metered<T>(feature: LlmFeature, provider: LlmProvider, run: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await this.getBreaker(provider, getFeatureCapability(feature)).execute(run);
+      llmUsageService.record({ feature, provider: provider.name, status: 'success', latencyMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      llmUsageService.record({
+        feature,
+        provider: provider.name,
+        status: 'failed',
+        latencyMs: Date.now() - startedAt,
+        error: (error as Error)?.message || String(error),
+      });
+      throw error;
+    }
+  }
+
+  private buildRequest(
+    feature: LlmFeature,
+    provider: LlmProvider,
+    messages: LlmMessage[],
+    options: LlmGenerateOptions,
+    json: boolean
+  ): LlmChatRequest {
+    return {
+      feature,
+      messages,
+      model: getFeatureModel(feature, provider.name) || provider.defaultModel,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      json,
+    };
+  }
+
+  private toMessages(prompt: string, options: LlmGenerateOptions): LlmMessage[] {
+    const system = [options.system, options.untrustedContent ? UNTRUSTED_CONTENT_INSTRUCTION : undefined]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return system
+      ? [{ role: 'system', content: system }, { role: 'user', content: prompt }]
+      : [{ role: 'user', content: prompt }];
+  }
+
+  /**
+   * Parse a JSON reply, tolerating markdown code fences and text around the JSON
+   */
+  private parseJSON<T>(text: string): T {
+    const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+    try {
+      return JSON.parse(cleaned);
+    } catch (error) {
+      const start = cleaned.search(/[{[]/);
+      const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+      if (start === -1 || end <= start) throw error;
+      return JSON.parse(cleaned.slice(start, end + 1));
+    }
+  }
+
+  private logFailure(feature: LlmFeature, provider: LlmProvider, error: unknown): void {
+    console.warn(`⚠️ LLM provider ${provider.name} failed for ${feature}:`, (error as Error)?.message || error);
+  }
+
+  private unavailableError(feature: LlmFeature, lastError: unknown): Error {
+    if (lastError instanceof Error) return lastError;
+    return new Error(`No LLM provider available for ${feature}`);
+  }
+}
+
+export const llmService = new LlmService();
+export default llmService;
@@ -0,0 +1,82 @@
+import { Content, GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { geminiClient } from '../../utils/gemini-client';
+import { LlmCapability } from '../../config/llm';
+import { LlmChatRequest, LlmChatResult, LlmProvider } from './llm.types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Google Gemini chat. Key rotation and rate-limit retries come from the Gemini client.
+ */
+class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+  readonly defaultModel = DEFAULT_MODEL;
+
+  isAvailable(capability: LlmCapability): boolean {
+    return capability === 'chat' && geminiClient.isEnabled();
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const modelName = request.model || DEFAULT_MODEL;
+
+    return geminiClient.executeWithFallback(async (client) => {
+      const result = await this.getModel(client, request, modelName)
+        .generateContent({ contents: this.toContents(request) });
+      const usage = result.response.usageMetadata;
+
+      return {
+        content: result.response.text(),
+        provider: this.name,
+        model: modelName,
+        usage: usage ? {
+          promptTokens: usage.promptTokenCount,
+          completionTokens: usage.candidatesTokenCount,
+          totalTokens: usage.totalTokenCount,
+        } : undefined,
+      };
+    });
+  }
+
+  async *chatStream(request: LlmChatRequest): AsyncGenerator<string, void, unknown> {
+    const modelName = request.model || DEFAULT_MODEL;
+    const result = await geminiClient.executeWithFallback(client =>
+      this.getModel(client, request, modelName).generateContentStream({ contents: this.toContents(request) })
+    );
+
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+  }
+
+  private getModel(client: GoogleGenerativeAI, request: LlmChatRequest, modelName: string): GenerativeModel {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return client.getGenerativeModel({
+      model: modelName,
+      systemInstruction: system || undefined,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        responseMimeType: request.json ? 'application/json' : undefined,
+      },
+    });
+  }
+
+  private toContents(request: LlmChatRequest): Content[] {
+    return request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }));
+  }
+}
+
+export const geminiProvider = new GeminiProvider();
+export default geminiProvider;
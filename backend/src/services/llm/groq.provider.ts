@@ -0,0 +1,67 @@
+import { groqService } from '../groq.service';
+import {
+  LlmChatRequest,
+  LlmChatResult,
+  LlmProvider,
+  LlmSpeechOptions,
+  LlmSpeechResult,
+  LlmTranscriptionOptions,
+  LlmTranscriptionResult,
+} from './llm.types';
+
+const DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+
+// Groq has no JSON mode switch here, so JSON replies are asked for in the prompt
+const JSON_INSTRUCTION = 'IMPORTANT: Respond ONLY with valid JSON. No markdown code blocks, no explanations.';
+
+/**
+ * Groq-hosted Llama chat, Whisper transcription and Orpheus speech. Key rotation and
+ * retries come from the Groq service.
+ */
+class GroqProvider implements LlmProvider {
+  readonly name = 'groq' as const;
+  readonly defaultModel = DEFAULT_MODEL;
+
+  isAvailable(): boolean {
+    return groqService.isAvailable();
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const model = request.model || DEFAULT_MODEL;
+    const result = await groqService.chatCompletion(this.toMessages(request), {
+      model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+    });
+
+    return { content: result.content, provider: this.name, model, usage: result.usage };
+  }
+
+  chatStream(request: LlmChatRequest): AsyncGenerator<string, void, unknown> {
+    return groqService.chatCompletionStream(this.toMessages(request), {
+      model: request.model || DEFAULT_MODEL,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+    });
+  }
+
+  transcribe(audio: Buffer, options: LlmTranscriptionOptions): Promise<LlmTranscriptionResult> {
+    return groqService.transcribe(audio, options);
+  }
+
+  textToSpeech(text: string, options: LlmSpeechOptions): Promise<LlmSpeechResult> {
+    return groqService.textToSpeech(text, { voice: options.voice });
+  }
+
+  private toMessages(request: LlmChatRequest) {
+    if (!request.json) return request.messages;
+
+    const [first, ...rest] = request.messages;
+    return first?.role === 'system'
+      ? [{ role: first.role, content: `${first.content}\n\n${JSON_INSTRUCTION}` }, ...rest]
+      : [{ role: 'system' as const, content: JSON_INSTRUCTION }, ...request.messages];
+  }
+}
+
+export const groqProvider = new GroqProvider();
+export default groqProvider;
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { LlmFeature, getCacheTtlHours } from '../../config/llm';
+import LlmCacheEntry from '../../models/LlmCacheEntry.model';
+import { LlmChatRequest, LlmChatResult } from './llm.types';
+
+// Bump to drop every cached reply, e.g. after a change in how replies are parsed
+const CACHE_FORMAT_VERSION = '1';
+
+export interface LlmCacheHit {
+  content: string;
+  totalTokens: number;
+}
+
+/**
+ * Content-addressed store of LLM replies. The key covers everything that shapes the
+ * reply - messages, model, JSON mode, temperature and the prompt version - so a
+ * changed prompt never gets an old answer.
+ */
+class LlmCacheService {
+  isEnabled(): boolean {
+    return getCacheTtlHours() > 0 && mongoose.connection.readyState === 1;
+  }
+
+  buildKey(request: LlmChatRequest, model: string, promptVersion = ''): string {
+    const inputs = {
+      format: CACHE_FORMAT_VERSION,
+      promptVersion,
+      model,
+      json: !!request.json,
+      temperature: request.temperature ?? null,
+      maxTokens: request.maxTokens ?? null,
+      messages: request.messages
+    };
+    return crypto.createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+  }
+
+  /**
+   * Cached reply for the key, counting the hit
+   */
+  async get(key: string): Promise<LlmCacheHit | null> {
+    try {
+      const entry = await LlmCacheEntry.findOneAndUpdate(
+        { key, expiresAt: { $gt: new Date() } },
+        { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+        { new: true }
+      ).select('content totalTokens').lean();
+
+      return entry ? { content: entry.content, totalTokens: entry.totalTokens } : null;
+    } catch (error) {
+      console.warn('⚠️ LLM cache lookup failed:', (error as Error).message);
+      return null;
+    }
+  }
+
+  async set(key: string, feature: LlmFeature, result: LlmChatResult, totalTokens: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + getCacheTtlHours() * 60 * 60 * 1000);
+
+    try {
+      await LlmCacheEntry.updateOne(
+        { key },
+        {
+          $set: {
+            feature,
+            provider: result.provider,
+            modelName: result.model,
+            content: result.content,
+            totalTokens,
+            expiresAt
+          },
+          $setOnInsert: { hits: 0 }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.warn('⚠️ LLM cache write failed:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Drop cached replies, all of them or those of one feature
+   */
+  async clear(feature?: LlmFeature): Promise<number> {
+    const result = await LlmCacheEntry.deleteMany(feature ? { feature } : {});
+    return result.deletedCount || 0;
+  }
+}
+
+export const llmCacheService = new LlmCacheService();
+export default llmCacheService;
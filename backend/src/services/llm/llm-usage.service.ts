@@ -0,0 +1,237 @@
+import mongoose from 'mongoose';
+import { AppError } from '../../middleware/errorHandler';
+import {
+  LLM_FEATURES,
+  LlmFeature,
+  LlmProviderName,
+  getFeatureDailyBudget,
+  getRecruiterDailyBudget
+} from '../../config/llm';
+import LlmUsage, { LlmCallStatus } from '../../models/LlmUsage.model';
+import { LlmUsage as LlmTokenUsage } from './llm.types';
+
+const MAX_SUMMARY_DAYS = 90;
+const TOP_RECRUITERS = 10;
+
+/**
+ * Who an AI call is made for. Recruiter calls count against the recruiter's daily budget.
+ */
+export interface LlmCallContext {
+  recruiterId?: string;
+  userId?: string;
+}
+
+export interface LlmCallRecord extends LlmCallContext {
+  feature: LlmFeature;
+  provider?: LlmProviderName;
+  model?: string;
+  promptVersion?: string;
+  status: LlmCallStatus;
+  usage?: LlmTokenUsage;
+  estimated?: boolean;
+  latencyMs?: number;
+  error?: string;
+}
+
+/**
+ * Thrown when a feature or recruiter used up its daily token budget. Callers with a
+ * deterministic fallback catch it like any other AI failure.
+ */
+export class LlmBudgetExceededError extends AppError {
+  feature: LlmFeature;
+  scope: 'feature' | 'recruiter';
+
+  constructor(feature: LlmFeature, scope: 'feature' | 'recruiter') {
+    super(
+      scope === 'feature'
+        ? `The daily AI budget for ${feature.replace(/_/g, ' ')} is used up. Try again tomorrow.`
+        : 'Your daily AI budget is used up. Try again tomorrow.',
+      429
+    );
+    this.feature = feature;
+    this.scope = scope;
+  }
+}
+
+const toObjectId = (id?: string): mongoose.Types.ObjectId | undefined =>
+  id && mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : undefined;
+
+/**
+ * Meters AI calls (tokens and latency) in Mongo and enforces the daily budgets
+ * configured per feature and per recruiter. Without a database connection (scripts,
+ * tests) nothing is recorded and no budget applies.
+ */
+class LlmUsageService {
+  isEnabled(): boolean {
+    return mongoose.connection.readyState === 1;
+  }
+
+  /**
+   * UTC day the budgets are counted on
+   */
+  today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Rough token count of a text, for providers that don't report usage
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  /**
+   * Throw LlmBudgetExceededError when the feature or the recruiter has no budget left
+   * today. The refused call is recorded too, so the report shows how often it happens.
+   */
+  async assertWithinBudget(feature: LlmFeature, context: LlmCallContext = {}): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const day = this.today();
+    const featureBudget = getFeatureDailyBudget(feature);
+    if (featureBudget && await this.getTokensUsed({ day, feature }) >= featureBudget) {
+      this.record({ ...context, feature, status: 'budget_exceeded' });
+      throw new LlmBudgetExceededError(feature, 'feature');
+    }
+
+    const recruiterId = toObjectId(context.recruiterId);
+    const recruiterBudget = getRecruiterDailyBudget();
+    if (recruiterId && recruiterBudget && await this.getTokensUsed({ day, recruiterId }) >= recruiterBudget) {
+      this.record({ ...context, feature, status: 'budget_exceeded' });
+      throw new LlmBudgetExceededError(feature, 'recruiter');
+    }
+  }
+
+  /**
+   * Store a call record. Metering never blocks or fails the call itself.
+   */
+  record(record: LlmCallRecord): void {
+    if (!this.isEnabled()) return;
+
+    LlmUsage.create({
+      feature: record.feature,
+      provider: record.provider,
+      modelName: record.model,
+      promptVersion: record.promptVersion,
+      recruiterId: toObjectId(record.recruiterId),
+      userId: toObjectId(record.userId),
+      status: record.status,
+      promptTokens: record.usage?.promptTokens || 0,
+      completionTokens: record.usage?.completionTokens || 0,
+      totalTokens: record.usage?.totalTokens || 0,
+      estimated: !!record.estimated,
+      latencyMs: record.latencyMs || 0,
+      error: record.error?.slice(0, 500),
+      day: this.today()
+    }).catch(error => console.warn('⚠️ Failed to record LLM usage:', error.message));
+  }
+
+  /**
+   * Usage per feature and per prompt version over the last days, today's usage against
+   * the budgets and the recruiters using the most tokens today
+   */
+  async getSummary(days = 7) {
+    const span = Math.min(Math.max(Math.floor(days) || 1, 1), MAX_SUMMARY_DAYS);
+    const today = this.today();
+    const since = new Date(`${today}T00:00:00.000Z`);
+    since.setUTCDate(since.getUTCDate() - (span - 1));
+    const fromDay = since.toISOString().slice(0, 10);
+
+    const [byFeature, byPromptVersion, todayByFeature, topRecruiters] = await Promise.all([
+      LlmUsage.aggregate([
+        { $match: { day: { $gte: fromDay } } },
+        {
+          $group: {
+            _id: { feature: '$feature', provider: '$provider' },
+            calls: { $sum: 1 },
+            cachedCalls: { $sum: { $cond: [{ $eq: ['$status', 'cached'] }, 1, 0] } },
+            failedCalls: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+            budgetExceededCalls: { $sum: { $cond: [{ $eq: ['$status', 'budget_exceeded'] }, 1, 0] } },
+            promptTokens: { $sum: '$promptTokens' },
+            completionTokens: { $sum: '$completionTokens' },
+            totalTokens: { $sum: '$totalTokens' },
+            avgLatencyMs: { $avg: { $cond: [{ $eq: ['$status', 'success'] }, '$latencyMs', null] } }
+          }
+        },
+        { $sort: { totalTokens: -1 } }
+      ]),
+      // Failures include replies that didn't match the prompt's output schema
+      LlmUsage.aggregate([
+        { $match: { day: { $gte: fromDay }, promptVersion: { $exists: true } } },
+        {
+          $group: {
+            _id: '$promptVersion',
+            calls: { $sum: 1 },
+            cachedCalls: { $sum: { $cond: [{ $eq: ['$status', 'cached'] }, 1, 0] } },
+            failedCalls: { $sum: { $cond: [{ $eq: ['$status', 'failed'] }, 1, 0] } },
+            totalTokens: { $sum: '$totalTokens' },
+            avgLatencyMs: { $avg: { $cond: [{ $eq: ['$status', 'success'] }, '$latencyMs', null] } }
+          }
+        },
+        { $sort: { _id: 1 } }
+      ]),
+      LlmUsage.aggregate([
+        { $match: { day: today } },
+        { $group: { _id: '$feature', totalTokens: { $sum: '$totalTokens' } } }
+      ]),
+      LlmUsage.aggregate([
+        { $match: { day: today, recruiterId: { $exists: true } } },
+        { $group: { _id: '$recruiterId', calls: { $sum: 1 }, totalTokens: { $sum: '$totalTokens' } } },
+        { $sort: { totalTokens: -1 } },
+        { $limit: TOP_RECRUITERS }
+      ])
+    ]);
+
+    const usedToday = new Map<string, number>(todayByFeature.map(row => [row._id, row.totalTokens]));
+    const recruiterBudget = getRecruiterDailyBudget() ?? null;
+
+    return {
+      from: fromDay,
+      to: today,
+      features: byFeature.map(row => ({
+        feature: row._id.feature as LlmFeature,
+        provider: (row._id.provider || null) as LlmProviderName | null,
+        calls: row.calls,
+        cachedCalls: row.cachedCalls,
+        failedCalls: row.failedCalls,
+        budgetExceededCalls: row.budgetExceededCalls,
+        promptTokens: row.promptTokens,
+        completionTokens: row.completionTokens,
+        totalTokens: row.totalTokens,
+        avgLatencyMs: row.avgLatencyMs === null ? null : Math.round(row.avgLatencyMs)
+      })),
+      promptVersions: byPromptVersion.map(row => ({
+        promptVersion: row._id as string,
+        calls: row.calls,
+        cachedCalls: row.cachedCalls,
+        failedCalls: row.failedCalls,
+        totalTokens: row.totalTokens,
+        avgLatencyMs: row.avgLatencyMs === null ? null : Math.round(row.avgLatencyMs)
+      })),
+      budgets: LLM_FEATURES.map(feature => ({
+        feature,
+        dailyTokenBudget: getFeatureDailyBudget(feature) ?? null,
+        tokensUsedToday: usedToday.get(feature) || 0
+      })),
+      recruiters: {
+        dailyTokenBudget: recruiterBudget,
+        topToday: topRecruiters.map(row => ({
+          recruiterId: row._id.toString(),
+          calls: row.calls,
+          tokensUsedToday: row.totalTokens
+        }))
+      }
+    };
+  }
+
+  private async getTokensUsed(match: Record<string, unknown>): Promise<number> {
+    const [row] = await LlmUsage.aggregate([
+      { $match: match },
+      { $group: { _id: null, totalTokens: { $sum: '$totalTokens' } } }
+    ]);
+    return row?.totalTokens || 0;
+  }
+}
+
+export const llmUsageService = new LlmUsageService();
+export default llmUsageService;
@@ -0,0 +1,66 @@
+import type { LlmCapability, LlmFeature, LlmProviderName } from '../../config/llm';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatRequest {
+  feature: LlmFeature; // Lets the local provider pick the matching fixture
+  messages: LlmMessage[];
+  model?: string; // Provider default when not set
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a JSON-only reply
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmChatResult {
+  content: string;
+  provider: LlmProviderName;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmTranscriptionOptions {
+  filename?: string;
+  mimeType?: string;
+  language?: string;
+}
+
+export interface LlmTranscriptionResult {
+  text: string;
+  words?: Array<{ word: string; start: number; end: number }>;
+  segments?: Array<{ id: number; text: string; start: number; end: number }>;
+  language?: string;
+  duration?: number;
+}
+
+export interface LlmSpeechOptions {
+  voice?: string;
+}
+
+export interface LlmSpeechResult {
+  audioBuffer: Buffer;
+  contentType: string;
+}
+
+/**
+ * One backend the LLM service can route a feature to. Providers handle their own
+ * keys and retries; the service handles fallback between providers and JSON parsing.
+ * Optional methods are left out by providers without that capability.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly defaultModel?: string; // Chat model used when the request names none
+  isAvailable(capability: LlmCapability): boolean; // Configured (keys, binaries) for that capability
+  chat?(request: LlmChatRequest): Promise<LlmChatResult>;
+  chatStream?(request: LlmChatRequest): AsyncGenerator<string, void, unknown>;
+  transcribe?(audio: Buffer, options: LlmTranscriptionOptions): Promise<LlmTranscriptionResult>;
+  textToSpeech?(text: string, options: LlmSpeechOptions): Promise<LlmSpeechResult>;
+}
@@ -0,0 +1,153 @@
+import type { LlmFeature } from '../../config/llm';
+
+/**
+ * Canned replies of the offline local provider, one per chat feature. They follow the
+ * JSON shape each feature's prompt asks for, so callers run their normal parsing and
+ * validation on them.
+ */
+export const LOCAL_CHAT_FIXTURES: Partial<Record<LlmFeature, unknown>> = {
+  resume_parsing: {
+    skills: ['JavaScript', 'TypeScript', 'React', 'Node.js', 'MongoDB'],
+    yearsOfExperience: 3,
+    bio: 'Full-stack developer building web applications with React and Node.js.',
+    location: 'Remote',
+    linkedinUrl: null,
+    portfolioUrl: null,
+    githubUsername: null,
+    experiences: [
+      {
+        company: 'Example Corp',
+        role: 'Software Engineer',
+        startDate: '2022-01',
+        endDate: null,
+        current: true,
+        description: 'Built React and Node.js features for the customer dashboard.',
+      },
+    ],
+    education: [
+      { degree: 'B.S. Computer Science', institution: 'Example University', year: '2021' },
+    ],
+    projects: [
+      {
+        name: 'Task Tracker',
+        description: 'Kanban-style task tracker with real-time updates.',
+        techStack: ['React', 'Node.js', 'MongoDB'],
+      },
+    ],
+    certifications: [],
+    experienceText: 'Software Engineer at Example Corp (2022 - present)',
+    educationText: 'B.S. Computer Science, Example University, 2021',
+  },
+
+  candidate_evaluation: {
+    overallScore: 70,
+    aiMatchScore: 70,
+    hiringReadinessScore: 68,
+    skillMatch: 72,
+    experienceScore: 65,
+    educationScore: 70,
+    projectAlignmentScore: 66,
+    strengths: ['Relevant skills for the role', 'Hands-on project experience'],
+    gaps: ['Limited production experience at scale'],
+    riskFactors: [],
+    recommendation: 'review',
+    confidence: 60,
+    confidenceLevel: 'medium',
+    aiSummary: 'Offline evaluation: the candidate covers most of the required skills.',
+    projectAnalysis: 'Projects use parts of the required tech stack.',
+    interviewQuestions: ['Walk us through a project you are proud of.'],
+    improvementSuggestions: ['Add measurable outcomes to project descriptions.'],
+  },
+
+  rejection_feedback: {
+    subject: 'Update on your application',
+    feedback: 'Thank you for your interest in the role. After careful review, we have decided to move forward with other candidates whose experience more closely matches the current needs of the team.',
+    suggestions: [
+      'Build a project that uses the core technologies of the role',
+      'Describe the impact of your work with concrete examples',
+      'Keep your profile skills up to date',
+    ],
+    encouragement: 'We encourage you to apply for future openings that match your profile.',
+  },
+
+  applicant_feedback: {
+    statusMessage: 'The team decided to continue with candidates whose experience more closely matches the role.',
+    reasons: ['The role calls for more hands-on experience with its core technologies'],
+    improvementAreas: [
+      'Build a project with the technologies listed in the job',
+      'Highlight the results of your work on your profile',
+      'Practice explaining your technical decisions',
+    ],
+    learningFocus: ['Core technologies of the role', 'System design basics', 'Testing practices'],
+    encouragement: 'Keep learning and building - every project brings you closer to the right role.',
+  },
+
+  github_analysis: {
+    overallScore: 60,
+    strengths: ['Consistent coding activity', 'Projects in several languages'],
+    insights: ['Most repositories are personal projects'],
+    recommendations: ['Add READMEs that explain what each project does'],
+  },
+
+  interview_questions: {
+    questions: [
+      { questionText: 'Can you introduce yourself and tell me about your background?', category: 'experience', difficulty: 'easy' },
+      { questionText: 'What motivated you to pursue this career?', category: 'career', difficulty: 'easy' },
+      { questionText: 'Which technology do you know best, and how have you used it?', category: 'technical', difficulty: 'easy' },
+      { questionText: 'Tell me about a project you are proud of. What was your role?', category: 'experience', difficulty: 'medium' },
+      { questionText: 'How do you approach debugging a complex issue in production?', category: 'technical', difficulty: 'medium' },
+      { questionText: 'Describe a disagreement with a teammate and how you resolved it.', category: 'behavioral', difficulty: 'medium' },
+      { questionText: 'How would you design a service that must handle ten times its current traffic?', category: 'problem_solving', difficulty: 'hard' },
+      { questionText: 'Tell me about a mistake you made and what you learned from it.', category: 'behavioral', difficulty: 'medium' },
+      { questionText: 'A feature is late and the deadline cannot move. What do you do?', category: 'problem_solving', difficulty: 'medium' },
+      { questionText: 'Where do you see yourself in 3-5 years?', category: 'career', difficulty: 'easy' },
+    ],
+  },
+
+  interview_answer_evaluation: {
+    technicalScore: 7,
+    communicationScore: 7,
+    confidenceScore: 7,
+    feedback: 'Clear answer with a relevant example. Adding a concrete outcome would make it stronger.',
+  },
+
+  interview_final_evaluation: {
+    aiReadinessScore: 70,
+    technicalProficiency: 70,
+    communicationSkills: 72,
+    problemSolving: 68,
+    cultureFit: 74,
+    confidenceLevel: 70,
+    overallVerdict: 'hire',
+    detailedFeedback: 'Offline evaluation: the answers were relevant and clearly structured. Deeper technical detail and measurable outcomes would strengthen them.',
+    strengths: ['Clear communication', 'Relevant examples'],
+    areasForImprovement: ['Go deeper on technical trade-offs', 'Quantify the impact of your work'],
+    recommendedResources: ['System Design Interview by Alex Xu', 'Mock interview practice'],
+  },
+};
+
+export const LOCAL_TRANSCRIPT = 'This is an offline transcript of the recorded answer.';
+
+/**
+ * Half a second of silence as a 16 kHz mono 16-bit WAV file
+ */
+export const buildSilentWav = (): Buffer => {
+  const sampleRate = 16000;
+  const dataSize = sampleRate; // 0.5 s x 2 bytes per sample
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16); // PCM header size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  buffer.writeUInt16LE(2, 32); // Block align
+  buffer.writeUInt16LE(16, 34); // Bits per sample
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+  return buffer;
+};
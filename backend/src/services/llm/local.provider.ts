@@ -0,0 +1,52 @@
+import {
+  LlmChatRequest,
+  LlmChatResult,
+  LlmProvider,
+  LlmSpeechResult,
+  LlmTranscriptionResult,
+} from './llm.types';
+import { LOCAL_CHAT_FIXTURES, LOCAL_TRANSCRIPT, buildSilentWav } from './local.fixtures';
+
+const MODEL = 'local-fixtures';
+
+/**
+ * Offline provider for development and tests: no network, same reply for the same
+ * feature every time
+ */
+class LocalProvider implements LlmProvider {
+  readonly name = 'local' as const;
+  readonly defaultModel = MODEL;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const fixture = LOCAL_CHAT_FIXTURES[request.feature];
+    const content = fixture !== undefined
+      ? JSON.stringify(fixture)
+      : `Offline reply for ${request.feature}.`;
+
+    // Fixtures cost nothing, so they never eat into a budget
+    return { content, provider: this.name, model: MODEL, usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 } };
+  }
+
+  async *chatStream(request: LlmChatRequest): AsyncGenerator<string, void, unknown> {
+    const { content } = await this.chat(request);
+    // Word-sized chunks, like a real stream
+    for (const chunk of content.match(/\S+\s*/g) || []) {
+      yield chunk;
+    }
+  }
+
+  async transcribe(): Promise<LlmTranscriptionResult> {
+    return { text: LOCAL_TRANSCRIPT, words: [], segments: [], language: 'en' };
+  }
+
+  async textToSpeech(): Promise<LlmSpeechResult> {
+    return { audioBuffer: buildSilentWav(), contentType: 'audio/wav' };
+  }
+}
+
+export const localProvider = new LocalProvider();
+export default localProvider;
@@ -0,0 +1,97 @@
+export type OutputType = 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object';
+
+/**
+ * The part of JSON Schema prompts use to describe the reply they expect. Only what a
+ * caller relies on needs to be listed - extra properties are allowed.
+ */
+export interface OutputSchema {
+  type: OutputType | OutputType[];
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const OUTPUT_TYPES: OutputType[] = ['string', 'number', 'boolean', 'null', 'array', 'object'];
+
+const typeOf = (value: unknown): OutputType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as OutputType;
+};
+
+/**
+ * Problems with a value against a schema, as "path: message" strings. Empty when valid.
+ */
+export const validateOutput = (value: unknown, schema: OutputSchema, path = '$'): string[] => {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = typeOf(value);
+  if (!types.includes(actual)) {
+    return [`${path}: expected ${types.join(' or ')}, got ${actual}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (actual === 'array') {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items, got ${items.length}`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items, got ${items.length}`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) => errors.push(...validateOutput(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) errors.push(...validateOutput(record[key], property, `${path}.${key}`));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Problems with a schema itself (admins can supply one with a new prompt version)
+ */
+export const checkSchema = (schema: unknown, path = '$'): string[] => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path}: must be an object`];
+  }
+
+  const { type, properties, items, required } = schema as Record<string, unknown>;
+  const types = Array.isArray(type) ? type : [type];
+  if (!types.length || !types.every(value => OUTPUT_TYPES.includes(value as OutputType))) {
+    return [`${path}.type: must be one of ${OUTPUT_TYPES.join(', ')}`];
+  }
+
+  const errors: string[] = [];
+  if (required !== undefined && (!Array.isArray(required) || !required.every(key => typeof key === 'string'))) {
+    errors.push(`${path}.required: must be a list of property names`);
+  }
+  if (properties !== undefined) {
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+      errors.push(`${path}.properties: must be an object`);
+    } else {
+      for (const [key, property] of Object.entries(properties)) {
+        errors.push(...checkSchema(property, `${path}.properties.${key}`));
+      }
+    }
+  }
+  if (items !== undefined) {
+    errors.push(...checkSchema(items, `${path}.items`));
+  }
+  return errors;
+};
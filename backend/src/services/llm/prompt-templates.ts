@@ -0,0 +1,693 @@
+import type { LlmFeature } from '../../config/llm';
+import type { OutputSchema } from './output-schema';
+
+export const PROMPT_NAMES = [
+  'resume_parsing',
+  'candidate_evaluation',
+  'rejection_feedback',
+  'applicant_feedback',
+  'github_analysis',
+  'interview_questions',
+  'interview_answer_evaluation',
+  'interview_final_evaluation'
+] as const satisfies readonly LlmFeature[];
+export type PromptName = typeof PROMPT_NAMES[number];
+
+type PromptValue = string | number | boolean;
+
+/**
+ * Variables each prompt is rendered with. Callers format lists and optional sections
+ * into text; templates place them with {{name}}.
+ */
+export interface PromptVariables {
+  resume_parsing: {
+    resumeText: string;
+  };
+  candidate_evaluation: {
+    jobCategory: string;
+    roleType: string; // Technical / Non-Technical
+    githubRelevanceNote: string;
+    expectationNote: string;
+    skillCoveragePercent: number;
+    matchedSkillCount: number;
+    requiredSkillCount: number;
+    experienceLevel: string;
+    requiredYears: number;
+    hasResume: boolean;
+    hasCompleteProfile: boolean;
+    hasExternalSignals: boolean;
+    hasProjects: boolean;
+    jobTitle: string;
+    department: string;
+    requiredSkills: string;
+    niceToHaveSkills: string;
+    location: string;
+    employmentType: string;
+    jobDescription: string;
+    candidateName: string;
+    yearsOfExperience: PromptValue;
+    candidateSkills: string;
+    workExperience: string;
+    education: string;
+    projects: string;
+    certifications: string;
+    githubProfile: string;
+    githubTopLanguages: string;
+    leetcodeSummary: string;
+    coverLetter: string;
+  };
+  rejection_feedback: {
+    candidateName: string;
+    jobTitle: string;
+    candidateSkills: string;
+    requiredSkills: string;
+    rejectionReason: string;
+    assessment: string; // AI assessment lines, empty when the application was never evaluated
+  };
+  applicant_feedback: {
+    jobTitle: string;
+    requiredSkills: string;
+    candidateSkills: string;
+    additionalContext: string; // Experience, gaps and strengths lines that are known
+  };
+  github_analysis: {
+    username: string;
+    name: string;
+    bio: string;
+    accountAgeYears: number;
+    publicRepos: number;
+    followers: number;
+    totalStars: number;
+    recentCommits: number;
+    topLanguages: string;
+    topRepositories: string;
+  };
+  interview_questions: {
+    resumeSnapshot: string;
+  };
+  interview_answer_evaluation: {
+    questionText: string;
+    resumeContext: string;
+    answer: string;
+  };
+  interview_final_evaluation: {
+    resumeSnapshot: string;
+    targetRole: string;
+    transcript: string;
+    avgTechnical: string;
+    avgCommunication: string;
+    avgConfidence: string;
+    questionsAnswered: number;
+    totalQuestions: number;
+  };
+}
+
+/**
+ * A prompt as shipped with the code. Stored versions (see the PromptTemplate model)
+ * start from these; the template text of a version never changes once it exists.
+ */
+export interface PromptTemplateDefinition {
+  name: PromptName;
+  version: number;
+  description: string; // What the prompt is for, shown to admins
+  system?: string;
+  template: string;
+  outputSchema: OutputSchema;
+}
+
+/**
+ * A prompt version filled in with its variables, ready for the LLM service
+ */
+export interface RenderedPrompt {
+  name: PromptName;
+  version: number;
+  promptVersion: string; // '<name>@<version>', recorded with every output it produced
+  system?: string;
+  prompt: string;
+  outputSchema: OutputSchema;
+}
+
+// Variables a template of each prompt may use
+export const PROMPT_VARIABLES: { [N in PromptName]: Array<keyof PromptVariables[N]> } = {
+  resume_parsing: ['resumeText'],
+  candidate_evaluation: [
+    'jobCategory', 'roleType', 'githubRelevanceNote', 'expectationNote', 'skillCoveragePercent',
+    'matchedSkillCount', 'requiredSkillCount', 'experienceLevel', 'requiredYears', 'hasResume',
+    'hasCompleteProfile', 'hasExternalSignals', 'hasProjects', 'jobTitle', 'department', 'requiredSkills',
+    'niceToHaveSkills', 'location', 'employmentType', 'jobDescription', 'candidateName', 'yearsOfExperience',
+    'candidateSkills', 'workExperience', 'education', 'projects', 'certifications', 'githubProfile',
+    'githubTopLanguages', 'leetcodeSummary', 'coverLetter'
+  ],
+  rejection_feedback: ['candidateName', 'jobTitle', 'candidateSkills', 'requiredSkills', 'rejectionReason', 'assessment'],
+  applicant_feedback: ['jobTitle', 'requiredSkills', 'candidateSkills', 'additionalContext'],
+  github_analysis: [
+    'username', 'name', 'bio', 'accountAgeYears', 'publicRepos', 'followers', 'totalStars', 'recentCommits',
+    'topLanguages', 'topRepositories'
+  ],
+  interview_questions: ['resumeSnapshot'],
+  interview_answer_evaluation: ['questionText', 'resumeContext', 'answer'],
+  interview_final_evaluation: [
+    'resumeSnapshot', 'targetRole', 'transcript', 'avgTechnical', 'avgCommunication', 'avgConfidence',
+    'questionsAnswered', 'totalQuestions'
+  ]
+};
+
+const stringList: OutputSchema = { type: 'array', items: { type: 'string' } };
+const nullableString: OutputSchema = { type: ['string', 'null'] };
+
+export const BUILT_IN_PROMPTS: PromptTemplateDefinition[] = [
+  {
+    name: 'resume_parsing',
+    version: 1,
+    description: 'Extracts profile fields from the text of an uploaded resume',
+    template: `You are an AI resume parser.
+
+Extract structured information from the resume text below.
+Return ONLY valid JSON. Do not include markdown, explanations, or comments.
+
+Rules:
+- Extract only what is explicitly present or reasonably inferred.
+- Do NOT invent information.
+- If a field is missing, return null or an empty value.
+- Keep summaries concise and factual.
+- For dates, use ISO format (YYYY-MM-DD) or at minimum YYYY-MM or YYYY.
+
+Fields to extract:
+{
+  "skills": string[] (programming languages, frameworks, tools, technologies),
+  "yearsOfExperience": number | null (estimate ONLY if clearly implied),
+  "bio": string (2–3 sentence professional summary),
+  "location": string | null (city/state if available),
+  "linkedinUrl": string | null (full LinkedIn URL if found),
+  "portfolioUrl": string | null (personal website/portfolio URL if found),
+  "githubUsername": string | null (GitHub username only, not full URL),
+  "experiences": [
+    {
+      "company": string,
+      "role": string,
+      "startDate": string | null (YYYY-MM-DD or YYYY-MM format),
+      "endDate": string | null (YYYY-MM-DD or YYYY-MM format, null if current),
+      "current": boolean (true if this is the current job),
+      "description": string (responsibilities and achievements)
+    }
+  ],
+  "education": [
+    {
+      "degree": string (e.g., "B.S. Computer Science"),
+      "institution": string (university/college name),
+      "year": string (graduation year)
+    }
+  ],
+  "projects": [
+    {
+      "name": string,
+      "description": string,
+      "techStack": string[]
+    }
+  ],
+  "certifications": string[] (list of certification names),
+  "experienceText": string (all work experience as plain text for backup),
+  "educationText": string (all education details as plain text for backup)
+}
+
+Resume text:
+"""
+{{resumeText}}
+"""`,
+    outputSchema: {
+      type: 'object',
+      required: ['skills'],
+      properties: {
+        skills: stringList,
+        yearsOfExperience: { type: ['number', 'null'] },
+        bio: nullableString,
+        location: nullableString,
+        linkedinUrl: nullableString,
+        portfolioUrl: nullableString,
+        githubUsername: nullableString,
+        experiences: { type: 'array', items: { type: 'object' } },
+        education: { type: 'array', items: { type: 'object' } },
+        projects: { type: 'array', items: { type: 'object' } },
+        certifications: { type: 'array' }
+      }
+    }
+  },
+  {
+    name: 'candidate_evaluation',
+    version: 1,
+    description: 'Scores a candidate against a job; blended with the rule-based score',
+    template: `You are an AI hiring evaluation assistant for a Global Capability Center (GCC) using HireSense platform.
+
+Your task is to evaluate a candidate for a SPECIFIC JOB ROLE and return a structured assessment.
+
+## CONTEXT-AWARE EVALUATION (IMPORTANT!)
+- **Job Category**: {{jobCategory}} ({{roleType}})
+- **{{githubRelevanceNote}}**
+- **Experience Level Expectations**: {{expectationNote}}
+
+Adjust your scoring expectations based on the experience level:
+- Fresher: Basic projects OK, focus on potential
+- Junior: Personal projects expected, some depth
+- Mid: Production experience required
+- Senior: Architecture/leadership expected
+
+## IMPORTANT DEFINITIONS
+- **AI Match Score** = How well the candidate matches the job requirements based on skills, experience, projects, and signals.
+- **Hiring Readiness Score** = Overall hiring suitability combining AI Match Score, confidence, and risk factors.
+- **Confidence Level** = How reliable the evaluation is for THIS job role (NOT personality confidence).
+
+## CONFIDENCE CALCULATION RULES (MANDATORY)
+Calculate confidence using ONLY these job-relative factors:
+
+1. **Skill Coverage** (based on required job skills):
+   - ≥ 80% required skills matched → +20 points
+   - 60–79% matched → +10 points
+   - < 60% matched → +0 points
+   - Current skill coverage: {{skillCoveragePercent}}% ({{matchedSkillCount}}/{{requiredSkillCount}} skills)
+
+2. **Experience Alignment** (job requires {{experienceLevel}} level, ~{{requiredYears}}+ years):
+   - Meets or exceeds requirement → +20 points
+   - Slightly below requirement → +10 points
+   - Far below requirement → +0 points
+
+3. **Signal Reliability**:
+   - Resume + complete profile + relevant external signals → +20 points
+   - Resume + partial data → +10 points
+   - Resume only → +0 points
+   - Current signals: Resume={{hasResume}}, CompleteProfile={{hasCompleteProfile}}, GitHub={{hasExternalSignals}}, Projects={{hasProjects}}
+
+4. **Risk Penalty**:
+   - Deduct 10 points for EACH major risk factor identified
+
+Final Confidence: Score ≥ 70 → "High" | 50–69 → "Medium" | < 50 → "Low"
+
+## JOB CONTEXT
+- **Title**: {{jobTitle}}
+- **Department**: {{department}}
+- **Required Skills**: {{requiredSkills}}
+- **Nice-to-have Skills**: {{niceToHaveSkills}}
+- **Experience Level**: {{experienceLevel}} (~{{requiredYears}}+ years)
+- **Location**: {{location}}
+- **Employment Type**: {{employmentType}}
+- **Job Description**: {{jobDescription}}
+
+## CANDIDATE DATA
+- **Name**: {{candidateName}}
+- **Declared Years of Experience**: {{yearsOfExperience}}
+- **Skills**: {{candidateSkills}}
+- **Work Experience**: {{workExperience}}
+- **Education**: {{education}}
+- **Projects**: {{projects}}
+- **Certifications**: {{certifications}}
+- **GitHub Profile**: {{githubProfile}}
+- **GitHub Top Languages**: {{githubTopLanguages}}
+- **LeetCode Stats**: {{leetcodeSummary}}
+- **Cover Letter Summary**: {{coverLetter}}
+
+## EVALUATION INSTRUCTIONS
+
+1. **Skill Analysis**: 
+   - Compare candidate skills against required skills using semantic matching (e.g., "Node" = "NodeJS" = "node.js")
+   - Check if projects demonstrate practical application of required skills
+   - Identify any critical missing skills
+
+2. **Experience Analysis**:
+   - Verify experience years align with job requirements
+   - Check if work history is relevant to the role
+   - Look for career progression and consistency
+
+3. **Project Alignment**:
+   - Evaluate if projects use similar tech stack as job requirements
+   - Assess project complexity and relevance
+   - Check for full-stack/end-to-end project experience if applicable
+
+4. **Risk Assessment**:
+   - Identify gaps between requirements and qualifications
+   - Flag any inconsistencies in profile
+   - Note missing critical skills or experience
+
+5. **Recommendation Logic**:
+   - aiMatchScore ≥ 75: recommend "select" (Strong Fit)
+   - aiMatchScore 55-74: recommend "review" (Potential Fit - needs interview)
+   - aiMatchScore < 55: recommend "reject" (Not a fit currently)
+
+## OUTPUT FORMAT (STRICT JSON ONLY - NO MARKDOWN, NO CODE BLOCKS)
+
+{
+  "aiMatchScore": <number 0-100>,
+  "hiringReadinessScore": <number 0-100>,
+  "overallScore": <number 0-100 same as hiringReadinessScore>,
+  "skillMatch": <number 0-100>,
+  "experienceScore": <number 0-100>,
+  "educationScore": <number 0-100>,
+  "projectAlignmentScore": <number 0-100>,
+  "confidenceLevel": "High" | "Medium" | "Low",
+  "confidence": <number 0-100 internal calculation>,
+  "riskFactors": ["risk 1", "risk 2"],
+  "strengths": ["strength 1", "strength 2", "strength 3"],
+  "gaps": ["gap 1", "gap 2"],
+  "recommendation": "select" | "review" | "reject",
+  "aiSummary": "2-3 sentence professional assessment",
+  "projectAnalysis": "Brief analysis of how candidate's projects align with job requirements",
+  "interviewQuestions": ["targeted question 1", "targeted question 2", "targeted question 3"],
+  "improvementSuggestions": ["suggestion for candidate 1", "suggestion 2"]
+}
+
+## RULES
+- Confidence MUST be job-specific and calculated per the rules above
+- Do NOT use subjective or biased language
+- Be explainable and ethical in scoring
+- Consider both demonstrated skills and growth potential
+- Projects with relevant tech stack should boost skill confidence`,
+    outputSchema: {
+      type: 'object',
+      required: ['overallScore', 'strengths', 'gaps'],
+      properties: {
+        aiMatchScore: { type: 'number' },
+        hiringReadinessScore: { type: 'number' },
+        overallScore: { type: 'number' },
+        skillMatch: { type: 'number' },
+        experienceScore: { type: 'number' },
+        educationScore: { type: 'number' },
+        projectAlignmentScore: { type: 'number' },
+        confidenceLevel: { type: 'string' },
+        confidence: { type: 'number' },
+        riskFactors: stringList,
+        strengths: stringList,
+        gaps: stringList,
+        recommendation: { type: 'string', enum: ['select', 'review', 'reject'] },
+        aiSummary: { type: 'string' },
+        projectAnalysis: { type: 'string' },
+        interviewQuestions: stringList,
+        improvementSuggestions: stringList
+      }
+    }
+  },
+  {
+    name: 'rejection_feedback',
+    version: 1,
+    description: 'Drafts the rejection email a recruiter sends to a candidate',
+    template: `You are a professional HR assistant. Generate a constructive, empathetic rejection feedback for a job candidate. Be professional but encouraging.
+
+## Context
+- **Candidate Name**: {{candidateName}}
+- **Applied Position**: {{jobTitle}}
+- **Candidate Skills**: {{candidateSkills}}
+- **Required Skills**: {{requiredSkills}}
+- **Rejection Reason**: {{rejectionReason}}
+{{assessment}}
+
+## Instructions
+Generate a rejection feedback response in JSON format. Be:
+1. Professional and respectful
+2. Constructive - mention what they did well
+3. Helpful - provide actionable suggestions for improvement
+4. Encouraging - motivate them to keep applying
+
+Respond ONLY with valid JSON (no markdown, no code blocks):
+
+{
+  "subject": "Brief email subject line",
+  "feedback": "2-3 paragraph professional feedback explaining the decision without being harsh. Do not mention scores or percentages.",
+  "suggestions": ["Specific suggestion 1", "Specific suggestion 2", "Specific suggestion 3"],
+  "encouragement": "A brief encouraging closing statement"
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['feedback'],
+      properties: {
+        subject: { type: 'string' },
+        feedback: { type: 'string' },
+        suggestions: stringList,
+        encouragement: { type: 'string' }
+      }
+    }
+  },
+  {
+    name: 'applicant_feedback',
+    version: 1,
+    description: 'Growth-focused feedback shown to a rejected applicant',
+    template: `Generate rejection feedback for a job applicant.
+
+CONTEXT:
+- Job Title: {{jobTitle}}
+- Required Skills: {{requiredSkills}}
+- Candidate Skills: {{candidateSkills}}
+{{additionalContext}}
+
+RULES:
+- Be respectful and supportive
+- Do NOT mention scores, rankings, or percentages
+- Do NOT use negative or judgmental language like "failed", "not good enough", "weak"
+- Focus on role-specific gaps and improvement areas
+- Use neutral, encouraging phrases
+- Limit to 2-3 reasons and 3 learning suggestions
+- Frame everything as opportunities for growth
+
+OUTPUT FORMAT (respond with ONLY valid JSON, no markdown):
+{
+  "statusMessage": "A brief, neutral explanation of the decision (1-2 sentences)",
+  "reasons": ["Reason 1 - neutral, role-focused", "Reason 2 - neutral, role-focused"],
+  "improvementAreas": ["Specific actionable suggestion 1", "Specific actionable suggestion 2", "Specific actionable suggestion 3"],
+  "learningFocus": ["Learning topic 1", "Learning topic 2", "Learning topic 3"],
+  "encouragement": "A brief, genuine encouraging message"
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['statusMessage'],
+      properties: {
+        statusMessage: { type: 'string' },
+        reasons: stringList,
+        improvementAreas: stringList,
+        learningFocus: stringList,
+        encouragement: { type: 'string' }
+      }
+    }
+  },
+  {
+    name: 'github_analysis',
+    version: 1,
+    description: 'Reviews a GitHub profile for the applicant profile score',
+    template: `Analyze this GitHub developer profile and provide insights:
+
+Username: {{username}}
+Name: {{name}}
+Bio: {{bio}}
+Account Age: {{accountAgeYears}} years
+Public Repositories: {{publicRepos}}
+Followers: {{followers}}
+Total Stars: {{totalStars}}
+Recent Commits (10 days): {{recentCommits}}
+
+Top Programming Languages:
+{{topLanguages}}
+
+Top Repositories:
+{{topRepositories}}
+
+Based on this profile, provide:
+1. Overall Score (0-100): Rate this developer's profile quality and activity
+2. Key Strengths (3-5 points): What stands out positively?
+3. Key Insights (3-5 points): Notable observations about their coding style, expertise, or contributions
+4. Recommendations (2-3 points): How can they improve their profile?
+
+Format your response as JSON ONLY (no markdown, no code blocks):
+{
+  "overallScore": number,
+  "strengths": ["strength1", "strength2", ...],
+  "insights": ["insight1", "insight2", ...],
+  "recommendations": ["rec1", "rec2", ...]
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['overallScore'],
+      properties: {
+        overallScore: { type: 'number' },
+        strengths: stringList,
+        insights: stringList,
+        recommendations: stringList
+      }
+    }
+  },
+  {
+    name: 'interview_questions',
+    version: 1,
+    description: 'Ten personalized questions for a practice interview',
+    system: 'You are an expert technical interviewer generating personalized interview questions.',
+    template: `Based on the candidate's resume below, generate exactly 10 interview questions that are:
+1. Personalized to their specific experience and skills
+2. Progressive in difficulty (start easier, get harder)
+3. Cover these categories (2 questions each):
+   - technical: Based on their tech stack and skills
+   - experience: Deep dive into their work history
+   - behavioral: Teamwork, leadership, conflict resolution
+   - problem_solving: Hypothetical scenarios and challenges
+   - career: Goals, motivations, and role fit
+
+CANDIDATE RESUME:
+{{resumeSnapshot}}
+
+IMPORTANT RULES:
+- Questions should be specific to their background (mention their projects/companies/skills)
+- Start with easier warm-up questions, progress to more challenging ones
+- Each question should assess different aspects
+- Questions should feel natural and conversational
+- For candidates with <2 years experience, focus on projects and learning
+- For experienced candidates (3+ years), focus on architecture and leadership
+
+RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
+{
+  "questions": [
+    {
+      "questionText": "Can you walk me through your experience with [specific skill from their resume]?",
+      "category": "technical",
+      "difficulty": "easy",
+      "relatedSkill": "React"
+    },
+    ... (10 questions total)
+  ]
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['questions'],
+      properties: {
+        questions: {
+          type: 'array',
+          minItems: 10,
+          maxItems: 10,
+          items: {
+            type: 'object',
+            required: ['questionText', 'category', 'difficulty'],
+            properties: {
+              questionText: { type: 'string' },
+              category: { type: 'string', enum: ['technical', 'behavioral', 'experience', 'skills', 'career', 'problem_solving'] },
+              difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+              relatedSkill: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  },
+  {
+    name: 'interview_answer_evaluation',
+    version: 1,
+    description: 'Scores one practice interview answer',
+    system: 'You are an expert technical interviewer evaluating candidate responses.',
+    template: `Evaluate this interview answer briefly and constructively:
+
+QUESTION: {{questionText}}
+
+CANDIDATE BACKGROUND (for context):
+{{resumeContext}}
+
+CANDIDATE'S ANSWER:
+{{answer}}
+
+Provide scores (1-10) and brief, actionable feedback:
+
+1. **Technical Score (1-10)**: Does the answer demonstrate technical knowledge and accuracy?
+   - Consider: Depth of knowledge, correct terminology, practical understanding
+   
+2. **Communication Score (1-10)**: Is the answer clear, structured, and well-articulated?
+   - Consider: Clarity, structure (STAR method for behavioral), conciseness
+   
+3. **Confidence Score (1-10)**: Does the candidate sound confident and professional?
+   - Consider: Decisiveness, avoiding excessive hedging, authentic examples
+
+4. **Feedback (1-2 sentences)**: Constructive feedback highlighting what was good and one area to improve.
+
+RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
+{
+  "technicalScore": 7,
+  "communicationScore": 8,
+  "confidenceScore": 7,
+  "feedback": "Good technical explanation with clear examples. To improve, consider providing more specific metrics or outcomes from your experience."
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['technicalScore', 'communicationScore', 'confidenceScore', 'feedback'],
+      properties: {
+        technicalScore: { type: 'number' },
+        communicationScore: { type: 'number' },
+        confidenceScore: { type: 'number' },
+        feedback: { type: 'string' }
+      }
+    }
+  },
+  {
+    name: 'interview_final_evaluation',
+    version: 1,
+    description: 'AI Readiness report at the end of a practice interview',
+    system: 'You are an expert hiring manager generating a comprehensive interview evaluation report.',
+    template: `Generate a comprehensive AI Readiness Score for this completed interview:
+
+CANDIDATE RESUME:
+{{resumeSnapshot}}
+
+TARGET ROLE: {{targetRole}}
+
+INTERVIEW TRANSCRIPT:
+{{transcript}}
+
+AVERAGE SCORES:
+- Technical: {{avgTechnical}}/10
+- Communication: {{avgCommunication}}/10
+- Confidence: {{avgConfidence}}/10
+
+QUESTIONS ANSWERED: {{questionsAnswered}}/{{totalQuestions}}
+
+Provide a comprehensive evaluation with:
+
+1. **Overall AI Readiness Score (0-100)**: Hiring readiness for tech roles
+2. **Category Scores (0-100)**:
+   - technicalProficiency: Technical knowledge and problem-solving
+   - communicationSkills: Clarity, articulation, structure
+   - problemSolving: Critical thinking and approach to challenges
+   - cultureFit: Teamwork, adaptability, growth mindset
+   - confidenceLevel: Professional presence and decisiveness
+
+3. **Overall Verdict**:
+   - "strong_hire": Exceptional candidate, highly recommended (score 80+)
+   - "hire": Good candidate, recommended (score 65-79)
+   - "maybe": Potential candidate, needs more assessment (score 50-64)
+   - "no_hire": Not ready yet, needs improvement (score <50)
+
+4. **Strengths**: Top 3-5 specific strengths demonstrated in answers
+5. **Areas for Improvement**: Top 3-5 specific, actionable improvements
+6. **Recommended Resources**: 3-5 specific courses, books, or practices to improve
+7. **Detailed Feedback**: 3-4 paragraph comprehensive assessment
+
+RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
+{
+  "aiReadinessScore": 75,
+  "technicalProficiency": 72,
+  "communicationSkills": 78,
+  "problemSolving": 70,
+  "cultureFit": 80,
+  "confidenceLevel": 73,
+  "overallVerdict": "hire",
+  "detailedFeedback": "Comprehensive 3-4 paragraph assessment...",
+  "strengths": ["Strong technical foundation in React", "Clear communication", ...],
+  "areasForImprovement": ["Deepen system design knowledge", "Practice behavioral questions", ...],
+  "recommendedResources": ["System Design Interview by Alex Xu", "LeetCode medium problems", ...]
+}`,
+    outputSchema: {
+      type: 'object',
+      required: ['aiReadinessScore', 'overallVerdict', 'detailedFeedback'],
+      properties: {
+        aiReadinessScore: { type: 'number' },
+        technicalProficiency: { type: 'number' },
+        communicationSkills: { type: 'number' },
+        problemSolving: { type: 'number' },
+        cultureFit: { type: 'number' },
+        confidenceLevel: { type: 'number' },
+        overallVerdict: { type: 'string', enum: ['strong_hire', 'hire', 'maybe', 'no_hire'] },
+        detailedFeedback: { type: 'string' },
+        strengths: stringList,
+        areasForImprovement: stringList,
+        recommendedResources: stringList
+      }
+    }
+  }
+];
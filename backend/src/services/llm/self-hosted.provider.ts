@@ -0,0 +1,33 @@
+import { localSttService } from '../local-stt.service';
+import { localTtsService } from '../local-tts.service';
+import { LlmCapability } from '../../config/llm';
+import {
+  LlmProvider,
+  LlmSpeechResult,
+  LlmTranscriptionOptions,
+  LlmTranscriptionResult,
+} from './llm.types';
+
+/**
+ * Speech on this machine: whisper.cpp transcription and Piper speech
+ */
+class SelfHostedProvider implements LlmProvider {
+  readonly name = 'self-hosted' as const;
+
+  isAvailable(capability: LlmCapability): boolean {
+    if (capability === 'transcription') return localSttService.isConfigured();
+    if (capability === 'speech') return localTtsService.isConfigured();
+    return false;
+  }
+
+  transcribe(audio: Buffer, options: LlmTranscriptionOptions): Promise<LlmTranscriptionResult> {
+    return localSttService.transcribe(audio, { filename: options.filename, mimeType: options.mimeType });
+  }
+
+  textToSpeech(text: string): Promise<LlmSpeechResult> {
+    return localTtsService.textToSpeech(text);
+  }
+}
+
+export const selfHostedProvider = new SelfHostedProvider();
+export default selfHostedProvider;
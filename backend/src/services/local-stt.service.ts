@@ -16,11 +16,15 @@ class LocalSttService {
   private whisperModel = process.env.WHISPER_CPP_MODEL || '';
   private ffmpegBin = process.env.FFMPEG_BIN || 'ffmpeg';
 
+  isConfigured(): boolean {
+    return Boolean(this.whisperBin && this.whisperModel);
+  }
+
   async transcribe(
     audioBuffer: Buffer,
     options: { filename?: string; mimeType?: string } = {}
   ): Promise<LocalTranscriptionResult> {
-    if (!this.whisperBin || !this.whisperModel) {
+    if (!this.isConfigured()) {
       throw new Error('Local STT is not configured. Set WHISPER_CPP_BIN and WHISPER_CPP_MODEL.');
     }
 
@@ -14,8 +14,12 @@ class LocalTtsService {
   private piperModel = process.env.PIPER_MODEL || '';
   private piperConfig = process.env.PIPER_CONFIG || '';
 
+  isConfigured(): boolean {
+    return Boolean(this.piperBin && this.piperModel);
+  }
+
   async textToSpeech(text: string): Promise<LocalTtsResult> {
-    if (!this.piperBin || !this.piperModel) {
+    if (!this.isConfigured()) {
       throw new Error('Local TTS is not configured. Set PIPER_BIN and PIPER_MODEL.');
     }
 
@@ -0,0 +1,132 @@
+import { Offer, IOffer } from '../models/Offer.model';
+import { Job, IJob } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+
+export interface OfferTerms {
+  salary?: unknown;
+  currency?: unknown;
+  startDate?: unknown;
+  expiresAt?: unknown;
+  notes?: unknown;
+}
+
+// Offers in these states are still open - an application can only have one at a time
+export const OPEN_OFFER_STATUSES: IOffer['status'][] = ['draft', 'sent'];
+
+class OfferService {
+  /**
+   * Validate offer terms against the job's salary band.
+   * Throws AppError(400) on invalid input. Only the supplied fields are returned,
+   * so the same method serves both creation and partial draft updates.
+   */
+  validateTerms(
+    job: Pick<IJob, 'salaryMin' | 'salaryMax'>,
+    terms: OfferTerms,
+    { partial = false }: { partial?: boolean } = {}
+  ): Partial<Pick<IOffer, 'salary' | 'currency' | 'startDate' | 'expiresAt' | 'notes'>> {
+    const validated: Partial<Pick<IOffer, 'salary' | 'currency' | 'startDate' | 'expiresAt' | 'notes'>> = {};
+
+    if (terms.salary !== undefined || !partial) {
+      const salary = Number(terms.salary);
+      if (terms.salary === undefined || terms.salary === null || terms.salary === '' || !Number.isFinite(salary) || salary <= 0) {
+        throw new AppError('A positive salary is required', 400);
+      }
+      if (job.salaryMin !== undefined && job.salaryMin !== null && salary < job.salaryMin) {
+        throw new AppError(`Salary must be at least ${job.salaryMin} (the job's minimum)`, 400);
+      }
+      if (job.salaryMax !== undefined && job.salaryMax !== null && salary > job.salaryMax) {
+        throw new AppError(`Salary must not exceed ${job.salaryMax} (the job's maximum)`, 400);
+      }
+      validated.salary = salary;
+    }
+
+    if (terms.startDate !== undefined || !partial) {
+      validated.startDate = this.parseDate(terms.startDate, 'start date');
+    }
+
+    if (terms.expiresAt !== undefined || !partial) {
+      validated.expiresAt = this.parseDate(terms.expiresAt, 'expiry date');
+    }
+
+    if (validated.startDate && validated.expiresAt && validated.expiresAt > validated.startDate) {
+      throw new AppError('Offer must expire before the start date', 400);
+    }
+
+    if (typeof terms.currency === 'string' && terms.currency.trim()) {
+      validated.currency = terms.currency.trim().toUpperCase();
+    }
+
+    if (typeof terms.notes === 'string') {
+      validated.notes = terms.notes.trim();
+    }
+
+    return validated;
+  }
+
+  /**
+   * Mark a sent offer as expired once its expiry date has passed.
+   * Returns true when the offer was expired by this call.
+   */
+  async expireIfStale(offer: IOffer): Promise<boolean> {
+    if (offer.status !== 'sent' || offer.expiresAt > new Date()) {
+      return false;
+    }
+
+    offer.status = 'expired';
+    await offer.save();
+    return true;
+  }
+
+  /**
+   * Expire every sent offer matching the filter whose expiry date has passed.
+   * Called before listing offers so stale ones never show up as actionable.
+   */
+  async expireStaleOffers(filter: Record<string, unknown> = {}): Promise<number> {
+    const result = await Offer.updateMany(
+      { ...filter, status: 'sent', expiresAt: { $lte: new Date() } },
+      { $set: { status: 'expired' } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Record a hire against a job and close the job once all openings are filled.
+   * The count only goes up while an opening is left, so two hires racing for the
+   * last opening can't both succeed. Returns the updated job.
+   */
+  async recordHire(jobId: unknown): Promise<IJob> {
+    const job = await Job.findOneAndUpdate(
+      { _id: jobId, $expr: { $lt: [{ $ifNull: ['$hiredCount', 0] }, { $ifNull: ['$openings', 1] }] } },
+      { $inc: { hiredCount: 1 } },
+      { new: true }
+    );
+    if (!job) {
+      throw new AppError('All openings for this job have already been filled', 409);
+    }
+
+    if (job.status === 'active' && job.hiredCount >= job.openings) {
+      job.status = 'closed';
+      await job.save();
+    }
+
+    return job;
+  }
+
+  /**
+   * Undo a hire (e.g. a recruiter moves a candidate back out of 'hired')
+   */
+  async revokeHire(jobId: unknown): Promise<IJob | null> {
+    return Job.findByIdAndUpdate(jobId, { $inc: { hiredCount: -1 } }, { new: true });
+  }
+
+  private parseDate(value: unknown, label: string): Date {
+    const date = value ? new Date(value as string) : null;
+    if (!date || isNaN(date.getTime())) {
+      throw new AppError(`A valid ${label} is required`, 400);
+    }
+    return date;
+  }
+}
+
+export const offerService = new OfferService();
+export default offerService;
@@ -0,0 +1,324 @@
+import mongoose from 'mongoose';
+import { Organization, IOrganization, OrganizationRole, ORGANIZATION_ROLES } from '../models/Organization.model';
+import { RecruiterProfile } from '../models/RecruiterProfile.model';
+import { User } from '../models/User.model';
+import { Job } from '../models/Job.model';
+import { TalentPool } from '../models/TalentPool.model';
+import { Offer } from '../models/Offer.model';
+import Notification from '../models/Notification.model';
+import { AppError } from '../middleware/errorHandler';
+
+export const ORG_PERMISSIONS = [
+  'jobs:create',
+  'jobs:edit',
+  'jobs:delete',
+  'applications:manage',
+  'interviews:manage',
+  'offers:manage',
+  'talent_pool:manage',
+  'org:manage',
+] as const;
+export type OrgPermission = typeof ORG_PERMISSIONS[number];
+
+// What each organization role may change. Every member can view the org's jobs,
+// applications, talent pool and dashboard.
+const ROLE_PERMISSIONS: Record<OrganizationRole, OrgPermission[]> = {
+  admin: [...ORG_PERMISSIONS],
+  recruiter: ['jobs:create', 'jobs:edit', 'applications:manage', 'interviews:manage', 'offers:manage', 'talent_pool:manage'],
+  hiring_manager: ['applications:manage', 'interviews:manage'],
+};
+
+// Recruiters outside an organization own everything they create
+const SOLO_PERMISSIONS: OrgPermission[] = ORG_PERMISSIONS.filter(permission => permission !== 'org:manage');
+
+export interface OrgMembership {
+  organization: IOrganization;
+  role: OrganizationRole;
+}
+
+// A pending invitation as the invited recruiter sees it
+export interface PendingInvitation {
+  organizationId: mongoose.Types.ObjectId;
+  organizationName: string;
+  role: OrganizationRole;
+  invitedAt: Date;
+}
+
+// Filter matching the records (jobs, talent pool entries, offers) a recruiter can access
+export type OwnerScope =
+  | { organizationId: mongoose.Types.ObjectId }
+  | { recruiterId: mongoose.Types.ObjectId | string; organizationId: null };
+
+class OrganizationService {
+  /**
+   * Get the organization a recruiter belongs to, with their role in it
+   */
+  async getMembership(userId: string | undefined): Promise<OrgMembership | null> {
+    if (!userId) return null;
+
+    const organization = await Organization.findOne({ 'members.userId': userId });
+    const member = organization?.members.find(m => m.userId.toString() === userId.toString());
+    if (!organization || !member) return null;
+
+    return { organization, role: member.role };
+  }
+
+  /**
+   * Permissions granted to a member with the given role (no role = recruiter without an organization)
+   */
+  getPermissions(role: OrganizationRole | undefined): OrgPermission[] {
+    return role ? ROLE_PERMISSIONS[role] : SOLO_PERMISSIONS;
+  }
+
+  hasPermission(role: OrganizationRole | undefined, permission: OrgPermission): boolean {
+    return this.getPermissions(role).includes(permission);
+  }
+
+  /**
+   * Records a recruiter can access: everything in their organization, or only their
+   * own records when they are not part of one
+   */
+  async getOwnerScope(userId: string | undefined): Promise<OwnerScope> {
+    const membership = await this.getMembership(userId);
+    return this.toOwnerScope(membership, userId);
+  }
+
+  toOwnerScope(membership: OrgMembership | null, userId: string | undefined): OwnerScope {
+    if (membership) {
+      return { organizationId: membership.organization._id as mongoose.Types.ObjectId };
+    }
+    return { recruiterId: userId as string, organizationId: null };
+  }
+
+  /**
+   * Scope of the records that belong with a job - its organization, or its recruiter
+   */
+  getJobOwnerScope(job: { recruiterId: mongoose.Types.ObjectId; organizationId?: mongoose.Types.ObjectId | null }): OwnerScope {
+    return job.organizationId
+      ? { organizationId: job.organizationId }
+      : { recruiterId: job.recruiterId, organizationId: null };
+  }
+
+  /**
+   * Create an organization with the given recruiter as its first admin.
+   * The recruiter's existing jobs, talent pool and offers move into the organization.
+   */
+  async createOrganization(
+    userId: string,
+    data: { name?: string; description?: string; website?: string; location?: string }
+  ): Promise<IOrganization> {
+    if (await this.getMembership(userId)) {
+      throw new AppError('You already belong to an organization', 409);
+    }
+
+    const profile = await RecruiterProfile.findOne({ userId });
+    const name = (data.name || profile?.companyName || '').trim();
+    if (!name) {
+      throw new AppError('Organization name is required', 400);
+    }
+
+    const organization = await Organization.create({
+      name,
+      description: data.description ?? profile?.companyDescription ?? '',
+      website: data.website ?? profile?.companyWebsite ?? '',
+      location: data.location ?? profile?.companyLocation ?? '',
+      createdBy: userId,
+      members: [{ userId, role: 'admin', addedBy: userId, joinedAt: new Date() }]
+    });
+
+    await this.attachOwnedRecords(userId, organization._id as mongoose.Types.ObjectId);
+    return organization;
+  }
+
+  /**
+   * Invite an existing recruiter account by email. Nothing is shared until they accept.
+   */
+  async inviteMember(
+    organization: IOrganization,
+    email: string,
+    role: unknown,
+    invitedBy: string
+  ): Promise<IOrganization> {
+    const memberRole = this.parseRole(role);
+
+    const user = await User.findOne({ email: String(email || '').toLowerCase().trim() });
+    if (!user || user.role !== 'recruiter') {
+      throw new AppError('No recruiter account found with that email', 404);
+    }
+
+    const userId = String(user._id);
+    if (await this.getMembership(userId)) {
+      throw new AppError('This recruiter already belongs to an organization', 409);
+    }
+    if (organization.invitations.some(i => i.userId.toString() === userId)) {
+      throw new AppError('This recruiter has already been invited', 409);
+    }
+
+    organization.invitations.push({
+      userId: user._id as mongoose.Types.ObjectId,
+      role: memberRole,
+      invitedBy: invitedBy as any,
+      invitedAt: new Date()
+    });
+    await organization.save();
+
+    // Let the recruiter know there is an invitation waiting (non-blocking)
+    Notification.create({
+      userId: user._id,
+      type: 'system',
+      title: `Invitation to join ${organization.name}`,
+      message: `You have been invited to join ${organization.name}. Accept it on the Organization page to share your jobs, talent pool and offers with the team.`,
+      data: {}
+    }).catch(err => console.error('Invitation notification failed:', err));
+
+    return organization;
+  }
+
+  /**
+   * Withdraw a pending invitation (admin)
+   */
+  async cancelInvitation(organization: IOrganization, userId: string): Promise<IOrganization> {
+    const invited = organization.invitations.some(i => i.userId.toString() === userId);
+    if (!invited) {
+      throw new AppError('Invitation not found', 404);
+    }
+
+    organization.invitations = organization.invitations.filter(i => i.userId.toString() !== userId);
+    await organization.save();
+    return organization;
+  }
+
+  /**
+   * Invitations waiting for a recruiter's answer
+   */
+  async getInvitations(userId: string): Promise<PendingInvitation[]> {
+    const organizations = await Organization.find({ 'invitations.userId': userId });
+
+    return organizations.map(organization => {
+      const invitation = organization.invitations.find(i => i.userId.toString() === userId)!;
+      return {
+        organizationId: organization._id as mongoose.Types.ObjectId,
+        organizationName: organization.name,
+        role: invitation.role,
+        invitedAt: invitation.invitedAt
+      };
+    });
+  }
+
+  /**
+   * Accept an invitation. The recruiter joins with the invited role, their existing jobs,
+   * talent pool and offers move into the organization, and other invitations are dropped.
+   */
+  async acceptInvitation(userId: string, organizationId: string): Promise<OrgMembership> {
+    if (await this.getMembership(userId)) {
+      throw new AppError('You already belong to an organization', 409);
+    }
+
+    const organization = await Organization.findOne({ _id: organizationId, 'invitations.userId': userId });
+    const invitation = organization?.invitations.find(i => i.userId.toString() === userId);
+    if (!organization || !invitation) {
+      throw new AppError('Invitation not found', 404);
+    }
+
+    organization.invitations = organization.invitations.filter(i => i.userId.toString() !== userId);
+    organization.members.push({
+      userId: invitation.userId,
+      role: invitation.role,
+      addedBy: invitation.invitedBy,
+      joinedAt: new Date()
+    });
+    await organization.save();
+
+    await Organization.updateMany({ 'invitations.userId': userId }, { $pull: { invitations: { userId } } });
+    await this.attachOwnedRecords(userId, organization._id as mongoose.Types.ObjectId);
+    return { organization, role: invitation.role };
+  }
+
+  async declineInvitation(userId: string, organizationId: string): Promise<void> {
+    const result = await Organization.updateOne(
+      { _id: organizationId, 'invitations.userId': userId },
+      { $pull: { invitations: { userId } } }
+    );
+    if (result.matchedCount === 0) {
+      throw new AppError('Invitation not found', 404);
+    }
+  }
+
+  /**
+   * Change a member's role. The organization must keep at least one admin.
+   */
+  async updateMemberRole(organization: IOrganization, userId: string, role: unknown): Promise<IOrganization> {
+    const memberRole = this.parseRole(role);
+    const member = organization.members.find(m => m.userId.toString() === userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    if (member.role === 'admin' && memberRole !== 'admin') {
+      this.assertAnotherAdmin(organization, userId);
+    }
+
+    member.role = memberRole;
+    await organization.save();
+    return organization;
+  }
+
+  /**
+   * Remove a member (or let a member leave). Records they created go back to them.
+   */
+  async removeMember(organization: IOrganization, userId: string): Promise<IOrganization> {
+    const member = organization.members.find(m => m.userId.toString() === userId);
+    if (!member) {
+      throw new AppError('Member not found', 404);
+    }
+
+    if (member.role === 'admin') {
+      this.assertAnotherAdmin(organization, userId);
+    }
+
+    organization.members = organization.members.filter(m => m.userId.toString() !== userId);
+    await organization.save();
+
+    await this.detachOwnedRecords(userId, organization._id as mongoose.Types.ObjectId);
+    return organization;
+  }
+
+  // Move a recruiter's solo records into their new organization
+  private async attachOwnedRecords(userId: string, organizationId: mongoose.Types.ObjectId): Promise<void> {
+    const soloRecords = { recruiterId: userId, organizationId: null };
+    await Promise.all([
+      Job.updateMany(soloRecords, { $set: { organizationId } }),
+      TalentPool.updateMany(soloRecords, { $set: { organizationId } }),
+      Offer.updateMany(soloRecords, { $set: { organizationId } }),
+      RecruiterProfile.updateOne({ userId }, { $set: { organizationId } })
+    ]);
+  }
+
+  // Hand a departing member's records back to them as solo records
+  private async detachOwnedRecords(userId: string, organizationId: mongoose.Types.ObjectId): Promise<void> {
+    const orgRecords = { recruiterId: userId, organizationId };
+    await Promise.all([
+      Job.updateMany(orgRecords, { $set: { organizationId: null } }),
+      TalentPool.updateMany(orgRecords, { $set: { organizationId: null } }),
+      Offer.updateMany(orgRecords, { $set: { organizationId: null } }),
+      RecruiterProfile.updateOne({ userId }, { $unset: { organizationId: 1 } })
+    ]);
+  }
+
+  private assertAnotherAdmin(organization: IOrganization, userId: string): void {
+    const otherAdmins = organization.members.filter(m => m.role === 'admin' && m.userId.toString() !== userId);
+    if (otherAdmins.length === 0) {
+      throw new AppError('An organization must keep at least one admin', 409);
+    }
+  }
+
+  private parseRole(role: unknown): OrganizationRole {
+    if (!ORGANIZATION_ROLES.includes(role as OrganizationRole)) {
+      throw new AppError(`Role must be one of: ${ORGANIZATION_ROLES.join(', ')}`, 400);
+    }
+    return role as OrganizationRole;
+  }
+}
+
+export const organizationService = new OrganizationService();
+export default organizationService;
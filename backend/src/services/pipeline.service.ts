@@ -0,0 +1,255 @@
+import { APPLICATION_STATUSES, ApplicationStatus } from '../models/Application.model';
+import { IPipelineStage } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+import { toKey } from '../utils/slug';
+
+export interface PipelineStageCount {
+  key: string;
+  name: string;
+  status: ApplicationStatus;
+  count: number;
+}
+
+// Used for jobs that have not defined their own pipeline. Stage keys match the
+// legacy status values so applications created before pipelines existed resolve cleanly.
+const DEFAULT_PIPELINE: IPipelineStage[] = [
+  { key: 'pending', name: 'Applied', status: 'pending', order: 0, allowedTransitions: [] },
+  { key: 'under_review', name: 'Under Review', status: 'under_review', order: 1, allowedTransitions: [] },
+  { key: 'shortlisted', name: 'Shortlisted', status: 'shortlisted', order: 2, allowedTransitions: [] },
+  { key: 'interview', name: 'Interview', status: 'interview', order: 3, allowedTransitions: [] },
+  { key: 'selected', name: 'Selected', status: 'selected', order: 4, allowedTransitions: [] },
+  { key: 'hired', name: 'Hired', status: 'hired', order: 5, allowedTransitions: [] },
+  { key: 'rejected', name: 'Rejected', status: 'rejected', order: 6, allowedTransitions: [] },
+];
+
+// Legacy statuses that overlap with another one collapse onto the same stage
+const LEGACY_STATUS_ALIASES: Record<string, ApplicationStatus> = {
+  reviewing: 'under_review',
+};
+
+const TERMINAL_STATUSES: ApplicationStatus[] = ['hired', 'rejected'];
+
+class PipelineService {
+  /**
+   * Get the effective pipeline for a job, ordered by stage order
+   */
+  getPipeline(job: { pipeline?: IPipelineStage[] } | null | undefined): IPipelineStage[] {
+    const stages = job?.pipeline && job.pipeline.length > 0 ? job.pipeline : DEFAULT_PIPELINE;
+    // Copy into plain objects so callers never hold on to mongoose subdocuments
+    return stages
+      .map(stage => ({
+        key: stage.key,
+        name: stage.name,
+        status: stage.status,
+        order: stage.order,
+        allowedTransitions: [...(stage.allowedTransitions || [])]
+      }))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Validate and normalize a recruiter-supplied pipeline definition.
+   * Throws AppError(400) on invalid input.
+   */
+  normalizePipeline(input: unknown): IPipelineStage[] {
+    if (!Array.isArray(input) || input.length === 0) {
+      throw new AppError('Pipeline must contain at least one stage', 400);
+    }
+
+    const stages: IPipelineStage[] = input.map((raw: any, index: number) => {
+      const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+      if (!name) {
+        throw new AppError(`Pipeline stage ${index + 1} is missing a name`, 400);
+      }
+
+      const status = raw.status as ApplicationStatus;
+      if (!APPLICATION_STATUSES.includes(status)) {
+        throw new AppError(`Pipeline stage "${name}" has an invalid status: ${raw.status}`, 400);
+      }
+
+      const key = typeof raw.key === 'string' && raw.key.trim() ? toKey(raw.key) : toKey(name);
+
+      return {
+        key,
+        name,
+        status,
+        order: index,
+        allowedTransitions: Array.isArray(raw.allowedTransitions)
+          ? raw.allowedTransitions.filter((t: unknown) => typeof t === 'string').map((t: string) => toKey(t))
+          : []
+      };
+    });
+
+    const keys = new Set<string>();
+    for (const stage of stages) {
+      if (keys.has(stage.key)) {
+        throw new AppError(`Duplicate pipeline stage: ${stage.name}`, 400);
+      }
+      keys.add(stage.key);
+    }
+
+    for (const stage of stages) {
+      const unknown = stage.allowedTransitions.find(t => !keys.has(t) || t === stage.key);
+      if (unknown) {
+        throw new AppError(`Stage "${stage.name}" has an invalid transition target: ${unknown}`, 400);
+      }
+    }
+
+    if (!stages.some(stage => stage.status === 'rejected')) {
+      throw new AppError('Pipeline must include a stage mapped to the "rejected" status', 400);
+    }
+
+    return stages;
+  }
+
+  /**
+   * Find a stage by key
+   */
+  getStage(pipeline: IPipelineStage[], key: string | undefined): IPipelineStage | undefined {
+    if (!key) return undefined;
+    return pipeline.find(stage => stage.key === key);
+  }
+
+  /**
+   * First stage of a pipeline - where new applications land
+   */
+  getInitialStage(pipeline: IPipelineStage[]): IPipelineStage {
+    return pipeline[0];
+  }
+
+  /**
+   * Status, stage key and stage name to record when an application enters a stage
+   */
+  toHistoryFields(stage: IPipelineStage): { status: ApplicationStatus; stage: string; stageName: string } {
+    return { status: stage.status, stage: stage.key, stageName: stage.name };
+  }
+
+  // Hired and rejected close an application; the default rules lead nowhere from them
+  isFinalStage(stage: IPipelineStage): boolean {
+    return TERMINAL_STATUSES.includes(stage.status);
+  }
+
+  /**
+   * Resolve the current stage of an application, falling back to its status for
+   * applications that predate the job's pipeline
+   */
+  resolveStage(
+    pipeline: IPipelineStage[],
+    application: { stage?: string; status: ApplicationStatus }
+  ): IPipelineStage | undefined {
+    return this.getStage(pipeline, application.stage) || this.getStageForStatus(pipeline, application.status);
+  }
+
+  /**
+   * Map a legacy status value onto the first matching stage of a pipeline
+   */
+  getStageForStatus(pipeline: IPipelineStage[], status: string): IPipelineStage | undefined {
+    const normalized = LEGACY_STATUS_ALIASES[status] || status;
+    return pipeline.find(stage => stage.status === normalized) || pipeline.find(stage => stage.status === status);
+  }
+
+  /**
+   * Stages reachable from the given stage. Explicit allowedTransitions win; otherwise
+   * any later stage is reachable and rejection is always available from non-terminal stages.
+   */
+  getAllowedTransitions(pipeline: IPipelineStage[], from: IPipelineStage | undefined): IPipelineStage[] {
+    if (!from) return pipeline;
+
+    if (from.allowedTransitions && from.allowedTransitions.length > 0) {
+      return pipeline.filter(stage => from.allowedTransitions.includes(stage.key));
+    }
+
+    if (TERMINAL_STATUSES.includes(from.status)) {
+      return [];
+    }
+
+    return pipeline.filter(stage =>
+      stage.key !== from.key && (stage.order > from.order || stage.status === 'rejected')
+    );
+  }
+
+  /**
+   * Merge the pipelines of several jobs into one list of distinct stages (by key),
+   * preserving each stage's position within its own pipeline
+   */
+  mergePipelines(pipelines: IPipelineStage[][]): IPipelineStage[] {
+    const merged = new Map<string, IPipelineStage>();
+    pipelines.forEach(pipeline => {
+      pipeline.forEach(stage => {
+        if (!merged.has(stage.key)) merged.set(stage.key, stage);
+      });
+    });
+    return [...merged.values()].sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Count applications per stage for a pipeline
+   */
+  countByStage(
+    pipeline: IPipelineStage[],
+    applications: Array<{ stage?: string; status: ApplicationStatus }>
+  ): PipelineStageCount[] {
+    const counts = new Map<string, number>(pipeline.map(stage => [stage.key, 0]));
+
+    applications.forEach(app => {
+      const stage = this.resolveStage(pipeline, app);
+      if (stage) {
+        counts.set(stage.key, (counts.get(stage.key) || 0) + 1);
+      }
+    });
+
+    return pipeline.map(stage => ({
+      key: stage.key,
+      name: stage.name,
+      status: stage.status,
+      count: counts.get(stage.key) || 0
+    }));
+  }
+
+  /**
+   * Count applications per stage across several jobs, each against its own pipeline.
+   * Stages that share a key across jobs are summed together.
+   */
+  countByStageAcrossJobs(
+    jobs: Array<{ _id: unknown; pipeline?: IPipelineStage[] }>,
+    applications: Array<{ jobId: unknown; stage?: string; status: ApplicationStatus }>
+  ): PipelineStageCount[] {
+    const totals = new Map<string, PipelineStageCount>();
+
+    jobs.forEach(job => {
+      const jobApplications = applications.filter(app => String(app.jobId) === String(job._id));
+      this.countByStage(this.getPipeline(job), jobApplications).forEach(stageCount => {
+        const existing = totals.get(stageCount.key);
+        if (existing) {
+          existing.count += stageCount.count;
+        } else {
+          totals.set(stageCount.key, { ...stageCount });
+        }
+      });
+    });
+
+    return this.mergePipelines(jobs.map(job => this.getPipeline(job)))
+      .map(stage => totals.get(stage.key)!)
+      .filter(Boolean);
+  }
+
+  /**
+   * Build a Mongo filter matching applications in any of the given stages,
+   * including legacy applications that only carry a status
+   */
+  buildStageQuery(pipeline: IPipelineStage[], stageKeys: string[]): Record<string, unknown> {
+    const legacyStatuses = pipeline
+      .filter(stage => stageKeys.includes(stage.key) && this.getStageForStatus(pipeline, stage.status)?.key === stage.key)
+      .flatMap(stage => [stage.status, ...Object.keys(LEGACY_STATUS_ALIASES).filter(alias => LEGACY_STATUS_ALIASES[alias] === stage.status)]);
+
+    return {
+      $or: [
+        { stage: { $in: stageKeys } },
+        ...(legacyStatuses.length > 0 ? [{ stage: { $exists: false }, status: { $in: legacyStatuses } }] : [])
+      ]
+    };
+  }
+}
+
+export const pipelineService = new PipelineService();
+export default pipelineService;
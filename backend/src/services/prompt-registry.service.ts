@@ -0,0 +1,316 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { PromptTemplate, IPromptTemplate, PROMPT_STATUSES, PromptStatus } from '../models/PromptTemplate.model';
+import { AppError } from '../middleware/errorHandler';
+import {
+  BUILT_IN_PROMPTS,
+  PROMPT_NAMES,
+  PROMPT_VARIABLES,
+  PromptName,
+  PromptTemplateDefinition,
+  PromptVariables,
+  RenderedPrompt
+} from './llm/prompt-templates';
+import { OutputSchema, checkSchema } from './llm/output-schema';
+
+type LiveVersion = Pick<IPromptTemplate, 'name' | 'version' | 'system' | 'template' | 'outputSchema' | 'trafficShare'>;
+
+// Every instance re-reads the live versions this often, so a rollback made elsewhere spreads quickly
+const CACHE_TTL_MS = 60 * 1000;
+
+const MAX_TEMPLATE_LENGTH = 20000;
+const PLACEHOLDER = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Registry of the versioned AI prompts. Built-in versions ship with the code and are
+ * seeded into Mongo; admins add versions and split traffic between them there. Without
+ * a database the newest built-in version of each prompt is used.
+ */
+class PromptRegistryService {
+  private live = new Map<PromptName, LiveVersion[]>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private seeded = false;
+
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => { this.loading = null; });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Read the versions that receive traffic, seeding the built-in versions the first time
+   */
+  async load(): Promise<void> {
+    if (mongoose.connection.readyState !== 1) return;
+
+    if (!this.seeded) {
+      await this.seed();
+      this.seeded = true;
+    }
+
+    const versions = await PromptTemplate.find({ status: 'active', trafficShare: { $gt: 0 } })
+      .select('name version system template outputSchema trafficShare')
+      .sort({ version: 1 })
+      .lean();
+
+    const live = new Map<PromptName, LiveVersion[]>();
+    for (const version of versions) {
+      live.set(version.name, [...(live.get(version.name) || []), version]);
+    }
+    this.live = live;
+    this.loadedAt = Date.now();
+  }
+
+  /**
+   * Pick the version of a prompt for this call and fill in its variables. With several
+   * live versions the pick follows their traffic shares; the same subject (e.g. an
+   * application) always lands on the same version.
+   */
+  async render<N extends PromptName>(name: N, variables: PromptVariables[N], subjectKey?: string): Promise<RenderedPrompt> {
+    try {
+      await this.ensureLoaded();
+    } catch (error) {
+      console.error('Loading prompt versions failed, using the built-in prompts:', error);
+    }
+
+    const version = this.select(name, subjectKey);
+    const values = variables as Record<string, string | number | boolean>;
+
+    return {
+      name,
+      version: version.version,
+      promptVersion: `${name}@${version.version}`,
+      system: version.system || undefined,
+      prompt: version.template.replace(PLACEHOLDER, (match, key: string) =>
+        values[key] === undefined ? match : String(values[key])
+      ),
+      outputSchema: version.outputSchema
+    };
+  }
+
+  /**
+   * Every prompt with its variables and stored versions, newest first
+   */
+  async list() {
+    await this.load();
+    const versions = await PromptTemplate.find().sort({ name: 1, version: -1 }).lean();
+
+    return PROMPT_NAMES.map(name => ({
+      name,
+      description: this.getBuiltIn(name).description,
+      variables: PROMPT_VARIABLES[name] as string[],
+      versions: versions.filter(version => version.name === name)
+    }));
+  }
+
+  /**
+   * Add a draft version of a prompt. The output schema defaults to the newest version's.
+   */
+  async createVersion(
+    name: string,
+    input: { system?: unknown; template?: unknown; outputSchema?: unknown; notes?: unknown },
+    userId: string
+  ): Promise<IPromptTemplate> {
+    const promptName = this.assertPromptName(name);
+
+    const template = typeof input.template === 'string' ? input.template.trim() : '';
+    if (!template) {
+      throw new AppError('Template text is required', 400);
+    }
+    if (template.length > MAX_TEMPLATE_LENGTH) {
+      throw new AppError(`Template text is limited to ${MAX_TEMPLATE_LENGTH} characters`, 400);
+    }
+    const system = typeof input.system === 'string' ? input.system.trim() : '';
+
+    const allowed = PROMPT_VARIABLES[promptName] as string[];
+    const unknown = [...new Set([...`${system}\n${template}`.matchAll(PLACEHOLDER)].map(match => match[1]))]
+      .filter(key => !allowed.includes(key));
+    if (unknown.length) {
+      throw new AppError(`Unknown variables: ${unknown.join(', ')}. Available: ${allowed.join(', ')}`, 400);
+    }
+
+    const latest = await PromptTemplate.findOne({ name: promptName }).sort({ version: -1 });
+    let outputSchema = latest?.outputSchema || this.getBuiltIn(promptName).outputSchema;
+    if (input.outputSchema !== undefined && input.outputSchema !== null) {
+      const problems = checkSchema(input.outputSchema);
+      if (problems.length) {
+        throw new AppError(`Invalid output schema: ${problems.slice(0, 3).join('; ')}`, 400);
+      }
+      outputSchema = input.outputSchema as OutputSchema;
+    }
+
+    return PromptTemplate.create({
+      name: promptName,
+      version: (latest?.version || 0) + 1,
+      system: system || undefined,
+      template,
+      outputSchema,
+      status: 'draft',
+      trafficShare: 0,
+      notes: typeof input.notes === 'string' ? input.notes : undefined,
+      createdBy: userId,
+      updatedBy: userId
+    });
+  }
+
+  /**
+   * Change the status or traffic share of a version. A prompt always keeps at least one
+   * version that receives traffic.
+   */
+  async updateRollout(
+    name: string,
+    version: number,
+    input: { status?: unknown; trafficShare?: unknown },
+    userId: string
+  ): Promise<IPromptTemplate> {
+    const template = await this.getVersion(name, version);
+
+    if (input.status !== undefined) {
+      if (!PROMPT_STATUSES.includes(input.status as PromptStatus)) {
+        throw new AppError(`Status must be one of ${PROMPT_STATUSES.join(', ')}`, 400);
+      }
+      template.status = input.status as PromptStatus;
+    }
+    if (input.trafficShare !== undefined) {
+      const share = Number(input.trafficShare);
+      if (!Number.isInteger(share) || share < 0 || share > 100) {
+        throw new AppError('Traffic share must be a whole number from 0 to 100', 400);
+      }
+      template.trafficShare = share;
+    }
+
+    if (template.status !== 'active') {
+      template.trafficShare = 0;
+    } else if (template.trafficShare === 0) {
+      throw new AppError('An active version needs a traffic share above 0', 400);
+    }
+
+    if (template.status !== 'active') {
+      const othersLive = await PromptTemplate.exists({
+        name: template.name,
+        _id: { $ne: template._id },
+        status: 'active',
+        trafficShare: { $gt: 0 }
+      });
+      if (!othersLive) {
+        throw new AppError(`${template.name} needs at least one active version`, 409);
+      }
+    }
+
+    template.updatedBy = new mongoose.Types.ObjectId(userId);
+    await template.save();
+    await this.reload();
+    return template;
+  }
+
+  /**
+   * Send all traffic of a prompt to one version and retire the other live ones - ends an
+   * A/B test with a winner, or rolls back to an earlier version
+   */
+  async promote(name: string, version: number, userId: string): Promise<IPromptTemplate> {
+    const template = await this.getVersion(name, version);
+    const updatedBy = new mongoose.Types.ObjectId(userId);
+
+    template.status = 'active';
+    template.trafficShare = 100;
+    template.updatedBy = updatedBy;
+    await template.save();
+
+    await PromptTemplate.updateMany(
+      { name: template.name, _id: { $ne: template._id }, status: 'active' },
+      { $set: { status: 'retired', trafficShare: 0, updatedBy } }
+    );
+    await this.reload();
+    return template;
+  }
+
+  private select(name: PromptName, subjectKey?: string): LiveVersion | PromptTemplateDefinition {
+    const live = this.live.get(name);
+    if (!live?.length) return this.getBuiltIn(name);
+    if (live.length === 1) return live[0];
+
+    const total = live.reduce((sum, version) => sum + version.trafficShare, 0);
+    const point = subjectKey
+      ? parseInt(crypto.createHash('sha256').update(`${name}:${subjectKey}`).digest('hex').slice(0, 8), 16) % total
+      : Math.random() * total;
+
+    let cumulative = 0;
+    for (const version of live) {
+      cumulative += version.trafficShare;
+      if (point < cumulative) return version;
+    }
+    return live[live.length - 1];
+  }
+
+  /**
+   * Newest built-in version of a prompt
+   */
+  private getBuiltIn(name: PromptName): PromptTemplateDefinition {
+    return BUILT_IN_PROMPTS
+      .filter(prompt => prompt.name === name)
+      .reduce((newest, prompt) => (prompt.version > newest.version ? prompt : newest));
+  }
+
+  /**
+   * Store built-in versions that aren't stored yet. A prompt seen for the first time goes
+   * live on its newest built-in version; built-ins added later start as drafts so a
+   * deploy never changes a running rollout.
+   */
+  private async seed(): Promise<void> {
+    const stored = await PromptTemplate.find().select('name version').lean();
+    const storedKeys = new Set(stored.map(version => `${version.name}@${version.version}`));
+    const storedNames = new Set(stored.map(version => version.name));
+
+    const missing = BUILT_IN_PROMPTS.filter(prompt => !storedKeys.has(`${prompt.name}@${prompt.version}`));
+    if (!missing.length) return;
+
+    const documents = missing.map(prompt => {
+      const goesLive = !storedNames.has(prompt.name) && prompt === this.getBuiltIn(prompt.name);
+      return {
+        name: prompt.name,
+        version: prompt.version,
+        system: prompt.system,
+        template: prompt.template,
+        outputSchema: prompt.outputSchema,
+        status: goesLive ? 'active' : 'draft',
+        trafficShare: goesLive ? 100 : 0,
+        builtIn: true,
+        notes: prompt.description
+      };
+    });
+
+    try {
+      await PromptTemplate.insertMany(documents, { ordered: false });
+    } catch (error: any) {
+      // Another instance seeded the same versions at the same time
+      if (error?.code !== 11000 && !error?.writeErrors?.every((item: any) => item.code === 11000)) throw error;
+    }
+  }
+
+  private async reload(): Promise<void> {
+    this.loadedAt = 0;
+    await this.ensureLoaded();
+  }
+
+  private async getVersion(name: string, version: number) {
+    const promptName = this.assertPromptName(name);
+    const template = await PromptTemplate.findOne({ name: promptName, version });
+    if (!template) {
+      throw new AppError(`Version ${version} of ${promptName} not found`, 404);
+    }
+    return template;
+  }
+
+  private assertPromptName(name: string): PromptName {
+    if (!PROMPT_NAMES.includes(name as PromptName)) {
+      throw new AppError(`Unknown prompt "${name}"`, 404);
+    }
+    return name as PromptName;
+  }
+}
+
+export const promptRegistryService = new PromptRegistryService();
+export default promptRegistryService;
@@ -1,5 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { geminiClient } from '../utils/gemini-client';
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
 
 interface RejectionFeedbackInput {
   candidateName: string;
@@ -14,6 +14,8 @@ interface RejectionFeedbackInput {
   };
   rejectionReason: 'skills_gap' | 'experience' | 'culture_fit' | 'overqualified' | 'position_filled' | 'custom';
   customReason?: string;
+  recruiterId?: string; // Owner of the job, for AI usage budgets
+  userId?: string; // Recruiter asking for the feedback
 }
 
 interface RejectionFeedback {
@@ -21,6 +23,7 @@ interface RejectionFeedback {
   feedback: string;
   suggestions: string[];
   encouragement: string;
+  promptVersion?: string; // Unset when the default feedback was used
 }
 
 /**
@@ -30,60 +33,34 @@ export const generateRejectionFeedback = async (
   input: RejectionFeedbackInput
 ): Promise<RejectionFeedback> => {
   try {
-    return await geminiClient.executeWithFallback(async (client) => {
-      const model = client.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-    const prompt = `You are a professional HR assistant. Generate a constructive, empathetic rejection feedback for a job candidate. Be professional but encouraging.
-
-## Context
-- **Candidate Name**: ${input.candidateName}
-- **Applied Position**: ${input.jobTitle}
-- **Candidate Skills**: ${input.skills.join(', ') || 'Not provided'}
-- **Required Skills**: ${input.requiredSkills.join(', ') || 'Not specified'}
-- **Rejection Reason**: ${input.rejectionReason}${input.customReason ? ` - ${input.customReason}` : ''}
-${input.aiInsights ? `
+    const assessment = input.aiInsights ? `
 - **AI Assessment Score**: ${input.aiInsights.overallScore}%
 - **Skill Match**: ${input.aiInsights.skillMatch}%
 - **Experience Score**: ${input.aiInsights.experienceScore}%
 - **Identified Gaps**: ${input.aiInsights.gaps.join(', ') || 'None'}
-` : ''}
-
-## Instructions
-Generate a rejection feedback response in JSON format. Be:
-1. Professional and respectful
-2. Constructive - mention what they did well
-3. Helpful - provide actionable suggestions for improvement
-4. Encouraging - motivate them to keep applying
-
-Respond ONLY with valid JSON (no markdown, no code blocks):
-
-{
-  "subject": "Brief email subject line",
-  "feedback": "2-3 paragraph professional feedback explaining the decision without being harsh. Do not mention scores or percentages.",
-  "suggestions": ["Specific suggestion 1", "Specific suggestion 2", "Specific suggestion 3"],
-  "encouragement": "A brief encouraging closing statement"
-}`;
-
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text().trim();
-
-    // Parse JSON
-    if (text.startsWith('```json')) {
-      text = text.replace(/```json\n?/, '').replace(/```$/, '');
-    } else if (text.startsWith('```')) {
-      text = text.replace(/```\n?/, '').replace(/```$/, '');
-    }
-
-    const parsed = JSON.parse(text.trim());
+` : '';
+
+    const prompt = await promptRegistryService.render('rejection_feedback', {
+      candidateName: input.candidateName,
+      jobTitle: input.jobTitle,
+      candidateSkills: input.skills.join(', ') || 'Not provided',
+      requiredSkills: input.requiredSkills.join(', ') || 'Not specified',
+      rejectionReason: `${input.rejectionReason}${input.customReason ? ` - ${input.customReason}` : ''}`,
+      assessment
+    });
+
+    const parsed = await llmService.generateFromPrompt<Partial<RejectionFeedback>>(prompt, {
+      recruiterId: input.recruiterId,
+      userId: input.userId
+    });
 
     return {
       subject: parsed.subject || `Update on your application for ${input.jobTitle}`,
       feedback: parsed.feedback || getDefaultFeedback(input),
       suggestions: parsed.suggestions || getDefaultSuggestions(input),
-      encouragement: parsed.encouragement || 'We encourage you to apply for future opportunities that match your profile.'
+      encouragement: parsed.encouragement || 'We encourage you to apply for future opportunities that match your profile.',
+      promptVersion: prompt.promptVersion
     };
-    }); // End executeWithFallback
   } catch (error) {
     console.error('Error generating rejection feedback:', error);
     // Return fallback feedback
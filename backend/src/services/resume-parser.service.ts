@@ -1,7 +1,11 @@
 import pdfParse from 'pdf-parse';
 import mammoth from 'mammoth';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { geminiClient } from '../utils/gemini-client';
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
+import { LlmBudgetExceededError } from './llm/llm-usage.service';
+import { AppError } from '../middleware/errorHandler';
+import { contentGuardService } from './content-guard.service';
+import { IContentFlag } from '../models/ApplicantProfile.model';
 
 interface ParsedExperience {
   company: string;
@@ -38,16 +42,139 @@ interface ParsedResumeData {
   certifications: string[];
   experienceText: string;
   educationText: string;
+  promptVersion: string;
+  contentFlags: IContentFlag[]; // Hidden text and instructions aimed at the AI found in the file
 }
 
+// Text drawn so that a reader can't see it
+interface HiddenRun {
+  text: string;
+  reason: 'white' | 'invisible' | 'tiny';
+}
+
+interface ExtractedText {
+  text: string;
+  hiddenRuns: HiddenRun[];
+}
+
+// Operator codes of the pdf.js build bundled with pdf-parse (v1.10)
+const PDF_OPS = {
+  save: 10,
+  restore: 11,
+  beginText: 31,
+  setFont: 37,
+  setTextRenderingMode: 38,
+  setTextMatrix: 42,
+  showText: 44,
+  showSpacedText: 45,
+  nextLineShowText: 46,
+  nextLineSetSpacingShowText: 47,
+  setFillRGBColor: 59,
+};
+const SHOW_TEXT_OPS = [PDF_OPS.showText, PDF_OPS.showSpacedText, PDF_OPS.nextLineShowText, PDF_OPS.nextLineSetSpacingShowText];
+
+const WHITE_THRESHOLD = 245; // Fill color channels (0-255) at or above this count as white
+const TINY_FONT_SIZE = 2; // Points
+const INVISIBLE_RENDER_MODES = [3, 7]; // Neither filled nor stroked
+
+interface PdfTextState {
+  fill: number[];
+  renderMode: number;
+  fontSize: number;
+  scale: number;
+}
+
+/**
+ * Walk the drawing operators of a PDF page and collect text drawn white, in an invisible
+ * render mode or at a microscopic size. Pages that are mostly such text (e.g. the OCR
+ * layer of a scanned resume) are left alone.
+ */
+const findHiddenRuns = async (page: any): Promise<HiddenRun[]> => {
+  const { fnArray, argsArray } = await page.getOperatorList();
+  const stack: PdfTextState[] = [];
+  let state: PdfTextState = { fill: [0, 0, 0], renderMode: 0, fontSize: 12, scale: 1 };
+  const runs: HiddenRun[] = [];
+  let totalChars = 0;
+
+  fnArray.forEach((fn: number, index: number) => {
+    const args = argsArray[index];
+    switch (fn) {
+      case PDF_OPS.save: stack.push({ ...state }); break;
+      case PDF_OPS.restore: state = stack.pop() || state; break;
+      case PDF_OPS.beginText: state.scale = 1; break;
+      case PDF_OPS.setFont: state.fontSize = Math.abs(Number(args[1]) || 0); break;
+      case PDF_OPS.setTextRenderingMode: state.renderMode = Number(args[0]) || 0; break;
+      case PDF_OPS.setTextMatrix: state.scale = Math.hypot(Number(args[0]) || 0, Number(args[1]) || 0) || 1; break;
+      case PDF_OPS.setFillRGBColor: state.fill = [args[0], args[1], args[2]].map(Number); break;
+      default: {
+        if (!SHOW_TEXT_OPS.includes(fn)) break;
+        const glyphs = [...args].reverse().find(Array.isArray) || [];
+        const text = glyphs
+          .map((glyph: any) => (typeof glyph === 'object' && glyph ? (glyph.isSpace ? ' ' : glyph.unicode || '') : ''))
+          .join('');
+        const chars = text.replace(/\s/g, '').length;
+        totalChars += chars;
+        if (!chars) break;
+
+        const reason: HiddenRun['reason'] | null = INVISIBLE_RENDER_MODES.includes(state.renderMode)
+          ? 'invisible'
+          : state.fontSize * state.scale < TINY_FONT_SIZE
+            ? 'tiny'
+            : state.fill.every(channel => channel >= WHITE_THRESHOLD)
+              ? 'white'
+              : null;
+        if (!reason) break;
+
+        const last = runs[runs.length - 1];
+        if (last && last.reason === reason) {
+          last.text += ` ${text}`;
+        } else {
+          runs.push({ text, reason });
+        }
+      }
+    }
+  });
+
+  const hiddenChars = runs.reduce((sum, run) => sum + run.text.replace(/\s/g, '').length, 0);
+  return hiddenChars * 2 < totalChars ? runs.map(run => ({ ...run, text: run.text.trim() })) : [];
+};
+
+// pdf-parse's default page text, kept so extraction reads the same as before
+const renderPageText = async (page: any): Promise<string> => {
+  const textContent = await page.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+};
+
+const HIDDEN_REASONS: Record<HiddenRun['reason'], string> = {
+  white: 'white text',
+  invisible: 'invisible text',
+  tiny: 'microscopic text',
+};
+
 export class ResumeParserService {
   /**
-   * Extract text from PDF buffer
+   * Extract text from PDF buffer, noting text a reader of the PDF can't see
    */
-  async extractTextFromPDF(buffer: Buffer): Promise<string> {
+  async extractTextFromPDF(buffer: Buffer): Promise<ExtractedText> {
+    const hiddenRuns: HiddenRun[] = [];
     try {
-      const data = await pdfParse(buffer);
-      return data.text;
+      const data = await pdfParse(buffer, {
+        pagerender: async (page: any) => {
+          const [text, runs] = await Promise.all([
+            renderPageText(page),
+            findHiddenRuns(page).catch(() => [] as HiddenRun[])
+          ]);
+          hiddenRuns.push(...runs);
+          return text;
+        }
+      });
+      return { text: data.text, hiddenRuns };
     } catch (error) {
       throw new Error('Failed to extract text from PDF');
     }
@@ -56,92 +183,29 @@ export class ResumeParserService {
   /**
    * Extract text from DOCX buffer
    */
-  async extractTextFromDOCX(buffer: Buffer): Promise<string> {
+  async extractTextFromDOCX(buffer: Buffer): Promise<ExtractedText> {
     try {
       const result = await mammoth.extractRawText({ buffer });
-      return result.value;
+      return { text: result.value, hiddenRuns: [] };
     } catch (error) {
       throw new Error('Failed to extract text from DOCX');
     }
   }
 
   /**
-   * Parse resume text using Google Gemini AI
+   * Parse resume text with the AI provider configured for resume parsing. The text is
+   * cleaned and fenced first, so instructions hidden in it don't reach the model as such.
    */
-  async parseResumeWithGemini(resumeText: string): Promise<ParsedResumeData> {
+  async parseResumeWithAI(
+    resumeText: string,
+    userId?: string,
+    contentFlags: IContentFlag[] = []
+  ): Promise<ParsedResumeData> {
     try {
-      // Use geminiClient with automatic key rotation and fallback
-      return await geminiClient.executeWithFallback(async (client) => {
-        const model = client.getGenerativeModel({ model: 'gemini-2.5-flash' });
-
-      const prompt = `You are an AI resume parser.
-
-Extract structured information from the resume text below.
-Return ONLY valid JSON. Do not include markdown, explanations, or comments.
-
-Rules:
-- Extract only what is explicitly present or reasonably inferred.
-- Do NOT invent information.
-- If a field is missing, return null or an empty value.
-- Keep summaries concise and factual.
-- For dates, use ISO format (YYYY-MM-DD) or at minimum YYYY-MM or YYYY.
-
-Fields to extract:
-{
-  "skills": string[] (programming languages, frameworks, tools, technologies),
-  "yearsOfExperience": number | null (estimate ONLY if clearly implied),
-  "bio": string (2–3 sentence professional summary),
-  "location": string | null (city/state if available),
-  "linkedinUrl": string | null (full LinkedIn URL if found),
-  "portfolioUrl": string | null (personal website/portfolio URL if found),
-  "githubUsername": string | null (GitHub username only, not full URL),
-  "experiences": [
-    {
-      "company": string,
-      "role": string,
-      "startDate": string | null (YYYY-MM-DD or YYYY-MM format),
-      "endDate": string | null (YYYY-MM-DD or YYYY-MM format, null if current),
-      "current": boolean (true if this is the current job),
-      "description": string (responsibilities and achievements)
-    }
-  ],
-  "education": [
-    {
-      "degree": string (e.g., "B.S. Computer Science"),
-      "institution": string (university/college name),
-      "year": string (graduation year)
-    }
-  ],
-  "projects": [
-    {
-      "name": string,
-      "description": string,
-      "techStack": string[]
-    }
-  ],
-  "certifications": string[] (list of certification names),
-  "experienceText": string (all work experience as plain text for backup),
-  "educationText": string (all education details as plain text for backup)
-}
-
-Resume text:
-"""
-${resumeText}
-"""`;
-
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      let text = response.text();
-
-      // Clean up markdown code blocks if present
-      text = text.trim();
-      if (text.startsWith('```json')) {
-        text = text.replace(/```json\n?/, '').replace(/```$/, '');
-      } else if (text.startsWith('```')) {
-        text = text.replace(/```\n?/, '').replace(/```$/, '');
-      }
-
-      const parsed = JSON.parse(text.trim());
+      const prompt = await promptRegistryService.render('resume_parsing', {
+        resumeText: contentGuardService.fence(resumeText)
+      }, userId);
+      const parsed = await llmService.generateFromPrompt<any>(prompt, { userId, untrustedContent: true });
 
       // Validate and sanitize experiences
       const experiences: ParsedExperience[] = Array.isArray(parsed.experiences)
@@ -188,18 +252,26 @@ ${resumeText}
         certifications: Array.isArray(parsed.certifications) ? parsed.certifications : [],
         experienceText: typeof parsed.experienceText === 'string' ? parsed.experienceText : '',
         educationText: typeof parsed.educationText === 'string' ? parsed.educationText : '',
+        promptVersion: prompt.promptVersion,
+        contentFlags,
       };
-      }); // End executeWithFallback
     } catch (error: any) {
-      console.error('Gemini parsing error:', error.message || error);
+      console.error('Resume parsing error:', error.message || error);
       
+      // Parsing has no offline fallback, but the profile can still be filled in by hand
+      if (error instanceof LlmBudgetExceededError) {
+        throw new AppError('Automatic resume parsing is paused for today. Please fill in your profile manually or try again tomorrow.', 429);
+      }
+
       // Provide more specific error messages
-      if (error.message?.includes('API key')) {
-        throw new Error('Google Gemini API key is invalid or not configured. Please check your .env file.');
+      if (error.message?.includes('No LLM provider available')) {
+        throw new Error('No AI provider is configured for resume parsing. Set an API key or LLM_PROVIDER=local in your .env file.');
+      } else if (error.message?.includes('API key')) {
+        throw new Error('The AI provider API key is invalid or not configured. Please check your .env file.');
       } else if (error.message?.includes('403')) {
-        throw new Error('Google Gemini API access denied. Please verify your API key has the correct permissions.');
+        throw new Error('AI provider access denied. Please verify your API key has the correct permissions.');
       } else if (error.message?.includes('quota')) {
-        throw new Error('Google Gemini API quota exceeded. Please try again later.');
+        throw new Error('AI provider quota exceeded. Please try again later.');
       } else if (error.message?.includes('503') || error.message?.includes('overloaded')) {
         throw new Error('AI service is temporarily busy. Please try again in a few seconds.');
       }
@@ -208,65 +280,45 @@ ${resumeText}
     }
   }
 
-  /**
-   * Helper method to delay execution
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Parse resume with retry logic for transient errors
-   */
-  private async parseResumeWithRetry(resumeText: string, maxRetries: number = 3): Promise<ParsedResumeData> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        return await this.parseResumeWithGemini(resumeText);
-      } catch (error: any) {
-        lastError = error;
-        const isRetryable = error.message?.includes('503') || 
-                           error.message?.includes('overloaded') ||
-                           error.message?.includes('temporarily busy');
-        
-        if (isRetryable && attempt < maxRetries) {
-          const waitTime = attempt * 2000; // 2s, 4s, 6s
-          console.log(`🔄 Retry ${attempt}/${maxRetries} in ${waitTime/1000}s due to API overload...`);
-          await this.delay(waitTime);
-        } else {
-          throw error;
-        }
-      }
-    }
-    
-    throw lastError || new Error('Failed to parse resume after retries');
-  }
-
   /**
    * Main method to parse resume from file buffer
    */
-  async parseResume(buffer: Buffer, mimetype: string): Promise<ParsedResumeData> {
-    let resumeText: string;
+  async parseResume(buffer: Buffer, mimetype: string, userId?: string): Promise<ParsedResumeData> {
+    let extracted: ExtractedText;
 
     // Extract text based on file type
     if (mimetype === 'application/pdf') {
-      resumeText = await this.extractTextFromPDF(buffer);
+      extracted = await this.extractTextFromPDF(buffer);
     } else if (
       mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
       mimetype === 'application/msword'
     ) {
-      resumeText = await this.extractTextFromDOCX(buffer);
+      extracted = await this.extractTextFromDOCX(buffer);
     } else {
       throw new Error('Unsupported file type. Please upload PDF or DOCX.');
     }
 
+    let resumeText = extracted.text;
+    const contentFlags: IContentFlag[] = extracted.hiddenRuns.map(run => ({
+      kind: 'hidden_text',
+      source: 'resume',
+      detail: HIDDEN_REASONS[run.reason],
+      excerpt: run.text.length > 80 ? `${run.text.slice(0, 79)}…` : run.text
+    }));
+
+    // Invisible and microscopic text has no business in the resume. White text stays
+    // (it may sit on a dark banner) but is flagged and cleaned like the rest.
+    for (const run of extracted.hiddenRuns.filter(run => run.reason !== 'white')) {
+      resumeText = resumeText.split(run.text).join(' ');
+    }
+    contentFlags.push(...contentGuardService.scan(resumeText, 'resume'));
+
     if (!resumeText || resumeText.trim().length < 50) {
       throw new Error('Resume text is too short or empty');
     }
 
-    // Parse with Gemini (with retry logic for transient errors)
-    return await this.parseResumeWithRetry(resumeText);
+    // Providers retry transient errors themselves
+    return await this.parseResumeWithAI(resumeText, userId, contentFlags);
   }
 }
 
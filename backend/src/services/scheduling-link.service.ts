@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import { SchedulingLink, ISchedulingLink } from '../models/SchedulingLink.model';
+import { Application } from '../models/Application.model';
+import { Job } from '../models/Job.model';
+import { Interview, IInterview } from '../models/Interview.model';
+import Notification from '../models/Notification.model';
+import { AppError } from '../middleware/errorHandler';
+import availabilityService, { addDays } from './availability.service';
+import organizationService from './organization.service';
+import pipelineService from './pipeline.service';
+import transitionGuardService from './transition-guard.service';
+import calendarService from './calendar.service';
+import { emailService } from './email.service';
+import { DropOffDetectionService } from './dropoff-detection.service';
+
+export interface SchedulingLinkInput {
+  applicationId: string;
+  interviewerIds?: string[];
+  duration?: number;
+  type?: ISchedulingLink['type'];
+  meetingLink?: string;
+  notes?: string;
+  windowStart?: string; // 'YYYY-MM-DD', defaults to today
+  windowEnd?: string; // 'YYYY-MM-DD', defaults to a week after windowStart
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 21;
+
+// Candidates cannot book a slot starting sooner than this
+const MIN_NOTICE_MS = 2 * 60 * 60 * 1000;
+
+class SchedulingLinkService {
+  /**
+   * Create a self-scheduling link for an application. Any pending link for the same
+   * application is cancelled so the candidate only ever has one to choose from.
+   */
+  async createLink(recruiterId: string, input: SchedulingLinkInput): Promise<ISchedulingLink> {
+    const application = await Application.findById(input.applicationId);
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(recruiterId);
+    const job = await Job.findOne({ _id: application.jobId, ...scope });
+    if (!job) {
+      throw new AppError('Application not found', 404);
+    }
+
+    // Booking moves the application to its interview stage, so that move must be possible (409)
+    const pipeline = pipelineService.getPipeline(job);
+    const interviewStage = pipelineService.getStageForStatus(pipeline, 'interview');
+    if (interviewStage) {
+      await transitionGuardService.assertAdvance(application, pipeline, interviewStage);
+    }
+
+    const panel = await availabilityService.assertPanelists(
+      recruiterId,
+      input.interviewerIds?.length ? input.interviewerIds : [recruiterId]
+    );
+
+    const duration = Number(input.duration || 60);
+    if (!Number.isInteger(duration) || duration < 15 || duration > 480) {
+      throw new AppError('Duration must be between 15 and 480 minutes', 400);
+    }
+
+    const { timezone } = await availabilityService.getAvailability(recruiterId);
+    const today = availabilityService.toZonedDate(new Date(), timezone);
+    const windowStart = input.windowStart || today;
+    const windowEnd = input.windowEnd || addDays(windowStart, DEFAULT_WINDOW_DAYS - 1);
+
+    if (!DATE_PATTERN.test(windowStart) || !DATE_PATTERN.test(windowEnd)) {
+      throw new AppError('Dates must be in YYYY-MM-DD format', 400);
+    }
+    if (windowStart < today) {
+      throw new AppError('The scheduling window cannot start in the past', 400);
+    }
+    if (windowEnd < windowStart) {
+      throw new AppError('The scheduling window must end on or after its start date', 400);
+    }
+    if (windowEnd > addDays(windowStart, MAX_WINDOW_DAYS - 1)) {
+      throw new AppError(`The scheduling window can cover at most ${MAX_WINDOW_DAYS} days`, 400);
+    }
+
+    await SchedulingLink.updateMany(
+      { applicationId: application._id, status: 'pending' },
+      { status: 'cancelled' }
+    );
+
+    return SchedulingLink.create({
+      token: crypto.randomBytes(24).toString('hex'),
+      applicationId: application._id,
+      jobId: job._id,
+      applicantId: application.applicantId,
+      createdBy: recruiterId,
+      organizationId: job.organizationId,
+      interviewerIds: panel,
+      duration,
+      type: input.type || 'Technical',
+      meetingLink: input.meetingLink || '',
+      notes: input.notes || '',
+      windowStart,
+      windowEnd,
+      // The link stays valid until the end of the window in the recruiter's timezone
+      expiresAt: availabilityService.zonedTimeToUtc(addDays(windowEnd, 1), 0, timezone)
+    });
+  }
+
+  /**
+   * Find a link by its token, expiring it when the window has passed
+   */
+  async getByToken(token: string): Promise<ISchedulingLink> {
+    const link = await SchedulingLink.findOne({ token });
+    if (!link) {
+      throw new AppError('Scheduling link not found', 404);
+    }
+
+    if (link.status === 'pending' && link.expiresAt < new Date()) {
+      link.status = 'expired';
+      await link.save();
+    }
+
+    return link;
+  }
+
+  /**
+   * Slots the candidate can pick from, grouped by day (in the recruiter's timezone)
+   */
+  async getOfferedSlots(link: ISchedulingLink) {
+    const organizerId = link.createdBy.toString();
+    const { timezone } = await availabilityService.getAvailability(organizerId);
+    const today = availabilityService.toZonedDate(new Date(), timezone);
+    const earliest = Date.now() + MIN_NOTICE_MS;
+
+    const days = [];
+    for (let date = link.windowStart > today ? link.windowStart : today; date <= link.windowEnd; date = addDays(date, 1)) {
+      const availability = await availabilityService.findAvailableSlots({
+        organizerId,
+        date,
+        duration: link.duration,
+        panelistIds: link.interviewerIds.map(id => id.toString()),
+        applicantId: link.applicantId.toString()
+      });
+
+      const slots = availability.availableSlots.filter(slot => new Date(slot.startTime).getTime() >= earliest);
+      if (slots.length > 0) days.push({ date, slots });
+    }
+
+    return { timezone, days };
+  }
+
+  /**
+   * Book the slot the candidate picked: creates the interview already confirmed,
+   * moves the application to its interview stage and notifies everyone
+   */
+  async bookSlot(token: string, startTime: unknown): Promise<IInterview> {
+    const link = await this.getByToken(token);
+    if (link.status === 'booked') {
+      throw new AppError('An interview has already been booked with this link', 409);
+    }
+    if (link.status !== 'pending') {
+      throw new AppError('This scheduling link is no longer valid', 410);
+    }
+
+    const start = new Date(String(startTime || ''));
+    if (isNaN(start.getTime())) {
+      throw new AppError('A valid start time is required', 400);
+    }
+
+    // The application may have been rejected or hired since the link was sent
+    const application = await Application.findById(link.applicationId).populate('jobId', 'pipeline');
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+    const pipeline = pipelineService.getPipeline(application.jobId as any);
+    const interviewStage = pipelineService.getStageForStatus(pipeline, 'interview');
+    const check = interviewStage
+      ? await transitionGuardService.checkAdvance(application, pipeline, interviewStage)
+      : { allowed: true, move: false };
+    if (!check.allowed) {
+      link.status = 'cancelled';
+      await link.save();
+      throw new AppError('This scheduling link is no longer valid', 410);
+    }
+
+    // The slot must still be one we offer - someone may have taken it since the page loaded
+    const { days } = await this.getOfferedSlots(link);
+    const offered = days.some(day => day.slots.some(slot => slot.startTime === start.toISOString()));
+    if (!offered) {
+      throw new AppError('That time slot is no longer available. Please pick another one.', 409);
+    }
+
+    // Claim the link atomically so a double submit cannot create two interviews
+    const claimed = await SchedulingLink.findOneAndUpdate(
+      { _id: link._id, status: 'pending' },
+      { status: 'booked', bookedAt: new Date() },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new AppError('An interview has already been booked with this link', 409);
+    }
+
+    const interview = await Interview.create({
+      applicationId: link.applicationId,
+      interviewerIds: link.interviewerIds,
+      scheduledBy: link.createdBy,
+      scheduledTime: start,
+      duration: link.duration,
+      meetingLink: link.meetingLink,
+      type: link.type,
+      notes: link.notes
+    });
+
+    claimed.interviewId = interview._id as any;
+    await claimed.save();
+
+    const confirmed = await DropOffDetectionService.recordSelfScheduled(interview._id.toString());
+    if (check.move && interviewStage) {
+      application.status = interviewStage.status;
+      application.stage = interviewStage.key;
+      application.statusHistory.push({
+        ...pipelineService.toHistoryFields(interviewStage),
+        timestamp: new Date(),
+        note: `Candidate booked an interview for ${start.toLocaleString()}`,
+        changedBy: link.applicantId as any
+      });
+      await application.save();
+    }
+    this.notify(link, interview, start);
+
+    return confirmed || interview;
+  }
+
+  /**
+   * Cancel the pending links of applications that were rejected or hired
+   */
+  async cancelPendingLinks(applicationIds: unknown[]): Promise<void> {
+    if (applicationIds.length === 0) return;
+    await SchedulingLink.updateMany(
+      { applicationId: { $in: applicationIds }, status: 'pending' },
+      { status: 'cancelled' }
+    );
+  }
+
+  // Calendar invite to the candidate and an in-app notification to the panel (non-blocking)
+  private notify(link: ISchedulingLink, interview: IInterview, start: Date): void {
+    Application.findById(link.applicationId)
+      .populate('applicantId', 'fullName email')
+      .populate('jobId', 'title')
+      .then(async application => {
+        const applicant = application?.applicantId as any;
+        const job = application?.jobId as any;
+        if (!applicant || !job) return;
+
+        const calendarInvite = await calendarService.buildInterviewInvite(interview._id.toString(), 'REQUEST');
+        await emailService.sendInterviewScheduled({
+          applicantName: applicant.fullName,
+          applicantEmail: applicant.email,
+          jobTitle: job.title,
+          companyName: 'HireSense',
+          interviewDate: emailService.formatDate(start),
+          interviewTime: emailService.formatTime(start),
+          duration: interview.duration,
+          type: interview.type,
+          meetingLink: interview.meetingLink || undefined,
+          notes: interview.notes || undefined,
+          interviewId: interview._id.toString(),
+          calendarInvite
+        });
+
+        await Notification.insertMany(link.interviewerIds.map(userId => ({
+          userId,
+          type: 'interview_scheduled',
+          title: 'Interview booked by candidate',
+          message: `${applicant.fullName} booked a ${interview.type} interview for ${job.title} on ${emailService.formatDate(start)} at ${emailService.formatTime(start)}`,
+          data: { jobId: link.jobId, applicationId: link.applicationId }
+        })));
+      })
+      .catch(err => console.error('Self-scheduling notification failed:', err));
+  }
+}
+
+export const schedulingLinkService = new SchedulingLinkService();
+export default schedulingLinkService;
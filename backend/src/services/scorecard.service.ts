@@ -0,0 +1,364 @@
+import mongoose from 'mongoose';
+import { Interview, IInterview } from '../models/Interview.model';
+import { Application, IScorecardSummary } from '../models/Application.model';
+import { Job, IJob, IScorecardCompetency } from '../models/Job.model';
+import { InterviewFeedback, IInterviewFeedback, FEEDBACK_VOTES, FeedbackVote } from '../models/InterviewFeedback.model';
+import { AppError } from '../middleware/errorHandler';
+import organizationService from './organization.service';
+import { toKey } from '../utils/slug';
+
+export interface FeedbackInput {
+  ratings?: { competency: string; rating: number; comment?: string }[];
+  vote?: FeedbackVote;
+  comments?: string;
+  submit?: boolean; // Submitting makes the feedback final
+}
+
+// Used for jobs that have not defined their own rubric
+const DEFAULT_SCORECARD: IScorecardCompetency[] = [
+  { key: 'technical_skills', name: 'Technical Skills', description: 'Depth of knowledge in the skills the role requires' },
+  { key: 'problem_solving', name: 'Problem Solving', description: 'Breaks down problems, weighs trade-offs and reaches a working solution' },
+  { key: 'communication', name: 'Communication', description: 'Explains their thinking clearly and listens to feedback' },
+  { key: 'collaboration', name: 'Collaboration', description: 'Works well with others and would strengthen the team' },
+];
+
+const MAX_COMPETENCIES = 12;
+
+// Numeric weight of each vote when deciding the panel's overall recommendation
+const VOTE_SCORES: Record<FeedbackVote, number> = {
+  strong_no_hire: -2,
+  no_hire: -1,
+  hire: 1,
+  strong_hire: 2,
+};
+
+class ScorecardService {
+  /**
+   * Get the effective scorecard rubric for a job
+   */
+  getTemplate(job: { scorecardTemplate?: IScorecardCompetency[] } | null | undefined): IScorecardCompetency[] {
+    const competencies = job?.scorecardTemplate && job.scorecardTemplate.length > 0
+      ? job.scorecardTemplate
+      : DEFAULT_SCORECARD;
+    return competencies.map(competency => ({
+      key: competency.key,
+      name: competency.name,
+      description: competency.description || ''
+    }));
+  }
+
+  /**
+   * Validate and normalize a recruiter-supplied rubric.
+   * Throws AppError(400) on invalid input.
+   */
+  normalizeTemplate(input: unknown): IScorecardCompetency[] {
+    if (!Array.isArray(input) || input.length === 0) {
+      throw new AppError('Scorecard must contain at least one competency', 400);
+    }
+    if (input.length > MAX_COMPETENCIES) {
+      throw new AppError(`Scorecard can contain at most ${MAX_COMPETENCIES} competencies`, 400);
+    }
+
+    const keys = new Set<string>();
+    return input.map((raw: any, index: number) => {
+      const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+      if (!name) {
+        throw new AppError(`Competency ${index + 1} is missing a name`, 400);
+      }
+
+      const key = toKey(typeof raw.key === 'string' && raw.key.trim() ? raw.key : name);
+      if (!key || keys.has(key)) {
+        throw new AppError(`Duplicate competency: ${name}`, 400);
+      }
+      keys.add(key);
+
+      return {
+        key,
+        name,
+        description: typeof raw.description === 'string' ? raw.description.trim() : ''
+      };
+    });
+  }
+
+  /**
+   * Feedback on an interview as the given recruiter may see it. Drafts are private, and
+   * panelists only see their colleagues' scores once they have submitted their own.
+   */
+  async getInterviewFeedback(interviewId: string, userId: string) {
+    const { interview, job, panel } = await this.loadInterview(interviewId, userId);
+    const feedback = await InterviewFeedback.find({ interviewId: interview._id })
+      .populate('interviewerId', 'fullName email');
+
+    const mine = feedback.find(entry => this.authorId(entry) === userId) || null;
+    const isPanelist = panel.includes(userId);
+    const canSeeOthers = !isPanelist || mine?.status === 'submitted';
+
+    return {
+      interviewId: interview._id,
+      interviewStatus: interview.status,
+      template: this.getTemplate(job),
+      isPanelist,
+      canSeeOthers,
+      myFeedback: mine,
+      // Who still owes feedback, without revealing anything they wrote
+      panel: panel.map(panelistId => {
+        const entry = feedback.find(item => this.authorId(item) === panelistId);
+        return {
+          interviewerId: panelistId,
+          fullName: (entry?.interviewerId as any)?.fullName,
+          status: entry?.status === 'submitted' ? 'submitted' : 'pending',
+          submittedAt: entry?.submittedAt
+        };
+      }),
+      feedback: canSeeOthers
+        ? feedback.filter(entry => entry.status === 'submitted' && this.authorId(entry) !== userId)
+        : []
+    };
+  }
+
+  /**
+   * Save (and optionally submit) the current panelist's feedback for an interview
+   */
+  async saveFeedback(interviewId: string, userId: string, input: FeedbackInput): Promise<IInterviewFeedback> {
+    const { interview, application, job, panel } = await this.loadInterview(interviewId, userId);
+
+    if (!panel.includes(userId)) {
+      throw new AppError('Only interviewers on the panel can leave feedback for this interview', 403);
+    }
+    if (interview.status === 'cancelled') {
+      throw new AppError('Cannot leave feedback on a cancelled interview', 400);
+    }
+    if (input.submit && interview.status !== 'completed') {
+      throw new AppError('Feedback can only be submitted once the interview is marked as completed', 409);
+    }
+
+    const existing = await InterviewFeedback.findOne({ interviewId: interview._id, interviewerId: userId });
+    if (existing?.status === 'submitted') {
+      throw new AppError('You have already submitted feedback for this interview', 409);
+    }
+
+    const template = this.getTemplate(job);
+    if (input.vote !== undefined && !FEEDBACK_VOTES.includes(input.vote)) {
+      throw new AppError(`Invalid vote: ${input.vote}. Must be one of: ${FEEDBACK_VOTES.join(', ')}`, 400);
+    }
+
+    const feedback = existing || new InterviewFeedback({
+      interviewId: interview._id,
+      applicationId: application._id,
+      jobId: job._id,
+      interviewerId: userId
+    });
+
+    if (input.ratings !== undefined) feedback.ratings = this.normalizeRatings(template, input.ratings);
+    if (input.vote !== undefined) feedback.vote = input.vote;
+    if (input.comments !== undefined) feedback.comments = String(input.comments);
+
+    if (input.submit) {
+      const unrated = template.filter(competency => !feedback.ratings.some(rating => rating.competency === competency.key));
+      if (unrated.length > 0) {
+        throw new AppError(`Rate every competency before submitting (missing: ${unrated.map(c => c.name).join(', ')})`, 400);
+      }
+      if (!feedback.vote) {
+        throw new AppError('A hire / no-hire vote is required before submitting', 400);
+      }
+
+      feedback.status = 'submitted';
+      feedback.submittedAt = new Date();
+    }
+
+    await feedback.save();
+
+    if (input.submit) {
+      await this.refreshSummary(application._id.toString());
+    }
+
+    return feedback;
+  }
+
+  /**
+   * Scorecards for every interview of an application, with the panel's aggregate
+   */
+  async getApplicationScorecards(applicationId: string, userId: string) {
+    const application = await Application.findById(applicationId).select('jobId +scorecardSummary');
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const scope = await organizationService.getOwnerScope(userId);
+    const job = await Job.findOne({ _id: application.jobId, ...scope }).select('recruiterId scorecardTemplate');
+    if (!job) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const interviews = await Interview.find({ applicationId: application._id, status: { $ne: 'cancelled' } })
+      .select('scheduledTime type status interviewerIds')
+      .sort({ scheduledTime: 1 });
+    const feedback = await InterviewFeedback.find({ applicationId: application._id, status: 'submitted' })
+      .populate('interviewerId', 'fullName email')
+      .sort({ submittedAt: 1 });
+
+    // Panelists who still owe feedback on an interview don't get to see their colleagues' scores for it
+    const hiddenInterviews = new Set<string>();
+    for (const interview of interviews) {
+      const panel = this.getPanel(interview, job);
+      const submitted = feedback.some(entry =>
+        entry.interviewId.toString() === interview._id.toString() && this.authorId(entry) === userId
+      );
+      if (panel.includes(userId) && !submitted) {
+        hiddenInterviews.add(interview._id.toString());
+      }
+    }
+
+    return {
+      template: this.getTemplate(job),
+      summary: hiddenInterviews.size > 0 ? null : application.scorecardSummary || null,
+      hiddenInterviewIds: [...hiddenInterviews],
+      interviews,
+      feedback: feedback.filter(entry => !hiddenInterviews.has(entry.interviewId.toString()))
+    };
+  }
+
+  /**
+   * Recompute the scorecard aggregate stored on an application
+   */
+  async refreshSummary(applicationId: string): Promise<IScorecardSummary> {
+    const application = await Application.findById(applicationId).select('jobId');
+    if (!application) {
+      throw new AppError('Application not found', 404);
+    }
+
+    const job = await Job.findById(application.jobId).select('recruiterId scorecardTemplate');
+    const [feedback, completedInterviews] = await Promise.all([
+      InterviewFeedback.find({ applicationId, status: 'submitted' }),
+      Interview.find({ applicationId, status: 'completed' }).select('interviewerIds')
+    ]);
+
+    const votes: Record<FeedbackVote, number> = { strong_no_hire: 0, no_hire: 0, hire: 0, strong_hire: 0 };
+    for (const entry of feedback) {
+      if (entry.vote) votes[entry.vote]++;
+    }
+
+    // Average per competency, keeping the template order and any competency that was since removed from it
+    const competencies = this.getTemplate(job).map(competency => ({ key: competency.key, name: competency.name }));
+    for (const rating of feedback.flatMap(entry => entry.ratings)) {
+      if (!competencies.some(competency => competency.key === rating.competency)) {
+        competencies.push({ key: rating.competency, name: rating.name });
+      }
+    }
+    const competencyAverages = competencies
+      .map(competency => {
+        const ratings = feedback.flatMap(entry => entry.ratings).filter(rating => rating.competency === competency.key);
+        return {
+          ...competency,
+          averageRating: this.average(ratings.map(rating => rating.rating)),
+          ratingCount: ratings.length
+        };
+      })
+      .filter(competency => competency.ratingCount > 0);
+
+    const submittedBy = new Set(feedback.map(entry => `${entry.interviewId}:${entry.interviewerId}`));
+    const pendingCount = completedInterviews.reduce((count, interview) =>
+      count + this.getPanel(interview, job).filter(panelistId => !submittedBy.has(`${interview._id}:${panelistId}`)).length,
+      0
+    );
+
+    const summary: IScorecardSummary = {
+      submittedCount: feedback.length,
+      pendingCount,
+      averageRating: this.average(feedback.flatMap(entry => entry.ratings.map(rating => rating.rating))),
+      votes,
+      recommendation: this.toRecommendation(votes),
+      competencies: competencyAverages,
+      updatedAt: new Date()
+    };
+
+    await Application.updateOne({ _id: applicationId }, { scorecardSummary: summary });
+    return summary;
+  }
+
+  /**
+   * Whether an application has at least one submitted scorecard
+   */
+  async hasSubmittedFeedback(applicationId: mongoose.Types.ObjectId | string): Promise<boolean> {
+    return !!(await InterviewFeedback.exists({ applicationId, status: 'submitted' }));
+  }
+
+  private async loadInterview(interviewId: string, userId: string) {
+    const interview = await Interview.findById(interviewId);
+    if (!interview) {
+      throw new AppError('Interview not found', 404);
+    }
+
+    const application = await Application.findById(interview.applicationId).select('jobId');
+    const scope = await organizationService.getOwnerScope(userId);
+    const job = application
+      ? await Job.findOne({ _id: application.jobId, ...scope }).select('recruiterId scorecardTemplate')
+      : null;
+    if (!application || !job) {
+      throw new AppError('Interview not found', 404);
+    }
+
+    return { interview, application, job, panel: this.getPanel(interview, job) };
+  }
+
+  // Interviews scheduled before panels existed belong to the job's recruiter
+  private getPanel(interview: Pick<IInterview, 'interviewerIds'>, job: Pick<IJob, 'recruiterId'> | null): string[] {
+    if (interview.interviewerIds?.length) {
+      return interview.interviewerIds.map(id => id.toString());
+    }
+    return job ? [job.recruiterId.toString()] : [];
+  }
+
+  private normalizeRatings(template: IScorecardCompetency[], input: unknown) {
+    if (!Array.isArray(input)) {
+      throw new AppError('Ratings must be an array', 400);
+    }
+
+    return input.map((raw: any) => {
+      const competency = template.find(item => item.key === raw?.competency);
+      if (!competency) {
+        throw new AppError(`Unknown competency: ${raw?.competency}`, 400);
+      }
+
+      const rating = Number(raw.rating);
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        throw new AppError(`Rating for "${competency.name}" must be a whole number from 1 to 5`, 400);
+      }
+
+      return {
+        competency: competency.key,
+        name: competency.name,
+        rating,
+        comment: typeof raw.comment === 'string' ? raw.comment.trim() : ''
+      };
+    });
+  }
+
+  private toRecommendation(votes: Record<FeedbackVote, number>): IScorecardSummary['recommendation'] {
+    const total = FEEDBACK_VOTES.reduce((sum, vote) => sum + votes[vote], 0);
+    if (total === 0) return 'none';
+
+    const positive = votes.hire + votes.strong_hire;
+    const negative = votes.no_hire + votes.strong_no_hire;
+    if (positive > 0 && negative > 0) return 'mixed';
+
+    const score = FEEDBACK_VOTES.reduce((sum, vote) => sum + VOTE_SCORES[vote] * votes[vote], 0) / total;
+    if (score >= 1.5) return 'strong_hire';
+    if (score > 0) return 'hire';
+    if (score <= -1.5) return 'strong_no_hire';
+    return 'no_hire';
+  }
+
+  private average(values: number[]): number {
+    if (values.length === 0) return 0;
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+  }
+
+  private authorId(feedback: IInterviewFeedback): string {
+    const author = feedback.interviewerId as any;
+    return (author?._id || author).toString();
+  }
+}
+
+export const scorecardService = new ScorecardService();
+export default scorecardService;
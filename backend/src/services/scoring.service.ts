@@ -1,7 +1,14 @@
-import { IApplicantProfile } from '../models/ApplicantProfile.model';
-import { IJob } from '../models/Job.model';
+import { ApplicantProfile, IApplicantProfile, IContentFlag } from '../models/ApplicantProfile.model';
+import { Application } from '../models/Application.model';
+import { Job, IJob, IScoringWeights, ScoringSignal, SCORING_SIGNALS } from '../models/Job.model';
 import { InterviewSession } from '../models/InterviewSession.model';
+import { QueueTask } from '../models/QueueTask.model';
+import { AppError } from '../middleware/errorHandler';
 import { skillNormalizerService } from './skill-normalizer.service';
+import { skillProficiencyService, JobSkillMatch } from './skill-proficiency.service';
+import { evaluationHistoryService } from './evaluation-history.service';
+import { contentGuardService } from './content-guard.service';
+import { taskQueue } from './task-queue.service';
 
 export interface ScoringBreakdown {
   skillMatch: number;
@@ -17,7 +24,7 @@ export interface ScoringBreakdown {
 export interface RiskFactor {
   type: 'warning' | 'concern' | 'blocker';
   message: string;
-  category: 'skills' | 'experience' | 'activity' | 'profile';
+  category: 'skills' | 'experience' | 'activity' | 'profile' | 'integrity';
 }
 
 export interface ScoringResult {
@@ -29,22 +36,50 @@ export interface ScoringResult {
   strengths: string[];
   gaps: string[];
   recommendation: 'select' | 'review' | 'reject';
+  weightProfile: WeightProfile;
+  contributions: SignalContribution[];
 }
 
-// Job category-based signal weights
-// GitHub weight is 0 for non-technical roles
-type CategoryWeights = {
-  skills: number;
-  github: number;
-  leetcode: number;
-  experience: number;
-  projects: number;
-  education: number;
-  profile: number;
-  aiReadiness: number;
-};
+export type EvidenceSource =
+  | 'skills' | 'experience' | 'education' | 'certifications' | 'projects'
+  | 'github' | 'leetcode' | 'profile' | 'interview_session';
+
+export interface SignalEvidence {
+  source: EvidenceSource;
+  label: string;
+  ref?: string; // Pointer into the applicant profile (e.g. 'experience[0]') or a record id
+  detail?: string;
+  counted: boolean; // Whether this item raised the signal score
+}
+
+// How one weighted signal contributed to the rule-based score, and the data behind it
+export interface SignalContribution {
+  signal: ScoringSignal;
+  label: string;
+  score: number; // 0-100
+  weight: number; // % of the rule-based score
+  contribution: number; // Points added to the rule-based score
+  summary: string;
+  evidence: SignalEvidence[];
+}
 
-const categoryWeights: Record<string, CategoryWeights> = {
+export interface AiReadiness {
+  score: number;
+  sessionId?: string; // Completed AI interview session the score came from
+  completedAt?: Date;
+  contentFlags?: IContentFlag[]; // Manipulation found in the session's answers
+}
+
+export interface WeightProfile {
+  source: 'job' | 'category';
+  category: string;
+  version: number;
+  weights: IScoringWeights;
+}
+
+// Job category-based signal weights, used unless the job carries its own profile
+// GitHub weight is 0 for non-technical roles
+const categoryWeights: Record<string, IScoringWeights> = {
   'software': { skills: 25, github: 15, leetcode: 10, experience: 15, projects: 15, education: 5, profile: 5, aiReadiness: 10 },
   'data-science': { skills: 25, github: 10, leetcode: 15, experience: 15, projects: 15, education: 5, profile: 5, aiReadiness: 10 },
   'qa-automation': { skills: 30, github: 10, leetcode: 10, experience: 15, projects: 15, education: 5, profile: 5, aiReadiness: 10 },
@@ -54,6 +89,36 @@ const categoryWeights: Record<string, CategoryWeights> = {
 
 const DEFAULT_AI_READINESS_SCORE = 50;
 
+// Breakdown field and display label of each weighted signal
+const SIGNAL_FIELDS: Record<ScoringSignal, { field: keyof ScoringBreakdown; label: string }> = {
+  skills: { field: 'skillMatch', label: 'Skill Match' },
+  github: { field: 'githubActivity', label: 'GitHub Activity' },
+  leetcode: { field: 'leetcodePerformance', label: 'LeetCode' },
+  experience: { field: 'experience', label: 'Experience' },
+  projects: { field: 'projectRelevance', label: 'Projects' },
+  education: { field: 'educationStrength', label: 'Education' },
+  profile: { field: 'profileCompleteness', label: 'Profile Completeness' },
+  aiReadiness: { field: 'aiReadiness', label: 'AI Interview Readiness' }
+};
+
+// Years of experience expected per job experience level
+const EXPERIENCE_LEVEL_YEARS: { [key: string]: { min: number; max: number } } = {
+  fresher: { min: 0, max: 1 },   // 0-1 years
+  junior: { min: 1, max: 3 },    // 1-3 years
+  entry: { min: 0, max: 2 },     // Legacy support
+  mid: { min: 3, max: 6 },       // 3-6 years
+  senior: { min: 6, max: 100 },  // 6+ years
+  lead: { min: 8, max: 100 }     // Legacy support
+};
+
+const ADVANCED_DEGREE_PATTERN = /master|msc|mca|phd|doctor/i;
+const BACHELORS_DEGREE_PATTERN = /bachelor|bsc|btech|be/i;
+
+// Share of the AI model's own score in a blended evaluation (the rest is the weighted rule-based score)
+export const AI_SCORE_BLEND = 0.6;
+
+export const RERANK_QUEUE = 'rerank-application';
+
 
 /**
  * Fallback Scoring Service
@@ -64,15 +129,19 @@ class ScoringService {
   /**
    * Calculate skill match between job requirements and candidate skills
    * Uses NLP-based skill normalization for accurate matching
-   * (e.g., "Node" matches "NodeJS", "node.js", "node js")
+   * (e.g., "Node" matches "NodeJS", "node.js", "node js"). Skills are weighted by their
+   * importance, nice-to-haves count for a small share, and a skill's credit drops when
+   * the candidate's recorded level is below the job's minimum
    * Weight: 40% of total score
    */
-  calculateSkillMatch(jobSkills: string[], candidateSkills: string[]): number {
-    if (!jobSkills.length || !candidateSkills.length) return 0;
+  calculateSkillMatch(
+    job: Pick<IJob, 'requiredSkills' | 'niceToHaveSkills' | 'skillRequirements'>,
+    profile: Pick<IApplicantProfile, 'skills' | 'skillProficiencies'>
+  ): number {
+    const hasJobSkills = (job.requiredSkills?.length || 0) + (job.niceToHaveSkills?.length || 0) > 0;
+    if (!hasJobSkills || !profile.skills?.length) return 0;
 
-    // Use NLP-based skill normalizer for accurate matching
-    const result = skillNormalizerService.calculateSkillMatch(jobSkills, candidateSkills);
-    const matchPercentage = result.score;
+    const matchPercentage = skillProficiencyService.matchJobSkills(job, profile).score;
 
     // Scoring logic
     if (matchPercentage >= 80) return 100;
@@ -123,8 +192,8 @@ class ScoringService {
     }
 
     let score = 40;
-    const advancedDegree = education?.some(edu => /master|msc|mca|phd|doctor/i.test(edu.degree));
-    const bachelors = education?.some(edu => /bachelor|bsc|btech|be/i.test(edu.degree));
+    const advancedDegree = education?.some(edu => ADVANCED_DEGREE_PATTERN.test(edu.degree));
+    const bachelors = education?.some(edu => BACHELORS_DEGREE_PATTERN.test(edu.degree));
 
     if (advancedDegree) score += 30;
     else if (bachelors) score += 20;
@@ -154,17 +223,7 @@ class ScoringService {
 
     const years = candidateYears || candidateExperience?.length || 0;
 
-    // Map experience levels to years (updated for 4 levels)
-    const levelMap: { [key: string]: { min: number; max: number } } = {
-      fresher: { min: 0, max: 1 },   // 0-1 years
-      junior: { min: 1, max: 3 },    // 1-3 years
-      entry: { min: 0, max: 2 },     // Legacy support
-      mid: { min: 3, max: 6 },       // 3-6 years
-      senior: { min: 6, max: 100 },  // 6+ years
-      lead: { min: 8, max: 100 }     // Legacy support
-    };
-
-    const required = levelMap[jobExperienceLevel] || levelMap.mid;
+    const required = EXPERIENCE_LEVEL_YEARS[jobExperienceLevel] || EXPERIENCE_LEVEL_YEARS.mid;
 
     // Perfect match
     if (years >= required.min && years <= required.max) return 100;
@@ -189,23 +248,8 @@ class ScoringService {
    * Weight: 10% of total score
    */
   calculateProfileCompleteness(profile: IApplicantProfile): number {
-    let score = 0;
-    const checks = [
-      { field: profile.skills.length > 0, weight: 20 },
-      { field: profile.resumeText && profile.resumeText.length > 0, weight: 20 },
-      { field: profile.experience.length > 0, weight: 15 },
-      { field: profile.education.length > 0, weight: 15 },
-      { field: !!profile.githubUsername, weight: 10 },
-      { field: !!profile.linkedinUrl, weight: 5 },
-      { field: !!(profile as any).portfolioUrl, weight: 5 },
-      { field: (profile as any).projects?.length > 0, weight: 10 }
-    ];
-
-    checks.forEach(check => {
-      if (check.field) score += check.weight;
-    });
-
-    return score;
+    return this.getProfileChecks(profile)
+      .reduce((score, check) => (check.passed ? score + check.weight : score), 0);
   }
 
   /**
@@ -290,7 +334,7 @@ class ScoringService {
     job: IJob
   ): RiskFactor[] {
     const risks: RiskFactor[] = [];
-    const weights = categoryWeights[job.jobCategory] || categoryWeights['software'];
+    const { weights } = this.getWeightProfile(job);
 
     // Skill-related risks
     if (scoringBreakdown.skillMatch < 50) {
@@ -483,12 +527,12 @@ class ScoringService {
     job: IJob,
     profile: IApplicantProfile
   ): Promise<ScoringResult> {
-    // Get job category (default to software if not set)
-    const jobCategory = (job as any).jobCategory || 'software';
-    const weights = categoryWeights[jobCategory] || categoryWeights['software'];
+    // Recruiter-tuned weights, falling back to the job category defaults
+    const weightProfile = this.getWeightProfile(job);
+    const { weights } = weightProfile;
 
     // Calculate individual scores
-    const skillMatch = this.calculateSkillMatch(job.requiredSkills, profile.skills);
+    const skillMatch = this.calculateSkillMatch(job, profile);
     
     // Only calculate GitHub score if relevant for this job category
     const githubActivity = weights.github > 0 
@@ -516,7 +560,8 @@ class ScoringService {
         )
       : 0;
 
-    const aiReadiness = await this.getAiReadinessScore(profile.userId);
+    const aiReadinessResult = await this.getAiReadiness(profile.userId);
+    const aiReadiness = aiReadinessResult.score;
 
     const scoringBreakdown: ScoringBreakdown = {
       skillMatch,
@@ -530,23 +575,17 @@ class ScoringService {
     };
 
     // Calculate weighted overall score using CONTEXT-AWARE weights
-    // Weights adjust based on job category (e.g., GitHub=0 for non-technical roles)
-    const overallScore = Math.round(
-      skillMatch * (weights.skills / 100) +
-      githubActivity * (weights.github / 100) +
-      leetcodePerformance * (weights.leetcode / 100) +
-      experience * (weights.experience / 100) +
-      projectRelevance * (weights.projects / 100) +
-      educationStrength * (weights.education / 100) +
-      profileCompleteness * (weights.profile / 100) +
-      aiReadiness * (weights.aiReadiness / 100)
-    );
+    // Weights adjust based on job category (e.g., GitHub=0 for non-technical roles) or the job's own profile
+    const overallScore = this.calculateOverallScore(scoringBreakdown, weights);
 
     // Calculate confidence
     const confidence = this.calculateConfidence(profile, scoringBreakdown);
 
-    // Identify risks and strengths
-    const riskFactors = this.identifyRiskFactors(scoringBreakdown, profile, job);
+    // Identify risks and strengths, manipulation found in the candidate's text first
+    const riskFactors = [
+      ...contentGuardService.toRiskFactors([...(profile.resumeFlags || []), ...(aiReadinessResult.contentFlags || [])]),
+      ...this.identifyRiskFactors(scoringBreakdown, profile, job)
+    ];
     const strengths = this.identifyStrengths(scoringBreakdown, profile, job);
 
     // Identify gaps
@@ -593,12 +632,199 @@ class ScoringService {
       scoringBreakdown,
       strengths,
       gaps,
-      recommendation
+      recommendation,
+      weightProfile,
+      contributions: this.explainScore(job, profile, scoringBreakdown, weights, aiReadinessResult)
     };
   }
 
-  private async getAiReadinessScore(userId: IApplicantProfile['userId']): Promise<number> {
-    if (!userId) return DEFAULT_AI_READINESS_SCORE;
+  /**
+   * Explain a rule-based score: what each weighted signal added, and the profile
+   * data (skills, repos, roles, projects...) that drove it
+   */
+  explainScore(
+    job: Pick<IJob, 'requiredSkills' | 'niceToHaveSkills' | 'skillRequirements' | 'experienceLevel'>,
+    profile: IApplicantProfile,
+    breakdown: ScoringBreakdown,
+    weights: IScoringWeights,
+    aiReadiness: AiReadiness
+  ): SignalContribution[] {
+    return SCORING_SIGNALS.map(signal => {
+      const { field, label } = SIGNAL_FIELDS[signal];
+      const score = breakdown[field] || 0;
+      const weight = weights[signal] || 0;
+      const { summary, evidence } = this.explainSignal(signal, job, profile, aiReadiness);
+
+      return {
+        signal,
+        label,
+        score,
+        weight,
+        contribution: Math.round(score * weight / 10) / 10,
+        summary: weight > 0 ? summary : `Not weighted for this job. ${summary}`,
+        evidence
+      };
+    });
+  }
+
+  /**
+   * Weights used to score candidates for a job: its own profile when a recruiter
+   * tuned one, otherwise the job category defaults
+   */
+  getWeightProfile(job: Pick<IJob, 'jobCategory' | 'scoringWeights' | 'scoringWeightsVersion'>): WeightProfile {
+    const category = job.jobCategory || 'software';
+    if (job.scoringWeights) {
+      return {
+        source: 'job',
+        category,
+        version: job.scoringWeightsVersion || 0,
+        weights: this.pickWeights(job.scoringWeights)
+      };
+    }
+
+    return {
+      source: 'category',
+      category,
+      version: 0,
+      weights: { ...(categoryWeights[category] || categoryWeights['software']) }
+    };
+  }
+
+  /**
+   * Default weights of a job category
+   */
+  getCategoryWeights(category: string): IScoringWeights {
+    return { ...(categoryWeights[category] || categoryWeights['software']) };
+  }
+
+  /**
+   * Validate a recruiter-supplied weight profile: whole percentages for every signal,
+   * summing to 100. Throws AppError(400) on invalid input.
+   */
+  normalizeWeights(input: unknown): IScoringWeights {
+    if (!input || typeof input !== 'object') {
+      throw new AppError('Scoring weights must be an object of signal percentages', 400);
+    }
+
+    const weights = {} as IScoringWeights;
+    for (const signal of SCORING_SIGNALS) {
+      const value = Number((input as Record<string, unknown>)[signal] ?? 0);
+      if (!Number.isInteger(value) || value < 0 || value > 100) {
+        throw new AppError(`Weight for ${signal} must be a whole number between 0 and 100`, 400);
+      }
+      weights[signal] = value;
+    }
+
+    const total = SCORING_SIGNALS.reduce((sum, signal) => sum + weights[signal], 0);
+    if (total !== 100) {
+      throw new AppError(`Scoring weights must add up to 100 (currently ${total})`, 400);
+    }
+
+    return weights;
+  }
+
+  /**
+   * Weighted overall score (0-100) of a scoring breakdown
+   */
+  calculateOverallScore(breakdown: ScoringBreakdown, weights: IScoringWeights): number {
+    return Math.round(
+      breakdown.skillMatch * (weights.skills / 100) +
+      breakdown.githubActivity * (weights.github / 100) +
+      breakdown.leetcodePerformance * (weights.leetcode / 100) +
+      breakdown.experience * (weights.experience / 100) +
+      breakdown.projectRelevance * (weights.projects / 100) +
+      breakdown.educationStrength * (weights.education / 100) +
+      breakdown.profileCompleteness * (weights.profile / 100) +
+      (breakdown.aiReadiness || 0) * (weights.aiReadiness / 100)
+    );
+  }
+
+  /**
+   * Register the re-rank worker with the task queue
+   */
+  registerRerankQueue(): void {
+    taskQueue.register(RERANK_QUEUE, payload => this.rerankApplication(payload), {
+      concurrency: Number(process.env.RERANK_CONCURRENCY) || undefined
+    });
+  }
+
+  /**
+   * Queue a re-score of every evaluated application of a job so rankings follow its
+   * new weights. Applications already waiting for a re-rank are not queued twice; the
+   * task reads the job's weights when it runs. Returns how many were queued.
+   */
+  async queueJobRerank(job: IJob): Promise<number> {
+    const applications = await Application.find({
+      jobId: job._id,
+      'aiInsights.aiSummary': { $nin: ['', null] }
+    }).select('_id');
+
+    const alreadyQueued = await QueueTask.find({
+      queue: RERANK_QUEUE,
+      status: 'queued',
+      'payload.applicationId': { $in: applications.map(app => app._id.toString()) }
+    }).select('payload.applicationId');
+    const queuedIds = new Set(alreadyQueued.map(task => task.payload.applicationId));
+
+    const toQueue = applications.filter(app => !queuedIds.has(app._id.toString()));
+    await taskQueue.enqueue(RERANK_QUEUE, toQueue.map(app => ({
+      applicationId: app._id.toString(),
+      jobId: job._id.toString()
+    })));
+
+    return toQueue.length;
+  }
+
+  /**
+   * Re-score one evaluated application with its job's current weight profile (queue
+   * task handler). AI narrative is kept; an AI score blended into the old overall score
+   * is blended into the new one the same way.
+   */
+  async rerankApplication(payload: Record<string, any>): Promise<Record<string, unknown>> {
+    const [application, job] = await Promise.all([
+      Application.findById(payload.applicationId),
+      Job.findById(payload.jobId)
+    ]);
+    if (!application || !job) {
+      throw new Error('Application or job no longer exists');
+    }
+    if (!application.aiInsights) {
+      throw new Error('Application has not been evaluated');
+    }
+
+    const profile = await ApplicantProfile.findOne({ userId: application.applicantId });
+    if (!profile) {
+      throw new Error('Applicant profile not found');
+    }
+
+    const scoring = await this.evaluateCandidate(job, profile);
+    const aiScore = application.aiInsights.aiScore;
+    const insights = application.aiInsights;
+
+    insights.overallScore = typeof aiScore === 'number'
+      ? Math.round(aiScore * AI_SCORE_BLEND + scoring.overallScore * (1 - AI_SCORE_BLEND))
+      : scoring.overallScore;
+    insights.scoringBreakdown = scoring.scoringBreakdown;
+    insights.weightProfile = { ...scoring.weightProfile, appliedAt: new Date() };
+    insights.contributions = scoring.contributions;
+    if (typeof aiScore !== 'number') {
+      insights.recommendation = scoring.recommendation;
+    }
+
+    await evaluationHistoryService.record(application, { trigger: 'weights_change', job, profile });
+
+    return { overallScore: insights.overallScore };
+  }
+
+  private pickWeights(source: IScoringWeights): IScoringWeights {
+    return Object.fromEntries(SCORING_SIGNALS.map(signal => [signal, source[signal] || 0])) as IScoringWeights;
+  }
+
+  /**
+   * Candidate's latest AI interview readiness score (neutral default without one)
+   */
+  async getAiReadiness(userId: IApplicantProfile['userId']): Promise<AiReadiness> {
+    if (!userId) return { score: DEFAULT_AI_READINESS_SCORE };
 
     const latestSession = await InterviewSession.findOne({
       userId,
@@ -608,10 +834,236 @@ class ScoringService {
 
     const score = latestSession?.finalScore?.aiReadinessScore;
     if (typeof score === 'number') {
-      return Math.max(0, Math.min(100, score));
+      const contentFlags = latestSession!.questions.flatMap(question => question.evaluation?.contentFlags || []);
+      return {
+        score: Math.max(0, Math.min(100, score)),
+        sessionId: latestSession!._id.toString(),
+        completedAt: latestSession!.completedAt,
+        contentFlags: contentFlags.length > 0 ? contentFlags : undefined
+      };
     }
 
-    return DEFAULT_AI_READINESS_SCORE;
+    return { score: DEFAULT_AI_READINESS_SCORE };
+  }
+
+  // Recorded level of a matched skill against the job's minimum, appended to its evidence
+  private describeSkillLevel(detail: JobSkillMatch): string {
+    if (!detail.candidateLevel) {
+      return detail.minLevel ? ` - no level recorded (job asks for ${detail.minLevel})` : '';
+    }
+    const level = skillProficiencyService.describeLevel(detail.candidateLevel, detail.yearsUsed);
+    if (!detail.minLevel) return ` - ${level}`;
+    return detail.levelsBelow === 0
+      ? ` - ${level}, meets the ${detail.minLevel} minimum`
+      : ` - ${level}, below the ${detail.minLevel} minimum (${Math.round(detail.levelFactor * 100)}% credit)`;
+  }
+
+  private getProfileChecks(profile: IApplicantProfile): { label: string; weight: number; passed: boolean }[] {
+    return [
+      { label: 'Skills listed', weight: 20, passed: profile.skills.length > 0 },
+      { label: 'Resume uploaded', weight: 20, passed: !!profile.resumeText && profile.resumeText.length > 0 },
+      { label: 'Work experience', weight: 15, passed: profile.experience.length > 0 },
+      { label: 'Education', weight: 15, passed: profile.education.length > 0 },
+      { label: 'GitHub username', weight: 10, passed: !!profile.githubUsername },
+      { label: 'LinkedIn URL', weight: 5, passed: !!profile.linkedinUrl },
+      { label: 'Portfolio URL', weight: 5, passed: !!profile.portfolioUrl },
+      { label: 'Projects', weight: 10, passed: (profile.projects?.length || 0) > 0 }
+    ];
+  }
+
+  private explainSignal(
+    signal: ScoringSignal,
+    job: Pick<IJob, 'requiredSkills' | 'niceToHaveSkills' | 'skillRequirements' | 'experienceLevel'>,
+    profile: IApplicantProfile,
+    aiReadiness: AiReadiness
+  ): { summary: string; evidence: SignalEvidence[] } {
+    const requiredSkills = job.requiredSkills || [];
+
+    switch (signal) {
+      case 'skills': {
+        const match = skillProficiencyService.matchJobSkills(job, profile);
+        if (!match.details.length) {
+          return { summary: 'The job lists no required skills', evidence: [] };
+        }
+        const evidence: SignalEvidence[] = match.details.map(detail => {
+          const label = detail.mustHave ? detail.jobSkill : `${detail.jobSkill} (nice to have)`;
+          const matchedWith = detail.matched ? detail.matchedWith : undefined;
+          const related = detail.relatedMatch;
+          const level = this.describeSkillLevel(detail);
+          if (!matchedWith && related) {
+            return {
+              source: 'skills',
+              label,
+              ref: `skills[${profile.skills.indexOf(related.candidateSkill)}]`,
+              detail: `Partial credit: ${related.explanation}${level}`,
+              counted: true
+            };
+          }
+          if (!matchedWith) {
+            return { source: 'skills', label, detail: 'Not found on the profile', counted: false };
+          }
+          return {
+            source: 'skills',
+            label,
+            ref: `skills[${profile.skills.indexOf(matchedWith)}]`,
+            // Name the alias when the profile spells the skill differently
+            detail: (matchedWith.toLowerCase() === detail.jobSkill.toLowerCase()
+              ? 'Listed on the profile'
+              : `Matched "${matchedWith}" (${detail.canonical})`) + level,
+            counted: true
+          };
+        });
+        const mustHave = match.details.filter(item => item.mustHave);
+        const niceToHave = match.details.filter(item => !item.mustHave);
+        const partial = mustHave.filter(item => item.relatedMatch).length;
+        const belowLevel = match.details.filter(item => item.credit > 0 && item.levelsBelow > 0).length;
+        return {
+          summary: `${mustHave.filter(item => item.matched).length} of ${mustHave.length} must-have skills matched` +
+            `${partial > 0 ? `, ${partial} partly covered by related skills` : ''}` +
+            `${niceToHave.length > 0 ? `, ${niceToHave.filter(item => item.credit > 0).length} of ${niceToHave.length} nice-to-have` : ''}` +
+            `${belowLevel > 0 ? `, ${belowLevel} below the required level` : ''} (${match.score}%)`,
+          evidence
+        };
+      }
+
+      case 'github': {
+        const analysis = profile.githubAnalysis as (IApplicantProfile['githubAnalysis'] & { repoCount?: number }) | undefined;
+        if (!analysis?.score) {
+          return { summary: 'No GitHub analysis on the profile', evidence: [] };
+        }
+        const evidence: SignalEvidence[] = [{
+          source: 'github',
+          label: profile.githubUsername ? `github.com/${profile.githubUsername}` : 'GitHub profile',
+          ref: 'githubAnalysis',
+          detail: analysis.topLanguages?.length ? `Top languages: ${analysis.topLanguages.slice(0, 5).join(', ')}` : undefined,
+          counted: true
+        }];
+        (analysis.insights || []).slice(0, 3).forEach((insight, index) => {
+          evidence.push({ source: 'github', label: insight, ref: `githubAnalysis.insights[${index}]`, counted: true });
+        });
+        return {
+          summary: `GitHub analysis scored ${analysis.score}/100${analysis.repoCount ? ` across ${analysis.repoCount} public repositories` : ''}`,
+          evidence
+        };
+      }
+
+      case 'leetcode': {
+        const stats = profile.leetcodeStats;
+        if (!stats || typeof stats.score !== 'number') {
+          return { summary: 'No LeetCode stats on the profile', evidence: [] };
+        }
+        return {
+          summary: `LeetCode score ${stats.score}/100 with ${stats.totalSolved} problems solved`,
+          evidence: [{
+            source: 'leetcode',
+            label: profile.leetcodeUsername ? `leetcode.com/${profile.leetcodeUsername}` : 'LeetCode profile',
+            ref: 'leetcodeStats',
+            detail: `Easy ${stats.easySolved} · Medium ${stats.mediumSolved} · Hard ${stats.hardSolved}`,
+            counted: true
+          }]
+        };
+      }
+
+      case 'experience': {
+        const required = EXPERIENCE_LEVEL_YEARS[job.experienceLevel] || EXPERIENCE_LEVEL_YEARS.mid;
+        const expected = required.max >= 100 ? `${required.min}+` : `${required.min}-${required.max}`;
+        const evidence: SignalEvidence[] = profile.experience.map((entry, index) => ({
+          source: 'experience',
+          label: `${entry.role} at ${entry.company}`,
+          ref: `experience[${index}]`,
+          detail: `${this.formatMonth(entry.startDate)} - ${entry.current ? 'present' : this.formatMonth(entry.endDate)}`,
+          counted: !profile.yearsOfExperience // Entries only count when no total is stated
+        }));
+        const summary = profile.yearsOfExperience
+          ? `${profile.yearsOfExperience} years of experience stated, ${expected} expected for a ${job.experienceLevel} role`
+          : profile.experience.length
+            ? `${profile.experience.length} role${profile.experience.length === 1 ? '' : 's'} listed (counted as years), ${expected} expected for a ${job.experienceLevel} role`
+            : 'No experience on the profile';
+        return { summary, evidence };
+      }
+
+      case 'projects': {
+        const projects = profile.projects || [];
+        if (!projects.length) {
+          return { summary: 'No projects on the profile', evidence: [] };
+        }
+        const evidence: SignalEvidence[] = projects.map((project, index) => {
+          const match = skillNormalizerService.calculateSkillMatch(requiredSkills, project.techStack || []);
+          return {
+            source: 'projects',
+            label: project.name,
+            ref: `projects[${index}]`,
+            detail: match.matchedSkills.length
+              ? `Uses ${match.matchedSkills.join(', ')}`
+              : 'No required skills in its tech stack',
+            counted: match.matchedSkills.length > 0
+          };
+        });
+        return {
+          summary: `${evidence.filter(item => item.counted).length} of ${projects.length} projects use required skills`,
+          evidence
+        };
+      }
+
+      case 'education': {
+        const evidence: SignalEvidence[] = [
+          ...profile.education.map((entry, index) => ({
+            source: 'education' as const,
+            label: `${entry.degree}, ${entry.institution}`,
+            ref: `education[${index}]`,
+            detail: ADVANCED_DEGREE_PATTERN.test(entry.degree)
+              ? 'Advanced degree'
+              : BACHELORS_DEGREE_PATTERN.test(entry.degree) ? "Bachelor's degree" : entry.year,
+            counted: true
+          })),
+          ...profile.certifications.map((certification, index) => ({
+            source: 'certifications' as const,
+            label: certification.name,
+            ref: `certifications[${index}]`,
+            detail: certification.issuer,
+            counted: true
+          }))
+        ];
+        return {
+          summary: evidence.length
+            ? `${profile.education.length} education ${profile.education.length === 1 ? 'entry' : 'entries'} and ${profile.certifications.length} certification${profile.certifications.length === 1 ? '' : 's'}`
+            : 'No education or certifications on the profile',
+          evidence
+        };
+      }
+
+      case 'profile': {
+        const checks = this.getProfileChecks(profile);
+        return {
+          summary: `${checks.filter(check => check.passed).length} of ${checks.length} profile sections complete`,
+          evidence: checks.map(check => ({
+            source: 'profile',
+            label: check.label,
+            detail: `${check.weight} points`,
+            counted: check.passed
+          }))
+        };
+      }
+
+      case 'aiReadiness':
+        if (!aiReadiness.sessionId) {
+          return { summary: `No completed AI interview - neutral default of ${DEFAULT_AI_READINESS_SCORE} used`, evidence: [] };
+        }
+        return {
+          summary: `Latest AI practice interview scored ${aiReadiness.score}/100`,
+          evidence: [{
+            source: 'interview_session',
+            label: 'AI practice interview',
+            ref: aiReadiness.sessionId,
+            detail: aiReadiness.completedAt ? `Completed ${this.formatMonth(aiReadiness.completedAt)}` : undefined,
+            counted: true
+          }]
+        };
+    }
+  }
+
+  private formatMonth(date?: Date): string {
+    return date ? new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) : 'unknown';
   }
 }
 
@@ -0,0 +1,316 @@
+import {
+  IKnockoutRejectionTemplate,
+  IScreeningQuestion,
+  KNOCKOUT_ACTIONS,
+  KnockoutAction,
+  SCREENING_QUESTION_TYPES
+} from '../models/Job.model';
+import { IRejectionFeedback, IScreeningAnswer } from '../models/Application.model';
+import { AppError } from '../middleware/errorHandler';
+import { toKey } from '../utils/slug';
+
+// What an applicant sees of a question - the knockout rule stays with the recruiter
+export interface PublicScreeningQuestion {
+  key: string;
+  question: string;
+  type: IScreeningQuestion['type'];
+  required: boolean;
+  options: string[];
+}
+
+export interface ScreeningOutcome {
+  answers: IScreeningAnswer[];
+  failedQuestions: string[]; // Keys of the knockout questions the answers failed
+}
+
+type ScreeningJob = {
+  title?: string;
+  screeningQuestions?: IScreeningQuestion[];
+  knockoutAction?: KnockoutAction;
+  knockoutRejectionTemplate?: IKnockoutRejectionTemplate;
+};
+
+const MAX_QUESTIONS = 20;
+const MAX_OPTIONS = 10;
+const MAX_TEXT_ANSWER_LENGTH = 2000;
+
+const DEFAULT_REJECTION_TEMPLATE: IKnockoutRejectionTemplate = {
+  statusMessage: 'Thank you for applying for {jobTitle}. Unfortunately your application does not meet some of the basic requirements for this role.',
+  reasons: ['One or more of your screening answers did not match a requirement of this position'],
+  improvementAreas: ['Review the job requirements before applying to similar roles'],
+  encouragement: 'We encourage you to keep an eye on our other openings that may be a better fit.'
+};
+
+class ScreeningService {
+  /**
+   * Get the screening questions of a job, ordered as the recruiter arranged them
+   */
+  getQuestions(job: ScreeningJob | null | undefined): IScreeningQuestion[] {
+    return (job?.screeningQuestions || [])
+      .map(question => ({
+        key: question.key,
+        question: question.question,
+        type: question.type,
+        required: question.required,
+        options: [...(question.options || [])],
+        knockout: question.knockout,
+        expectedAnswer: question.expectedAnswer,
+        min: question.min,
+        max: question.max,
+        acceptedOptions: [...(question.acceptedOptions || [])],
+        order: question.order
+      }))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Questions without their knockout rules, for applicants
+   */
+  toPublicQuestions(job: ScreeningJob | null | undefined): PublicScreeningQuestion[] {
+    return this.getQuestions(job).map(({ key, question, type, required, options }) => ({
+      key, question, type, required, options
+    }));
+  }
+
+  /**
+   * Validate and normalize recruiter-supplied screening questions.
+   * Throws AppError(400) on invalid input.
+   */
+  normalizeQuestions(input: unknown): IScreeningQuestion[] {
+    if (!Array.isArray(input)) {
+      throw new AppError('Screening questions must be a list', 400);
+    }
+    if (input.length > MAX_QUESTIONS) {
+      throw new AppError(`A job can have at most ${MAX_QUESTIONS} screening questions`, 400);
+    }
+
+    const keys = new Set<string>();
+    return input.map((raw: any, index: number) => {
+      const question = typeof raw?.question === 'string' ? raw.question.trim() : '';
+      if (!question) {
+        throw new AppError(`Screening question ${index + 1} has no text`, 400);
+      }
+
+      const key = toKey(typeof raw.key === 'string' && raw.key.trim() ? raw.key : question);
+      if (!key || keys.has(key)) {
+        throw new AppError(`Duplicate screening question: ${question}`, 400);
+      }
+      keys.add(key);
+
+      const type = raw.type || 'yes_no';
+      if (!SCREENING_QUESTION_TYPES.includes(type)) {
+        throw new AppError(`Question "${question}" has an invalid type: ${raw.type}`, 400);
+      }
+
+      const normalized: IScreeningQuestion = {
+        key,
+        question,
+        type,
+        required: raw.required !== false,
+        options: [],
+        knockout: Boolean(raw.knockout) && type !== 'text', // Free text can't be checked automatically
+        acceptedOptions: [],
+        order: index
+      };
+
+      if (type === 'single_choice') {
+        const options = this.toStringList(raw.options);
+        if (options.length < 2 || options.length > MAX_OPTIONS) {
+          throw new AppError(`Question "${question}" needs between 2 and ${MAX_OPTIONS} options`, 400);
+        }
+        normalized.options = options;
+      }
+
+      if (!normalized.knockout) return normalized;
+
+      switch (type) {
+        case 'yes_no':
+          if (raw.expectedAnswer !== 'yes' && raw.expectedAnswer !== 'no') {
+            throw new AppError(`Knockout question "${question}" needs an expected answer of yes or no`, 400);
+          }
+          normalized.expectedAnswer = raw.expectedAnswer;
+          break;
+        case 'numeric': {
+          const min = this.toOptionalNumber(raw.min);
+          const max = this.toOptionalNumber(raw.max);
+          if (min === undefined && max === undefined) {
+            throw new AppError(`Knockout question "${question}" needs a minimum or maximum`, 400);
+          }
+          if (min !== undefined && max !== undefined && min > max) {
+            throw new AppError(`Question "${question}" has a minimum above its maximum`, 400);
+          }
+          normalized.min = min;
+          normalized.max = max;
+          break;
+        }
+        case 'single_choice': {
+          const accepted = this.toStringList(raw.acceptedOptions)
+            .filter(option => normalized.options.includes(option));
+          if (accepted.length === 0) {
+            throw new AppError(`Knockout question "${question}" needs at least one accepted option`, 400);
+          }
+          normalized.acceptedOptions = accepted;
+          break;
+        }
+      }
+
+      return normalized;
+    });
+  }
+
+  normalizeAction(input: unknown): KnockoutAction {
+    if (!KNOCKOUT_ACTIONS.includes(input as KnockoutAction)) {
+      throw new AppError(`Knockout action must be one of: ${KNOCKOUT_ACTIONS.join(', ')}`, 400);
+    }
+    return input as KnockoutAction;
+  }
+
+  /**
+   * Normalize a recruiter's rejection template. Empty templates fall back to the default
+   * wording, so null is returned for them.
+   */
+  normalizeTemplate(input: any): IKnockoutRejectionTemplate | null {
+    if (input === null || input === undefined) return null;
+    if (typeof input !== 'object') {
+      throw new AppError('Rejection template must be an object', 400);
+    }
+
+    const template: IKnockoutRejectionTemplate = {
+      statusMessage: typeof input.statusMessage === 'string' ? input.statusMessage.trim() : '',
+      reasons: this.toStringList(input.reasons),
+      improvementAreas: this.toStringList(input.improvementAreas),
+      encouragement: typeof input.encouragement === 'string' ? input.encouragement.trim() : ''
+    };
+
+    const isEmpty = !template.statusMessage && !template.encouragement
+      && template.reasons.length === 0 && template.improvementAreas.length === 0;
+    return isEmpty ? null : template;
+  }
+
+  /**
+   * Check an applicant's answers against the job's questions.
+   * Throws AppError(400) when a required question is unanswered or an answer is invalid.
+   */
+  evaluateAnswers(job: ScreeningJob, rawAnswers: unknown): ScreeningOutcome {
+    const questions = this.getQuestions(job);
+    if (questions.length === 0) {
+      return { answers: [], failedQuestions: [] };
+    }
+
+    const provided: Record<string, unknown> = rawAnswers && typeof rawAnswers === 'object' && !Array.isArray(rawAnswers)
+      ? rawAnswers as Record<string, unknown>
+      : {};
+
+    const answers: IScreeningAnswer[] = [];
+    const failedQuestions: string[] = [];
+
+    for (const question of questions) {
+      const raw = provided[question.key];
+      const isBlank = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+      if (isBlank) {
+        if (question.required) {
+          throw new AppError(`Please answer the screening question: ${question.question}`, 400);
+        }
+        continue;
+      }
+
+      const answer = this.parseAnswer(question, raw);
+      const knockedOut = question.knockout && !this.passesKnockout(question, answer);
+      if (knockedOut) failedQuestions.push(question.key);
+
+      answers.push({ questionKey: question.key, question: question.question, answer, knockedOut });
+    }
+
+    return { answers, failedQuestions };
+  }
+
+  /**
+   * Applicant-facing feedback for an application rejected by a knockout question
+   */
+  buildRejectionFeedback(job: ScreeningJob): IRejectionFeedback {
+    const template = { ...DEFAULT_REJECTION_TEMPLATE, ...this.withoutBlanks(job.knockoutRejectionTemplate) };
+
+    return {
+      status: 'Not Selected',
+      statusMessage: template.statusMessage.replace(/\{jobTitle\}/g, job.title || 'this role'),
+      reasons: [...template.reasons],
+      improvementAreas: [...template.improvementAreas],
+      learningFocus: [],
+      encouragement: template.encouragement,
+      generatedAt: new Date()
+    };
+  }
+
+  private parseAnswer(question: IScreeningQuestion, raw: unknown): string | number {
+    switch (question.type) {
+      case 'yes_no': {
+        const value = typeof raw === 'boolean' ? (raw ? 'yes' : 'no') : String(raw).trim().toLowerCase();
+        if (value !== 'yes' && value !== 'no') {
+          throw new AppError(`Please answer yes or no to: ${question.question}`, 400);
+        }
+        return value;
+      }
+      case 'numeric': {
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+          throw new AppError(`Please answer with a number: ${question.question}`, 400);
+        }
+        return value;
+      }
+      case 'single_choice': {
+        const value = String(raw).trim();
+        if (!question.options.includes(value)) {
+          throw new AppError(`Please pick one of the options for: ${question.question}`, 400);
+        }
+        return value;
+      }
+      default:
+        return String(raw).trim().slice(0, MAX_TEXT_ANSWER_LENGTH);
+    }
+  }
+
+  private passesKnockout(question: IScreeningQuestion, answer: string | number): boolean {
+    switch (question.type) {
+      case 'yes_no':
+        return answer === question.expectedAnswer;
+      case 'numeric':
+        return (question.min === undefined || question.min === null || (answer as number) >= question.min)
+          && (question.max === undefined || question.max === null || (answer as number) <= question.max);
+      case 'single_choice':
+        return question.acceptedOptions.includes(answer as string);
+      default:
+        return true;
+    }
+  }
+
+  // Template fields left empty keep the default wording
+  private withoutBlanks(template?: IKnockoutRejectionTemplate): Partial<IKnockoutRejectionTemplate> {
+    const result: Partial<IKnockoutRejectionTemplate> = {};
+    if (!template) return result;
+    if (template.statusMessage) result.statusMessage = template.statusMessage;
+    if (template.reasons?.length) result.reasons = template.reasons;
+    if (template.improvementAreas?.length) result.improvementAreas = template.improvementAreas;
+    if (template.encouragement) result.encouragement = template.encouragement;
+    return result;
+  }
+
+  private toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return [...new Set(value
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(Boolean))];
+  }
+
+  private toOptionalNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new AppError(`Invalid number: ${value}`, 400);
+    }
+    return number;
+  }
+}
+
+export const screeningService = new ScreeningService();
+export default screeningService;
@@ -0,0 +1,285 @@
+import mongoose from 'mongoose';
+import { Skill, ISkill, SkillStatus } from '../models/Skill.model';
+import { ApplicantProfile } from '../models/ApplicantProfile.model';
+import { Job } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+import { skillNormalizerService, DEFAULT_SKILL_ALIASES } from './skill-normalizer.service';
+
+export interface UnmatchedSkill {
+  skill: string; // Lowercased raw string as entered
+  profileCount: number;
+  jobCount: number;
+  total: number;
+  suggestions: string[]; // Existing skills it may belong to
+}
+
+// Every instance re-reads the dictionary this often, so edits made elsewhere show up
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const MAX_ALIASES = 50;
+const DEFAULT_REPORT_LIMIT = 50;
+
+class SkillDictionaryService {
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Load the dictionary into the skill normalizer unless the cached copy is still fresh
+   */
+  async ensureLoaded(): Promise<void> {
+    if (Date.now() - this.loadedAt < CACHE_TTL_MS) return;
+    if (!this.loading) {
+      this.loading = this.load().finally(() => { this.loading = null; });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Keep the cached dictionary fresh in-process (long-running server)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.ensureLoaded().catch(error => console.error('Loading the skill dictionary failed:', error));
+    this.timer = setInterval(() => {
+      this.ensureLoaded().catch(error => console.error('Refreshing the skill dictionary failed:', error));
+    }, CACHE_TTL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read the active skills into the normalizer, seeding the collection from the
+   * built-in aliases the first time
+   */
+  async load(): Promise<void> {
+    if (mongoose.connection.readyState !== 1) return;
+
+    if (await Skill.estimatedDocumentCount() === 0) {
+      await this.seed();
+    }
+
+    const skills = await Skill.find({ status: 'active' }).select('name aliases').lean();
+    skillNormalizerService.setDictionary(
+      Object.fromEntries(skills.map(skill => [skill.name, skill.aliases]))
+    );
+    this.loadedAt = Date.now();
+  }
+
+  async list(filters: { status?: string; search?: string } = {}): Promise<ISkill[]> {
+    const query: Record<string, unknown> = {};
+    if (filters.status) query.status = filters.status;
+    if (filters.search) {
+      const term = this.escapeRegex(this.cleanAlias(filters.search));
+      query.$or = [{ name: { $regex: term } }, { aliases: { $regex: term } }];
+    }
+
+    return Skill.find(query).sort({ status: 1, name: 1 }).limit(500);
+  }
+
+  /**
+   * Add a skill. Throws AppError(409) when the name or an alias is already taken.
+   */
+  async create(input: { name?: unknown; aliases?: unknown }, userId: string): Promise<ISkill> {
+    const name = this.cleanAlias(typeof input.name === 'string' ? input.name : '');
+    if (!name) {
+      throw new AppError('Skill name is required', 400);
+    }
+    if (await Skill.exists({ name })) {
+      throw new AppError(`Skill "${name}" already exists`, 409);
+    }
+
+    const aliases = this.normalizeAliases(name, input.aliases);
+    await this.assertAliasesFree(aliases);
+
+    const skill = await Skill.create({ name, aliases, createdBy: userId, updatedBy: userId });
+    await this.load();
+    return skill;
+  }
+
+  /**
+   * Replace the aliases of an active skill
+   */
+  async updateAliases(name: string, input: unknown, userId: string): Promise<ISkill> {
+    const skill = await this.getActive(name);
+    const aliases = this.normalizeAliases(skill.name, input);
+    await this.assertAliasesFree(aliases, skill.name);
+
+    skill.aliases = aliases;
+    skill.updatedBy = new mongoose.Types.ObjectId(userId);
+    await skill.save();
+    await this.load();
+    return skill;
+  }
+
+  /**
+   * Fold a duplicate skill into another one: its name and aliases become aliases of the
+   * target, and the duplicate is retired
+   */
+  async merge(sourceName: string, targetName: string, userId: string): Promise<ISkill> {
+    const source = await this.getActive(sourceName);
+    const target = await this.getActive(targetName);
+    if (source.name === target.name) {
+      throw new AppError('A skill cannot be merged into itself', 400);
+    }
+
+    target.aliases = [...new Set([...target.aliases, source.name, ...source.aliases])];
+    target.updatedBy = new mongoose.Types.ObjectId(userId);
+    source.status = 'retired';
+    source.mergedInto = target.name;
+    source.updatedBy = target.updatedBy;
+
+    // Retire first so the moved aliases are never claimed twice
+    await source.save();
+    await target.save();
+    await this.load();
+    return target;
+  }
+
+  /**
+   * Take a skill out of the dictionary. Its spellings no longer normalize to it.
+   */
+  async retire(name: string, userId: string): Promise<ISkill> {
+    const skill = await this.getActive(name);
+    return this.setStatus(skill, 'retired', userId);
+  }
+
+  async restore(name: string, userId: string): Promise<ISkill> {
+    const skill = await Skill.findOne({ name: this.cleanAlias(name), status: 'retired' });
+    if (!skill) {
+      throw new AppError('Retired skill not found', 404);
+    }
+    await this.assertAliasesFree(skill.aliases, skill.name);
+    skill.set('mergedInto', undefined);
+    return this.setStatus(skill, 'active', userId);
+  }
+
+  /**
+   * Raw skill strings on profiles and jobs that the dictionary doesn't know, most
+   * frequent first - candidates for new skills or aliases
+   */
+  async getUnmatchedReport(limit: number = DEFAULT_REPORT_LIMIT): Promise<UnmatchedSkill[]> {
+    await this.ensureLoaded();
+
+    const countSkills = (field: string) => [
+      { $unwind: `$${field}` },
+      { $project: { skill: { $toLower: { $trim: { input: `$${field}` } } } } },
+      { $match: { skill: { $ne: '' } } },
+      { $group: { _id: '$skill', count: { $sum: 1 } } }
+    ];
+
+    const [profileCounts, requiredCounts, niceToHaveCounts] = await Promise.all([
+      ApplicantProfile.aggregate<{ _id: string; count: number }>(countSkills('skills')),
+      Job.aggregate<{ _id: string; count: number }>(countSkills('requiredSkills')),
+      Job.aggregate<{ _id: string; count: number }>(countSkills('niceToHaveSkills'))
+    ]);
+
+    const report = new Map<string, UnmatchedSkill>();
+    const add = (skill: string, counts: Partial<Pick<UnmatchedSkill, 'profileCount' | 'jobCount'>>) => {
+      if (skillNormalizerService.getCanonicalSkill(skill)) return;
+
+      const entry = report.get(skill) || { skill, profileCount: 0, jobCount: 0, total: 0, suggestions: [] };
+      entry.profileCount += counts.profileCount || 0;
+      entry.jobCount += counts.jobCount || 0;
+      entry.total = entry.profileCount + entry.jobCount;
+      report.set(skill, entry);
+    };
+
+    profileCounts.forEach(({ _id, count }) => add(_id, { profileCount: count }));
+    [...requiredCounts, ...niceToHaveCounts].forEach(({ _id, count }) => add(_id, { jobCount: count }));
+
+    return [...report.values()]
+      .sort((a, b) => b.total - a.total)
+      .slice(0, Math.max(1, Math.min(limit, 500)))
+      .map(entry => ({ ...entry, suggestions: skillNormalizerService.suggestSimilarSkills(entry.skill) }));
+  }
+
+  private async seed(): Promise<void> {
+    // An alias listed under two skills goes to the first one
+    const claimed = new Set<string>();
+    const skills = Object.entries(DEFAULT_SKILL_ALIASES).map(([name, aliases]) => {
+      const own = [name, ...aliases]
+        .map(alias => this.cleanAlias(alias))
+        .filter(alias => alias && !claimed.has(alias));
+      own.forEach(alias => claimed.add(alias));
+      return { name, aliases: [...new Set(own)] };
+    });
+
+    try {
+      await Skill.insertMany(skills, { ordered: false });
+      console.log(`📚 Seeded the skill dictionary with ${skills.length} skills`);
+    } catch (error: any) {
+      // Another instance seeded it at the same time
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  private async getActive(name: string): Promise<ISkill> {
+    const skill = await Skill.findOne({ name: this.cleanAlias(name), status: 'active' });
+    if (!skill) {
+      throw new AppError(`Skill "${name}" not found`, 404);
+    }
+    return skill;
+  }
+
+  private async setStatus(skill: ISkill, status: SkillStatus, userId: string): Promise<ISkill> {
+    skill.status = status;
+    skill.updatedBy = new mongoose.Types.ObjectId(userId);
+    await skill.save();
+    await this.load();
+    return skill;
+  }
+
+  /**
+   * Validate recruiter-supplied aliases. The skill's own name is always one of them.
+   * Throws AppError(400) on invalid input.
+   */
+  private normalizeAliases(name: string, input: unknown): string[] {
+    if (input !== undefined && !Array.isArray(input)) {
+      throw new AppError('Aliases must be a list', 400);
+    }
+    const aliases = [...new Set([name, ...((input as unknown[]) || [])
+      .filter((alias): alias is string => typeof alias === 'string')
+      .map(alias => this.cleanAlias(alias))
+      .filter(Boolean)])];
+
+    if (aliases.length > MAX_ALIASES) {
+      throw new AppError(`A skill can have at most ${MAX_ALIASES} aliases`, 400);
+    }
+    return aliases;
+  }
+
+  /**
+   * Every spelling may normalize to one active skill only. Throws AppError(409) otherwise.
+   */
+  private async assertAliasesFree(aliases: string[], exceptName?: string): Promise<void> {
+    const conflict = await Skill.findOne({
+      status: 'active',
+      name: { $ne: exceptName },
+      $or: [{ name: { $in: aliases } }, { aliases: { $in: aliases } }]
+    }).select('name aliases');
+
+    if (conflict) {
+      const taken = aliases.find(alias => alias === conflict.name || conflict.aliases.includes(alias));
+      throw new AppError(`"${taken}" already belongs to the skill "${conflict.name}"`, 409);
+    }
+  }
+
+  private cleanAlias(value: string): string {
+    return value.toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+export const skillDictionaryService = new SkillDictionaryService();
+export default skillDictionaryService;
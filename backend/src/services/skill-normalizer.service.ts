@@ -4,16 +4,21 @@
  * - Node, NodeJS, Node.js, node js -> all match
  * - React, ReactJS, React.js -> all match
  * - MongoDB, Mongo DB, Mongo, mongo -> all match
+ * Skills that are not the same but related (Next.js for React, PostgreSQL for MySQL)
+ * earn partial credit through the skill graph.
+ *
+ * The alias dictionary itself lives in Mongo (see skill-dictionary.service); the map
+ * below seeds it and is used until the stored dictionary has been loaded.
  */
 
-// Comprehensive skill aliases map
-const SKILL_ALIASES: Record<string, string[]> = {
+// Built-in skill aliases map (seed of the skill dictionary)
+export const DEFAULT_SKILL_ALIASES: Record<string, string[]> = {
   // JavaScript Ecosystem
   'javascript': ['javascript', 'js', 'ecmascript', 'es6', 'es7', 'es2015', 'es2016', 'es2017', 'es2018', 'es2019', 'es2020', 'es2021', 'es2022', 'es2023', 'vanilla js', 'vanilla javascript'],
   'typescript': ['typescript', 'ts', 'type script'],
-  'nodejs': ['nodejs', 'node.js', 'node', 'node js', 'expressjs', 'express.js', 'express'],
+  'nodejs': ['nodejs', 'node.js', 'node', 'node js'],
   'express': ['express', 'expressjs', 'express.js', 'express js'],
-  'react': ['react', 'reactjs', 'react.js', 'react js', 'react native', 'reactnative'],
+  'react': ['react', 'reactjs', 'react.js', 'react js'],
   'vue': ['vue', 'vuejs', 'vue.js', 'vue js', 'vue 2', 'vue 3', 'vue2', 'vue3'],
   'angular': ['angular', 'angularjs', 'angular.js', 'angular js', 'angular 2', 'angular2', 'ng'],
   'nextjs': ['nextjs', 'next.js', 'next', 'next js'],
@@ -33,17 +38,17 @@ const SKILL_ALIASES: Record<string, string[]> = {
   'mssql': ['mssql', 'sql server', 'sqlserver', 'microsoft sql', 'ms sql'],
   'dynamodb': ['dynamodb', 'dynamo db', 'dynamo', 'aws dynamodb'],
   'cassandra': ['cassandra', 'apache cassandra'],
-  'elasticsearch': ['elasticsearch', 'elastic search', 'elastic', 'es', 'opensearch'],
+  'elasticsearch': ['elasticsearch', 'elastic search', 'elastic', 'opensearch'],
   'firebase': ['firebase', 'firestore', 'firebase db', 'firebase firestore'],
   'supabase': ['supabase', 'supa base'],
   
   // Cloud & DevOps
-  'aws': ['aws', 'amazon web services', 'amazon aws', 'ec2', 's3', 'lambda', 'cloudformation'],
+  'aws': ['aws', 'amazon web services', 'amazon aws', 'ec2', 's3', 'cloudformation'],
   'azure': ['azure', 'microsoft azure', 'ms azure', 'azure devops'],
   'gcp': ['gcp', 'google cloud', 'google cloud platform', 'gcloud'],
   'docker': ['docker', 'dockerfile', 'docker compose', 'docker-compose', 'containerization'],
   'kubernetes': ['kubernetes', 'k8s', 'kube', 'kubectl', 'k8', 'openshift'],
-  'terraform': ['terraform', 'tf', 'hashicorp terraform'],
+  'terraform': ['terraform', 'hashicorp terraform'],
   'ansible': ['ansible', 'ansible playbook'],
   'jenkins': ['jenkins', 'jenkins ci', 'jenkinsfile'],
   'circleci': ['circleci', 'circle ci', 'circle'],
@@ -55,13 +60,17 @@ const SKILL_ALIASES: Record<string, string[]> = {
   // Programming Languages
   'python': ['python', 'py', 'python3', 'python 3', 'python2', 'python 2'],
   'java': ['java', 'java se', 'java ee', 'j2ee', 'jdk', 'jre', 'openjdk'],
-  'csharp': ['c#', 'csharp', 'c sharp', '.net', 'dotnet', 'asp.net', 'aspnet'],
+  'csharp': ['c#', 'csharp', 'c sharp'],
+  'dotnet': ['.net', 'dotnet', 'dot net', '.net core', 'asp.net', 'aspnet', 'asp.net core'],
   'cpp': ['c++', 'cpp', 'cplusplus', 'c plus plus'],
   'c': ['c', 'c language', 'clang'],
   'go': ['go', 'golang', 'go lang'],
   'rust': ['rust', 'rustlang', 'rust lang'],
-  'ruby': ['ruby', 'rb', 'ruby on rails', 'rails', 'ror'],
-  'php': ['php', 'php7', 'php8', 'php 7', 'php 8', 'laravel', 'symfony'],
+  'ruby': ['ruby', 'rb'],
+  'rails': ['rails', 'ruby on rails', 'ror'],
+  'php': ['php', 'php7', 'php8', 'php 7', 'php 8'],
+  'laravel': ['laravel'],
+  'symfony': ['symfony'],
   'swift': ['swift', 'swiftui', 'swift ui'],
   'kotlin': ['kotlin', 'kt', 'kotlin lang'],
   'scala': ['scala', 'scala lang'],
@@ -90,7 +99,7 @@ const SKILL_ALIASES: Record<string, string[]> = {
   'ionic': ['ionic', 'ionic framework', 'ionicframework'],
   
   // AI/ML
-  'tensorflow': ['tensorflow', 'tensor flow', 'tf', 'keras'],
+  'tensorflow': ['tensorflow', 'tensor flow', 'keras'],
   'pytorch': ['pytorch', 'py torch', 'torch'],
   'machinelearning': ['machine learning', 'ml', 'machinelearning', 'machine-learning'],
   'deeplearning': ['deep learning', 'dl', 'deeplearning', 'deep-learning'],
@@ -152,17 +161,197 @@ const SKILL_ALIASES: Record<string, string[]> = {
   'macos': ['macos', 'mac os', 'osx', 'os x'],
 };
 
-// Build reverse mapping for quick lookup
-const SKILL_TO_CANONICAL: Map<string, string> = new Map();
+export type SkillRelation = 'parent' | 'child' | 'related';
 
-// Initialize the reverse mapping
-Object.entries(SKILL_ALIASES).forEach(([canonical, aliases]) => {
-  aliases.forEach(alias => {
-    SKILL_TO_CANONICAL.set(alias.toLowerCase(), canonical);
-  });
+// Partial credit a candidate skill earns toward a required skill it is related to
+export interface RelatedSkillMatch {
+  candidateSkill: string; // As written on the profile
+  relation: SkillRelation; // What the candidate's skill is to the required one
+  via: string[]; // Skills in between, when the relation goes through another skill
+  credit: number; // 0-1
+  explanation: string;
+}
+
+export interface SkillMatchDetail {
+  jobSkill: string;
+  matched: boolean; // Same skill (or an alias of it)
+  matchedWith?: string;
+  canonical?: string;
+  credit: number; // 1 for a match, a fraction for a related skill, 0 otherwise
+  relatedMatch?: RelatedSkillMatch;
+}
+
+/**
+ * Skill graph, by canonical name (or the cleaned name for skills without aliases).
+ * A child skill is built on its parent: knowing Next.js implies most of React, so the
+ * weight is the credit the child earns toward a parent requirement.
+ */
+const SKILL_PARENTS: Array<[child: string, parent: string, weight: number]> = [
+  // JavaScript Ecosystem
+  ['typescript', 'javascript', 0.9],
+  ['nodejs', 'javascript', 0.7],
+  ['react', 'javascript', 0.6],
+  ['vue', 'javascript', 0.6],
+  ['angular', 'javascript', 0.6],
+  ['svelte', 'javascript', 0.6],
+  ['jquery', 'javascript', 0.5],
+  ['nextjs', 'react', 0.8],
+  ['gatsby', 'react', 0.7],
+  ['remix', 'react', 0.7],
+  ['reactnative', 'react', 0.7],
+  ['nuxt', 'vue', 0.8],
+  ['express', 'nodejs', 0.8],
+  ['nestjs', 'nodejs', 0.8],
+  ['deno', 'javascript', 0.6],
+  ['bun', 'javascript', 0.6],
+
+  // Languages & Frameworks
+  ['django', 'python', 0.7],
+  ['flask', 'python', 0.7],
+  ['fastapi', 'python', 0.7],
+  ['pandas', 'python', 0.6],
+  ['numpy', 'python', 0.6],
+  ['spring', 'java', 0.7],
+  ['springboot', 'java', 0.7],
+  ['rails', 'ruby', 0.7],
+  ['laravel', 'php', 0.7],
+  ['dotnet', 'csharp', 0.7],
+  ['cpp', 'c', 0.7],
+
+  // Databases
+  ['postgresql', 'sql', 0.8],
+  ['mysql', 'sql', 0.8],
+  ['mssql', 'sql', 0.8],
+  ['oracle', 'sql', 0.8],
+  ['sqlite', 'sql', 0.7],
+  ['mongodb', 'nosql', 0.8],
+  ['dynamodb', 'nosql', 0.8],
+  ['cassandra', 'nosql', 0.8],
+  ['redis', 'nosql', 0.6],
+
+  // Styling
+  ['sass', 'css', 0.8],
+  ['less', 'css', 0.8],
+  ['tailwindcss', 'css', 0.7],
+  ['bootstrap', 'css', 0.6],
+
+  // AI/ML
+  ['deeplearning', 'machinelearning', 0.8],
+  ['tensorflow', 'deeplearning', 0.8],
+  ['pytorch', 'deeplearning', 0.8],
+  ['scikit', 'machinelearning', 0.7],
+  ['nlp', 'machinelearning', 0.7],
+
+  // DevOps & Cloud
+  ['kubernetes', 'docker', 0.7],
+  ['github-actions', 'cicd', 0.8],
+  ['gitlab-ci', 'cicd', 0.8],
+  ['jenkins', 'cicd', 0.8],
+  ['circleci', 'cicd', 0.8],
+];
+
+// Skills that are interchangeable to a degree, both ways
+const RELATED_SKILLS: Array<[skill: string, related: string, weight: number]> = [
+  ['postgresql', 'mysql', 0.7],
+  ['postgresql', 'mssql', 0.6],
+  ['mysql', 'mssql', 0.6],
+  ['mysql', 'sqlite', 0.6],
+  ['oracle', 'postgresql', 0.6],
+  ['mongodb', 'dynamodb', 0.5],
+  ['react', 'vue', 0.5],
+  ['react', 'angular', 0.4],
+  ['vue', 'angular', 0.4],
+  ['vue', 'svelte', 0.5],
+  ['nextjs', 'nuxt', 0.5],
+  ['django', 'flask', 0.6],
+  ['flask', 'fastapi', 0.7],
+  ['java', 'kotlin', 0.7],
+  ['java', 'csharp', 0.6],
+  ['java', 'scala', 0.5],
+  ['c', 'rust', 0.4],
+  ['cpp', 'rust', 0.5],
+  ['go', 'rust', 0.4],
+  ['aws', 'azure', 0.6],
+  ['aws', 'gcp', 0.6],
+  ['azure', 'gcp', 0.6],
+  ['tensorflow', 'pytorch', 0.8],
+  ['jest', 'mocha', 0.8],
+  ['jest', 'jasmine', 0.7],
+  ['cypress', 'playwright', 0.8],
+  ['cypress', 'selenium', 0.6],
+  ['playwright', 'selenium', 0.6],
+  ['pytest', 'junit', 0.5],
+  ['webpack', 'vite', 0.7],
+  ['npm', 'yarn', 0.9],
+  ['npm', 'pnpm', 0.9],
+  ['kafka', 'rabbitmq', 0.6],
+  ['terraform', 'ansible', 0.5],
+  ['flutter', 'reactnative', 0.6],
+  ['tableau', 'powerbi', 0.8],
+  ['rest', 'graphql', 0.5],
+  ['linux', 'unix', 0.8],
+  ['materialui', 'chakraui', 0.7],
+  ['materialui', 'antdesign', 0.7],
+  ['tailwindcss', 'bootstrap', 0.6],
+];
+
+// A parent covers only part of a child requirement (React gets 0.8 x 0.6 toward Next.js)
+const PARENT_CREDIT_FACTOR = 0.6;
+
+// Longest chain of graph edges followed (e.g. Next.js -> React -> JavaScript)
+const MAX_RELATION_HOPS = 2;
+
+// Weaker relations are not worth any credit
+const MIN_RELATED_CREDIT = 0.3;
+
+interface SkillEdge {
+  skill: string;
+  relation: SkillRelation; // What `skill` is to the skill the edge starts from
+  weight: number;
+}
+
+// Edges by required skill, pointing at the skills that earn credit toward it
+const SKILL_GRAPH: Map<string, SkillEdge[]> = new Map();
+
+const addSkillEdge = (from: string, edge: SkillEdge) => {
+  const edges = SKILL_GRAPH.get(from) || [];
+  edges.push(edge);
+  SKILL_GRAPH.set(from, edges);
+};
+
+SKILL_PARENTS.forEach(([child, parent, weight]) => {
+  addSkillEdge(parent, { skill: child, relation: 'child', weight });
+  addSkillEdge(child, { skill: parent, relation: 'parent', weight: weight * PARENT_CREDIT_FACTOR });
+});
+
+RELATED_SKILLS.forEach(([skill, related, weight]) => {
+  addSkillEdge(skill, { skill: related, relation: 'related', weight });
+  addSkillEdge(related, { skill, relation: 'related', weight });
 });
 
+// Build reverse mapping for quick lookup
+const buildAliasIndex = (dictionary: Record<string, string[]>): Map<string, string> => {
+  const index = new Map<string, string>();
+  Object.entries(dictionary).forEach(([canonical, aliases]) => {
+    [canonical, ...aliases].forEach(alias => {
+      index.set(alias.toLowerCase(), canonical);
+    });
+  });
+  return index;
+};
+
 class SkillNormalizerService {
+  private dictionary: Record<string, string[]> = DEFAULT_SKILL_ALIASES;
+  private aliasIndex: Map<string, string> = buildAliasIndex(DEFAULT_SKILL_ALIASES);
+
+  /**
+   * Replace the in-memory alias dictionary (canonical name -> aliases)
+   */
+  setDictionary(dictionary: Record<string, string[]>): void {
+    this.dictionary = dictionary;
+    this.aliasIndex = buildAliasIndex(dictionary);
+  }
+
   /**
    * Normalize a single skill to its canonical form
    */
@@ -172,29 +361,29 @@ class SkillNormalizerService {
       .replace(/\s+/g, ' '); // Normalize spaces
     
     // Check direct mapping first
-    if (SKILL_TO_CANONICAL.has(cleaned)) {
-      return SKILL_TO_CANONICAL.get(cleaned)!;
+    if (this.aliasIndex.has(cleaned)) {
+      return this.aliasIndex.get(cleaned)!;
     }
 
     // Try without dots and spaces
     const noDots = cleaned.replace(/[\.\s]/g, '');
-    if (SKILL_TO_CANONICAL.has(noDots)) {
-      return SKILL_TO_CANONICAL.get(noDots)!;
+    if (this.aliasIndex.has(noDots)) {
+      return this.aliasIndex.get(noDots)!;
     }
 
     // Try with 'js' suffix removed
     if (cleaned.endsWith('js')) {
       const withoutJs = cleaned.slice(0, -2).trim();
-      if (SKILL_TO_CANONICAL.has(withoutJs)) {
-        return SKILL_TO_CANONICAL.get(withoutJs)!;
+      if (this.aliasIndex.has(withoutJs)) {
+        return this.aliasIndex.get(withoutJs)!;
       }
     }
 
     // Try with '.js' suffix removed
     if (cleaned.endsWith('.js')) {
       const withoutDotJs = cleaned.slice(0, -3).trim();
-      if (SKILL_TO_CANONICAL.has(withoutDotJs)) {
-        return SKILL_TO_CANONICAL.get(withoutDotJs)!;
+      if (this.aliasIndex.has(withoutDotJs)) {
+        return this.aliasIndex.get(withoutDotJs)!;
       }
     }
 
@@ -225,8 +414,8 @@ class SkillNormalizerService {
     if (norm1.includes(norm2) || norm2.includes(norm1)) return true;
 
     // Check if they share a common canonical form
-    const canonical1 = SKILL_TO_CANONICAL.get(norm1);
-    const canonical2 = SKILL_TO_CANONICAL.get(norm2);
+    const canonical1 = this.aliasIndex.get(norm1);
+    const canonical2 = this.aliasIndex.get(norm2);
     
     if (canonical1 && canonical2 && canonical1 === canonical2) return true;
 
@@ -235,7 +424,8 @@ class SkillNormalizerService {
 
   /**
    * Calculate skill match between job requirements and candidate skills
-   * Returns detailed match information including matched and missing skills
+   * Returns detailed match information including matched and missing skills.
+   * Required skills the candidate only has a related skill for earn partial credit.
    */
   calculateSkillMatch(
     jobSkills: string[],
@@ -244,12 +434,7 @@ class SkillNormalizerService {
     score: number;
     matchedSkills: string[];
     missingSkills: string[];
-    matchDetails: Array<{
-      jobSkill: string;
-      matched: boolean;
-      matchedWith?: string;
-      canonical?: string;
-    }>;
+    matchDetails: SkillMatchDetail[];
   } {
     if (!jobSkills.length) {
       return { score: 100, matchedSkills: [], missingSkills: [], matchDetails: [] };
@@ -259,15 +444,9 @@ class SkillNormalizerService {
       return { score: 0, matchedSkills: [], missingSkills: jobSkills, matchDetails: [] };
     }
 
-    const normalizedCandidateSkills = this.normalizeSkills(candidateSkills);
     const matchedSkills: string[] = [];
     const missingSkills: string[] = [];
-    const matchDetails: Array<{
-      jobSkill: string;
-      matched: boolean;
-      matchedWith?: string;
-      canonical?: string;
-    }> = [];
+    const matchDetails: SkillMatchDetail[] = [];
 
     jobSkills.forEach(jobSkill => {
       const normalizedJobSkill = this.normalizeSkill(jobSkill);
@@ -283,19 +462,26 @@ class SkillNormalizerService {
           jobSkill,
           matched: true,
           matchedWith: matchingCandidateSkill,
-          canonical: normalizedJobSkill
-        });
-      } else {
-        missingSkills.push(jobSkill);
-        matchDetails.push({
-          jobSkill,
-          matched: false,
-          canonical: normalizedJobSkill
+          canonical: normalizedJobSkill,
+          credit: 1
         });
+        return;
       }
+
+      // Still missing, but a related skill may be worth part of it
+      missingSkills.push(jobSkill);
+      const relatedMatch = this.findRelatedMatch(jobSkill, candidateSkills);
+      matchDetails.push({
+        jobSkill,
+        matched: false,
+        canonical: normalizedJobSkill,
+        credit: relatedMatch?.credit || 0,
+        relatedMatch: relatedMatch || undefined
+      });
     });
 
-    const score = Math.round((matchedSkills.length / jobSkills.length) * 100);
+    const credit = matchDetails.reduce((sum, detail) => sum + detail.credit, 0);
+    const score = Math.round((credit / jobSkills.length) * 100);
 
     return {
       score,
@@ -305,12 +491,75 @@ class SkillNormalizerService {
     };
   }
 
+  /**
+   * Find the candidate skill closest to a required skill in the skill graph.
+   * Returns null when none is related closely enough to earn credit.
+   */
+  findRelatedMatch(requiredSkill: string, candidateSkills: string[]): RelatedSkillMatch | null {
+    const candidatesByCanonical = new Map<string, string>();
+    candidateSkills.forEach(candidateSkill => {
+      const canonical = this.toGraphKey(candidateSkill);
+      if (!candidatesByCanonical.has(canonical)) candidatesByCanonical.set(canonical, candidateSkill);
+    });
+
+    // Walk out from the required skill, keeping the best credit per skill reached
+    const start = this.toGraphKey(requiredSkill);
+    let frontier: Array<{ skill: string; credit: number; path: SkillEdge[] }> = [{ skill: start, credit: 1, path: [] }];
+    const bestCredit = new Map<string, number>([[start, 1]]);
+    let best: { skill: string; credit: number; path: SkillEdge[] } | null = null;
+
+    for (let hop = 0; hop < MAX_RELATION_HOPS; hop++) {
+      const next: typeof frontier = [];
+      frontier.forEach(node => {
+        (SKILL_GRAPH.get(node.skill) || []).forEach(edge => {
+          const credit = node.credit * edge.weight;
+          if (credit < MIN_RELATED_CREDIT || credit <= (bestCredit.get(edge.skill) || 0)) return;
+
+          bestCredit.set(edge.skill, credit);
+          const reached = { skill: edge.skill, credit, path: [...node.path, edge] };
+          next.push(reached);
+          if (candidatesByCanonical.has(edge.skill) && (!best || credit > best.credit)) {
+            best = reached;
+          }
+        });
+      });
+      frontier = next;
+    }
+
+    if (!best) return null;
+    const { skill, credit, path } = best as { skill: string; credit: number; path: SkillEdge[] };
+
+    // A chain of the same relation keeps it (Next.js -> React -> JavaScript is still a child)
+    const relation: SkillRelation = path.every(edge => edge.relation === path[0].relation)
+      ? path[0].relation
+      : 'related';
+    const candidateSkill = candidatesByCanonical.get(skill)!;
+    const via = path.slice(0, -1).map(edge => edge.skill);
+
+    return {
+      candidateSkill,
+      relation,
+      via,
+      credit: Math.round(credit * 100) / 100,
+      explanation: this.describeRelation(candidateSkill, requiredSkill, relation, via, credit)
+    };
+  }
+
+  /**
+   * Skills directly connected to a skill in the skill graph
+   */
+  getRelatedSkills(skill: string): Array<{ skill: string; relation: SkillRelation; weight: number }> {
+    return (SKILL_GRAPH.get(this.toGraphKey(skill)) || [])
+      .map(edge => ({ ...edge, weight: Math.round(edge.weight * 100) / 100 }))
+      .sort((a, b) => b.weight - a.weight);
+  }
+
   /**
    * Get the canonical form of a skill (if known)
    */
   getCanonicalSkill(skill: string): string | null {
     const normalized = this.normalizeSkill(skill);
-    return SKILL_TO_CANONICAL.get(normalized) || null;
+    return this.aliasIndex.get(normalized) || null;
   }
 
   /**
@@ -318,7 +567,7 @@ class SkillNormalizerService {
    */
   getSkillAliases(skill: string): string[] {
     const canonical = this.getCanonicalSkill(skill) || this.normalizeSkill(skill);
-    return SKILL_ALIASES[canonical] || [skill];
+    return this.dictionary[canonical] || [skill];
   }
 
   /**
@@ -329,7 +578,7 @@ class SkillNormalizerService {
     const suggestions: string[] = [];
 
     // Look for partial matches in canonical skill names
-    Object.keys(SKILL_ALIASES).forEach(canonical => {
+    Object.keys(this.dictionary).forEach(canonical => {
       if (canonical.includes(normalized) || normalized.includes(canonical)) {
         suggestions.push(canonical);
       }
@@ -337,6 +586,37 @@ class SkillNormalizerService {
 
     return [...new Set(suggestions)].slice(0, 5);
   }
+
+  /**
+   * Node of a skill in the skill graph. Skills without aliases keep their cleaned
+   * name, so "Spring Boot" and "springboot" both land on the same node.
+   */
+  private toGraphKey(skill: string): string {
+    const normalized = this.normalizeSkill(skill);
+    if (SKILL_GRAPH.has(normalized)) return normalized;
+
+    const compact = normalized.replace(/[.\s]/g, '');
+    if (SKILL_GRAPH.has(compact)) return compact;
+
+    const withoutJs = compact.replace(/js$/, '');
+    return SKILL_GRAPH.has(withoutJs) ? withoutJs : normalized;
+  }
+
+  private describeRelation(
+    candidateSkill: string,
+    requiredSkill: string,
+    relation: SkillRelation,
+    via: string[],
+    credit: number
+  ): string {
+    const described = relation === 'child'
+      ? `${candidateSkill} builds on ${requiredSkill}`
+      : relation === 'parent'
+        ? `${candidateSkill} is the foundation of ${requiredSkill}`
+        : `${candidateSkill} is related to ${requiredSkill}`;
+
+    return `${described}${via.length ? ` (via ${via.join(', ')})` : ''} - ${Math.round(credit * 100)}% credit`;
+  }
 }
 
 export const skillNormalizerService = new SkillNormalizerService();
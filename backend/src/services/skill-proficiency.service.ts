@@ -0,0 +1,336 @@
+import { ISkillProficiency, SKILL_LEVELS, SkillLevel } from '../models/ApplicantProfile.model';
+import { ISkillRequirement, MAX_SKILL_IMPORTANCE, MIN_SKILL_IMPORTANCE } from '../models/Job.model';
+import { AppError } from '../middleware/errorHandler';
+import { skillNormalizerService, SkillMatchDetail } from './skill-normalizer.service';
+
+// A job skill compared at the level and importance the job gives it
+export interface JobSkillMatch extends SkillMatchDetail {
+  mustHave: boolean; // false for nice-to-have skills
+  importance: number; // 1-5
+  minLevel?: SkillLevel;
+  candidateLevel?: SkillLevel; // Level recorded for the matching (or related) candidate skill
+  yearsUsed?: number;
+  levelsBelow: number; // How many levels short of minLevel the candidate is (0 when met or unknown)
+  levelFactor: number; // Share of the match credit kept for the level
+}
+
+export interface JobSkillMatchResult {
+  score: number; // 0-100, must-have skills blended with nice-to-have ones
+  mustHaveScore: number; // 0-100
+  niceToHaveScore: number | null; // 0-100, null when the job lists none
+  details: JobSkillMatch[]; // Must-have skills first
+}
+
+type ProficiencyProfile = { skills?: string[]; skillProficiencies?: ISkillProficiency[] };
+type RequirementJob = {
+  requiredSkills?: string[];
+  niceToHaveSkills?: string[];
+  skillRequirements?: ISkillRequirement[];
+};
+
+interface ExperienceDates {
+  role?: string;
+  description?: string;
+  startDate?: Date | string | null;
+  endDate?: Date | string | null;
+  current?: boolean;
+}
+
+// Proficiency shown on the skill gap heatmap for a recorded level
+const LEVEL_SCORES: Record<SkillLevel, number> = {
+  beginner: 40,
+  intermediate: 60,
+  advanced: 80,
+  expert: 95
+};
+
+// Share of a skill's credit kept when the candidate is 0, 1, 2 or 3 levels below the minimum
+const SHORTFALL_FACTORS = [1, 0.7, 0.45, 0.25];
+
+// Level estimated from the years a skill shows up in resume experience (highest first)
+const LEVEL_BY_YEARS: Array<[number, SkillLevel]> = [
+  [6, 'expert'],
+  [3, 'advanced'],
+  [1, 'intermediate'],
+  [0, 'beginner']
+];
+
+const DEFAULT_IMPORTANCE = 3;
+
+// Share of the skill match that nice-to-have skills make up - the rest is must-haves
+const NICE_TO_HAVE_SHARE = 0.2;
+
+const MAX_SKILLS_PER_GROUP = 50;
+const MAX_YEARS = 50;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+class SkillProficiencyService {
+  /**
+   * Validate applicant-supplied proficiencies. Entries for skills not on the profile
+   * are dropped. Throws AppError(400) on invalid input.
+   */
+  normalizeProficiencies(input: unknown, skills: string[]): ISkillProficiency[] {
+    if (!Array.isArray(input)) {
+      throw new AppError('Skill proficiencies must be a list', 400);
+    }
+
+    const seen = new Set<string>();
+    return input.reduce<ISkillProficiency[]>((proficiencies, raw: any) => {
+      const skill = skills.find(listed => listed.toLowerCase() === String(raw?.skill || '').trim().toLowerCase());
+      if (!skill || seen.has(skill.toLowerCase())) return proficiencies;
+
+      const level = this.normalizeLevel(raw.level, skill);
+      const proficiency: ISkillProficiency = { skill, level, source: raw.source === 'resume' ? 'resume' : 'self' };
+
+      if (raw.yearsUsed !== undefined && raw.yearsUsed !== null && raw.yearsUsed !== '') {
+        const years = Number(raw.yearsUsed);
+        if (!Number.isFinite(years) || years < 0 || years > MAX_YEARS) {
+          throw new AppError(`Years used for ${skill} must be between 0 and ${MAX_YEARS}`, 400);
+        }
+        proficiency.yearsUsed = Math.round(years * 10) / 10;
+      }
+
+      seen.add(skill.toLowerCase());
+      proficiencies.push(proficiency);
+      return proficiencies;
+    }, []);
+  }
+
+  /**
+   * Validate recruiter-supplied nice-to-have skills. Skills that are also must-haves
+   * stay must-haves. Throws AppError(400) on invalid input.
+   */
+  normalizeNiceToHaveSkills(input: unknown, requiredSkills: string[] = []): string[] {
+    if (!Array.isArray(input)) {
+      throw new AppError('Nice-to-have skills must be a list', 400);
+    }
+
+    const required = new Set(requiredSkills.map(skill => skill.toLowerCase()));
+    const seen = new Set<string>();
+    const skills = input
+      .filter((skill): skill is string => typeof skill === 'string')
+      .map(skill => skill.trim())
+      .filter(skill => {
+        const key = skill.toLowerCase();
+        if (!skill || required.has(key) || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    if (skills.length > MAX_SKILLS_PER_GROUP) {
+      throw new AppError(`A job can have at most ${MAX_SKILLS_PER_GROUP} nice-to-have skills`, 400);
+    }
+    return skills;
+  }
+
+  /**
+   * Validate recruiter-supplied per-skill settings (minimum level and importance). When
+   * the job's skills are given, entries for other skills are dropped.
+   * Throws AppError(400) on invalid input.
+   */
+  normalizeRequirements(input: unknown, jobSkills?: string[]): ISkillRequirement[] {
+    if (!Array.isArray(input)) {
+      throw new AppError('Skill requirements must be a list', 400);
+    }
+
+    const seen = new Set<string>();
+    return input.reduce<ISkillRequirement[]>((requirements, raw: any) => {
+      const name = typeof raw?.skill === 'string' ? raw.skill.trim() : '';
+      const skill = jobSkills
+        ? jobSkills.find(listed => listed.toLowerCase() === name.toLowerCase())
+        : name;
+      if (!skill || seen.has(skill.toLowerCase())) return requirements;
+
+      const importance = raw.importance === undefined || raw.importance === null
+        ? DEFAULT_IMPORTANCE
+        : Number(raw.importance);
+      if (!Number.isInteger(importance) || importance < MIN_SKILL_IMPORTANCE || importance > MAX_SKILL_IMPORTANCE) {
+        throw new AppError(`Importance of ${skill} must be a whole number from ${MIN_SKILL_IMPORTANCE} to ${MAX_SKILL_IMPORTANCE}`, 400);
+      }
+
+      const requirement: ISkillRequirement = { skill, importance };
+      if (raw.minLevel) {
+        requirement.minLevel = this.normalizeLevel(raw.minLevel, skill);
+      }
+
+      seen.add(skill.toLowerCase());
+      requirements.push(requirement);
+      return requirements;
+    }, []);
+  }
+
+  /**
+   * Pre-fill proficiencies from resume experience: the years each skill is mentioned
+   * in a role or its description (overlapping roles count once), and a level from them
+   */
+  estimateFromExperience(skills: string[], experiences: ExperienceDates[]): ISkillProficiency[] {
+    const now = Date.now();
+    const periods = experiences
+      .map(experience => ({
+        text: `${experience.role || ''} ${experience.description || ''}`.toLowerCase(),
+        start: this.toTime(experience.startDate),
+        end: experience.current ? now : (this.toTime(experience.endDate) ?? now)
+      }))
+      .filter((period): period is { text: string; start: number; end: number } =>
+        period.start !== null && period.end > period.start);
+
+    return skills.reduce<ISkillProficiency[]>((proficiencies, skill) => {
+      const mentions = periods.filter(period => this.mentionsSkill(period.text, skill));
+      if (mentions.length === 0) return proficiencies;
+
+      const yearsUsed = Math.round(this.coveredYears(mentions) * 2) / 2;
+      const level = LEVEL_BY_YEARS.find(([minYears]) => yearsUsed >= minYears)![1];
+      proficiencies.push({ skill, level, yearsUsed, source: 'resume' });
+      return proficiencies;
+    }, []);
+  }
+
+  /**
+   * Recorded proficiency of a candidate skill (matched by name or alias)
+   */
+  findProficiency(profile: ProficiencyProfile, candidateSkill: string): ISkillProficiency | undefined {
+    const proficiencies = profile.skillProficiencies || [];
+    return proficiencies.find(item => item.skill.toLowerCase() === candidateSkill.toLowerCase())
+      || proficiencies.find(item => skillNormalizerService.skillsMatch(item.skill, candidateSkill));
+  }
+
+  /**
+   * Minimum level the job asks for on one of its skills, if any
+   */
+  findRequirement(job: RequirementJob, jobSkill: string): SkillLevel | undefined {
+    return this.findSettings(job, jobSkill)?.minLevel;
+  }
+
+  getImportance(job: RequirementJob, jobSkill: string): number {
+    return this.findSettings(job, jobSkill)?.importance || DEFAULT_IMPORTANCE;
+  }
+
+  /**
+   * Combine must-have and nice-to-have scores (0-100). Without nice-to-have skills the
+   * must-haves are the whole score, and the other way round.
+   */
+  blendScores(mustHaveScore: number | null, niceToHaveScore: number | null): number {
+    if (mustHaveScore === null) return Math.round(niceToHaveScore ?? 0);
+    if (niceToHaveScore === null) return Math.round(mustHaveScore);
+    return Math.round(mustHaveScore * (1 - NICE_TO_HAVE_SHARE) + niceToHaveScore * NICE_TO_HAVE_SHARE);
+  }
+
+  getLevelScore(level: SkillLevel): number {
+    return LEVEL_SCORES[level];
+  }
+
+  /**
+   * Levels a candidate is short of a minimum (0 when met)
+   */
+  levelsBelow(level: SkillLevel, minLevel: SkillLevel): number {
+    return Math.max(0, SKILL_LEVELS.indexOf(minLevel) - SKILL_LEVELS.indexOf(level));
+  }
+
+  /**
+   * Match the job's must-have and nice-to-have skills against the profile. Each skill's
+   * credit is scaled by how far the candidate's recorded level is below the job's
+   * minimum (a skill without a recorded level or a minimum keeps its full credit), and
+   * weighted by its importance within its group.
+   */
+  matchJobSkills(job: RequirementJob, profile: ProficiencyProfile): JobSkillMatchResult {
+    const required = job.requiredSkills || [];
+    const requiredKeys = new Set(required.map(skill => skill.toLowerCase()));
+    const mustHave = this.matchGroup(job, profile, required, true);
+    // A skill listed in both groups counts as a must-have only
+    const niceToHave = this.matchGroup(job, profile,
+      (job.niceToHaveSkills || []).filter(skill => !requiredKeys.has(skill.toLowerCase())), false);
+
+    return {
+      score: this.blendScores(mustHave.score, niceToHave.score),
+      mustHaveScore: Math.round(mustHave.score ?? 0),
+      niceToHaveScore: niceToHave.score === null ? null : Math.round(niceToHave.score),
+      details: [...mustHave.details, ...niceToHave.details]
+    };
+  }
+
+  /**
+   * Short description of a recorded level, e.g. "advanced, 4 yrs"
+   */
+  describeLevel(level: SkillLevel, yearsUsed?: number): string {
+    return yearsUsed !== undefined && yearsUsed !== null ? `${level}, ${yearsUsed} yrs` : level;
+  }
+
+  private matchGroup(
+    job: RequirementJob,
+    profile: ProficiencyProfile,
+    jobSkills: string[],
+    mustHave: boolean
+  ): { score: number | null; details: JobSkillMatch[] } {
+    if (jobSkills.length === 0) return { score: null, details: [] };
+
+    const match = skillNormalizerService.calculateSkillMatch(jobSkills, profile.skills || []);
+    const details = match.matchDetails.map(detail => {
+      const candidateSkill = detail.matchedWith || detail.relatedMatch?.candidateSkill;
+      const proficiency = candidateSkill ? this.findProficiency(profile, candidateSkill) : undefined;
+      const minLevel = this.findRequirement(job, detail.jobSkill);
+      const levelsBelow = proficiency && minLevel ? this.levelsBelow(proficiency.level, minLevel) : 0;
+
+      return {
+        ...detail,
+        mustHave,
+        importance: this.getImportance(job, detail.jobSkill),
+        minLevel,
+        candidateLevel: proficiency?.level,
+        yearsUsed: proficiency?.yearsUsed,
+        levelsBelow,
+        levelFactor: SHORTFALL_FACTORS[levelsBelow]
+      };
+    });
+
+    const totalImportance = details.reduce((sum, detail) => sum + detail.importance, 0);
+    const credit = details.reduce((sum, detail) => sum + detail.credit * detail.levelFactor * detail.importance, 0);
+    return { score: (credit / totalImportance) * 100, details };
+  }
+
+  private findSettings(job: RequirementJob, jobSkill: string): ISkillRequirement | undefined {
+    return (job.skillRequirements || []).find(item => item.skill.toLowerCase() === jobSkill.toLowerCase());
+  }
+
+  private normalizeLevel(value: unknown, skill: string): SkillLevel {
+    if (!SKILL_LEVELS.includes(value as SkillLevel)) {
+      throw new AppError(`Level for ${skill} must be one of: ${SKILL_LEVELS.join(', ')}`, 400);
+    }
+    return value as SkillLevel;
+  }
+
+  private mentionsSkill(text: string, skill: string): boolean {
+    const spellings = [skill, ...skillNormalizerService.getSkillAliases(skill)];
+    return spellings.some(spelling => {
+      const escaped = spelling.toLowerCase().trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return escaped.length > 0 && new RegExp(`(^|[^a-z0-9+#])${escaped}($|[^a-z0-9+#])`).test(text);
+    });
+  }
+
+  // Total years covered by the periods, counting overlaps once
+  private coveredYears(periods: Array<{ start: number; end: number }>): number {
+    const sorted = [...periods].sort((a, b) => a.start - b.start);
+    let total = 0;
+    let currentStart = sorted[0].start;
+    let currentEnd = sorted[0].end;
+
+    for (const period of sorted.slice(1)) {
+      if (period.start > currentEnd) {
+        total += currentEnd - currentStart;
+        currentStart = period.start;
+      }
+      currentEnd = Math.max(currentEnd, period.end);
+    }
+    total += currentEnd - currentStart;
+
+    return total / MS_PER_YEAR;
+  }
+
+  private toTime(value: Date | string | null | undefined): number | null {
+    if (!value) return null;
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+}
+
+export const skillProficiencyService = new SkillProficiencyService();
+export default skillProficiencyService;
@@ -1,11 +1,35 @@
 import { skillNormalizerService } from './skill-normalizer.service';
+import { skillProficiencyService } from './skill-proficiency.service';
+import { ISkillProficiency, SkillLevel } from '../models/ApplicantProfile.model';
+import { ISkillRequirement } from '../models/Job.model';
 
 interface SkillGapData {
   skill: string;
-  required: boolean;
+  required: boolean; // Must-have skill of the job
+  niceToHave?: boolean; // Nice-to-have skill of the job
+  importance?: number; // 1-5, for skills the job lists
   candidateLevel: number; // 0-100
   matchStatus: 'strong' | 'moderate' | 'weak' | 'missing';
   gap: number; // Percentage gap
+  requiredLevel?: SkillLevel; // Minimum level the job asks for
+  // Level the candidate recorded for the skill - without one, the level is estimated
+  candidateProficiency?: {
+    level: SkillLevel;
+    yearsUsed?: number;
+  };
+  // Set when only a related skill covers the requirement
+  relatedMatch?: {
+    skill: string;
+    credit: number; // 0-1
+    explanation: string;
+  };
+}
+
+interface SkillGapOptions {
+  niceToHaveSkills?: string[];
+  // Recorded levels to compare instead of estimating them from the skill names
+  requirements?: ISkillRequirement[];
+  proficiencies?: ISkillProficiency[];
 }
 
 interface SkillGapAnalysis {
@@ -24,7 +48,8 @@ class SkillGapService {
   analyzeSkillGaps(
     requiredSkills: string[],
     candidateSkills: string[],
-    aiInsights?: any
+    aiInsights?: any,
+    options: SkillGapOptions = {}
   ): SkillGapAnalysis {
     const skillsData: SkillGapData[] = [];
     
@@ -33,11 +58,22 @@ class SkillGapService {
       const skillData = this.analyzeIndividualSkill(
         requiredSkill,
         candidateSkills,
-        true
+        'required',
+        options
       );
       skillsData.push(skillData);
     });
 
+    // Then the nice-to-have ones
+    (options.niceToHaveSkills || []).forEach(niceToHaveSkill => {
+      const alreadyAnalyzed = skillsData.some(
+        s => s.skill.toLowerCase() === niceToHaveSkill.toLowerCase()
+      );
+      if (!alreadyAnalyzed) {
+        skillsData.push(this.analyzeIndividualSkill(niceToHaveSkill, candidateSkills, 'niceToHave', options));
+      }
+    });
+
     // Add candidate skills that aren't in requirements (bonus skills)
     candidateSkills.forEach(candidateSkill => {
       const alreadyAnalyzed = skillsData.some(
@@ -47,7 +83,8 @@ class SkillGapService {
         const skillData = this.analyzeIndividualSkill(
           candidateSkill,
           candidateSkills,
-          false
+          'bonus',
+          options
         );
         skillsData.push(skillData);
       }
@@ -59,17 +96,16 @@ class SkillGapService {
     const weakSkills = skillsData.filter(s => s.matchStatus === 'weak');
     const missingSkills = skillsData.filter(s => s.matchStatus === 'missing');
 
-    // Calculate overall match
-    const requiredSkillsData = skillsData.filter(s => s.required);
-    const overallMatch = requiredSkillsData.length > 0
-      ? Math.round(
-          requiredSkillsData.reduce((sum, s) => sum + s.candidateLevel, 0) /
-          requiredSkillsData.length
-        )
-      : 0;
+    // Calculate overall match, weighting each skill by its importance
+    const overallMatch = skillProficiencyService.blendScores(
+      this.averageLevel(skillsData.filter(s => s.required)),
+      this.averageLevel(skillsData.filter(s => s.niceToHave))
+    );
 
     const summary = this.generateSummary(
       requiredSkills.length,
+      skillsData.filter(s => s.niceToHave && s.matchStatus !== 'missing').length,
+      skillsData.filter(s => s.niceToHave).length,
       strongSkills.filter(s => s.required).length,
       moderateSkills.filter(s => s.required).length,
       weakSkills.filter(s => s.required).length,
@@ -87,21 +123,48 @@ class SkillGapService {
     };
   }
 
+  /**
+   * Importance-weighted average proficiency of the job's skills in a group (null when empty)
+   */
+  private averageLevel(skills: SkillGapData[]): number | null {
+    if (skills.length === 0) return null;
+
+    const totalImportance = skills.reduce((sum, s) => sum + (s.importance || 1), 0);
+    return skills.reduce((sum, s) => sum + s.candidateLevel * (s.importance || 1), 0) / totalImportance;
+  }
+
   /**
    * Analyze individual skill match
    */
   private analyzeIndividualSkill(
     skill: string,
     candidateSkills: string[],
-    isRequired: boolean
+    kind: 'required' | 'niceToHave' | 'bonus',
+    options: SkillGapOptions
   ): SkillGapData {
     // Check for exact or fuzzy match
     const matchResult = this.findSkillMatch(skill, candidateSkills);
+    const job = { skillRequirements: options.requirements };
+    const listed = kind !== 'bonus';
+    const requiredLevel = listed ? skillProficiencyService.findRequirement(job, skill) : undefined;
+    const proficiency = matchResult.matchedWith
+      ? skillProficiencyService.findProficiency({ skillProficiencies: options.proficiencies }, matchResult.matchedWith)
+      : undefined;
     
     let candidateLevel: number;
     let matchStatus: 'strong' | 'moderate' | 'weak' | 'missing';
+    let relatedMatch: SkillGapData['relatedMatch'];
 
-    if (matchResult.matched) {
+    if (proficiency) {
+      // The candidate recorded a level - compare it with the one the job asks for
+      candidateLevel = skillProficiencyService.getLevelScore(proficiency.level);
+      if (requiredLevel) {
+        const levelsBelow = skillProficiencyService.levelsBelow(proficiency.level, requiredLevel);
+        matchStatus = levelsBelow === 0 ? 'strong' : levelsBelow === 1 ? 'moderate' : 'weak';
+      } else {
+        matchStatus = candidateLevel >= 80 ? 'strong' : candidateLevel >= 50 ? 'moderate' : 'weak';
+      }
+    } else if (matchResult.matched) {
       // Skill is present - estimate proficiency based on match quality
       if (matchResult.exactMatch) {
         candidateLevel = 85; // Exact match suggests good proficiency
@@ -123,19 +186,40 @@ class SkillGapService {
         matchStatus = 'weak';
       }
     } else {
-      // Skill is not present
-      candidateLevel = 0;
-      matchStatus = 'missing';
+      // Skill is not present - a related skill still covers part of it
+      const related = skillNormalizerService.findRelatedMatch(skill, candidateSkills);
+      if (related) {
+        candidateLevel = Math.round(65 * related.credit); // Fuzzy-match level, scaled by the credit
+        matchStatus = candidateLevel >= 50 ? 'moderate' : 'weak';
+        relatedMatch = {
+          skill: related.candidateSkill,
+          credit: related.credit,
+          explanation: related.explanation,
+        };
+      } else {
+        candidateLevel = 0;
+        matchStatus = 'missing';
+      }
     }
 
-    const gap = 100 - candidateLevel;
+    // Against a minimum level, the gap is how far the candidate is below it
+    const gap = proficiency && requiredLevel
+      ? Math.max(0, skillProficiencyService.getLevelScore(requiredLevel) - candidateLevel)
+      : 100 - candidateLevel;
 
     return {
       skill,
-      required: isRequired,
+      required: kind === 'required',
+      niceToHave: kind === 'niceToHave' || undefined,
+      importance: listed ? skillProficiencyService.getImportance(job, skill) : undefined,
       candidateLevel,
       matchStatus,
       gap,
+      requiredLevel,
+      candidateProficiency: proficiency
+        ? { level: proficiency.level, yearsUsed: proficiency.yearsUsed }
+        : undefined,
+      relatedMatch,
     };
   }
 
@@ -146,7 +230,7 @@ class SkillGapService {
   private findSkillMatch(
     targetSkill: string,
     candidateSkills: string[]
-  ): { matched: boolean; exactMatch: boolean } {
+  ): { matched: boolean; exactMatch: boolean; matchedWith?: string } {
     // Use NLP-based skill normalizer for accurate matching
     const matchingSkill = candidateSkills.find(candidateSkill => 
       skillNormalizerService.skillsMatch(targetSkill, candidateSkill)
@@ -157,7 +241,7 @@ class SkillGapService {
       const targetNormalized = skillNormalizerService.normalizeSkill(targetSkill);
       const candidateNormalized = skillNormalizerService.normalizeSkill(matchingSkill);
       const exactMatch = targetNormalized === candidateNormalized;
-      return { matched: true, exactMatch };
+      return { matched: true, exactMatch, matchedWith: matchingSkill };
     }
 
     return { matched: false, exactMatch: false };
@@ -183,6 +267,8 @@ class SkillGapService {
    */
   private generateSummary(
     totalRequired: number,
+    niceToHaveMatched: number,
+    totalNiceToHave: number,
     strongCount: number,
     moderateCount: number,
     weakCount: number,
@@ -205,6 +291,10 @@ class SkillGapService {
     summary += `${weakCount} weak, `;
     summary += `${missingCount} missing.`;
 
+    if (totalNiceToHave > 0) {
+      summary += ` ${niceToHaveMatched} of ${totalNiceToHave} nice-to-have skills covered.`;
+    }
+
     if (missingCount > 0) {
       summary += ` Focus on validating experience with missing skills during interview.`;
     }
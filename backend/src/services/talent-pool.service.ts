@@ -1,8 +1,9 @@
 import { TalentPool, ITalentPool } from '../models/TalentPool.model';
 import { Job, IJob } from '../models/Job.model';
-import { ApplicantProfile } from '../models/ApplicantProfile.model';
+import { ApplicantProfile, ISkillProficiency } from '../models/ApplicantProfile.model';
 import { Application } from '../models/Application.model';
-import { skillNormalizerService } from './skill-normalizer.service';
+import skillProficiencyService from './skill-proficiency.service';
+import organizationService, { OwnerScope } from './organization.service';
 import mongoose from 'mongoose';
 
 interface SmartTag {
@@ -16,6 +17,7 @@ interface SuggestedJob {
   jobTitle: string;
   matchScore: number;
   matchedSkills: string[];
+  relatedMatches: string[]; // Why a related skill earned partial credit
 }
 
 interface TalentPoolResult {
@@ -109,16 +111,26 @@ class TalentPoolService {
   /**
    * Calculate skill match percentage between candidate and job
    * Uses NLP-based skill normalization for accurate matching
-   * (e.g., "Node" matches "NodeJS", "node.js", "node js")
+   * (e.g., "Node" matches "NodeJS", "node.js", "node js"), with must-have skills
+   * weighted over nice-to-have ones
    */
-  calculateSkillMatch(candidateSkills: string[], jobSkills: string[]): { score: number; matchedSkills: string[] } {
-    if (!jobSkills.length || !candidateSkills.length) {
-      return { score: 0, matchedSkills: [] };
+  calculateSkillMatch(
+    candidateProfile: { skills?: string[]; skillProficiencies?: ISkillProficiency[] },
+    job: Pick<IJob, 'requiredSkills' | 'niceToHaveSkills' | 'skillRequirements'>
+  ): { score: number; matchedSkills: string[]; relatedMatches: string[] } {
+    const hasJobSkills = (job.requiredSkills?.length || 0) + (job.niceToHaveSkills?.length || 0) > 0;
+    if (!hasJobSkills || !candidateProfile.skills?.length) {
+      return { score: 0, matchedSkills: [], relatedMatches: [] };
     }
 
-    // Use NLP-based skill normalizer for accurate matching
-    const result = skillNormalizerService.calculateSkillMatch(jobSkills, candidateSkills);
-    return { score: result.score, matchedSkills: result.matchedSkills };
+    const result = skillProficiencyService.matchJobSkills(job, candidateProfile);
+    return {
+      score: result.score,
+      matchedSkills: result.details.filter(detail => detail.matched).map(detail => detail.jobSkill),
+      relatedMatches: result.details
+        .filter(detail => detail.relatedMatch)
+        .map(detail => detail.relatedMatch!.explanation)
+    };
   }
 
   /**
@@ -126,31 +138,27 @@ class TalentPoolService {
    */
   async findMatchingJobs(
     candidateProfile: any,
-    recruiterId: mongoose.Types.ObjectId,
+    ownerScope: OwnerScope,
     excludeJobId: mongoose.Types.ObjectId
   ): Promise<SuggestedJob[]> {
-    // Get all active jobs from this recruiter (excluding the rejected job)
+    // Get all active jobs from this recruiter or organization (excluding the rejected job)
     const activeJobs = await Job.find({
-      recruiterId,
+      ...ownerScope,
       status: 'active',
       _id: { $ne: excludeJobId }
     });
 
     const suggestedJobs: SuggestedJob[] = [];
-    const candidateSkills = candidateProfile.skills || [];
-
     for (const job of activeJobs) {
-      const { score, matchedSkills } = this.calculateSkillMatch(
-        candidateSkills,
-        job.requiredSkills || []
-      );
+      const { score, matchedSkills, relatedMatches } = this.calculateSkillMatch(candidateProfile, job);
 
       if (score >= this.MIN_MATCH_THRESHOLD) {
         suggestedJobs.push({
           jobId: job._id as mongoose.Types.ObjectId,
           jobTitle: job.title,
           matchScore: score,
-          matchedSkills
+          matchedSkills,
+          relatedMatches
         });
       }
     }
@@ -186,10 +194,11 @@ class TalentPoolService {
         return null;
       }
 
-      // Check if already in talent pool
+      // Check if already in talent pool (shared across the job's organization)
+      const ownerScope = organizationService.getJobOwnerScope(job);
       const existing = await TalentPool.findOne({
         applicantId: applicant._id,
-        recruiterId
+        ...ownerScope
       });
 
       if (existing) {
@@ -203,7 +212,7 @@ class TalentPoolService {
       // Find matching jobs
       const suggestedJobs = await this.findMatchingJobs(
         profile,
-        recruiterId,
+        ownerScope,
         job._id
       );
 
@@ -223,6 +232,7 @@ class TalentPoolService {
       // Create talent pool entry
       await TalentPool.create({
         recruiterId,
+        organizationId: job.organizationId,
         applicantId: applicant._id,
         originalJobId: job._id,
         originalApplicationId: applicationId,
@@ -231,6 +241,7 @@ class TalentPoolService {
           jobId: sj.jobId,
           matchScore: sj.matchScore,
           matchedSkills: sj.matchedSkills,
+          relatedMatches: sj.relatedMatches,
           suggestedAt: new Date()
         })),
         status: 'active'
@@ -253,10 +264,10 @@ class TalentPoolService {
   }
 
   /**
-   * Get all talent pool entries for a recruiter
+   * Get all talent pool entries for a recruiter or organization
    */
-  async getTalentPool(recruiterId: mongoose.Types.ObjectId, status?: string) {
-    const query: any = { recruiterId };
+  async getTalentPool(ownerScope: OwnerScope, status?: string) {
+    const query: any = { ...ownerScope };
     if (status) {
       query.status = status;
     }
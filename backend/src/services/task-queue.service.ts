@@ -0,0 +1,210 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { QueueTask, IQueueTask } from '../models/QueueTask.model';
+
+export type TaskHandler = (payload: Record<string, any>, task: IQueueTask) => Promise<Record<string, unknown> | void>;
+
+export interface QueueOptions {
+  concurrency?: number; // Tasks of this queue run at once per server instance
+  maxAttempts?: number;
+  onSettled?: (task: IQueueTask) => Promise<void>; // After a task completes or fails for good
+}
+
+interface RegisteredQueue {
+  name: string;
+  handler: TaskHandler;
+  concurrency: number;
+  maxAttempts: number;
+  onSettled?: (task: IQueueTask) => Promise<void>;
+  active: number;
+}
+
+export interface EnqueueOptions {
+  groupId?: mongoose.Types.ObjectId;
+  maxAttempts?: number;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_POLL_SECONDS = 5;
+
+// A task holding the lock longer than this is assumed to have died with its process
+const LOCK_TTL_MS = 5 * 60 * 1000;
+
+// Retry after 30s, 60s, 120s...
+const RETRY_BASE_MS = 30 * 1000;
+
+class TaskQueueService {
+  private queues = new Map<string, RegisteredQueue>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  /**
+   * Register the handler of a queue. Registering the same name again replaces it.
+   */
+  register(name: string, handler: TaskHandler, options: QueueOptions = {}): void {
+    this.queues.set(name, {
+      name,
+      handler,
+      concurrency: Math.max(1, options.concurrency || Number(process.env.TASK_QUEUE_CONCURRENCY) || DEFAULT_CONCURRENCY),
+      maxAttempts: Math.max(1, options.maxAttempts || DEFAULT_MAX_ATTEMPTS),
+      onSettled: options.onSettled,
+      active: 0
+    });
+  }
+
+  async enqueue(name: string, payloads: Record<string, any>[], options: EnqueueOptions = {}): Promise<IQueueTask[]> {
+    const queue = this.queues.get(name);
+    if (payloads.length === 0) return [];
+
+    const tasks = await QueueTask.insertMany(payloads.map(payload => ({
+      queue: name,
+      payload,
+      groupId: options.groupId,
+      maxAttempts: options.maxAttempts || queue?.maxAttempts || DEFAULT_MAX_ATTEMPTS
+    })));
+
+    this.wake();
+    return tasks as unknown as IQueueTask[];
+  }
+
+  /**
+   * Poll for queued tasks in-process. Used by the long-running server; serverless
+   * deployments work through the queue with drain() from the scheduler instead.
+   */
+  start(pollSeconds: number = DEFAULT_POLL_SECONDS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.wake(), pollSeconds * 1000);
+    this.timer.unref(); // Never keep the process alive just for the queue
+    this.wake();
+    console.log(`📬 Task queue started (${[...this.queues.keys()].join(', ') || 'no queues'})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fill every free worker slot. Workers keep taking tasks until their queue is empty.
+   */
+  wake(): void {
+    if (!this.timer || mongoose.connection.readyState !== 1) return;
+
+    for (const queue of this.queues.values()) {
+      while (queue.active < queue.concurrency) {
+        queue.active++;
+        this.work(queue)
+          .catch(error => console.error(`Task queue "${queue.name}" worker failed:`, error))
+          .finally(() => { queue.active--; });
+      }
+    }
+  }
+
+  /**
+   * Run queued tasks until the queues are empty or the time budget is spent
+   */
+  async drain(budgetMs: number): Promise<{ processed: number }> {
+    // In-process workers are already on it
+    if (this.timer) return { processed: 0 };
+
+    const deadline = Date.now() + budgetMs;
+    const counts = await Promise.all([...this.queues.values()].map(async queue => {
+      let processed = 0;
+      await Promise.all(Array.from({ length: queue.concurrency }, async () => {
+        while (Date.now() < deadline && await this.runNext(queue)) processed++;
+      }));
+      return processed;
+    }));
+
+    return { processed: counts.reduce((sum, count) => sum + count, 0) };
+  }
+
+  private async work(queue: RegisteredQueue): Promise<void> {
+    while (this.timer && await this.runNext(queue)) {
+      // Keep going while there is work
+    }
+  }
+
+  /**
+   * Claim and run one task. Returns false when nothing was due.
+   */
+  private async runNext(queue: RegisteredQueue): Promise<boolean> {
+    const task = await this.claim(queue.name);
+    if (!task) return false;
+
+    const update: Record<string, unknown> = {};
+    const unset: Record<string, 1> = { lockedBy: 1, lockedUntil: 1 };
+    try {
+      // Reclaimed from a dead worker once too often - don't let it crash another one
+      if (task.attempts > task.maxAttempts) {
+        throw new Error('Task timed out before it could finish');
+      }
+      const result = (await queue.handler(task.payload, task)) || {};
+      update.status = 'completed';
+      update.result = result;
+      unset.lastError = 1;
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      update.lastError = message;
+      if (task.attempts < task.maxAttempts) {
+        update.status = 'queued';
+        update.runAt = new Date(Date.now() + RETRY_BASE_MS * 2 ** (task.attempts - 1));
+      } else {
+        update.status = 'failed';
+        console.error(`❌ Task ${task._id} on "${queue.name}" failed after ${task.attempts} attempts:`, message);
+      }
+    }
+
+    if (update.status !== 'queued') update.finishedAt = new Date();
+
+    // Only write the outcome while this run still holds the lock. A run that outlived
+    // LOCK_TTL_MS has been reclaimed (attempts went up), and the new run owns the task.
+    const settled = await QueueTask.findOneAndUpdate(
+      { _id: task._id, lockedBy: this.workerId, attempts: task.attempts },
+      { $set: update, $unset: unset },
+      { new: true }
+    );
+    if (!settled) {
+      console.warn(`Task ${task._id} on "${queue.name}" lost its lock while running - result dropped`);
+      return true;
+    }
+
+    if (settled.status !== 'queued' && queue.onSettled) {
+      await queue.onSettled(settled).catch(error => console.error(`Task ${task._id} settle hook failed:`, error));
+    }
+    return true;
+  }
+
+  /**
+   * Atomically take the oldest due task, including ones whose worker died mid-run
+   */
+  private async claim(queueName: string): Promise<IQueueTask | null> {
+    const now = new Date();
+    return QueueTask.findOneAndUpdate(
+      {
+        queue: queueName,
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'running', lockedUntil: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'running',
+          lockedBy: this.workerId,
+          lockedUntil: new Date(now.getTime() + LOCK_TTL_MS),
+          startedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { new: true, sort: { runAt: 1 } }
+    );
+  }
+}
+
+export const taskQueue = new TaskQueueService();
+export default taskQueue;
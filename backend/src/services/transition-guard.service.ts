@@ -0,0 +1,167 @@
+import { IApplication, ApplicationStatus } from '../models/Application.model';
+import { Job, IPipelineStage } from '../models/Job.model';
+import { Interview } from '../models/Interview.model';
+import { AppError } from '../middleware/errorHandler';
+import pipelineService from './pipeline.service';
+import scorecardService from './scorecard.service';
+import interviewLoopService from './interview-loop.service';
+
+export interface TransitionContext {
+  rejectionReason?: string;
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface AdvanceCheck extends TransitionCheck {
+  move: boolean; // False when the application is already at or past the target stage
+}
+
+export interface SkippedTransition {
+  applicationId: string;
+  reason: string;
+}
+
+type Precondition = (application: IApplication, context: TransitionContext) => Promise<string | null>;
+
+// Extra requirements for entering a stage of a given status category.
+// Each returns a human-readable reason when the requirement is not met.
+const PRECONDITIONS: Partial<Record<ApplicationStatus, Precondition>> = {
+  hired: async (application) => {
+    const completedInterview = await Interview.exists({
+      applicationId: application._id,
+      status: 'completed'
+    });
+    if (!completedInterview) {
+      return 'Candidate must have a completed interview before being hired';
+    }
+    const hasFeedback = await scorecardService.hasSubmittedFeedback(application._id as any);
+    if (!hasFeedback) {
+      return 'At least one interviewer must submit a scorecard before the candidate is hired';
+    }
+    const job = await Job.findById(application.jobId).select('interviewPlan');
+    const loop = await interviewLoopService.getProgress(application._id as any, job);
+    return !loop.hasPlan || loop.status === 'passed'
+      ? null
+      : 'Candidate must pass every round of the interview loop before being hired';
+  },
+  rejected: async (_application, context) => {
+    return context.rejectionReason?.trim() ? null : 'A rejection reason is required';
+  },
+};
+
+class TransitionGuardService {
+  /**
+   * Check whether an application may move to the target stage of its job's pipeline
+   */
+  async checkTransition(
+    application: IApplication,
+    pipeline: IPipelineStage[],
+    target: IPipelineStage,
+    context: TransitionContext = {}
+  ): Promise<TransitionCheck> {
+    const current = pipelineService.resolveStage(pipeline, application);
+
+    if (current?.key === target.key) {
+      return { allowed: false, reason: `Application is already in the "${target.name}" stage` };
+    }
+
+    const allowedTargets = pipelineService.getAllowedTransitions(pipeline, current);
+    if (!allowedTargets.some(stage => stage.key === target.key)) {
+      const options = allowedTargets.map(stage => `"${stage.name}"`).join(', ');
+      return {
+        allowed: false,
+        reason: `Cannot move application from "${current?.name}" to "${target.name}". ` +
+          (options ? `Allowed next stages: ${options}` : `"${current?.name}" is a final stage`)
+      };
+    }
+
+    const precondition = PRECONDITIONS[target.status];
+    const failure = precondition ? await precondition(application, context) : null;
+    if (failure) {
+      return { allowed: false, reason: failure };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Same as checkTransition, but throws a 409 AppError when the transition is not allowed
+   */
+  async assertTransition(
+    application: IApplication,
+    pipeline: IPipelineStage[],
+    target: IPipelineStage,
+    context: TransitionContext = {}
+  ): Promise<void> {
+    const check = await this.checkTransition(application, pipeline, target, context);
+    if (!check.allowed) {
+      throw new AppError(check.reason || 'Status transition not allowed', 409);
+    }
+  }
+
+  /**
+   * Check a move made on the way by another action, like scheduling an interview.
+   * An application already at or past the target stage stays where it is; anything
+   * else goes through the usual checks, so final stages are never reopened.
+   */
+  async checkAdvance(
+    application: IApplication,
+    pipeline: IPipelineStage[],
+    target: IPipelineStage
+  ): Promise<AdvanceCheck> {
+    const current = pipelineService.resolveStage(pipeline, application);
+    if (current && !pipelineService.isFinalStage(current) && current.order >= target.order) {
+      return { allowed: true, move: false };
+    }
+
+    const check = await this.checkTransition(application, pipeline, target);
+    return { ...check, move: check.allowed };
+  }
+
+  /**
+   * Same as checkAdvance, but throws a 409 AppError when the move is not allowed.
+   * Returns whether the application has to move.
+   */
+  async assertAdvance(
+    application: IApplication,
+    pipeline: IPipelineStage[],
+    target: IPipelineStage
+  ): Promise<boolean> {
+    const check = await this.checkAdvance(application, pipeline, target);
+    if (!check.allowed) {
+      throw new AppError(check.reason || 'Status transition not allowed', 409);
+    }
+    return check.move;
+  }
+
+  /**
+   * Split applications for a bulk action into those that may move to the target
+   * stage and those that were skipped (with the reason why)
+   */
+  async partitionTransitions(
+    applications: IApplication[],
+    pipeline: IPipelineStage[],
+    target: IPipelineStage,
+    context: TransitionContext = {}
+  ): Promise<{ eligible: IApplication[]; skipped: SkippedTransition[] }> {
+    const eligible: IApplication[] = [];
+    const skipped: SkippedTransition[] = [];
+
+    for (const application of applications) {
+      const check = await this.checkTransition(application, pipeline, target, context);
+      if (check.allowed) {
+        eligible.push(application);
+      } else {
+        skipped.push({ applicationId: String(application._id), reason: check.reason || 'Transition not allowed' });
+      }
+    }
+
+    return { eligible, skipped };
+  }
+}
+
+export const transitionGuardService = new TransitionGuardService();
+export default transitionGuardService;
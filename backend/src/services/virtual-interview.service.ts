@@ -7,9 +7,11 @@
  * - Generates final AI Readiness Score
  */
 
-import { groqService } from './groq.service';
+import { llmService } from './llm.service';
+import { promptRegistryService } from './prompt-registry.service';
 import { InterviewSession, IInterviewSession, QuestionCategory, QuestionDifficulty } from '../models/InterviewSession.model';
-import { ApplicantProfile } from '../models/ApplicantProfile.model';
+import { ApplicantProfile, IContentFlag } from '../models/ApplicantProfile.model';
+import { contentGuardService } from './content-guard.service';
 import mongoose from 'mongoose';
 
 // Interface for generated question
@@ -26,6 +28,8 @@ export interface AnswerEvaluation {
   communicationScore: number;
   confidenceScore: number;
   feedback: string;
+  promptVersion?: string; // Unset for the neutral fallback evaluation
+  contentFlags?: IContentFlag[]; // Set when the answer tried to steer the evaluator
 }
 
 // Interface for final evaluation
@@ -41,6 +45,16 @@ export interface FinalEvaluation {
   strengths: string[];
   areasForImprovement: string[];
   recommendedResources: string[];
+  promptVersion?: string; // Unset when calculated without AI
+}
+
+// Score (1-10) of the neutral fallback evaluation, also the most a flagged answer can get
+const NEUTRAL_ANSWER_SCORE = 6;
+
+// Generated questions with the prompt that produced them
+export interface GeneratedQuestionSet {
+  questions: GeneratedQuestion[];
+  promptVersion?: string; // Unset for the fallback questions
 }
 
 class VirtualInterviewService {
@@ -78,7 +92,7 @@ class VirtualInterviewService {
     const resumeSnapshot = this.createResumeSnapshot(profile);
 
     // Generate 10 personalized questions
-    const questions = await this.generateQuestions(resumeSnapshot, profile);
+    const { questions, promptVersion } = await this.generateQuestions(resumeSnapshot, profile);
 
     // Create new session
     const session = new InterviewSession({
@@ -93,6 +107,7 @@ class VirtualInterviewService {
         difficulty: q.difficulty,
         relatedSkill: q.relatedSkill,
       })),
+      questionsPromptVersion: promptVersion,
       totalQuestions: 10,
       questionsAnswered: 0,
     });
@@ -180,56 +195,28 @@ class VirtualInterviewService {
   /**
    * Generate 10 personalized interview questions based on resume
    */
-  async generateQuestions(resumeSnapshot: string, profile: any): Promise<GeneratedQuestion[]> {
-    const systemPrompt = `You are an expert technical interviewer generating personalized interview questions.`;
-
-    const prompt = `Based on the candidate's resume below, generate exactly 10 interview questions that are:
-1. Personalized to their specific experience and skills
-2. Progressive in difficulty (start easier, get harder)
-3. Cover these categories (2 questions each):
-   - technical: Based on their tech stack and skills
-   - experience: Deep dive into their work history
-   - behavioral: Teamwork, leadership, conflict resolution
-   - problem_solving: Hypothetical scenarios and challenges
-   - career: Goals, motivations, and role fit
-
-CANDIDATE RESUME:
-${resumeSnapshot}
-
-IMPORTANT RULES:
-- Questions should be specific to their background (mention their projects/companies/skills)
-- Start with easier warm-up questions, progress to more challenging ones
-- Each question should assess different aspects
-- Questions should feel natural and conversational
-- For candidates with <2 years experience, focus on projects and learning
-- For experienced candidates (3+ years), focus on architecture and leadership
-
-RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
-{
-  "questions": [
-    {
-      "questionText": "Can you walk me through your experience with [specific skill from their resume]?",
-      "category": "technical",
-      "difficulty": "easy",
-      "relatedSkill": "React"
-    },
-    ... (10 questions total)
-  ]
-}`;
+  async generateQuestions(resumeSnapshot: string, profile: any): Promise<GeneratedQuestionSet> {
+    const userId = profile?.userId?.toString();
 
     try {
-      const result = await groqService.generateJSON<{ questions: GeneratedQuestion[] }>(prompt, systemPrompt);
+      const prompt = await promptRegistryService.render('interview_questions', {
+        resumeSnapshot: contentGuardService.fence(resumeSnapshot)
+      }, userId);
+      const result = await llmService.generateFromPrompt<{ questions: GeneratedQuestion[] }>(prompt, {
+        userId,
+        untrustedContent: true
+      });
       
       // Validate we got 10 questions
       if (!result.questions || result.questions.length !== 10) {
         console.warn('AI did not generate exactly 10 questions, using fallback');
-        return this.generateFallbackQuestions(profile);
+        return { questions: this.generateFallbackQuestions(profile) };
       }
 
-      return result.questions;
+      return { questions: result.questions, promptVersion: prompt.promptVersion };
     } catch (error) {
       console.error('Failed to generate questions with AI:', error);
-      return this.generateFallbackQuestions(profile);
+      return { questions: this.generateFallbackQuestions(profile) };
     }
   }
 
@@ -303,65 +290,46 @@ RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
   }
 
   /**
-   * Evaluate a single answer
+   * Evaluate a single answer. An answer that tries to steer the evaluator is scored no
+   * higher than the neutral fallback, and the attempt is kept with the evaluation.
    */
   async evaluateAnswer(
     sessionId: string,
     questionNumber: number,
     answer: string,
     questionText: string,
-    resumeContext: string
+    resumeContext: string,
+    userId?: string
   ): Promise<AnswerEvaluation> {
-    const systemPrompt = `You are an expert technical interviewer evaluating candidate responses.`;
-
-    const prompt = `Evaluate this interview answer briefly and constructively:
-
-QUESTION: ${questionText}
-
-CANDIDATE BACKGROUND (for context):
-${resumeContext.substring(0, 1000)}
-
-CANDIDATE'S ANSWER:
-${answer}
-
-Provide scores (1-10) and brief, actionable feedback:
-
-1. **Technical Score (1-10)**: Does the answer demonstrate technical knowledge and accuracy?
-   - Consider: Depth of knowledge, correct terminology, practical understanding
-   
-2. **Communication Score (1-10)**: Is the answer clear, structured, and well-articulated?
-   - Consider: Clarity, structure (STAR method for behavioral), conciseness
-   
-3. **Confidence Score (1-10)**: Does the candidate sound confident and professional?
-   - Consider: Decisiveness, avoiding excessive hedging, authentic examples
-
-4. **Feedback (1-2 sentences)**: Constructive feedback highlighting what was good and one area to improve.
-
-RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
-{
-  "technicalScore": 7,
-  "communicationScore": 8,
-  "confidenceScore": 7,
-  "feedback": "Good technical explanation with clear examples. To improve, consider providing more specific metrics or outcomes from your experience."
-}`;
+    const guarded = contentGuardService.guard(answer, 'interview_answer');
+    const contentFlags = guarded.flags.length > 0 ? guarded.flags : undefined;
+    const maxScore = contentFlags ? NEUTRAL_ANSWER_SCORE : 10;
 
     try {
-      const result = await groqService.generateJSON<AnswerEvaluation>(prompt, systemPrompt);
+      const prompt = await promptRegistryService.render('interview_answer_evaluation', {
+        questionText,
+        resumeContext: contentGuardService.fence(resumeContext.substring(0, 1000)),
+        answer: guarded.text
+      }, userId);
+      const result = await llmService.generateFromPrompt<AnswerEvaluation>(prompt, { userId, untrustedContent: true });
       
       // Validate scores are in range
-      result.technicalScore = Math.max(1, Math.min(10, result.technicalScore));
-      result.communicationScore = Math.max(1, Math.min(10, result.communicationScore));
-      result.confidenceScore = Math.max(1, Math.min(10, result.confidenceScore));
+      result.technicalScore = Math.max(1, Math.min(maxScore, result.technicalScore));
+      result.communicationScore = Math.max(1, Math.min(maxScore, result.communicationScore));
+      result.confidenceScore = Math.max(1, Math.min(maxScore, result.confidenceScore));
+      result.promptVersion = prompt.promptVersion;
+      result.contentFlags = contentFlags;
       
       return result;
     } catch (error) {
       console.error('Failed to evaluate answer with AI:', error);
       // Return neutral fallback evaluation
       return {
-        technicalScore: 6,
-        communicationScore: 6,
-        confidenceScore: 6,
+        technicalScore: NEUTRAL_ANSWER_SCORE,
+        communicationScore: NEUTRAL_ANSWER_SCORE,
+        confidenceScore: NEUTRAL_ANSWER_SCORE,
         feedback: 'Thank you for your answer. Your response has been recorded.',
+        contentFlags,
       };
     }
   }
@@ -384,74 +352,37 @@ RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
     // Prepare interview transcript for AI analysis
     const transcript = session.questions
       .filter(q => q.answerText)
-      .map(q => `Q${q.questionNumber}: ${q.questionText}\nA: ${q.answerText}\nScores: Tech=${q.evaluation?.technicalScore}/10, Comm=${q.evaluation?.communicationScore}/10, Conf=${q.evaluation?.confidenceScore}/10\nFeedback: ${q.evaluation?.feedback}`)
+      .map(q => `Q${q.questionNumber}: ${q.questionText}\nA: ${contentGuardService.fence(q.answerText)}\nScores: Tech=${q.evaluation?.technicalScore}/10, Comm=${q.evaluation?.communicationScore}/10, Conf=${q.evaluation?.confidenceScore}/10\nFeedback: ${q.evaluation?.feedback}`)
       .join('\n\n');
 
-    const systemPrompt = `You are an expert hiring manager generating a comprehensive interview evaluation report.`;
-
-    const prompt = `Generate a comprehensive AI Readiness Score for this completed interview:
-
-CANDIDATE RESUME:
-${session.resumeSnapshot.substring(0, 1500)}
-
-TARGET ROLE: ${session.targetRole || 'Software Engineer'}
-
-INTERVIEW TRANSCRIPT:
-${transcript}
-
-AVERAGE SCORES:
-- Technical: ${avgTechnical.toFixed(1)}/10
-- Communication: ${avgCommunication.toFixed(1)}/10
-- Confidence: ${avgConfidence.toFixed(1)}/10
-
-QUESTIONS ANSWERED: ${session.questionsAnswered}/${session.totalQuestions}
-
-Provide a comprehensive evaluation with:
-
-1. **Overall AI Readiness Score (0-100)**: Hiring readiness for tech roles
-2. **Category Scores (0-100)**:
-   - technicalProficiency: Technical knowledge and problem-solving
-   - communicationSkills: Clarity, articulation, structure
-   - problemSolving: Critical thinking and approach to challenges
-   - cultureFit: Teamwork, adaptability, growth mindset
-   - confidenceLevel: Professional presence and decisiveness
-
-3. **Overall Verdict**:
-   - "strong_hire": Exceptional candidate, highly recommended (score 80+)
-   - "hire": Good candidate, recommended (score 65-79)
-   - "maybe": Potential candidate, needs more assessment (score 50-64)
-   - "no_hire": Not ready yet, needs improvement (score <50)
-
-4. **Strengths**: Top 3-5 specific strengths demonstrated in answers
-5. **Areas for Improvement**: Top 3-5 specific, actionable improvements
-6. **Recommended Resources**: 3-5 specific courses, books, or practices to improve
-7. **Detailed Feedback**: 3-4 paragraph comprehensive assessment
-
-RESPONSE FORMAT (JSON ONLY, NO MARKDOWN):
-{
-  "aiReadinessScore": 75,
-  "technicalProficiency": 72,
-  "communicationSkills": 78,
-  "problemSolving": 70,
-  "cultureFit": 80,
-  "confidenceLevel": 73,
-  "overallVerdict": "hire",
-  "detailedFeedback": "Comprehensive 3-4 paragraph assessment...",
-  "strengths": ["Strong technical foundation in React", "Clear communication", ...],
-  "areasForImprovement": ["Deepen system design knowledge", "Practice behavioral questions", ...],
-  "recommendedResources": ["System Design Interview by Alex Xu", "LeetCode medium problems", ...]
-}`;
-
     try {
-      const result = await groqService.generateJSON<FinalEvaluation>(prompt, systemPrompt);
+      const userId = session.userId.toString();
+      const prompt = await promptRegistryService.render('interview_final_evaluation', {
+        resumeSnapshot: contentGuardService.fence(session.resumeSnapshot.substring(0, 1500)),
+        targetRole: session.targetRole || 'Software Engineer',
+        transcript,
+        avgTechnical: avgTechnical.toFixed(1),
+        avgCommunication: avgCommunication.toFixed(1),
+        avgConfidence: avgConfidence.toFixed(1),
+        questionsAnswered: session.questionsAnswered,
+        totalQuestions: session.totalQuestions
+      }, userId);
+      const result = await llmService.generateFromPrompt<FinalEvaluation>(prompt, { userId, untrustedContent: true });
       
-      // Validate scores
-      result.aiReadinessScore = Math.max(0, Math.min(100, result.aiReadinessScore));
+      // Validate scores, keeping the readiness score near the one the answer scores add up to
+      const reference = this.calculateFallbackEvaluation(session, avgTechnical, avgCommunication, avgConfidence);
+      const flagged = evaluatedQuestions.some(q => q.evaluation!.contentFlags?.length);
+      result.aiReadinessScore = contentGuardService.limitScore(
+        Math.max(0, Math.min(100, result.aiReadinessScore)),
+        reference.aiReadinessScore,
+        flagged
+      ).score;
       result.technicalProficiency = Math.max(0, Math.min(100, result.technicalProficiency));
       result.communicationSkills = Math.max(0, Math.min(100, result.communicationSkills));
       result.problemSolving = Math.max(0, Math.min(100, result.problemSolving));
       result.cultureFit = Math.max(0, Math.min(100, result.cultureFit));
       result.confidenceLevel = Math.max(0, Math.min(100, result.confidenceLevel));
+      result.promptVersion = prompt.promptVersion;
       
       return result;
     } catch (error) {
@@ -0,0 +1,224 @@
+/**
+ * Circuit breakers for the AI providers and their API keys.
+ *
+ * A breaker counts the outcomes of recent calls. After repeated failures it opens and
+ * callers skip that provider or key straight away instead of waiting out its retries.
+ * Once the cool-down has passed a single probe call is let through: success closes
+ * the breaker, failure opens it again for twice as long (up to a limit).
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export const CIRCUIT_STATES = ['closed', 'open', 'half_open'] as const;
+export type CircuitState = typeof CIRCUIT_STATES[number];
+
+const parsePositive = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Failures within the window that open a breaker, if they are also half of its calls or more
+const FAILURE_THRESHOLD = parsePositive(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD, 5);
+const FAILURE_RATE = 0.5;
+const WINDOW_MS = 60 * 1000;
+const OPEN_MS = parsePositive(process.env.CIRCUIT_BREAKER_OPEN_SECONDS, 30) * 1000;
+const MAX_OPEN_MS = 5 * 60 * 1000;
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly circuit: string, public readonly retryAt?: Date) {
+    super(`${circuit} is unavailable after repeated failures${retryAt ? `, next try at ${retryAt.toISOString()}` : ''}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface CallOutcome {
+  at: number;
+  failed: boolean;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  calls: number; // Within the window
+  failures: number;
+  failureRate: number; // 0-1
+  openedAt?: Date;
+  retryAt?: Date;
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private openMs = OPEN_MS;
+  private openedAt?: number;
+  private retryAt?: number;
+  private probing = false;
+  private lastFailureAt?: number;
+  private lastSuccessAt?: number;
+  private lastError?: string;
+
+  constructor(readonly name: string) {}
+
+  /**
+   * Whether a call would be let through right now. Unlike acquire() this doesn't take the
+   * probe of a half-open breaker, so it is safe for listing candidates.
+   */
+  isCallPermitted(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return Date.now() >= (this.retryAt || 0);
+    return !this.probing;
+  }
+
+  /**
+   * Claim the right to make a call; every successful claim must be followed by
+   * recordSuccess() or recordFailure()
+   */
+  acquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() < (this.retryAt || 0)) return false;
+      this.state = 'half_open';
+      this.probing = false;
+    }
+    if (this.state === 'half_open') {
+      if (this.probing) return false;
+      this.probing = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.lastSuccessAt = Date.now();
+    if (this.state === 'half_open') {
+      console.log(`✅ ${this.name} recovered, circuit closed`);
+      this.reset();
+      return;
+    }
+    this.push(false);
+  }
+
+  recordFailure(error?: unknown): void {
+    this.lastFailureAt = Date.now();
+    this.lastError = error ? (error as Error)?.message || String(error) : undefined;
+
+    if (this.state === 'half_open') {
+      // The probe failed - stay away for longer this time
+      this.open(Math.min(this.openMs * 2, MAX_OPEN_MS));
+      return;
+    }
+
+    this.push(true);
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    if (failures >= FAILURE_THRESHOLD && failures / this.outcomes.length >= FAILURE_RATE) {
+      this.open(OPEN_MS);
+    }
+  }
+
+  /**
+   * Open right away for a known time, e.g. when a rate limit says when to come back
+   */
+  trip(durationMs: number, error?: unknown): void {
+    this.lastFailureAt = Date.now();
+    this.lastError = error ? (error as Error)?.message || String(error) : this.lastError;
+    this.open(Math.max(durationMs, 1000));
+  }
+
+  /**
+   * Run a call through the breaker, failing fast with CircuitOpenError while it is open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.acquire()) {
+      throw new CircuitOpenError(this.name, this.retryAt ? new Date(this.retryAt) : undefined);
+    }
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  getState(): CircuitState {
+    // An open breaker past its cool-down lets the next call probe
+    return this.state === 'open' && Date.now() >= (this.retryAt || 0) ? 'half_open' : this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    this.prune();
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    const toDate = (time?: number) => (time ? new Date(time) : undefined);
+
+    return {
+      name: this.name,
+      state: this.getState(),
+      calls: this.outcomes.length,
+      failures,
+      failureRate: this.outcomes.length ? Math.round((failures / this.outcomes.length) * 100) / 100 : 0,
+      openedAt: toDate(this.state === 'closed' ? undefined : this.openedAt),
+      retryAt: toDate(this.state === 'closed' ? undefined : this.retryAt),
+      lastFailureAt: toDate(this.lastFailureAt),
+      lastSuccessAt: toDate(this.lastSuccessAt),
+      lastError: this.lastError,
+    };
+  }
+
+  private open(durationMs: number): void {
+    if (this.state === 'closed') {
+      console.warn(`⚠️ ${this.name} keeps failing, circuit open for ${Math.round(durationMs / 1000)}s`);
+    }
+    this.state = 'open';
+    this.probing = false;
+    this.openMs = durationMs;
+    this.openedAt = Date.now();
+    this.retryAt = this.openedAt + durationMs;
+  }
+
+  private reset(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.openMs = OPEN_MS;
+    this.probing = false;
+    this.openedAt = undefined;
+    this.retryAt = undefined;
+  }
+
+  private push(failed: boolean): void {
+    this.outcomes.push({ at: Date.now(), failed });
+    this.prune();
+  }
+
+  private prune(): void {
+    const since = Date.now() - WINDOW_MS;
+    this.outcomes = this.outcomes.filter(outcome => outcome.at >= since);
+  }
+}
+
+/**
+ * All breakers of the process by name, so health checks see every one of them
+ */
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  list(): CircuitSnapshot[] {
+    return [...this.breakers.values()]
+      .map(breaker => breaker.snapshot())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
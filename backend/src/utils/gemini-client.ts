@@ -5,12 +5,20 @@
 
 import dotenv from 'dotenv';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { CircuitBreaker, CircuitOpenError, circuitBreakers } from './circuit-breaker';
 
 // Ensure environment variables are loaded before reading GEMINI_API_KEY
 dotenv.config();
 
+// Overloaded-model errors are retried even with a single key
+const MIN_ATTEMPTS = 3;
+
+// Quotas are per minute, so a rate-limited key sits out that long
+const RATE_LIMIT_COOLDOWN_MS = 60000;
+
 class GeminiClient {
   private apiKeys: string[];
+  private breakers: CircuitBreaker[];
   private currentKeyIndex: number = 0;
   private enabled: boolean;
 
@@ -22,6 +30,7 @@ class GeminiClient {
       process.env.GEMINI_API_KEY_3,
     ].filter((key): key is string => Boolean(key));
 
+    this.breakers = this.apiKeys.map((_, index) => circuitBreakers.get(`gemini:key-${index + 1}`));
     this.enabled = this.apiKeys.length > 0;
 
     if (!this.enabled) {
@@ -45,6 +54,19 @@ class GeminiClient {
     return this.apiKeys[index];
   }
 
+  /**
+   * Claim a key whose circuit lets calls through, starting from the rotation index and
+   * moving one key further on every attempt
+   */
+  private acquireKey(attempt: number): number | null {
+    const start = Math.floor(Date.now() / 60000) + attempt;
+    for (let offset = 0; offset < this.apiKeys.length; offset++) {
+      const index = (start + offset) % this.apiKeys.length;
+      if (this.breakers[index].acquire()) return index;
+    }
+    return null;
+  }
+
   /**
    * Create a Gemini AI instance with automatic key rotation
    */
@@ -57,11 +79,13 @@ class GeminiClient {
   }
 
   /**
-   * Execute a request with automatic fallback to other keys on rate limit
+   * Execute a request with automatic fallback to other keys on rate limit, and
+   * backoff retries while the model is overloaded. Keys whose circuit is open are
+   * skipped; with none left the request fails at once with CircuitOpenError.
    */
   async executeWithFallback<T>(
     operation: (client: GoogleGenerativeAI) => Promise<T>,
-    maxRetries: number = this.apiKeys.length
+    maxRetries: number = Math.max(this.apiKeys.length, MIN_ATTEMPTS)
   ): Promise<T> {
     if (!this.enabled) {
       throw new Error('Gemini client is disabled');
@@ -70,9 +94,17 @@ class GeminiClient {
     
     // Try all available keys
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      const keyIndex = this.acquireKey(attempt);
+      if (keyIndex === null) {
+        if (errors.length === 0) throw new CircuitOpenError('Gemini');
+        break;
+      }
+      const breaker = this.breakers[keyIndex];
+
       try {
-        const client = this.getClient();
+        const client = new GoogleGenerativeAI(this.apiKeys[keyIndex]);
         const result = await operation(client);
+        breaker.recordSuccess();
         
         // Success - log if we had to retry
         if (attempt > 0) {
@@ -89,23 +121,42 @@ class GeminiClient {
           error?.message?.includes('quota') ||
           error?.message?.includes('rate limit');
         
+        const isOverloaded =
+          error?.message?.includes('503') ||
+          error?.message?.includes('overloaded');
+
+        if (isRateLimit) {
+          breaker.trip(RATE_LIMIT_COOLDOWN_MS, error);
+        } else {
+          breaker.recordFailure(error);
+        }
+
         if (isRateLimit && attempt < maxRetries - 1) {
           console.warn(`⚠️ Rate limit hit on attempt ${attempt + 1}, trying next key...`);
           // Small delay before retry (important for serverless)
           await new Promise(resolve => setTimeout(resolve, 1000));
           continue;
         }
-        
-        // If not rate limit or last attempt, throw
-        if (attempt === maxRetries - 1) {
-          console.error(`❌ All ${maxRetries} API keys exhausted`);
-          throw new Error(`Gemini API request failed after ${maxRetries} attempts: ${error.message}`);
+
+        if (isOverloaded && attempt < maxRetries - 1) {
+          const waitTime = (attempt + 1) * 2000; // 2s, 4s, ...
+          console.log(`🔄 Gemini overloaded, retrying in ${waitTime / 1000}s...`);
+          await new Promise(resolve => setTimeout(resolve, waitTime));
+          continue;
+        }
+
+        // Other errors move on to the next key while there is one
+        if (attempt < Math.min(maxRetries, this.apiKeys.length) - 1) {
+          continue;
         }
+
+        break;
       }
     }
-    
-    // This shouldn't be reached, but TypeScript needs it
-    throw new Error('Unexpected error in Gemini client');
+
+    const lastError = errors[errors.length - 1];
+    console.error(`❌ Gemini request failed after ${errors.length} attempt(s)`);
+    throw new Error(`Gemini API request failed after ${errors.length} attempts: ${lastError?.message}`);
   }
 
   /**
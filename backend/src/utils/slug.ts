@@ -0,0 +1,12 @@
+/**
+ * Stable keys for recruiter-defined items (pipeline stages, scorecard competencies,
+ * interview rounds, screening questions) derived from their names.
+ */
+
+// "Tech Screen #2" -> "tech_screen_2"
+export const toKey = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
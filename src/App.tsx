@@ -20,6 +20,7 @@ import JobListings from "@/pages/applicant/JobListings";
 import MyApplications from "@/pages/applicant/MyApplications";
 import YourApplications from "@/pages/applicant/YourApplications";
 import VirtualInterview from "@/pages/applicant/VirtualInterview";
+import SelfSchedule from "@/pages/applicant/SelfSchedule";
 
 // Recruiter Pages
 import RecruiterDashboard from "@/pages/recruiter/RecruiterDashboard";
@@ -31,6 +32,9 @@ import InterviewScheduling from "@/pages/recruiter/InterviewScheduling";
 import CandidateComparison from "@/pages/recruiter/CandidateComparison";
 import SelectedCandidates from "@/pages/recruiter/SelectedCandidates";
 import TalentPool from "@/pages/recruiter/TalentPool";
+import Organization from "@/pages/recruiter/Organization";
+import SkillDictionary from "@/pages/recruiter/SkillDictionary";
+import PromptTemplates from "@/pages/recruiter/PromptTemplates";
 
 import NotFound from "./pages/NotFound";
 
@@ -51,6 +55,7 @@ const App = () => (
             <Route path="/auth/signin" element={<SignIn />} />
             <Route path="/auth/callback" element={<AuthCallback />} />
             <Route path="/verify-email/:token" element={<VerifyEmail />} />
+            <Route path="/schedule/:token" element={<SelfSchedule />} />
 
             {/* Recruiter Routes */}
             <Route path="/recruiter" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><RecruiterDashboard /></DashboardLayout></ProtectedRoute>} />
@@ -62,6 +67,9 @@ const App = () => (
             <Route path="/recruiter/compare" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><CandidateComparison /></DashboardLayout></ProtectedRoute>} />
             <Route path="/recruiter/selected" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><SelectedCandidates /></DashboardLayout></ProtectedRoute>} />
             <Route path="/recruiter/talent-pool" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><TalentPool /></DashboardLayout></ProtectedRoute>} />
+            <Route path="/recruiter/organization" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><Organization /></DashboardLayout></ProtectedRoute>} />
+            <Route path="/recruiter/skills" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><SkillDictionary /></DashboardLayout></ProtectedRoute>} />
+            <Route path="/recruiter/prompts" element={<ProtectedRoute allowedRole="recruiter"><DashboardLayout><PromptTemplates /></DashboardLayout></ProtectedRoute>} />
 
             {/* Applicant Routes */}
             <Route path="/applicant" element={<ProtectedRoute allowedRole="applicant"><DashboardLayout><ApplicantDashboard /></DashboardLayout></ProtectedRoute>} />
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { interviewsApi } from '@/lib/api';
+import { CalendarPlus, Copy, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+
+interface FeedUrls {
+  feedUrl: string;
+  webcalUrl: string;
+}
+
+export const CalendarFeedDialog = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [urls, setUrls] = useState<FeedUrls | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFeedUrl = useCallback(async (request: () => ReturnType<typeof interviewsApi.getCalendarFeedUrl>) => {
+    try {
+      setLoading(true);
+      const response = await request();
+      setUrls(response.data || null);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load calendar link',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open && !urls) {
+      loadFeedUrl(() => interviewsApi.getCalendarFeedUrl());
+    }
+  }, [loadFeedUrl, open, urls]);
+
+  const handleCopy = async () => {
+    if (!urls) return;
+    await navigator.clipboard.writeText(urls.feedUrl);
+    toast({ title: 'Copied', description: 'Calendar link copied to clipboard' });
+  };
+
+  const handleReset = async () => {
+    await loadFeedUrl(() => interviewsApi.resetCalendarFeedUrl());
+    toast({ title: 'Link Reset', description: 'The old calendar link no longer works' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Sync Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Subscribe to Your Interviews</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Outlook or Apple Calendar to see your interviews there.
+            Keep it private - anyone with the link can see your schedule.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !urls ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="calendar-feed-url">Calendar Link</Label>
+              <div className="flex gap-2">
+                <Input id="calendar-feed-url" readOnly value={urls.feedUrl} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="ghost" size="sm" onClick={handleReset}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reset Link
+              </Button>
+              <Button asChild size="sm">
+                <a href={urls.webcalUrl}>
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  Open in Calendar App
+                </a>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedDialog;
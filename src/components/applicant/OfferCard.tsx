@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { offersApi, ApplicantOffer, OfferStatus } from '@/lib/api';
+import { Gift, DollarSign, Calendar, Clock, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+
+interface OfferCardProps {
+  offer: ApplicantOffer;
+  onResponded?: () => void;
+}
+
+const STATUS_STYLES: Record<OfferStatus, string> = {
+  draft: 'bg-muted text-muted-foreground',
+  sent: 'bg-blue-100 text-blue-700 border-blue-300 dark:bg-blue-900/30 dark:text-blue-300',
+  accepted: 'bg-green-100 text-green-700 border-green-300 dark:bg-green-900/30 dark:text-green-300',
+  declined: 'bg-red-100 text-red-700 border-red-300 dark:bg-red-900/30 dark:text-red-300',
+  expired: 'bg-orange-100 text-orange-700 border-orange-300 dark:bg-orange-900/30 dark:text-orange-300',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const OfferCard = ({ offer, onResponded }: OfferCardProps) => {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState<'accept' | 'decline' | null>(null);
+  const [showDecline, setShowDecline] = useState(false);
+  const [declineReason, setDeclineReason] = useState('');
+
+  const respond = async (action: 'accept' | 'decline') => {
+    try {
+      setSubmitting(action);
+      const response = action === 'accept'
+        ? await offersApi.accept(offer._id)
+        : await offersApi.decline(offer._id, declineReason || undefined);
+      toast({
+        title: action === 'accept' ? 'Offer accepted' : 'Offer declined',
+        description: response.message,
+      });
+      onResponded?.();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to ${action} offer`,
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <div className="bg-background rounded-lg p-4 border border-green-200 dark:border-green-900/40 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Gift className="w-4 h-4 text-green-600" />
+          Job Offer
+        </p>
+        <Badge variant="outline" className={`capitalize ${STATUS_STYLES[offer.status]}`}>
+          {offer.status === 'sent' ? 'Awaiting your response' : offer.status}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <div className="flex items-center gap-2">
+          <DollarSign className="w-4 h-4 text-success" />
+          <span className="font-medium">{offer.currency} {offer.salary.toLocaleString()}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-primary" />
+          <span>Starts {formatDate(offer.startDate)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-muted-foreground" />
+          <span>
+            {offer.status === 'sent' ? 'Respond by' : 'Expiry'} {formatDate(offer.expiresAt)}
+          </span>
+        </div>
+      </div>
+
+      {offer.notes && (
+        <p className="text-sm text-muted-foreground italic">"{offer.notes}"</p>
+      )}
+
+      {offer.status === 'declined' && offer.declineReason && (
+        <p className="text-sm text-muted-foreground">Your reason: {offer.declineReason}</p>
+      )}
+
+      {offer.status === 'sent' && (
+        <div className="space-y-2 pt-2 border-t">
+          {showDecline && (
+            <Textarea
+              placeholder="Let the hiring team know why (optional)"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              rows={2}
+            />
+          )}
+          <div className="flex flex-wrap gap-2">
+            {!showDecline ? (
+              <>
+                <Button size="sm" onClick={() => respond('accept')} disabled={!!submitting}>
+                  {submitting === 'accept' ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                  )}
+                  Accept Offer
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setShowDecline(true)} disabled={!!submitting}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Decline
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button size="sm" variant="destructive" onClick={() => respond('decline')} disabled={!!submitting}>
+                  {submitting === 'decline' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Confirm Decline
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setShowDecline(false)} disabled={!!submitting}>
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfferCard;
@@ -26,6 +26,9 @@ import {
   UserCheck,
   Sparkles,
   Video,
+  Building2,
+  BookOpen,
+  ScrollText,
 } from 'lucide-react';
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
@@ -43,6 +46,13 @@ const recruiterNavItems = [
   { label: 'Interviews', icon: Calendar, href: '/recruiter/interviews' },
   { label: 'Selected', icon: UserCheck, href: '/recruiter/selected' },
   { label: 'Talent Pool', icon: Sparkles, href: '/recruiter/talent-pool' },
+  { label: 'Organization', icon: Building2, href: '/recruiter/organization' },
+];
+
+// Platform admins also manage settings shared by every organization
+const platformAdminNavItems = [
+  { label: 'Skill Dictionary', icon: BookOpen, href: '/recruiter/skills' },
+  { label: 'AI Prompts', icon: ScrollText, href: '/recruiter/prompts' },
 ];
 
 const applicantNavItems = [
@@ -61,7 +71,9 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [pageKey, setPageKey] = useState(location.pathname);
 
-  const navItems = user?.role === 'recruiter' ? recruiterNavItems : applicantNavItems;
+  const navItems = user?.role === 'recruiter'
+    ? [...recruiterNavItems, ...(user.isPlatformAdmin ? platformAdminNavItems : [])]
+    : applicantNavItems;
   const isRecruiter = user?.role === 'recruiter';
 
   // Apply role-aware theme
@@ -0,0 +1,302 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { recruiterApi, RecruiterAvailability } from '@/lib/api';
+import { CalendarClock, Loader2, Save, Plus, Trash2 } from 'lucide-react';
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const EVERY_DAY = 'every';
+
+export const AvailabilitySettings = () => {
+  const { toast } = useToast();
+  const [availability, setAvailability] = useState<RecruiterAvailability | null>(null);
+  const [newBlockedDate, setNewBlockedDate] = useState({ date: '', reason: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await recruiterApi.getAvailability();
+      setAvailability(response.data?.availability || null);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load availability',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const update = (changes: Partial<RecruiterAvailability>) => {
+    setAvailability((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  // One working range per day is editable here; extra ranges saved through the API are kept
+  const getDayHours = (day: number) => availability?.workingHours.find((hours) => hours.day === day);
+
+  const setDayHours = (day: number, hours: { start: string; end: string } | null) => {
+    if (!availability) return;
+    const others = availability.workingHours.filter((h) => h.day !== day);
+    const existing = availability.workingHours.filter((h) => h.day === day).slice(1);
+    update({
+      workingHours: hours
+        ? [...others, { day, ...hours }, ...existing].sort((a, b) => a.day - b.day)
+        : others,
+    });
+  };
+
+  const updateBreak = (index: number, changes: Partial<RecruiterAvailability['breaks'][number]>) => {
+    if (!availability) return;
+    update({
+      breaks: availability.breaks.map((b, i) => (i === index ? { ...b, ...changes } : b)),
+    });
+  };
+
+  const handleAddBlockedDate = () => {
+    if (!availability || !newBlockedDate.date) return;
+    if (!availability.blockedDates.some((blocked) => blocked.date === newBlockedDate.date)) {
+      update({
+        blockedDates: [...availability.blockedDates, newBlockedDate].sort((a, b) => a.date.localeCompare(b.date)),
+      });
+    }
+    setNewBlockedDate({ date: '', reason: '' });
+  };
+
+  const handleSave = async () => {
+    if (!availability) return;
+    try {
+      setSaving(true);
+      const response = await recruiterApi.updateAvailability(availability);
+      setAvailability(response.data?.availability || availability);
+      toast({ title: 'Success', description: 'Availability updated' });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update availability',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !availability) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Interview Availability
+        </CardTitle>
+        <CardDescription>
+          Interviews can only be booked inside your working hours, outside breaks and blocked days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="availability-timezone">Timezone</Label>
+            <Input
+              id="availability-timezone"
+              placeholder="e.g. Asia/Kolkata"
+              value={availability.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+            />
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => update({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+            >
+              Use this browser's timezone
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label>Slot Interval</Label>
+            <Select
+              value={availability.slotInterval.toString()}
+              onValueChange={(value) => update({ slotInterval: Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="15">Every 15 minutes</SelectItem>
+                <SelectItem value="30">Every 30 minutes</SelectItem>
+                <SelectItem value="60">Every hour</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Working Hours */}
+        <div className="space-y-3">
+          <Label>Working Hours</Label>
+          {DAYS.map((dayName, day) => {
+            const hours = getDayHours(day);
+            return (
+              <div key={dayName} className="flex items-center gap-3">
+                <Switch
+                  checked={!!hours}
+                  onCheckedChange={(checked) => setDayHours(day, checked ? { start: '09:00', end: '18:00' } : null)}
+                />
+                <span className="w-24 text-sm">{dayName}</span>
+                {hours ? (
+                  <>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={hours.start}
+                      onChange={(e) => setDayHours(day, { start: e.target.value, end: hours.end })}
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="w-32"
+                      value={hours.end}
+                      onChange={(e) => setDayHours(day, { start: hours.start, end: e.target.value })}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Unavailable</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Breaks */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Breaks</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ breaks: [...availability.breaks, { start: '13:00', end: '14:00', label: 'Lunch' }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Break
+            </Button>
+          </div>
+          {availability.breaks.length === 0 && (
+            <p className="text-sm text-muted-foreground">No breaks</p>
+          )}
+          {availability.breaks.map((b, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <Select
+                value={b.day === undefined || b.day === null ? EVERY_DAY : b.day.toString()}
+                onValueChange={(value) => updateBreak(index, { day: value === EVERY_DAY ? undefined : Number(value) })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERY_DAY}>Every day</SelectItem>
+                  {DAYS.map((dayName, day) => (
+                    <SelectItem key={dayName} value={day.toString()}>
+                      {dayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="time"
+                className="w-32"
+                value={b.start}
+                onChange={(e) => updateBreak(index, { start: e.target.value })}
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="time"
+                className="w-32"
+                value={b.end}
+                onChange={(e) => updateBreak(index, { end: e.target.value })}
+              />
+              <Input
+                className="flex-1 min-w-[120px]"
+                placeholder="Label"
+                value={b.label || ''}
+                onChange={(e) => updateBreak(index, { label: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ breaks: availability.breaks.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Blocked Days */}
+        <div className="space-y-3">
+          <Label>Blocked Days</Label>
+          {availability.blockedDates.map((blocked) => (
+            <div key={blocked.date} className="flex items-center gap-3 text-sm">
+              <span className="w-28 font-medium">{blocked.date}</span>
+              <span className="flex-1 text-muted-foreground">{blocked.reason}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  update({ blockedDates: availability.blockedDates.filter((d) => d.date !== blocked.date) })
+                }
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="date"
+              className="sm:w-44"
+              value={newBlockedDate.date}
+              onChange={(e) => setNewBlockedDate({ ...newBlockedDate, date: e.target.value })}
+            />
+            <Input
+              placeholder="Reason (optional)"
+              value={newBlockedDate.reason}
+              onChange={(e) => setNewBlockedDate({ ...newBlockedDate, reason: e.target.value })}
+            />
+            <Button variant="outline" onClick={handleAddBlockedDate} disabled={!newBlockedDate.date}>
+              <Plus className="w-4 h-4 mr-1" />
+              Block Day
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Availability
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilitySettings;
@@ -0,0 +1,54 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { EvaluationBatchProgress } from '@/lib/api';
+import { AlertTriangle, CheckCircle2, Loader2, X } from 'lucide-react';
+
+interface BulkEvaluationProgressProps {
+  batch: EvaluationBatchProgress;
+  onDismiss?: () => void;
+}
+
+export function BulkEvaluationProgress({ batch, onDismiss }: BulkEvaluationProgressProps) {
+  const settled = batch.evaluated + batch.failed;
+  const percent = batch.total ? Math.round((settled / batch.total) * 100) : 0;
+  const running = batch.status === 'running';
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 font-medium">
+            {running ? (
+              <Loader2 className="w-4 h-4 animate-spin text-primary" />
+            ) : batch.failed > 0 ? (
+              <AlertTriangle className="w-4 h-4 text-amber-500" />
+            ) : (
+              <CheckCircle2 className="w-4 h-4 text-green-600" />
+            )}
+            {running
+              ? `Evaluating applications... ${settled} of ${batch.total}`
+              : `Evaluation finished: ${batch.evaluated} of ${batch.total} evaluated`}
+            {batch.failed > 0 && <span className="text-red-600">({batch.failed} failed)</span>}
+          </div>
+          {!running && onDismiss && (
+            <Button variant="ghost" size="icon" onClick={onDismiss}>
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+        <Progress value={percent} className="h-2" />
+        {batch.failures.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {batch.failures.map((failure) => (
+              <li key={failure.applicationId} className="text-muted-foreground">
+                <span className="font-medium text-foreground">{failure.applicantName}</span>: {failure.error}
+                {failure.attempts > 1 && ` (after ${failure.attempts} attempts)`}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
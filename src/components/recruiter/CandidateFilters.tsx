@@ -17,8 +17,14 @@ interface Job {
   title: string;
 }
 
+export interface PipelineStageOption {
+  key: string;
+  name: string;
+  status: string;
+}
+
 interface FilterState {
-  status: string[];
+  stage: string[];
   jobId: string;
   scoreRange: [number, number];
   recommendation: string;
@@ -31,20 +37,22 @@ interface CandidateFiltersProps {
   filters: FilterState;
   onChange: (filters: FilterState) => void;
   jobs: Job[];
+  stages: PipelineStageOption[];
   onClearAll: () => void;
   resultsCount?: number;
 }
 
-const STATUS_OPTIONS = [
-  { value: 'pending', label: 'Pending', color: 'bg-gray-500' },
-  { value: 'under_review', label: 'Under Review', color: 'bg-blue-500' },
-  { value: 'reviewing', label: 'Reviewing', color: 'bg-blue-500' },
-  { value: 'selected', label: 'Selected', color: 'bg-green-500' },
-  { value: 'shortlisted', label: 'Shortlisted', color: 'bg-green-500' },
-  { value: 'interview', label: 'Interview', color: 'bg-purple-500' },
-  { value: 'rejected', label: 'Rejected', color: 'bg-red-500' },
-  { value: 'hired', label: 'Hired', color: 'bg-emerald-500' },
-];
+// Stage badges are colored by the status category the stage maps to
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-gray-500',
+  under_review: 'bg-blue-500',
+  reviewing: 'bg-blue-500',
+  selected: 'bg-green-500',
+  shortlisted: 'bg-green-500',
+  interview: 'bg-purple-500',
+  rejected: 'bg-red-500',
+  hired: 'bg-emerald-500',
+};
 
 const INTERVIEW_STATUS_OPTIONS = [
   { value: 'all', label: 'All Candidates' },
@@ -71,18 +79,19 @@ export const CandidateFilters = ({
   filters,
   onChange,
   jobs,
+  stages,
   onClearAll,
   resultsCount,
 }: CandidateFiltersProps) => {
-  const toggleStatus = (status: string) => {
-    const newStatuses = filters.status.includes(status)
-      ? filters.status.filter((s) => s !== status)
-      : [...filters.status, status];
-    onChange({ ...filters, status: newStatuses });
+  const toggleStage = (stage: string) => {
+    const newStages = filters.stage.includes(stage)
+      ? filters.stage.filter((s) => s !== stage)
+      : [...filters.stage, stage];
+    onChange({ ...filters, stage: newStages });
   };
 
   const hasActiveFilters = 
-    filters.status.length > 0 ||
+    filters.stage.length > 0 ||
     filters.jobId !== 'all' ||
     filters.scoreRange[0] > 0 ||
     filters.scoreRange[1] < 100 ||
@@ -133,22 +142,22 @@ export const CandidateFilters = ({
             )}
           </div>
 
-          {/* Quick Status Filters */}
+          {/* Quick Pipeline Stage Filters */}
           <div className="space-y-3">
-            <Label className="text-sm font-medium">Application Status</Label>
+            <Label className="text-sm font-medium">Pipeline Stage</Label>
             <div className="flex flex-wrap gap-2">
-              {STATUS_OPTIONS.map((option) => {
-                const isSelected = filters.status.includes(option.value);
+              {stages.map((option) => {
+                const isSelected = filters.stage.includes(option.key);
                 return (
                   <Badge
-                    key={option.value}
+                    key={option.key}
                     variant={isSelected ? 'default' : 'outline'}
                     className={`cursor-pointer transition-all ${
-                      isSelected ? option.color + ' text-white hover:opacity-90' : 'hover:bg-secondary'
+                      isSelected ? (STATUS_COLORS[option.status] || 'bg-gray-500') + ' text-white hover:opacity-90' : 'hover:bg-secondary'
                     }`}
-                    onClick={() => toggleStatus(option.value)}
+                    onClick={() => toggleStage(option.key)}
                   >
-                    {option.label}
+                    {option.name}
                     {isSelected && <X className="w-3 h-3 ml-1" />}
                   </Badge>
                 );
@@ -266,10 +275,10 @@ export const CandidateFilters = ({
             <div className="pt-4 border-t">
               <div className="flex flex-wrap gap-2 items-center">
                 <span className="text-sm text-muted-foreground">Active filters:</span>
-                {filters.status.length > 0 && (
+                {filters.stage.length > 0 && (
                   <Badge variant="secondary" className="gap-1">
-                    Status: {filters.status.length}
-                    <button onClick={() => onChange({ ...filters, status: [] })}>
+                    Stage: {filters.stage.length}
+                    <button onClick={() => onChange({ ...filters, stage: [] })}>
                       <X className="w-3 h-3" />
                     </button>
                   </Badge>
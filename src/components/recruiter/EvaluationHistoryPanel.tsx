@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { applicationsApi, EvaluationDecision, EvaluationDiff, EvaluationVersion } from '@/lib/api';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+
+const TRIGGER_LABELS: Record<EvaluationVersion['trigger'], string> = {
+  manual: 'Manual evaluation',
+  bulk: 'Bulk evaluation',
+  weights_change: 'Scoring weights changed',
+  application_submitted: 'Application submitted',
+  profile_updated: 'Profile updated',
+};
+
+interface EvaluationHistoryPanelProps {
+  applicationId: string;
+  overallScore?: number; // Reloads the history after a re-evaluation
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaClass = (delta: number) =>
+  delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-muted-foreground';
+
+export function EvaluationHistoryPanel({ applicationId, overallScore }: EvaluationHistoryPanelProps) {
+  const [loading, setLoading] = useState(true);
+  const [evaluations, setEvaluations] = useState<EvaluationVersion[]>([]);
+  const [decisions, setDecisions] = useState<EvaluationDecision[]>([]);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<EvaluationDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await applicationsApi.getEvaluationHistory(applicationId);
+      const versions = response.data?.evaluations || [];
+      setEvaluations(versions);
+      setDecisions(response.data?.decisions || []);
+      // Compare the latest evaluation with the one before it
+      setToVersion(versions[0]?.version ?? null);
+      setFromVersion(versions[1]?.version ?? null);
+    } catch {
+      setEvaluations([]);
+      setDecisions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, overallScore]);
+
+  const loadDiff = useCallback(async (from: number, to: number) => {
+    setDiffLoading(true);
+    try {
+      const response = await applicationsApi.getEvaluationDiff(applicationId, from, to);
+      setDiff(response.data || null);
+    } catch {
+      setDiff(null);
+    } finally {
+      setDiffLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    if (fromVersion && toVersion && fromVersion !== toVersion) {
+      loadDiff(fromVersion, toVersion);
+    } else {
+      setDiff(null);
+    }
+  }, [fromVersion, loadDiff, toVersion]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <Select value={value ? String(value) : undefined} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="w-28">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {evaluations.map((evaluation) => (
+          <SelectItem key={evaluation.version} value={String(evaluation.version)}>
+            v{evaluation.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          <CardTitle>Evaluation History</CardTitle>
+        </div>
+        <CardDescription>
+          {evaluations.length
+            ? `${evaluations.length} evaluation${evaluations.length === 1 ? '' : 's'} - every re-evaluation is kept as a new version`
+            : 'No evaluations have been recorded for this candidate yet.'}
+        </CardDescription>
+      </CardHeader>
+      {evaluations.length > 0 && (
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            {evaluations.map((evaluation) => {
+              const versionDecisions = decisions.filter((d) => d.evaluationVersion === evaluation.version);
+              return (
+                <div key={evaluation._id} className="border rounded-lg p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">v{evaluation.version}</span>
+                      <Badge variant="outline">{TRIGGER_LABELS[evaluation.trigger]}</Badge>
+                      <Badge variant="secondary">
+                        {evaluation.mode === 'ai_blended' ? 'AI + rules' : 'Rule-based'}
+                      </Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(evaluation.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Engine {evaluation.engineVersion} · inputs {evaluation.inputsHash.slice(0, 8)}
+                    {evaluation.promptVersion && ` · prompt ${evaluation.promptVersion}`}
+                    {evaluation.evaluatedBy && ` · by ${evaluation.evaluatedBy.fullName}`}
+                  </p>
+                  {versionDecisions.map((decision, index) => (
+                    <p key={index} className="text-sm">
+                      Decision: <span className="font-medium">{decision.stageName || decision.status}</span>
+                      <span className="text-muted-foreground"> on {new Date(decision.timestamp).toLocaleDateString()}</span>
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          {evaluations.length > 1 && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Compare</span>
+                {versionSelect(fromVersion, setFromVersion)}
+                <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                {versionSelect(toVersion, setToVersion)}
+              </div>
+
+              {diffLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+              ) : diff ? (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <span className="text-2xl font-bold">
+                      {diff.overallScore.from} → {diff.overallScore.to}
+                    </span>
+                    <span className={`font-semibold ${deltaClass(diff.overallScore.delta)}`}>
+                      {formatDelta(diff.overallScore.delta)}
+                    </span>
+                    {diff.recommendation.changed && (
+                      <Badge variant="outline">
+                        {diff.recommendation.from} → {diff.recommendation.to}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <p className="text-xs text-muted-foreground">
+                    {diff.inputsChanged ? 'The profile, job or weights changed between these versions.' : 'Same inputs - the difference comes from the AI assessment.'}
+                    {diff.engineChanged && ' The scoring engine was updated.'}
+                    {diff.promptChanged && ' A different AI prompt version was used.'}
+                  </p>
+
+                  <div className="space-y-1">
+                    {diff.signals
+                      .filter((signal) => signal.delta !== 0)
+                      .map((signal) => (
+                        <div key={signal.key} className="flex justify-between text-sm">
+                          <span>{signal.label}</span>
+                          <span>
+                            {signal.from} → {signal.to}{' '}
+                            <span className={deltaClass(signal.delta)}>({formatDelta(signal.delta)})</span>
+                          </span>
+                        </div>
+                      ))}
+                    {diff.weights.map((weight) => (
+                      <div key={weight.key} className="flex justify-between text-sm text-muted-foreground">
+                        <span>Weight: {weight.key}</span>
+                        <span>{weight.from}% → {weight.to}%</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  {[
+                    { title: 'Strengths', changes: diff.strengths },
+                    { title: 'Gaps', changes: diff.gaps },
+                  ].map(({ title, changes }) =>
+                    changes.added.length + changes.removed.length > 0 ? (
+                      <div key={title} className="space-y-1 text-sm">
+                        <p className="font-medium">{title}</p>
+                        {changes.added.map((item) => (
+                          <p key={`+${item}`} className="text-green-600">+ {item}</p>
+                        ))}
+                        {changes.removed.map((item) => (
+                          <p key={`-${item}`} className="text-red-600">- {item}</p>
+                        ))}
+                      </div>
+                    ) : null
+                  )}
+                </div>
+              ) : null}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { interviewsApi, FeedbackVote, InterviewFeedback, InterviewFeedbackDetails, InterviewerRef, ScorecardCompetency } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { ClipboardList, Loader2, Lock, CheckCircle, Clock } from 'lucide-react';
+import { VOTE_OPTIONS } from '@/lib/votes';
+import { VoteBadge } from './VoteBadge';
+
+type Feedback = InterviewFeedback<InterviewerRef>;
+type Rating = Feedback['ratings'][number];
+
+interface InterviewFeedbackDialogProps {
+  interviewId: string;
+  applicantName: string;
+  jobTitle: string;
+  onSubmitted?: () => void;
+  trigger?: React.ReactNode;
+}
+
+const RATING_LABELS = ['', 'Poor', 'Below bar', 'Meets bar', 'Above bar', 'Exceptional'];
+
+const authorName = (feedback: Feedback) => feedback.interviewerId?.fullName || 'Interviewer';
+
+export function InterviewFeedbackDialog({
+  interviewId,
+  applicantName,
+  jobTitle,
+  onSubmitted,
+  trigger,
+}: InterviewFeedbackDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [template, setTemplate] = useState<ScorecardCompetency[]>([]);
+  const [interviewStatus, setInterviewStatus] = useState('');
+  const [isPanelist, setIsPanelist] = useState(false);
+  const [canSeeOthers, setCanSeeOthers] = useState(false);
+  const [panel, setPanel] = useState<InterviewFeedbackDetails['panel']>([]);
+  const [others, setOthers] = useState<Feedback[]>([]);
+  const [submitted, setSubmitted] = useState<Feedback | null>(null);
+  const [ratings, setRatings] = useState<Record<string, Rating>>({});
+  const [vote, setVote] = useState<FeedbackVote | undefined>();
+  const [comments, setComments] = useState('');
+  const { toast } = useToast();
+
+  const loadFeedback = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await interviewsApi.getFeedback(interviewId);
+      const data = response.data;
+      if (!data) return;
+
+      const mine = data.myFeedback;
+      setTemplate(data.template || []);
+      setInterviewStatus(data.interviewStatus);
+      setIsPanelist(data.isPanelist);
+      setCanSeeOthers(data.canSeeOthers);
+      setPanel(data.panel || []);
+      setOthers(data.feedback || []);
+      setSubmitted(mine?.status === 'submitted' ? mine : null);
+      setRatings(Object.fromEntries((mine?.ratings || []).map((rating) => [rating.competency, rating])));
+      setVote(mine?.vote);
+      setComments(mine?.comments || '');
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load scorecard',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [interviewId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadFeedback();
+    }
+  }, [open, loadFeedback]);
+
+  const setRating = (competency: string, changes: Partial<Rating>) => {
+    setRatings((prev) => ({
+      ...prev,
+      [competency]: { ...prev[competency], competency, ...changes } as Rating,
+    }));
+  };
+
+  const save = async (submit: boolean) => {
+    setSaving(true);
+    try {
+      await interviewsApi.saveFeedback(interviewId, {
+        ratings: Object.values(ratings).filter((rating) => rating.rating),
+        vote,
+        comments,
+        submit,
+      });
+      toast({
+        title: submit ? 'Feedback submitted' : 'Draft saved',
+        description: submit
+          ? "Your scorecard is final. You can now see the rest of the panel's feedback."
+          : 'Only you can see this draft.',
+      });
+      if (submit) {
+        onSubmitted?.();
+        loadFeedback();
+      }
+    } catch (error: any) {
+      toast({
+        title: submit ? 'Failed to submit feedback' : 'Failed to save draft',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderReadOnly = (feedback: Feedback, title: string) => (
+    <div key={feedback._id} className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-sm">{title}</p>
+        <VoteBadge vote={feedback.vote} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {feedback.ratings.map((rating) => (
+          <div key={rating.competency} className="text-sm">
+            <span className="text-muted-foreground">{rating.name || rating.competency}:</span>{' '}
+            <span className="font-semibold">{rating.rating}/5</span>
+            {rating.comment && <p className="text-xs text-muted-foreground">{rating.comment}</p>}
+          </div>
+        ))}
+      </div>
+      {feedback.comments && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{feedback.comments}</p>}
+    </div>
+  );
+
+  const isComplete = template.every((competency) => ratings[competency.key]?.rating) && !!vote;
+  const canEdit = isPanelist && !submitted && interviewStatus !== 'cancelled';
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" variant="outline">
+            <ClipboardList className="w-4 h-4 mr-2" />
+            Scorecard
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            Interview Scorecard
+          </DialogTitle>
+          <DialogDescription>
+            {applicantName} for {jobTitle}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {/* Panel progress */}
+            <div className="flex flex-wrap gap-2">
+              {panel.map((entry) => (
+                <Badge key={entry.interviewerId} variant={entry.status === 'submitted' ? 'default' : 'outline'}>
+                  {entry.status === 'submitted' ? <CheckCircle className="w-3 h-3 mr-1" /> : <Clock className="w-3 h-3 mr-1" />}
+                  {entry.fullName || 'Interviewer'}
+                </Badge>
+              ))}
+            </div>
+
+            {canEdit && (
+              <>
+                {interviewStatus !== 'completed' && (
+                  <p className="text-sm text-muted-foreground">
+                    You can save a draft now and submit once the interview is marked as completed.
+                  </p>
+                )}
+                {template.map((competency) => (
+                  <div key={competency.key} className="space-y-2">
+                    <div>
+                      <Label>{competency.name}</Label>
+                      {competency.description && (
+                        <p className="text-xs text-muted-foreground">{competency.description}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {[1, 2, 3, 4, 5].map((value) => (
+                        <Button
+                          key={value}
+                          type="button"
+                          size="sm"
+                          variant={ratings[competency.key]?.rating === value ? 'default' : 'outline'}
+                          onClick={() => setRating(competency.key, { rating: value })}
+                          title={RATING_LABELS[value]}
+                        >
+                          {value}
+                        </Button>
+                      ))}
+                    </div>
+                    <Input
+                      value={ratings[competency.key]?.comment || ''}
+                      placeholder="Evidence for this rating (optional)"
+                      onChange={(e) => setRating(competency.key, { comment: e.target.value })}
+                      className="text-sm"
+                    />
+                  </div>
+                ))}
+
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label>Overall Recommendation</Label>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {VOTE_OPTIONS.map((option) => (
+                      <Button
+                        key={option.value}
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className={cn(vote === option.value && option.className, vote === option.value && 'border-current')}
+                        onClick={() => setVote(option.value)}
+                      >
+                        {option.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="feedback-comments">Comments</Label>
+                  <Textarea
+                    id="feedback-comments"
+                    value={comments}
+                    onChange={(e) => setComments(e.target.value)}
+                    placeholder="Strengths, concerns and anything the hiring team should know..."
+                    rows={4}
+                  />
+                </div>
+              </>
+            )}
+
+            {submitted && renderReadOnly(submitted, 'Your feedback')}
+
+            {!canEdit && !submitted && !isPanelist && others.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No feedback has been submitted yet.</p>
+            )}
+
+            {/* The rest of the panel's feedback stays hidden until you submit yours */}
+            {isPanelist && !canSeeOthers ? (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <Lock className="w-4 h-4" />
+                Other interviewers' scores are hidden until you submit your own.
+              </p>
+            ) : (
+              others.map((feedback) => renderReadOnly(feedback, authorName(feedback)))
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={saving}>
+            Close
+          </Button>
+          {canEdit && (
+            <>
+              <Button variant="secondary" onClick={() => save(false)} disabled={saving || loading}>
+                Save Draft
+              </Button>
+              <Button
+                onClick={() => save(true)}
+                disabled={saving || loading || !isComplete || interviewStatus !== 'completed'}
+              >
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Submit Feedback
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
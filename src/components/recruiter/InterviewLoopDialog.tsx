@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { applicationsApi, interviewsApi, InterviewLoopProgress, InterviewRoundProgress, InterviewRoundStatus } from '@/lib/api';
+import { CheckCircle, Clock, ListOrdered, Loader2, XCircle, CalendarIcon, MinusCircle } from 'lucide-react';
+import { ScheduleInterviewDialog } from './ScheduleInterviewDialog';
+
+interface InterviewLoopDialogProps {
+  applicationId: string;
+  applicantName: string;
+  jobTitle: string;
+  onChanged?: () => void;
+  trigger?: React.ReactNode;
+}
+
+const STATUS_BADGES: Record<InterviewRoundStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  pending: { label: 'Not scheduled', className: 'bg-gray-100 text-gray-700', icon: <Clock className="w-3 h-3 mr-1" /> },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-100 text-blue-700', icon: <CalendarIcon className="w-3 h-3 mr-1" /> },
+  awaiting_outcome: { label: 'Awaiting decision', className: 'bg-amber-100 text-amber-700', icon: <Clock className="w-3 h-3 mr-1" /> },
+  passed: { label: 'Passed', className: 'bg-green-100 text-green-700', icon: <CheckCircle className="w-3 h-3 mr-1" /> },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700', icon: <XCircle className="w-3 h-3 mr-1" /> },
+  stopped: { label: 'Stopped', className: 'bg-gray-100 text-gray-500', icon: <MinusCircle className="w-3 h-3 mr-1" /> },
+};
+
+export function InterviewLoopDialog({
+  applicationId,
+  applicantName,
+  jobTitle,
+  onChanged,
+  trigger,
+}: InterviewLoopDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<InterviewLoopProgress | null>(null);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const { toast } = useToast();
+
+  const loadProgress = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await applicationsApi.getInterviewLoop(applicationId);
+      setProgress(response.data || null);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load interview loop',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadProgress();
+    }
+  }, [open, loadProgress]);
+
+  const recordOutcome = async (round: InterviewRoundProgress, outcome: 'passed' | 'failed') => {
+    if (!round.interviewId) return;
+    setDeciding(round.key);
+    try {
+      const response = await interviewsApi.recordOutcome(round.interviewId, outcome, note || undefined);
+      toast({
+        title: outcome === 'passed' ? 'Round passed' : 'Round failed',
+        description: response.message,
+      });
+      setNote('');
+      setProgress(response.data?.progress || null);
+      onChanged?.();
+    } catch (error: any) {
+      toast({
+        title: 'Failed to record outcome',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" variant="outline">
+            <ListOrdered className="w-4 h-4 mr-2" />
+            Interview Loop
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-primary" />
+            Interview Loop
+          </DialogTitle>
+          <DialogDescription>
+            {applicantName}'s progress through the {jobTitle} interview rounds
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !progress ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !progress.hasPlan ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            This job has no interview plan. Define one from Job Management to run candidates through ordered rounds.
+          </p>
+        ) : (
+          <div className="space-y-3 py-2">
+            {progress.status === 'failed' && (
+              <p className="text-sm text-red-600">The loop was stopped after a failed round.</p>
+            )}
+            {progress.status === 'passed' && (
+              <p className="text-sm text-green-600">The candidate passed every round.</p>
+            )}
+
+            {progress.rounds.map((round, index) => {
+              const badge = STATUS_BADGES[round.status];
+              const isNext = progress.nextRound?.key === round.key;
+              return (
+                <div key={round.key} className={`border rounded-lg p-3 space-y-2 ${isNext ? 'border-primary' : ''}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="w-6 justify-center">{index + 1}</Badge>
+                      <div>
+                        <p className="font-medium text-sm">{round.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {round.type} · {round.duration} min
+                          {round.scheduledTime && ` · ${new Date(round.scheduledTime).toLocaleString()}`}
+                        </p>
+                      </div>
+                    </div>
+                    <Badge className={badge.className}>
+                      {badge.icon}
+                      {badge.label}
+                    </Badge>
+                  </div>
+
+                  {round.outcomeNote && <p className="text-xs text-muted-foreground">{round.outcomeNote}</p>}
+
+                  {round.status === 'awaiting_outcome' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Decision note (optional)"
+                        className="text-sm"
+                      />
+                      <Button
+                        size="sm"
+                        variant="success"
+                        onClick={() => recordOutcome(round, 'passed')}
+                        disabled={deciding === round.key}
+                      >
+                        Pass
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => recordOutcome(round, 'failed')}
+                        disabled={deciding === round.key}
+                      >
+                        Fail
+                      </Button>
+                    </div>
+                  )}
+
+                  {isNext && (
+                    <ScheduleInterviewDialog
+                      applicationId={applicationId}
+                      applicantName={applicantName}
+                      jobTitle={jobTitle}
+                      round={round}
+                      onScheduled={() => {
+                        loadProgress();
+                        onChanged?.();
+                      }}
+                      trigger={
+                        <Button size="sm">
+                          <CalendarIcon className="w-4 h-4 mr-2" />
+                          Schedule {round.name}
+                        </Button>
+                      }
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown, ListOrdered } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { jobsApi, organizationsApi, InterviewRoundInput } from '@/lib/api';
+
+interface InterviewPlanEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+interface Interviewer {
+  userId: string;
+  fullName: string;
+}
+
+const ROUND_TYPES = ['Technical', 'Behavioral', 'HR', 'Final'];
+
+const DURATIONS = [
+  { value: 30, label: '30 min' },
+  { value: 45, label: '45 min' },
+  { value: 60, label: '1 hour' },
+  { value: 90, label: '1.5 hours' },
+  { value: 120, label: '2 hours' },
+];
+
+export function InterviewPlanEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: InterviewPlanEditorDialogProps) {
+  const [rounds, setRounds] = useState<InterviewRoundInput[]>([]);
+  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [planResponse, members] = await Promise.all([
+        jobsApi.getInterviewPlan(jobId),
+        // Teammates who can be required on a round's panel
+        organizationsApi
+          .getMine()
+          .then((response): Interviewer[] => response.data?.organization?.members || [])
+          .catch(() => [] as Interviewer[]),
+      ]);
+
+      setInterviewers(
+        members.length > 0 ? members : user ? [{ userId: user.id, fullName: user.fullName }] : []
+      );
+      setRounds(
+        (planResponse.data?.rounds || []).map((round) => ({
+          key: round.key,
+          name: round.name,
+          type: round.type,
+          duration: round.duration,
+          interviewerIds: (round.interviewerIds || []).map((interviewer) => interviewer._id),
+        }))
+      );
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load interview plan',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast, user]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadPlan();
+    }
+  }, [open, jobId, loadPlan]);
+
+  const updateRound = (index: number, changes: Partial<InterviewRoundInput>) => {
+    setRounds((prev) => prev.map((round, i) => (i === index ? { ...round, ...changes } : round)));
+  };
+
+  const moveRound = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rounds.length) return;
+    setRounds((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleInterviewer = (index: number, userId: string) => {
+    const current = rounds[index].interviewerIds || [];
+    updateRound(index, {
+      interviewerIds: current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId],
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await jobsApi.updateInterviewPlan(jobId, rounds);
+      toast({
+        title: 'Interview plan saved',
+        description: rounds.length > 0
+          ? `Candidates now go through ${rounds.length} round${rounds.length === 1 ? '' : 's'} in order.`
+          : 'This job no longer has an interview loop.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save interview plan',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="w-5 h-5 text-primary" />
+            Interview Plan
+          </DialogTitle>
+          <DialogDescription>
+            Rounds candidates for {jobTitle} take in order. A failed round ends the loop.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3 py-2">
+            {rounds.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No interview loop yet - interviews for this job are scheduled ad hoc.
+              </p>
+            )}
+            {rounds.map((round, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="w-6 justify-center">{index + 1}</Badge>
+                  <Input
+                    value={round.name}
+                    placeholder="e.g., System design"
+                    onChange={(e) => updateRound(index, { name: e.target.value })}
+                  />
+                  <Select value={round.type} onValueChange={(value) => updateRound(index, { type: value })}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROUND_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={String(round.duration)}
+                    onValueChange={(value) => updateRound(index, { duration: parseInt(value) })}
+                  >
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DURATIONS.map((duration) => (
+                        <SelectItem key={duration.value} value={String(duration.value)}>{duration.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => moveRound(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveRound(index, 1)} disabled={index === rounds.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setRounds((prev) => prev.filter((_, i) => i !== index))}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {interviewers.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Label className="text-xs text-muted-foreground">Required interviewers:</Label>
+                    {interviewers.map((interviewer) => (
+                      <Badge
+                        key={interviewer.userId}
+                        variant={round.interviewerIds?.includes(interviewer.userId) ? 'default' : 'outline'}
+                        className="cursor-pointer"
+                        onClick={() => toggleInterviewer(index, interviewer.userId)}
+                      >
+                        {interviewer.fullName}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRounds((prev) => [...prev, { name: '', type: 'Technical', duration: 60, interviewerIds: [] }])}
+              disabled={rounds.length >= 10}
+            >
+              <Plus className="w-4 h-4" />
+              Add Round
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || loading}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Plan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
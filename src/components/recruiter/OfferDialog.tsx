@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Gift, Send } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { offersApi, OfferSummary } from '@/lib/api';
+
+interface OfferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  applicationId: string;
+  candidateName: string;
+  jobTitle: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  draft?: OfferSummary | null; // Existing draft to edit, if any
+  onSaved?: () => void;
+}
+
+const toDateInput = (date?: string) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+
+export function OfferDialog({
+  open,
+  onOpenChange,
+  applicationId,
+  candidateName,
+  jobTitle,
+  salaryMin,
+  salaryMax,
+  draft,
+  onSaved,
+}: OfferDialogProps) {
+  const [salary, setSalary] = useState('');
+  const [currency, setCurrency] = useState('USD');
+  const [startDate, setStartDate] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState<'draft' | 'send' | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setSalary(draft ? String(draft.salary) : salaryMin ? String(salaryMin) : '');
+      setCurrency(draft?.currency || 'USD');
+      setStartDate(toDateInput(draft?.startDate));
+      setExpiresAt(toDateInput(draft?.expiresAt));
+      setNotes(draft?.notes || '');
+    }
+  }, [open, draft, salaryMin]);
+
+  const salaryBand =
+    salaryMin !== undefined && salaryMax !== undefined
+      ? `${salaryMin.toLocaleString()} - ${salaryMax.toLocaleString()}`
+      : salaryMin !== undefined
+        ? `at least ${salaryMin.toLocaleString()}`
+        : salaryMax !== undefined
+          ? `up to ${salaryMax.toLocaleString()}`
+          : null;
+
+  const save = async (send: boolean) => {
+    setSaving(send ? 'send' : 'draft');
+    try {
+      const terms = {
+        salary: Number(salary),
+        currency,
+        startDate,
+        expiresAt,
+        notes,
+      };
+
+      if (draft) {
+        await offersApi.update(draft.id, terms);
+        if (send) await offersApi.send(draft.id);
+      } else {
+        await offersApi.create({ ...terms, applicationId, send });
+      }
+
+      toast({
+        title: send ? 'Offer sent' : 'Draft saved',
+        description: send
+          ? `${candidateName} has been emailed the offer.`
+          : 'You can review and send the offer later.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save offer',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const isValid = Number(salary) > 0 && startDate && expiresAt;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5 text-primary" />
+            {draft ? 'Edit Offer' : 'Make an Offer'}
+          </DialogTitle>
+          <DialogDescription>
+            Offer for {candidateName} - {jobTitle}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="offer-salary">Salary</Label>
+              <Input
+                id="offer-salary"
+                type="number"
+                min={salaryMin}
+                max={salaryMax}
+                value={salary}
+                onChange={(e) => setSalary(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-currency">Currency</Label>
+              <Input
+                id="offer-currency"
+                value={currency}
+                maxLength={3}
+                onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+              />
+            </div>
+          </div>
+          {salaryBand && (
+            <p className="text-xs text-muted-foreground -mt-2">Job salary band: {salaryBand}</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="offer-start">Start Date</Label>
+              <Input id="offer-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offer-expiry">Respond By</Label>
+              <Input id="offer-expiry" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-notes">Message to Candidate (optional)</Label>
+            <Textarea
+              id="offer-notes"
+              rows={3}
+              value={notes}
+              placeholder="e.g., We'd love to have you on the team!"
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => save(false)} disabled={!!saving || !isValid}>
+            {saving === 'draft' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Draft
+          </Button>
+          <Button onClick={() => save(true)} disabled={!!saving || !isValid}>
+            {saving === 'send' ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            Send Offer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown, GitBranch } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { jobsApi } from '@/lib/api';
+
+interface PipelineStage {
+  key?: string;
+  name: string;
+  status: string;
+  allowedTransitions: string[];
+}
+
+interface PipelineEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+// Status categories a stage can map to - drives emails, talent pooling and hire counts
+const STATUS_CATEGORIES = [
+  { value: 'pending', label: 'Applied' },
+  { value: 'under_review', label: 'Under Review' },
+  { value: 'shortlisted', label: 'Shortlisted' },
+  { value: 'interview', label: 'Interview' },
+  { value: 'selected', label: 'Selected / Offer' },
+  { value: 'hired', label: 'Hired' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const stageKeyOf = (stage: PipelineStage) =>
+  stage.key || stage.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export function PipelineEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: PipelineEditorDialogProps) {
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadPipeline = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await jobsApi.getPipeline(jobId);
+      if (response.data) {
+        setIsDefault(response.data.isDefault);
+        setStages(
+          (response.data.stages || []).map((stage: PipelineStage) => ({
+            key: stage.key,
+            name: stage.name,
+            status: stage.status,
+            allowedTransitions: stage.allowedTransitions || [],
+          }))
+        );
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load pipeline',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadPipeline();
+    }
+  }, [open, jobId, loadPipeline]);
+
+  const updateStage = (index: number, changes: Partial<PipelineStage>) => {
+    setStages((prev) => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    setStages((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeStage = (index: number) => {
+    const removedKey = stageKeyOf(stages[index]);
+    setStages((prev) =>
+      prev
+        .filter((_, i) => i !== index)
+        .map((stage) => ({
+          ...stage,
+          allowedTransitions: stage.allowedTransitions.filter((key) => key !== removedKey),
+        }))
+    );
+  };
+
+  const toggleTransition = (index: number, targetKey: string) => {
+    const stage = stages[index];
+    const allowedTransitions = stage.allowedTransitions.includes(targetKey)
+      ? stage.allowedTransitions.filter((key) => key !== targetKey)
+      : [...stage.allowedTransitions, targetKey];
+    updateStage(index, { allowedTransitions });
+  };
+
+  const save = async (useDefault = false) => {
+    setSaving(true);
+    try {
+      await jobsApi.updatePipeline(jobId, useDefault ? { useDefault: true } : { stages });
+      toast({
+        title: 'Pipeline saved',
+        description: useDefault
+          ? 'This job now uses the default hiring pipeline.'
+          : 'Filters and dashboard stats now follow this pipeline.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save pipeline',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5 text-primary" />
+            Hiring Pipeline
+          </DialogTitle>
+          <DialogDescription>
+            Define the ordered stages for {jobTitle}.
+            {isDefault && ' This job currently uses the default pipeline.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3 py-2">
+            {stages.map((stage, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="w-6 justify-center">{index + 1}</Badge>
+                  <Input
+                    value={stage.name}
+                    placeholder="e.g., Phone screen"
+                    onChange={(e) => updateStage(index, { name: e.target.value })}
+                  />
+                  <Select value={stage.status} onValueChange={(value) => updateStage(index, { status: value })}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATUS_CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => moveStage(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => removeStage(index)} disabled={stages.length === 1}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">Can move to:</Label>
+                  {stages
+                    .filter((_, i) => i !== index)
+                    .map((target) => {
+                      const targetKey = stageKeyOf(target);
+                      const isAllowed = stage.allowedTransitions.includes(targetKey);
+                      return (
+                        <Badge
+                          key={targetKey}
+                          variant={isAllowed ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => toggleTransition(index, targetKey)}
+                        >
+                          {target.name || 'Untitled'}
+                        </Badge>
+                      );
+                    })}
+                  {stage.allowedTransitions.length === 0 && (
+                    <span className="text-xs text-muted-foreground">any later stage or rejection</span>
+                  )}
+                </div>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setStages((prev) => [...prev, { name: '', status: 'under_review', allowedTransitions: [] }])}
+            >
+              <Plus className="w-4 h-4" />
+              Add Stage
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {!isDefault && (
+            <Button variant="ghost" onClick={() => save(true)} disabled={saving || loading}>
+              Reset to Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={() => save()} disabled={saving || loading || stages.length === 0}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Pipeline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,7 +8,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { interviewsApi } from '@/lib/api';
+import { interviewsApi, TimeSlot } from '@/lib/api';
+import { toDateKey } from '@/lib/utils';
 import { Calendar as CalendarIcon, Clock, Video, CheckCircle, Loader2 } from 'lucide-react';
 
 interface RescheduleInterviewDialogProps {
@@ -39,7 +40,8 @@ const RescheduleInterviewDialog = ({
   const [open, setOpen] = useState(false);
   const [date, setDate] = useState<Date | undefined>(new Date(currentScheduledTime));
   const [selectedSlot, setSelectedSlot] = useState<string>('');
-  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([]);
+  const [timezone, setTimezone] = useState('');
   const [duration, setDuration] = useState(currentDuration);
   const [type, setType] = useState(currentType);
   const [meetingLink, setMeetingLink] = useState(currentMeetingLink);
@@ -64,10 +66,7 @@ const RescheduleInterviewDialog = ({
       setNotes(currentNotes || '');
       
       // Set selected slot to current time
-      const currentTime = new Date(currentScheduledTime);
-      const hours = currentTime.getHours();
-      const minutes = currentTime.getMinutes();
-      setSelectedSlot(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`);
+      setSelectedSlot(new Date(currentScheduledTime).toISOString());
     }
   }, [open, currentScheduledTime, currentDuration, currentType, currentMeetingLink, currentNotes]);
 
@@ -76,12 +75,13 @@ const RescheduleInterviewDialog = ({
 
     try {
       setIsLoadingSlots(true);
-      const dateString = date.toISOString().split('T')[0];
-      const response = await interviewsApi.getAvailability(dateString, duration);
+      // The interview being moved should not block its own slot
+      const response = await interviewsApi.getAvailability(toDateKey(date), duration, { interviewId });
       
-      const data = response.data as { availableSlots: string[] };
+      const data = response.data;
       if (data?.availableSlots) {
         setAvailableSlots(data.availableSlots);
+        setTimezone(data.timezone || '');
       }
     } catch (error: any) {
       toast({
@@ -117,12 +117,8 @@ const RescheduleInterviewDialog = ({
     try {
       setIsSubmitting(true);
 
-      const [hours, minutes] = selectedSlot.split(':').map(Number);
-      const scheduledTime = new Date(date);
-      scheduledTime.setHours(hours, minutes, 0, 0);
-
       const updateData = {
-        scheduledTime: scheduledTime.toISOString(),
+        scheduledTime: selectedSlot,
         duration,
         type,
         meetingLink: meetingLink || undefined,
@@ -164,9 +160,7 @@ const RescheduleInterviewDialog = ({
   const formatSelectedDateTime = () => {
     if (!date || !selectedSlot) return 'Not selected';
     
-    const [hours, minutes] = selectedSlot.split(':').map(Number);
-    const dateTime = new Date(date);
-    dateTime.setHours(hours, minutes);
+    const dateTime = new Date(selectedSlot);
     
     return dateTime.toLocaleDateString('en-US', {
       weekday: 'long',
@@ -226,6 +220,9 @@ const RescheduleInterviewDialog = ({
             {/* Time Slots */}
             <div className="space-y-2">
               <Label>Available Time Slots</Label>
+              {timezone && (
+                <p className="text-xs text-muted-foreground">Times shown in {timezone}</p>
+              )}
               {isLoadingSlots ? (
                 <div className="flex items-center justify-center h-64 border rounded-md">
                   <Loader2 className="w-6 h-6 animate-spin text-primary" />
@@ -240,16 +237,16 @@ const RescheduleInterviewDialog = ({
                     <div className="grid grid-cols-3 gap-2">
                       {availableSlots.map((slot) => (
                         <Button
-                          key={slot}
-                          variant={selectedSlot === slot ? 'default' : 'outline'}
+                          key={slot.startTime}
+                          variant={selectedSlot === slot.startTime ? 'default' : 'outline'}
                           size="sm"
-                          onClick={() => setSelectedSlot(slot)}
+                          onClick={() => setSelectedSlot(slot.startTime)}
                           className="w-full"
                         >
-                          {selectedSlot === slot && (
+                          {selectedSlot === slot.startTime && (
                             <CheckCircle className="w-3 h-3 mr-1" />
                           )}
-                          {slot}
+                          {slot.displayTime.split(' - ')[0]}
                         </Button>
                       ))}
                     </div>
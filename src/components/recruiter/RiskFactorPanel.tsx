@@ -12,7 +12,7 @@ import { cn } from '@/lib/utils';
 interface RiskFactor {
   type: 'warning' | 'concern' | 'blocker';
   message: string;
-  category: 'skills' | 'experience' | 'activity' | 'profile';
+  category: 'skills' | 'experience' | 'activity' | 'profile' | 'integrity';
 }
 
 interface RiskFactorPanelProps {
@@ -79,6 +79,7 @@ export function RiskFactorPanel({ riskFactors, className }: RiskFactorPanelProps
       experience: 'Experience Level',
       activity: 'Code Activity',
       profile: 'Profile Completeness',
+      integrity: 'Content Integrity',
     };
     return labels[category] || category;
   };
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -20,9 +20,11 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
-import { interviewsApi } from '@/lib/api';
+import { interviewsApi, organizationsApi, InterviewRoundInput, TimeSlot } from '@/lib/api';
+import { toDateKey } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar as CalendarIcon, Clock, Loader2, Video, CheckCircle } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, Loader2, Video, CheckCircle, Users } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface ScheduleInterviewDialogProps {
@@ -31,12 +33,14 @@ interface ScheduleInterviewDialogProps {
   jobTitle: string;
   onScheduled: () => void;
   trigger?: React.ReactNode;
+  round?: InterviewRoundInput & { key: string }; // Round of the job's interview loop to schedule
 }
 
-interface TimeSlot {
-  startTime: string;
-  endTime: string;
-  displayTime: string;
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+interface Teammate {
+  userId: string;
+  fullName: string;
 }
 
 export const ScheduleInterviewDialog = ({
@@ -45,6 +49,7 @@ export const ScheduleInterviewDialog = ({
   jobTitle,
   onScheduled,
   trigger,
+  round,
 }: ScheduleInterviewDialogProps) => {
   const [open, setOpen] = useState(false);
   const [date, setDate] = useState<Date>();
@@ -56,26 +61,56 @@ export const ScheduleInterviewDialog = ({
   const [notes, setNotes] = useState('');
   const [isLoadingSlots, setIsLoadingSlots] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [teammates, setTeammates] = useState<Teammate[]>([]);
+  const [panel, setPanel] = useState<string[]>([]);
+  const [timezone, setTimezone] = useState('');
+  const { user } = useAuth();
   const { toast } = useToast();
 
+  // Other members of the recruiter's organization who can join the interview panel
+  const loadTeammates = useCallback(async () => {
+    try {
+      const response = await organizationsApi.getMine();
+      const members: Teammate[] = response.data?.organization?.members || [];
+      setTeammates(members.filter((member) => member.userId !== user?.id));
+    } catch {
+      setTeammates([]);
+    }
+  }, [user?.id]);
+
   useEffect(() => {
-    if (date) {
-      loadAvailableSlots();
+    if (open) {
+      loadTeammates();
     }
-  }, [date, duration]);
+  }, [open, loadTeammates]);
 
-  const loadAvailableSlots = async () => {
+  // Pre-fill the round's length, type and required interviewers when the dialog opens
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen && round) {
+      setDuration(String(round.duration));
+      setType(round.type);
+      setPanel((round.interviewerIds || []).filter((id) => id !== user?.id));
+    }
+    setOpen(nextOpen);
+  };
+
+  const requiredInterviewers = round?.interviewerIds || [];
+
+  const interviewerIds = useMemo(() => (user ? [user.id, ...panel] : panel), [user, panel]);
+
+  const loadAvailableSlots = useCallback(async () => {
     if (!date) return;
     
     try {
       setIsLoadingSlots(true);
-      const response = await interviewsApi.getAvailability(
-        date.toISOString().split('T')[0],
-        parseInt(duration)
-      );
+      const response = await interviewsApi.getAvailability(toDateKey(date), parseInt(duration), {
+        panelistIds: interviewerIds,
+        applicationId,
+      });
       
       if (response.data?.availableSlots) {
         setAvailableSlots(response.data.availableSlots);
+        setTimezone(response.data.timezone || '');
         setSelectedSlot(''); // Reset selection when slots change
       }
     } catch (error: any) {
@@ -87,6 +122,18 @@ export const ScheduleInterviewDialog = ({
     } finally {
       setIsLoadingSlots(false);
     }
+  }, [date, duration, interviewerIds, applicationId, toast]);
+
+  useEffect(() => {
+    if (date) {
+      loadAvailableSlots();
+    }
+  }, [date, loadAvailableSlots]);
+
+  const togglePanelist = (userId: string) => {
+    setPanel((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
   };
 
   const handleSchedule = async () => {
@@ -104,10 +151,12 @@ export const ScheduleInterviewDialog = ({
       await interviewsApi.schedule({
         applicationId,
         scheduledTime: selectedSlot,
+        interviewerIds,
         duration: parseInt(duration),
         meetingLink: meetingLink || undefined,
         type,
         notes: notes || undefined,
+        roundKey: round?.key,
       });
 
       toast({
@@ -137,10 +186,11 @@ export const ScheduleInterviewDialog = ({
     setType('Technical');
     setMeetingLink('');
     setNotes('');
+    setPanel([]);
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {trigger || (
           <Button size="sm">
@@ -151,9 +201,9 @@ export const ScheduleInterviewDialog = ({
       </DialogTrigger>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Schedule Interview</DialogTitle>
+          <DialogTitle>{round ? `Schedule ${round.name}` : 'Schedule Interview'}</DialogTitle>
           <DialogDescription>
-            Schedule an interview with {applicantName} for {jobTitle}
+            Schedule {round ? `the ${round.name} round` : 'an interview'} with {applicantName} for {jobTitle}
           </DialogDescription>
         </DialogHeader>
 
@@ -171,10 +221,40 @@ export const ScheduleInterviewDialog = ({
                 <SelectItem value="60">1 hour</SelectItem>
                 <SelectItem value="90">1.5 hours</SelectItem>
                 <SelectItem value="120">2 hours</SelectItem>
+                {round && !DURATION_OPTIONS.includes(round.duration) && (
+                  <SelectItem value={String(round.duration)}>{round.duration} minutes</SelectItem>
+                )}
               </SelectContent>
             </Select>
           </div>
 
+          {/* Interview Panel */}
+          {teammates.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Interview Panel
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Only times when everyone on the panel is free are shown
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="default">{user?.fullName || 'You'} (you)</Badge>
+                {teammates.map((teammate) => (
+                  <Badge
+                    key={teammate.userId}
+                    variant={panel.includes(teammate.userId) ? 'default' : 'outline'}
+                    className={requiredInterviewers.includes(teammate.userId) ? '' : 'cursor-pointer'}
+                    onClick={() => !requiredInterviewers.includes(teammate.userId) && togglePanelist(teammate.userId)}
+                  >
+                    {teammate.fullName}
+                    {requiredInterviewers.includes(teammate.userId) && ' (required)'}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Date Selection */}
           <div className="space-y-2">
             <Label>Select Date</Label>
@@ -191,6 +271,9 @@ export const ScheduleInterviewDialog = ({
           {date && (
             <div className="space-y-2">
               <Label>Available Time Slots</Label>
+              {timezone && (
+                <p className="text-xs text-muted-foreground">Times shown in {timezone}</p>
+              )}
               {isLoadingSlots ? (
                 <div className="flex items-center justify-center py-8">
                   <Loader2 className="w-6 h-6 animate-spin text-primary" />
@@ -276,6 +359,13 @@ export const ScheduleInterviewDialog = ({
                   {availableSlots.find((s) => s.startTime === selectedSlot)?.displayTime}
                 </p>
                 <p>• Duration: {duration} minutes</p>
+                {panel.length > 0 && (
+                  <p>
+                    • Panel: {[user?.fullName || 'You', ...teammates
+                      .filter((teammate) => panel.includes(teammate.userId))
+                      .map((teammate) => teammate.fullName)].join(', ')}
+                  </p>
+                )}
                 <p>• Type: {type}</p>
               </div>
             </div>
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { applicationsApi, ScoreExplanation, SignalContribution, SignalEvidence } from '@/lib/api';
+import { CheckCircle2, Info, Loader2, Scale, XCircle } from 'lucide-react';
+
+interface ScoreExplanationPanelProps {
+  applicationId: string;
+  overallScore?: number; // Reloads the explanation after a re-evaluation
+}
+
+export function ScoreExplanationPanel({ applicationId, overallScore }: ScoreExplanationPanelProps) {
+  const [loading, setLoading] = useState(true);
+  const [explanation, setExplanation] = useState<ScoreExplanation | null>(null);
+  const [error, setError] = useState('');
+
+  const loadExplanation = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await applicationsApi.getScoreExplanation(applicationId);
+      setExplanation(response.data || null);
+    } catch (error: any) {
+      setExplanation(null);
+      setError(error.message || 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    loadExplanation();
+  }, [loadExplanation, overallScore]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!explanation) {
+    return (
+      <Card>
+        <CardContent className="text-sm text-muted-foreground text-center py-8">
+          {error || 'No score explanation is available for this candidate yet.'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const blended = typeof explanation.aiScore === 'number' && explanation.aiBlend > 0;
+  const aiPercent = Math.round(explanation.aiBlend * 100);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Scale className="w-5 h-5 text-primary" />
+              <CardTitle>Why is this candidate {explanation.overallScore}?</CardTitle>
+            </div>
+            {explanation.weightProfile && (
+              <Badge variant="outline">
+                {explanation.weightProfile.source === 'job'
+                  ? `Custom weights v${explanation.weightProfile.version}`
+                  : `${explanation.weightProfile.category} defaults`}
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            {blended
+              ? `${aiPercent}% AI assessment (${explanation.aiScore}) + ${100 - aiPercent}% rule-based score (${explanation.ruleBasedScore})`
+              : `Rule-based score of ${explanation.ruleBasedScore}, the weighted sum of the signals below`}
+          </CardDescription>
+        </CardHeader>
+        {explanation.fromCurrentProfile && (
+          <CardContent>
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Info className="w-4 h-4" />
+              Evaluated before explanations were stored - evidence reflects the candidate's current profile.
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {explanation.contributions.map((item) => (
+        <Card key={item.signal} className={item.weight === 0 ? 'opacity-60' : undefined}>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">{item.label}</CardTitle>
+              <span className="text-sm font-semibold">+{item.contribution.toFixed(1)} pts</span>
+            </div>
+            <CardDescription>
+              Scored {item.score}/100 × {item.weight}% weight · {item.summary}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Progress value={item.score} className="h-2" />
+            {item.evidence.length > 0 && (
+              <ul className="space-y-1.5">
+                {item.evidence.map((evidence, index) => (
+                  <li key={`${evidence.ref || evidence.label}-${index}`} className="flex items-start gap-2 text-sm">
+                    {evidence.counted ? (
+                      <CheckCircle2 className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+                    )}
+                    <span>
+                      <span className="font-medium">{evidence.label}</span>
+                      {evidence.detail && <span className="text-muted-foreground"> - {evidence.detail}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown, ClipboardList } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { jobsApi, ScorecardCompetencyInput } from '@/lib/api';
+
+interface ScorecardEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+export function ScorecardEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: ScorecardEditorDialogProps) {
+  const [competencies, setCompetencies] = useState<ScorecardCompetencyInput[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadScorecard = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await jobsApi.getScorecard(jobId);
+      if (response.data) {
+        setIsDefault(response.data.isDefault);
+        setCompetencies(response.data.competencies || []);
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load scorecard',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadScorecard();
+    }
+  }, [open, jobId, loadScorecard]);
+
+  const updateCompetency = (index: number, changes: Partial<ScorecardCompetencyInput>) => {
+    setCompetencies((prev) => prev.map((competency, i) => (i === index ? { ...competency, ...changes } : competency)));
+  };
+
+  const moveCompetency = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= competencies.length) return;
+    setCompetencies((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const save = async (useDefault = false) => {
+    setSaving(true);
+    try {
+      await jobsApi.updateScorecard(jobId, useDefault ? { useDefault: true } : { competencies });
+      toast({
+        title: 'Scorecard saved',
+        description: useDefault
+          ? 'This job now uses the default interview scorecard.'
+          : 'Interviewers will rate candidates on these competencies.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save scorecard',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            Interview Scorecard
+          </DialogTitle>
+          <DialogDescription>
+            Competencies interviewers rate from 1 to 5 for {jobTitle}, alongside a hire / no-hire vote.
+            {isDefault && ' This job currently uses the default scorecard.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3 py-2">
+            {competencies.map((competency, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="w-6 justify-center">{index + 1}</Badge>
+                  <Input
+                    value={competency.name}
+                    placeholder="e.g., System Design"
+                    onChange={(e) => updateCompetency(index, { name: e.target.value })}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => moveCompetency(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveCompetency(index, 1)} disabled={index === competencies.length - 1}>
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCompetencies((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={competencies.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Input
+                  value={competency.description || ''}
+                  placeholder="What should interviewers look for? (optional)"
+                  onChange={(e) => updateCompetency(index, { description: e.target.value })}
+                  className="text-sm"
+                />
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCompetencies((prev) => [...prev, { name: '', description: '' }])}
+              disabled={competencies.length >= 12}
+            >
+              <Plus className="w-4 h-4" />
+              Add Competency
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {!isDefault && (
+            <Button variant="ghost" onClick={() => save(true)} disabled={saving || loading}>
+              Reset to Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={() => save()} disabled={saving || loading || competencies.length === 0}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Scorecard
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
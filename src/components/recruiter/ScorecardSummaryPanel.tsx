@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { applicationsApi, InterviewFeedback, InterviewerRef, ScorecardSummary } from '@/lib/api';
+import { ClipboardList, Loader2, Lock, Star } from 'lucide-react';
+import { VOTE_OPTIONS } from '@/lib/votes';
+import { VoteBadge } from './VoteBadge';
+
+interface ScorecardSummaryPanelProps {
+  applicationId: string;
+}
+
+export function ScorecardSummaryPanel({ applicationId }: ScorecardSummaryPanelProps) {
+  const [loading, setLoading] = useState(true);
+  const [summary, setSummary] = useState<ScorecardSummary | null>(null);
+  const [feedback, setFeedback] = useState<InterviewFeedback<InterviewerRef>[]>([]);
+  const [hiddenCount, setHiddenCount] = useState(0);
+  const { toast } = useToast();
+
+  const loadScorecards = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await applicationsApi.getScorecards(applicationId);
+      setSummary(response.data?.summary || null);
+      setFeedback(response.data?.feedback || []);
+      setHiddenCount(response.data?.hiddenInterviewIds?.length || 0);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load scorecards',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId, toast]);
+
+  useEffect(() => {
+    loadScorecards();
+  }, [loadScorecards]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <ClipboardList className="w-5 h-5 text-primary" />
+              <CardTitle>Interview Scorecards</CardTitle>
+            </div>
+            {summary && <VoteBadge vote={summary.recommendation} />}
+          </div>
+          <CardDescription>
+            {summary
+              ? `${summary.submittedCount} submitted${summary.pendingCount ? `, ${summary.pendingCount} still pending` : ''}`
+              : 'Structured feedback from the interview panel'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {hiddenCount > 0 && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Lock className="w-4 h-4" />
+              Submit your own scorecard to see the panel's feedback.
+            </p>
+          )}
+
+          {!summary || summary.submittedCount === 0 ? (
+            hiddenCount === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No scorecards have been submitted for this candidate yet.
+              </p>
+            )
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <Star className="w-6 h-6 text-amber-500" />
+                <span className="text-3xl font-bold">{summary.averageRating.toFixed(1)}</span>
+                <span className="text-muted-foreground">/ 5 average rating</span>
+              </div>
+
+              {/* Per-competency averages */}
+              <div className="space-y-3">
+                {summary.competencies.map((competency) => (
+                  <div key={competency.key} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>{competency.name}</span>
+                      <span className="font-medium">{competency.averageRating.toFixed(1)}</span>
+                    </div>
+                    <Progress value={(competency.averageRating / 5) * 100} className="h-2" />
+                  </div>
+                ))}
+              </div>
+
+              {/* Vote tally */}
+              <div className="flex flex-wrap gap-2">
+                {VOTE_OPTIONS.map((option) => (
+                  <Badge key={option.value} variant="outline">
+                    {option.label}: {summary.votes[option.value] || 0}
+                  </Badge>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {feedback.map((entry) => (
+        <Card key={entry._id}>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-base">{entry.interviewerId?.fullName || 'Interviewer'}</CardTitle>
+              <VoteBadge vote={entry.vote} />
+            </div>
+            <CardDescription>
+              Submitted {new Date(entry.submittedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {entry.ratings.map((rating) => (
+                <div key={rating.competency} className="text-sm">
+                  <span className="text-muted-foreground">{rating.name}:</span>{' '}
+                  <span className="font-semibold">{rating.rating}/5</span>
+                  {rating.comment && <p className="text-xs text-muted-foreground">{rating.comment}</p>}
+                </div>
+              ))}
+            </div>
+            {entry.comments && <p className="text-sm whitespace-pre-wrap">{entry.comments}</p>}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Loader2, SlidersHorizontal } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { jobsApi, ScoringWeights } from '@/lib/api';
+
+interface ScoringWeightsEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+const SIGNALS: { key: keyof ScoringWeights; label: string; description: string }[] = [
+  { key: 'skills', label: 'Skill Match', description: 'Required skills found on the profile' },
+  { key: 'experience', label: 'Experience', description: 'Years and relevance of work history' },
+  { key: 'projects', label: 'Projects', description: 'Projects using the required skills' },
+  { key: 'github', label: 'GitHub Activity', description: 'Public repositories and contributions' },
+  { key: 'leetcode', label: 'LeetCode', description: 'Coding challenge performance' },
+  { key: 'education', label: 'Education', description: 'Degrees and certifications' },
+  { key: 'profile', label: 'Profile Completeness', description: 'How complete the candidate profile is' },
+  { key: 'aiReadiness', label: 'AI Interview Readiness', description: 'Score from the practice AI interview' },
+];
+
+export function ScoringWeightsEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: ScoringWeightsEditorDialogProps) {
+  const [weights, setWeights] = useState<ScoringWeights | null>(null);
+  const [defaults, setDefaults] = useState<ScoringWeights | null>(null);
+  const [isDefault, setIsDefault] = useState(true);
+  const [category, setCategory] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadWeights = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await jobsApi.getScoringWeights(jobId);
+      if (response.data) {
+        setWeights(response.data.weights);
+        setDefaults(response.data.defaults);
+        setIsDefault(response.data.source === 'category');
+        setCategory(response.data.category);
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load scoring weights',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadWeights();
+    }
+  }, [open, jobId, loadWeights]);
+
+  const setWeight = (key: keyof ScoringWeights, value: number) => {
+    setWeights((prev) => (prev ? { ...prev, [key]: Math.max(0, Math.min(100, Math.round(value) || 0)) } : prev));
+  };
+
+  const total = weights ? SIGNALS.reduce((sum, signal) => sum + (weights[signal.key] || 0), 0) : 0;
+
+  const save = async (useDefault = false) => {
+    setSaving(true);
+    try {
+      const response = await jobsApi.updateScoringWeights(jobId, useDefault ? null : weights);
+      toast({
+        title: 'Scoring weights saved',
+        description: response.message || 'Applicants are being re-ranked with the new weights.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save scoring weights',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-primary" />
+            Scoring Weights
+          </DialogTitle>
+          <DialogDescription>
+            How much each signal counts towards candidate scores for {jobTitle}. Saving re-ranks existing applicants.
+            {isDefault && category && ` This job currently uses the ${category} defaults.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !weights ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            {SIGNALS.map((signal) => (
+              <div key={signal.key} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>{signal.label}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {signal.description}
+                      {defaults && ` · default ${defaults[signal.key]}%`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={weights[signal.key]}
+                      onChange={(e) => setWeight(signal.key, Number(e.target.value))}
+                      className="w-20 text-right"
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                  </div>
+                </div>
+                <Slider
+                  value={[weights[signal.key]]}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setWeight(signal.key, value)}
+                />
+              </div>
+            ))}
+
+            <p className={`text-sm font-medium ${total === 100 ? 'text-green-600' : 'text-red-600'}`}>
+              Total: {total}% {total !== 100 && '(must add up to 100%)'}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {!isDefault && (
+            <Button variant="ghost" onClick={() => save(true)} disabled={saving || loading}>
+              Reset to Default
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={() => save()} disabled={saving || loading || total !== 100}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save & Re-rank
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
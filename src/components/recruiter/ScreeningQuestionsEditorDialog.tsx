@@ -0,0 +1,381 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2, ArrowUp, ArrowDown, ListChecks } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { jobsApi, KnockoutRejectionTemplate, ScreeningQuestionInput, ScreeningQuestionType } from '@/lib/api';
+
+interface ScreeningQuestionsEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+const QUESTION_TYPES: { value: ScreeningQuestionType; label: string }[] = [
+  { value: 'yes_no', label: 'Yes / No' },
+  { value: 'numeric', label: 'Number' },
+  { value: 'single_choice', label: 'Single choice' },
+  { value: 'text', label: 'Free text' },
+];
+
+const EMPTY_TEMPLATE: KnockoutRejectionTemplate = {
+  statusMessage: '',
+  reasons: [],
+  improvementAreas: [],
+  encouragement: '',
+};
+
+// Lists are edited one item per line
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (value: string) => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+export function ScreeningQuestionsEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: ScreeningQuestionsEditorDialogProps) {
+  const [questions, setQuestions] = useState<ScreeningQuestionInput[]>([]);
+  const [knockoutAction, setKnockoutAction] = useState<'flag' | 'reject'>('flag');
+  const [template, setTemplate] = useState<KnockoutRejectionTemplate>(EMPTY_TEMPLATE);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadQuestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await jobsApi.getScreeningQuestions(jobId);
+      setQuestions(response.data?.questions || []);
+      setKnockoutAction(response.data?.knockoutAction || 'flag');
+      setTemplate(response.data?.rejectionTemplate || EMPTY_TEMPLATE);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load screening questions',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadQuestions();
+    }
+  }, [open, jobId, loadQuestions]);
+
+  const updateQuestion = (index: number, changes: Partial<ScreeningQuestionInput>) => {
+    setQuestions((prev) => prev.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    setQuestions((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const toggleAcceptedOption = (index: number, option: string) => {
+    const current = questions[index].acceptedOptions || [];
+    updateQuestion(index, {
+      acceptedOptions: current.includes(option) ? current.filter((o) => o !== option) : [...current, option],
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await jobsApi.updateScreeningQuestions(jobId, {
+        questions,
+        knockoutAction,
+        rejectionTemplate: knockoutAction === 'reject' ? template : null,
+      });
+      toast({
+        title: 'Screening questions saved',
+        description: questions.length > 0
+          ? `Applicants now answer ${questions.length} question${questions.length === 1 ? '' : 's'} when applying.`
+          : 'This job no longer has screening questions.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save screening questions',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderKnockoutRule = (question: ScreeningQuestionInput, index: number) => {
+    switch (question.type) {
+      case 'yes_no':
+        return (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Required answer:</Label>
+            <Select
+              value={question.expectedAnswer}
+              onValueChange={(value) => updateQuestion(index, { expectedAnswer: value as 'yes' | 'no' })}
+            >
+              <SelectTrigger className="w-[100px]">
+                <SelectValue placeholder="Pick" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="yes">Yes</SelectItem>
+                <SelectItem value="no">No</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'numeric':
+        return (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Accepted range:</Label>
+            <Input
+              type="number"
+              className="w-24"
+              placeholder="Min"
+              value={question.min ?? ''}
+              onChange={(e) => updateQuestion(index, { min: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              type="number"
+              className="w-24"
+              placeholder="Max"
+              value={question.max ?? ''}
+              onChange={(e) => updateQuestion(index, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+            />
+          </div>
+        );
+      case 'single_choice':
+        return (
+          <div className="flex flex-wrap items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Accepted options:</Label>
+            {(question.options || []).filter(Boolean).map((option) => (
+              <Badge
+                key={option}
+                variant={question.acceptedOptions?.includes(option) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleAcceptedOption(index, option)}
+              >
+                {option}
+              </Badge>
+            ))}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            Screening Questions
+          </DialogTitle>
+          <DialogDescription>
+            Questions applicants for {jobTitle} answer when applying. Knockout questions screen out
+            applications that don't meet a hard requirement.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-3">
+              {questions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No screening questions yet - applicants only submit a cover letter.
+                </p>
+              )}
+              {questions.map((question, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="w-6 justify-center">{index + 1}</Badge>
+                    <Input
+                      value={question.question}
+                      placeholder="e.g., Are you authorized to work in the UAE?"
+                      onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                    />
+                    <Select
+                      value={question.type}
+                      onValueChange={(value) => updateQuestion(index, {
+                        type: value as ScreeningQuestionType,
+                        // Text answers can't be checked automatically
+                        knockout: value === 'text' ? false : question.knockout,
+                      })}
+                    >
+                      <SelectTrigger className="w-[150px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUESTION_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {question.type === 'single_choice' && (
+                    <Input
+                      value={(question.options || []).join(', ')}
+                      placeholder="Options, separated by commas"
+                      onChange={(e) => {
+                        const options = e.target.value.split(',').map((option) => option.trim());
+                        updateQuestion(index, {
+                          options,
+                          acceptedOptions: (question.acceptedOptions || []).filter((option) => options.includes(option)),
+                        });
+                      }}
+                    />
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-6">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={question.required}
+                        onCheckedChange={(checked) => updateQuestion(index, { required: checked })}
+                      />
+                      <Label className="text-sm">Required</Label>
+                    </div>
+                    {question.type !== 'text' && (
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={Boolean(question.knockout)}
+                          onCheckedChange={(checked) => updateQuestion(index, { knockout: checked })}
+                        />
+                        <Label className="text-sm">Knockout</Label>
+                      </div>
+                    )}
+                  </div>
+
+                  {question.knockout && renderKnockoutRule(question, index)}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setQuestions((prev) => [...prev, { question: '', type: 'yes_no', required: true }])}
+                disabled={questions.length >= 20}
+              >
+                <Plus className="w-4 h-4" />
+                Add Question
+              </Button>
+            </div>
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center gap-3">
+                <Label>When an applicant fails a knockout question</Label>
+                <Select value={knockoutAction} onValueChange={(value) => setKnockoutAction(value as 'flag' | 'reject')}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flag">Flag for review</SelectItem>
+                    <SelectItem value="reject">Reject automatically</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {knockoutAction === 'reject' && (
+                <div className="space-y-3">
+                  <p className="text-xs text-muted-foreground">
+                    Feedback the applicant sees. Leave a field empty to use the default wording; {'{jobTitle}'} is
+                    replaced with the job title.
+                  </p>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Message</Label>
+                    <Textarea
+                      rows={2}
+                      value={template.statusMessage}
+                      onChange={(e) => setTemplate((prev) => ({ ...prev, statusMessage: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Reasons (one per line)</Label>
+                    <Textarea
+                      rows={2}
+                      value={toLines(template.reasons)}
+                      onChange={(e) => setTemplate((prev) => ({ ...prev, reasons: fromLines(e.target.value) }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Improvement areas (one per line)</Label>
+                    <Textarea
+                      rows={2}
+                      value={toLines(template.improvementAreas)}
+                      onChange={(e) => setTemplate((prev) => ({ ...prev, improvementAreas: fromLines(e.target.value) }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-sm">Encouragement</Label>
+                    <Textarea
+                      rows={2}
+                      value={template.encouragement}
+                      onChange={(e) => setTemplate((prev) => ({ ...prev, encouragement: e.target.value }))}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || loading}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Questions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { schedulingLinksApi } from '@/lib/api';
+import { toDateKey } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Send, Video } from 'lucide-react';
+
+interface SendSchedulingLinkDialogProps {
+  applicationId: string;
+  applicantName: string;
+  jobTitle: string;
+  onSent?: () => void;
+  trigger?: React.ReactNode;
+}
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export const SendSchedulingLinkDialog = ({
+  applicationId,
+  applicantName,
+  jobTitle,
+  onSent,
+  trigger,
+}: SendSchedulingLinkDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [duration, setDuration] = useState('60');
+  const [type, setType] = useState('Technical');
+  const [windowStart, setWindowStart] = useState(toDateKey(new Date()));
+  const [windowEnd, setWindowEnd] = useState(toDateKey(addDays(new Date(), 6)));
+  const [meetingLink, setMeetingLink] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSend = async () => {
+    try {
+      setIsSubmitting(true);
+      await schedulingLinksApi.create({
+        applicationId,
+        duration: parseInt(duration),
+        type,
+        windowStart,
+        windowEnd,
+        meetingLink: meetingLink || undefined,
+        notes: notes || undefined,
+      });
+
+      toast({
+        title: 'Scheduling Link Sent',
+        description: `${applicantName} can now pick an interview time`,
+      });
+
+      setOpen(false);
+      onSent?.();
+    } catch (error: any) {
+      toast({
+        title: 'Failed to Send Link',
+        description: error.message || 'Failed to create scheduling link',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button size="sm" variant="outline">
+            <Send className="w-4 h-4 mr-2" />
+            Send Scheduling Link
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Let the Candidate Pick a Time</DialogTitle>
+          <DialogDescription>
+            {applicantName} will get an email to book a {jobTitle} interview in any free slot of your calendar
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Interview Duration</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 minutes</SelectItem>
+                  <SelectItem value="45">45 minutes</SelectItem>
+                  <SelectItem value="60">1 hour</SelectItem>
+                  <SelectItem value="90">1.5 hours</SelectItem>
+                  <SelectItem value="120">2 hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Interview Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Technical">Technical Round</SelectItem>
+                  <SelectItem value="Behavioral">Behavioral Round</SelectItem>
+                  <SelectItem value="HR">HR Round</SelectItem>
+                  <SelectItem value="Final">Final Round</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="window-start">Earliest Date</Label>
+              <Input
+                id="window-start"
+                type="date"
+                value={windowStart}
+                min={toDateKey(new Date())}
+                onChange={(e) => setWindowStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="window-end">Latest Date</Label>
+              <Input
+                id="window-end"
+                type="date"
+                value={windowEnd}
+                min={windowStart}
+                onChange={(e) => setWindowEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="link-meeting">Meeting Link (Optional)</Label>
+            <div className="flex gap-2">
+              <Video className="w-5 h-5 text-muted-foreground mt-2" />
+              <Input
+                id="link-meeting"
+                value={meetingLink}
+                onChange={(e) => setMeetingLink(e.target.value)}
+                placeholder="https://meet.google.com/abc-defg-hij"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="link-notes">Notes (Optional)</Label>
+            <Textarea
+              id="link-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Add any instructions for the candidate..."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSubmitting || !windowStart || !windowEnd}>
+            {isSubmitting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="w-4 h-4 mr-2" />
+            )}
+            Send Link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
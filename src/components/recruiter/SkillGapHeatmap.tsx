@@ -1,13 +1,27 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, AlertTriangle, XCircle, TrendingUp } from 'lucide-react';
+import { SkillLevel } from '@/lib/api';
 
 interface SkillGapData {
   skill: string;
-  required: boolean;
+  required: boolean; // Must-have skill of the job
+  niceToHave?: boolean;
+  importance?: number; // 1-5
   candidateLevel: number;
   matchStatus: 'strong' | 'moderate' | 'weak' | 'missing';
   gap: number;
+  requiredLevel?: SkillLevel;
+  // Level the candidate recorded - without one the level is estimated
+  candidateProficiency?: {
+    level: SkillLevel;
+    yearsUsed?: number;
+  };
+  relatedMatch?: {
+    skill: string;
+    credit: number;
+    explanation: string;
+  };
 }
 
 interface SkillGapAnalysis {
@@ -63,6 +77,9 @@ const SkillBar = ({ skill }: { skill: SkillGapData }) => {
             {skill.skill}
             {skill.required && <span className="text-red-500 ml-1">*</span>}
           </span>
+          {skill.importance !== undefined && (
+            <span className="text-xs text-muted-foreground">importance {skill.importance}/5</span>
+          )}
         </div>
         <span className={`text-sm font-semibold ${textColor}`}>
           {skill.candidateLevel}%
@@ -74,6 +91,19 @@ const SkillBar = ({ skill }: { skill: SkillGapData }) => {
           style={{ width: `${skill.candidateLevel}%` }}
         />
       </div>
+      {(skill.candidateProficiency || skill.requiredLevel) && (
+        <p className="text-xs text-muted-foreground">
+          {skill.candidateProficiency
+            ? `${skill.candidateProficiency.level}${
+                skill.candidateProficiency.yearsUsed !== undefined ? `, ${skill.candidateProficiency.yearsUsed} yrs` : ''
+              }`
+            : 'Level not recorded'}
+          {skill.requiredLevel && ` · job asks for ${skill.requiredLevel}`}
+        </p>
+      )}
+      {skill.relatedMatch && (
+        <p className="text-xs text-muted-foreground">{skill.relatedMatch.explanation}</p>
+      )}
     </div>
   );
 };
@@ -86,9 +116,10 @@ export function SkillGapHeatmap({ skillGapAnalysis }: SkillGapHeatmapProps) {
     ...skillGapAnalysis.missingSkills,
   ];
 
-  // Separate required and bonus skills
+  // Separate required, nice-to-have and bonus skills
   const requiredSkills = allSkills.filter(s => s.required);
-  const bonusSkills = allSkills.filter(s => !s.required);
+  const niceToHaveSkills = allSkills.filter(s => s.niceToHave);
+  const bonusSkills = allSkills.filter(s => !s.required && !s.niceToHave);
 
   return (
     <Card>
@@ -148,6 +179,20 @@ export function SkillGapHeatmap({ skillGapAnalysis }: SkillGapHeatmapProps) {
           </div>
         )}
 
+        {/* Nice-to-have Skills */}
+        {niceToHaveSkills.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="font-semibold text-sm flex items-center gap-2">
+              Nice-to-have Skills ({niceToHaveSkills.length})
+            </h3>
+            <div className="space-y-3">
+              {niceToHaveSkills.map((skill, index) => (
+                <SkillBar key={index} skill={skill} />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Bonus Skills */}
         {bonusSkills.length > 0 && (
           <div className="space-y-3">
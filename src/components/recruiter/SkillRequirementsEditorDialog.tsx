@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Gauge, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { jobsApi, SkillLevel, SkillRequirement } from '@/lib/api';
+
+interface SkillRequirementsEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobId: string;
+  jobTitle: string;
+  onSaved?: () => void;
+}
+
+interface SkillRow {
+  skill: string;
+  mustHave: boolean;
+  importance: number;
+  minLevel?: SkillLevel;
+}
+
+const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+const IMPORTANCE_OPTIONS = [1, 2, 3, 4, 5];
+const DEFAULT_IMPORTANCE = 3;
+const ANY_LEVEL = 'any';
+
+export function SkillRequirementsEditorDialog({
+  open,
+  onOpenChange,
+  jobId,
+  jobTitle,
+  onSaved,
+}: SkillRequirementsEditorDialogProps) {
+  const [rows, setRows] = useState<SkillRow[]>([]);
+  const [newSkill, setNewSkill] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadRequirements = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await jobsApi.getById(jobId);
+      const job = response.data?.job;
+      const requirements: SkillRequirement[] = job?.skillRequirements || [];
+      const toRow = (skill: string, mustHave: boolean): SkillRow => {
+        const requirement = requirements.find((item) => item.skill.toLowerCase() === skill.toLowerCase());
+        return {
+          skill,
+          mustHave,
+          importance: requirement?.importance || DEFAULT_IMPORTANCE,
+          minLevel: requirement?.minLevel,
+        };
+      };
+      setRows([
+        ...(job?.requiredSkills || []).map((skill: string) => toRow(skill, true)),
+        ...(job?.niceToHaveSkills || []).map((skill: string) => toRow(skill, false)),
+      ]);
+      setNewSkill('');
+    } catch (error: any) {
+      toast({
+        title: 'Failed to load skill requirements',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    if (open && jobId) {
+      loadRequirements();
+    }
+  }, [open, jobId, loadRequirements]);
+
+  const updateRow = (skill: string, changes: Partial<SkillRow>) => {
+    setRows((prev) => prev.map((row) => (row.skill === skill ? { ...row, ...changes } : row)));
+  };
+
+  const addSkill = () => {
+    const skill = newSkill.trim();
+    if (!skill) return;
+    if (rows.some((row) => row.skill.toLowerCase() === skill.toLowerCase())) {
+      toast({ title: 'Skill already listed', description: `${skill} is already on this job.` });
+      return;
+    }
+    setRows((prev) => [...prev, { skill, mustHave: true, importance: DEFAULT_IMPORTANCE }]);
+    setNewSkill('');
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await jobsApi.update(jobId, {
+        requiredSkills: rows.filter((row) => row.mustHave).map((row) => row.skill),
+        niceToHaveSkills: rows.filter((row) => !row.mustHave).map((row) => row.skill),
+        skillRequirements: rows.map(({ skill, importance, minLevel }) => ({ skill, importance, minLevel })),
+      });
+      toast({
+        title: 'Skill requirements saved',
+        description: 'New evaluations use these skills and weights.',
+      });
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to save skill requirements',
+        description: error.message || 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5 text-primary" />
+            Skill Requirements
+          </DialogTitle>
+          <DialogDescription>
+            Must-have and nice-to-have skills of {jobTitle}. Importance weights a skill within its group,
+            and candidates below the minimum level get partial credit for it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            {rows.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">This job lists no skills yet.</p>
+            )}
+            {rows.map((row) => (
+              <div key={row.skill} className="flex flex-wrap items-center gap-2 border rounded-lg px-3 py-2">
+                <span className="font-medium flex-1 min-w-[120px]">{row.skill}</span>
+                <Select
+                  value={row.mustHave ? 'must' : 'nice'}
+                  onValueChange={(value) => updateRow(row.skill, { mustHave: value === 'must' })}
+                >
+                  <SelectTrigger className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="must">Must-have</SelectItem>
+                    <SelectItem value="nice">Nice-to-have</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(row.importance)}
+                  onValueChange={(value) => updateRow(row.skill, { importance: Number(value) })}
+                >
+                  <SelectTrigger className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {IMPORTANCE_OPTIONS.map((importance) => (
+                      <SelectItem key={importance} value={String(importance)}>
+                        Importance {importance}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={row.minLevel || ANY_LEVEL}
+                  onValueChange={(value) =>
+                    updateRow(row.skill, { minLevel: value === ANY_LEVEL ? undefined : (value as SkillLevel) })
+                  }
+                >
+                  <SelectTrigger className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_LEVEL}>Any level</SelectItem>
+                    {Object.entries(SKILL_LEVEL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setRows((prev) => prev.filter((item) => item.skill !== row.skill))}
+                  aria-label={`Remove ${row.skill}`}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2 pt-2">
+              <Input
+                placeholder="Add a skill, e.g. GraphQL"
+                value={newSkill}
+                onChange={(e) => setNewSkill(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addSkill();
+                  }
+                }}
+              />
+              <Button variant="outline" onClick={addSkill} disabled={!newSkill.trim()}>
+                <Plus className="w-4 h-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || loading}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Skills
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
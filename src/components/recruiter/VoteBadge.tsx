@@ -0,0 +1,22 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { FeedbackVote } from '@/lib/api';
+import { VOTE_OPTIONS } from '@/lib/votes';
+
+interface VoteBadgeProps {
+  vote?: FeedbackVote | 'mixed' | 'none';
+  className?: string;
+}
+
+export function VoteBadge({ vote, className }: VoteBadgeProps) {
+  if (vote === 'mixed') {
+    return <Badge className={cn('bg-amber-100 text-amber-700 hover:bg-amber-200', className)}>Mixed Signals</Badge>;
+  }
+
+  const option = VOTE_OPTIONS.find((item) => item.value === vote);
+  if (!option) {
+    return <Badge variant="outline" className={className}>No Vote</Badge>;
+  }
+
+  return <Badge className={cn(option.className, className)}>{option.label}</Badge>;
+}
@@ -9,6 +9,7 @@ export interface User {
   email: string;
   role: UserRole;
   avatarUrl?: string;
+  isPlatformAdmin?: boolean; // May edit platform-wide settings such as the skill dictionary
 }
 
 interface AuthContextType {
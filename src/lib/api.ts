@@ -28,6 +28,7 @@ export interface AuthUser {
   email: string;
   fullName: string;
   role: 'recruiter' | 'applicant';
+  isPlatformAdmin?: boolean;
 }
 
 export interface AuthResponse {
@@ -109,6 +110,155 @@ export const authApi = {
   },
 };
 
+export interface PipelineStageInput {
+  key?: string;
+  name: string;
+  status: string;
+  allowedTransitions?: string[];
+}
+
+export interface ScorecardCompetencyInput {
+  key?: string;
+  name: string;
+  description?: string;
+}
+
+export interface InterviewRoundInput {
+  key?: string;
+  name: string;
+  type: string;
+  duration: number;
+  interviewerIds?: string[]; // Required on the panel of this round
+}
+
+export type ScreeningQuestionType = 'yes_no' | 'numeric' | 'single_choice' | 'text';
+
+export interface ScreeningQuestionInput {
+  key?: string;
+  question: string;
+  type: ScreeningQuestionType;
+  required: boolean;
+  options?: string[]; // single_choice
+  // Knockout rule - answers outside it fail the application
+  knockout?: boolean;
+  expectedAnswer?: 'yes' | 'no'; // yes_no
+  min?: number; // numeric
+  max?: number; // numeric
+  acceptedOptions?: string[]; // single_choice
+}
+
+// Feedback shown to applicants auto-rejected by a knockout question ({jobTitle} is filled in)
+export interface KnockoutRejectionTemplate {
+  statusMessage: string;
+  reasons: string[];
+  improvementAreas: string[];
+  encouragement: string;
+}
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+// Level and years an applicant records for one of their skills
+export interface SkillProficiency {
+  skill: string;
+  level: SkillLevel;
+  yearsUsed?: number;
+  source?: 'self' | 'resume'; // 'resume' while it is still the estimate from the parsed resume
+}
+
+// Settings for one of a job's must-have or nice-to-have skills
+export interface SkillRequirement {
+  skill: string;
+  minLevel?: SkillLevel;
+  importance: number; // 1-5
+}
+
+export type FeedbackVote = 'strong_no_hire' | 'no_hire' | 'hire' | 'strong_hire';
+
+// Percentages per scoring signal - must add up to 100
+export type ScoringWeights = Record<
+  'skills' | 'github' | 'leetcode' | 'experience' | 'projects' | 'education' | 'profile' | 'aiReadiness',
+  number
+>;
+
+// Progress of a background "evaluate all applicants" run
+export interface EvaluationBatchProgress {
+  batchId: string;
+  jobId: string;
+  status: 'running' | 'completed' | 'completed_with_errors';
+  total: number;
+  queued: number;
+  running: number;
+  evaluated: number;
+  failed: number;
+  failures: { applicationId: string; applicantName: string; error: string; attempts: number }[];
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface PipelineStage {
+  key: string;
+  name: string;
+  status: string;
+  order: number;
+  allowedTransitions: string[];
+  nextStages?: string[]; // Keys of the stages it can move to
+}
+
+export interface JobPipeline {
+  jobId: string;
+  isDefault: boolean;
+  stages: PipelineStage[];
+}
+
+export interface InterviewerRef {
+  _id: string;
+  fullName: string;
+  email: string;
+}
+
+// Interviewer is an InterviewerRef where the required panel comes back populated
+export interface InterviewRound<Interviewer = string> {
+  key: string;
+  name: string;
+  type: string;
+  duration: number;
+  order: number;
+  interviewerIds: Interviewer[];
+}
+
+export interface InterviewPlan<Interviewer = string> {
+  jobId: string;
+  rounds: InterviewRound<Interviewer>[];
+}
+
+export interface JobScoringWeights {
+  jobId: string;
+  source: 'job' | 'category'; // 'category' while the job uses its category's defaults
+  category: string;
+  version: number;
+  weights: ScoringWeights;
+  defaults: ScoringWeights;
+}
+
+export interface JobScreeningQuestions {
+  jobId: string;
+  questions: ScreeningQuestionInput[];
+  knockoutAction: 'flag' | 'reject';
+  rejectionTemplate: KnockoutRejectionTemplate | null;
+}
+
+export interface ScorecardCompetency {
+  key: string;
+  name: string;
+  description?: string;
+}
+
+export interface JobScorecard {
+  jobId: string;
+  isDefault: boolean;
+  competencies: ScorecardCompetency[];
+}
+
 // Jobs API
 export const jobsApi = {
   getAll: async (params?: { status?: string; search?: string }): Promise<ApiResponse<any>> => {
@@ -134,6 +284,8 @@ export const jobsApi = {
     salaryMin?: number;
     salaryMax?: number;
     requiredSkills: string[];
+    niceToHaveSkills?: string[];
+    skillRequirements?: SkillRequirement[];
   }): Promise<ApiResponse<any>> => {
     return apiFetch<any>('/api/jobs', {
       method: 'POST',
@@ -151,6 +303,8 @@ export const jobsApi = {
     salaryMin: number;
     salaryMax: number;
     requiredSkills: string[];
+    niceToHaveSkills: string[];
+    skillRequirements: SkillRequirement[];
     status: string;
   }>): Promise<ApiResponse<any>> => {
     return apiFetch<any>(`/api/jobs/${id}`, {
@@ -164,8 +318,202 @@ export const jobsApi = {
       method: 'DELETE',
     });
   },
+
+  // Hiring pipeline (ordered stages with allowed transitions)
+  getPipeline: async (id: string): Promise<ApiResponse<JobPipeline>> => {
+    return apiFetch<JobPipeline>(`/api/jobs/${id}/pipeline`);
+  },
+
+  updatePipeline: async (id: string, data: {
+    stages?: PipelineStageInput[];
+    useDefault?: boolean;
+  }): Promise<ApiResponse<JobPipeline>> => {
+    return apiFetch<JobPipeline>(`/api/jobs/${id}/pipeline`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Interview loop (ordered rounds candidates must pass)
+  getInterviewPlan: async (id: string): Promise<ApiResponse<InterviewPlan<InterviewerRef>>> => {
+    return apiFetch<InterviewPlan<InterviewerRef>>(`/api/jobs/${id}/interview-plan`);
+  },
+
+  updateInterviewPlan: async (id: string, rounds: InterviewRoundInput[]): Promise<ApiResponse<InterviewPlan>> => {
+    return apiFetch<InterviewPlan>(`/api/jobs/${id}/interview-plan`, {
+      method: 'PUT',
+      body: JSON.stringify({ rounds }),
+    });
+  },
+
+  getScoringWeights: async (id: string): Promise<ApiResponse<JobScoringWeights>> => {
+    return apiFetch<JobScoringWeights>(`/api/jobs/${id}/scoring-weights`);
+  },
+
+  // Saving queues a re-rank of the job's evaluated applicants with the new weights
+  updateScoringWeights: async (id: string, weights: ScoringWeights | null): Promise<ApiResponse<JobScoringWeights & { queued: number }>> => {
+    return apiFetch<JobScoringWeights & { queued: number }>(`/api/jobs/${id}/scoring-weights`, {
+      method: 'PUT',
+      body: JSON.stringify(weights ? { weights } : { useDefault: true }),
+    });
+  },
+
+  // Screening questions applicants answer when applying, with knockout rules
+  getScreeningQuestions: async (id: string): Promise<ApiResponse<JobScreeningQuestions>> => {
+    return apiFetch<JobScreeningQuestions>(`/api/jobs/${id}/screening-questions`);
+  },
+
+  updateScreeningQuestions: async (id: string, data: {
+    questions: ScreeningQuestionInput[];
+    knockoutAction: 'flag' | 'reject';
+    rejectionTemplate?: KnockoutRejectionTemplate | null;
+  }): Promise<ApiResponse<JobScreeningQuestions>> => {
+    return apiFetch<JobScreeningQuestions>(`/api/jobs/${id}/screening-questions`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Interview scorecard rubric (competencies interviewers rate 1-5)
+  getScorecard: async (id: string): Promise<ApiResponse<JobScorecard>> => {
+    return apiFetch<JobScorecard>(`/api/jobs/${id}/scorecard`);
+  },
+
+  updateScorecard: async (id: string, data: {
+    competencies?: ScorecardCompetencyInput[];
+    useDefault?: boolean;
+  }): Promise<ApiResponse<JobScorecard>> => {
+    return apiFetch<JobScorecard>(`/api/jobs/${id}/scorecard`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
 };
 
+export type InterviewRoundStatus = 'pending' | 'scheduled' | 'awaiting_outcome' | 'passed' | 'failed' | 'stopped';
+
+export interface InterviewRoundProgress {
+  key: string;
+  name: string;
+  type: string;
+  duration: number;
+  interviewerIds: string[];
+  status: InterviewRoundStatus;
+  interviewId?: string;
+  scheduledTime?: string;
+  outcomeNote?: string;
+}
+
+export interface InterviewLoopProgress {
+  hasPlan: boolean;
+  status: 'not_started' | 'in_progress' | 'passed' | 'failed';
+  rounds: InterviewRoundProgress[];
+  nextRound: InterviewRoundProgress | null;
+}
+
+export interface SignalEvidence {
+  source: string;
+  label: string;
+  ref?: string;
+  detail?: string;
+  counted: boolean; // Whether this item raised the signal score
+}
+
+export interface SignalContribution {
+  signal: string;
+  label: string;
+  score: number; // 0-100
+  weight: number; // % of the rule-based score
+  contribution: number; // Points added to the rule-based score
+  summary: string;
+  evidence: SignalEvidence[];
+}
+
+export interface ScoreExplanation {
+  overallScore: number;
+  ruleBasedScore: number;
+  aiScore?: number;
+  aiBlend: number; // Share of the AI score in the overall score
+  weightProfile?: {
+    source: 'job' | 'category';
+    category: string;
+    version: number;
+    weights: ScoringWeights;
+    appliedAt: string;
+  };
+  evaluationVersion: number;
+  contributions: SignalContribution[];
+  fromCurrentProfile: boolean; // Rebuilt from the current profile for evaluations stored without contributions
+}
+
+export interface EvaluationVersion {
+  _id: string;
+  version: number;
+  trigger: 'manual' | 'bulk' | 'weights_change' | 'application_submitted' | 'profile_updated';
+  engineVersion: string;
+  promptVersion?: string;
+  mode: 'ai_blended' | 'rule_based';
+  inputsHash: string;
+  evaluatedBy?: { fullName: string };
+  createdAt: string;
+}
+
+// A recruiter status change made on the basis of an evaluation version
+export interface EvaluationDecision {
+  evaluationVersion: number;
+  status: string;
+  stageName?: string;
+  note?: string;
+  timestamp: string;
+}
+
+export interface EvaluationHistory {
+  currentVersion: number;
+  evaluations: EvaluationVersion[]; // Newest first
+  decisions: EvaluationDecision[];
+}
+
+export interface EvaluationDiff {
+  overallScore: { from: number; to: number; delta: number };
+  recommendation: { from: string; to: string; changed: boolean };
+  signals: { key: string; label: string; from: number; to: number; delta: number }[];
+  weights: { key: string; from: number; to: number }[];
+  strengths: { added: string[]; removed: string[] };
+  gaps: { added: string[]; removed: string[] };
+  inputsChanged: boolean;
+  engineChanged: boolean;
+  promptChanged: boolean;
+}
+
+// Interviewer is an InterviewerRef where the author comes back populated
+export interface InterviewFeedback<Interviewer = string> {
+  _id: string;
+  interviewId: string;
+  interviewerId: Interviewer;
+  ratings: { competency: string; name?: string; rating: number; comment?: string }[];
+  vote?: FeedbackVote;
+  comments: string;
+  status: 'draft' | 'submitted';
+  submittedAt?: string;
+}
+
+export interface ScorecardSummary {
+  submittedCount: number;
+  pendingCount: number;
+  averageRating: number;
+  votes: Record<FeedbackVote, number>;
+  recommendation: FeedbackVote | 'mixed' | 'none';
+  competencies: { key: string; name: string; averageRating: number; ratingCount: number }[];
+}
+
+export interface ApplicationScorecards {
+  template: ScorecardCompetency[];
+  summary: ScorecardSummary | null; // null while the viewer still owes feedback on an interview
+  hiddenInterviewIds: string[];
+  interviews: { _id: string; scheduledTime: string; type: string; status: string; interviewerIds: string[] }[];
+  feedback: InterviewFeedback<InterviewerRef>[];
+}
+
 // Applications API
 export const applicationsApi = {
   getAll: async (): Promise<ApiResponse<any>> => {
@@ -174,6 +522,7 @@ export const applicationsApi = {
 
   getAllForRecruiter: async (filters?: {
     status?: string[];
+    stage?: string[];
     jobId?: string;
     scoreMin?: number;
     scoreMax?: number;
@@ -195,6 +544,9 @@ export const applicationsApi = {
       if (filters.status && filters.status.length > 0) {
         params.append('status', filters.status.join(','));
       }
+      if (filters.stage && filters.stage.length > 0) {
+        params.append('stage', filters.stage.join(','));
+      }
       if (filters.jobId) params.append('jobId', filters.jobId);
       if (filters.scoreMin !== undefined) params.append('scoreMin', filters.scoreMin.toString());
       if (filters.scoreMax !== undefined) params.append('scoreMax', filters.scoreMax.toString());
@@ -227,10 +579,11 @@ export const applicationsApi = {
     return apiFetch<any>(`/api/applications/${id}`);
   },
 
-  apply: async (jobId: string, coverLetter?: string) => {
+  // Screening answers are keyed by question key
+  apply: async (jobId: string, coverLetter?: string, screeningAnswers?: Record<string, string | number>) => {
     return apiFetch('/api/applications', {
       method: 'POST',
-      body: JSON.stringify({ jobId, coverLetter }),
+      body: JSON.stringify({ jobId, coverLetter, screeningAnswers }),
     });
   },
 
@@ -267,6 +620,35 @@ export const applicationsApi = {
     });
   },
 
+  // Progress through the job's interview loop, with the next round to schedule
+  getInterviewLoop: async (applicationId: string): Promise<ApiResponse<InterviewLoopProgress>> => {
+    return apiFetch<InterviewLoopProgress>(`/api/applications/${applicationId}/interview-loop`);
+  },
+
+  // Per-signal contributions and evidence behind the candidate's score
+  getScoreExplanation: async (applicationId: string): Promise<ApiResponse<ScoreExplanation>> => {
+    return apiFetch<ScoreExplanation>(`/api/applications/${applicationId}/score-explanation`);
+  },
+
+  // Every stored evaluation version, with the decisions made on each
+  getEvaluationHistory: async (applicationId: string): Promise<ApiResponse<EvaluationHistory>> => {
+    return apiFetch<EvaluationHistory>(`/api/applications/${applicationId}/evaluations`);
+  },
+
+  // Changes between two evaluation versions (defaults to the latest two)
+  getEvaluationDiff: async (applicationId: string, from?: number, to?: number): Promise<ApiResponse<EvaluationDiff>> => {
+    const params = new URLSearchParams();
+    if (from) params.append('from', String(from));
+    if (to) params.append('to', String(to));
+    const query = params.toString();
+    return apiFetch<EvaluationDiff>(`/api/applications/${applicationId}/evaluations/diff${query ? `?${query}` : ''}`);
+  },
+
+  // Submitted interview scorecards with the panel's aggregate
+  getScorecards: async (applicationId: string): Promise<ApiResponse<ApplicationScorecards>> => {
+    return apiFetch<ApplicationScorecards>(`/api/applications/${applicationId}/scorecards`);
+  },
+
   // Get rejection feedback for applicant
   getRejectionFeedback: async (applicationId: string): Promise<ApiResponse<any>> => {
     return apiFetch<any>(`/api/applications/${applicationId}/rejection-feedback`);
@@ -321,6 +703,7 @@ export const applicationsApi = {
       note?: string;
       rejectionReason?: string;
       sendFeedback?: boolean;
+      stage?: string;
     }
   ): Promise<ApiResponse<any>> => {
     return apiFetch<any>(`/api/applications/${applicationId}/status`, {
@@ -369,6 +752,14 @@ export const talentPoolApi = {
 };
 
 // Recruiter Profile API
+export interface RecruiterAvailability {
+  timezone: string;
+  slotInterval: number;
+  workingHours: { day: number; start: string; end: string }[]; // day: 0 = Sunday
+  breaks: { day?: number; start: string; end: string; label?: string }[];
+  blockedDates: { date: string; reason?: string }[]; // date: YYYY-MM-DD
+}
+
 export const recruiterApi = {
   getProfile: async (): Promise<ApiResponse<any>> => {
     return apiFetch<any>('/api/recruiter/profile');
@@ -394,6 +785,18 @@ export const recruiterApi = {
     return apiFetch<any>('/api/recruiter/dashboard');
   },
 
+  // Interview availability calendar
+  getAvailability: async (): Promise<ApiResponse<{ availability: RecruiterAvailability }>> => {
+    return apiFetch<{ availability: RecruiterAvailability }>('/api/recruiter/availability');
+  },
+
+  updateAvailability: async (data: Partial<RecruiterAvailability>): Promise<ApiResponse<{ availability: RecruiterAvailability }>> => {
+    return apiFetch<{ availability: RecruiterAvailability }>('/api/recruiter/availability', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
   // 🔐 VERIFICATION ENDPOINTS
   sendVerification: async (): Promise<ApiResponse<{ message: string }>> => {
     return apiFetch<{ message: string }>('/api/recruiter/send-verification', {
@@ -420,6 +823,7 @@ export const applicantApi = {
     bio?: string;
     yearsOfExperience?: number;
     skills?: string[];
+    skillProficiencies?: SkillProficiency[];
     preferredRoles?: string[];
     experience?: Array<{
       company: string;
@@ -528,26 +932,87 @@ export const aiApi = {
     });
   },
 
-  evaluateJobApplications: async (jobId: string): Promise<ApiResponse<any>> => {
-    return apiFetch<any>(`/api/ai/evaluate-job/${jobId}`, {
+  // Queues the evaluation and returns the batch progress straight away
+  evaluateJobApplications: async (jobId: string): Promise<ApiResponse<EvaluationBatchProgress>> => {
+    return apiFetch<EvaluationBatchProgress>(`/api/ai/evaluate-job/${jobId}`, {
       method: 'POST',
     });
   },
+
+  // Latest bulk evaluation of the job (null when there has been none)
+  getLatestEvaluationBatch: async (jobId: string): Promise<ApiResponse<EvaluationBatchProgress | null>> => {
+    return apiFetch<EvaluationBatchProgress | null>(`/api/ai/evaluate-job/${jobId}`);
+  },
+
+  getEvaluationBatch: async (batchId: string): Promise<ApiResponse<EvaluationBatchProgress>> => {
+    return apiFetch<EvaluationBatchProgress>(`/api/ai/evaluation-batches/${batchId}`);
+  },
 };
 
+export interface TimeSlot {
+  startTime: string;
+  endTime: string;
+  displayTime: string;
+}
+
+// Open slots for a day, in the organizer's timezone
+export interface InterviewAvailability {
+  date: string;
+  timezone: string;
+  slotInterval: number;
+  panelistIds: string[];
+  blocked: boolean; // The organizer blocked the whole day
+  availableSlots: TimeSlot[];
+  bookedSlots: { startTime: string; duration: number; endTime: string; type: 'candidate' | 'interviewer' }[];
+}
+
+// Round fields of an interview that covers a round of the job's interview loop
+export interface InterviewRoundOutcome {
+  _id: string;
+  roundKey?: string;
+  roundName?: string;
+  roundOutcome?: 'passed' | 'failed';
+  roundOutcomeNote?: string;
+  roundOutcomeAt?: string;
+}
+
+export interface InterviewFeedbackDetails {
+  interviewId: string;
+  interviewStatus: string;
+  template: ScorecardCompetency[];
+  isPanelist: boolean;
+  canSeeOthers: boolean; // Panelists see the others' feedback once they submitted their own
+  myFeedback: InterviewFeedback<InterviewerRef> | null;
+  panel: { interviewerId: string; fullName?: string; status: 'pending' | 'submitted'; submittedAt?: string }[];
+  feedback: InterviewFeedback<InterviewerRef>[];
+}
+
 // Interview API
 export const interviewsApi = {
-  getAvailability: async (date: string, duration: number = 60): Promise<ApiResponse<any>> => {
-    return apiFetch<any>(`/api/interviews/availability?date=${date}&duration=${duration}`);
+  // Open slots for a panel (defaults to the current recruiter). Pass the applicationId to
+  // also avoid the candidate's other interviews, or the interviewId when rescheduling.
+  getAvailability: async (
+    date: string,
+    duration: number = 60,
+    options?: { panelistIds?: string[]; applicationId?: string; interviewId?: string }
+  ): Promise<ApiResponse<InterviewAvailability>> => {
+    const queryParams = new URLSearchParams({ date, duration: String(duration) });
+    if (options?.panelistIds?.length) queryParams.append('panelistIds', options.panelistIds.join(','));
+    if (options?.applicationId) queryParams.append('applicationId', options.applicationId);
+    if (options?.interviewId) queryParams.append('interviewId', options.interviewId);
+
+    return apiFetch<InterviewAvailability>(`/api/interviews/availability?${queryParams.toString()}`);
   },
 
   schedule: async (data: {
     applicationId: string;
     scheduledTime: string;
+    interviewerIds?: string[];
     duration?: number;
     meetingLink?: string;
     type?: string;
     notes?: string;
+    roundKey?: string;
   }): Promise<ApiResponse<any>> => {
     return apiFetch<any>('/api/interviews', {
       method: 'POST',
@@ -566,6 +1031,7 @@ export const interviewsApi = {
 
   update: async (id: string, data: {
     scheduledTime?: string;
+    interviewerIds?: string[];
     duration?: number;
     meetingLink?: string;
     type?: string;
@@ -584,6 +1050,42 @@ export const interviewsApi = {
     });
   },
 
+  // Record whether the candidate passed the interview's round of the loop
+  recordOutcome: async (id: string, outcome: 'passed' | 'failed', note?: string): Promise<ApiResponse<{ interview: InterviewRoundOutcome; progress: InterviewLoopProgress }>> => {
+    return apiFetch<{ interview: InterviewRoundOutcome; progress: InterviewLoopProgress }>(`/api/interviews/${id}/outcome`, {
+      method: 'POST',
+      body: JSON.stringify({ outcome, note }),
+    });
+  },
+
+  // Interview scorecard - the current recruiter's feedback and, once submitted, the panel's
+  getFeedback: async (id: string): Promise<ApiResponse<InterviewFeedbackDetails>> => {
+    return apiFetch<InterviewFeedbackDetails>(`/api/interviews/${id}/feedback`);
+  },
+
+  saveFeedback: async (id: string, data: {
+    ratings?: { competency: string; rating: number; comment?: string }[];
+    vote?: FeedbackVote;
+    comments?: string;
+    submit?: boolean;
+  }): Promise<ApiResponse<{ feedback: InterviewFeedback }>> => {
+    return apiFetch<{ feedback: InterviewFeedback }>(`/api/interviews/${id}/feedback`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Personal .ics feed URL to subscribe to in a calendar app (recruiters and candidates)
+  getCalendarFeedUrl: async (): Promise<ApiResponse<{ feedUrl: string; webcalUrl: string }>> => {
+    return apiFetch<{ feedUrl: string; webcalUrl: string }>('/api/interviews/calendar/feed-url');
+  },
+
+  resetCalendarFeedUrl: async (): Promise<ApiResponse<{ feedUrl: string; webcalUrl: string }>> => {
+    return apiFetch<{ feedUrl: string; webcalUrl: string }>('/api/interviews/calendar/feed-url/reset', {
+      method: 'POST',
+    });
+  },
+
   // Drop-off detection endpoints
   getInterviewsAtRisk: async (): Promise<ApiResponse<any>> => {
     return apiFetch<any>('/api/interviews/at-risk');
@@ -651,6 +1153,463 @@ export const notificationsApi = {
   },
 };
 
+// Offers API
+export interface OfferTermsInput {
+  salary?: number;
+  currency?: string;
+  startDate?: string;
+  expiresAt?: string;
+  notes?: string;
+}
+
+export type OfferStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired';
+
+export interface Offer {
+  _id: string;
+  applicationId: string;
+  jobId: string;
+  applicantId: string;
+  recruiterId: string;
+  organizationId?: string;
+  salary: number;
+  currency: string;
+  startDate: string;
+  expiresAt: string;
+  status: OfferStatus;
+  notes?: string;
+  sentAt?: string;
+  respondedAt?: string;
+  declineReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Offer list entries with the job (and, for recruiters, the candidate) populated
+export interface RecruiterOffer extends Omit<Offer, 'jobId' | 'applicantId'> {
+  jobId: { _id: string; title: string; salaryMin?: number; salaryMax?: number; openings: number; hiredCount: number; status: string };
+  applicantId: { _id: string; fullName: string; email: string };
+}
+
+export interface ApplicantOffer extends Omit<Offer, 'jobId'> {
+  jobId: { _id: string; title: string; company?: string; location: string; employmentType: string };
+}
+
+// Latest offer listed with a selected candidate
+export interface OfferSummary {
+  id: string;
+  status: OfferStatus;
+  salary: number;
+  currency: string;
+  startDate: string;
+  expiresAt: string;
+  notes?: string;
+  declineReason?: string;
+}
+
+export const offersApi = {
+  // Recruiter: create an offer (send: true sends it immediately)
+  create: async (data: OfferTermsInput & { applicationId: string; send?: boolean }): Promise<ApiResponse<{ offer: Offer }>> => {
+    return apiFetch<{ offer: Offer }>('/api/offers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Recruiter: edit a draft offer
+  update: async (id: string, data: OfferTermsInput): Promise<ApiResponse<{ offer: Offer }>> => {
+    return apiFetch<{ offer: Offer }>(`/api/offers/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Recruiter: send a draft offer
+  send: async (id: string): Promise<ApiResponse<{ offer: Offer }>> => {
+    return apiFetch<{ offer: Offer }>(`/api/offers/${id}/send`, {
+      method: 'POST',
+    });
+  },
+
+  // Recruiter: delete a draft offer
+  delete: async (id: string): Promise<ApiResponse<void>> => {
+    return apiFetch<void>(`/api/offers/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Recruiter: list offers
+  getAll: async (params?: { jobId?: string; status?: string }): Promise<ApiResponse<{ offers: RecruiterOffer[] }>> => {
+    const queryParams = new URLSearchParams();
+    if (params?.jobId) queryParams.append('jobId', params.jobId);
+    if (params?.status) queryParams.append('status', params.status);
+
+    const query = queryParams.toString();
+    return apiFetch<{ offers: RecruiterOffer[] }>(`/api/offers${query ? `?${query}` : ''}`);
+  },
+
+  // Recruiter: offer history for one application
+  getByApplication: async (applicationId: string): Promise<ApiResponse<{ offers: Offer[] }>> => {
+    return apiFetch<{ offers: Offer[] }>(`/api/offers/application/${applicationId}`);
+  },
+
+  // Applicant: offers received
+  getMyOffers: async (): Promise<ApiResponse<{ offers: ApplicantOffer[] }>> => {
+    return apiFetch<{ offers: ApplicantOffer[] }>('/api/offers/my-offers');
+  },
+
+  // Applicant: accept an offer
+  accept: async (id: string): Promise<ApiResponse<{ offer: Offer; application: { _id: string; status: string; stage: string }; job: { _id: string; status: string; openings: number; hiredCount: number } }>> => {
+    return apiFetch<{ offer: Offer; application: { _id: string; status: string; stage: string }; job: { _id: string; status: string; openings: number; hiredCount: number } }>(`/api/offers/${id}/accept`, {
+      method: 'POST',
+    });
+  },
+
+  // Applicant: decline an offer
+  decline: async (id: string, reason?: string): Promise<ApiResponse<{ offer: Offer }>> => {
+    return apiFetch<{ offer: Offer }>(`/api/offers/${id}/decline`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  },
+};
+
+export type SchedulingLinkStatus = 'pending' | 'booked' | 'cancelled' | 'expired';
+
+export interface SchedulingLink {
+  _id: string;
+  token: string;
+  applicationId: string;
+  jobId: string;
+  applicantId: string;
+  createdBy: string;
+  interviewerIds: string[];
+  duration: number;
+  type: 'Technical' | 'Behavioral' | 'HR' | 'Final';
+  meetingLink: string;
+  notes?: string;
+  windowStart: string; // YYYY-MM-DD in the recruiter's timezone
+  windowEnd: string;
+  expiresAt: string;
+  status: SchedulingLinkStatus;
+  interviewId?: string;
+  bookedAt?: string;
+  createdAt: string;
+}
+
+// Links of an application, with the booked interview populated
+export interface ApplicationSchedulingLink extends Omit<SchedulingLink, 'interviewId'> {
+  interviewId?: { _id: string; scheduledTime: string; duration: number; status: string };
+}
+
+export interface SchedulingDay {
+  date: string; // YYYY-MM-DD
+  slots: TimeSlot[];
+}
+
+// What the candidate sees when opening a link
+export interface PublicSchedulingLink {
+  link: {
+    jobTitle: string;
+    companyName: string;
+    duration: number;
+    type: SchedulingLink['type'];
+    status: SchedulingLinkStatus;
+    expiresAt: string;
+  };
+  days: SchedulingDay[];
+  timezone: string;
+}
+
+// Self-scheduling links API
+export const schedulingLinksApi = {
+  // Recruiter: send the candidate a link to pick their own interview slot
+  create: async (data: {
+    applicationId: string;
+    interviewerIds?: string[];
+    duration?: number;
+    type?: string;
+    meetingLink?: string;
+    notes?: string;
+    windowStart?: string;
+    windowEnd?: string;
+  }): Promise<ApiResponse<{ link: SchedulingLink }>> => {
+    return apiFetch<{ link: SchedulingLink }>('/api/scheduling-links', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  getByApplication: async (applicationId: string): Promise<ApiResponse<{ links: ApplicationSchedulingLink[] }>> => {
+    return apiFetch<{ links: ApplicationSchedulingLink[] }>(`/api/scheduling-links?applicationId=${applicationId}`);
+  },
+
+  cancel: async (id: string): Promise<ApiResponse<{ link: SchedulingLink }>> => {
+    return apiFetch<{ link: SchedulingLink }>(`/api/scheduling-links/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Candidate (public): slots offered by a link, and booking one
+  getPublic: async (token: string): Promise<ApiResponse<PublicSchedulingLink>> => {
+    return apiFetch<PublicSchedulingLink>(`/api/scheduling-links/public/${token}`);
+  },
+
+  book: async (token: string, startTime: string): Promise<ApiResponse<{ interview: { scheduledTime: string; duration: number; type: string; meetingLink: string } }>> => {
+    return apiFetch<{ interview: { scheduledTime: string; duration: number; type: string; meetingLink: string } }>(`/api/scheduling-links/public/${token}/book`, {
+      method: 'POST',
+      body: JSON.stringify({ startTime }),
+    });
+  },
+};
+
+// Organizations API
+export type OrganizationRole = 'admin' | 'recruiter' | 'hiring_manager';
+
+export interface OrganizationMember {
+  userId: string;
+  fullName: string;
+  email: string;
+  avatarUrl: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+export interface OrganizationInvitation {
+  userId: string;
+  fullName: string;
+  email: string;
+  role: OrganizationRole;
+  invitedAt: string;
+}
+
+export interface OrganizationDetails {
+  id: string;
+  name: string;
+  description?: string;
+  website?: string;
+  location?: string;
+  createdAt: string;
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[];
+}
+
+// The recruiter's organization and role in it (both null when they are not in one)
+export interface OrganizationMembership {
+  organization: OrganizationDetails | null;
+  role: OrganizationRole | null;
+  permissions: string[];
+}
+
+// An invitation sent to the logged-in recruiter
+export interface PendingInvitation {
+  organizationId: string;
+  organizationName: string;
+  role: OrganizationRole;
+  invitedAt: string;
+}
+
+export const organizationsApi = {
+  // Get the organization the recruiter belongs to (organization is null if none)
+  getMine: async (): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>('/api/organizations/me');
+  },
+
+  create: async (data: { name: string; description?: string; website?: string; location?: string }): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>('/api/organizations', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  update: async (data: { name?: string; description?: string; website?: string; location?: string }): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>('/api/organizations/me', {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // The recruiter joins only once they accept
+  invite: async (email: string, role: OrganizationRole): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>('/api/organizations/me/invitations', {
+      method: 'POST',
+      body: JSON.stringify({ email, role }),
+    });
+  },
+
+  cancelInvitation: async (userId: string): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>(`/api/organizations/me/invitations/${userId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Invitations waiting for the logged-in recruiter
+  getInvitations: async (): Promise<ApiResponse<{ invitations: PendingInvitation[] }>> => {
+    return apiFetch<{ invitations: PendingInvitation[] }>('/api/organizations/invitations');
+  },
+
+  acceptInvitation: async (organizationId: string): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>(`/api/organizations/invitations/${organizationId}/accept`, {
+      method: 'POST',
+    });
+  },
+
+  declineInvitation: async (organizationId: string): Promise<ApiResponse<void>> => {
+    return apiFetch<void>(`/api/organizations/invitations/${organizationId}/decline`, {
+      method: 'POST',
+    });
+  },
+
+  updateMemberRole: async (userId: string, role: OrganizationRole): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>(`/api/organizations/me/members/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role }),
+    });
+  },
+
+  removeMember: async (userId: string): Promise<ApiResponse<OrganizationMembership>> => {
+    return apiFetch<OrganizationMembership>(`/api/organizations/me/members/${userId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  leave: async (): Promise<ApiResponse<void>> => {
+    return apiFetch<void>('/api/organizations/me/leave', {
+      method: 'POST',
+    });
+  },
+};
+
+export type SkillStatus = 'active' | 'retired';
+
+export interface SkillEntry {
+  _id: string;
+  name: string;
+  aliases: string[];
+  status: SkillStatus;
+  mergedInto?: string; // Skill a retired entry was merged into
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UnmatchedSkill {
+  skill: string;
+  profileCount: number;
+  jobCount: number;
+  total: number;
+  suggestions: string[]; // Existing skills it may belong to
+}
+
+export const skillsApi = {
+  // List skill dictionary entries (platform admins)
+  getAll: async (params?: { status?: SkillStatus | 'all'; search?: string }): Promise<ApiResponse<{ skills: SkillEntry[] }>> => {
+    const query = new URLSearchParams();
+    if (params?.status) query.append('status', params.status);
+    if (params?.search) query.append('search', params.search);
+    const queryString = query.toString();
+    return apiFetch<{ skills: SkillEntry[] }>(`/api/skills${queryString ? `?${queryString}` : ''}`);
+  },
+
+  create: async (name: string, aliases: string[]): Promise<ApiResponse<{ skill: SkillEntry }>> => {
+    return apiFetch<{ skill: SkillEntry }>('/api/skills', {
+      method: 'POST',
+      body: JSON.stringify({ name, aliases }),
+    });
+  },
+
+  // Replace the aliases of a skill
+  updateAliases: async (name: string, aliases: string[]): Promise<ApiResponse<{ skill: SkillEntry }>> => {
+    return apiFetch<{ skill: SkillEntry }>(`/api/skills/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ aliases }),
+    });
+  },
+
+  // Fold a duplicate skill into another one
+  merge: async (name: string, into: string): Promise<ApiResponse<{ skill: SkillEntry }>> => {
+    return apiFetch<{ skill: SkillEntry }>(`/api/skills/${encodeURIComponent(name)}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ into }),
+    });
+  },
+
+  retire: async (name: string): Promise<ApiResponse<{ skill: SkillEntry }>> => {
+    return apiFetch<{ skill: SkillEntry }>(`/api/skills/${encodeURIComponent(name)}/retire`, {
+      method: 'POST',
+    });
+  },
+
+  restore: async (name: string): Promise<ApiResponse<{ skill: SkillEntry }>> => {
+    return apiFetch<{ skill: SkillEntry }>(`/api/skills/${encodeURIComponent(name)}/restore`, {
+      method: 'POST',
+    });
+  },
+
+  // Raw skill strings on profiles and jobs that no skill matches
+  getUnmatched: async (limit?: number): Promise<ApiResponse<{ skills: UnmatchedSkill[] }>> => {
+    return apiFetch<{ skills: UnmatchedSkill[] }>(`/api/skills/unmatched${limit ? `?limit=${limit}` : ''}`);
+  },
+};
+
+export type PromptStatus = 'draft' | 'active' | 'retired';
+
+export interface PromptVersion {
+  _id: string;
+  name: string;
+  version: number;
+  system?: string;
+  template: string;
+  outputSchema: unknown;
+  status: PromptStatus;
+  trafficShare: number;
+  builtIn: boolean;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptEntry {
+  name: string;
+  description: string;
+  variables: string[];
+  versions: PromptVersion[]; // Newest first
+}
+
+export const promptsApi = {
+  // AI prompts with their versions (platform admins)
+  getAll: async (): Promise<ApiResponse<{ prompts: PromptEntry[] }>> => {
+    return apiFetch<{ prompts: PromptEntry[] }>('/api/prompts');
+  },
+
+  // Add a draft version; the output schema defaults to the previous version's
+  createVersion: async (
+    name: string,
+    data: { system?: string; template: string; outputSchema?: unknown; notes?: string }
+  ): Promise<ApiResponse<{ prompt: PromptVersion }>> => {
+    return apiFetch<{ prompt: PromptVersion }>(`/api/prompts/${encodeURIComponent(name)}/versions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  updateRollout: async (
+    name: string,
+    version: number,
+    data: { status?: PromptStatus; trafficShare?: number }
+  ): Promise<ApiResponse<{ prompt: PromptVersion }>> => {
+    return apiFetch<{ prompt: PromptVersion }>(`/api/prompts/${encodeURIComponent(name)}/versions/${version}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Send all traffic to one version (also how a rollback is done)
+  promote: async (name: string, version: number): Promise<ApiResponse<{ prompt: PromptVersion }>> => {
+    return apiFetch<{ prompt: PromptVersion }>(`/api/prompts/${encodeURIComponent(name)}/versions/${version}/promote`, {
+      method: 'POST',
+    });
+  },
+};
+
 export default {
   auth: authApi,
   jobs: jobsApi,
@@ -661,4 +1620,8 @@ export default {
   interviews: interviewsApi,
   talentPool: talentPoolApi,
   notifications: notificationsApi,
+  offers: offersApi,
+  organizations: organizationsApi,
+  skills: skillsApi,
+  prompts: promptsApi,
 };
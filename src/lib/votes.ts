@@ -0,0 +1,9 @@
+import { FeedbackVote } from '@/lib/api';
+
+// Ordered from most negative to most positive, matching the backend
+export const VOTE_OPTIONS: { value: FeedbackVote; label: string; className: string }[] = [
+  { value: 'strong_no_hire', label: 'Strong No Hire', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { value: 'no_hire', label: 'No Hire', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { value: 'hire', label: 'Hire', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { value: 'strong_hire', label: 'Strong Hire', className: 'bg-emerald-100 text-emerald-800 hover:bg-emerald-200' },
+];
@@ -6,9 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { aiApi, applicantApi } from '@/lib/api';
+import { aiApi, applicantApi, SkillLevel, SkillProficiency } from '@/lib/api';
 import {
   User,
   FileText,
@@ -33,6 +34,24 @@ import {
   Mail,
 } from 'lucide-react';
 
+const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+const NOT_RATED = 'unrated';
+
+// Keep the levels the applicant set themselves; fill the other skills from the resume estimate
+const mergeProficiencies = (current: SkillProficiency[], estimated: SkillProficiency[]) => {
+  const own = current.filter((item) => item.source !== 'resume');
+  return [
+    ...own,
+    ...estimated.filter((item) => !own.some((o) => o.skill.toLowerCase() === item.skill.toLowerCase())),
+  ];
+};
+
 const ApplicantProfile = () => {
   const { user, updateUser } = useAuth();
   const { toast } = useToast();
@@ -68,6 +87,7 @@ const ApplicantProfile = () => {
     resumeUrl: '',
     resumeFileName: '',
     skills: [] as string[],
+    skillProficiencies: [] as SkillProficiency[],
     experiences: [] as Experience[],
     education: '',
     preferredRoles: [] as string[],
@@ -188,6 +208,7 @@ const ApplicantProfile = () => {
             resumeUrl: p.resumeUrl || '',
             resumeFileName: p.resumeFileName || '',
             skills: p.skills || [],
+            skillProficiencies: p.skillProficiencies || [],
             experiences: mappedExperiences,
             education: p.educationText || '',
             preferredRoles: p.preferredRoles || [],
@@ -248,7 +269,37 @@ const ApplicantProfile = () => {
   };
 
   const removeSkill = (skill: string) => {
-    setProfile({ ...profile, skills: profile.skills.filter((s) => s !== skill) });
+    setProfile({
+      ...profile,
+      skills: profile.skills.filter((s) => s !== skill),
+      skillProficiencies: profile.skillProficiencies.filter((p) => p.skill !== skill),
+    });
+  };
+
+  const getProficiency = (skill: string) =>
+    profile.skillProficiencies.find((p) => p.skill.toLowerCase() === skill.toLowerCase());
+
+  // Any edit turns a resume estimate into the applicant's own rating
+  const updateProficiency = (skill: string, changes: { level?: SkillLevel | null; yearsUsed?: number }) => {
+    const current = getProficiency(skill);
+    const others = profile.skillProficiencies.filter((p) => p !== current);
+    const level = changes.level === undefined ? current?.level : changes.level;
+    if (!level) {
+      setProfile({ ...profile, skillProficiencies: others });
+      return;
+    }
+    setProfile({
+      ...profile,
+      skillProficiencies: [
+        ...others,
+        {
+          skill,
+          level,
+          yearsUsed: 'yearsUsed' in changes ? changes.yearsUsed : current?.yearsUsed,
+          source: 'self',
+        },
+      ],
+    });
   };
 
   const addRole = () => {
@@ -382,6 +433,7 @@ const ApplicantProfile = () => {
       setProfile(prev => ({
         ...prev,
         skills: parsedData.skills && parsedData.skills.length > 0 ? parsedData.skills : prev.skills,
+        skillProficiencies: mergeProficiencies(prev.skillProficiencies, parsedData.skillProficiencies || []),
         yearsOfExperience: parsedData.yearsOfExperience || prev.yearsOfExperience,
         bio: parsedData.bio || prev.bio,
         location: parsedData.location || prev.location,
@@ -454,6 +506,7 @@ const ApplicantProfile = () => {
 
       await applicantApi.updateProfile({
         skills: profile.skills,
+        skillProficiencies: profile.skillProficiencies,
         preferredRoles: profile.preferredRoles,
         githubUsername: profile.githubUsername,
         leetcodeUsername: profile.leetcodeUsername,
@@ -814,21 +867,65 @@ const ApplicantProfile = () => {
             <Target className="w-5 h-5 text-primary" />
             Skills
           </CardTitle>
-          <CardDescription>Add your technical and soft skills</CardDescription>
+          <CardDescription>
+            Add your technical and soft skills, with your level and years of use so employers can compare them
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-wrap gap-2 mb-4">
-            {profile.skills.map((skill, index) => (
-              <Badge key={`skill-${index}-${skill}`} variant="secondary" className="px-3 py-1.5 text-sm">
-                {skill}
-                <button
-                  onClick={() => removeSkill(skill)}
-                  className="ml-2 hover:text-destructive"
-                >
-                  <X className="w-3 h-3" />
-                </button>
-              </Badge>
-            ))}
+          <div className="space-y-2 mb-4">
+            {profile.skills.map((skill, index) => {
+              const proficiency = getProficiency(skill);
+              return (
+                <div key={`skill-${index}-${skill}`} className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary" className="px-3 py-1.5 text-sm">
+                    {skill}
+                    <button
+                      onClick={() => removeSkill(skill)}
+                      className="ml-2 hover:text-destructive"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                  <Select
+                    value={proficiency?.level || NOT_RATED}
+                    onValueChange={(value) =>
+                      updateProficiency(skill, { level: value === NOT_RATED ? null : (value as SkillLevel) })
+                    }
+                  >
+                    <SelectTrigger className="w-[150px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_RATED}>Level not set</SelectItem>
+                      {Object.entries(SKILL_LEVEL_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {proficiency && (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={50}
+                      step={0.5}
+                      className="w-24 h-8"
+                      placeholder="Years"
+                      value={proficiency.yearsUsed ?? ''}
+                      onChange={(e) =>
+                        updateProficiency(skill, {
+                          yearsUsed: e.target.value === '' ? undefined : Number(e.target.value),
+                        })
+                      }
+                    />
+                  )}
+                  {proficiency?.source === 'resume' && (
+                    <span className="text-xs text-muted-foreground">Estimated from your resume</span>
+                  )}
+                </div>
+              );
+            })}
           </div>
           <div className="flex gap-2">
             <Input
@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useToast } from '@/hooks/use-toast';
 import {
   Dialog,
@@ -27,7 +28,16 @@ import {
   ExternalLink,
   Eye,
 } from 'lucide-react';
-import { jobsApi, applicationsApi } from '@/lib/api';
+import { jobsApi, applicationsApi, ScreeningQuestionType } from '@/lib/api';
+
+// Screening question as applicants see it (knockout rules stay server-side)
+interface ScreeningQuestion {
+  key: string;
+  question: string;
+  type: ScreeningQuestionType;
+  required: boolean;
+  options: string[];
+}
 
 interface Job {
   _id: string;
@@ -35,6 +45,7 @@ interface Job {
   description: string;
   department: string;
   requiredSkills: string[];
+  niceToHaveSkills?: string[];
   experienceLevel: string;
   jobCategory?: string;
   location: string;
@@ -53,6 +64,7 @@ interface Job {
   companyDescription?: string;
   companyWebsite?: string;
   companyLocation?: string;
+  screeningQuestions?: ScreeningQuestion[];
 }
 
 const JobListings = () => {
@@ -65,6 +77,7 @@ const JobListings = () => {
   const [viewDetailsJob, setViewDetailsJob] = useState<Job | null>(null);
   const [isApplying, setIsApplying] = useState(false);
   const [coverLetter, setCoverLetter] = useState('');
+  const [screeningAnswers, setScreeningAnswers] = useState<Record<string, string>>({});
   const { toast } = useToast();
 
   useEffect(() => {
@@ -122,23 +135,41 @@ const JobListings = () => {
       job.requiredSkills.some((skill) => skill.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  const screeningQuestions = selectedJob?.screeningQuestions || [];
+  const hasUnansweredQuestions = screeningQuestions.some(
+    (question) => question.required && !screeningAnswers[question.key]?.trim()
+  );
+
+  const setScreeningAnswer = (key: string, value: string) => {
+    setScreeningAnswers((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const closeApplyDialog = () => {
+    setSelectedJob(null);
+    setCoverLetter('');
+    setScreeningAnswers({});
+  };
+
   const handleApply = async () => {
     if (!selectedJob) return;
 
     try {
       setIsApplying(true);
-      await applicationsApi.apply(selectedJob._id, coverLetter);
+      const response = await applicationsApi.apply(selectedJob._id, coverLetter, screeningAnswers);
       
       // Add to applied jobs set
       setAppliedJobIds(prev => new Set([...prev, selectedJob._id]));
       
+      // Applications failing a knockout question may be declined right away
+      const declined = (response.data as any)?.application?.status === 'rejected';
       toast({
-        title: 'Application submitted!',
-        description: `Your application for ${selectedJob.title} has been submitted successfully.`,
+        title: declined ? 'Application submitted' : 'Application submitted!',
+        description: declined
+          ? response.message || `Your application for ${selectedJob.title} does not meet the basic requirements of this role.`
+          : `Your application for ${selectedJob.title} has been submitted successfully.`,
       });
 
-      setSelectedJob(null);
-      setCoverLetter('');
+      closeApplyDialog();
       fetchJobs(); // Refresh to update applicant counts
     } catch (error: any) {
       toast({
@@ -301,12 +332,14 @@ const JobListings = () => {
       )}
 
       {/* Application Dialog */}
-      <Dialog open={!!selectedJob} onOpenChange={(open) => !open && setSelectedJob(null)}>
-        <DialogContent className="sm:max-w-[600px]">
+      <Dialog open={!!selectedJob} onOpenChange={(open) => !open && closeApplyDialog()}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Apply for {selectedJob?.title}</DialogTitle>
             <DialogDescription>
-              Submit your application with an optional cover letter
+              {screeningQuestions.length > 0
+                ? 'Answer a few questions and add an optional cover letter'
+                : 'Submit your application with an optional cover letter'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 mt-4">
@@ -321,6 +354,46 @@ const JobListings = () => {
                 ))}
               </div>
             </div>
+            {screeningQuestions.map((question) => (
+              <div key={question.key} className="space-y-2">
+                <Label htmlFor={`screening-${question.key}`}>
+                  {question.question}
+                  {question.required && <span className="text-destructive"> *</span>}
+                </Label>
+                {question.type === 'yes_no' || question.type === 'single_choice' ? (
+                  <RadioGroup
+                    id={`screening-${question.key}`}
+                    value={screeningAnswers[question.key] || ''}
+                    onValueChange={(value) => setScreeningAnswer(question.key, value)}
+                    className="flex flex-wrap gap-4"
+                  >
+                    {(question.type === 'yes_no' ? ['yes', 'no'] : question.options).map((option) => (
+                      <div key={option} className="flex items-center gap-2">
+                        <RadioGroupItem value={option} id={`screening-${question.key}-${option}`} />
+                        <Label htmlFor={`screening-${question.key}-${option}`} className="font-normal capitalize">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                ) : question.type === 'numeric' ? (
+                  <Input
+                    id={`screening-${question.key}`}
+                    type="number"
+                    className="w-40"
+                    value={screeningAnswers[question.key] || ''}
+                    onChange={(e) => setScreeningAnswer(question.key, e.target.value)}
+                  />
+                ) : (
+                  <Textarea
+                    id={`screening-${question.key}`}
+                    value={screeningAnswers[question.key] || ''}
+                    onChange={(e) => setScreeningAnswer(question.key, e.target.value)}
+                    rows={3}
+                  />
+                )}
+              </div>
+            ))}
             <div className="space-y-2">
               <Label htmlFor="coverLetter">Cover Letter (optional)</Label>
               <Textarea
@@ -332,10 +405,10 @@ const JobListings = () => {
               />
             </div>
             <div className="flex justify-end gap-3 mt-6">
-              <Button variant="outline" onClick={() => setSelectedJob(null)} disabled={isApplying}>
+              <Button variant="outline" onClick={closeApplyDialog} disabled={isApplying}>
                 Cancel
               </Button>
-              <Button variant="gradient" onClick={handleApply} disabled={isApplying}>
+              <Button variant="gradient" onClick={handleApply} disabled={isApplying || hasUnansweredQuestions}>
                 {isApplying ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
@@ -436,6 +509,20 @@ const JobListings = () => {
               </div>
             </div>
 
+            {/* Nice-to-have Skills */}
+            {!!viewDetailsJob?.niceToHaveSkills?.length && (
+              <div>
+                <h4 className="font-semibold mb-2">Nice-to-have Skills</h4>
+                <div className="flex gap-2 flex-wrap">
+                  {viewDetailsJob.niceToHaveSkills.map((skill) => (
+                    <Badge key={skill} variant="outline">
+                      {skill}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Company Details Section - Always show */}
             <div className="border-t pt-6">
               <h4 className="font-semibold mb-4 flex items-center gap-2">
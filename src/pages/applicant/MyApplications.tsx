@@ -4,9 +4,11 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'react-router-dom';
-import { applicationsApi } from '@/lib/api';
+import { applicationsApi, offersApi, ApplicantOffer } from '@/lib/api';
 import { ApplicationTimeline } from '@/components/applicant/ApplicationTimeline';
 import RejectionFeedbackCard from '@/components/applicant/RejectionFeedbackCard';
+import OfferCard from '@/components/applicant/OfferCard';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
 import {
   Dialog,
   DialogContent,
@@ -91,6 +93,7 @@ const MyApplications = () => {
     feedback: RejectionFeedback;
   } | null>(null);
   const [applications, setApplications] = useState<Application[]>([]);
+  const [offersByApplication, setOffersByApplication] = useState<Record<string, ApplicantOffer>>({});
   const [expandedApplication, setExpandedApplication] = useState<string | null>(null);
   const [applicationFilter, setApplicationFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -110,10 +113,21 @@ const MyApplications = () => {
   const fetchApplications = async () => {
     try {
       setLoading(true);
-      const response = await applicationsApi.getMyApplications();
+      const [response, offersResponse] = await Promise.all([
+        applicationsApi.getMyApplications(),
+        offersApi.getMyOffers().catch(() => null),
+      ]);
       const apps = (response.data as any)?.applications || [];
       setApplications(apps);
 
+      // Offers come back newest first - keep the latest one per application
+      const offers = offersResponse?.data?.offers || [];
+      const latestOffers: Record<string, ApplicantOffer> = {};
+      offers.forEach((offer) => {
+        if (!latestOffers[offer.applicationId]) latestOffers[offer.applicationId] = offer;
+      });
+      setOffersByApplication(latestOffers);
+
       // Calculate statistics
       setStats({
         total: apps.length,
@@ -165,6 +179,7 @@ const MyApplications = () => {
       case 'interview':
         return 'default';
       case 'selected':
+      case 'hired':
         return 'selected';
       case 'rejected':
         return 'rejected';
@@ -183,6 +198,8 @@ const MyApplications = () => {
         return 'Interview';
       case 'selected':
         return 'Selected';
+      case 'hired':
+        return 'Hired';
       case 'rejected':
         return 'Rejected';
       default:
@@ -199,6 +216,7 @@ const MyApplications = () => {
       case 'interview':
         return <Calendar className="w-4 h-4" />;
       case 'selected':
+      case 'hired':
         return <CheckCircle2 className="w-4 h-4" />;
       case 'rejected':
         return <XCircle className="w-4 h-4" />;
@@ -239,12 +257,15 @@ const MyApplications = () => {
             Track and manage all your job applications
           </p>
         </div>
-        <Link to="/applicant/jobs">
-          <Button variant="gradient">
-            <Briefcase className="w-4 h-4 mr-2" />
-            Browse More Jobs
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          <CalendarFeedDialog />
+          <Link to="/applicant/jobs">
+            <Button variant="gradient">
+              <Briefcase className="w-4 h-4 mr-2" />
+              Browse More Jobs
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -514,6 +535,14 @@ const MyApplications = () => {
                         </div>
                       )}
 
+                      {/* Job Offer */}
+                      {offersByApplication[application._id] && (
+                        <OfferCard
+                          offer={offersByApplication[application._id]}
+                          onResponded={fetchApplications}
+                        />
+                      )}
+
                       {/* Status Timeline Preview */}
                       {application.statusHistory && application.statusHistory.length > 0 && (
                         <div className="bg-background rounded-lg p-4">
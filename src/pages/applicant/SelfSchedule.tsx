@@ -0,0 +1,225 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { schedulingLinksApi, PublicSchedulingLink, SchedulingDay, SchedulingLinkStatus, TimeSlot } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Calendar as CalendarIcon, CheckCircle, CheckCircle2, Clock, Loader2, XCircle } from 'lucide-react';
+
+const STATUS_MESSAGES: Record<Exclude<SchedulingLinkStatus, 'pending'>, string> = {
+  booked: 'An interview has already been booked with this link.',
+  cancelled: 'This scheduling link has been withdrawn by the hiring team.',
+  expired: 'This scheduling link has expired. Please contact the hiring team for a new one.',
+};
+
+// Show dates as "Mon, Oct 20" without shifting them through the browser's timezone
+const formatDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+const SelfSchedule = () => {
+  const { token } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const [link, setLink] = useState<PublicSchedulingLink['link'] | null>(null);
+  const [days, setDays] = useState<SchedulingDay[]>([]);
+  const [timezone, setTimezone] = useState('');
+  const [selectedDay, setSelectedDay] = useState('');
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [booking, setBooking] = useState(false);
+  const [booked, setBooked] = useState<TimeSlot | null>(null);
+
+  const loadLink = useCallback(async () => {
+    if (!token) return;
+    try {
+      setLoading(true);
+      const response = await schedulingLinksApi.getPublic(token);
+      setLink(response.data?.link || null);
+      setDays(response.data?.days || []);
+      setTimezone(response.data?.timezone || '');
+      setSelectedDay(response.data?.days?.[0]?.date || '');
+      setSelectedSlot(null);
+    } catch (error: any) {
+      setError(error.message || 'This scheduling link is not valid');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadLink();
+  }, [loadLink]);
+
+  const handleBook = async () => {
+    if (!token || !selectedSlot) return;
+    try {
+      setBooking(true);
+      await schedulingLinksApi.book(token, selectedSlot.startTime);
+      setBooked(selectedSlot);
+    } catch (error: any) {
+      toast({
+        title: 'Booking Failed',
+        description: error.message || 'Failed to book this slot',
+        variant: 'destructive',
+      });
+      // The slot may have been taken in the meantime - refresh what is on offer
+      loadLink();
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  const currentDay = days.find((day) => day.date === selectedDay);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    if (error || !link) {
+      return (
+        <div className="text-center py-8 space-y-4">
+          <XCircle className="w-12 h-12 mx-auto text-red-600" />
+          <p className="text-muted-foreground">{error || 'This scheduling link is not valid'}</p>
+        </div>
+      );
+    }
+
+    if (booked) {
+      return (
+        <div className="text-center py-8 space-y-4">
+          <div className="w-20 h-20 mx-auto rounded-full bg-green-100 flex items-center justify-center animate-fade-in">
+            <CheckCircle2 className="w-12 h-12 text-green-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-green-700">You're Booked!</h2>
+          <p className="text-muted-foreground">
+            {new Date(booked.startTime).toLocaleString('en-US', {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric',
+              hour: '2-digit',
+              minute: '2-digit',
+            })}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            A confirmation email with a calendar invite is on its way.
+          </p>
+        </div>
+      );
+    }
+
+    if (link.status !== 'pending') {
+      return (
+        <div className="text-center py-8 space-y-4">
+          <Clock className="w-12 h-12 mx-auto text-muted-foreground opacity-50" />
+          <p className="text-muted-foreground">{STATUS_MESSAGES[link.status]}</p>
+        </div>
+      );
+    }
+
+    if (days.length === 0) {
+      return (
+        <div className="text-center py-8 space-y-2 text-muted-foreground">
+          <Clock className="w-12 h-12 mx-auto opacity-50" />
+          <p>No time slots are available right now.</p>
+          <p className="text-sm">Please contact the hiring team to arrange another time.</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Pick a day</p>
+          <div className="flex flex-wrap gap-2">
+            {days.map((day) => (
+              <Button
+                key={day.date}
+                variant={selectedDay === day.date ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setSelectedDay(day.date);
+                  setSelectedSlot(null);
+                }}
+              >
+                {formatDay(day.date)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {currentDay && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pick a time</p>
+            {timezone && <p className="text-xs text-muted-foreground">Times shown in {timezone}</p>}
+            <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto p-2 border rounded-md">
+              {currentDay.slots.map((slot) => (
+                <Button
+                  key={slot.startTime}
+                  variant={selectedSlot?.startTime === slot.startTime ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSelectedSlot(slot)}
+                  className="text-xs"
+                >
+                  {selectedSlot?.startTime === slot.startTime && <CheckCircle className="w-3 h-3 mr-1" />}
+                  {slot.displayTime.split(' - ')[0]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Button variant="gradient" size="lg" className="w-full" onClick={handleBook} disabled={!selectedSlot || booking}>
+          {booking ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Booking...
+            </>
+          ) : (
+            <>
+              <CalendarIcon className="w-4 h-4 mr-2" />
+              {selectedSlot ? `Book ${formatDay(selectedDay)}, ${selectedSlot.displayTime}` : 'Select a time slot'}
+            </>
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-secondary/5 flex items-center justify-center p-4">
+      <Card className="max-w-xl w-full shadow-xl">
+        <CardHeader>
+          <CardTitle className="text-xl">Schedule Your Interview</CardTitle>
+          {link && (
+            <CardDescription className="space-y-2">
+              <span className="block">
+                {link.jobTitle}
+                {link.companyName && ` at ${link.companyName}`}
+              </span>
+              <span className="flex gap-2">
+                <Badge variant="secondary">{link.type}</Badge>
+                <Badge variant="outline">{link.duration} minutes</Badge>
+              </span>
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SelfSchedule;
@@ -11,9 +11,12 @@ import { useToast } from '@/hooks/use-toast';
 import { applicationsApi, aiApi } from '@/lib/api';
 import { StatusUpdateDialog } from '@/components/recruiter/StatusUpdateDialog';
 import { InterviewFocusPanel } from '@/components/recruiter/InterviewFocusPanel';
+import { ScorecardSummaryPanel } from '@/components/recruiter/ScorecardSummaryPanel';
+import { ScoreExplanationPanel } from '@/components/recruiter/ScoreExplanationPanel';
+import { EvaluationHistoryPanel } from '@/components/recruiter/EvaluationHistoryPanel';
 import { SkillGapHeatmap } from '@/components/recruiter/SkillGapHeatmap';
 import { CandidateSearchBar } from '@/components/recruiter/CandidateSearchBar';
-import { CandidateFilters } from '@/components/recruiter/CandidateFilters';
+import { CandidateFilters, PipelineStageOption } from '@/components/recruiter/CandidateFilters';
 import { interviewTopics } from '@/data/interviewQuestions';
 import {
   RadarChart,
@@ -126,7 +129,7 @@ const CandidateEvaluation = () => {
   // Filter and Search State
   const [searchTerm, setSearchTerm] = useState('');
   const [filters, setFilters] = useState({
-    status: [] as string[],
+    stage: [] as string[],
     jobId: 'all',
     scoreRange: [0, 100] as [number, number],
     recommendation: 'all',
@@ -143,6 +146,7 @@ const CandidateEvaluation = () => {
     totalPages: 0,
   });
   const [availableJobs, setAvailableJobs] = useState<Array<{ _id: string; title: string }>>([]);
+  const [availableStages, setAvailableStages] = useState<PipelineStageOption[]>([]);
   
   // Status update dialog state for Phase 3
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
@@ -215,9 +219,9 @@ const CandidateEvaluation = () => {
           limit: pagination.limit,
         };
 
-        // Add status filter if any statuses are selected
-        if (filters.status.length > 0) {
-          filterParams.status = filters.status;
+        // Add pipeline stage filter if any stages are selected
+        if (filters.stage.length > 0) {
+          filterParams.stage = filters.stage;
         }
 
         // Add job filter if not "all"
@@ -266,6 +270,9 @@ const CandidateEvaluation = () => {
           if (response.data.filterOptions?.jobs) {
             setAvailableJobs(response.data.filterOptions.jobs);
           }
+          if (response.data.filterOptions?.stages) {
+            setAvailableStages(response.data.filterOptions.stages);
+          }
 
           // Auto-select first application if exists
           if (response.data.applications && response.data.applications.length > 0) {
@@ -379,7 +386,7 @@ const CandidateEvaluation = () => {
   // Filter and pagination handlers
   const handleClearFilters = () => {
     setFilters({
-      status: [],
+      stage: [],
       jobId: 'all',
       scoreRange: [0, 100],
       recommendation: 'all',
@@ -1403,7 +1410,7 @@ const CandidateEvaluation = () => {
   }
 
   const hasActiveFilters = 
-    filters.status.length > 0 ||
+    filters.stage.length > 0 ||
     filters.jobId !== 'all' ||
     filters.scoreRange[0] > 0 ||
     filters.scoreRange[1] < 100 ||
@@ -1442,6 +1449,7 @@ const CandidateEvaluation = () => {
             filters={filters}
             onChange={setFilters}
             jobs={availableJobs}
+            stages={availableStages}
             onClearAll={handleClearFilters}
             resultsCount={pagination.total}
           />
@@ -1516,6 +1524,7 @@ const CandidateEvaluation = () => {
         filters={filters}
         onChange={setFilters}
         jobs={availableJobs}
+        stages={availableStages}
         onClearAll={handleClearFilters}
         resultsCount={pagination.total}
       />
@@ -1694,11 +1703,13 @@ const CandidateEvaluation = () => {
             )}
 
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-4 h-12">
+              <TabsList className="grid w-full grid-cols-6 h-12">
                 <TabsTrigger value="overview" className="text-base font-medium">Overview</TabsTrigger>
                 <TabsTrigger value="skills" className="text-base font-medium">Skills Analysis</TabsTrigger>
                 <TabsTrigger value="ai" className="text-base font-medium">AI Insights</TabsTrigger>
+                <TabsTrigger value="explanation" className="text-base font-medium">Why this score</TabsTrigger>
                 <TabsTrigger value="interview" className="text-base font-medium">Interview Focus</TabsTrigger>
+                <TabsTrigger value="scorecards" className="text-base font-medium">Scorecards</TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="space-y-4 mt-4">
@@ -2593,6 +2604,21 @@ const CandidateEvaluation = () => {
                   </Card>
                 )}
               </TabsContent>
+
+              <TabsContent value="explanation" className="space-y-4 mt-4">
+                <ScoreExplanationPanel
+                  applicationId={selectedApplication._id}
+                  overallScore={selectedApplication.aiInsights?.overallScore}
+                />
+                <EvaluationHistoryPanel
+                  applicationId={selectedApplication._id}
+                  overallScore={selectedApplication.aiInsights?.overallScore}
+                />
+              </TabsContent>
+
+              <TabsContent value="scorecards" className="space-y-4 mt-4">
+                <ScorecardSummaryPanel applicationId={selectedApplication._id} />
+              </TabsContent>
             </Tabs>
           </div>
         )}
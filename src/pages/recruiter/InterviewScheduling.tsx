@@ -4,8 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { interviewsApi } from '@/lib/api';
-import { Calendar as CalendarIcon, Clock, Video, User, Briefcase, Link as LinkIcon, Loader2, XCircle, Edit, AlertTriangle, CheckCircle, Bell, Info } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, Video, User, Briefcase, Link as LinkIcon, Loader2, XCircle, Edit, AlertTriangle, CheckCircle, Bell, Info, CheckSquare } from 'lucide-react';
 import RescheduleInterviewDialog from '@/components/recruiter/RescheduleInterviewDialog';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
+import { InterviewFeedbackDialog } from '@/components/recruiter/InterviewFeedbackDialog';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface Interview {
@@ -26,6 +28,10 @@ interface Interview {
   meetingLink: string;
   status: 'scheduled' | 'completed' | 'cancelled' | 'rescheduled';
   notes?: string;
+  // Interview loop round, if the job has an interview plan
+  roundKey?: string;
+  roundName?: string;
+  roundOutcome?: 'passed' | 'failed';
   // Drop-off detection fields
   candidateConfirmed?: boolean;
   dropOffRisk?: 'low' | 'medium' | 'high';
@@ -231,6 +237,40 @@ const InterviewScheduling = () => {
     }
   };
 
+  const handleMarkCompleted = async (id: string) => {
+    try {
+      await interviewsApi.update(id, { status: 'completed' });
+      toast({
+        title: 'Interview Completed',
+        description: 'The panel can now submit their scorecards',
+      });
+      loadInterviews();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update interview',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRoundOutcome = async (id: string, outcome: 'passed' | 'failed') => {
+    try {
+      const response = await interviewsApi.recordOutcome(id, outcome);
+      toast({
+        title: outcome === 'passed' ? 'Round Passed' : 'Round Failed',
+        description: response.message,
+      });
+      loadInterviews();
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to record round outcome',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const variants = {
       scheduled: 'default',
@@ -288,6 +328,7 @@ const InterviewScheduling = () => {
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
+          <CalendarFeedDialog />
         </div>
       </div>
 
@@ -387,6 +428,9 @@ const InterviewScheduling = () => {
                       <div>
                         <p className="text-muted-foreground mb-1">Type</p>
                         <Badge variant="secondary">{interview.type}</Badge>
+                        {interview.roundName && (
+                          <Badge variant="outline" className="ml-1">{interview.roundName}</Badge>
+                        )}
                       </div>
                       <div>
                         <p className="text-muted-foreground mb-1">Status</p>
@@ -414,6 +458,44 @@ const InterviewScheduling = () => {
                           Join Meeting
                         </Button>
                       )}
+                      {(interview.status === 'scheduled' || interview.status === 'rescheduled') &&
+                        new Date(interview.scheduledTime) < new Date() && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleMarkCompleted(interview._id)}
+                        >
+                          <CheckSquare className="w-4 h-4 mr-2" />
+                          Mark Completed
+                        </Button>
+                      )}
+                      {interview.status === 'completed' && interview.roundKey && !interview.roundOutcome && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="success"
+                            className="flex-1"
+                            onClick={() => handleRoundOutcome(interview._id, 'passed')}
+                          >
+                            Pass Round
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            className="flex-1"
+                            onClick={() => handleRoundOutcome(interview._id, 'failed')}
+                          >
+                            Fail Round
+                          </Button>
+                        </div>
+                      )}
+                      {interview.status !== 'cancelled' && (
+                        <InterviewFeedbackDialog
+                          interviewId={interview._id}
+                          applicantName={interview.applicationId.applicantId.fullName}
+                          jobTitle={interview.applicationId.jobId.title}
+                        />
+                      )}
                       {interview.status === 'scheduled' && (
                         <>
                           {/* Send Reminder Button - show for unconfirmed interviews */}
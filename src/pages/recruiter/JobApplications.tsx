@@ -1,12 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { applicationsApi, aiApi } from '@/lib/api';
+import { applicationsApi, aiApi, EvaluationBatchProgress } from '@/lib/api';
 import { useToast } from '@/hooks/use-toast';
 import { UpdateStatusDialog } from '@/components/recruiter/UpdateStatusDialog';
 import { ScheduleInterviewDialog } from '@/components/recruiter/ScheduleInterviewDialog';
+import { SendSchedulingLinkDialog } from '@/components/recruiter/SendSchedulingLinkDialog';
+import { InterviewLoopDialog } from '@/components/recruiter/InterviewLoopDialog';
+import { BulkEvaluationProgress } from '@/components/recruiter/BulkEvaluationProgress';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
   User,
@@ -22,6 +25,7 @@ import {
   Filter,
   Clock,
   Download,
+  ShieldAlert,
 } from 'lucide-react';
 
 interface Application {
@@ -46,6 +50,17 @@ interface Application {
     githubScore: number;
     recommendation: string;
   };
+  screeningAnswers?: {
+    questionKey: string;
+    question: string;
+    answer: string | number;
+    knockedOut: boolean;
+  }[];
+  screeningResult?: {
+    passed: boolean;
+    failedQuestions: string[];
+    action: 'none' | 'flagged' | 'rejected';
+  };
 }
 
 const JobApplications = () => {
@@ -57,6 +72,7 @@ const JobApplications = () => {
   const [applications, setApplications] = useState<Application[]>([]);
   const [loading, setLoading] = useState(true);
   const [evaluating, setEvaluating] = useState(false);
+  const [evaluationBatch, setEvaluationBatch] = useState<EvaluationBatchProgress | null>(null);
   const [selectedCandidates, setSelectedCandidates] = useState<string[]>([]);
   const [statusFilter, setStatusFilter] = useState<string>('all');
 
@@ -72,13 +88,7 @@ const JobApplications = () => {
     rejected: applications.filter(app => app.status === 'rejected').length,
   };
 
-  useEffect(() => {
-    if (jobId) {
-      loadApplications();
-    }
-  }, [jobId]);
-
-  const loadApplications = async () => {
+  const loadApplications = useCallback(async () => {
     try {
       setLoading(true);
       const response = await applicationsApi.getByJob(jobId!);
@@ -94,25 +104,69 @@ const JobApplications = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [jobId, toast]);
+
+  const loadEvaluationBatch = useCallback(async () => {
+    try {
+      const response = await aiApi.getLatestEvaluationBatch(jobId!);
+      // Resume showing a run that is still in progress
+      if (response.data?.status === 'running') {
+        setEvaluationBatch(response.data);
+        setEvaluating(true);
+      }
+    } catch {
+      // Progress is optional - the page works without it
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    if (jobId) {
+      loadApplications();
+      loadEvaluationBatch();
+    }
+  }, [jobId, loadApplications, loadEvaluationBatch]);
+
+  // Poll a running bulk evaluation until it finishes
+  useEffect(() => {
+    if (evaluationBatch?.status !== 'running') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await aiApi.getEvaluationBatch(evaluationBatch.batchId);
+        if (response.data) {
+          setEvaluationBatch(response.data);
+          if (response.data.status !== 'running') {
+            setEvaluating(false);
+            loadApplications();
+          }
+        }
+      } catch {
+        // Keep the last known progress and try again on the next tick
+        setEvaluationBatch((prev) => (prev ? { ...prev } : prev));
+      }
+    }, 2000);
+
+    return () => clearTimeout(timer);
+  }, [evaluationBatch, loadApplications]);
 
   const handleEvaluateAll = async () => {
     setEvaluating(true);
     try {
-      await aiApi.evaluateJobApplications(jobId!);
+      const response = await aiApi.evaluateJobApplications(jobId!);
+      if (response.data) {
+        setEvaluationBatch(response.data);
+      }
       toast({
-        title: 'Evaluation Complete',
-        description: 'All applications have been evaluated',
+        title: 'Evaluation Started',
+        description: response.message || 'Applications are being evaluated in the background',
       });
-      loadApplications();
     } catch (error: any) {
+      setEvaluating(false);
       toast({
         title: 'Error',
         description: error.message || 'Failed to evaluate applications',
         variant: 'destructive',
       });
-    } finally {
-      setEvaluating(false);
     }
   };
 
@@ -289,6 +343,10 @@ const JobApplications = () => {
         )}
       </div>
 
+      {evaluationBatch && (
+        <BulkEvaluationProgress batch={evaluationBatch} onDismiss={() => setEvaluationBatch(null)} />
+      )}
+
       {applications.length === 0 ? (
         <Card>
           <CardContent className="p-12 text-center">
@@ -389,6 +447,12 @@ const JobApplications = () => {
                       </div>
                     )}
                     <Badge className="capitalize">{app.status.replace('_', ' ')}</Badge>
+                    {app.screeningResult && !app.screeningResult.passed && (
+                      <Badge variant="destructive" className="gap-1">
+                        <ShieldAlert className="w-3 h-3" />
+                        Failed screening
+                      </Badge>
+                    )}
                     <ScheduleInterviewDialog
                       applicationId={app._id}
                       applicantName={app.applicantId.fullName}
@@ -396,6 +460,19 @@ const JobApplications = () => {
                       onScheduled={loadApplications}
                       trigger={<Button size="sm" variant="default">Schedule Interview</Button>}
                     />
+                    <InterviewLoopDialog
+                      applicationId={app._id}
+                      applicantName={app.applicantId.fullName}
+                      jobTitle={app.jobId.title}
+                      onChanged={loadApplications}
+                      trigger={<Button size="sm" variant="outline">Interview Loop</Button>}
+                    />
+                    <SendSchedulingLinkDialog
+                      applicationId={app._id}
+                      applicantName={app.applicantId.fullName}
+                      jobTitle={app.jobId.title}
+                      trigger={<Button size="sm" variant="outline">Send Scheduling Link</Button>}
+                    />
                     <UpdateStatusDialog
                       applicationId={app._id}
                       currentStatus={app.status}
@@ -419,6 +496,20 @@ const JobApplications = () => {
                   </div>
                 )}
 
+                {app.screeningAnswers && app.screeningAnswers.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-1">
+                    <p className="text-sm font-medium mb-2">Screening Answers:</p>
+                    {app.screeningAnswers.map((answer) => (
+                      <p key={answer.questionKey} className="text-sm">
+                        <span className="text-muted-foreground">{answer.question} </span>
+                        <span className={answer.knockedOut ? 'font-medium text-destructive' : 'font-medium'}>
+                          {String(answer.answer)}
+                        </span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+
                 {app.aiInsights && (
                   <div className="mt-4 pt-4 border-t flex gap-6 text-sm">
                     <div>
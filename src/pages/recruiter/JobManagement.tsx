@@ -24,7 +24,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Plus, Briefcase, Users, Eye, Edit, Trash2, MapPin, Clock, Loader2, AlertTriangle, UserX, Target } from 'lucide-react';
+import { Plus, Briefcase, Users, Eye, Edit, Trash2, MapPin, Clock, Loader2, AlertTriangle, UserX, Target, GitBranch, ClipboardList, ListOrdered, SlidersHorizontal, ListChecks, Gauge } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -34,6 +34,12 @@ import {
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { jobsApi, applicationsApi } from '@/lib/api';
+import { PipelineEditorDialog } from '@/components/recruiter/PipelineEditorDialog';
+import { ScorecardEditorDialog } from '@/components/recruiter/ScorecardEditorDialog';
+import { InterviewPlanEditorDialog } from '@/components/recruiter/InterviewPlanEditorDialog';
+import { ScoringWeightsEditorDialog } from '@/components/recruiter/ScoringWeightsEditorDialog';
+import { ScreeningQuestionsEditorDialog } from '@/components/recruiter/ScreeningQuestionsEditorDialog';
+import { SkillRequirementsEditorDialog } from '@/components/recruiter/SkillRequirementsEditorDialog';
 
 interface Job {
   _id: string;
@@ -41,6 +47,7 @@ interface Job {
   description: string;
   department: string;
   requiredSkills: string[];
+  niceToHaveSkills?: string[];
   experienceLevel: string;
   jobCategory: string;
   location: string;
@@ -63,11 +70,18 @@ const JobManagement = () => {
   const [bulkRejectDialog, setBulkRejectDialog] = useState<{ open: boolean; job: Job | null }>({ open: false, job: null });
   const [confirmationText, setConfirmationText] = useState('');
   const [isBulkRejecting, setIsBulkRejecting] = useState(false);
+  const [pipelineJob, setPipelineJob] = useState<Job | null>(null);
+  const [scorecardJob, setScorecardJob] = useState<Job | null>(null);
+  const [interviewPlanJob, setInterviewPlanJob] = useState<Job | null>(null);
+  const [scoringWeightsJob, setScoringWeightsJob] = useState<Job | null>(null);
+  const [screeningJob, setScreeningJob] = useState<Job | null>(null);
+  const [skillsJob, setSkillsJob] = useState<Job | null>(null);
   const [newJob, setNewJob] = useState({
     title: '',
     description: '',
     department: '',
     requiredSkills: '',
+    niceToHaveSkills: '',
     experienceLevel: '',
     jobCategory: 'software',
     location: 'Remote',
@@ -119,6 +133,7 @@ const JobManagement = () => {
         description: newJob.description,
         department: newJob.department || 'Engineering',
         requiredSkills: newJob.requiredSkills.split(',').map((s) => s.trim()).filter(Boolean),
+        niceToHaveSkills: newJob.niceToHaveSkills.split(',').map((s) => s.trim()).filter(Boolean),
         experienceLevel: newJob.experienceLevel,
         jobCategory: newJob.jobCategory,
         location: newJob.location,
@@ -142,6 +157,7 @@ const JobManagement = () => {
         description: '',
         department: '',
         requiredSkills: '',
+        niceToHaveSkills: '',
         experienceLevel: '',
         jobCategory: 'software',
         location: 'Remote',
@@ -242,6 +258,15 @@ const JobManagement = () => {
                   onChange={(e) => setNewJob({ ...newJob, requiredSkills: e.target.value })}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="niceToHaveSkills">Nice-to-have Skills (comma-separated)</Label>
+                <Input
+                  id="niceToHaveSkills"
+                  placeholder="Docker, GraphQL"
+                  value={newJob.niceToHaveSkills}
+                  onChange={(e) => setNewJob({ ...newJob, niceToHaveSkills: e.target.value })}
+                />
+              </div>
               
               {/* Match Threshold Slider */}
               <div className="space-y-3 bg-gradient-to-br from-primary/5 to-secondary/5 p-4 rounded-lg border border-primary/20">
@@ -467,6 +492,11 @@ const JobManagement = () => {
                               +{job.requiredSkills.length - 4} more
                             </Badge>
                           )}
+                          {!!job.niceToHaveSkills?.length && (
+                            <Badge variant="outline" className="text-xs">
+                              +{job.niceToHaveSkills.length} nice to have
+                            </Badge>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -504,6 +534,54 @@ const JobManagement = () => {
                         <Eye className="w-4 h-4" />
                         View
                       </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setPipelineJob(job)}
+                      >
+                        <GitBranch className="w-4 h-4" />
+                        Pipeline
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setScorecardJob(job)}
+                      >
+                        <ClipboardList className="w-4 h-4" />
+                        Scorecard
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setInterviewPlanJob(job)}
+                      >
+                        <ListOrdered className="w-4 h-4" />
+                        Interview Plan
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setScoringWeightsJob(job)}
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                        Scoring Weights
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setScreeningJob(job)}
+                      >
+                        <ListChecks className="w-4 h-4" />
+                        Screening
+                      </Button>
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => setSkillsJob(job)}
+                      >
+                        <Gauge className="w-4 h-4" />
+                        Skills
+                      </Button>
                       <Button 
                         variant="ghost" 
                         size="sm"
@@ -520,6 +598,55 @@ const JobManagement = () => {
         </div>
       )}
 
+      {/* Hiring Pipeline Editor */}
+      <PipelineEditorDialog
+        open={pipelineJob !== null}
+        onOpenChange={(open) => !open && setPipelineJob(null)}
+        jobId={pipelineJob?._id || ''}
+        jobTitle={pipelineJob?.title || ''}
+      />
+
+      {/* Interview Scorecard Editor */}
+      <ScorecardEditorDialog
+        open={scorecardJob !== null}
+        onOpenChange={(open) => !open && setScorecardJob(null)}
+        jobId={scorecardJob?._id || ''}
+        jobTitle={scorecardJob?.title || ''}
+      />
+
+      {/* Interview Loop Editor */}
+      <InterviewPlanEditorDialog
+        open={interviewPlanJob !== null}
+        onOpenChange={(open) => !open && setInterviewPlanJob(null)}
+        jobId={interviewPlanJob?._id || ''}
+        jobTitle={interviewPlanJob?.title || ''}
+      />
+
+      {/* Scoring Weights Editor */}
+      <ScoringWeightsEditorDialog
+        open={scoringWeightsJob !== null}
+        onOpenChange={(open) => !open && setScoringWeightsJob(null)}
+        jobId={scoringWeightsJob?._id || ''}
+        jobTitle={scoringWeightsJob?.title || ''}
+      />
+
+      {/* Screening Questions Editor */}
+      <ScreeningQuestionsEditorDialog
+        open={screeningJob !== null}
+        onOpenChange={(open) => !open && setScreeningJob(null)}
+        jobId={screeningJob?._id || ''}
+        jobTitle={screeningJob?.title || ''}
+      />
+
+      {/* Skill Requirements Editor */}
+      <SkillRequirementsEditorDialog
+        open={skillsJob !== null}
+        onOpenChange={(open) => !open && setSkillsJob(null)}
+        jobId={skillsJob?._id || ''}
+        jobTitle={skillsJob?.title || ''}
+        onSaved={fetchJobs}
+      />
+
       {/* Bulk Rejection Confirmation Dialog */}
       <AlertDialog open={bulkRejectDialog.open} onOpenChange={(open) => {
         if (!open) {
@@ -0,0 +1,408 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  organizationsApi,
+  ApiResponse,
+  OrganizationDetails,
+  OrganizationMembership,
+  OrganizationRole,
+  PendingInvitation,
+} from '@/lib/api';
+import { Building2, Users, UserPlus, Loader2, Save, Trash2, LogOut, Shield, Mail, Check, X } from 'lucide-react';
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: 'Admin',
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring Manager',
+};
+
+const ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  admin: 'Full access, including team management and deleting jobs',
+  recruiter: 'Create and edit jobs, move candidates, send offers, manage the talent pool',
+  hiring_manager: 'Review candidates, update their stage and schedule interviews',
+};
+
+const Organization = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [organization, setOrganization] = useState<OrganizationDetails | null>(null);
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [details, setDetails] = useState({ name: '', description: '', website: '', location: '' });
+  const [newMember, setNewMember] = useState<{ email: string; role: OrganizationRole }>({ email: '', role: 'recruiter' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  const isAdmin = role === 'admin';
+
+  const applyResponse = useCallback((data?: OrganizationMembership) => {
+    const org = data?.organization || null;
+    setOrganization(org);
+    setRole(data?.role || null);
+    if (org) {
+      setDetails({
+        name: org.name || '',
+        description: org.description || '',
+        website: org.website || '',
+        location: org.location || '',
+      });
+    }
+  }, []);
+
+  const fetchOrganization = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await organizationsApi.getMine();
+      applyResponse(response.data);
+      if (!response.data?.organization) {
+        const invitationsResponse = await organizationsApi.getInvitations();
+        setInvitations(invitationsResponse.data?.invitations || []);
+      }
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load organization',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [applyResponse, toast]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  const runAction = async (
+    action: () => Promise<ApiResponse<OrganizationMembership | void>>,
+    successMessage: string
+  ) => {
+    try {
+      const response = await action();
+      if (response?.data) applyResponse(response.data);
+      toast({ title: 'Success', description: response?.message || successMessage });
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    await runAction(() => organizationsApi.create(details), 'Organization created');
+    setSaving(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    await runAction(() => organizationsApi.update(details), 'Organization updated');
+    setSaving(false);
+  };
+
+  const handleInvite = async () => {
+    setAdding(true);
+    const invited = await runAction(() => organizationsApi.invite(newMember.email, newMember.role), 'Invitation sent');
+    if (invited) setNewMember({ email: '', role: 'recruiter' });
+    setAdding(false);
+  };
+
+  const handleDecline = async (organizationId: string) => {
+    const declined = await runAction(() => organizationsApi.declineInvitation(organizationId), 'Invitation declined');
+    if (declined) setInvitations(invitations.filter((i) => i.organizationId !== organizationId));
+  };
+
+  const handleLeave = async () => {
+    const left = await runAction(() => organizationsApi.leave(), 'You have left the organization');
+    if (left) fetchOrganization();
+  };
+
+  const getInitials = (name: string) =>
+    name
+      .split(' ')
+      .map((n) => n[0])
+      .join('')
+      .toUpperCase()
+      .slice(0, 2);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in max-w-4xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Organization</h1>
+        <p className="text-muted-foreground">
+          Share jobs, candidates and the talent pool with your hiring team
+        </p>
+      </div>
+
+      {/* Invitations waiting for this recruiter */}
+      {!organization && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Mail className="w-5 h-5 text-primary" />
+              Invitations
+            </CardTitle>
+            <CardDescription>
+              Joining shares your existing jobs, talent pool and offers with the organization. They come back to you if
+              you leave.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {invitations.map((invitation) => (
+              <div key={invitation.organizationId} className="flex items-center gap-4 p-3 rounded-lg border">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{invitation.organizationName}</p>
+                  <p className="text-sm text-muted-foreground">Invited as {ROLE_LABELS[invitation.role]}</p>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() =>
+                    runAction(() => organizationsApi.acceptInvitation(invitation.organizationId), 'Invitation accepted')
+                  }
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDecline(invitation.organizationId)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Organization Details */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Building2 className="w-5 h-5 text-primary" />
+            {organization ? organization.name : 'Create an Organization'}
+          </CardTitle>
+          <CardDescription>
+            {organization
+              ? `You are ${role === 'admin' ? 'an' : 'a'} ${ROLE_LABELS[role as OrganizationRole]} in this organization`
+              : 'Your existing jobs, talent pool and offers will be shared with everyone who joins'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="org-name">Name</Label>
+              <Input
+                id="org-name"
+                placeholder="Defaults to your company name"
+                value={details.name}
+                disabled={!!organization && !isAdmin}
+                onChange={(e) => setDetails({ ...details, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="org-website">Website</Label>
+              <Input
+                id="org-website"
+                value={details.website}
+                disabled={!!organization && !isAdmin}
+                onChange={(e) => setDetails({ ...details, website: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="org-location">Location</Label>
+              <Input
+                id="org-location"
+                value={details.location}
+                disabled={!!organization && !isAdmin}
+                onChange={(e) => setDetails({ ...details, location: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="org-description">Description</Label>
+            <Textarea
+              id="org-description"
+              rows={3}
+              value={details.description}
+              disabled={!!organization && !isAdmin}
+              onChange={(e) => setDetails({ ...details, description: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-between">
+            {organization ? (
+              <>
+                <Button variant="outline" onClick={handleLeave}>
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Leave Organization
+                </Button>
+                {isAdmin && (
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                    Save Changes
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button onClick={handleCreate} disabled={saving} className="ml-auto">
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Building2 className="w-4 h-4 mr-2" />}
+                Create Organization
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {organization && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              Team Members ({organization.members.length})
+            </CardTitle>
+            <CardDescription>Roles decide what each member can change</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {organization.members.map((member) => (
+              <div key={member.userId} className="flex items-center gap-4 p-3 rounded-lg border">
+                <Avatar className="w-10 h-10">
+                  <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                    {getInitials(member.fullName)}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {member.fullName}
+                    {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {isAdmin ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) =>
+                      runAction(() => organizationsApi.updateMemberRole(member.userId, value as OrganizationRole), 'Role updated')
+                    }
+                  >
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant="secondary" className="flex items-center gap-1">
+                    {member.role === 'admin' && <Shield className="w-3 h-3" />}
+                    {ROLE_LABELS[member.role]}
+                  </Badge>
+                )}
+                {isAdmin && member.userId !== user?.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runAction(() => organizationsApi.removeMember(member.userId), 'Member removed')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {isAdmin && organization.invitations.length > 0 && (
+              <div className="pt-4 border-t space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Mail className="w-4 h-4" />
+                  Pending invitations
+                </Label>
+                {organization.invitations.map((invitation) => (
+                  <div key={invitation.userId} className="flex items-center gap-4 p-3 rounded-lg border border-dashed">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{invitation.fullName}</p>
+                      <p className="text-sm text-muted-foreground truncate">{invitation.email}</p>
+                    </div>
+                    <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Withdraw invitation"
+                      onClick={() =>
+                        runAction(() => organizationsApi.cancelInvitation(invitation.userId), 'Invitation withdrawn')
+                      }
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="pt-4 border-t space-y-3">
+                <Label className="flex items-center gap-2">
+                  <UserPlus className="w-4 h-4" />
+                  Invite a recruiter by email
+                </Label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    type="email"
+                    placeholder="colleague@company.com"
+                    value={newMember.email}
+                    onChange={(e) => setNewMember({ ...newMember, email: e.target.value })}
+                  />
+                  <Select
+                    value={newMember.role}
+                    onValueChange={(value) => setNewMember({ ...newMember, role: value as OrganizationRole })}
+                  >
+                    <SelectTrigger className="w-full sm:w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleInvite} disabled={adding || !newMember.email}>
+                    {adding && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Send Invitation
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[newMember.role]}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Organization;
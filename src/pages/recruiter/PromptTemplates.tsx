@@ -0,0 +1,327 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { promptsApi, ApiResponse, PromptEntry, PromptStatus, PromptVersion } from '@/lib/api';
+import { ScrollText, Plus, Loader2, Rocket, Archive, Save, Eye, EyeOff, X } from 'lucide-react';
+
+// The draft being written for a prompt, prefilled from its newest version
+interface VersionDraft {
+  name: string;
+  system: string;
+  template: string;
+  outputSchema: string;
+  notes: string;
+}
+
+const STATUS_VARIANTS: Record<PromptStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  draft: 'outline',
+  retired: 'secondary',
+};
+
+const PromptTemplates = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [prompts, setPrompts] = useState<PromptEntry[]>([]);
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [draft, setDraft] = useState<VersionDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPrompts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await promptsApi.getAll();
+      const list = response.data?.prompts || [];
+      setPrompts(list);
+      setShares(
+        Object.fromEntries(
+          list.flatMap((prompt) => prompt.versions.map((v) => [v._id, String(v.trafficShare || '')]))
+        )
+      );
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load prompts',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user?.isPlatformAdmin) fetchPrompts();
+  }, [fetchPrompts, user?.isPlatformAdmin]);
+
+  const runAction = async (action: () => Promise<ApiResponse>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await action();
+      toast({ title: 'Success', description: response?.message || successMessage });
+      fetchPrompts();
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startDraft = (prompt: PromptEntry) => {
+    const latest = prompt.versions[0];
+    setDraft({
+      name: prompt.name,
+      system: latest?.system || '',
+      template: latest?.template || '',
+      outputSchema: '',
+      notes: '',
+    });
+  };
+
+  const handleCreateVersion = async () => {
+    if (!draft) return;
+
+    let outputSchema: unknown;
+    if (draft.outputSchema.trim()) {
+      try {
+        outputSchema = JSON.parse(draft.outputSchema);
+      } catch {
+        toast({ title: 'Error', description: 'Output schema is not valid JSON', variant: 'destructive' });
+        return;
+      }
+    }
+
+    const created = await runAction(
+      () =>
+        promptsApi.createVersion(draft.name, {
+          system: draft.system,
+          template: draft.template,
+          outputSchema,
+          notes: draft.notes.trim() || undefined,
+        }),
+      'Draft version added'
+    );
+    if (created) setDraft(null);
+  };
+
+  // Put a version live (or change its share) at the traffic share typed next to it
+  const handleSetShare = (prompt: PromptEntry, version: PromptVersion) => {
+    const trafficShare = parseInt(shares[version._id], 10);
+    runAction(
+      () => promptsApi.updateRollout(prompt.name, version.version, { status: 'active', trafficShare }),
+      'Rollout updated'
+    );
+  };
+
+  if (!user?.isPlatformAdmin) {
+    return (
+      <Card className="max-w-xl">
+        <CardHeader>
+          <CardTitle className="text-lg">AI Prompts</CardTitle>
+          <CardDescription>Only platform administrators can manage AI prompts.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in max-w-5xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">AI Prompts</h1>
+        <p className="text-muted-foreground">
+          Versions of the prompts behind every AI feature. Split traffic between versions to compare them, and promote
+          the winner - or an earlier version to roll back.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        prompts.map((prompt) => (
+          <Card key={prompt.name}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <ScrollText className="w-5 h-5 text-primary" />
+                    {prompt.name}
+                  </CardTitle>
+                  <CardDescription>{prompt.description}</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => startDraft(prompt)}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  New Version
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {prompt.versions.length === 0 && (
+                <p className="text-sm text-muted-foreground">Using the built-in prompt (no database versions yet)</p>
+              )}
+
+              {prompt.versions.map((version) => (
+                <div key={version._id} className="p-3 rounded-lg border space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground">Version {version.version}</span>
+                        <Badge variant={STATUS_VARIANTS[version.status]} className="capitalize">
+                          {version.status}
+                        </Badge>
+                        {version.status === 'active' && (
+                          <span className="text-sm text-muted-foreground">{version.trafficShare}% of traffic</span>
+                        )}
+                        {version.builtIn && <Badge variant="outline">Built-in</Badge>}
+                      </div>
+                      {version.notes && <p className="text-sm text-muted-foreground break-words">{version.notes}</p>}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Input
+                        className="w-20 h-8"
+                        type="number"
+                        min={1}
+                        max={100}
+                        placeholder="%"
+                        value={shares[version._id] ?? ''}
+                        onChange={(e) => setShares({ ...shares, [version._id]: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={version.status === 'active' ? 'Save traffic share' : 'Go live at this traffic share'}
+                        disabled={saving || !shares[version._id]}
+                        onClick={() => handleSetShare(prompt, version)}
+                      >
+                        <Save className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Send all traffic to this version"
+                        disabled={saving || (version.status === 'active' && version.trafficShare === 100)}
+                        onClick={() =>
+                          runAction(() => promptsApi.promote(prompt.name, version.version), 'Version promoted')
+                        }
+                      >
+                        <Rocket className="w-4 h-4" />
+                      </Button>
+                      {version.status === 'active' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Retire"
+                          disabled={saving}
+                          onClick={() =>
+                            runAction(
+                              () => promptsApi.updateRollout(prompt.name, version.version, { status: 'retired' }),
+                              'Version retired'
+                            )
+                          }
+                        >
+                          <Archive className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={expanded === version._id ? 'Hide prompt' : 'Show prompt'}
+                        onClick={() => setExpanded(expanded === version._id ? null : version._id)}
+                      >
+                        {expanded === version._id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expanded === version._id && (
+                    <div className="space-y-2 pt-2 border-t">
+                      {version.system && (
+                        <p className="text-sm text-muted-foreground">
+                          <span className="font-medium text-foreground">System: </span>
+                          {version.system}
+                        </p>
+                      )}
+                      <pre className="text-xs bg-muted rounded-md p-3 whitespace-pre-wrap break-words max-h-96 overflow-auto">
+                        {version.template}
+                      </pre>
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {draft?.name === prompt.name && (
+                <div className="p-3 rounded-lg border border-primary/40 space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor={`${prompt.name}-system`}>System instruction</Label>
+                    <Input
+                      id={`${prompt.name}-system`}
+                      value={draft.system}
+                      onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${prompt.name}-template`}>Template</Label>
+                    <Textarea
+                      id={`${prompt.name}-template`}
+                      className="font-mono text-xs min-h-[240px]"
+                      value={draft.template}
+                      onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Variables: {prompt.variables.map((variable) => `{{${variable}}}`).join(', ')}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${prompt.name}-schema`}>Output schema (JSON, leave empty to keep the current one)</Label>
+                    <Textarea
+                      id={`${prompt.name}-schema`}
+                      className="font-mono text-xs"
+                      value={draft.outputSchema}
+                      onChange={(e) => setDraft({ ...draft, outputSchema: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`${prompt.name}-notes`}>Notes</Label>
+                    <Input
+                      id={`${prompt.name}-notes`}
+                      placeholder="What changed and why"
+                      value={draft.notes}
+                      onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={handleCreateVersion} disabled={saving || !draft.template.trim()}>
+                      {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                      Save as Draft
+                    </Button>
+                    <Button variant="ghost" onClick={() => setDraft(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplates;
@@ -42,6 +42,13 @@ interface DashboardStats {
   avgScore: number;
 }
 
+interface StageCount {
+  key: string;
+  name: string;
+  status: string;
+  count: number;
+}
+
 interface RecentApplication {
   id: string;
   applicantName: string;
@@ -66,6 +73,7 @@ const RecruiterDashboard = () => {
     avgScore: 0,
   });
   const [recentApplications, setRecentApplications] = useState<RecentApplication[]>([]);
+  const [stageCounts, setStageCounts] = useState<StageCount[]>([]);
 
   useEffect(() => {
     fetchDashboardData();
@@ -78,6 +86,7 @@ const RecruiterDashboard = () => {
       if (response.data) {
         setStats(response.data.stats);
         setRecentApplications(response.data.recentApplications || []);
+        setStageCounts(response.data.stageCounts || []);
       }
     } catch (error: any) {
       toast({
@@ -97,12 +106,15 @@ const RecruiterDashboard = () => {
     { label: 'Under Review', value: stats.reviewingCount.toString(), icon: Calendar, color: 'bg-warning' },
   ];
 
-  const pipelineData = [
-    { name: 'Pending', value: stats.pendingCount },
-    { name: 'Reviewing', value: stats.reviewingCount },
-    { name: 'Selected', value: stats.selectedCount },
-    { name: 'Rejected', value: stats.rejectedCount },
-  ];
+  // Driven by the stages of the recruiter's job pipelines
+  const pipelineData = stageCounts.length > 0
+    ? stageCounts.map((stage) => ({ name: stage.name, value: stage.count }))
+    : [
+        { name: 'Pending', value: stats.pendingCount },
+        { name: 'Reviewing', value: stats.reviewingCount },
+        { name: 'Selected', value: stats.selectedCount },
+        { name: 'Rejected', value: stats.rejectedCount },
+      ];
 
   if (isLoading) {
     return (
@@ -191,7 +203,7 @@ const RecruiterDashboard = () => {
                 <div key={item.name} className="flex items-center gap-2">
                   <div
                     className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: COLORS[index] }}
+                    style={{ backgroundColor: COLORS[index % COLORS.length] }}
                   />
                   <span className="text-sm text-muted-foreground">
                     {item.name}: {item.value}
@@ -11,6 +11,7 @@ import { Building2, Briefcase, Users, AlertCircle, CheckCircle2, Loader2, Save,
 import { Progress } from '@/components/ui/progress';
 import { VerificationBadge } from '@/components/ui/verification-badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import AvailabilitySettings from '@/components/recruiter/AvailabilitySettings';
 
 const RecruiterProfile = () => {
   const { user } = useAuth();
@@ -456,6 +457,9 @@ const RecruiterProfile = () => {
           )}
         </Button>
       </div>
+
+      {/* Interview Availability */}
+      <AvailabilitySettings />
     </div>
   );
 };
@@ -7,7 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-import { applicationsApi } from '@/lib/api';
+import { applicationsApi, OfferSummary } from '@/lib/api';
+import { OfferDialog } from '@/components/recruiter/OfferDialog';
 import {
   Users,
   UserCheck,
@@ -23,6 +24,7 @@ import {
   Clock,
   ThumbsUp,
   Loader2,
+  Gift,
 } from 'lucide-react';
 
 interface SelectedCandidate {
@@ -32,6 +34,8 @@ interface SelectedCandidate {
   email: string;
   jobTitle: string;
   department: string;
+  salaryMin?: number;
+  salaryMax?: number;
   status: string;
   score: number;
   skills: string[];
@@ -39,6 +43,7 @@ interface SelectedCandidate {
   githubScore: number;
   hiredAt: string | null;
   shortlistedAt: string;
+  offer: OfferSummary | null;
 }
 
 interface Stats {
@@ -53,6 +58,7 @@ const SelectedCandidates = () => {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [offerCandidate, setOfferCandidate] = useState<SelectedCandidate | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -186,6 +192,23 @@ const SelectedCandidates = () => {
                 Hired on {new Date(candidate.hiredAt).toLocaleDateString()}
               </div>
             )}
+
+            {candidate.offer && (
+              <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                <Gift className="w-3 h-3" />
+                <span>
+                  Offer {candidate.offer.status}: {candidate.offer.currency} {candidate.offer.salary.toLocaleString()}
+                </span>
+              </div>
+            )}
+
+            {/* Offers can be made to selected candidates without an open offer, or drafts edited */}
+            {candidate.status === 'selected' && (!candidate.offer || !['sent', 'accepted'].includes(candidate.offer.status)) && (
+              <Button size="sm" variant="outline" className="mt-3" onClick={() => setOfferCandidate(candidate)}>
+                <Gift className="w-4 h-4 mr-2" />
+                {candidate.offer?.status === 'draft' ? 'Edit Offer' : 'Make Offer'}
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -387,6 +410,20 @@ const SelectedCandidates = () => {
           )}
         </TabsContent>
       </Tabs>
+
+      {offerCandidate && (
+        <OfferDialog
+          open={!!offerCandidate}
+          onOpenChange={(open) => !open && setOfferCandidate(null)}
+          applicationId={offerCandidate.id}
+          candidateName={offerCandidate.name}
+          jobTitle={offerCandidate.jobTitle}
+          salaryMin={offerCandidate.salaryMin}
+          salaryMax={offerCandidate.salaryMax}
+          draft={offerCandidate.offer?.status === 'draft' ? offerCandidate.offer : null}
+          onSaved={fetchCandidates}
+        />
+      )}
     </div>
   );
 };
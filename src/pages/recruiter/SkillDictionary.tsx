@@ -0,0 +1,395 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { skillsApi, ApiResponse, SkillEntry, SkillStatus, UnmatchedSkill } from '@/lib/api';
+import { BookOpen, Plus, Loader2, Search, Pencil, GitMerge, Archive, RotateCcw, HelpCircle, Save, X } from 'lucide-react';
+
+// The skill being edited inline, and whether its aliases or a merge target are being entered
+interface SkillEdit {
+  name: string;
+  mode: 'aliases' | 'merge';
+  value: string;
+}
+
+const parseAliases = (value: string) =>
+  value
+    .split(',')
+    .map((alias) => alias.trim())
+    .filter(Boolean);
+
+const SkillDictionary = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [skills, setSkills] = useState<SkillEntry[]>([]);
+  const [unmatched, setUnmatched] = useState<UnmatchedSkill[]>([]);
+  const [statusFilter, setStatusFilter] = useState<SkillStatus | 'all'>('active');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState(''); // Search the list shows - applied on Enter or Search
+  const [newSkill, setNewSkill] = useState({ name: '', aliases: '' });
+  const [edit, setEdit] = useState<SkillEdit | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unmatchedLoading, setUnmatchedLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSkills = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await skillsApi.getAll({ status: statusFilter, search: query || undefined });
+      setSkills(response.data?.skills || []);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load skills',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, query, toast]);
+
+  const fetchUnmatched = useCallback(async () => {
+    try {
+      setUnmatchedLoading(true);
+      const response = await skillsApi.getUnmatched();
+      setUnmatched(response.data?.skills || []);
+    } catch {
+      setUnmatched([]);
+    } finally {
+      setUnmatchedLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user?.isPlatformAdmin) fetchSkills();
+  }, [fetchSkills, user?.isPlatformAdmin]);
+
+  useEffect(() => {
+    if (user?.isPlatformAdmin) fetchUnmatched();
+  }, [fetchUnmatched, user?.isPlatformAdmin]);
+
+  // Every change can move spellings in or out of the unmatched report, so both lists reload
+  const runAction = async (action: () => Promise<ApiResponse>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const response = await action();
+      toast({ title: 'Success', description: response?.message || successMessage });
+      fetchSkills();
+      fetchUnmatched();
+      return true;
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await runAction(
+      () => skillsApi.create(newSkill.name.trim(), parseAliases(newSkill.aliases)),
+      'Skill added'
+    );
+    if (created) setNewSkill({ name: '', aliases: '' });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!edit) return;
+    const saved = await runAction(
+      () =>
+        edit.mode === 'aliases'
+          ? skillsApi.updateAliases(edit.name, parseAliases(edit.value))
+          : skillsApi.merge(edit.name, edit.value.trim()),
+      edit.mode === 'aliases' ? 'Aliases updated' : 'Skill merged'
+    );
+    if (saved) setEdit(null);
+  };
+
+  // Add an unmatched spelling to an existing skill
+  const handleAddAlias = async (item: UnmatchedSkill, skillName: string) => {
+    try {
+      const response = await skillsApi.getAll({ status: 'active', search: skillName });
+      const skill = (response.data?.skills || []).find((s) => s.name === skillName);
+      if (!skill) throw new Error(`Skill "${skillName}" not found`);
+      await runAction(
+        () => skillsApi.updateAliases(skill.name, [...skill.aliases, item.skill]),
+        `"${item.skill}" now counts as ${skill.name}`
+      );
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Something went wrong',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!user?.isPlatformAdmin) {
+    return (
+      <Card className="max-w-xl">
+        <CardHeader>
+          <CardTitle className="text-lg">Skill Dictionary</CardTitle>
+          <CardDescription>Only platform administrators can edit the skill dictionary.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in max-w-5xl">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Skill Dictionary</h1>
+        <p className="text-muted-foreground">
+          The skills and spellings used to match candidates to jobs across every organization
+        </p>
+      </div>
+
+      {/* Add Skill */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Plus className="w-5 h-5 text-primary" />
+            Add a Skill
+          </CardTitle>
+          <CardDescription>Aliases are other spellings that should count as this skill</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="skill-name">Name</Label>
+              <Input
+                id="skill-name"
+                placeholder="e.g. sveltekit"
+                value={newSkill.name}
+                onChange={(e) => setNewSkill({ ...newSkill, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="skill-aliases">Aliases (comma-separated)</Label>
+              <Input
+                id="skill-aliases"
+                placeholder="e.g. svelte kit, svelte-kit"
+                value={newSkill.aliases}
+                onChange={(e) => setNewSkill({ ...newSkill, aliases: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={saving || !newSkill.name.trim()}>
+              {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add Skill
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Skills */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-primary" />
+            Skills
+          </CardTitle>
+          <CardDescription>Merge duplicates into one skill, or retire skills that should no longer match</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder="Search names and aliases"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && setQuery(search.trim())}
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SkillStatus | 'all')}>
+              <SelectTrigger className="w-full sm:w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="retired">Retired</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => setQuery(search.trim())}>
+              Search
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : skills.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No skills found</p>
+          ) : (
+            <div className="space-y-2">
+              {skills.map((skill) => (
+                <div key={skill._id} className="p-3 rounded-lg border space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-foreground">{skill.name}</span>
+                        {skill.status === 'retired' && (
+                          <Badge variant="secondary">
+                            {skill.mergedInto ? `Merged into ${skill.mergedInto}` : 'Retired'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground break-words">
+                        {skill.aliases.filter((alias) => alias !== skill.name).join(', ') || 'No aliases'}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {skill.status === 'active' ? (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit aliases"
+                            onClick={() =>
+                              setEdit({
+                                name: skill.name,
+                                mode: 'aliases',
+                                value: skill.aliases.filter((alias) => alias !== skill.name).join(', '),
+                              })
+                            }
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Merge into another skill"
+                            onClick={() => setEdit({ name: skill.name, mode: 'merge', value: '' })}
+                          >
+                            <GitMerge className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Retire"
+                            disabled={saving}
+                            onClick={() => runAction(() => skillsApi.retire(skill.name), 'Skill retired')}
+                          >
+                            <Archive className="w-4 h-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => runAction(() => skillsApi.restore(skill.name), 'Skill restored')}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {edit?.name === skill.name && (
+                    <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t">
+                      <Input
+                        autoFocus
+                        placeholder={edit.mode === 'aliases' ? 'Comma-separated aliases' : 'Merge into skill (e.g. javascript)'}
+                        value={edit.value}
+                        onChange={(e) => setEdit({ ...edit, value: e.target.value })}
+                      />
+                      <Button onClick={handleSaveEdit} disabled={saving || (edit.mode === 'merge' && !edit.value.trim())}>
+                        {saving ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : edit.mode === 'aliases' ? (
+                          <Save className="w-4 h-4 mr-2" />
+                        ) : (
+                          <GitMerge className="w-4 h-4 mr-2" />
+                        )}
+                        {edit.mode === 'aliases' ? 'Save Aliases' : 'Merge'}
+                      </Button>
+                      <Button variant="ghost" onClick={() => setEdit(null)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Unmatched Skills */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <HelpCircle className="w-5 h-5 text-primary" />
+            Unmatched Skills
+          </CardTitle>
+          <CardDescription>
+            Skills entered on candidate profiles and jobs that the dictionary doesn't recognize, most frequent first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unmatchedLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : unmatched.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Every skill in use is recognized</p>
+          ) : (
+            <div className="space-y-2">
+              {unmatched.map((item) => (
+                <div key={item.skill} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg border">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{item.skill}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.profileCount} profile{item.profileCount === 1 ? '' : 's'} · {item.jobCount} job
+                      {item.jobCount === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {item.suggestions.map((suggestion) => (
+                      <Button
+                        key={suggestion}
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => handleAddAlias(item, suggestion)}
+                      >
+                        Alias of {suggestion}
+                      </Button>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => runAction(() => skillsApi.create(item.skill, []), 'Skill added')}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      New skill
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SkillDictionary;
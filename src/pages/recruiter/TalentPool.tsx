@@ -41,6 +41,7 @@ interface SuggestedJob {
   status: string;
   matchScore: number;
   matchedSkills: string[];
+  relatedMatches?: string[]; // Related skills that earned partial credit
 }
 
 interface TalentPoolEntry {
@@ -443,11 +444,16 @@ const TalentPool = () => {
                         </p>
                         <div className="space-y-1">
                           {entry.suggestedJobs.slice(0, 2).map((job, index) => (
-                            <div key={index} className="flex items-center justify-between text-sm">
-                              <span className="font-medium">{job.title}</span>
-                              <Badge variant="secondary" className="text-xs">
-                                {job.matchScore}% match
-                              </Badge>
+                            <div key={index} className="text-sm">
+                              <div className="flex items-center justify-between">
+                                <span className="font-medium">{job.title}</span>
+                                <Badge variant="secondary" className="text-xs">
+                                  {job.matchScore}% match
+                                </Badge>
+                              </div>
+                              {job.relatedMatches?.map((explanation) => (
+                                <p key={explanation} className="text-xs text-muted-foreground">{explanation}</p>
+                              ))}
                             </div>
                           ))}
                         </div>